@@ -0,0 +1,309 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { ListChecks, Clock, FileText, Trash2 } from "lucide-react";
+import {
+  Container,
+  Title,
+  Text,
+  Stack,
+  Group,
+  Paper,
+  Table,
+  Select,
+  Switch,
+  TextInput,
+  Badge,
+  Anchor,
+  ActionIcon,
+  Tooltip,
+  Skeleton,
+} from "@mantine/core";
+import { notifications } from "@mantine/notifications";
+import { useActionItems } from "@/hooks/use-action-items";
+import { fromIsoDate, isActionItemOverdue, toIsoDate } from "@/lib/action-items";
+import { getDepartmentsForSelect } from "@/lib/departments";
+import { formatTimestamp, getTranscriptHref } from "@/lib/transcript-utils";
+import type {
+  ActionItemFilters,
+  ActionItemStatus,
+  ActionItemUpdate,
+} from "@/types/action-item";
+
+const statusOptions: Array<{ value: ActionItemStatus; label: string }> = [
+  { value: "open", label: "Open" },
+  { value: "in_progress", label: "In Progress" },
+  { value: "done", label: "Done" },
+  { value: "superseded", label: "Superseded" },
+];
+
+/**
+ * Owner cell: edits are saved when the field loses focus or on Enter
+ */
+function OwnerInput({
+  owner,
+  onSave,
+}: {
+  owner?: string;
+  onSave: (owner: string | undefined) => void;
+}) {
+  const [value, setValue] = React.useState(owner ?? "");
+
+  React.useEffect(() => {
+    setValue(owner ?? "");
+  }, [owner]);
+
+  const commit = () => {
+    const trimmed = value.trim();
+    if (trimmed !== (owner ?? "")) {
+      onSave(trimmed || undefined);
+    }
+  };
+
+  return (
+    <TextInput
+      size="xs"
+      value={value}
+      placeholder="Unassigned"
+      onChange={(e) => setValue(e.currentTarget.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      aria-label="Owner"
+    />
+  );
+}
+
+/**
+ * Action item tracker: open work from every meeting in one place
+ */
+export default function ActionItemsPage() {
+  const [filters, setFilters] = React.useState<ActionItemFilters>({});
+  const { items, transcripts, owners, isLoading, updateActionItem, deleteActionItem } =
+    useActionItems(filters);
+
+  const handleUpdate = React.useCallback(
+    async (id: string, updates: ActionItemUpdate) => {
+      try {
+        await updateActionItem(id, updates);
+      } catch (error) {
+        notifications.show({
+          title: "Update Failed",
+          message: error instanceof Error ? error.message : "Failed to update action item",
+          color: "red",
+        });
+      }
+    },
+    [updateActionItem]
+  );
+
+  const handleDelete = React.useCallback(
+    async (id: string) => {
+      try {
+        await deleteActionItem(id);
+      } catch (error) {
+        notifications.show({
+          title: "Delete Failed",
+          message: error instanceof Error ? error.message : "Failed to delete action item",
+          color: "red",
+        });
+      }
+    },
+    [deleteActionItem]
+  );
+
+  return (
+    <Container size="xl" py="xl">
+      <Stack gap="xl">
+        {/* Header Section */}
+        <Stack gap="xs">
+          <Title order={1} size="h1">
+            Action Items
+          </Title>
+          <Text size="sm" c="dimmed">
+            Track action items from all your meetings
+          </Text>
+        </Stack>
+
+        {/* Filters */}
+        <Group gap="sm" align="flex-end">
+          <Select
+            label="Department"
+            placeholder="All departments"
+            data={getDepartmentsForSelect()}
+            value={filters.department ?? null}
+            onChange={(department) => setFilters({ ...filters, department: department ?? undefined })}
+            clearable
+            searchable
+            w={240}
+          />
+          <Select
+            label="Owner"
+            placeholder="Anyone"
+            data={owners}
+            value={filters.owner ?? null}
+            onChange={(owner) => setFilters({ ...filters, owner: owner ?? undefined })}
+            clearable
+            searchable
+            w={200}
+          />
+          <Select
+            label="Status"
+            placeholder="Any status"
+            data={statusOptions}
+            value={filters.status ?? null}
+            onChange={(status) =>
+              setFilters({ ...filters, status: (status as ActionItemStatus | null) ?? undefined })
+            }
+            clearable
+            w={160}
+          />
+          <Switch
+            label="Overdue only"
+            checked={filters.overdueOnly ?? false}
+            onChange={(e) => setFilters({ ...filters, overdueOnly: e.currentTarget.checked })}
+            mb={8}
+          />
+        </Group>
+
+        {isLoading ? (
+          <Stack gap="sm">
+            {[0, 1, 2].map((i) => (
+              <Skeleton key={i} height={48} radius="md" />
+            ))}
+          </Stack>
+        ) : items.length === 0 ? (
+          <Paper withBorder radius="md" p="xl">
+            <Stack align="center" gap="xs">
+              <ListChecks size={40} style={{ color: "var(--logo-blue)" }} />
+              <Text fw={600}>No action items</Text>
+              <Text size="sm" c="dimmed" ta="center">
+                Action items appear here when an analysis finds them in a meeting.
+              </Text>
+            </Stack>
+          </Paper>
+        ) : (
+          <Paper withBorder radius="md" style={{ overflowX: "auto" }}>
+            <Table striped highlightOnHover style={{ minWidth: 900 }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th w={150}>Status</Table.Th>
+                  <Table.Th>Task</Table.Th>
+                  <Table.Th w={180}>Owner</Table.Th>
+                  <Table.Th w={170}>Due</Table.Th>
+                  <Table.Th w={220}>Meeting</Table.Th>
+                  <Table.Th w={50} />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {items.map((item) => {
+                  const transcript = transcripts.get(item.transcriptId);
+                  const overdue = isActionItemOverdue(item);
+                  return (
+                    <Table.Tr key={item.id} style={{ opacity: item.status === "done" || item.status === "superseded" ? 0.6 : 1 }}>
+                      <Table.Td>
+                        <Select
+                          size="xs"
+                          data={statusOptions}
+                          value={item.status}
+                          onChange={(status) =>
+                            status && handleUpdate(item.id, { status: status as ActionItemStatus })
+                          }
+                          allowDeselect={false}
+                          aria-label="Status"
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <Text size="sm" td={item.status === "done" ? "line-through" : undefined}>
+                          {item.task}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td>
+                        <OwnerInput
+                          owner={item.owner}
+                          onSave={(owner) => handleUpdate(item.id, { owner })}
+                        />
+                      </Table.Td>
+                      <Table.Td>
+                        <Stack gap={4}>
+                          <TextInput
+                            size="xs"
+                            type="date"
+                            value={item.dueDate ? toIsoDate(item.dueDate) : ""}
+                            onChange={(e) => {
+                              const value = e.currentTarget.value;
+                              handleUpdate(item.id, { dueDate: value ? fromIsoDate(value) : undefined });
+                            }}
+                            error={overdue}
+                            aria-label="Due date"
+                          />
+                          {overdue && (
+                            <Badge size="xs" color="red" variant="light">
+                              Overdue
+                            </Badge>
+                          )}
+                          {item.deadline && (
+                            <Text size="xs" c="dimmed">
+                              &quot;{item.deadline}&quot;
+                              {item.dueDate && item.deadlineConfidence === "low" && " (approximate)"}
+                            </Text>
+                          )}
+                        </Stack>
+                      </Table.Td>
+                      <Table.Td>
+                        <Stack gap={2}>
+                          <Anchor
+                            component={Link}
+                            href={getTranscriptHref(item.transcriptId, transcript?.segments, item.timestamp)}
+                            size="sm"
+                            lineClamp={1}
+                          >
+                            {transcript?.filename ?? "Deleted transcript"}
+                          </Anchor>
+                          <Group gap="xs">
+                            {item.timestamp !== undefined && (
+                              <Group gap={4}>
+                                <Clock size={12} color="var(--mantine-color-dimmed)" />
+                                <Text size="xs" c="dimmed">
+                                  {formatTimestamp(item.timestamp)}
+                                </Text>
+                              </Group>
+                            )}
+                            <Anchor
+                              component={Link}
+                              href={`/transcripts/${item.transcriptId}?analysis=${item.analysisId}`}
+                              size="xs"
+                            >
+                              <Group gap={4}>
+                                <FileText size={12} />
+                                Analysis
+                              </Group>
+                            </Anchor>
+                          </Group>
+                        </Stack>
+                      </Table.Td>
+                      <Table.Td>
+                        <Tooltip label="Remove from tracker">
+                          <ActionIcon
+                            variant="subtle"
+                            color="red"
+                            onClick={() => handleDelete(item.id)}
+                            aria-label="Remove from tracker"
+                          >
+                            <Trash2 size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      </Table.Td>
+                    </Table.Tr>
+                  );
+                })}
+              </Table.Tbody>
+            </Table>
+          </Paper>
+        )}
+      </Stack>
+    </Container>
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * Analysis API Route Handler
+ *
+ * Reads and deletes a single analysis in the server store.
+ *
+ * @route GET /api/analyses/[id]
+ * @route DELETE /api/analyses/[id]
+ */
+
+import { NextRequest } from 'next/server';
+import { successResponse } from '@/lib/api-utils';
+import { notFoundResponse, withServerStore } from '@/lib/server-store/routes';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/analyses/[id]
+ *
+ * Response:
+ * - Success (200): { success: true, data: Analysis }
+ * - Not Found (404)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Analyses API', (store) => {
+    const analysis = store.getAnalysis(id);
+    return analysis ? successResponse(analysis) : notFoundResponse('Analysis', id);
+  });
+}
+
+/**
+ * DELETE /api/analyses/[id]
+ *
+ * Response:
+ * - Success (200): { success: true, data: { deleted: number } }
+ * - Not Found (404)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Analyses API', (store) => {
+    const deleted = store.deleteAnalyses([id]);
+    return deleted ? successResponse({ deleted }) : notFoundResponse('Analysis', id);
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Analyses Collection API Route Handler
+ *
+ * Lists, saves and deletes analyses in the server store.
+ *
+ * @route GET /api/analyses
+ * @route POST /api/analyses
+ * @route DELETE /api/analyses
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { reviveDates } from '@/lib/backup/archive';
+import { successResponse } from '@/lib/api-utils';
+import {
+  getQueryParams,
+  idListSchema,
+  paginationQuerySchema,
+  storedRecordSchema,
+  withServerStore,
+} from '@/lib/server-store/routes';
+import type { Analysis } from '@/types/analysis';
+
+const listQuerySchema = paginationQuerySchema.extend({
+  transcriptId: z.string().min(1, 'transcriptId is required'),
+});
+
+const analysisRecordSchema = storedRecordSchema.extend({
+  transcriptId: z.string().min(1),
+  templateId: z.string().min(1),
+});
+
+/**
+ * GET /api/analyses?transcriptId=...
+ *
+ * Lists a transcript's analyses by creation date.
+ *
+ * Response:
+ * - Success (200): { success: true, data: PaginatedResult<Analysis> }
+ */
+export async function GET(request: NextRequest) {
+  return withServerStore('Analyses API', (store) => {
+    const { transcriptId, ...options } = listQuerySchema.parse(getQueryParams(request));
+    return successResponse(store.listAnalyses(transcriptId, options));
+  });
+}
+
+/**
+ * POST /api/analyses
+ *
+ * Inserts or replaces an analysis.
+ *
+ * Response:
+ * - Success (201): { success: true, data: Analysis }
+ */
+export async function POST(request: NextRequest) {
+  return withServerStore('Analyses API', async (store) => {
+    const record = analysisRecordSchema.parse(await request.json());
+    const analysis = reviveDates.analyses(record as unknown as Analysis);
+
+    store.saveAnalysis(analysis);
+    return successResponse(analysis, 201);
+  });
+}
+
+/**
+ * DELETE /api/analyses
+ *
+ * Request Body: { ids: string[] }
+ *
+ * Response:
+ * - Success (200): { success: true, data: { deleted: number } }
+ */
+export async function DELETE(request: NextRequest) {
+  return withServerStore('Analyses API', async (store) => {
+    const { ids } = idListSchema.parse(await request.json());
+    return successResponse({ deleted: store.deleteAnalyses(ids) });
+  });
+}
@@ -1,39 +1,31 @@
 /**
  * Analysis Retrieval API Route Handler
  *
- * GET endpoint that retrieves saved analyses by transcript ID.
- * Note: Since analyses are stored client-side in IndexedDB, this endpoint
- * primarily serves as documentation and could be used if implementing
- * server-side storage in the future.
- *
- * Current Implementation:
- * - Returns analysis data structure documentation
- * - Can be extended to support server-side analysis storage
- * - Useful for API documentation and future server-side features
+ * Retrieves and deletes saved analyses from the server store. Requires
+ * server-side storage (NEXT_PUBLIC_STORAGE_BACKEND=server); with the default
+ * IndexedDB storage, analyses live in the browser and these endpoints
+ * respond 501. Use the client-side functions in `@/lib/db` in that case.
  *
  * @route GET /api/analyze/[id]
+ * @route DELETE /api/analyze/[id]
  */
 
-import { NextRequest, NextResponse } from 'next/server';
-
+import { NextRequest } from 'next/server';
+import { successResponse } from '@/lib/api-utils';
+import { notFoundResponse, withServerStore } from '@/lib/server-store/routes';
 
 /**
  * GET /api/analyze/[id]
  *
- * Retrieves saved analysis for a transcript.
+ * Retrieves saved analyses for a transcript, newest first.
  *
  * Path Parameters:
  * - id: Transcript ID
  *
  * Response:
  * - Success (200): { success: true, data: Analysis[] }
- * - Not Implemented (501): Information about client-side storage
- *
- * Note: Analyses are currently stored client-side in IndexedDB.
- * To retrieve analyses, use the client-side database functions:
- * - getAnalysisByTranscript(transcriptId) from @/lib/db
- *
- * This endpoint is reserved for future server-side storage implementation.
+ * - Not Found (404): Transcript does not exist
+ * - Not Implemented (501): Server-side storage is not enabled
  */
 export async function GET(
   request: NextRequest,
@@ -43,80 +35,12 @@ export async function GET(
 
   console.log(`[Analysis] Retrieval request for transcript: ${transcriptId}`);
 
-  // Current implementation: client-side storage
-  // Return information about how to access analyses
-  return NextResponse.json(
-    {
-      success: false,
-      error: 'Server-side analysis storage not implemented',
-      message:
-        'Analyses are currently stored client-side in IndexedDB. Use client-side database functions to retrieve analyses.',
-      clientSideAccess: {
-        library: '@/lib/db',
-        function: 'getAnalysisByTranscript',
-        usage: `import { getAnalysisByTranscript } from '@/lib/db';
-const analyses = await getAnalysisByTranscript('${transcriptId}');`,
-      },
-      futureImplementation: {
-        description:
-          'This endpoint is reserved for server-side analysis storage when implemented.',
-        roadmap: [
-          'Add server-side database (PostgreSQL, MongoDB, etc.)',
-          'Implement analysis persistence in server database',
-          'Update this endpoint to query server database',
-          'Add authentication and authorization',
-        ],
-      },
-      dataStructure: {
-        Analysis: {
-          id: 'string',
-          transcriptId: 'string',
-          templateId: 'string',
-          results: {
-            summary: 'string (optional)',
-            sections: [
-              {
-                name: 'string',
-                content: 'string',
-                evidence: [
-                  {
-                    text: 'string',
-                    start: 'number (seconds)',
-                    end: 'number (seconds)',
-                    relevance: 'number (0-1)',
-                  },
-                ],
-              },
-            ],
-            actionItems: [
-              {
-                task: 'string',
-                owner: 'string (optional)',
-                deadline: 'string (optional)',
-                timestamp: 'number (optional, seconds)',
-              },
-            ],
-            decisions: [
-              {
-                decision: 'string',
-                timestamp: 'number (seconds)',
-                context: 'string (optional)',
-              },
-            ],
-            quotes: [
-              {
-                text: 'string',
-                speaker: 'string (optional)',
-                timestamp: 'number (seconds)',
-              },
-            ],
-          },
-          createdAt: 'Date',
-        },
-      },
-    },
-    { status: 501 } // 501 Not Implemented
-  );
+  return withServerStore('Analysis', (store) => {
+    if (!store.getTranscript(transcriptId)) {
+      return notFoundResponse('Transcript', transcriptId);
+    }
+    return successResponse(store.listAnalyses(transcriptId).items);
+  });
 }
 
 /**
@@ -124,8 +48,13 @@ const analyses = await getAnalysisByTranscript('${transcriptId}');`,
  *
  * Deletes an analysis by ID.
  *
- * Currently not implemented for client-side storage.
- * Use client-side database functions: deleteAnalysis(id) from @/lib/db
+ * Path Parameters:
+ * - id: Analysis ID
+ *
+ * Response:
+ * - Success (200): { success: true, data: { id: string } }
+ * - Not Found (404): Analysis does not exist
+ * - Not Implemented (501): Server-side storage is not enabled
  */
 export async function DELETE(
   request: NextRequest,
@@ -135,19 +64,10 @@ export async function DELETE(
 
   console.log(`[Analysis] Delete request for analysis: ${analysisId}`);
 
-  return NextResponse.json(
-    {
-      success: false,
-      error: 'Server-side analysis deletion not implemented',
-      message:
-        'Analyses are currently stored client-side in IndexedDB. Use client-side database functions to delete analyses.',
-      clientSideAccess: {
-        library: '@/lib/db',
-        function: 'deleteAnalysis',
-        usage: `import { deleteAnalysis } from '@/lib/db';
-await deleteAnalysis('${analysisId}');`,
-      },
-    },
-    { status: 501 } // 501 Not Implemented
-  );
+  return withServerStore('Analysis', (store) => {
+    if (store.deleteAnalyses([analysisId]) === 0) {
+      return notFoundResponse('Analysis', analysisId);
+    }
+    return successResponse({ id: analysisId });
+  });
 }
@@ -2,8 +2,9 @@
  * Analysis API Route Handler
  *
  * POST endpoint that accepts transcript and template IDs and returns AI-powered analysis.
- * Uses Azure OpenAI GPT-5 (or GPT-41 for extended context) to analyze transcripts
- * based on template sections.
+ * Uses the model routed to the `analysis` task (Azure OpenAI GPT-5, GPT-41 for
+ * extended context, OpenAI, or a local model) to analyze transcripts based on
+ * template sections.
  *
  * Features:
  * - Multi-strategy analysis system (basic, hybrid, advanced)
@@ -11,33 +12,42 @@
  * - Optional self-evaluation pass for quality improvement
  * - Template-based analysis configuration
  * - GPT-5 powered content analysis with automatic extended-context fallback
+ * - Per-task model routing with fallback to a secondary backend
  * - Structured output (agenda items, action items, decisions, quotes)
  * - Relationship mapping between agenda, decisions, and action items
  * - Comprehensive error handling
- * - Progress tracking
+ * - Real-time progress and partial section results over SSE (opt-in)
  *
  * @route POST /api/analyze
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { OpenAIConfigError } from '@/lib/openai';
 import {
-  getOpenAIClient,
-  OpenAIConfigError,
-} from '@/lib/openai';
-import { executeAnalysis } from '@/lib/analysis-strategies';
+  getBackendClient,
+  resolveModelRoutes,
+  runWithFallback,
+  type ModelRoute,
+} from '@/lib/llm-routing';
 import {
-  estimateTokens,
-  selectDeploymentByTokens,
-  getDeploymentInfo,
-} from '@/lib/token-utils';
+  executeAnalysis,
+  getAnalysisPlan,
+  resolveAnalysisStrategy,
+  type AnalysisExecutionResult,
+  type AnalysisModel,
+} from '@/lib/analysis-strategies';
+import { buildProgressPhases } from '@/lib/analysis-progress-metadata';
+import { createSSEStream, SSE_HEADERS } from '@/lib/sse';
+import { estimateTokens } from '@/lib/token-utils';
+import { findUnresolvedVariables } from '@/lib/template-variables';
 import { errorResponse, successResponse } from '@/lib/api-utils';
 import type {
   Analysis,
+  AnalysisStreamEvent,
   Template,
 } from '@/types';
 
-
 /**
  * Request body validation schema
  */
@@ -65,18 +75,204 @@ const analyzeRequestSchema = z.object({
         prompt: z.string(),
         extractEvidence: z.boolean(),
         outputFormat: z.enum(['bullet_points', 'paragraph', 'table']),
+        dependencies: z.array(z.string()).optional(),
       })
     ),
     outputs: z.array(z.enum(['summary', 'action_items', 'quotes', 'decisions'])),
   }),
+  variables: z.record(z.string(), z.string()).optional(),
   strategy: z.enum(['basic', 'hybrid', 'advanced', 'auto']).optional(),
   runEvaluation: z.boolean().optional(),
+  stream: z.boolean().optional(),
   // Note: config field reserved for future use (advanced configuration options)
   // Currently not implemented in analysis execution
 });
 
 type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
 
+/**
+ * Build the error details returned when analysis execution fails
+ */
+function buildAnalysisErrorDetails(error: unknown): Record<string, unknown> {
+  const errorDetails: Record<string, unknown> = {
+    type: 'analysis_error',
+  };
+
+  // Only include stack trace in development
+  if (process.env.NODE_ENV === 'development' && error instanceof Error) {
+    errorDetails.details = error.stack;
+  }
+
+  return errorDetails;
+}
+
+/**
+ * Model for the self-evaluation pass when one is assigned to the
+ * `evaluation` task; otherwise evaluation runs on the analysis model
+ */
+function resolveEvaluationModel(estimatedTokens: number): AnalysisModel | undefined {
+  const [route] = resolveModelRoutes('evaluation', estimatedTokens);
+  if (!route.assigned) return undefined;
+
+  return {
+    openaiClient: getBackendClient(route.backend),
+    deployment: route.model,
+    contextLimit: route.contextLimit,
+  };
+}
+
+/**
+ * Create the analysis record returned to the client
+ */
+function buildAnalysisRecord(
+  result: AnalysisExecutionResult,
+  transcriptId: string,
+  templateId: string
+): Analysis {
+  const analysis: Analysis = {
+    id: crypto.randomUUID(),
+    transcriptId,
+    templateId,
+    analysisStrategy: result.strategy,
+    draftResults: result.draftResults,
+    evaluation: result.evaluation,
+    results: result.results,
+    metadata: result.metadata,
+    createdAt: new Date(),
+  };
+
+  console.log('[Analysis] Analysis completed successfully:', {
+    id: analysis.id,
+    strategy: result.strategy,
+    wasAutoSelected: result.metadata.wasAutoSelected,
+    sectionsAnalyzed: result.results.sections.length,
+    hasSummary: !!result.results.summary,
+    agendaItemCount: result.results.agendaItems?.length || 0,
+    actionItemCount: result.results.actionItems?.length || 0,
+    decisionCount: result.results.decisions?.length || 0,
+    quoteCount: result.results.quotes?.length || 0,
+    hadEvaluation: !!result.evaluation,
+    qualityScore: result.evaluation?.qualityScore,
+  });
+
+  return analysis;
+}
+
+/**
+ * Run analysis and stream progress to the client as server-sent events
+ *
+ * Emits `start` with the phases for the resolved strategy's real plan,
+ * `progress` as each step and the evaluation pass begin and end, `section`
+ * with partial results after each step, then `complete` or `error`.
+ * Phases are built from the same plan the strategy executes, so the
+ * client timeline matches what the server is doing. When the client
+ * disconnects, in-flight model calls are aborted so they stop billing.
+ */
+function streamAnalysis(
+  body: AnalyzeRequest,
+  routes: ModelRoute[],
+  evaluationModel: AnalysisModel | undefined,
+  signal: AbortSignal
+): Response {
+  const { transcriptId, templateId, transcript, template, strategy, variables } = body;
+  const runEvaluation = body.runEvaluation !== false;
+
+  // Aborted on disconnect (request signal) or stream cancel, whichever comes first
+  const abortController = new AbortController();
+  signal.addEventListener('abort', () => abortController.abort(), { once: true });
+  const analysisSignal = abortController.signal;
+
+  const stream = createSSEStream(async (rawSend) => {
+    const send = <K extends AnalysisStreamEvent['event']>(
+      event: K,
+      data: Extract<AnalysisStreamEvent, { event: K }>['data']
+    ) => rawSend(event, data);
+
+    try {
+      const resolved = resolveAnalysisStrategy(strategy || 'auto', transcript.text);
+      const steps = getAnalysisPlan(template as Template, resolved.strategy);
+      const phases = buildProgressPhases(steps, runEvaluation);
+      const phaseById = new Map(phases.map((phase) => [phase.id, phase]));
+
+      const sendPhase = (
+        phaseId: string | undefined,
+        edge: 'start' | 'end',
+        message?: string
+      ) => {
+        const phase = phaseId ? phaseById.get(phaseId) : undefined;
+        if (!phase) return;
+        send('progress', {
+          progress: edge === 'start' ? phase.range[0] : phase.range[1],
+          phaseId: phase.id,
+          message: message ?? phase.message,
+        });
+      };
+
+      send('start', { ...resolved, phases });
+
+      const result = await runWithFallback(
+        routes,
+        (openaiClient, route) =>
+          executeAnalysis(
+            template as Template,
+            transcript.text,
+            openaiClient,
+            route.model,
+            {
+              strategy: resolved.strategy,
+              runEvaluation,
+              contextLimit: route.contextLimit,
+              evaluationModel,
+              variables,
+              signal: analysisSignal,
+              onProgress: (event) => {
+                switch (event.type) {
+                  case 'step-start':
+                    sendPhase(steps[event.step - 1]?.id, 'start');
+                    break;
+                  case 'step-complete':
+                    sendPhase(steps[event.step - 1]?.id, 'end', `Finished ${event.name}`);
+                    send('section', {
+                      step: event.step,
+                      total: event.total,
+                      name: event.name,
+                      sections: event.sections,
+                    });
+                    break;
+                  case 'evaluation-start':
+                    sendPhase('evaluation', 'start');
+                    break;
+                  case 'evaluation-complete':
+                    sendPhase('evaluation', 'end', 'Quality review complete');
+                    break;
+                }
+              },
+            }
+          ),
+        { label: 'Analysis', signal: analysisSignal }
+      );
+
+      if (analysisSignal.aborted) return;
+
+      // Auto-selection happened above, so report it from there
+      result.metadata.wasAutoSelected = resolved.wasAutoSelected;
+      send('complete', buildAnalysisRecord(result, transcriptId, templateId));
+    } catch (error) {
+      if (analysisSignal.aborted) {
+        console.log('[Analysis] Client cancelled analysis stream:', { transcriptId });
+        return;
+      }
+
+      console.error('[Analysis] Analysis execution failed:', error);
+      send('error', {
+        error: error instanceof Error ? error.message : 'Analysis execution failed',
+        details: buildAnalysisErrorDetails(error),
+      });
+    }
+  }, () => abortController.abort());
+
+  return new Response(stream, { status: 200, headers: SSE_HEADERS });
+}
 
 /**
  * POST /api/analyze
@@ -97,8 +293,10 @@ type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
  *     sections: TemplateSection[],
  *     outputs: OutputType[]
  *   },
+ *   variables?: Record<string, string>,  // Values for {{variable}} placeholders in section prompts
  *   strategy?: 'basic' | 'hybrid' | 'advanced' | 'auto',  // Optional, defaults to 'auto'
- *   runEvaluation?: boolean  // Optional, defaults to true
+ *   runEvaluation?: boolean,  // Optional, defaults to true
+ *   stream?: boolean  // Optional, stream progress as server-sent events
  * }
  *
  * Response:
@@ -108,6 +306,10 @@ type AnalyzeRequest = z.infer<typeof analyzeRequestSchema>;
  *   - results: Final analysis results (post-evaluation if runEvaluation=true)
  *   - draftResults: Pre-evaluation results (if runEvaluation=true)
  *   - evaluation: Evaluation metadata (if runEvaluation=true)
+ * - Streaming (200, text/event-stream) when stream=true:
+ *   start → progress/section (repeated) → complete | error
+ *   (see AnalysisStreamEvent). Validation and configuration errors are
+ *   still returned as JSON before the stream starts.
  * - Error (4xx/5xx): { success: false, error: string, details?: object }
  */
 export async function POST(request: NextRequest) {
@@ -130,7 +332,7 @@ export async function POST(request: NextRequest) {
       return errorResponse('Failed to parse request body', 400);
     }
 
-    const { transcriptId, templateId, transcript, template, strategy, runEvaluation } = body;
+    const { transcriptId, templateId, transcript, template, strategy, runEvaluation, variables } = body;
 
     // Validate transcript has at least one segment
     if (!transcript.segments || transcript.segments.length === 0) {
@@ -148,33 +350,30 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Estimate tokens and select appropriate deployment
-    const estimatedTokens = estimateTokens(transcript.text);
-    const deploymentInfo = getDeploymentInfo(estimatedTokens);
+    // Never send prompts with unfilled {{variable}} placeholders
+    const unresolvedVariables = findUnresolvedVariables(template, variables ?? {});
+    if (unresolvedVariables.length > 0) {
+      return errorResponse(
+        `Template variables have no value: ${unresolvedVariables.map((name) => `{{${name}}}`).join(', ')}`,
+        400,
+        {
+          type: 'unresolved_variables',
+          variables: unresolvedVariables,
+        }
+      );
+    }
 
-    console.log('[Analysis] Processing analysis request:', {
-      transcriptId,
-      templateId,
-      templateName: template.name,
-      segmentCount: transcript.segments.length,
-      transcriptLength: transcript.text.length,
-      estimatedTokens: deploymentInfo.estimatedTokens,
-      deployment: deploymentInfo.deployment,
-      tokenLimit: deploymentInfo.tokenLimit,
-      utilization: `${deploymentInfo.utilizationPercentage}%`,
-      isExtendedContext: deploymentInfo.isExtended,
-      sectionCount: template.sections.length,
-      requestedStrategy: strategy || 'auto',
-      runEvaluation: runEvaluation !== false,
-    });
+    // Estimate tokens and select appropriate model routes
+    const estimatedTokens = estimateTokens(transcript.text);
 
-    // Validate environment configuration and get model/client
-    let deployment: string;
-    let openaiClient;
+    // Validate environment configuration and resolve models/clients
+    let routes: ModelRoute[];
+    let evaluationModel: AnalysisModel | undefined;
     try {
-      // Use token-based deployment selection
-      deployment = selectDeploymentByTokens(estimatedTokens);
-      openaiClient = getOpenAIClient();
+      routes = resolveModelRoutes('analysis', estimatedTokens);
+      // Create the primary client now so configuration errors surface before analysis starts
+      getBackendClient(routes[0].backend);
+      evaluationModel = runEvaluation !== false ? resolveEvaluationModel(estimatedTokens) : undefined;
     } catch (error) {
       if (error instanceof OpenAIConfigError) {
         console.error('[Analysis] Configuration error:', error.message);
@@ -190,67 +389,58 @@ export async function POST(request: NextRequest) {
       throw error;
     }
 
+    const [primary] = routes;
+    console.log('[Analysis] Processing analysis request:', {
+      transcriptId,
+      templateId,
+      templateName: template.name,
+      segmentCount: transcript.segments.length,
+      transcriptLength: transcript.text.length,
+      estimatedTokens,
+      backend: primary.backend,
+      deployment: primary.model,
+      tokenLimit: primary.contextLimit,
+      utilization: `${Math.round((estimatedTokens / primary.contextLimit) * 100)}%`,
+      fallback: routes[1] ? `${routes[1].backend}/${routes[1].model}` : undefined,
+      evaluationDeployment: evaluationModel?.deployment,
+      sectionCount: template.sections.length,
+      requestedStrategy: strategy || 'auto',
+      runEvaluation: runEvaluation !== false,
+    });
+
+    if (body.stream) {
+      return streamAnalysis(body, routes, evaluationModel, request.signal);
+    }
+
     // Execute the unified analysis
     let result;
     try {
-      result = await executeAnalysis(
-        template as Template,
-        transcript.text,
-        openaiClient,
-        deployment,
-        {
-          strategy: strategy || 'auto',
-          runEvaluation: runEvaluation !== false, // Default to true
-          progressCallback: (current, total, message) => {
-            console.log(`[Analysis] Progress: ${current}/${total} - ${message}`);
-          },
-        }
+      result = await runWithFallback(
+        routes,
+        (openaiClient, route) =>
+          executeAnalysis(template as Template, transcript.text, openaiClient, route.model, {
+            strategy: strategy || 'auto',
+            runEvaluation: runEvaluation !== false, // Default to true
+            contextLimit: route.contextLimit,
+            evaluationModel,
+            variables,
+            signal: request.signal,
+            progressCallback: (current, total, message) => {
+              console.log(`[Analysis] Progress: ${current}/${total} - ${message}`);
+            },
+          }),
+        { label: 'Analysis', signal: request.signal }
       );
     } catch (error) {
       console.error('[Analysis] Analysis execution failed:', error);
-
-      // Build error details - only include stack trace in development
-      const errorDetails: Record<string, unknown> = {
-        type: 'analysis_error',
-      };
-
-      if (process.env.NODE_ENV === 'development' && error instanceof Error) {
-        errorDetails.details = error.stack;
-      }
-
       return errorResponse(
         error instanceof Error ? error.message : 'Analysis execution failed',
         500,
-        errorDetails
+        buildAnalysisErrorDetails(error)
       );
     }
 
-    // Create analysis record with new fields
-    const analysis: Analysis = {
-      id: crypto.randomUUID(),
-      transcriptId,
-      templateId,
-      analysisStrategy: result.strategy,
-      draftResults: result.draftResults,
-      evaluation: result.evaluation,
-      results: result.results,
-      metadata: result.metadata,
-      createdAt: new Date(),
-    };
-
-    console.log('[Analysis] Analysis completed successfully:', {
-      id: analysis.id,
-      strategy: result.strategy,
-      wasAutoSelected: result.metadata.wasAutoSelected,
-      sectionsAnalyzed: result.results.sections.length,
-      hasSummary: !!result.results.summary,
-      agendaItemCount: result.results.agendaItems?.length || 0,
-      actionItemCount: result.results.actionItems?.length || 0,
-      decisionCount: result.results.decisions?.length || 0,
-      quoteCount: result.results.quotes?.length || 0,
-      hadEvaluation: !!result.evaluation,
-      qualityScore: result.evaluation?.qualityScore,
-    });
+    const analysis = buildAnalysisRecord(result, transcriptId, templateId);
 
     return successResponse(analysis);
   } catch (error) {
@@ -297,6 +487,7 @@ export async function GET() {
         },
         strategy: 'string (optional, default: "auto", values: "basic" | "hybrid" | "advanced" | "auto")',
         runEvaluation: 'boolean (optional, default: true)',
+        stream: 'boolean (optional, default: false) - stream progress as server-sent events',
       },
       strategies: {
         basic: {
@@ -330,7 +521,7 @@ export async function GET() {
         'Decision extraction linked to agenda items',
         'Notable quote extraction',
         'Comprehensive error handling',
-        'Progress tracking',
+        'Real-time progress and partial section results (stream: true)',
       ],
       usage: {
         description: 'Send transcript and template for AI analysis',
@@ -2,6 +2,8 @@
  * Chat API Route Handler
  *
  * POST endpoint for Q&A chat with transcripts using OpenAI GPT models.
+ * Questions are asked about one transcript, or about the whole library
+ * using passages the client retrieved from many transcripts.
  *
  * CRITICAL: This endpoint is STATELESS - it stores NOTHING on the server.
  * All conversation data is managed client-side in browser IndexedDB.
@@ -9,14 +11,18 @@
  * Privacy Model:
  * - Receives transcript text + question in each request
  * - Calls OpenAI API with context
- * - Returns answer immediately
+ * - Returns answer immediately (or streams it as server-sent events)
  * - NO server-side storage or logging of conversations
  * - All persistence handled by client
  *
  * Features:
  * - GPT-5/GPT-41 powered Q&A
  * - Automatic deployment selection based on transcript size
+ * - Per-task model routing with fallback to a secondary backend
  * - Conversation history support for multi-turn context
+ * - Segment citations ([#12]) when the transcript carries segment markers
+ * - Library questions answered from retrieved passages, with numbered citations
+ * - Optional token streaming (SSE) with client-side cancellation
  * - Token limit validation
  * - Comprehensive error handling
  *
@@ -25,15 +31,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
+import { OpenAIConfigError, buildChatCompletionParams } from '@/lib/openai';
 import {
-  getOpenAIClient,
-  OpenAIConfigError,
-} from '@/lib/openai';
-import {
-  estimateTokens,
-  selectDeploymentByTokens,
-  getDeploymentInfo,
-} from '@/lib/token-utils';
+  getBackendClient,
+  resolveModelRoutes,
+  runWithFallback,
+  type ModelRoute,
+} from '@/lib/llm-routing';
+import { estimateTokens, getCompletionTokenBudget } from '@/lib/token-utils';
+import { createSSEStream, SSE_HEADERS } from '@/lib/sse';
+import { formatTimestamp } from '@/lib/transcription-utils';
+import type { ChatError } from '@/types/chat';
+
 /**
  * API-specific message type with string timestamp (JSON serializable).
  * Different from ChatMessage which uses Date objects for client-side storage.
@@ -58,13 +67,14 @@ const OVERHEAD_TOKEN_RESERVE = 10000;
 const MAX_HISTORY_TOKENS = 20000;
 
 /**
- * Request body validation schema
+ * Maximum number of passages in a library question
+ */
+const MAX_LIBRARY_PASSAGES = 50;
+
+/**
+ * Fields shared by transcript and library questions
  */
-const chatRequestSchema = z.object({
-  transcriptId: z.string().min(1, 'Transcript ID is required'),
-  transcriptText: z.string()
-    .min(1, 'Transcript text is required')
-    .max(4000000, 'Transcript text is too large (max 4M characters)'),
+const questionFields = {
   question: z.string()
     .min(1, 'Question is required')
     .max(2000, 'Question is too long (max 2000 characters)'),
@@ -76,10 +86,42 @@ const chatRequestSchema = z.object({
       timestamp: z.string().datetime(), // ISO 8601 datetime string from JSON.stringify
     })
   ).optional(),
-});
+  stream: z.boolean().optional(),
+};
+
+/**
+ * Request body validation schema: a question about one transcript, or
+ * about the library with the passages retrieved for it
+ */
+const chatRequestSchema = z.union([
+  z.object({
+    transcriptId: z.string().min(1, 'Transcript ID is required'),
+    transcriptText: z.string()
+      .min(1, 'Transcript text is required')
+      .max(4000000, 'Transcript text is too large (max 4M characters)'),
+    citeSegments: z.boolean().optional(),
+    ...questionFields,
+  }),
+  z.object({
+    passages: z.array(
+      z.object({
+        filename: z.string(),
+        createdAt: z.string().datetime(),
+        start: z.number().min(0),
+        end: z.number().min(0),
+        text: z.string().min(1),
+      })
+    )
+      .min(1, 'At least one passage is required')
+      .max(MAX_LIBRARY_PASSAGES, `Too many passages (max ${MAX_LIBRARY_PASSAGES})`),
+    ...questionFields,
+  }),
+]);
 
 type ChatRequest = z.infer<typeof chatRequestSchema>;
 
+type LibraryPassageInput = Extract<ChatRequest, { passages: unknown }>['passages'][number];
+
 /**
  * Error response helper with custom error structure for chat endpoint
  */
@@ -101,6 +143,56 @@ function chatErrorResponse(
   return NextResponse.json(errorBody, { status });
 }
 
+/**
+ * Map an OpenAI API failure to a chat error with an HTTP status
+ */
+function classifyCompletionError(
+  error: unknown,
+  tokenEstimate: { totalTokens: number },
+  tokenLimit: number
+): ChatError & { status: number } {
+  if (error instanceof Error) {
+    const errorMsg = error.message.toLowerCase();
+
+    // Token limit errors - be more specific to avoid false positives
+    if (errorMsg.includes('maximum context length') ||
+        errorMsg.includes('context_length_exceeded') ||
+        errorMsg.includes('too many tokens')) {
+      return {
+        type: 'token_limit',
+        message: 'The conversation is too long for the model. Try clearing the conversation history.',
+        status: 400,
+        details: {
+          apiError: error.message,
+          estimatedTokens: tokenEstimate.totalTokens,
+          tokenLimit,
+        },
+      };
+    }
+
+    // Rate limit errors
+    if (error.message.includes('rate limit') || error.message.includes('quota')) {
+      return {
+        type: 'api_failure',
+        message: 'API rate limit exceeded. Please try again in a moment.',
+        status: 429,
+        details: {
+          apiError: error.message,
+        },
+      };
+    }
+  }
+
+  return {
+    type: 'api_failure',
+    message: 'Failed to get response from AI. Please try again.',
+    status: 502,
+    details: {
+      error: error instanceof Error ? error.message : String(error),
+    },
+  };
+}
+
 /**
  * Success response helper with custom structure for chat endpoint
  */
@@ -119,8 +211,19 @@ function chatSuccessResponse(answer: string, model: string) {
 
 /**
  * Build the system prompt with transcript context
+ *
+ * With `citeSegments`, each transcript line starts with a segment marker
+ * like [#12 00:03:15] and the model is asked to cite segments as [#12].
  */
-function buildSystemPrompt(transcriptText: string): string {
+function buildSystemPrompt(transcriptText: string, citeSegments = false): string {
+  const citationInstructions = citeSegments
+    ? `- Each transcript line starts with a segment marker: [#<segment number> <start time>]
+- Cite the segments that support each statement by number in square brackets, e.g. [#12] or [#12, #15]
+- Only cite segment numbers that appear in the transcript
+`
+    : `- Cite specific parts of the transcript when relevant
+`;
+
   return `You are analyzing a meeting transcript. Answer questions based ONLY on the transcript content provided. If the answer is not in the transcript, say "I don't have that information in this transcript."
 
 Transcript:
@@ -128,12 +231,42 @@ ${transcriptText}
 
 Instructions:
 - Answer concisely and accurately
-- Cite specific parts of the transcript when relevant
-- Maintain conversation context from previous questions
+${citationInstructions}- Maintain conversation context from previous questions
 - If asked about something not in the transcript, be honest about it
 - Format your responses in a clear, readable manner`;
 }
 
+/**
+ * Build the system prompt for a library question
+ */
+function buildLibrarySystemPrompt(numberedPassages: string): string {
+  return `You are answering questions about a library of meeting transcripts. You are given numbered excerpts retrieved from the transcripts that are most relevant to the question. Answer based ONLY on these excerpts. If they do not contain the answer, say "I couldn't find that in the transcripts searched."
+
+Excerpts:
+${numberedPassages}
+
+Instructions:
+- Answer concisely and accurately
+- Cite the excerpts that support each statement by number in square brackets, e.g. [2] or [1][3]
+- Only cite excerpt numbers listed above
+- When asked when something happened, give the meeting date of the excerpt
+- Maintain conversation context from previous questions
+- Format your responses in a clear, readable manner`;
+}
+
+/**
+ * Number passages and label them with their meeting and time range
+ */
+function formatPassages(passages: LibraryPassageInput[]): string {
+  return passages
+    .map((passage, i) => {
+      const date = passage.createdAt.slice(0, 10);
+      const range = `${formatTimestamp(passage.start)}-${formatTimestamp(passage.end)}`;
+      return `[${i + 1}] "${passage.filename}" (${date}, ${range})\n${passage.text}`;
+    })
+    .join('\n\n');
+}
+
 /**
  * Estimate total tokens for the request
  */
@@ -207,6 +340,110 @@ function truncateHistory(
   return truncated;
 }
 
+/**
+ * Stream a completion to the client as server-sent events
+ *
+ * Errors raised before the first token (e.g. token limits, rate limits)
+ * are returned as regular JSON error responses so clients can handle them
+ * exactly like the non-streaming path. Failures after streaming starts
+ * are sent as an `error` event. If the client disconnects, the upstream
+ * OpenAI request is aborted. Only the initial request falls back to the
+ * secondary backend; a stream is never restarted once tokens are sent.
+ */
+async function streamCompletion(
+  routes: ModelRoute[],
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  options: {
+    transcriptId: string;
+    signal: AbortSignal;
+    tokenEstimate: { totalTokens: number };
+    tokenLimit: number;
+  }
+) {
+  let stream;
+  let deployment: string;
+  try {
+    ({ stream, deployment } = await runWithFallback(
+      routes,
+      async (openaiClient, route) => ({
+        deployment: route.model,
+        stream: await openaiClient.chat.completions.create(
+          {
+            model: route.model,
+            messages,
+            ...buildChatCompletionParams(route.model, getCompletionTokenBudget(messages, route.contextLimit)),
+            stream: true,
+            stream_options: { include_usage: true },
+          },
+          { signal: options.signal }
+        ),
+      }),
+      { label: 'Chat', signal: options.signal }
+    ));
+  } catch (error) {
+    console.error('[Chat] OpenAI streaming call failed:', error);
+    const { type, message, status, details } = classifyCompletionError(
+      error,
+      options.tokenEstimate,
+      options.tokenLimit
+    );
+    return chatErrorResponse(type, message, status, details);
+  }
+
+  const body = createSSEStream(
+    async (send) => {
+      let answer = '';
+      let tokensUsed: number | undefined;
+
+      try {
+        for await (const chunk of stream) {
+          const content = chunk.choices[0]?.delta?.content;
+          if (content) {
+            answer += content;
+            send('delta', { content });
+          }
+          if (chunk.usage) {
+            tokensUsed = chunk.usage.total_tokens;
+          }
+        }
+
+        if (!answer) {
+          send('error', {
+            type: 'api_failure',
+            message: 'Received empty response from AI. Please try again.',
+          } satisfies ChatError);
+          return;
+        }
+
+        console.log('[Chat] Chat stream completed successfully:', {
+          transcriptId: options.transcriptId,
+          answerLength: answer.length,
+          tokensUsed,
+          model: deployment,
+        });
+
+        send('done', { answer, model: deployment });
+      } catch (error) {
+        if (options.signal.aborted) {
+          console.log('[Chat] Client cancelled stream:', { transcriptId: options.transcriptId });
+          return;
+        }
+
+        console.error('[Chat] Stream interrupted:', error);
+        const { type, message, details } = classifyCompletionError(
+          error,
+          options.tokenEstimate,
+          options.tokenLimit
+        );
+        send('error', { type, message, details } satisfies ChatError);
+      }
+    },
+    () => stream.controller.abort()
+  );
+
+  return new Response(body, { status: 200, headers: SSE_HEADERS });
+}
+
 /**
  * POST /api/chat
  *
@@ -217,12 +454,27 @@ function truncateHistory(
  * {
  *   transcriptId: string (UUID),
  *   transcriptText: string,
+ *   citeSegments?: boolean,
  *   question: string,
- *   conversationHistory?: ChatMessage[]
+ *   conversationHistory?: ChatMessage[],
+ *   stream?: boolean
  * }
+ * With `citeSegments`, transcript lines carry [#N HH:MM:SS] segment markers
+ * and the answer cites segments as [#N].
+ *
+ * Library questions send retrieved passages instead of a transcript:
+ * {
+ *   passages: Array<{ filename, createdAt, start, end, text }>,
+ *   question: string,
+ *   conversationHistory?: ChatMessage[],
+ *   stream?: boolean
+ * }
+ * The answer cites passages by number ([1], [2], ...).
  *
  * Response:
  * - Success (200): { success: true, data: { answer: string } }
+ * - Streaming (200, text/event-stream): `delta` events with { content },
+ *   then `done` with { answer, model } or `error` with { type, message }
  * - Error (4xx/5xx): { success: false, error: { type, message, details? } }
  */
 export async function POST(request: NextRequest) {
@@ -249,16 +501,45 @@ export async function POST(request: NextRequest) {
       return chatErrorResponse('validation', 'Failed to parse request body', 400);
     }
 
-    const { transcriptId, transcriptText, question, conversationHistory = [] } = body;
+    const { question, conversationHistory = [] } = body;
+
+    // Library questions use the retrieved passages as their transcript context
+    const passages = 'passages' in body ? body.passages : null;
+    const transcriptId = 'transcriptId' in body ? body.transcriptId : 'library';
+    const transcriptText = 'transcriptText' in body
+      ? body.transcriptText
+      : formatPassages(passages ?? []);
 
     // Estimate tokens
     const tokenEstimate = estimateTotalTokens(transcriptText, question, conversationHistory);
-    const deploymentInfo = getDeploymentInfo(tokenEstimate.transcriptTokens);
+
+    // Resolve the chat model routes and validate the primary client
+    let routes: ModelRoute[];
+    try {
+      routes = resolveModelRoutes('chat', tokenEstimate.transcriptTokens);
+      getBackendClient(routes[0].backend);
+    } catch (error) {
+      if (error instanceof OpenAIConfigError) {
+        console.error('[Chat] Configuration error:', error.message);
+        return chatErrorResponse(
+          'api_failure',
+          'Server configuration error. Chat API is not properly configured.',
+          500,
+          {
+            message: error.message,
+          }
+        );
+      }
+      throw error;
+    }
+    const [primary] = routes;
+    const tokenLimit = primary.contextLimit;
 
     console.log('[Chat] Processing chat request:', {
       transcriptId,
       questionLength: question.length,
       transcriptLength: transcriptText.length,
+      passageCount: passages?.length,
       historyMessageCount: conversationHistory.length,
       tokenEstimate: {
         transcript: tokenEstimate.transcriptTokens,
@@ -266,17 +547,19 @@ export async function POST(request: NextRequest) {
         history: tokenEstimate.historyTokens,
         total: tokenEstimate.totalTokens,
       },
-      deployment: deploymentInfo.deployment,
-      tokenLimit: deploymentInfo.tokenLimit,
-      utilizationPercentage: deploymentInfo.utilizationPercentage,
+      backend: primary.backend,
+      deployment: primary.model,
+      tokenLimit,
+      utilizationPercentage: Math.round((tokenEstimate.transcriptTokens / tokenLimit) * 100),
+      fallback: routes[1] ? `${routes[1].backend}/${routes[1].model}` : undefined,
     });
 
     // Check if we're approaching token limits
-    if (tokenEstimate.totalTokens > deploymentInfo.tokenLimit) {
+    if (tokenEstimate.totalTokens > tokenLimit) {
       console.error('[Chat] Token limit exceeded:', {
         totalTokens: tokenEstimate.totalTokens,
-        tokenLimit: deploymentInfo.tokenLimit,
-        utilizationPercentage: Math.round((tokenEstimate.totalTokens / deploymentInfo.tokenLimit) * 100),
+        tokenLimit: tokenLimit,
+        utilizationPercentage: Math.round((tokenEstimate.totalTokens / tokenLimit) * 100),
       });
 
       return chatErrorResponse(
@@ -285,7 +568,7 @@ export async function POST(request: NextRequest) {
         400,
         {
           totalTokens: tokenEstimate.totalTokens,
-          tokenLimit: deploymentInfo.tokenLimit,
+          tokenLimit: tokenLimit,
           transcriptTokens: tokenEstimate.transcriptTokens,
           historyTokens: tokenEstimate.historyTokens,
         }
@@ -298,29 +581,10 @@ export async function POST(request: NextRequest) {
       truncatedHistory = truncateHistory(conversationHistory, MAX_HISTORY_TOKENS);
     }
 
-    // Get OpenAI client and deployment
-    let deployment: string;
-    let openaiClient;
-    try {
-      deployment = selectDeploymentByTokens(tokenEstimate.transcriptTokens);
-      openaiClient = getOpenAIClient();
-    } catch (error) {
-      if (error instanceof OpenAIConfigError) {
-        console.error('[Chat] Configuration error:', error.message);
-        return chatErrorResponse(
-          'api_failure',
-          'Server configuration error. Chat API is not properly configured.',
-          500,
-          {
-            message: error.message,
-          }
-        );
-      }
-      throw error;
-    }
-
     // Build messages array for OpenAI
-    const systemPrompt = buildSystemPrompt(transcriptText);
+    const systemPrompt = passages
+      ? buildLibrarySystemPrompt(transcriptText)
+      : buildSystemPrompt(transcriptText, 'citeSegments' in body && body.citeSegments === true);
     const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
       {
         role: 'system',
@@ -343,65 +607,47 @@ export async function POST(request: NextRequest) {
     });
 
     console.log('[Chat] Calling OpenAI API:', {
-      deployment,
+      backend: primary.backend,
       messageCount: messages.length,
-      model: deployment,
+      model: primary.model,
     });
 
+    if (body.stream) {
+      return streamCompletion(routes, messages, {
+        transcriptId,
+        signal: request.signal,
+        tokenEstimate,
+        tokenLimit: tokenLimit,
+      });
+    }
+
     // Call OpenAI API
     let completion;
+    let deployment: string;
     try {
-      completion = await openaiClient.chat.completions.create({
-        model: deployment,
-        messages,
-        max_completion_tokens: 32000, // GPT-5 is a reasoning model - needs tokens for reasoning + response
-        // Note: GPT-5 does not support custom temperature values (only default 1.0)
-      });
+      ({ completion, deployment } = await runWithFallback(
+        routes,
+        async (openaiClient, route) => ({
+          deployment: route.model,
+          completion: await openaiClient.chat.completions.create({
+            model: route.model,
+            messages,
+            ...buildChatCompletionParams(route.model, getCompletionTokenBudget(messages, route.contextLimit)),
+            // Note: GPT-5 does not support custom temperature values (only default 1.0)
+          }),
+        }),
+        { label: 'Chat' }
+      ));
     } catch (error) {
       console.error('[Chat] OpenAI API call failed:', error);
       console.error('[Chat] Full error details:', JSON.stringify(error, Object.getOwnPropertyNames(error), 2));
 
-      // Check for specific error types
-      if (error instanceof Error) {
-        const errorMsg = error.message.toLowerCase();
-
-        // Token limit errors - be more specific to avoid false positives
-        if (errorMsg.includes('maximum context length') ||
-            errorMsg.includes('context_length_exceeded') ||
-            errorMsg.includes('too many tokens')) {
-          return chatErrorResponse(
-            'token_limit',
-            'The conversation is too long for the model. Try clearing the conversation history.',
-            400,
-            {
-              apiError: error.message,
-              estimatedTokens: tokenEstimate.totalTokens,
-              tokenLimit: deploymentInfo.tokenLimit,
-            }
-          );
-        }
-
-        // Rate limit errors
-        if (error.message.includes('rate limit') || error.message.includes('quota')) {
-          return chatErrorResponse(
-            'api_failure',
-            'API rate limit exceeded. Please try again in a moment.',
-            429,
-            {
-              apiError: error.message,
-            }
-          );
-        }
-      }
-
-      return chatErrorResponse(
-        'api_failure',
-        'Failed to get response from AI. Please try again.',
-        502,
-        {
-          error: error instanceof Error ? error.message : String(error),
-        }
+      const { type, message, status, details } = classifyCompletionError(
+        error,
+        tokenEstimate,
+        tokenLimit
       );
+      return chatErrorResponse(type, message, status, details);
     }
 
     // Extract answer from completion
@@ -467,17 +713,24 @@ export async function GET() {
       requestBody: {
         transcriptId: 'string (UUID, required)',
         transcriptText: 'string (required, max 4M chars)',
+        citeSegments: 'boolean (optional, transcript lines carry [#N HH:MM:SS] markers; answers cite [#N])',
+        passages: `Array<{ filename, createdAt, start, end, text }> (instead of transcriptId/transcriptText for library questions, max ${MAX_LIBRARY_PASSAGES})`,
         question: 'string (required, max 2000 chars)',
         conversationHistory: 'ChatMessage[] (optional, for context)',
+        stream: 'boolean (optional, stream the answer as server-sent events)',
       },
       responseFormat: {
         success: '{ success: true, data: { answer: string } }',
         error: '{ success: false, error: { type, message, details? } }',
+        stream: 'event: delta { content } ... event: done { answer, model } | event: error { type, message }',
       },
       features: [
         'GPT-5/GPT-41 powered Q&A',
         'Automatic deployment selection based on transcript size',
         'Multi-turn conversation support',
+        'Segment citations ([#N]) for transcripts sent with segment markers',
+        'Library questions over retrieved passages with numbered citations',
+        'Token streaming via server-sent events',
         'Token limit validation and truncation',
         'Completely stateless (no server-side storage)',
         'Privacy-first design (all data stored client-side)',
@@ -6,31 +6,178 @@
  *
  * Returns:
  * - Configuration status (configured/not configured)
- * - Provider type (Azure/OpenAI)
+ * - Provider type (Azure/OpenAI/local)
+ * - Transcription provider (Azure/OpenAI/local) and its features
+ * - Model routing: the model used for each LLM task and the fallback backend
+ * - Storage backend: browser IndexedDB or the server store
  * - Deployment names (non-sensitive)
  * - NEVER returns API keys or full endpoints
  */
 
+import path from 'path';
 import { NextResponse } from 'next/server';
 import {
   getConfiguration,
   OpenAIConfigError,
-  getWhisperDeployment,
   getGPT4Deployment,
 } from '@/lib/openai';
+import {
+  getTranscriptionProvider,
+  type TranscriptionCapabilities,
+  type TranscriptionProviderId,
+} from '@/lib/transcription-provider';
+import {
+  getModelRoutingConfig,
+  resolveModelRoutes,
+  type LLMBackendId,
+  type LLMTask,
+} from '@/lib/llm-routing';
+import { getServerStore, getServerStorePath } from '@/lib/server-store';
+import { getStorageBackend, type StorageBackend } from '@/lib/storage-adapter';
+
+const LLM_TASKS: LLMTask[] = ['summary', 'analysis', 'evaluation', 'chat'];
+
+/**
+ * Transcription provider status
+ */
+export interface TranscriptionStatus {
+  configured: boolean;
+  provider: TranscriptionProviderId | 'none';
+  model?: string;
+  endpointHost?: string; // Masked endpoint (hostname only, no full URL)
+  features?: TranscriptionCapabilities; // Features of the default model
+  error?: string;
+}
+
+/**
+ * Model used for one LLM task
+ */
+export interface TaskModelStatus {
+  backend: LLMBackendId;
+  model: string;
+  contextLimit: number;
+}
+
+/**
+ * LLM model routing status
+ */
+export interface ModelRoutingStatus {
+  configured: boolean;
+  primary?: LLMBackendId;
+  fallback?: LLMBackendId;
+  localEndpointHost?: string; // Masked endpoint (hostname only, no full URL)
+  tasks?: Record<LLMTask, TaskModelStatus>;
+  error?: string;
+}
+
+/**
+ * Library storage status
+ */
+export interface StorageStatus {
+  backend: StorageBackend;
+  databaseFile?: string; // File name only, no directory
+  error?: string;
+}
 
 /**
  * Configuration status response type
  */
 export interface ConfigStatusResponse {
   configured: boolean;
-  provider: 'azure' | 'openai' | 'none';
+  provider: LLMBackendId | 'none';
   whisperDeployment?: string;
   analysisDeployment?: string;
   endpointHost?: string; // Masked endpoint (hostname only, no full URL)
+  transcription?: TranscriptionStatus;
+  modelRouting?: ModelRoutingStatus;
+  storage?: StorageStatus;
   error?: string;
 }
 
+/**
+ * Describe the transcription provider, which is configured independently
+ * of the analysis provider (e.g. a local Whisper server with Azure analysis)
+ */
+function getTranscriptionStatus(): TranscriptionStatus {
+  try {
+    const provider = getTranscriptionProvider();
+    return {
+      configured: true,
+      provider: provider.id,
+      model: provider.model,
+      endpointHost: provider.endpointHost,
+      features: provider.getCapabilities(provider.model),
+    };
+  } catch (error) {
+    if (error instanceof OpenAIConfigError) {
+      return {
+        configured: false,
+        provider: 'none',
+        error: 'Transcription provider not configured. Please set up environment variables.',
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe which model each LLM task runs on (for a short input) and
+ * where it falls back to
+ */
+function getModelRoutingStatus(): ModelRoutingStatus {
+  try {
+    const config = getModelRoutingConfig();
+    const tasks = {} as Record<LLMTask, TaskModelStatus>;
+    for (const task of LLM_TASKS) {
+      const [route] = resolveModelRoutes(task);
+      tasks[task] = { backend: route.backend, model: route.model, contextLimit: route.contextLimit };
+    }
+
+    let localEndpointHost: string | undefined;
+    if (config.local) {
+      try {
+        localEndpointHost = new URL(config.local.baseUrl).hostname;
+      } catch (error) {
+        console.error('Failed to parse local LLM endpoint URL:', error);
+      }
+    }
+
+    return {
+      configured: true,
+      primary: config.primary,
+      fallback: config.fallback,
+      localEndpointHost,
+      tasks,
+    };
+  } catch (error) {
+    if (error instanceof OpenAIConfigError) {
+      return {
+        configured: false,
+        error: 'Model routing not configured. Please check the LLM_* environment variables.',
+      };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe where the library (transcripts, analyses, templates, audio) is stored
+ */
+function getStorageStatus(): StorageStatus {
+  const backend = getStorageBackend();
+  if (backend !== 'server') {
+    return { backend };
+  }
+
+  try {
+    getServerStore();
+    return { backend, databaseFile: path.basename(getServerStorePath()) };
+  } catch (error) {
+    console.error('Failed to open server store:', error);
+    return { backend, error: 'Failed to open the server store database.' };
+  }
+}
+
 /**
  * GET /api/config/status
  *
@@ -40,7 +187,36 @@ export interface ConfigStatusResponse {
  * @returns {ConfigStatusResponse} Configuration status information
  */
 export async function GET(): Promise<NextResponse<ConfigStatusResponse>> {
+  let transcription: TranscriptionStatus | undefined;
+  let modelRouting: ModelRoutingStatus | undefined;
+  const storage = getStorageStatus();
+
   try {
+    transcription = getTranscriptionStatus();
+    modelRouting = getModelRoutingStatus();
+
+    // A local model as the primary backend needs no cloud credentials
+    if (modelRouting.configured && modelRouting.primary === 'local') {
+      return NextResponse.json(
+        {
+          configured: true,
+          provider: 'local' as const,
+          whisperDeployment: transcription.model,
+          analysisDeployment: modelRouting.tasks?.analysis.model,
+          endpointHost: modelRouting.localEndpointHost,
+          transcription,
+          modelRouting,
+          storage,
+        },
+        {
+          status: 200,
+          headers: {
+            'Cache-Control': 'private, max-age=60', // Cache for 1 minute
+          },
+        }
+      );
+    }
+
     // Attempt to get configuration from environment variables
     const config = getConfiguration();
 
@@ -48,18 +224,15 @@ export async function GET(): Promise<NextResponse<ConfigStatusResponse>> {
     const response: ConfigStatusResponse = {
       configured: true,
       provider: config.provider,
+      whisperDeployment: transcription.model,
+      transcription,
+      modelRouting,
+      storage,
     };
 
     // Add provider-specific information
     if (config.provider === 'azure') {
       // Get deployment names (safe to expose)
-      try {
-        response.whisperDeployment = getWhisperDeployment();
-      } catch (error) {
-        // Deployment not configured, but don't fail the request
-        console.warn('Whisper deployment not configured:', error);
-      }
-
       try {
         response.analysisDeployment = getGPT4Deployment();
       } catch (error) {
@@ -78,7 +251,6 @@ export async function GET(): Promise<NextResponse<ConfigStatusResponse>> {
       }
     } else {
       // For standard OpenAI, we use fixed model names
-      response.whisperDeployment = 'whisper-1';
       response.analysisDeployment = 'gpt-5';
     }
 
@@ -96,6 +268,9 @@ export async function GET(): Promise<NextResponse<ConfigStatusResponse>> {
         {
           configured: false,
           provider: 'none' as const,
+          transcription,
+          modelRouting,
+          storage,
           error: 'OpenAI API not configured. Please set up environment variables.',
         },
         {
@@ -0,0 +1,184 @@
+/**
+ * Template Test Bench API Route Handler
+ *
+ * POST endpoint that runs some or all of a template's sections against a
+ * sample transcript, so prompt edits can be tried before the template is
+ * saved. Sections with a golden (expected) output are scored against it.
+ *
+ * Like /api/analyze, this endpoint stores nothing: bench runs and golden
+ * outputs are kept in the browser.
+ *
+ * @route POST /api/template-bench
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { OpenAIConfigError } from '@/lib/openai';
+import {
+  getBackendClient,
+  resolveModelRoutes,
+  runWithFallback,
+  type ModelRoute,
+} from '@/lib/llm-routing';
+import { executeTemplateBench, type AnalysisModel } from '@/lib/analysis-strategies';
+import { createBenchTemplate } from '@/lib/template-bench';
+import { estimateTokens } from '@/lib/token-utils';
+import { findUnresolvedVariables } from '@/lib/template-variables';
+import { errorResponse, successResponse } from '@/lib/api-utils';
+import type { Template } from '@/types';
+
+/**
+ * Request body validation schema
+ */
+const templateBenchRequestSchema = z.object({
+  transcript: z.object({
+    text: z.string().min(1, 'Transcript text is required'),
+  }),
+  template: z.object({
+    name: z.string(),
+    sections: z
+      .array(
+        z.object({
+          id: z.string(),
+          name: z.string(),
+          prompt: z.string(),
+          extractEvidence: z.boolean(),
+          outputFormat: z.enum(['bullet_points', 'paragraph', 'table']),
+          dependencies: z.array(z.string()).optional(),
+        })
+      )
+      .min(1, 'Template has no sections to run'),
+  }),
+  sectionIds: z.array(z.string()).min(1).optional(),
+  variables: z.record(z.string(), z.string()).optional(),
+  expected: z
+    .array(
+      z.object({
+        sectionId: z.string(),
+        content: z.string().min(1),
+      })
+    )
+    .optional(),
+});
+
+type TemplateBenchRequest = z.infer<typeof templateBenchRequestSchema>;
+
+/**
+ * Model for scoring when one is assigned to the `evaluation` task;
+ * otherwise scoring runs on the analysis model
+ */
+function resolveScoringModel(estimatedTokens: number): AnalysisModel | undefined {
+  const [route] = resolveModelRoutes('evaluation', estimatedTokens);
+  if (!route.assigned) return undefined;
+
+  return {
+    openaiClient: getBackendClient(route.backend),
+    deployment: route.model,
+    contextLimit: route.contextLimit,
+  };
+}
+
+/**
+ * POST /api/template-bench
+ *
+ * Request Body:
+ * {
+ *   transcript: { text: string },
+ *   template: { name: string, sections: TemplateSection[] },
+ *   sectionIds?: string[],  // Sections to run, defaults to all
+ *   variables?: Record<string, string>,  // Values for {{variable}} placeholders
+ *   expected?: { sectionId: string, content: string }[]  // Golden outputs to score against
+ * }
+ *
+ * Response:
+ * - Success (200): { success: true, data: TemplateBenchResult }
+ * - Error (4xx/5xx): { success: false, error: string, details?: object }
+ */
+export async function POST(request: NextRequest) {
+  let body: TemplateBenchRequest;
+  try {
+    body = templateBenchRequestSchema.parse(await request.json());
+  } catch (error) {
+    console.error('[Test Bench] Request validation failed:', error);
+    if (error instanceof z.ZodError) {
+      return errorResponse('Invalid request body', 400, {
+        type: 'validation_error',
+        errors: error.issues,
+      });
+    }
+    return errorResponse('Failed to parse request body', 400);
+  }
+
+  const { transcript, sectionIds, variables, expected } = body;
+  const template = body.template as Template;
+
+  const benchTemplate = createBenchTemplate(template, sectionIds);
+  if (benchTemplate.sections.length === 0) {
+    return errorResponse('None of the requested sections exist in the template', 400, {
+      type: 'invalid_template',
+    });
+  }
+
+  // Never send prompts with unfilled {{variable}} placeholders
+  const unresolvedVariables = findUnresolvedVariables(benchTemplate, variables ?? {});
+  if (unresolvedVariables.length > 0) {
+    return errorResponse(
+      `Template variables have no value: ${unresolvedVariables.map((name) => `{{${name}}}`).join(', ')}`,
+      400,
+      {
+        type: 'unresolved_variables',
+        variables: unresolvedVariables,
+      }
+    );
+  }
+
+  const estimatedTokens = estimateTokens(transcript.text);
+
+  let routes: ModelRoute[];
+  let scoringModel: AnalysisModel | undefined;
+  try {
+    routes = resolveModelRoutes('analysis', estimatedTokens);
+    getBackendClient(routes[0].backend);
+    scoringModel = expected?.length ? resolveScoringModel(estimatedTokens) : undefined;
+  } catch (error) {
+    if (error instanceof OpenAIConfigError) {
+      console.error('[Test Bench] Configuration error:', error.message);
+      return errorResponse('Server configuration error. GPT API is not properly configured.', 500, {
+        type: 'configuration_error',
+        message: error.message,
+      });
+    }
+    return errorResponse(error instanceof Error ? error.message : 'An unexpected error occurred', 500);
+  }
+
+  console.log('[Test Bench] Running template sections:', {
+    templateName: template.name,
+    sectionCount: benchTemplate.sections.length,
+    expectedOutputs: expected?.length ?? 0,
+    estimatedTokens,
+    backend: routes[0].backend,
+    deployment: routes[0].model,
+  });
+
+  try {
+    const result = await runWithFallback(
+      routes,
+      (openaiClient, route) =>
+        executeTemplateBench(template, transcript.text, openaiClient, route.model, {
+          sectionIds,
+          variables,
+          expected,
+          contextLimit: route.contextLimit,
+          scoringModel,
+        }),
+      { label: 'Test Bench', signal: request.signal }
+    );
+
+    return successResponse(result);
+  } catch (error) {
+    console.error('[Test Bench] Run failed:', error);
+    return errorResponse(error instanceof Error ? error.message : 'Test bench run failed', 500, {
+      type: 'analysis_error',
+    });
+  }
+}
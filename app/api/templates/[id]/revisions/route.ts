@@ -0,0 +1,65 @@
+/**
+ * Template Revisions API Route Handler
+ *
+ * Reads and appends to a template's revision history in the server store.
+ * Revisions are immutable: they are added, never replaced.
+ *
+ * @route GET /api/templates/[id]/revisions
+ * @route POST /api/templates/[id]/revisions
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { reviveDates } from '@/lib/backup/archive';
+import { successResponse } from '@/lib/api-utils';
+import { storedRecordSchema, withServerStore } from '@/lib/server-store/routes';
+import type { TemplateRevision } from '@/types/template';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/templates/[id]/revisions
+ *
+ * Response:
+ * - Success (200): { success: true, data: TemplateRevision[] }  // Oldest first
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Template Revisions API', (store) =>
+    successResponse(store.listTemplateRevisions(id))
+  );
+}
+
+/**
+ * POST /api/templates/[id]/revisions
+ *
+ * Request Body:
+ * {
+ *   revisions: TemplateRevision[]  // `templateId` must match the path
+ * }
+ *
+ * Response:
+ * - Success (201): { success: true, data: { saved: number } }
+ * - Conflict (409): A revision's version already exists
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Template Revisions API', async (store) => {
+    const { revisions } = z
+      .object({
+        revisions: z.array(
+          storedRecordSchema.extend({
+            templateId: z.literal(id),
+            version: z.number().int().min(1),
+            content: z.looseObject({ sections: z.array(z.unknown()) }),
+          })
+        ),
+      })
+      .parse(await request.json());
+
+    store.saveTemplateRevisions(
+      revisions.map((record) => reviveDates.templateRevisions(record as unknown as TemplateRevision))
+    );
+    return successResponse({ saved: revisions.length }, 201);
+  });
+}
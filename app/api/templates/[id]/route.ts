@@ -0,0 +1,70 @@
+/**
+ * Template API Route Handler
+ *
+ * Reads and writes a single template in the server store.
+ *
+ * @route GET /api/templates/[id]
+ * @route PUT /api/templates/[id]
+ * @route DELETE /api/templates/[id]
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { reviveDates } from '@/lib/backup/archive';
+import { successResponse } from '@/lib/api-utils';
+import { notFoundResponse, storedRecordSchema, withServerStore } from '@/lib/server-store/routes';
+import type { Template } from '@/types/template';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/templates/[id]
+ *
+ * Response:
+ * - Success (200): { success: true, data: Template }
+ * - Not Found (404)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Templates API', (store) => {
+    const template = store.getTemplate(id);
+    return template ? successResponse(template) : notFoundResponse('Template', id);
+  });
+}
+
+/**
+ * PUT /api/templates/[id]
+ *
+ * Inserts or replaces the template. The body's `id` must match the path.
+ *
+ * Response:
+ * - Success (200): { success: true, data: Template }
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Templates API', async (store) => {
+    const record = storedRecordSchema.extend({ id: z.literal(id) }).parse(await request.json());
+    const template = reviveDates.templates(record as unknown as Template);
+
+    store.saveTemplate(template);
+    return successResponse(template);
+  });
+}
+
+/**
+ * DELETE /api/templates/[id]
+ *
+ * Deletes a custom template with its revisions and the analyses made with it.
+ *
+ * Response:
+ * - Success (200): { success: true, data: { id: string } }
+ * - Forbidden (403): Built-in template
+ * - Not Found (404)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Templates API', (store) => {
+    store.deleteTemplate(id);
+    return successResponse({ id });
+  });
+}
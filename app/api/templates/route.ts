@@ -0,0 +1,42 @@
+/**
+ * Templates Collection API Route Handler
+ *
+ * Lists and saves analysis templates in the server store.
+ *
+ * @route GET /api/templates
+ * @route POST /api/templates
+ */
+
+import { NextRequest } from 'next/server';
+import { reviveDates } from '@/lib/backup/archive';
+import { successResponse } from '@/lib/api-utils';
+import { storedRecordSchema, withServerStore } from '@/lib/server-store/routes';
+import type { Template } from '@/types/template';
+
+/**
+ * GET /api/templates
+ *
+ * Response:
+ * - Success (200): { success: true, data: Template[] }
+ */
+export async function GET() {
+  return withServerStore('Templates API', (store) => successResponse(store.listTemplates()));
+}
+
+/**
+ * POST /api/templates
+ *
+ * Inserts or replaces a template.
+ *
+ * Response:
+ * - Success (201): { success: true, data: Template }
+ */
+export async function POST(request: NextRequest) {
+  return withServerStore('Templates API', async (store) => {
+    const record = storedRecordSchema.parse(await request.json());
+    const template = reviveDates.templates(record as unknown as Template);
+
+    store.saveTemplate(template);
+    return successResponse(template, 201);
+  });
+}
@@ -2,13 +2,15 @@
  * Transcription API Route Handler
  *
  * POST endpoint that accepts audio files and returns transcripts.
- * Uses Azure OpenAI Whisper API for speech-to-text transcription.
+ * Uses the configured transcription provider (Azure OpenAI, OpenAI or a
+ * self-hosted OpenAI-compatible Whisper server) for speech-to-text.
  *
  * Features:
  * - FormData file upload handling
  * - File validation (type, size, format)
- * - Azure OpenAI Whisper integration
+ * - Pluggable transcription provider with capability flags
  * - Structured response with segments and metadata
+ * - Word-level timestamps when the model supports them
  * - Comprehensive error handling
  * - Rate limiting consideration
  *
@@ -22,12 +24,13 @@ import type {
   TranscriptionDiarized,
   TranscriptionVerbose,
 } from 'openai/resources/audio/transcriptions';
+import { OpenAIConfigError } from '@/lib/openai';
+import { generateTranscriptSummary } from '@/lib/llm-routing';
 import {
-  getTranscriptionClient,
-  getWhisperDeployment,
-  OpenAIConfigError,
-  generateTranscriptSummary,
-} from '@/lib/openai';
+  getTranscriptionProvider,
+  type TranscriptionCapabilities,
+  type TranscriptionProvider,
+} from '@/lib/transcription-provider';
 import {
   getSupportedAudioTypes,
   getMaxFileSize,
@@ -72,27 +75,12 @@ type AudioResponseFormat =
   | 'diarized_json';
 
 function determineResponseFormat(
-  model: string
+  capabilities: TranscriptionCapabilities
 ): AudioResponseFormat {
-  const normalized = model.trim().toLowerCase();
-
-  // For GPT-4o Diarize model, we always use verbose_json.
-  // The 'diarized_json' literal is not valid in the SDK types.
-  // We will interpret the verbose_json response as diarized if speaker fields are present.
-  if (normalized.includes('diarize')) {
-    return 'verbose_json';
-  }
-
-  if (normalized.startsWith('whisper')) {
-    return 'verbose_json';
-  }
-
-  // GPT-4o transcribe models use json format (Azure doesn't support verbose_json)
-  if (normalized.includes('gpt-4o') && normalized.includes('transcribe')) {
-    return 'json';
-  }
-
-  return 'json';
+  // Diarize models also use verbose_json; the 'diarized_json' literal is not
+  // valid in the SDK types, so the response is interpreted as diarized if
+  // speaker fields are present.
+  return capabilities.verboseJson ? 'verbose_json' : 'json';
 }
 
 function extractUsageDuration(usage: unknown): number | undefined {
@@ -198,6 +186,11 @@ function normalizeTranscriptionResponse(
         compression_ratio: segment.compression_ratio,
         no_speech_prob: segment.no_speech_prob,
       })),
+      words: response.words?.map((word) => ({
+        word: word.word,
+        start: word.start,
+        end: word.end,
+      })),
     };
   }
 
@@ -315,12 +308,14 @@ async function validateFile(formData: FormData): Promise<{
  * Call OpenAI Whisper API with retry logic
  */
 async function transcribeWithRetry(
+  provider: TranscriptionProvider,
   file: Blob,
   filename: string,
   options: {
     model: string;
     language?: string | null;
     responseFormat: AudioResponseFormat;
+    capabilities: TranscriptionCapabilities;
   },
   retries = MAX_RETRIES
 ): Promise<{
@@ -329,10 +324,11 @@ async function transcribeWithRetry(
 }> {
   let lastError: Error | null = null;
   let currentFormat = options.responseFormat;
+  let includeWords = options.capabilities.wordTimestamps;
 
   for (let attempt = 0; attempt < retries; attempt++) {
     try {
-      const client = getTranscriptionClient();
+      const client = provider.getClient();
 
       // Log attempt
       console.log(`[Transcribe] Attempt ${attempt + 1}/${retries} for file: ${filename}`);
@@ -357,14 +353,15 @@ async function transcribeWithRetry(
         requestParams.response_format = currentFormat;
 
         if (currentFormat === 'verbose_json') {
-          requestParams.timestamp_granularities = ['segment'];
+          requestParams.timestamp_granularities = includeWords
+            ? ['word', 'segment']
+            : ['segment'];
         }
       }
 
       // Add chunking_strategy for diarization models
       // Required for gpt-4o-transcribe-diarize model (audio > 30 seconds)
-      const isDiarizeModel = options.model.toLowerCase().includes('diarize');
-      if (isDiarizeModel) {
+      if (options.capabilities.diarization) {
         requestParams.chunking_strategy = 'auto';
       }
 
@@ -374,6 +371,7 @@ async function transcribeWithRetry(
 
       console.log(`[Transcribe] Success for file: ${filename}`, {
         responseFormat: currentFormat,
+        wordTimestamps: currentFormat === 'verbose_json' && includeWords,
       });
 
       return { response, responseFormat: currentFormat };
@@ -390,6 +388,17 @@ async function transcribeWithRetry(
       const formatRejected =
         message.includes('response_format') && currentFormat !== 'json';
 
+      const wordsRejected =
+        includeWords && message.includes('timestamp_granularities');
+
+      if (wordsRejected) {
+        console.warn(
+          '[Transcribe] Word timestamps rejected. Falling back to segment timestamps.'
+        );
+        includeWords = false;
+        continue;
+      }
+
       if (formatRejected) {
         console.warn(
           `[Transcribe] Response format ${currentFormat} rejected. Falling back to json.`
@@ -530,6 +539,8 @@ function parseOpenAIError(error: unknown): {
  * Request:
  * - Content-Type: multipart/form-data
  * - Body: FormData with 'file' field containing audio file
+ * - Optional 'summarize' field: 'false' skips the AI summary (used for
+ *   live recording chunks)
  *
  * Response:
  * - Success (200): { success: true, data: Transcript }
@@ -548,14 +559,14 @@ export async function POST(request: NextRequest) {
 
   try {
     // Validate environment configuration first
-    let model: string;
+    let provider: TranscriptionProvider;
     try {
-      model = getWhisperDeployment();
+      provider = getTranscriptionProvider();
     } catch (error) {
       if (error instanceof OpenAIConfigError) {
         console.error('[Transcribe] Configuration error:', error.message);
         return errorResponse(
-          'Server configuration error. OpenAI API is not properly configured.',
+          'Server configuration error. The transcription provider is not properly configured.',
           500,
           {
             type: 'configuration_error',
@@ -595,6 +606,7 @@ export async function POST(request: NextRequest) {
     const enableSpeakerDetection = formData.get('enableSpeakerDetection') === 'true';
     const languageParam = formData.get('language') as string | null;
     const modelParam = formData.get('model') as string | null;
+    const summarize = formData.get('summarize') !== 'false';
 
     const partIndexParam = formData.get('partIndex');
     const totalPartsParam = formData.get('totalParts');
@@ -607,16 +619,17 @@ export async function POST(request: NextRequest) {
       type: file.type,
       enableSpeakerDetection,
       language: languageParam,
-      model: modelParam || model,
+      provider: provider.id,
+      model: modelParam || provider.model,
       partIndex,
       totalParts,
+      summarize,
     });
 
     // Use model parameter from request or default
-    const transcriptionModel = modelParam || model;
-    const responseFormat = determineResponseFormat(
-      transcriptionModel
-    );
+    const transcriptionModel = modelParam || provider.model;
+    const capabilities = provider.getCapabilities(transcriptionModel);
+    const responseFormat = determineResponseFormat(capabilities);
 
     // Transcribe with OpenAI Whisper API (with retry logic)
     let transcriptionResult:
@@ -627,12 +640,14 @@ export async function POST(request: NextRequest) {
       | undefined;
     try {
       transcriptionResult = await transcribeWithRetry(
+        provider,
         file,
         filename,
         {
           model: transcriptionModel,
           language: languageParam,
           responseFormat,
+          capabilities,
         }
       );
     } catch (error) {
@@ -649,6 +664,7 @@ export async function POST(request: NextRequest) {
       format: finalFormat,
       hasSegments: Array.isArray(whisperResponse.segments),
       segmentCount: whisperResponse.segments?.length || 0,
+      wordCount: whisperResponse.words?.length || 0,
     });
 
     // Convert and sanitize response segments
@@ -707,7 +723,7 @@ export async function POST(request: NextRequest) {
     };
 
     // Generate AI summary (non-blocking - won't fail transcription if summary fails)
-    if (transcript.text && transcript.text.length > 50) {
+    if (summarize && transcript.text && transcript.text.length > 50) {
       console.log('[Transcribe] Generating AI summary...');
       const summary = await generateTranscriptSummary(transcript.text);
       if (summary) {
@@ -769,7 +785,7 @@ export async function GET() {
       maxFileSize: maxSize,
       maxFileSizeMB: maxSizeMB,
       features: [
-        'Audio transcription using Azure OpenAI Whisper',
+        'Audio transcription using Azure OpenAI, OpenAI or a self-hosted Whisper server',
         'Timestamp segments for each phrase',
         'Language detection and specification',
         'Automatic retry on transient failures',
@@ -0,0 +1,93 @@
+/**
+ * Transcript Audio API Route Handler
+ *
+ * Stores the original audio file of a transcript in the server store.
+ * Audio is returned as binary with its metadata in the X-Audio-Metadata
+ * header (URI-encoded JSON).
+ *
+ * @route GET /api/transcripts/[id]/audio
+ * @route PUT /api/transcripts/[id]/audio
+ * @route DELETE /api/transcripts/[id]/audio
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { errorResponse, successResponse } from '@/lib/api-utils';
+import { notFoundResponse, withServerStore } from '@/lib/server-store/routes';
+import { AUDIO_METADATA_HEADER } from '@/lib/storage-adapter/server';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const audioMetadataSchema = z.object({
+  filename: z.string(),
+  size: z.number(),
+  type: z.string(),
+  duration: z.number(),
+  loadedAt: z.coerce.date(),
+});
+
+/**
+ * GET /api/transcripts/[id]/audio
+ *
+ * Response:
+ * - Success (200): Audio bytes
+ * - Not Found (404)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Audio API', (store) => {
+    const stored = store.getAudio(id);
+    if (!stored) {
+      return notFoundResponse('Audio for transcript', id);
+    }
+
+    return new NextResponse(new Uint8Array(stored.audio), {
+      headers: {
+        'Content-Type': stored.metadata.type || 'application/octet-stream',
+        'Content-Length': String(stored.audio.length),
+        'Last-Modified': stored.storedAt.toUTCString(),
+        [AUDIO_METADATA_HEADER]: encodeURIComponent(JSON.stringify(stored.metadata)),
+      },
+    });
+  });
+}
+
+/**
+ * PUT /api/transcripts/[id]/audio
+ *
+ * Stores or replaces the audio file.
+ *
+ * Request Body (multipart/form-data):
+ * - file: Audio file
+ * - metadata: AudioMetadata as JSON
+ *
+ * Response:
+ * - Success (200): { success: true, data: { size: number } }
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Audio API', async (store) => {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const metadata = formData.get('metadata');
+
+    if (!(file instanceof Blob) || typeof metadata !== 'string') {
+      return errorResponse('Request must include an audio file and its metadata', 400);
+    }
+
+    const audio = Buffer.from(await file.arrayBuffer());
+    store.saveAudio(id, audio, audioMetadataSchema.parse(JSON.parse(metadata)));
+    return successResponse({ size: audio.length });
+  });
+}
+
+/**
+ * DELETE /api/transcripts/[id]/audio
+ *
+ * Response:
+ * - Success (200): { success: true, data: { deleted: boolean } }
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Audio API', (store) => successResponse({ deleted: store.deleteAudio(id) }));
+}
@@ -0,0 +1,87 @@
+/**
+ * Transcript API Route Handler
+ *
+ * Reads and writes a single transcript in the server store.
+ *
+ * @route GET /api/transcripts/[id]
+ * @route PUT /api/transcripts/[id]
+ * @route PATCH /api/transcripts/[id]
+ * @route DELETE /api/transcripts/[id]
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { reviveDates } from '@/lib/backup/archive';
+import { successResponse } from '@/lib/api-utils';
+import { notFoundResponse, storedRecordSchema, withServerStore } from '@/lib/server-store/routes';
+import type { Transcript } from '@/types/transcript';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/transcripts/[id]
+ *
+ * Response:
+ * - Success (200): { success: true, data: Transcript }
+ * - Not Found (404)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Transcripts API', (store) => {
+    const transcript = store.getTranscript(id);
+    return transcript ? successResponse(transcript) : notFoundResponse('Transcript', id);
+  });
+}
+
+/**
+ * PUT /api/transcripts/[id]
+ *
+ * Inserts or replaces the transcript. The body's `id` must match the path.
+ *
+ * Response:
+ * - Success (200): { success: true, data: Transcript }
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Transcripts API', async (store) => {
+    const record = storedRecordSchema.extend({ id: z.literal(id) }).parse(await request.json());
+    const transcript = reviveDates.transcripts(record as unknown as Transcript);
+
+    store.saveTranscripts([transcript]);
+    return successResponse(transcript);
+  });
+}
+
+/**
+ * PATCH /api/transcripts/[id]
+ *
+ * Applies top-level field changes; a `null` value removes the field.
+ *
+ * Response:
+ * - Success (200): { success: true, data: Transcript }
+ * - Not Found (404)
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Transcripts API', async (store) => {
+    const updates = z.record(z.string(), z.unknown()).parse(await request.json());
+    return successResponse(store.updateTranscript(id, updates));
+  });
+}
+
+/**
+ * DELETE /api/transcripts/[id]
+ *
+ * Deletes the transcript with its analyses and audio.
+ *
+ * Response:
+ * - Success (200): { success: true, data: { deleted: number } }
+ * - Not Found (404)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  return withServerStore('Transcripts API', (store) => {
+    const deleted = store.deleteTranscripts([id]);
+    return deleted ? successResponse({ deleted }) : notFoundResponse('Transcript', id);
+  });
+}
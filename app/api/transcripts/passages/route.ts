@@ -0,0 +1,37 @@
+/**
+ * Transcript Passages API Route Handler
+ *
+ * Retrieves passages from the server store for the library chat.
+ *
+ * @route GET /api/transcripts/passages
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { successResponse } from '@/lib/api-utils';
+import { getQueryParams, withServerStore } from '@/lib/server-store/routes';
+
+const passagesQuerySchema = z.object({
+  q: z.string().min(1, 'Question is required'),
+  department: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+/**
+ * GET /api/transcripts/passages
+ *
+ * Query Parameters:
+ * - q: Natural-language question
+ * - department: Only transcripts of this department
+ * - from, to: Only transcripts created in this range (ISO 8601)
+ *
+ * Response:
+ * - Success (200): { success: true, data: LibraryPassage[] }
+ */
+export async function GET(request: NextRequest) {
+  return withServerStore('Transcripts API', async (store) => {
+    const { q, ...filters } = passagesQuerySchema.parse(getQueryParams(request));
+    return successResponse(await store.findPassages(q, filters));
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Transcripts Collection API Route Handler
+ *
+ * CRUD for transcripts in the server store (enabled with
+ * NEXT_PUBLIC_STORAGE_BACKEND=server).
+ *
+ * @route GET /api/transcripts
+ * @route POST /api/transcripts
+ * @route DELETE /api/transcripts
+ */
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { reviveDates } from '@/lib/backup/archive';
+import { successResponse } from '@/lib/api-utils';
+import {
+  getQueryParams,
+  idListSchema,
+  paginationQuerySchema,
+  storedRecordSchema,
+  withServerStore,
+} from '@/lib/server-store/routes';
+import type { Transcript } from '@/types/transcript';
+
+const listQuerySchema = paginationQuerySchema.extend({
+  q: z.string().optional(),
+  orderBy: z.enum(['createdAt', 'metadata.duration', 'filename', 'metadata.fileSize']).optional(),
+  fileHash: z.string().optional(),
+});
+
+const saveRequestSchema = z.object({
+  transcripts: z.array(storedRecordSchema),
+});
+
+/**
+ * GET /api/transcripts
+ *
+ * Lists transcripts, or searches them when `q` is given.
+ *
+ * Query Parameters:
+ * - q: Full-text search query (same syntax as the library search)
+ * - limit, offset: Pagination
+ * - orderBy, orderDirection: Sorting (ignored when searching)
+ * - fileHash: Only transcripts of this audio file
+ *
+ * Response:
+ * - Success (200): { success: true, data: PaginatedResult<Transcript | TranscriptSearchResult> }
+ */
+export async function GET(request: NextRequest) {
+  return withServerStore('Transcripts API', async (store) => {
+    const { q, ...options } = listQuerySchema.parse(getQueryParams(request));
+
+    if (q !== undefined) {
+      return successResponse(await store.searchTranscripts(q, options));
+    }
+    return successResponse(store.listTranscripts(options));
+  });
+}
+
+/**
+ * POST /api/transcripts
+ *
+ * Inserts or replaces transcripts.
+ *
+ * Request Body: { transcripts: Transcript[] }
+ *
+ * Response:
+ * - Success (201): { success: true, data: { saved: number } }
+ */
+export async function POST(request: NextRequest) {
+  return withServerStore('Transcripts API', async (store) => {
+    const { transcripts } = saveRequestSchema.parse(await request.json());
+
+    store.saveTranscripts(
+      transcripts.map((record) => reviveDates.transcripts(record as unknown as Transcript))
+    );
+    return successResponse({ saved: transcripts.length }, 201);
+  });
+}
+
+/**
+ * DELETE /api/transcripts
+ *
+ * Deletes transcripts with their analyses and audio.
+ *
+ * Request Body: { ids: string[] }
+ *
+ * Response:
+ * - Success (200): { success: true, data: { deleted: number } }
+ */
+export async function DELETE(request: NextRequest) {
+  return withServerStore('Transcripts API', async (store) => {
+    const { ids } = idListSchema.parse(await request.json());
+    return successResponse({ deleted: store.deleteTranscripts(ids) });
+  });
+}
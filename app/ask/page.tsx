@@ -0,0 +1,28 @@
+"use client";
+
+import * as React from "react";
+import { Container, Title, Text, Stack } from "@mantine/core";
+import { LibraryChat } from "@/components/chat/library-chat";
+
+/**
+ * Library Q&A page: ask questions across all transcripts
+ */
+export default function AskPage() {
+  return (
+    <Container size="xl" py="xl">
+      <Stack gap="xl">
+        {/* Header Section */}
+        <Stack gap="xs">
+          <Title order={1} size="h1">
+            Ask the Library
+          </Title>
+          <Text size="sm" c="dimmed">
+            Ask questions across all your meeting transcripts
+          </Text>
+        </Stack>
+
+        <LibraryChat />
+      </Stack>
+    </Container>
+  );
+}
@@ -6,6 +6,7 @@ import type { PropsWithChildren } from 'react';
 import { ThemeProvider } from '@/components/theme-provider';
 import { IntlProvider } from '@/components/providers/intl-provider';
 import { TemplateSeeder } from '@/components/providers/template-seeder';
+import { RecordingRecovery } from '@/components/providers/recording-recovery';
 import { mantineTheme } from '@/lib/mantine-theme';
 
 export function Providers({ children }: PropsWithChildren) {
@@ -15,6 +16,7 @@ export function Providers({ children }: PropsWithChildren) {
         <IntlProvider>
           <ThemeProvider>
             <TemplateSeeder />
+            <RecordingRecovery />
             {children}
           </ThemeProvider>
         </IntlProvider>
@@ -11,6 +11,9 @@
  * 2. recording: User records audio with controls (pause/resume/stop)
  * 3. completed: User previews recording and can save or re-record
  *
+ * When live transcription is on, the transcript is built while recording
+ * and saved directly from the preview without re-uploading the audio.
+ *
  * Features:
  * - Browser capability detection and alerts
  * - Mode selection with visual cards
@@ -36,8 +39,10 @@ import {
 import { ArrowLeft, Mic, AlertCircle, Info } from "lucide-react";
 import { notifications } from "@mantine/notifications";
 import { getBrowserCapabilities } from "@/lib/browser-capabilities";
+import { closeRecordingSession } from "@/lib/recording-recovery";
 import { useAudioSources } from "@/hooks/use-audio-sources";
 import type { RecordingMode } from "@/types/recording";
+import type { Transcript } from "@/types/transcript";
 import type { RecordingCompleteData } from "@/components/record/recording-interface";
 
 // Dynamic imports for recording components (to be created)
@@ -86,6 +91,8 @@ interface CompletedRecording {
   url: string;
   duration: number;
   mode: RecordingMode;
+  transcript?: Transcript;
+  sessionId?: string;
 }
 
 /**
@@ -173,6 +180,8 @@ export default function RecordPage() {
         url,
         duration: data.duration,
         mode: selectedMode || "microphone",
+        transcript: data.transcript,
+        sessionId: data.sessionId,
       });
 
       // Transition to completed state
@@ -215,6 +224,13 @@ export default function RecordPage() {
       URL.revokeObjectURL(completedRecording.url);
     }
 
+    // Drop the persisted copy kept for crash recovery
+    if (completedRecording?.sessionId) {
+      closeRecordingSession(completedRecording.sessionId).catch((error) => {
+        console.error("Failed to close recording session:", error);
+      });
+    }
+
     // Clear completed recording
     setCompletedRecording(null);
 
@@ -397,6 +413,8 @@ export default function RecordPage() {
             audioUrl={completedRecording.url}
             duration={completedRecording.duration}
             mode={completedRecording.mode}
+            liveTranscript={completedRecording.transcript}
+            sessionId={completedRecording.sessionId}
             onSave={handleRecordingSaved}
             onDiscard={handleDiscard}
           />
@@ -24,7 +24,23 @@ import { ArrowLeft, Plus, Trash2, Save, AlertCircle } from "lucide-react";
 import { notifications } from "@mantine/notifications";
 import { useTemplate } from "@/hooks/use-templates";
 import { saveTemplate } from "@/lib/db";
-import type { Template, TemplateCategory, TemplateSection } from "@/types/template";
+import { checkSectionDependencies } from "@/lib/template-dependencies";
+import { SectionDependencyEditor } from "@/components/templates/section-dependency-editor";
+import {
+  BUILT_IN_TEMPLATE_VARIABLES,
+  TEMPLATE_VARIABLE_NAME_PATTERN,
+  normalizeTemplateVariables,
+  validateTemplateVariables,
+} from "@/lib/template-variables";
+import { PromptVariableTextarea } from "@/components/templates/prompt-variable-textarea";
+import { TemplateVariablesEditor } from "@/components/templates/template-variables-editor";
+import { TemplateTestBench } from "@/components/templates/template-test-bench";
+import type {
+  Template,
+  TemplateCategory,
+  TemplateSection,
+  TemplateVariable,
+} from "@/types/template";
 
 // Icon options for template selection
 const iconOptions = [
@@ -74,6 +90,38 @@ export default function EditTemplatePage() {
   const [category, setCategory] = React.useState<TemplateCategory>("custom");
   const [sections, setSections] = React.useState<TemplateSection[]>([]);
   const [outputs, setOutputs] = React.useState<string[]>([]);
+  const [variables, setVariables] = React.useState<TemplateVariable[]>([]);
+
+  // Variable problems are shown inline as the prompts are edited
+  const variableIssues = React.useMemo(
+    () => validateTemplateVariables({ sections, variables }),
+    [sections, variables]
+  );
+  const variableOptions = [
+    ...BUILT_IN_TEMPLATE_VARIABLES,
+    ...variables
+      .filter((variable) => TEMPLATE_VARIABLE_NAME_PATTERN.test(variable.name.trim()))
+      .map((variable) => ({ name: variable.name.trim(), description: variable.description })),
+  ];
+
+  // The template as edited, used for saving and by the test bench
+  const draftTemplate = React.useMemo<Template | undefined>(
+    () =>
+      template && {
+        id: templateId,
+        name: name.trim(),
+        description: description.trim(),
+        icon,
+        category,
+        sections,
+        outputs: outputs as Template['outputs'],
+        ...(variables.length > 0 && { variables: normalizeTemplateVariables(variables) }),
+        isCustom: true,
+        createdAt: template.createdAt,
+        ...(template.source && { source: template.source }),
+      },
+    [template, templateId, name, description, icon, category, sections, outputs, variables]
+  );
 
   // Initialize form with template data
   React.useEffect(() => {
@@ -84,6 +132,7 @@ export default function EditTemplatePage() {
       setCategory(template.category);
       setSections(template.sections.map(s => ({ ...s })));
       setOutputs([...template.outputs]);
+      setVariables(template.variables?.map((v) => ({ ...v })) ?? []);
     }
   }, [template]);
 
@@ -179,6 +228,28 @@ export default function EditTemplatePage() {
       }
     }
 
+    if (variableIssues.length > 0) {
+      notifications.show({
+        title: "Validation Error",
+        message: variableIssues[0].message,
+        color: "red",
+      });
+      return false;
+    }
+
+    const dependencyCheck = checkSectionDependencies(sections);
+    if (!dependencyCheck.valid) {
+      notifications.show({
+        title: "Validation Error",
+        message:
+          dependencyCheck.cycle.length > 0
+            ? "Section dependencies contain a cycle. Break it in the dependency graph before saving."
+            : "Some sections depend on deleted sections. Remove those dependencies before saving.",
+        color: "red",
+      });
+      return false;
+    }
+
     return true;
   };
 
@@ -193,19 +264,7 @@ export default function EditTemplatePage() {
     setIsSubmitting(true);
 
     try {
-      const updatedTemplate: Template = {
-        id: templateId,
-        name: name.trim(),
-        description: description.trim(),
-        icon,
-        category,
-        sections,
-        outputs: outputs as Template['outputs'],
-        isCustom: true,
-        createdAt: template!.createdAt,
-      };
-
-      await saveTemplate(updatedTemplate);
+      await saveTemplate(draftTemplate!);
 
       notifications.show({
         title: "Success",
@@ -418,16 +477,21 @@ export default function EditTemplatePage() {
                       required
                     />
 
-                    <Textarea
+                    <PromptVariableTextarea
                       label="Analysis Prompt"
                       placeholder="What should the AI analyze for this section?"
                       value={section.prompt}
-                      onChange={(e) =>
-                        handleUpdateSection(index, "prompt", e.target.value)
+                      onChange={(value) =>
+                        handleUpdateSection(index, "prompt", value)
                       }
+                      variables={variableOptions}
+                      error={variableIssues
+                        .filter((issue) => issue.sectionId === section.id)
+                        .map((issue) => issue.message)
+                        .join(" ") || undefined}
                       required
                       minRows={3}
-                      description="Describe what information the AI should extract"
+                      description="Describe what information the AI should extract. Type {{ to insert a variable."
                     />
 
                     <Group grow>
@@ -460,6 +524,25 @@ export default function EditTemplatePage() {
             </Stack>
           </Paper>
 
+          {/* Prompt Variables */}
+          <Paper p="xl" withBorder>
+            <TemplateVariablesEditor
+              variables={variables}
+              onChange={setVariables}
+              issues={variableIssues}
+              disabled={isSubmitting}
+            />
+          </Paper>
+
+          {/* Section Dependencies */}
+          <Paper p="xl" withBorder>
+            <SectionDependencyEditor
+              sections={sections}
+              onChange={setSections}
+              disabled={isSubmitting}
+            />
+          </Paper>
+
           {/* Additional Outputs */}
           <Paper p="xl" withBorder>
             <Stack gap="md">
@@ -499,6 +582,17 @@ export default function EditTemplatePage() {
             </Stack>
           </Paper>
 
+          {/* Test Bench */}
+          {template && draftTemplate && (
+            <Paper p="xl" withBorder>
+              <TemplateTestBench
+                savedTemplate={template}
+                draftTemplate={draftTemplate}
+                disabled={isSubmitting}
+              />
+            </Paper>
+          )}
+
           {/* Submit Actions */}
           <Divider />
           <Group justify="flex-end">
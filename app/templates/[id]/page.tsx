@@ -3,9 +3,10 @@
 import * as React from "react";
 import { useParams } from "next/navigation";
 import Link from "next/link";
-import { Container, Button, Group, Alert, Loader, Stack, Text } from "@mantine/core";
+import { Container, Button, Group, Alert, Loader, Stack, Text, Divider } from "@mantine/core";
 import { ArrowLeft, Edit, AlertCircle } from "lucide-react";
 import { TemplateDetail } from "@/components/templates/template-detail";
+import { TemplateHistory } from "@/components/templates/template-history";
 import { useTemplate } from "@/hooks/use-templates";
 
 /**
@@ -73,6 +74,11 @@ export default function TemplateDetailPage() {
 
         {/* Template Detail Component */}
         <TemplateDetail template={template} />
+
+        <Divider />
+
+        {/* Revision history and version comparison */}
+        <TemplateHistory template={template} />
       </Stack>
     </Container>
   );
@@ -21,7 +21,22 @@ import {
 import { ArrowLeft, Plus, Trash2, Save } from "lucide-react";
 import { notifications } from "@mantine/notifications";
 import { saveTemplate } from "@/lib/db";
-import type { Template, TemplateCategory, TemplateSection } from "@/types/template";
+import { checkSectionDependencies } from "@/lib/template-dependencies";
+import { SectionDependencyEditor } from "@/components/templates/section-dependency-editor";
+import {
+  BUILT_IN_TEMPLATE_VARIABLES,
+  TEMPLATE_VARIABLE_NAME_PATTERN,
+  normalizeTemplateVariables,
+  validateTemplateVariables,
+} from "@/lib/template-variables";
+import { PromptVariableTextarea } from "@/components/templates/prompt-variable-textarea";
+import { TemplateVariablesEditor } from "@/components/templates/template-variables-editor";
+import type {
+  Template,
+  TemplateCategory,
+  TemplateSection,
+  TemplateVariable,
+} from "@/types/template";
 
 // Icon options for template selection
 const iconOptions = [
@@ -74,6 +89,19 @@ export default function NewTemplatePage() {
     },
   ]);
   const [outputs, setOutputs] = React.useState<string[]>([]);
+  const [variables, setVariables] = React.useState<TemplateVariable[]>([]);
+
+  // Variable problems are shown inline as the prompts are edited
+  const variableIssues = React.useMemo(
+    () => validateTemplateVariables({ sections, variables }),
+    [sections, variables]
+  );
+  const variableOptions = [
+    ...BUILT_IN_TEMPLATE_VARIABLES,
+    ...variables
+      .filter((variable) => TEMPLATE_VARIABLE_NAME_PATTERN.test(variable.name.trim()))
+      .map((variable) => ({ name: variable.name.trim(), description: variable.description })),
+  ];
 
   // Add a new section
   const handleAddSection = () => {
@@ -167,6 +195,28 @@ export default function NewTemplatePage() {
       }
     }
 
+    if (variableIssues.length > 0) {
+      notifications.show({
+        title: "Validation Error",
+        message: variableIssues[0].message,
+        color: "red",
+      });
+      return false;
+    }
+
+    const dependencyCheck = checkSectionDependencies(sections);
+    if (!dependencyCheck.valid) {
+      notifications.show({
+        title: "Validation Error",
+        message:
+          dependencyCheck.cycle.length > 0
+            ? "Section dependencies contain a cycle. Break it in the dependency graph before saving."
+            : "Some sections depend on deleted sections. Remove those dependencies before saving.",
+        color: "red",
+      });
+      return false;
+    }
+
     return true;
   };
 
@@ -189,6 +239,7 @@ export default function NewTemplatePage() {
         category,
         sections,
         outputs: outputs as Template['outputs'],
+        ...(variables.length > 0 && { variables: normalizeTemplateVariables(variables) }),
         isCustom: true,
         createdAt: new Date(),
       };
@@ -353,16 +404,21 @@ export default function NewTemplatePage() {
                       required
                     />
 
-                    <Textarea
+                    <PromptVariableTextarea
                       label="Analysis Prompt"
                       placeholder="What should the AI analyze for this section?"
                       value={section.prompt}
-                      onChange={(e) =>
-                        handleUpdateSection(index, "prompt", e.target.value)
+                      onChange={(value) =>
+                        handleUpdateSection(index, "prompt", value)
                       }
+                      variables={variableOptions}
+                      error={variableIssues
+                        .filter((issue) => issue.sectionId === section.id)
+                        .map((issue) => issue.message)
+                        .join(" ") || undefined}
                       required
                       minRows={3}
-                      description="Describe what information the AI should extract"
+                      description="Describe what information the AI should extract. Type {{ to insert a variable."
                     />
 
                     <Group grow>
@@ -395,6 +451,25 @@ export default function NewTemplatePage() {
             </Stack>
           </Paper>
 
+          {/* Prompt Variables */}
+          <Paper p="xl" withBorder>
+            <TemplateVariablesEditor
+              variables={variables}
+              onChange={setVariables}
+              issues={variableIssues}
+              disabled={isSubmitting}
+            />
+          </Paper>
+
+          {/* Section Dependencies */}
+          <Paper p="xl" withBorder>
+            <SectionDependencyEditor
+              sections={sections}
+              onChange={setSections}
+              disabled={isSubmitting}
+            />
+          </Paper>
+
           {/* Additional Outputs */}
           <Paper p="xl" withBorder>
             <Stack gap="md">
@@ -13,6 +13,8 @@ import {
   AlertCircle,
   Search,
   Settings2,
+  Download,
+  Upload,
 } from "lucide-react";
 import {
   Button,
@@ -28,6 +30,7 @@ import {
   ActionIcon,
   SegmentedControl,
   TextInput,
+  FileButton,
 } from "@mantine/core";
 import { modals } from "@mantine/modals";
 import { notifications } from "@mantine/notifications";
@@ -42,6 +45,9 @@ import {
   type UserCategorySettings,
 } from "@/lib/user-categories";
 import { CategoryManagerModal } from "@/components/templates/category-manager-modal";
+import { TemplateExportModal } from "@/components/templates/template-export-modal";
+import { TemplateImportModal } from "@/components/templates/template-import-modal";
+import { TEMPLATE_PACKAGE_ACCEPT } from "@/lib/template-packages";
 import type { Template } from "@/types";
 
 /**
@@ -148,6 +154,9 @@ export default function TemplatesPage() {
     templateAssignments: {},
   });
   const [categoryModalOpen, setCategoryModalOpen] = React.useState(false);
+  const [exportModalOpen, setExportModalOpen] = React.useState(false);
+  const [importFile, setImportFile] = React.useState<File | null>(null);
+  const resetImportRef = React.useRef<() => void>(null);
 
   // Load user category settings from localStorage on mount
   React.useEffect(() => {
@@ -411,11 +420,32 @@ export default function TemplatesPage() {
               Choose a template to analyze your transcripts or create your own
             </Text>
           </Stack>
-          <Link href="/templates/new">
-            <Button variant="filled" leftSection={<Plus size={16} />}>
-              Create Template
+          <Group gap="xs">
+            <FileButton
+              onChange={setImportFile}
+              accept={TEMPLATE_PACKAGE_ACCEPT}
+              resetRef={resetImportRef}
+            >
+              {(props) => (
+                <Button {...props} variant="default" leftSection={<Upload size={16} />}>
+                  Import
+                </Button>
+              )}
+            </FileButton>
+            <Button
+              variant="default"
+              leftSection={<Download size={16} />}
+              onClick={() => setExportModalOpen(true)}
+              disabled={templates.length === 0}
+            >
+              Export
             </Button>
-          </Link>
+            <Link href="/templates/new">
+              <Button variant="filled" leftSection={<Plus size={16} />}>
+                Create Template
+              </Button>
+            </Link>
+          </Group>
         </Group>
 
         {/* Search and Category Controls */}
@@ -525,6 +555,22 @@ export default function TemplatesPage() {
         onSave={handleSaveUserSettings}
         onReset={handleResetUserSettings}
       />
+
+      <TemplateExportModal
+        opened={exportModalOpen}
+        onClose={() => setExportModalOpen(false)}
+        templates={templates}
+        initialSelection={customTemplates.map((t) => t.id)}
+      />
+
+      <TemplateImportModal
+        file={importFile}
+        onClose={() => {
+          setImportFile(null);
+          resetImportRef.current?.();
+        }}
+        templates={templates}
+      />
     </Container>
   );
 }
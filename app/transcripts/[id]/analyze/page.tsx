@@ -8,8 +8,8 @@
 
 'use client';
 
-import React, { useState, useCallback, useMemo } from 'react';
-import { useParams } from 'next/navigation';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useLiveQuery } from 'dexie-react-hooks';
 import {
@@ -26,7 +26,6 @@ import {
   Info,
   X,
   RefreshCw,
-  Clock,
   Search,
 } from 'lucide-react';
 import {
@@ -66,11 +65,12 @@ import { StrategySelector } from '@/components/analysis/strategy-selector';
 import { EvaluationDisplay } from '@/components/analysis/evaluation-display';
 import { StrategyBadge } from '@/components/analysis/strategy-badge';
 import { PhaseTimeline } from '@/components/analysis/phase-timeline';
-import { getStrategyPhases } from '@/lib/analysis-progress-metadata';
+import { TemplateVariablesForm } from '@/components/analysis/template-variables-form';
 import type { Transcript } from '@/types/transcript';
 import type { Template } from '@/types/template';
 import type { Analysis } from '@/types/analysis';
-import type { AnalysisStrategy } from '@/lib/analysis-strategy';
+import { STRATEGY_TIME_ESTIMATES, type AnalysisStrategy } from '@/lib/analysis-strategy';
+import { resolveTemplateVariables, type TemplateVariableValues } from '@/lib/template-variables';
 
 /**
  * Compact Template Card Component (Phase 2)
@@ -132,6 +132,7 @@ export default function AnalyzePage() {
   });
   const [selectedStrategy, setSelectedStrategy] = useState<AnalysisStrategy | 'auto'>('auto');
   const [runEvaluation, setRunEvaluation] = useState<boolean>(true);
+  const [variableValues, setVariableValues] = useState<TemplateVariableValues>({});
   const [evaluationView, setEvaluationView] = useState<'draft' | 'final'>('final');
   const [phasesExpanded, setPhasesExpanded] = useState<boolean>(false);
 
@@ -240,8 +241,38 @@ export default function AnalyzePage() {
     return counts;
   }, [templates, userSettings]);
 
+  // Template and strategy requested via ?template= and ?strategy= (e.g. re-running
+  // an older analysis with the newest template revision), applied once
+  const searchParams = useSearchParams();
+  const requestedTemplateId = searchParams.get('template');
+  const requestedStrategy = searchParams.get('strategy');
+  const appliedTemplateRequest = useRef(false);
+  React.useEffect(() => {
+    if (appliedTemplateRequest.current || !templates || !requestedTemplateId) return;
+    const requested = templates.find((t) => t.id === requestedTemplateId);
+    if (!requested) return;
+
+    appliedTemplateRequest.current = true;
+    setSelectedTemplateId(requested.id);
+    setSelectedCategory(
+      requested.isCustom
+        ? userSettings.templateAssignments[requested.id] ?? 'custom'
+        : getEffectiveCategory(requested.id, requested.name)
+    );
+    if (requestedStrategy && requestedStrategy in STRATEGY_TIME_ESTIMATES) {
+      setSelectedStrategy(requestedStrategy as AnalysisStrategy);
+    }
+  }, [templates, requestedTemplateId, requestedStrategy, userSettings]);
+
   const isLoading = transcript === undefined || templates === undefined;
   const selectedTemplate = templates?.find((t) => t.id === selectedTemplateId);
+  const unresolvedVariables = useMemo(
+    () =>
+      transcript && selectedTemplate
+        ? resolveTemplateVariables(selectedTemplate, transcript, variableValues).unresolved
+        : [],
+    [transcript, selectedTemplate, variableValues]
+  );
 
   // Handle analyze button click
   const handleAnalyze = useCallback(async () => {
@@ -254,7 +285,13 @@ export default function AnalyzePage() {
       return;
     }
 
-    const analysis = await analyzeTranscript(transcript, selectedTemplate, selectedStrategy, runEvaluation);
+    const analysis = await analyzeTranscript(
+      transcript,
+      selectedTemplate,
+      selectedStrategy,
+      runEvaluation,
+      variableValues
+    );
 
     if (analysis) {
       notifications.show({
@@ -269,7 +306,7 @@ export default function AnalyzePage() {
         color: 'red',
       });
     }
-  }, [transcript, selectedTemplate, selectedStrategy, runEvaluation, analyzeTranscript, state.error]);
+  }, [transcript, selectedTemplate, selectedStrategy, runEvaluation, variableValues, analyzeTranscript, state.error]);
 
   // Handle retry after error
   const handleRetry = useCallback(() => {
@@ -646,6 +683,16 @@ export default function AnalyzePage() {
               </Paper>
             )}
 
+            {/* Prompt variables used by the selected template */}
+            {selectedTemplate && transcript && (
+              <TemplateVariablesForm
+                template={selectedTemplate}
+                transcript={transcript}
+                values={variableValues}
+                onChange={setVariableValues}
+              />
+            )}
+
             <Divider />
 
             {/* Strategy Selector - Compact Mode */}
@@ -665,7 +712,7 @@ export default function AnalyzePage() {
               <Button
                 size="lg"
                 onClick={handleAnalyze}
-                disabled={!selectedTemplateId}
+                disabled={!selectedTemplateId || unresolvedVariables.length > 0}
                 leftSection={<Sparkles size={20} />}
                 styles={{ root: { minHeight: 44 } }}
               >
@@ -681,11 +728,13 @@ export default function AnalyzePage() {
             <Stack gap="md">
               <Group justify="space-between" align="flex-start">
                 <Group gap="sm">
-                  <StrategyBadge
-                    strategy={(state.resolvedStrategy || 'basic') as AnalysisStrategy}
-                    wasAutoSelected={selectedStrategy === 'auto'}
-                    size="md"
-                  />
+                  {state.resolvedStrategy && (
+                    <StrategyBadge
+                      strategy={state.resolvedStrategy}
+                      wasAutoSelected={selectedStrategy === 'auto'}
+                      size="md"
+                    />
+                  )}
                   <Loader2 size={20} className="animate-spin" />
                   <Title order={3} size="h4">
                     Analyzing Transcript
@@ -707,35 +756,23 @@ export default function AnalyzePage() {
                 {state.progress.message}
               </Text>
 
-              {/* Progress Bar with Time Estimate - Hybrid/Advanced Only */}
-              {state.resolvedStrategy && state.resolvedStrategy !== 'basic' && (
-                <Box>
-                  <Progress
-                    value={state.progress.progress}
-                    size="md"
-                    mb="xs"
-                    animated
-                    color="blue"
-                    style={{ transition: 'width 0.3s ease' }}
-                  />
-                  <Group justify="space-between">
-                    <Text size="sm" c="dimmed" fw={500}>
-                      {state.progress.progress}% Complete
-                    </Text>
-                    {state.progress.progress > 5 && state.progress.progress < 90 && (
-                      <Group gap="xs">
-                        <Clock size={14} />
-                        <Text size="xs" c="dimmed">
-                          Est. {Math.max(1, Math.ceil(((selectedTemplate.sections.length * 15) / 60) * (1 - state.progress.progress / 100)))} min remaining
-                        </Text>
-                      </Group>
-                    )}
-                  </Group>
-                </Box>
-              )}
+              {/* Progress Bar - driven by server-sent phase progress */}
+              <Box>
+                <Progress
+                  value={state.progress.progress}
+                  size="md"
+                  mb="xs"
+                  animated
+                  color="blue"
+                  style={{ transition: 'width 0.3s ease' }}
+                />
+                <Text size="sm" c="dimmed" fw={500}>
+                  {state.progress.progress}% Complete
+                </Text>
+              </Box>
 
-              {/* Phase Timeline - Strategy-Aware Progress (Hybrid/Advanced Only) */}
-              {state.resolvedStrategy && state.resolvedStrategy !== 'basic' && state.progress.progress > 5 && state.progress.progress < 90 && (
+              {/* Phase Timeline - the phases the server is actually running */}
+              {state.phases.length > 0 && state.progress.phaseId !== 'saving' && (
                 <>
                   <Divider />
                   <Accordion
@@ -749,12 +786,9 @@ export default function AnalyzePage() {
                       </Accordion.Control>
                       <Accordion.Panel>
                         <PhaseTimeline
-                          phases={getStrategyPhases(
-                            state.resolvedStrategy || 'basic',
-                            selectedTemplate,
-                            runEvaluation
-                          )}
+                          phases={state.phases}
                           currentProgress={state.progress.progress}
+                          currentPhaseId={state.progress.phaseId}
                         />
                       </Accordion.Panel>
                     </Accordion.Item>
@@ -762,72 +796,59 @@ export default function AnalyzePage() {
                 </>
               )}
 
-              {/* Section Progress Checklist - Advanced Strategy Only */}
-              {state.progress.progress > 5 && state.progress.progress < 90 && state.resolvedStrategy === 'advanced' && (
+              {/* Section Results - partial results streamed as each step finishes */}
+              {state.partialSections.length > 0 && state.progress.phaseId !== 'saving' && (
                 <Stack gap="sm">
                   <Divider />
                   <Group justify="space-between" align="center">
                     <Text size="sm" fw={500}>
-                      Progress by Section:
+                      Sections Ready:
                     </Text>
                     <Badge variant="light" size="sm">
-                      {selectedTemplate.sections.filter((_, idx) => {
-                        const currentProgress = state.progress?.progress ?? 0;
-                        const sectionProgress = (currentProgress - 5) / 75; // 5-80% range
-                        const sectionsComplete = Math.floor(
-                          sectionProgress * selectedTemplate.sections.length
-                        );
-                        return idx < sectionsComplete;
-                      }).length}{' '}
-                      / {selectedTemplate.sections.length} complete
+                      {state.partialSections.length} / {selectedTemplate.sections.length} complete
                     </Badge>
                   </Group>
                   <Stack gap="xs">
-                    {selectedTemplate.sections.map((section, index) => {
-                      const currentProgress = state.progress?.progress ?? 0;
-                      const sectionProgress = (currentProgress - 5) / 75; // 5-80% range
-                      const sectionsComplete = Math.floor(
-                        sectionProgress * selectedTemplate.sections.length
-                      );
-                      const isComplete = index < sectionsComplete;
-                      const isCurrent = index === sectionsComplete;
+                    {selectedTemplate.sections.map((section) => {
+                      const result = state.partialSections.find((s) => s.name === section.name);
 
                       return (
                         <Group
                           key={section.id}
                           gap="sm"
+                          align="flex-start"
+                          wrap="nowrap"
                           style={{
                             padding: '8px 12px',
                             borderRadius: '8px',
-                            backgroundColor: isCurrent
-                              ? 'rgba(68, 73, 156, 0.08)'
-                              : isComplete
-                              ? 'rgba(76, 175, 80, 0.05)'
-                              : 'transparent',
-                            color: isComplete
-                              ? 'var(--mantine-color-black)'
-                              : isCurrent
-                              ? 'var(--aph-blue)'
-                              : 'var(--mantine-color-dimmed)',
-                            fontWeight: isCurrent ? 600 : isComplete ? 500 : 400,
+                            backgroundColor: result ? 'rgba(76, 175, 80, 0.05)' : 'transparent',
+                            color: result ? 'var(--mantine-color-black)' : 'var(--mantine-color-dimmed)',
                             transition: 'all 0.3s ease',
                           }}
                         >
-                          {isComplete ? (
-                            <CheckCircle size={18} color="green" />
-                          ) : isCurrent ? (
-                            <Loader2 size={18} className="animate-spin" color="var(--aph-blue)" />
+                          {result ? (
+                            <CheckCircle size={18} color="green" style={{ flexShrink: 0 }} />
                           ) : (
                             <Box
                               style={{
                                 width: 18,
                                 height: 18,
+                                flexShrink: 0,
                                 borderRadius: '50%',
                                 border: '2px solid var(--mantine-color-gray-4)',
                               }}
                             />
                           )}
-                          <Text size="sm">{section.name}</Text>
+                          <Stack gap={2} style={{ flex: 1, minWidth: 0 }}>
+                            <Text size="sm" fw={result ? 500 : 400}>
+                              {section.name}
+                            </Text>
+                            {result && (
+                              <Text size="xs" c="dimmed" lineClamp={2}>
+                                {result.content}
+                              </Text>
+                            )}
+                          </Stack>
                         </Group>
                       );
                     })}
@@ -836,7 +857,7 @@ export default function AnalyzePage() {
               )}
 
               {/* Saving indicator */}
-              {state.progress.progress >= 90 && state.progress.progress < 100 && (
+              {state.progress.phaseId === 'saving' && (
                 <Group gap="sm" p="md" style={{ backgroundColor: 'rgba(68, 73, 156, 0.05)', borderRadius: '8px' }}>
                   <Loader2 size={16} className="animate-spin" color="var(--aph-blue)" />
                   <Text size="sm" c="dimmed" fw={500}>
@@ -971,6 +992,7 @@ export default function AnalyzePage() {
               analysis={state.analysis}
               template={selectedTemplate}
               onExport={handleExport}
+              transcript={transcript}
               showDraftResults={evaluationView === 'draft'}
             />
 
@@ -7,8 +7,8 @@
 
 "use client";
 
-import React, { useState, useCallback, useEffect, useRef } from "react";
-import { useParams, useRouter } from "next/navigation";
+import React, { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 import dynamic from "next/dynamic";
 import { useLiveQuery } from "dexie-react-hooks";
@@ -37,21 +37,27 @@ import {
   getTranscript,
   deleteTranscript,
   getAnalysisByTranscript,
+  updateTranscript,
+  updateTranscriptMeetingDate,
 } from "@/lib/db";
-import {
-  exportTranscriptAsText,
-  exportTranscriptAsSRT,
-  exportTranscriptAsVTT,
-  downloadTextAsFile,
-} from "@/lib/transcript-utils";
+import { downloadTextAsFile } from "@/lib/transcript-utils";
+import { getFormattedContent, MIME_TYPES } from "@/lib/export";
+import { getSpeakerLabels, withSpeakerNames } from "@/lib/speaker-roster";
 import { getAudioFile, revokeAudioUrl } from "@/lib/audio-storage";
+import { selectionToTimeSpan, type RedactionRange } from "@/lib/redaction";
 import { TranscriptHeader } from "@/components/transcript/transcript-header";
 import { TranscriptViewer } from "@/components/transcript/transcript-viewer";
+import { EditHistoryBar } from "@/components/transcript/edit-history-bar";
+import { SpeakerRosterModal } from "@/components/transcript/speaker-roster-modal";
+import { RedactionPanel } from "@/components/transcript/redaction-panel";
+import type { SegmentEditHandlers } from "@/components/transcript/segment-editor";
+import { useTranscriptEditor } from "@/hooks/use-transcript-editor";
+import { useTemplates } from "@/hooks/use-templates";
 import { AnalysisViewer } from "@/components/analysis/analysis-viewer";
 import { ChatInterface } from "@/components/chat/chat-interface";
-import type { Transcript, TranscriptSegment } from "@/types/transcript";
+import type { SpeakerProfile, Transcript, TranscriptSegment } from "@/types/transcript";
 import type { Analysis } from "@/types/analysis";
-import type { AudioPlayerControls } from "@/types/audio";
+import type { AudioPlayerControls, WaveformRegion } from "@/types/audio";
 
 // Dynamic import for AudioPlayer (contains heavy WaveSurfer dependency)
 const AudioPlayer = dynamic(
@@ -80,6 +86,8 @@ const AudioPlayer = dynamic(
 
 const EMPTY_ANALYSES: Analysis[] = [];
 
+const REDACTION_REGION_COLOR = "rgba(250, 82, 82, 0.3)";
+
 /**
  * Format analysis tab label: Analysis + short date
  * Example: "Analysis (Nov 23)" or "Analysis (Dec 1)"
@@ -103,18 +111,29 @@ function formatAnalysisTabLabel(analysis: Analysis): string {
  * - Full transcript viewer with search
  * - Export functionality (TXT, SRT, VTT, JSON)
  * - Delete with confirmation
+ * - Inline segment editing with undo/redo and diff against the original
+ * - Redacted copies with PII ranges bleeped or silenced
  * - Loading and error states
  * - Back to list navigation
  */
 export default function TranscriptDetailPage() {
   const params = useParams();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [isDeleting, setIsDeleting] = useState(false);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [activeSegmentIndex, setActiveSegmentIndex] = useState<number>(-1);
+  const [activeWordIndex, setActiveWordIndex] = useState<number>(-1);
   const [isScrolled, setIsScrolled] = useState(false);
   const [activeTab, setActiveTab] = useState<string | null>("transcript");
+  const [isSpeakerRosterOpen, setIsSpeakerRosterOpen] = useState(false);
+  const [isRedacting, setIsRedacting] = useState(false);
+  const [redactionRanges, setRedactionRanges] = useState<RedactionRange[]>([]);
   const hasSetInitialTab = useRef(false);
+  // Segment requested via ?segment= (e.g. from a search result), applied once
+  const pendingLinkedSegment = useRef<number | null>(null);
+  // Analysis requested via ?analysis= (e.g. from the action item tracker), applied once
+  const appliedLinkedAnalysis = useRef<string | null>(null);
 
   const audioControlsRef = useRef<AudioPlayerControls | null>(null);
   const tabsRef = useRef<HTMLDivElement>(null);
@@ -145,9 +164,161 @@ export default function TranscriptDetailPage() {
       }
     }, [transcriptId]) || EMPTY_ANALYSES;
 
+  // Templates resolve analysis section formats (e.g. tables) for export
+  const { templates } = useTemplates();
+
   // Loading state
   const isLoading = transcript === undefined;
 
+  // Inline segment editing with persistent revision history
+  const editor = useTranscriptEditor(transcript);
+  const editHandlers = useMemo<SegmentEditHandlers>(
+    () => ({
+      onEditText: editor.editText,
+      onSplit: editor.split,
+      onMergeWithNext: editor.mergeWithNext,
+      onAdjustTiming: editor.adjustTiming,
+    }),
+    [editor.editText, editor.split, editor.mergeWithNext, editor.adjustTiming]
+  );
+
+  // Speaker roster: segments keep raw labels, the viewer shows roster names
+  const displayTranscript = useMemo(
+    () => (transcript ? withSpeakerNames(transcript) : undefined),
+    [transcript]
+  );
+  const hasSpeakers = useMemo(
+    () => (transcript ? getSpeakerLabels(transcript.segments).length > 0 : false),
+    [transcript]
+  );
+  const openSpeakerRoster = useCallback(() => setIsSpeakerRosterOpen(true), []);
+  const closeSpeakerRoster = useCallback(() => setIsSpeakerRosterOpen(false), []);
+
+  const handleSaveSpeakers = useCallback(
+    async (speakers: SpeakerProfile[]) => {
+      if (!transcript) return;
+      await updateTranscript(transcript.id, { speakers });
+      notifications.show({
+        title: "Speakers Updated",
+        message: "Speaker names will be used in the viewer, exports, analysis, and chat.",
+        color: "green",
+      });
+    },
+    [transcript]
+  );
+
+  const handleMeetingDateChange = useCallback(
+    async (meetingDate: Date) => {
+      if (!transcript) return;
+      try {
+        await updateTranscriptMeetingDate(transcript.id, meetingDate);
+      } catch (error) {
+        notifications.show({
+          title: "Update Failed",
+          message: error instanceof Error ? error.message : "Failed to update meeting date",
+          color: "red",
+        });
+      }
+    },
+    [transcript]
+  );
+
+  // Redaction: ranges come from waveform regions and transcript text selections
+  const redactionRegions = useMemo<WaveformRegion[]>(
+    () =>
+      redactionRanges.map((range) => ({
+        id: range.id,
+        start: range.start,
+        end: range.end,
+        color: REDACTION_REGION_COLOR,
+      })),
+    [redactionRanges]
+  );
+
+  const startRedacting = useCallback(() => {
+    setIsRedacting(true);
+    setActiveTab("transcript");
+  }, []);
+
+  const stopRedacting = useCallback(() => {
+    setIsRedacting(false);
+    setRedactionRanges([]);
+  }, []);
+
+  const handleRegionsChange = useCallback((regions: WaveformRegion[]) => {
+    setRedactionRanges((previous) =>
+      regions.map((region) => {
+        const existing = previous.find((range) => range.id === region.id);
+        return existing
+          ? { ...existing, start: region.start, end: region.end }
+          : { id: region.id, start: region.start, end: region.end };
+      })
+    );
+  }, []);
+
+  const handleRedactionTextSelect = useCallback(
+    (segmentIndex: number, from: number, to: number) => {
+      const segment = transcript?.segments.find((s) => s.index === segmentIndex);
+      if (!segment) return;
+
+      setRedactionRanges((previous) => [
+        ...previous,
+        {
+          id: crypto.randomUUID(),
+          ...selectionToTimeSpan(segment, from, to),
+          selection: { segmentIndex, from, to },
+        },
+      ]);
+    },
+    [transcript]
+  );
+
+  const handleRemoveRedactionRange = useCallback((id: string) => {
+    setRedactionRanges((previous) => previous.filter((range) => range.id !== id));
+  }, []);
+
+  const handleRedactedCopyCreated = useCallback(
+    (redacted: Transcript) => {
+      stopRedacting();
+      router.push(`/transcripts/${redacted.id}`);
+    },
+    [router, stopRedacting]
+  );
+
+  // Deep link: ?segment=N opens the transcript tab at that segment
+  const linkedSegment = searchParams.get("segment");
+  useEffect(() => {
+    if (!transcript || linkedSegment === null) return;
+
+    const index = Number(linkedSegment);
+    if (!Number.isInteger(index) || index < 0 || index >= (transcript.segments?.length ?? 0)) {
+      return;
+    }
+
+    hasSetInitialTab.current = true;
+    setActiveTab("transcript");
+    setActiveSegmentIndex(index);
+
+    if (audioControlsRef.current) {
+      audioControlsRef.current.jumpToSegment(index);
+    } else {
+      pendingLinkedSegment.current = index;
+    }
+    // Only react to the link itself, not to later transcript edits
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [linkedSegment, transcript?.id]);
+
+  // Deep link: ?analysis=ID opens that analysis's tab
+  const linkedAnalysis = searchParams.get("analysis");
+  useEffect(() => {
+    if (!linkedAnalysis || appliedLinkedAnalysis.current === linkedAnalysis) return;
+    if (!analyses.some((analysis) => analysis.id === linkedAnalysis)) return;
+
+    appliedLinkedAnalysis.current = linkedAnalysis;
+    hasSetInitialTab.current = true;
+    setActiveTab(`analysis-${linkedAnalysis}`);
+  }, [linkedAnalysis, analyses]);
+
   // Set initial tab based on analyses availability (only once)
   useEffect(() => {
     if (analyses.length > 0 && !hasSetInitialTab.current) {
@@ -159,48 +330,30 @@ export default function TranscriptDetailPage() {
 
   // Handle export functionality
   const handleExport = useCallback(
-    (format: "txt" | "srt" | "vtt" | "json") => {
+    async (format: "txt" | "srt" | "vtt" | "json" | "docx") => {
       if (!transcript) return;
 
       try {
-        let content: string;
-        let filename: string;
-        let mimeType: string;
-
-        switch (format) {
-          case "txt": {
-            content = exportTranscriptAsText(transcript);
-            filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.txt`;
-            mimeType = "text/plain";
-            break;
+        if (format === "docx") {
+          // Loaded on demand to keep the docx library out of the page bundle
+          const { exportAndDownloadTranscriptDOCX } = await import("@/lib/docx/docx-exporter");
+          const result = await exportAndDownloadTranscriptDOCX(transcript);
+          if (!result.success) {
+            throw new Error(result.error || "Failed to export Word document");
           }
-
-          case "srt": {
-            content = exportTranscriptAsSRT(transcript.segments);
-            filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.srt`;
-            mimeType = "text/plain";
-            break;
-          }
-
-          case "vtt": {
-            content = exportTranscriptAsVTT(transcript.segments);
-            filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.vtt`;
-            mimeType = "text/vtt";
-            break;
-          }
-
-          case "json": {
-            content = JSON.stringify(transcript, null, 2);
-            filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.json`;
-            mimeType = "application/json";
-            break;
-          }
-
-          default:
-            throw new Error(`Unsupported export format: ${format}`);
+          notifications.show({
+            title: "Export Successful",
+            message: "Transcript exported as Word document",
+            color: "green",
+          });
+          return;
         }
 
-        downloadTextAsFile(content, filename, mimeType);
+        // lib/export formatters apply the speaker roster to segment labels
+        const content = getFormattedContent(transcript, format);
+        const filename = `${transcript.filename.replace(/\.[^/.]+$/, "")}.${format}`;
+
+        downloadTextAsFile(content, filename, MIME_TYPES[format]);
 
         notifications.show({
           title: "Export Successful",
@@ -309,9 +462,18 @@ export default function TranscriptDetailPage() {
     []
   );
 
+  // Handle word change from audio player (karaoke highlight)
+  const handleWordChange = useCallback((index: number) => {
+    setActiveWordIndex(index);
+  }, []);
+
   // Handle controls ready from audio player
   const handleControlsReady = useCallback((controls: AudioPlayerControls) => {
     audioControlsRef.current = controls;
+    if (pendingLinkedSegment.current !== null) {
+      controls.jumpToSegment(pendingLinkedSegment.current);
+      pendingLinkedSegment.current = null;
+    }
   }, []);
 
   // Handle segment click from transcript viewer (to seek audio)
@@ -326,6 +488,19 @@ export default function TranscriptDetailPage() {
     [transcript]
   );
 
+  // Handle citation chip click from chat (seek audio, show the segment)
+  const handleCitationClick = useCallback((segment: TranscriptSegment) => {
+    audioControlsRef.current?.seek(segment.start);
+    setActiveSegmentIndex(segment.index);
+    setActiveTab("transcript");
+  }, []);
+
+  // Handle word click from transcript viewer (seek to the exact word)
+  const handleTranscriptWordClick = useCallback((time: number) => {
+    audioControlsRef.current?.seek(time);
+    setActiveTab("transcript");
+  }, []);
+
   // Handle scroll for sticky tabs shadow (throttled for performance)
   useEffect(() => {
     let lastCall = 0;
@@ -437,6 +612,9 @@ export default function TranscriptDetailPage() {
               onExport={handleExport}
               onDelete={handleDelete}
               onAnalyze={handleAnalyze}
+              onManageSpeakers={hasSpeakers ? openSpeakerRoster : undefined}
+              onRedact={audioUrl && !isRedacting ? startRedacting : undefined}
+              onMeetingDateChange={handleMeetingDateChange}
               isDeleting={isDeleting}
               hasExistingAnalyses={analyses.length > 0}
             />
@@ -462,8 +640,20 @@ export default function TranscriptDetailPage() {
                     audioUrl={audioUrl}
                     segments={transcript.segments}
                     onSegmentChange={handleSegmentChange}
+                    onWordChange={handleWordChange}
+                    regions={isRedacting ? redactionRegions : undefined}
+                    onRegionsChange={isRedacting ? handleRegionsChange : undefined}
                     onControlsReady={handleControlsReady}
                   />
+                  {isRedacting && (
+                    <RedactionPanel
+                      transcript={transcript}
+                      ranges={redactionRanges}
+                      onRemoveRange={handleRemoveRedactionRange}
+                      onClose={stopRedacting}
+                      onCreated={handleRedactedCopyCreated}
+                    />
+                  )}
                 </Stack>
               </Paper>
             )}
@@ -527,13 +717,22 @@ export default function TranscriptDetailPage() {
                       overflow: "visible",
                     }}
                   >
+                    <EditHistoryBar editor={editor} />
                     <TranscriptViewer
-                      transcript={transcript}
+                      transcript={displayTranscript ?? transcript}
                       defaultView="segments"
                       activeSegmentIndex={activeSegmentIndex}
+                      activeWordIndex={activeWordIndex}
                       onSegmentClick={
                         audioUrl ? handleTranscriptSegmentClick : undefined
                       }
+                      onWordClick={
+                        audioUrl ? handleTranscriptWordClick : undefined
+                      }
+                      onTextSelect={
+                        isRedacting ? handleRedactionTextSelect : undefined
+                      }
+                      editHandlers={editHandlers}
                     />
                   </Paper>
                 </Tabs.Panel>
@@ -546,6 +745,8 @@ export default function TranscriptDetailPage() {
                   >
                     <AnalysisViewer
                       analysis={analysis}
+                      template={templates.find((t) => t.id === analysis.templateId)}
+                      transcript={transcript}
                       onTimestampClick={
                         audioUrl ? handleTranscriptSegmentClick : undefined
                       }
@@ -566,6 +767,7 @@ export default function TranscriptDetailPage() {
                     <ChatInterface
                       transcriptId={transcript.id}
                       transcript={transcript}
+                      onCitationClick={handleCitationClick}
                     />
                   </Paper>
                 </Tabs.Panel>
@@ -573,6 +775,13 @@ export default function TranscriptDetailPage() {
             </div>
           </Stack>
         </Container>
+
+        <SpeakerRosterModal
+          opened={isSpeakerRosterOpen}
+          onClose={closeSpeakerRoster}
+          transcript={transcript}
+          onSave={handleSaveSpeakers}
+        />
       </div>
   );
 }
@@ -11,6 +11,7 @@ import {
   LayoutGrid,
   List,
   Download,
+  Upload,
 } from 'lucide-react';
 import {
   Container,
@@ -30,10 +31,15 @@ import {
   Checkbox,
 } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import { useSearchTranscripts } from '@/hooks/use-transcripts';
+import { useSearchTranscripts, SEARCH_RESULT_LIMIT } from '@/hooks/use-transcripts';
 import { useDebounce } from '@/hooks/use-debounce';
 import { deleteTranscript, deleteTranscriptsBulk, type TranscriptSortField } from '@/lib/db';
-import { TranscriptCard, TranscriptTable } from '@/components/transcript';
+import {
+  TranscriptCard,
+  TranscriptTable,
+  SearchResultList,
+  ImportTranscriptsModal,
+} from '@/components/transcript';
 import type { Transcript } from '@/types/transcript';
 
 type ViewMode = 'grid' | 'list';
@@ -83,7 +89,14 @@ function sortTranscripts(
 export default function TranscriptsPage() {
   const [searchTerm, setSearchTerm] = React.useState('');
   const debouncedSearchTerm = useDebounce(searchTerm, 300);
-  const { transcripts: rawTranscripts, isLoading } = useSearchTranscripts(debouncedSearchTerm);
+  const {
+    transcripts: rawTranscripts,
+    results: searchResults,
+    total: matchCount,
+    isLoading,
+  } = useSearchTranscripts(debouncedSearchTerm);
+  // Search results are ranked by relevance rather than sorted
+  const isSearching = debouncedSearchTerm.trim().length > 0;
 
   const [viewMode, setViewMode] = React.useState<ViewMode>('grid');
   const [sortBy, setSortBy] = React.useState<TranscriptSortField>('createdAt');
@@ -93,11 +106,12 @@ export default function TranscriptsPage() {
   const [deleteId, setDeleteId] = React.useState<string | null>(null);
   const [isDeleting, setIsDeleting] = React.useState(false);
   const [showBulkDeleteModal, setShowBulkDeleteModal] = React.useState(false);
+  const [showImportModal, setShowImportModal] = React.useState(false);
 
-  // Sort transcripts
+  // Sort transcripts (search results keep their rank order)
   const transcripts = React.useMemo(
-    () => sortTranscripts(rawTranscripts, sortBy, sortOrder),
-    [rawTranscripts, sortBy, sortOrder]
+    () => (isSearching ? rawTranscripts : sortTranscripts(rawTranscripts, sortBy, sortOrder)),
+    [rawTranscripts, isSearching, sortBy, sortOrder]
   );
 
   // Clear selection when transcripts change
@@ -202,6 +216,7 @@ export default function TranscriptsPage() {
       duration: t.metadata?.duration,
       language: t.metadata?.language,
       segments: t.segments,
+      speakers: t.speakers,
     }));
 
     const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -229,20 +244,30 @@ export default function TranscriptsPage() {
     <Container size="xl" py="xl">
       <Stack gap="xl">
         {/* Header Section */}
-        <Stack gap="xs">
-          <Title order={1} size="h1">
-            All Transcripts
-          </Title>
-          <Text size="sm" c="dimmed">
-            View and manage all your meeting transcriptions
-          </Text>
-        </Stack>
+        <Group justify="space-between" align="flex-start" wrap="wrap" gap="md">
+          <Stack gap="xs">
+            <Title order={1} size="h1">
+              All Transcripts
+            </Title>
+            <Text size="sm" c="dimmed">
+              View and manage all your meeting transcriptions
+            </Text>
+          </Stack>
+          <Button
+            variant="light"
+            leftSection={<Upload size={16} />}
+            onClick={() => setShowImportModal(true)}
+            styles={{ root: { minHeight: 44 } }}
+          >
+            Import
+          </Button>
+        </Group>
 
         {/* Toolbar */}
         <Group justify="space-between" wrap="wrap" gap="md">
           {/* Search */}
           <TextInput
-            placeholder="Search transcripts..."
+            placeholder='Search transcripts... ("exact phrase", prefix*)'
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             leftSection={<Search size={16} />}
@@ -253,36 +278,38 @@ export default function TranscriptsPage() {
           />
 
           {/* Sort and View Controls */}
-          <Group gap="sm">
-            <Select
-              value={sortBy}
-              onChange={(val) => val && handleSortChange(val as TranscriptSortField)}
-              data={sortOptions}
-              style={{ width: 160 }}
-              styles={{
-                input: { minHeight: 44 },
-              }}
-              aria-label="Sort by"
-            />
-            <SegmentedControl
-              value={viewMode}
-              onChange={(val) => setViewMode(val as ViewMode)}
-              data={[
-                {
-                  value: 'grid',
-                  label: <LayoutGrid size={18} />,
-                },
-                {
-                  value: 'list',
-                  label: <List size={18} />,
-                },
-              ]}
-              styles={{
-                root: { minHeight: 44 },
-              }}
-              aria-label="View mode"
-            />
-          </Group>
+          {!isSearching && (
+            <Group gap="sm">
+              <Select
+                value={sortBy}
+                onChange={(val) => val && handleSortChange(val as TranscriptSortField)}
+                data={sortOptions}
+                style={{ width: 160 }}
+                styles={{
+                  input: { minHeight: 44 },
+                }}
+                aria-label="Sort by"
+              />
+              <SegmentedControl
+                value={viewMode}
+                onChange={(val) => setViewMode(val as ViewMode)}
+                data={[
+                  {
+                    value: 'grid',
+                    label: <LayoutGrid size={18} />,
+                  },
+                  {
+                    value: 'list',
+                    label: <List size={18} />,
+                  },
+                ]}
+                styles={{
+                  root: { minHeight: 44 },
+                }}
+                aria-label="View mode"
+              />
+            </Group>
+          )}
         </Group>
 
         {/* Bulk Actions Bar */}
@@ -326,7 +353,11 @@ export default function TranscriptsPage() {
         {/* Transcript Count */}
         {transcripts.length > 0 && !showBulkActions && (
           <Text size="sm" c="dimmed">
-            {transcripts.length} transcript{transcripts.length !== 1 ? 's' : ''} found
+            {isSearching
+              ? `${matchCount} matching transcript${matchCount !== 1 ? 's' : ''}${
+                  matchCount > SEARCH_RESULT_LIMIT ? ` (showing top ${SEARCH_RESULT_LIMIT})` : ''
+                }`
+              : `${transcripts.length} transcript${transcripts.length !== 1 ? 's' : ''} found`}
           </Text>
         )}
 
@@ -360,6 +391,8 @@ export default function TranscriptsPage() {
               </Stack>
             </Card>
           )
+        ) : isSearching && searchResults.length > 0 ? (
+          <SearchResultList results={searchResults} onDelete={setDeleteId} />
         ) : transcripts.length > 0 ? (
           viewMode === 'grid' ? (
             <Box
@@ -414,7 +447,7 @@ export default function TranscriptsPage() {
               <Text c="dimmed" ta="center" size="md" style={{ maxWidth: 450 }}>
                 {searchTerm
                   ? 'Try adjusting your search terms or clear the search to see all transcripts.'
-                  : 'No transcripts available yet. Transcripts will appear here once recordings are uploaded.'}
+                  : 'No transcripts available yet. Transcripts will appear here once recordings are uploaded or captions are imported.'}
               </Text>
 
               <Group gap="md">
@@ -445,6 +478,11 @@ export default function TranscriptsPage() {
           </Card>
         )}
 
+        <ImportTranscriptsModal
+          opened={showImportModal}
+          onClose={() => setShowImportModal(false)}
+        />
+
         {/* Single Delete Confirmation Dialog */}
         <Modal
           opened={!!deleteId}
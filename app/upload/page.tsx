@@ -32,6 +32,7 @@ import {
   Group,
   Box,
   Switch,
+  TextInput,
   Skeleton,
   Loader,
   Overlay,
@@ -48,6 +49,7 @@ import {
 } from "@/lib/db";
 import { loadAndStoreAudioFile } from "@/lib/audio-storage";
 import { computeTranscriptFingerprint } from "@/lib/transcript-fingerprint";
+import { fromIsoDate } from "@/lib/action-items";
 import type { Transcript } from "@/types/transcript";
 
 // Code-split heavy upload components for better performance
@@ -159,6 +161,7 @@ export default function UploadPage() {
   const [language, setLanguage] = React.useState<string>("auto");
   const [model, setModel] = React.useState<string>("gpt-4o-transcribe");
   const [department, setDepartment] = React.useState<string>("");
+  const [meetingDate, setMeetingDate] = React.useState<string>("");
   const [enableSpeakerDetection, setEnableSpeakerDetection] =
     React.useState<boolean>(true);
   const [isUploading, setIsUploading] = React.useState(false);
@@ -322,6 +325,8 @@ export default function UploadPage() {
         createdAt: new Date(result.transcript.createdAt),
         // Add department if selected
         department: department || undefined,
+        // Add meeting date if it differs from the upload date
+        meetingDate: meetingDate ? fromIsoDate(meetingDate) : undefined,
         fingerprint,
       };
 
@@ -426,6 +431,7 @@ export default function UploadPage() {
     language,
     model,
     department,
+    meetingDate,
     enableSpeakerDetection,
     uploadFile,
     router,
@@ -578,7 +584,7 @@ export default function UploadPage() {
                     Transcription Settings
                   </Title>
                   <Text size="sm" c="dimmed" mt={4}>
-                    Configure department, language and model options (optional)
+                    Configure department, meeting date, language and model options (optional)
                   </Text>
                 </Box>
               </Group>
@@ -592,6 +598,16 @@ export default function UploadPage() {
                   disabled={isUploading}
                 />
 
+                {/* Meeting Date */}
+                <TextInput
+                  type="date"
+                  label="Meeting Date"
+                  description='When the meeting took place, if not today. Relative deadlines like "next Friday" are counted from this date.'
+                  value={meetingDate}
+                  onChange={(event) => setMeetingDate(event.currentTarget.value)}
+                  disabled={isUploading}
+                />
+
                 <Divider />
 
                 {/* Speaker Detection Toggle */}
@@ -2,16 +2,26 @@
  * Action Items List Component
  *
  * Displays extracted action items in a table or list format with interactive
- * checkboxes (client-side only, no persistence). Supports exporting to clipboard.
+ * checkboxes. With a transcript ID, checkboxes mark the items done in the
+ * action item tracker; otherwise they are kept in component state only.
+ * Deadlines show the date they were resolved to, with the original phrase
+ * and the resolution's confidence on hover. Supports exporting to clipboard
+ * and, with the transcript, to a calendar file (.ics).
  */
 
 'use client';
 
-import React, { useState } from 'react';
-import { CheckSquare, Square, Clock, User, Check, Download } from 'lucide-react';
-import { Paper, Button, Badge, Stack, Flex, Box, Title, Text, Table, Group, Progress, ActionIcon } from '@mantine/core';
-import { formatTimestamp } from '@/lib/transcript-utils';
-import type { ActionItem } from '@/types/analysis';
+import React, { useCallback, useMemo, useState } from 'react';
+import { CheckSquare, Square, Clock, User, Check, Download, CalendarPlus } from 'lucide-react';
+import { Paper, Button, Badge, Stack, Flex, Box, Title, Text, Table, Group, Progress, ActionIcon, Tooltip } from '@mantine/core';
+import { formatDate, formatTimestamp } from '@/lib/transcript-utils';
+import { fromIsoDate, normalizeTaskKey, toIsoDate } from '@/lib/action-items';
+import { updateActionItem } from '@/lib/db';
+import { downloadICS, formatActionItemsICS } from '@/lib/export/icalendar';
+import { useTranscriptActionItems } from '@/hooks/use-action-items';
+import type { ActionItem, DeadlineConfidence } from '@/types/analysis';
+import type { TrackedActionItem } from '@/types/action-item';
+import type { Transcript } from '@/types/transcript';
 
 export interface ActionItemsListProps {
   /** Array of action items to display */
@@ -25,6 +35,86 @@ export interface ActionItemsListProps {
 
   /** Show header */
   showHeader?: boolean;
+
+  /** Transcript the items belong to; checkboxes then update the tracked items */
+  transcriptId?: string;
+
+  /** Source transcript; enables calendar (.ics) export when provided */
+  transcript?: Transcript;
+}
+
+interface DueDate {
+  date: Date;
+  /** Absent when the date was set by hand in the tracker */
+  confidence?: DeadlineConfidence;
+}
+
+/**
+ * Due date of an item: the tracker's if tracked (it may have been edited),
+ * otherwise the one resolved when the analysis was saved
+ */
+function getDueDate(item: ActionItem, tracked: TrackedActionItem | undefined): DueDate | undefined {
+  if (tracked?.dueDate) {
+    return { date: tracked.dueDate, confidence: tracked.deadlineConfidence };
+  }
+  if (item.resolvedDeadline) {
+    return { date: fromIsoDate(item.resolvedDeadline.date), confidence: item.resolvedDeadline.confidence };
+  }
+  return undefined;
+}
+
+const confidenceLabels: Record<DeadlineConfidence, string> = {
+  high: 'named date',
+  medium: 'counted from the meeting date',
+  low: 'approximate',
+};
+
+/**
+ * Deadline cell: the resolved date, flagged when overdue or approximate,
+ * with the phrase it came from on hover
+ */
+function DeadlineLabel({
+  item,
+  dueDate,
+  isDone,
+  size = 'sm',
+}: {
+  item: ActionItem;
+  dueDate: DueDate | undefined;
+  isDone: boolean;
+  size?: 'xs' | 'sm';
+}) {
+  if (!dueDate) {
+    return item.deadline ? (
+      <Text size={size} c="dimmed">{size === 'xs' ? `Due: ${item.deadline}` : item.deadline}</Text>
+    ) : (
+      <Text size="xs" c="dimmed" opacity={0.5}>No deadline</Text>
+    );
+  }
+
+  const today = new Date();
+  const isOverdue = !isDone && dueDate.date < new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const hint = [
+    item.deadline && `"${item.deadline}"`,
+    dueDate.confidence ? confidenceLabels[dueDate.confidence] : 'set in the tracker',
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Tooltip label={hint} withArrow>
+      <Group gap={6} wrap="nowrap">
+        <Text size={size} c={isOverdue ? 'red' : 'dimmed'}>
+          {size === 'xs' && 'Due: '}
+          {dueDate.confidence === 'low' && '~'}
+          <time dateTime={toIsoDate(dueDate.date)}>{formatDate(dueDate.date)}</time>
+        </Text>
+        {isOverdue && (
+          <Badge size="xs" color="red" variant="light">
+            Overdue
+          </Badge>
+        )}
+      </Group>
+    </Tooltip>
+  );
 }
 
 /**
@@ -36,18 +126,46 @@ export function ActionItemsList({
   onTimestampClick,
   variant = 'table',
   showHeader = true,
+  transcriptId,
+  transcript,
 }: ActionItemsListProps) {
-  // Track checked state (client-side only, no persistence)
+  // Checked state of items that aren't tracked (no persistence)
   const [checkedItems, setCheckedItems] = useState<Set<string>>(new Set());
   const [copied, setCopied] = useState(false);
 
-  const handleToggleItem = (id: string) => {
+  // Tracked items of the transcript, matched by task text like the tracker does
+  const trackedItems = useTranscriptActionItems(transcriptId);
+  const trackedByKey = useMemo(
+    () => new Map(trackedItems.map((tracked) => [tracked.key, tracked])),
+    [trackedItems]
+  );
+  const getTracked = useCallback(
+    (item: ActionItem) => trackedByKey.get(normalizeTaskKey(item.task)),
+    [trackedByKey]
+  );
+
+  const isItemChecked = (item: ActionItem) => {
+    const tracked = getTracked(item);
+    return tracked ? tracked.status === 'done' : checkedItems.has(item.id);
+  };
+
+  const handleToggleItem = async (item: ActionItem) => {
+    const tracked = getTracked(item);
+    if (tracked) {
+      try {
+        await updateActionItem(tracked.id, { status: tracked.status === 'done' ? 'open' : 'done' });
+      } catch (error) {
+        console.error('Failed to update action item:', error);
+      }
+      return;
+    }
+
     setCheckedItems((prev) => {
       const next = new Set(prev);
-      if (next.has(id)) {
-        next.delete(id);
+      if (next.has(item.id)) {
+        next.delete(item.id);
       } else {
-        next.add(id);
+        next.add(item.id);
       }
       return next;
     });
@@ -64,9 +182,12 @@ export function ActionItemsList({
     try {
       const markdown = actionItems
         .map((item) => {
-          const checkbox = checkedItems.has(item.id) ? '[x]' : '[ ]';
+          const checkbox = isItemChecked(item) ? '[x]' : '[ ]';
           const owner = item.owner ? ` - Assigned to: ${item.owner}` : '';
-          const deadline = item.deadline ? ` - Due: ${item.deadline}` : '';
+          const dueDate = getDueDate(item, getTracked(item));
+          const deadline = dueDate
+            ? ` - Due: ${toIsoDate(dueDate.date)}${item.deadline ? ` (${item.deadline})` : ''}`
+            : item.deadline ? ` - Due: ${item.deadline}` : '';
           const timestamp = item.timestamp !== undefined ? ` (${formatTimestamp(item.timestamp ?? 0)})` : '';
           return `- ${checkbox} ${item.task}${owner}${deadline}${timestamp}`;
         })
@@ -80,7 +201,28 @@ export function ActionItemsList({
     }
   };
 
-  const completedCount = checkedItems.size;
+  // Export action items as calendar tasks
+  const handleExportCalendar = () => {
+    if (!transcript) return;
+    try {
+      downloadICS(formatActionItemsICS(actionItems, { transcript, trackedItems }), transcript.filename);
+    } catch (error) {
+      console.error('Failed to export action items to calendar:', error);
+    }
+  };
+
+  const calendarButton = transcript && (
+    <Button
+      variant="default"
+      size="sm"
+      onClick={handleExportCalendar}
+      leftSection={<CalendarPlus size={16} />}
+    >
+      Calendar (.ics)
+    </Button>
+  );
+
+  const completedCount = actionItems.filter(isItemChecked).length;
   const totalCount = actionItems.length;
   const progressPercentage = totalCount > 0 ? Math.round((completedCount / totalCount) * 100) : 0;
 
@@ -126,17 +268,25 @@ export function ActionItemsList({
               </Flex>
             </Box>
 
-            <Button
-              variant="default"
-              size="sm"
-              onClick={handleExport}
-              leftSection={copied ? <Check size={16} style={{ color: 'var(--compliant-green)' }} /> : <Download size={16} />}
-            >
-              {copied ? 'Copied' : 'Export'}
-            </Button>
+            <Group gap="xs">
+              {calendarButton}
+              <Button
+                variant="default"
+                size="sm"
+                onClick={handleExport}
+                leftSection={copied ? <Check size={16} style={{ color: 'var(--compliant-green)' }} /> : <Download size={16} />}
+              >
+                {copied ? 'Copied' : 'Export'}
+              </Button>
+            </Group>
           </Flex>
         </Box>
       )}
+      {!showHeader && calendarButton && (
+        <Group justify="flex-end" mb="sm">
+          {calendarButton}
+        </Group>
+      )}
 
       <Box pt={showHeader ? 0 : undefined}>
         {variant === 'table' ? (
@@ -153,7 +303,8 @@ export function ActionItemsList({
               </Table.Thead>
               <Table.Tbody>
                 {actionItems.map((item) => {
-                  const isChecked = checkedItems.has(item.id);
+                  const isChecked = isItemChecked(item);
+                  const dueDate = getDueDate(item, getTracked(item));
                   return (
                     <Table.Tr
                       key={item.id}
@@ -165,7 +316,7 @@ export function ActionItemsList({
                       <Table.Td>
                         <ActionIcon
                           variant="subtle"
-                          onClick={() => handleToggleItem(item.id)}
+                          onClick={() => handleToggleItem(item)}
                           aria-label={isChecked ? 'Mark as incomplete' : 'Mark as complete'}
                           style={{
                             transition: 'transform 200ms',
@@ -197,8 +348,8 @@ export function ActionItemsList({
                                 <Text size="xs" c="dimmed">{item.owner}</Text>
                               </Group>
                             )}
-                            {item.deadline && (
-                              <Text size="xs" c="dimmed">Due: {item.deadline}</Text>
+                            {(item.deadline || dueDate) && (
+                              <DeadlineLabel item={item} dueDate={dueDate} isDone={isChecked} size="xs" />
                             )}
                           </Flex>
                         </Stack>
@@ -214,11 +365,7 @@ export function ActionItemsList({
                         )}
                       </Table.Td>
                       <Table.Td visibleFrom="lg">
-                        {item.deadline ? (
-                          <Text size="sm" c="dimmed">{item.deadline}</Text>
-                        ) : (
-                          <Text size="xs" c="dimmed" opacity={0.5}>No deadline</Text>
-                        )}
+                        <DeadlineLabel item={item} dueDate={dueDate} isDone={isChecked} />
                       </Table.Td>
                       <Table.Td style={{ textAlign: 'right' }}>
                         {item.timestamp !== undefined ? (
@@ -251,7 +398,8 @@ export function ActionItemsList({
         ) : (
           <Stack gap="sm">
             {actionItems.map((item) => {
-              const isChecked = checkedItems.has(item.id);
+              const isChecked = isItemChecked(item);
+              const dueDate = getDueDate(item, getTracked(item));
               return (
                 <Paper
                   key={item.id}
@@ -266,7 +414,7 @@ export function ActionItemsList({
                   <Flex align="flex-start" gap="sm">
                     <ActionIcon
                       variant="subtle"
-                      onClick={() => handleToggleItem(item.id)}
+                      onClick={() => handleToggleItem(item)}
                       aria-label={isChecked ? 'Mark as incomplete' : 'Mark as complete'}
                       style={{
                         flexShrink: 0,
@@ -296,8 +444,8 @@ export function ActionItemsList({
                             <Text size="xs" c="dimmed">{item.owner}</Text>
                           </Group>
                         )}
-                        {item.deadline && (
-                          <Text size="xs" c="dimmed">Due: {item.deadline}</Text>
+                        {(item.deadline || dueDate) && (
+                          <DeadlineLabel item={item} dueDate={dueDate} isDone={isChecked} size="xs" />
                         )}
                         {item.timestamp !== undefined && (
                           <ActionIcon
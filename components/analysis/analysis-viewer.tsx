@@ -7,7 +7,7 @@
  * - Action items
  * - Decisions timeline
  * - Quotes carousel
- * - Export functionality
+ * - Export functionality (JSON, Word and calendar)
  */
 
 "use client";
@@ -26,6 +26,9 @@ import {
   AlertCircle,
   Copy,
   Check,
+  FileType,
+  FileJson,
+  CalendarPlus,
 } from "lucide-react";
 import {
   Paper,
@@ -43,13 +46,19 @@ import {
   Title,
   Grid,
   VisuallyHidden,
+  Menu,
 } from "@mantine/core";
+import { notifications } from "@mantine/notifications";
 import { SectionDisplay } from "./section-display";
 import { ActionItemsList } from "./action-items-list";
+import { TemplateVersionNotice } from "./template-version-notice";
 import { buildAnalysisSummaryText } from "@/lib/analysis-utils";
 import { formatTimestamp } from "@/lib/transcript-utils";
+import { downloadICS, formatAnalysisICS } from "@/lib/export/icalendar";
+import { useTranscriptActionItems } from "@/hooks/use-action-items";
 import type { Analysis } from "@/types/analysis";
 import type { Template } from "@/types/template";
+import type { Transcript } from "@/types/transcript";
 
 /**
  * Format date for display
@@ -154,6 +163,9 @@ export interface AnalysisViewerProps {
   /** Optional callback for export */
   onExport?: () => void;
 
+  /** Source transcript; enables Word (.docx) export when provided */
+  transcript?: Transcript;
+
   /** Optional callback for share */
   onShare?: () => void;
 
@@ -170,11 +182,14 @@ export function AnalysisViewer({
   template,
   onTimestampClick,
   onExport,
+  transcript,
   onShare,
   showDraftResults = false,
 }: AnalysisViewerProps) {
   const [currentQuoteIndex, setCurrentQuoteIndex] = useState(0);
   const [copied, setCopied] = useState(false);
+  const [isExportingDocx, setIsExportingDocx] = useState(false);
+  const trackedItems = useTranscriptActionItems(analysis.transcriptId);
 
   // Use draft results if requested and available, otherwise use final results
   const results = showDraftResults && analysis.draftResults
@@ -219,8 +234,61 @@ export function AnalysisViewer({
     }
   };
 
+  // Handle Word export (docx library is loaded on demand)
+  const handleExportDocx = async () => {
+    if (!transcript) return;
+
+    setIsExportingDocx(true);
+    try {
+      const { exportAndDownloadAnalysisDOCX } = await import("@/lib/docx/docx-exporter");
+      const result = await exportAndDownloadAnalysisDOCX(analysis, transcript, { template });
+
+      if (result.success) {
+        notifications.show({
+          title: "Export Successful",
+          message: "Analysis exported as Word document",
+          color: "green",
+        });
+      } else {
+        notifications.show({
+          title: "Export Failed",
+          message: result.error || "Failed to generate Word document",
+          color: "red",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to export analysis:", error);
+      notifications.show({
+        title: "Export Failed",
+        message: error instanceof Error ? error.message : "Failed to generate Word document",
+        color: "red",
+      });
+    } finally {
+      setIsExportingDocx(false);
+    }
+  };
+
+  // Handle calendar export: action items as tasks, follow-up meetings as events
+  const handleExportCalendar = () => {
+    if (!transcript) return;
+
+    try {
+      const ics = formatAnalysisICS({ ...analysis, results }, { transcript, trackedItems });
+      downloadICS(ics, transcript.filename);
+    } catch (error) {
+      console.error("Failed to export calendar:", error);
+      notifications.show({
+        title: "Export Failed",
+        message: error instanceof Error ? error.message : "Failed to generate calendar file",
+        color: "red",
+      });
+    }
+  };
+
   return (
     <Stack gap="xl">
+      {template && <TemplateVersionNotice analysis={analysis} template={template} />}
+
       {/* Header Card */}
       <Paper p="xl" radius="md" withBorder shadow="sm">
         <Stack gap="md">
@@ -239,6 +307,7 @@ export function AnalysisViewer({
                     <>
                       <Text size="sm" fw={500}>
                         Template: {template.name}
+                        {analysis.templateVersion !== undefined && ` (v${analysis.templateVersion})`}
                       </Text>
                       <Text size="sm" c="dimmed">•</Text>
                     </>
@@ -312,15 +381,52 @@ export function AnalysisViewer({
                   <Text size="sm" component="span" visibleFrom="sm">Share</Text>
                 </Button>
               )}
-              {onExport && (
-                <Button
-                  variant="default"
-                  size="sm"
-                  onClick={onExport}
-                  leftSection={<Download size={16} />}
-                >
-                  <Text size="sm" component="span" visibleFrom="sm">Export</Text>
-                </Button>
+              {transcript ? (
+                <Menu shadow="md" width={200} position="bottom-end">
+                  <Menu.Target>
+                    <Button
+                      variant="default"
+                      size="sm"
+                      loading={isExportingDocx}
+                      leftSection={<Download size={16} />}
+                    >
+                      <Text size="sm" component="span" visibleFrom="sm">Export</Text>
+                    </Button>
+                  </Menu.Target>
+                  <Menu.Dropdown>
+                    <Menu.Item
+                      leftSection={<FileType size={16} />}
+                      onClick={handleExportDocx}
+                    >
+                      Word document (.docx)
+                    </Menu.Item>
+                    <Menu.Item
+                      leftSection={<CalendarPlus size={16} />}
+                      onClick={handleExportCalendar}
+                    >
+                      Calendar (.ics)
+                    </Menu.Item>
+                    {onExport && (
+                      <Menu.Item
+                        leftSection={<FileJson size={16} />}
+                        onClick={onExport}
+                      >
+                        JSON
+                      </Menu.Item>
+                    )}
+                  </Menu.Dropdown>
+                </Menu>
+              ) : (
+                onExport && (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    onClick={onExport}
+                    leftSection={<Download size={16} />}
+                  >
+                    <Text size="sm" component="span" visibleFrom="sm">Export</Text>
+                  </Button>
+                )
               )}
             </Group>
           </Flex>
@@ -444,6 +550,8 @@ export function AnalysisViewer({
               onTimestampClick={onTimestampClick}
               variant="table"
               showHeader={false}
+              transcriptId={analysis.transcriptId}
+              transcript={transcript}
             />
           ) : (
             <Alert
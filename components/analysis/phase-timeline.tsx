@@ -7,7 +7,7 @@
  * - Upcoming phases (empty state)
  *
  * Shows users exactly where they are in the analysis process
- * with strategy-specific phase names and progress ranges.
+ * using the phases and current phase reported by the analysis stream.
  */
 
 'use client';
@@ -22,17 +22,31 @@ interface PhaseTimelineProps {
   phases: ProgressPhase[];
   /** Current progress percentage (0-100) */
   currentProgress: number;
+  /** ID of the phase currently running, when reported by the server */
+  currentPhaseId?: string;
   /** Compact mode for smaller displays */
   compact?: boolean;
 }
 
 /**
- * Get phase status based on current progress
+ * Get phase status based on the current phase, or on progress when the
+ * current phase is unknown
+ *
+ * Phase ranges share their boundaries, so the reported phase ID is
+ * preferred to avoid two phases appearing current at once.
  */
 function getPhaseStatus(
   phase: ProgressPhase,
-  currentProgress: number
+  phaseIndex: number,
+  currentProgress: number,
+  currentPhaseIndex: number
 ): 'completed' | 'current' | 'pending' {
+  if (currentPhaseIndex !== -1) {
+    if (phaseIndex < currentPhaseIndex) return 'completed';
+    if (phaseIndex === currentPhaseIndex) return 'current';
+    return 'pending';
+  }
+
   const [start, end] = phase.range;
 
   if (currentProgress > end) {
@@ -64,8 +78,13 @@ function getProgressWithinPhase(phase: ProgressPhase, currentProgress: number):
 export function PhaseTimeline({
   phases,
   currentProgress,
+  currentPhaseId,
   compact = false,
 }: PhaseTimelineProps) {
+  const currentPhaseIndex = currentPhaseId
+    ? phases.findIndex((p) => p.id === currentPhaseId)
+    : -1;
+
   return (
     <Stack gap={compact ? "xs" : "sm"}>
       {/* Header */}
@@ -75,7 +94,7 @@ export function PhaseTimeline({
             Analysis Phases
           </Text>
           <Text size="xs" c="dimmed">
-            {phases.filter(p => getPhaseStatus(p, currentProgress) === 'completed').length} of{' '}
+            {phases.filter((p, i) => getPhaseStatus(p, i, currentProgress, currentPhaseIndex) === 'completed').length} of{' '}
             {phases.length} complete
           </Text>
         </Group>
@@ -84,7 +103,7 @@ export function PhaseTimeline({
       {/* Phase List */}
       <Stack gap={compact ? 4 : "xs"}>
         {phases.map((phase, index) => {
-          const status = getPhaseStatus(phase, currentProgress);
+          const status = getPhaseStatus(phase, index, currentProgress, currentPhaseIndex);
           const phaseProgress = getProgressWithinPhase(phase, currentProgress);
           const [start, end] = phase.range;
 
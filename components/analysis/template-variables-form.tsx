@@ -0,0 +1,88 @@
+/**
+ * Template Variables Form Component
+ *
+ * Shown before analysis when the selected template's prompts use
+ * `{{variable}}` placeholders. Each variable shows the value taken from
+ * transcript metadata or the template default, which users can override,
+ * and variables without any value are flagged so the analysis isn't sent
+ * with unfilled placeholders.
+ */
+
+'use client';
+
+import React, { useMemo } from 'react';
+import { Alert, Paper, SimpleGrid, Stack, Text, TextInput } from '@mantine/core';
+import { AlertTriangle, Braces } from 'lucide-react';
+import {
+  BUILT_IN_TEMPLATE_VARIABLES,
+  getTemplateVariableNames,
+  resolveTemplateVariables,
+  type TemplateVariableValues,
+} from '@/lib/template-variables';
+import type { Template } from '@/types/template';
+import type { Transcript } from '@/types/transcript';
+
+export interface TemplateVariablesFormProps {
+  template: Template;
+  transcript: Transcript;
+  /** Values entered by the user, keyed by variable name */
+  values: TemplateVariableValues;
+  onChange: (values: TemplateVariableValues) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Inputs for the prompt variables of the selected template
+ */
+export function TemplateVariablesForm({ template, transcript, values, onChange, disabled }: TemplateVariablesFormProps) {
+  const names = useMemo(() => getTemplateVariableNames(template), [template]);
+  // Values the analysis would use without any input, shown as placeholders
+  const automatic = useMemo(() => resolveTemplateVariables(template, transcript).values, [template, transcript]);
+  const { unresolved } = resolveTemplateVariables(template, transcript, values);
+
+  if (names.length === 0) return null;
+
+  const describe = (name: string) =>
+    BUILT_IN_TEMPLATE_VARIABLES.find((variable) => variable.name === name)?.description ??
+    template.variables?.find((variable) => variable.name === name)?.description;
+
+  return (
+    <Paper p="md" withBorder>
+      <Stack gap="sm">
+        <div>
+          <Text size="sm" fw={600}>
+            <Braces size={14} style={{ verticalAlign: 'middle', marginRight: 6 }} />
+            Prompt Variables
+          </Text>
+          <Text size="xs" c="dimmed">
+            Values filled into this template&apos;s prompts. Leave a field empty to use the value shown.
+          </Text>
+        </div>
+
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+          {names.map((name) => (
+            <TextInput
+              key={name}
+              label={<Text span size="sm" ff="monospace">{`{{${name}}}`}</Text>}
+              description={describe(name)}
+              placeholder={automatic[name] ?? 'Enter a value'}
+              value={values[name] ?? ''}
+              onChange={(e) => onChange({ ...values, [name]: e.currentTarget.value })}
+              error={unresolved.includes(name) ? 'A value is required' : undefined}
+              disabled={disabled}
+              size="sm"
+            />
+          ))}
+        </SimpleGrid>
+
+        {unresolved.length > 0 && (
+          <Alert variant="light" color="red" icon={<AlertTriangle size={16} />}>
+            {unresolved.map((name) => `{{${name}}}`).join(', ')}{' '}
+            {unresolved.length === 1 ? 'has' : 'have'} no value for this transcript. Enter{' '}
+            {unresolved.length === 1 ? 'a value' : 'values'} before running the analysis.
+          </Alert>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Template Version Notice Component
+ *
+ * Shown on an analysis whose template has been edited since it ran. Lets
+ * users compare the revision the analysis used with the current one and
+ * re-run the analysis with the newest revision.
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { Alert, Button, Group, Modal, Text } from '@mantine/core';
+import { GitCompare, History, RefreshCw } from 'lucide-react';
+import { useTemplateRevisions } from '@/hooks/use-templates';
+import { getTemplateVersion } from '@/lib/template-revisions';
+import { TemplateRevisionDiff } from '@/components/templates/template-revision-diff';
+import type { Analysis } from '@/types/analysis';
+import type { Template } from '@/types/template';
+
+export interface TemplateVersionNoticeProps {
+  analysis: Analysis;
+  /** Current version of the analysis's template */
+  template: Template;
+}
+
+/**
+ * Notice pointing an analysis at newer revisions of its template
+ */
+export function TemplateVersionNotice({ analysis, template }: TemplateVersionNoticeProps) {
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+  const { revisions } = useTemplateRevisions(template.id);
+
+  const usedVersion = analysis.templateVersion;
+  const currentVersion = getTemplateVersion(template);
+  if (usedVersion === undefined || currentVersion <= usedVersion) return null;
+
+  const usedRevision = revisions.find((revision) => revision.version === usedVersion);
+  const currentRevision = revisions.find((revision) => revision.version === currentVersion);
+  const rerunHref =
+    `/transcripts/${analysis.transcriptId}/analyze?template=${encodeURIComponent(template.id)}` +
+    `&strategy=${analysis.analysisStrategy}`;
+
+  return (
+    <>
+      <Alert variant="light" color="yellow" icon={<History size={16} />}>
+        <Group justify="space-between" align="center" gap="sm">
+          <Text size="sm">
+            This analysis ran with version {usedVersion} of &quot;{template.name}&quot;. The
+            template has since been updated to version {currentVersion}.
+          </Text>
+          <Group gap="xs">
+            <Button
+              size="xs"
+              variant="default"
+              leftSection={<GitCompare size={14} />}
+              onClick={() => setIsDiffOpen(true)}
+              disabled={!usedRevision || !currentRevision}
+              title={!usedRevision || !currentRevision ? 'Revision history is not available in this browser' : undefined}
+            >
+              Compare Versions
+            </Button>
+            <Button
+              component={Link}
+              href={rerunHref}
+              size="xs"
+              leftSection={<RefreshCw size={14} />}
+            >
+              Re-run with Version {currentVersion}
+            </Button>
+          </Group>
+        </Group>
+      </Alert>
+
+      <Modal
+        opened={isDiffOpen}
+        onClose={() => setIsDiffOpen(false)}
+        title={`${template.name}: version ${usedVersion} → ${currentVersion}`}
+        size="xl"
+      >
+        {usedRevision && currentRevision && (
+          <TemplateRevisionDiff before={usedRevision} after={currentRevision} />
+        )}
+      </Modal>
+    </>
+  );
+}
@@ -26,7 +26,7 @@ import { WaveformPlayer } from './waveform-player';
 import { useAudioSync } from '@/hooks/use-audio-sync';
 import { formatTimestamp } from '@/lib/transcript-utils';
 import type { TranscriptSegment } from '@/types/transcript';
-import type { PlaybackSpeed, AudioPlayerConfig, AudioPlayerControls } from '@/types/audio';
+import type { PlaybackSpeed, AudioPlayerConfig, AudioPlayerControls, WaveformRegion } from '@/types/audio';
 
 /**
  * Props for AudioPlayer component
@@ -41,6 +41,15 @@ interface AudioPlayerProps {
   /** Callback when active segment changes */
   onSegmentChange?: (segment: TranscriptSegment | null, index: number) => void;
 
+  /** Callback when the active word within the active segment changes */
+  onWordChange?: (wordIndex: number) => void;
+
+  /** Regions to highlight on the waveform */
+  regions?: WaveformRegion[];
+
+  /** Callback when the user draws or adjusts waveform regions (enables drawing) */
+  onRegionsChange?: (regions: WaveformRegion[]) => void;
+
   /** Callback to receive audio controls */
   onControlsReady?: (controls: AudioPlayerControls) => void;
 
@@ -67,7 +76,7 @@ const PLAYBACK_SPEEDS: PlaybackSpeed[] = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
  * - Playback speed adjustment (0.5x to 2x)
  * - Time display (current / total)
  * - Keyboard shortcuts
- * - Transcript segment synchronization
+ * - Transcript segment and word synchronization
  *
  * @param props - Component props
  */
@@ -75,6 +84,9 @@ export function AudioPlayer({
   audioUrl,
   segments,
   onSegmentChange,
+  onWordChange,
+  regions,
+  onRegionsChange,
   onControlsReady,
   config,
   className = '',
@@ -83,6 +95,7 @@ export function AudioPlayer({
   const { syncState, controls, registerWaveSurfer } = useAudioSync({
     segments,
     onSegmentChange,
+    onWordChange,
   });
 
   // Track error state for recovery UI
@@ -207,6 +220,8 @@ export function AudioPlayer({
           audioUrl={audioUrl}
           config={config}
           onReady={registerWaveSurfer}
+          regions={regions}
+          onRegionsChange={onRegionsChange}
           className="w-full"
         />
       </Box>
@@ -10,10 +10,25 @@
 
 import React, { useEffect, useRef, useCallback, useState } from 'react';
 import WaveSurfer from 'wavesurfer.js';
+import RegionsPlugin, { type Region } from 'wavesurfer.js/dist/plugins/regions.js';
 import { Loader2, AlertCircle } from 'lucide-react';
 import { Alert, Box, Flex, useMantineColorScheme } from '@mantine/core';
 import { DEFAULT_AUDIO_CONFIG } from '@/types/audio';
-import type { AudioPlayerConfig } from '@/types/audio';
+import type { AudioPlayerConfig, WaveformRegion } from '@/types/audio';
+
+/**
+ * Color for regions drawn by dragging on the waveform
+ */
+const DRAG_REGION_COLOR = 'rgba(250, 82, 82, 0.3)';
+
+function toWaveformRegion(region: Region): WaveformRegion {
+  return {
+    id: region.id,
+    start: region.start,
+    end: region.end,
+    color: typeof region.color === 'string' ? region.color : DRAG_REGION_COLOR,
+  };
+}
 
 function isAbortError(error: unknown): boolean {
   if (!error || typeof error !== 'object') {
@@ -60,6 +75,15 @@ interface WaveformPlayerProps {
   /** Callback when audio loading fails */
   onError?: (error: Error) => void;
 
+  /** Regions to highlight on the waveform */
+  regions?: WaveformRegion[];
+
+  /**
+   * Callback with all regions after the user draws, moves or resizes one.
+   * Providing it enables drawing regions by dragging on the waveform.
+   */
+  onRegionsChange?: (regions: WaveformRegion[]) => void;
+
   /** Additional CSS classes */
   className?: string;
 }
@@ -76,6 +100,7 @@ interface WaveformPlayerProps {
  * - Loading and error states
  * - Automatic cleanup on unmount
  * - Click to seek functionality
+ * - Optional regions, drawn by dragging when `onRegionsChange` is provided
  *
  * @param props - Component props
  */
@@ -84,11 +109,17 @@ export function WaveformPlayer({
   config,
   onReady,
   onError,
+  regions,
+  onRegionsChange,
   className = '',
 }: WaveformPlayerProps) {
   // Refs
   const containerRef = useRef<HTMLDivElement>(null);
   const wavesurferRef = useRef<WaveSurfer | null>(null);
+  const regionsPluginRef = useRef<RegionsPlugin | null>(null);
+  const onRegionsChangeRef = useRef(onRegionsChange);
+  // Set while applying the `regions` prop so plugin events aren't echoed back
+  const isSyncingRegionsRef = useRef(false);
   const destroyPromiseRef = useRef<Promise<void> | null>(null);
 
   // State
@@ -152,6 +183,16 @@ export function WaveformPlayer({
 
         wavesurferRef.current = wavesurfer;
 
+        const regionsPlugin = wavesurfer.registerPlugin(RegionsPlugin.create());
+        regionsPluginRef.current = regionsPlugin;
+        const emitRegions = () => {
+          if (!isSyncingRegionsRef.current) {
+            onRegionsChangeRef.current?.(regionsPlugin.getRegions().map(toWaveformRegion));
+          }
+        };
+        regionsPlugin.on('region-updated', emitRegions);
+        regionsPlugin.on('region-removed', emitRegions);
+
         wavesurfer.on('ready', () => {
           if (cancelledRef?.current) {
             void safelyDestroy(wavesurfer);
@@ -231,6 +272,56 @@ export function WaveformPlayer({
     };
   }, [initializeWaveSurfer]);
 
+  useEffect(() => {
+    onRegionsChangeRef.current = onRegionsChange;
+  }, [onRegionsChange]);
+
+  /**
+   * Apply the `regions` prop to the plugin once the waveform is ready
+   */
+  useEffect(() => {
+    const plugin = regionsPluginRef.current;
+    if (!plugin || isLoading) return;
+
+    const wanted = new Map((regions ?? []).map((region) => [region.id, region]));
+    isSyncingRegionsRef.current = true;
+    try {
+      for (const existing of plugin.getRegions()) {
+        const region = wanted.get(existing.id);
+        if (!region) {
+          existing.remove();
+        } else if (existing.start !== region.start || existing.end !== region.end) {
+          existing.setOptions({ start: region.start, end: region.end });
+        }
+        wanted.delete(existing.id);
+      }
+      wanted.forEach((region) => {
+        plugin.addRegion({
+          id: region.id,
+          start: region.start,
+          end: region.end,
+          color: region.color,
+          content: region.label,
+          drag: region.drag ?? true,
+          resize: region.resize ?? true,
+        });
+      });
+    } finally {
+      isSyncingRegionsRef.current = false;
+    }
+  }, [regions, isLoading]);
+
+  /**
+   * Enable drawing regions by dragging while a change handler is provided
+   */
+  const canDrawRegions = !!onRegionsChange;
+  useEffect(() => {
+    const plugin = regionsPluginRef.current;
+    if (!plugin || isLoading || !canDrawRegions) return;
+
+    return plugin.enableDragSelection({ color: DRAG_REGION_COLOR });
+  }, [canDrawRegions, isLoading]);
+
   /**
    * Re-initialize when theme changes
    */
@@ -7,7 +7,7 @@
 
 'use client';
 
-import React, { useState, useRef, useEffect, useCallback, memo } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo, memo } from 'react';
 import {
   Paper,
   Stack,
@@ -21,6 +21,8 @@ import {
   ActionIcon,
   Tooltip,
   Modal,
+  Anchor,
+  Badge,
 } from '@mantine/core';
 import {
   Send,
@@ -30,14 +32,19 @@ import {
   Copy,
   Check,
   AlertCircle,
-  Loader2,
+  Square,
+  AlertTriangle,
 } from 'lucide-react';
+import Link from 'next/link';
 import { useDisclosure } from '@mantine/hooks';
 import { notifications } from '@mantine/notifications';
 import { useChat } from '@/hooks/use-chat';
 import { formatMessageTimestamp } from '@/types/chat';
-import type { Transcript } from '@/types/transcript';
-import type { ChatMessage } from '@/types/chat';
+import { buildSpeakerAttributedText } from '@/lib/speaker-roster';
+import { formatTimestamp } from '@/lib/transcription-utils';
+import { buildCitableTranscriptText, parseAnswerCitations, type ChatCitation } from '@/lib/chat-citations';
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+import type { ChatMessage, ChatSource } from '@/types/chat';
 
 export interface ChatInterfaceProps {
   /** ID of the transcript to chat about */
@@ -45,6 +52,9 @@ export interface ChatInterfaceProps {
 
   /** The transcript object for context */
   transcript: Transcript;
+
+  /** Called when a segment citation chip in an answer is clicked */
+  onCitationClick?: (segment: TranscriptSegment) => void;
 }
 
 /**
@@ -53,29 +63,51 @@ export interface ChatInterfaceProps {
  * Features:
  * - Message list with auto-scroll
  * - User and AI message bubbles
- * - Typing indicator during loading
+ * - Typing indicator until the first tokens arrive, then a streaming answer
+ * - Stop button to cancel an in-flight answer
  * - Empty state with suggestions
  * - Error handling with retry
  * - Clear conversation with confirmation
  * - Export chat history
+ * - Segment citations rendered as chips that jump to the cited segment
  * - Character counter
  * - Enter to send, Shift+Enter for new line
  */
-export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps) {
+export function ChatInterface({ transcriptId, transcript, onCitationClick }: ChatInterfaceProps) {
   const [input, setInput] = useState('');
   const [
     clearModalOpened,
     { open: openClearModal, close: closeClearModal },
   ] = useDisclosure(false);
 
+  // Send speaker-attributed text so answers can name who said what; with
+  // segments, each line carries a marker the answer can cite
+  const citeSegments = (transcript.segments?.length ?? 0) > 0;
+  const transcriptText = useMemo(
+    () => (citeSegments ? buildCitableTranscriptText(transcript) : buildSpeakerAttributedText(transcript)),
+    [transcript, citeSegments]
+  );
+
+  const handleCitationClick = useCallback(
+    (segmentIndex: number) => {
+      const segment = transcript.segments?.find((s) => s.index === segmentIndex);
+      if (segment) {
+        onCitationClick?.(segment);
+      }
+    },
+    [transcript.segments, onCitationClick]
+  );
+
   // Use chat hook
   const {
     messages,
     loading,
+    streaming,
     error,
     sendMessage,
+    cancel,
     clearConversation,
-  } = useChat(transcriptId, transcript.text);
+  } = useChat(transcriptId, transcriptText, citeSegments ? transcript.segments : undefined);
 
   // Refs
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -260,9 +292,14 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
           ) : (
             <Stack gap="md">
               {messages.map((message) => (
-                <MessageBubble key={message.id} message={message} />
+                <MessageBubble
+                  key={message.id}
+                  message={message}
+                  segments={citeSegments ? transcript.segments : undefined}
+                  onCitationClick={onCitationClick ? handleCitationClick : undefined}
+                />
               ))}
-              {loading && <TypingIndicator />}
+              {loading && !streaming && <TypingIndicator />}
               <div ref={scrollSentinelRef} style={{ height: 1 }} />
             </Stack>
           )}
@@ -348,15 +385,28 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
                 <Text size="xs" c="dimmed">
                   Press Enter to send, Shift+Enter for new line
                 </Text>
-                <Button
-                  size="sm"
-                  leftSection={loading ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
-                  onClick={handleSend}
-                  disabled={isSendDisabled}
-                  aria-label="Send message"
-                >
-                  {loading ? 'Sending...' : 'Send'}
-                </Button>
+                {loading ? (
+                  <Button
+                    size="sm"
+                    variant="light"
+                    color="red"
+                    leftSection={<Square size={14} />}
+                    onClick={cancel}
+                    aria-label="Stop generating"
+                  >
+                    Stop
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    leftSection={<Send size={16} />}
+                    onClick={handleSend}
+                    disabled={isSendDisabled}
+                    aria-label="Send message"
+                  >
+                    Send
+                  </Button>
+                )}
               </Group>
             </Group>
           </Stack>
@@ -391,16 +441,33 @@ export function ChatInterface({ transcriptId, transcript }: ChatInterfaceProps)
 
 /**
  * Message bubble component
- * Displays a single message with timestamp and copy functionality
+ * Displays a single message with timestamp, copy functionality and, for
+ * library answers, the numbered passages it cites. With `segments`, segment
+ * citations in answers are checked and rendered as chips.
  */
 interface MessageBubbleProps {
   message: ChatMessage;
+
+  /** Transcript segments that answer citations are checked against */
+  segments?: TranscriptSegment[];
+
+  /** Called with the segment index when a valid citation chip is clicked */
+  onCitationClick?: (segmentIndex: number) => void;
 }
 
-const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProps) {
+export const MessageBubble = memo(function MessageBubble({
+  message,
+  segments,
+  onCitationClick,
+}: MessageBubbleProps) {
   const [copied, setCopied] = useState(false);
   const isUser = message.role === 'user';
 
+  const answerParts = useMemo(
+    () => (!isUser && segments ? parseAnswerCitations(message.content, segments, message.citedSegments) : null),
+    [isUser, segments, message.content, message.citedSegments]
+  );
+
   const handleCopy = useCallback(async () => {
     try {
       await navigator.clipboard.writeText(message.content);
@@ -451,10 +518,22 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
               color: isUser ? 'white' : 'inherit',
             }}
           >
-            {message.content}
+            {answerParts
+              ? answerParts.map((part, i) =>
+                  part.type === 'text' ? (
+                    <React.Fragment key={i}>{part.text}</React.Fragment>
+                  ) : (
+                    <CitationChip key={i} citation={part.citation} onClick={onCitationClick} />
+                  )
+                )
+              : message.content}
           </Text>
         </Paper>
 
+        {message.sources && message.sources.length > 0 && (
+          <SourceList sources={message.sources} />
+        )}
+
         <Group
           justify={isUser ? 'flex-end' : 'space-between'}
           mt="xs"
@@ -488,11 +567,85 @@ const MessageBubble = memo(function MessageBubble({ message }: MessageBubbleProp
   );
 });
 
+/**
+ * Segment citation chip
+ * Valid citations jump to the segment; citations of passages that don't
+ * exist in the transcript are flagged
+ */
+function CitationChip({
+  citation,
+  onClick,
+}: {
+  citation: ChatCitation;
+  onClick?: (segmentIndex: number) => void;
+}) {
+  const label = citation.time !== undefined ? formatTimestamp(citation.time) : citation.label;
+
+  if (!citation.valid) {
+    return (
+      <Tooltip label="Cited passage not found in this transcript">
+        <Badge
+          component="span"
+          size="sm"
+          variant="light"
+          color="red"
+          leftSection={<AlertTriangle size={10} />}
+          mx={2}
+          style={{ textDecoration: 'line-through', verticalAlign: 'baseline' }}
+        >
+          {label}
+        </Badge>
+      </Tooltip>
+    );
+  }
+
+  return (
+    <Tooltip label={`Jump to segment ${citation.segmentIndex}`}>
+      <Badge
+        component="button"
+        type="button"
+        size="sm"
+        variant="light"
+        mx={2}
+        onClick={() => citation.segmentIndex !== undefined && onClick?.(citation.segmentIndex)}
+        disabled={!onClick}
+        style={{ cursor: onClick ? 'pointer' : 'default', verticalAlign: 'baseline' }}
+      >
+        {label}
+      </Badge>
+    </Tooltip>
+  );
+}
+
+/**
+ * Numbered passages a library answer was based on
+ * Each links to its transcript at the passage's best matching segment
+ */
+function SourceList({ sources }: { sources: ChatSource[] }) {
+  return (
+    <Stack gap={2} mt="xs" px="xs" aria-label="Sources">
+      {sources.map((source, i) => (
+        <Text key={`${source.transcriptId}-${source.segmentIndex}`} size="xs" c="dimmed">
+          [{i + 1}]{' '}
+          <Anchor
+            component={Link}
+            href={`/transcripts/${source.transcriptId}?segment=${source.segmentIndex}`}
+            size="xs"
+          >
+            {source.filename}
+          </Anchor>{' '}
+          {formatTimestamp(source.start)}
+        </Text>
+      ))}
+    </Stack>
+  );
+}
+
 /**
  * Typing indicator component
  * Shows animated dots while AI is generating response
  */
-function TypingIndicator() {
+export function TypingIndicator() {
   return (
     <Box
       style={{
@@ -0,0 +1,319 @@
+/**
+ * Library Chat Component
+ *
+ * Q&A across the whole transcript library. Questions search transcripts
+ * matching the conversation's department and date filters; answers cite
+ * the transcript name and timestamp of the passages they are based on.
+ */
+
+'use client';
+
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import {
+  Paper,
+  Stack,
+  Group,
+  Text,
+  Textarea,
+  Button,
+  Alert,
+  Box,
+  ScrollArea,
+  ActionIcon,
+  Tooltip,
+  Select,
+  TextInput,
+  NavLink,
+  Grid,
+} from '@mantine/core';
+import { Send, Library, Trash2, AlertCircle, Square, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { useLibraryChat } from '@/hooks/use-library-chat';
+import { getDepartmentName, getDepartmentsForSelect } from '@/lib/departments';
+import { MessageBubble, TypingIndicator } from './chat-interface';
+import type { LibraryChatFilters } from '@/types/chat';
+
+/**
+ * Parse a date input value (YYYY-MM-DD) as a local date
+ */
+function parseDateInput(value: string, endOfDay: boolean): Date | undefined {
+  if (!value) return undefined;
+  const [year, month, day] = value.split('-').map(Number);
+  return endOfDay
+    ? new Date(year, month - 1, day, 23, 59, 59, 999)
+    : new Date(year, month - 1, day);
+}
+
+/**
+ * Describe a conversation's filters for the conversation list
+ */
+function describeFilters(filters: LibraryChatFilters): string {
+  const parts: string[] = [];
+  if (filters.department) parts.push(getDepartmentName(filters.department));
+  if (filters.from) parts.push(`from ${format(filters.from, 'MMM d, yyyy')}`);
+  if (filters.to) parts.push(`to ${format(filters.to, 'MMM d, yyyy')}`);
+  return parts.length > 0 ? parts.join(', ') : 'All transcripts';
+}
+
+/**
+ * Library-wide chat with a conversation list and search filters
+ *
+ * Features:
+ * - Saved library conversations, separate from per-transcript chats
+ * - Department and date range filters, fixed once a conversation starts
+ * - Streaming answers with cancellation
+ * - Numbered sources linking to the cited transcript segment
+ */
+export function LibraryChat() {
+  const [input, setInput] = useState('');
+  const {
+    conversations,
+    conversation,
+    messages,
+    filters,
+    setFilters,
+    loading,
+    streaming,
+    error,
+    sendMessage,
+    cancel,
+    selectConversation,
+    newConversation,
+    deleteConversation,
+  } = useLibraryChat();
+
+  const scrollSentinelRef = useRef<HTMLDivElement>(null);
+  const filtersLocked = conversation !== null || loading;
+
+  // Auto-scroll to bottom on new messages
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      scrollSentinelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+    }, 100);
+
+    return () => clearTimeout(timeoutId);
+  }, [messages, loading]);
+
+  const handleSend = useCallback(async () => {
+    const trimmedInput = input.trim();
+    if (!trimmedInput || loading) {
+      return;
+    }
+
+    setInput('');
+    await sendMessage(trimmedInput);
+  }, [input, loading, sendMessage]);
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (event.key === 'Enter' && !event.shiftKey) {
+        event.preventDefault();
+        handleSend();
+      }
+    },
+    [handleSend]
+  );
+
+  const maxCharacters = 500;
+  const showCharacterWarning = input.length > maxCharacters;
+  const isSendDisabled = !input.trim() || loading || showCharacterWarning;
+
+  return (
+    <Grid gutter="lg">
+      {/* Conversation list */}
+      <Grid.Col span={{ base: 12, md: 4 }}>
+        <Stack gap="sm">
+          <Button
+            variant="light"
+            leftSection={<Plus size={16} />}
+            onClick={newConversation}
+            disabled={loading}
+          >
+            New conversation
+          </Button>
+          <Paper withBorder radius="md" p="xs">
+            {conversations.length === 0 ? (
+              <Text size="sm" c="dimmed" p="sm" ta="center">
+                No library conversations yet
+              </Text>
+            ) : (
+              <Stack gap={0}>
+                {conversations.map((c) => (
+                  <Group key={c.id} gap={0} wrap="nowrap">
+                    <NavLink
+                      active={c.id === conversation?.id}
+                      label={c.title}
+                      description={describeFilters(c.filters)}
+                      onClick={() => selectConversation(c.id)}
+                      disabled={loading}
+                      style={{ flex: 1, minWidth: 0 }}
+                    />
+                    <Tooltip label="Delete conversation">
+                      <ActionIcon
+                        variant="subtle"
+                        color="red"
+                        onClick={() => deleteConversation(c.id)}
+                        disabled={loading}
+                        aria-label="Delete conversation"
+                      >
+                        <Trash2 size={16} />
+                      </ActionIcon>
+                    </Tooltip>
+                  </Group>
+                ))}
+              </Stack>
+            )}
+          </Paper>
+        </Stack>
+      </Grid.Col>
+
+      {/* Chat */}
+      <Grid.Col span={{ base: 12, md: 8 }}>
+        <Stack gap="md">
+          <Group gap="sm" align="flex-end" grow>
+            <Select
+              label="Department"
+              placeholder="All departments"
+              data={getDepartmentsForSelect()}
+              value={filters.department ?? null}
+              onChange={(department) =>
+                setFilters({ ...filters, department: department ?? undefined })
+              }
+              clearable
+              searchable
+              disabled={filtersLocked}
+            />
+            <TextInput
+              type="date"
+              label="From"
+              value={filters.from ? format(filters.from, 'yyyy-MM-dd') : ''}
+              onChange={(e) =>
+                setFilters({ ...filters, from: parseDateInput(e.currentTarget.value, false) })
+              }
+              disabled={filtersLocked}
+            />
+            <TextInput
+              type="date"
+              label="To"
+              value={filters.to ? format(filters.to, 'yyyy-MM-dd') : ''}
+              onChange={(e) =>
+                setFilters({ ...filters, to: parseDateInput(e.currentTarget.value, true) })
+              }
+              disabled={filtersLocked}
+            />
+          </Group>
+
+          <Paper
+            withBorder
+            radius="md"
+            style={{
+              height: '500px',
+              display: 'flex',
+              flexDirection: 'column',
+              overflow: 'hidden',
+            }}
+          >
+            <ScrollArea
+              style={{ flex: 1 }}
+              p="md"
+              type="auto"
+              role="log"
+              aria-label="Chat messages"
+              aria-live="polite"
+            >
+              {messages.length === 0 && !loading ? (
+                <Stack align="center" justify="center" gap="xs" mih={350} p="xl">
+                  <Library size={40} style={{ color: 'var(--logo-blue)' }} />
+                  <Text size="xl" fw={600} ta="center">
+                    Ask about all your meetings
+                  </Text>
+                  <Text size="sm" c="dimmed" ta="center" maw={420}>
+                    Questions are answered from the most relevant passages across your
+                    transcripts, with the meeting and timestamp for each source. Try
+                    &quot;When did we last discuss the parking plan?&quot;
+                  </Text>
+                </Stack>
+              ) : (
+                <Stack gap="md">
+                  {messages.map((message) => (
+                    <MessageBubble key={message.id} message={message} />
+                  ))}
+                  {loading && !streaming && <TypingIndicator />}
+                  <div ref={scrollSentinelRef} style={{ height: 1 }} />
+                </Stack>
+              )}
+            </ScrollArea>
+
+            {error && (
+              <Box px="md" pb="md">
+                <Alert
+                  color="red"
+                  variant="light"
+                  icon={<AlertCircle size={16} />}
+                  title="Error"
+                >
+                  <Text size="sm">{error}</Text>
+                </Alert>
+              </Box>
+            )}
+
+            <Box
+              p="md"
+              style={{
+                borderTop: '1px solid var(--mantine-color-default-border)',
+                backgroundColor: 'var(--mantine-color-default)',
+              }}
+            >
+              <Stack gap="xs">
+                <Textarea
+                  value={input}
+                  onChange={(e) => setInput(e.currentTarget.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder="Ask a question about your transcripts..."
+                  minRows={2}
+                  maxRows={5}
+                  autosize
+                  disabled={loading}
+                  aria-label="Message input"
+                />
+
+                <Group justify="space-between" align="center">
+                  <Text
+                    size="xs"
+                    c={showCharacterWarning ? 'red' : 'dimmed'}
+                    fw={showCharacterWarning ? 600 : 400}
+                  >
+                    {input.length} / {maxCharacters}
+                  </Text>
+
+                  {loading ? (
+                    <Button
+                      size="sm"
+                      variant="light"
+                      color="red"
+                      leftSection={<Square size={14} />}
+                      onClick={cancel}
+                      aria-label="Stop generating"
+                    >
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button
+                      size="sm"
+                      leftSection={<Send size={16} />}
+                      onClick={handleSend}
+                      disabled={isSendDisabled}
+                      aria-label="Send message"
+                    >
+                      Send
+                    </Button>
+                  )}
+                </Group>
+              </Stack>
+            </Box>
+          </Paper>
+        </Stack>
+      </Grid.Col>
+    </Grid>
+  );
+}
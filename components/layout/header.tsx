@@ -35,6 +35,8 @@ const navItems: NavItem[] = [
   { href: "/record", label: "Record" },
   { href: "/recordings", label: "Recordings" },
   { href: "/transcripts", label: "Transcripts" },
+  { href: "/ask", label: "Ask" },
+  { href: "/action-items", label: "Action Items" },
   { href: "/templates", label: "Templates" },
 ];
 
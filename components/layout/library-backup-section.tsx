@@ -0,0 +1,246 @@
+"use client";
+
+import * as React from "react";
+import { Archive, Download, Upload } from "lucide-react";
+import {
+  Alert,
+  Button,
+  FileButton,
+  Group,
+  Paper,
+  Progress,
+  Radio,
+  Select,
+  Stack,
+  Text,
+} from "@mantine/core";
+import { modals } from "@mantine/modals";
+import { notifications } from "@mantine/notifications";
+import { triggerDownload } from "@/lib/export";
+import {
+  BACKUP_ACCEPT,
+  createLibraryBackup,
+  restoreLibraryBackup,
+  type BackupProgress,
+  type ConflictPolicy,
+} from "@/lib/backup";
+import type { RestoreMode } from "@/lib/db";
+
+/**
+ * Formats a restore summary for a notification
+ */
+function describeRestore(restored: number, skipped: number, duplicated: number): string {
+  const parts = [`${restored} record${restored !== 1 ? "s" : ""} restored`];
+  if (duplicated > 0) parts.push(`${duplicated} imported as copies`);
+  if (skipped > 0) parts.push(`${skipped} already present and skipped`);
+  return `${parts.join(", ")}.`;
+}
+
+/**
+ * Settings section for downloading a full library backup and restoring one
+ *
+ * Backups are zip archives containing transcripts, analyses, conversations,
+ * custom templates, recordings and stored audio.
+ */
+export function LibraryBackupSection() {
+  const [progress, setProgress] = React.useState<BackupProgress | null>(null);
+  const [restoreFile, setRestoreFile] = React.useState<File | null>(null);
+  const [restoreMode, setRestoreMode] = React.useState<RestoreMode>("merge");
+  const [conflictPolicy, setConflictPolicy] = React.useState<ConflictPolicy>("skip");
+  const resetFileRef = React.useRef<() => void>(null);
+
+  const isBusy = progress !== null;
+
+  const handleBackup = async () => {
+    setProgress({ stage: "reading", percent: 0, message: "Preparing backup…" });
+    try {
+      const result = await createLibraryBackup(setProgress);
+      if (!result.success || !result.blob || !result.filename) {
+        throw new Error(result.error || "Failed to create backup");
+      }
+
+      triggerDownload(result.blob, result.filename);
+      notifications.show({
+        title: "Backup Created",
+        message: `${result.counts?.transcripts ?? 0} transcripts saved to ${result.filename}`,
+        color: "green",
+      });
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      notifications.show({
+        title: "Backup Failed",
+        message: error instanceof Error ? error.message : "Failed to create backup",
+        color: "red",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const clearRestoreFile = () => {
+    setRestoreFile(null);
+    resetFileRef.current?.();
+  };
+
+  const handleRestore = async () => {
+    if (!restoreFile) return;
+
+    setProgress({ stage: "extracting", percent: 0, message: "Opening backup…" });
+    try {
+      const result = await restoreLibraryBackup(restoreFile, {
+        mode: restoreMode,
+        conflictPolicy,
+        onProgress: setProgress,
+      });
+      if (!result.success) {
+        throw new Error(result.error || "Failed to restore backup");
+      }
+
+      const restored = Object.values(result.restored ?? {}).reduce((sum, n) => sum + n, 0);
+      notifications.show({
+        title: "Backup Restored",
+        message: describeRestore(restored, result.skipped, result.duplicated),
+        color: "green",
+      });
+      for (const warning of result.warnings) {
+        notifications.show({ title: "Restore Warning", message: warning, color: "yellow" });
+      }
+      clearRestoreFile();
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      notifications.show({
+        title: "Restore Failed",
+        message: error instanceof Error ? error.message : "Failed to restore backup",
+        color: "red",
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const confirmRestore = () => {
+    if (restoreMode === "merge") {
+      handleRestore();
+      return;
+    }
+
+    modals.openConfirmModal({
+      title: "Replace your library?",
+      centered: true,
+      children: (
+        <Text size="sm">
+          All transcripts, analyses, conversations, custom templates, recordings and
+          audio on this device will be deleted and replaced with the contents of the
+          backup. This cannot be undone.
+        </Text>
+      ),
+      labels: { confirm: "Replace Library", cancel: "Cancel" },
+      confirmProps: { color: "red" },
+      onConfirm: handleRestore,
+    });
+  };
+
+  return (
+    <Stack gap="xs">
+      <Group gap="xs">
+        <Archive size={16} />
+        <Text size="sm" fw={500}>Backup &amp; Restore</Text>
+      </Group>
+      <Text size="xs" c="dimmed">
+        Save your whole library, including recordings and audio, to a single file,
+        or restore it on this or another device
+      </Text>
+
+      <Group grow>
+        <Button
+          variant="default"
+          leftSection={<Download size={16} />}
+          onClick={handleBackup}
+          disabled={isBusy}
+          styles={{ root: { minHeight: 44 } }}
+        >
+          Download Backup
+        </Button>
+        <FileButton
+          onChange={setRestoreFile}
+          accept={BACKUP_ACCEPT}
+          resetRef={resetFileRef}
+          disabled={isBusy}
+        >
+          {(props) => (
+            <Button
+              {...props}
+              variant="default"
+              leftSection={<Upload size={16} />}
+              styles={{ root: { minHeight: 44 } }}
+            >
+              Restore from Backup
+            </Button>
+          )}
+        </FileButton>
+      </Group>
+
+      {restoreFile && (
+        <Paper withBorder p="md" radius="md">
+          <Stack gap="sm">
+            <Text size="sm" fw={500} truncate>
+              {restoreFile.name}
+            </Text>
+
+            <Radio.Group
+              value={restoreMode}
+              onChange={(value) => setRestoreMode(value as RestoreMode)}
+              label="Restore mode"
+            >
+              <Stack gap="xs" mt="xs">
+                <Radio value="merge" label="Merge with my library" disabled={isBusy} />
+                <Radio value="replace" label="Replace my library" disabled={isBusy} />
+              </Stack>
+            </Radio.Group>
+
+            {restoreMode === "merge" ? (
+              <Select
+                label="When an item already exists"
+                value={conflictPolicy}
+                onChange={(value) => value && setConflictPolicy(value as ConflictPolicy)}
+                data={[
+                  { value: "skip", label: "Keep my version" },
+                  { value: "duplicate", label: "Import the backup's version as a copy" },
+                ]}
+                allowDeselect={false}
+                disabled={isBusy}
+              />
+            ) : (
+              <Alert color="red" variant="light">
+                <Text size="xs">
+                  Replacing deletes everything currently stored on this device before
+                  restoring. Built-in templates and settings are kept.
+                </Text>
+              </Alert>
+            )}
+
+            <Group justify="flex-end" gap="xs">
+              <Button variant="subtle" onClick={clearRestoreFile} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button
+                color={restoreMode === "replace" ? "red" : undefined}
+                onClick={confirmRestore}
+                loading={isBusy}
+              >
+                Restore
+              </Button>
+            </Group>
+          </Stack>
+        </Paper>
+      )}
+
+      {progress && (
+        <Stack gap={4}>
+          <Progress value={progress.percent} size="sm" animated />
+          <Text size="xs" c="dimmed">{progress.message}</Text>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
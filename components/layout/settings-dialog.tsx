@@ -8,6 +8,7 @@ import { notifications } from "@mantine/notifications";
 import { clearAllPreferences } from "@/lib/storage";
 import { getStorageEstimate, deleteDatabase } from "@/lib/db";
 import type { ConfigStatusResponse } from "@/app/api/config/status/route";
+import { LibraryBackupSection } from "./library-backup-section";
 
 interface SettingsDialogProps {
   open: boolean;
@@ -132,6 +133,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
           This action cannot be undone. This will permanently delete all your
           transcripts, templates, analyses, and local settings from this device.
           Your API configuration (environment variables) will not be affected.
+          Download a backup first if you may want this data later.
         </Text>
       ),
       labels: { confirm: 'Clear All Data', cancel: 'Cancel' },
@@ -154,9 +156,44 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     if (!configStatus) return 'Unknown';
     if (configStatus.provider === 'azure') return 'Azure OpenAI';
     if (configStatus.provider === 'openai') return 'OpenAI';
+    if (configStatus.provider === 'local') return 'Local model server';
     return 'Not Configured';
   };
 
+  const getBackendLabel = (backend?: string) => {
+    if (backend === 'azure') return 'Azure OpenAI';
+    if (backend === 'openai') return 'OpenAI';
+    if (backend === 'local') return 'Local';
+    return 'None';
+  };
+
+  const getTranscriptionProviderLabel = () => {
+    const provider = configStatus?.transcription?.provider;
+    if (provider === 'azure') return 'Azure OpenAI';
+    if (provider === 'openai') return 'OpenAI';
+    if (provider === 'local') return 'Self-hosted server';
+    return 'Not Configured';
+  };
+
+  const modelRouting = configStatus?.modelRouting;
+  const taskModels = modelRouting?.tasks
+    ? [
+        { label: 'Summary', ...modelRouting.tasks.summary },
+        { label: 'Analysis', ...modelRouting.tasks.analysis },
+        { label: 'Evaluation', ...modelRouting.tasks.evaluation },
+        { label: 'Chat', ...modelRouting.tasks.chat },
+      ]
+    : [];
+
+  const transcription = configStatus?.transcription;
+  const transcriptionFeatures = transcription?.features
+    ? [
+        { label: 'Diarization', enabled: transcription.features.diarization },
+        { label: 'Verbose JSON', enabled: transcription.features.verboseJson },
+        { label: 'Word timestamps', enabled: transcription.features.wordTimestamps },
+      ]
+    : [];
+
   return (
     <Modal
       opened={open}
@@ -170,7 +207,7 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
     >
       <Stack gap="lg">
         <Text size="sm" c="dimmed">
-          View API configuration status and manage application data.
+          View API configuration status, back up your library and manage application data.
         </Text>
 
         {/* Configuration Status Section */}
@@ -210,15 +247,6 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                   </Group>
                 )}
 
-                {configStatus.whisperDeployment && (
-                  <Group justify="space-between">
-                    <Text size="sm" fw={500}>Whisper Deployment</Text>
-                    <Text size="sm" c="dimmed" ff="monospace">
-                      {configStatus.whisperDeployment}
-                    </Text>
-                  </Group>
-                )}
-
                 {configStatus.analysisDeployment && (
                   <Group justify="space-between">
                     <Text size="sm" fw={500}>Analysis Deployment</Text>
@@ -234,6 +262,79 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
               </Alert>
             )}
 
+            {/* Transcription Provider (configured independently of analysis) */}
+            {!isLoadingConfig && transcription && (
+              <Stack gap="md">
+                <Text size="sm" fw={600}>Transcription</Text>
+
+                <Group justify="space-between">
+                  <Text size="sm" fw={500}>Provider</Text>
+                  <Text size="sm" c="dimmed">{getTranscriptionProviderLabel()}</Text>
+                </Group>
+
+                {transcription.endpointHost && transcription.provider === 'local' && (
+                  <Group justify="space-between">
+                    <Text size="sm" fw={500}>Endpoint</Text>
+                    <Text size="sm" c="dimmed" ff="monospace">
+                      {transcription.endpointHost}
+                    </Text>
+                  </Group>
+                )}
+
+                {transcription.model && (
+                  <Group justify="space-between">
+                    <Text size="sm" fw={500}>Model</Text>
+                    <Text size="sm" c="dimmed" ff="monospace">
+                      {transcription.model}
+                    </Text>
+                  </Group>
+                )}
+
+                {transcriptionFeatures.length > 0 && (
+                  <Group justify="space-between">
+                    <Text size="sm" fw={500}>Features</Text>
+                    <Group gap={6}>
+                      {transcriptionFeatures.map((feature) => (
+                        <Badge
+                          key={feature.label}
+                          size="sm"
+                          variant="light"
+                          color={feature.enabled ? 'green' : 'gray'}
+                        >
+                          {feature.label}
+                        </Badge>
+                      ))}
+                    </Group>
+                  </Group>
+                )}
+
+                {transcription.error && (
+                  <Text size="sm" c="red">{transcription.error}</Text>
+                )}
+              </Stack>
+            )}
+
+            {/* Model Routing (which model runs each LLM task) */}
+            {!isLoadingConfig && modelRouting?.configured && (
+              <Stack gap="md">
+                <Text size="sm" fw={600}>Model Routing</Text>
+
+                {taskModels.map((task) => (
+                  <Group key={task.label} justify="space-between">
+                    <Text size="sm" fw={500}>{task.label}</Text>
+                    <Text size="sm" c="dimmed" ff="monospace">
+                      {getBackendLabel(task.backend)} · {task.model} ({task.contextLimit.toLocaleString()} tokens)
+                    </Text>
+                  </Group>
+                ))}
+
+                <Group justify="space-between">
+                  <Text size="sm" fw={500}>Fallback</Text>
+                  <Text size="sm" c="dimmed">{getBackendLabel(modelRouting.fallback)}</Text>
+                </Group>
+              </Stack>
+            )}
+
             {/* Configuration Instructions */}
             <Alert icon={<AlertCircle size={16} />} title="How to Configure API Credentials" color="blue" mt="md">
               <Stack gap="md">
@@ -271,6 +372,8 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
                       <ul style={{ marginTop: '0.25rem', marginLeft: '1rem', fontSize: 'var(--mantine-font-size-xs)', color: 'var(--mantine-color-dimmed)' }}>
                         <li>For Azure OpenAI: Set AZURE_OPENAI_* variables</li>
                         <li>For OpenAI: Set OPENAI_API_KEY variable</li>
+                        <li>For a self-hosted Whisper server: Set LOCAL_WHISPER_* variables</li>
+                        <li>For a local LLM (Ollama, vLLM, llama.cpp): Set LOCAL_LLM_* and LLM_* variables</li>
                       </ul>
                     </li>
                     <li>Save the file and restart your development server</li>
@@ -321,10 +424,25 @@ export function SettingsDialog({ open, onOpenChange }: SettingsDialogProps) {
             )}
           </Group>
           <Text size="xs" c="dimmed">
-            Transcripts and analyses stored locally in your browser
+            {configStatus?.storage?.backend === 'server'
+              ? 'Transcripts, analyses, templates and audio are stored on the server; chat history stays in your browser'
+              : 'Transcripts and analyses stored locally in your browser'}
           </Text>
+          {configStatus?.storage?.backend === 'server' && (
+            <Group justify="space-between">
+              <Text size="sm" fw={500}>Server store</Text>
+              {configStatus.storage.error ? (
+                <Text size="sm" c="red">{configStatus.storage.error}</Text>
+              ) : (
+                <Text size="sm" c="dimmed" ff="monospace">{configStatus.storage.databaseFile}</Text>
+              )}
+            </Group>
+          )}
         </Stack>
 
+        {/* Backup & Restore Section */}
+        <LibraryBackupSection />
+
         {/* Clear All Data Section */}
         <Stack gap="xs">
           <Button
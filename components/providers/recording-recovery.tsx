@@ -0,0 +1,158 @@
+"use client";
+
+/**
+ * Recording Recovery Component
+ *
+ * Checks for recordings interrupted by a crash, tab discard or sleep when
+ * the app loads, and offers to recover them into the Recordings library
+ * or discard them.
+ */
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Modal, Stack, Group, Text, Button, Paper, Badge } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { History } from 'lucide-react';
+import { deleteRecordingSession, recoverRecordingSession } from '@/lib/db';
+import { findInterruptedSessions } from '@/lib/recording-recovery';
+import { formatFileSize, formatTimestamp } from '@/lib/transcription-utils';
+import type { RecordingSession } from '@/types/recording';
+
+/**
+ * Client-side component that prompts to recover interrupted recordings.
+ *
+ * Renders nothing unless an interrupted recording is found.
+ */
+export function RecordingRecovery() {
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    findInterruptedSessions()
+      .then((found) => {
+        if (mounted) setSessions(found);
+      })
+      .catch((error) => {
+        console.error('Failed to check for interrupted recordings:', error);
+      });
+
+    return () => {
+      mounted = false;
+    };
+  }, []); // Run once on mount
+
+  const removeSession = (id: string) => {
+    setSessions((current) => current.filter((session) => session.id !== id));
+  };
+
+  const handleRecover = async (session: RecordingSession) => {
+    setBusyId(session.id);
+    try {
+      const startedAt = new Date(session.startedAt);
+      await recoverRecordingSession(
+        session.id,
+        `Recovered recording (${startedAt.toLocaleString()})`
+      );
+      removeSession(session.id);
+      notifications.show({
+        title: 'Recording recovered',
+        message: 'The recording was saved to your Recordings library.',
+        color: 'green',
+      });
+    } catch (error) {
+      console.error('Failed to recover recording:', error);
+      notifications.show({
+        title: 'Recovery failed',
+        message: error instanceof Error ? error.message : 'The recording could not be recovered.',
+        color: 'red',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (session: RecordingSession) => {
+    if (!window.confirm('Discard this recording? The audio cannot be recovered afterwards.')) {
+      return;
+    }
+    setBusyId(session.id);
+    try {
+      await deleteRecordingSession(session.id);
+      removeSession(session.id);
+    } catch (error) {
+      console.error('Failed to discard interrupted recording:', error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Modal
+      opened={sessions.length > 0}
+      onClose={() => setSessions([])}
+      title={
+        <Group gap="xs">
+          <History size={18} />
+          <Text fw={600}>Recover interrupted recording</Text>
+        </Group>
+      }
+      size="lg"
+    >
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          {sessions.length === 1
+            ? 'A recording was interrupted before it was saved.'
+            : `${sessions.length} recordings were interrupted before they were saved.`}{' '}
+          Recover it to keep the audio captured up to that point. Closing this dialog keeps it for
+          next time.
+        </Text>
+
+        {sessions.map((session) => (
+          <Paper key={session.id} withBorder p="sm" radius="md">
+            <Group justify="space-between" wrap="nowrap">
+              <Stack gap={2}>
+                <Text size="sm" fw={600}>
+                  {new Date(session.startedAt).toLocaleString()}
+                </Text>
+                <Group gap="xs">
+                  <Badge variant="light" size="sm">
+                    {formatTimestamp(session.duration)}
+                  </Badge>
+                  <Text size="xs" c="dimmed">
+                    {formatFileSize(session.size)}
+                  </Text>
+                </Group>
+              </Stack>
+              <Group gap="xs" wrap="nowrap">
+                <Button
+                  size="xs"
+                  variant="subtle"
+                  color="red"
+                  disabled={busyId !== null}
+                  onClick={() => handleDiscard(session)}
+                >
+                  Discard
+                </Button>
+                <Button
+                  size="xs"
+                  loading={busyId === session.id}
+                  disabled={busyId !== null && busyId !== session.id}
+                  onClick={() => handleRecover(session)}
+                >
+                  Recover
+                </Button>
+              </Group>
+            </Group>
+          </Paper>
+        ))}
+
+        <Text size="xs" c="dimmed">
+          Recovered recordings appear in <Link href="/recordings">Recordings</Link>, where you can
+          play or transcribe them.
+        </Text>
+      </Stack>
+    </Modal>
+  );
+}
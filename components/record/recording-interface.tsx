@@ -12,6 +12,8 @@
  * - Full recording controls: Pause/Resume, Stop, Discard
  * - Simple audio level visualization
  * - Comprehensive error handling with retry capabilities
+ * - Live transcript built from recording chunks as the meeting happens
+ * - Audio persisted as it is recorded, recoverable after a crash
  * - Preparing state for permission requests
  * - Smooth state transitions with visual feedback
  *
@@ -23,7 +25,7 @@
 "use client";
 
 import * as React from "react";
-import { Pause, Play, Square, Trash2, Mic, AlertCircle } from "lucide-react";
+import { Pause, Play, Square, Trash2, Mic, AlertCircle, FileText } from "lucide-react";
 import {
   Paper,
   Button,
@@ -36,11 +38,24 @@ import {
   Box,
   rem,
   Loader,
+  ScrollArea,
+  Switch,
 } from "@mantine/core";
 import { useRecording } from "@/hooks/use-recording";
+import { useLiveTranscription } from "@/hooks/use-live-transcription";
+import { assembleLiveTranscript, LIVE_CHUNK_SECONDS } from "@/lib/live-transcription";
 import { useAudioSources } from "@/hooks/use-audio-sources";
 import { useAudioAmplitude } from "@/hooks/use-audio-amplitude";
 import type { RecordingMode } from "@/types/recording";
+import type { Transcript } from "@/types/transcript";
+
+/**
+ * Transcription settings for live chunks (matches "Transcribe Now")
+ */
+const LIVE_TRANSCRIPTION_OPTIONS = {
+  model: "gpt-4o-transcribe",
+  enableSpeakerDetection: true,
+};
 
 /**
  * Recording completion data passed to onComplete callback
@@ -50,6 +65,16 @@ export interface RecordingCompleteData {
   blob: Blob;
   /** Duration of the recording in seconds */
   duration: number;
+  /**
+   * Transcript assembled from the live chunks. Absent when live
+   * transcription was off or any chunk could not be transcribed.
+   */
+  transcript?: Transcript;
+  /**
+   * Recovery session holding a persisted copy of the audio. Close it with
+   * closeRecordingSession once the recording is saved or discarded.
+   */
+  sessionId?: string;
 }
 
 /**
@@ -127,18 +152,62 @@ export function RecordingInterface({
   onComplete,
   onDiscard,
 }: RecordingInterfaceProps) {
+  // Live transcription of recording chunks
+  const [liveEnabled, setLiveEnabled] = React.useState(true);
+  const [isFinalizing, setIsFinalizing] = React.useState(false);
+  const live = useLiveTranscription(LIVE_TRANSCRIPTION_OPTIONS);
+
+  /**
+   * Wait for the last chunks and assemble the final transcript from them
+   */
+  const finalizeLiveTranscript = React.useCallback(
+    async (blob: Blob, duration: number): Promise<Transcript | undefined> => {
+      setIsFinalizing(true);
+      try {
+        const { results, failedCount } = await live.finish();
+        if (failedCount > 0 || results.length === 0) {
+          return undefined;
+        }
+        return assembleLiveTranscript(results, {
+          filename: `recording-${new Date().toISOString().slice(0, 10)}`,
+          fileSize: blob.size,
+          duration,
+        });
+      } finally {
+        setIsFinalizing(false);
+      }
+    },
+    [live]
+  );
+
   // Recording state management
   const recording = useRecording({
-    onRecordingComplete: (blob) => {
+    onRecordingComplete: async (blob, { duration, sessionId }) => {
       console.log("Recording complete:", blob);
-      // Pass blob and duration to parent for handling
-      onComplete({ blob, duration: recording.duration });
+      const transcript = liveEnabled
+        ? await finalizeLiveTranscript(blob, duration)
+        : undefined;
+      // Pass blob, duration, live transcript and recovery session to parent for handling
+      onComplete({ blob, duration, transcript, sessionId: sessionId ?? undefined });
     },
     onError: (error) => {
       console.error("Recording error:", error);
     },
+    onChunk: liveEnabled ? live.addChunk : undefined,
+    chunkIntervalMs: LIVE_CHUNK_SECONDS * 1000,
+    persistSession: true,
   });
 
+  // Keep the live transcript scrolled to the newest text
+  const liveViewportRef = React.useRef<HTMLDivElement>(null);
+  const liveSegmentCount = live.transcript.segments.length;
+  React.useEffect(() => {
+    const viewport = liveViewportRef.current;
+    if (viewport) {
+      viewport.scrollTo({ top: viewport.scrollHeight });
+    }
+  }, [liveSegmentCount]);
+
   // Audio source management
   const audioSources = useAudioSources();
 
@@ -201,6 +270,7 @@ export function RecordingInterface({
     const recordingRef = recording;
     const audioSourcesRef = audioSources;
     const stopAnalysisRef = stopAnalysis;
+    const liveRef = live;
     return () => {
       // Stop amplitude analysis
       stopAnalysisRef();
@@ -208,6 +278,7 @@ export function RecordingInterface({
       if (recordingRef.state !== 'completed') {
         audioSourcesRef.stopAllStreams();
         recordingRef.discardRecording();
+        liveRef.reset();
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -217,13 +288,14 @@ export function RecordingInterface({
    * Handle retry after error
    */
   const handleRetry = React.useCallback(() => {
-    // Reset both hooks
+    // Reset all hooks
     recording.reset();
+    live.reset();
     audioSources.stopAllStreams();
 
     // Restart the recording flow
     startRecordingFlow();
-  }, [recording, audioSources, startRecordingFlow]);
+  }, [recording, live, audioSources, startRecordingFlow]);
 
   /**
    * Handle discard action
@@ -232,12 +304,13 @@ export function RecordingInterface({
     // Stop all streams
     audioSources.stopAllStreams();
 
-    // Discard the recording
+    // Discard the recording and its live transcript
     recording.discardRecording();
+    live.reset();
 
     // Notify parent
     onDiscard();
-  }, [recording, audioSources, onDiscard]);
+  }, [recording, live, audioSources, onDiscard]);
 
   /**
    * Handle pause action
@@ -504,10 +577,20 @@ export function RecordingInterface({
             {!isReady && isPreparing && "Getting ready to record..."}
             {isRecording && "Recording in progress"}
             {isPaused && "Recording is paused"}
-            {isCompleted && "Recording finished successfully"}
+            {isCompleted && (isFinalizing ? "Finishing live transcript..." : "Recording finished successfully")}
             {isError && "An error occurred"}
           </Text>
 
+          {/* Live Transcript Toggle */}
+          {isReady && (
+            <Switch
+              checked={liveEnabled}
+              onChange={(event) => setLiveEnabled(event.currentTarget.checked)}
+              label="Transcribe while recording"
+              description="Builds the transcript as you go, so it is ready when you stop"
+            />
+          )}
+
           {/* Control Buttons */}
           <Group gap="sm" justify="center" w="100%">
             {/* Ready State - Start Recording Button */}
@@ -590,6 +673,52 @@ export function RecordingInterface({
         </Stack>
       </Paper>
 
+      {/* Live Transcript */}
+      {liveEnabled && (isRecording || isPaused || isCompleted) && (
+        <Paper radius="lg" withBorder p="md">
+          <Stack gap="sm">
+            <Group justify="space-between">
+              <Group gap="xs">
+                <FileText size={18} />
+                <Text fw={600}>Live Transcript</Text>
+              </Group>
+              {(live.isTranscribing || isFinalizing) && <Loader size="xs" />}
+            </Group>
+            <ScrollArea h={220} viewportRef={liveViewportRef}>
+              {live.transcript.segments.length === 0 ? (
+                <Text size="sm" c="dimmed">
+                  Text appears here about every {LIVE_CHUNK_SECONDS} seconds.
+                </Text>
+              ) : (
+                <Stack gap={6}>
+                  {live.transcript.segments.map((segment) => (
+                    <Group key={segment.index} gap="sm" wrap="nowrap" align="flex-start">
+                      <Text
+                        size="xs"
+                        c="dimmed"
+                        style={{ fontFamily: "var(--mantine-font-family-monospace)", flexShrink: 0 }}
+                      >
+                        {formatTime(segment.start)}
+                      </Text>
+                      <Text size="sm">
+                        {segment.speaker && <strong>{segment.speaker}: </strong>}
+                        {segment.text}
+                      </Text>
+                    </Group>
+                  ))}
+                </Stack>
+              )}
+            </ScrollArea>
+            {live.chunks.some((chunk) => chunk.status === "failed") && (
+              <Text size="xs" c="orange">
+                Some audio could not be transcribed yet. It will be retried when you stop;
+                if it still fails, use Transcribe Now to transcribe the full recording.
+              </Text>
+            )}
+          </Stack>
+        </Paper>
+      )}
+
       {/* Error Alert with Retry */}
       {isError && errorMessage && (
         <Alert
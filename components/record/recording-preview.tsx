@@ -10,6 +10,7 @@
  * - Save recording to IndexedDB for later use
  * - Discard recording and start over
  * - Transcribe now (navigate to upload flow)
+ * - Save the live transcript built during recording without re-uploading
  * - Success state after saving with visual feedback
  *
  * Target users: City of Austin field workers who want to save recordings
@@ -22,10 +23,14 @@ import * as React from "react";
 import { useRouter } from "next/navigation";
 import { Save, Trash2, FileText, Play, Check } from "lucide-react";
 import { Paper, Stack, Group, Button, TextInput, Text, Badge, rem, Alert } from "@mantine/core";
-import { saveRecording, updateRecordingStatus } from "@/lib/db";
+import { saveRecording, saveTranscript, updateRecordingStatus } from "@/lib/db";
+import { storeAudioFile } from "@/lib/audio-storage";
+import { computeTranscriptFingerprint } from "@/lib/transcript-fingerprint";
+import { closeRecordingSession } from "@/lib/recording-recovery";
 import { useTranscriptionFlow } from "@/hooks/use-transcription-flow";
 import { TranscriptionProgress } from "./transcription-progress";
 import type { RecordingMode } from "@/types/recording";
+import type { Transcript } from "@/types/transcript";
 
 /**
  * Props for RecordingPreview component
@@ -43,6 +48,12 @@ export interface RecordingPreviewProps {
   /** Duration of the recording in seconds */
   duration: number;
 
+  /** Transcript assembled during recording; saved as-is instead of re-transcribing */
+  liveTranscript?: Transcript;
+
+  /** Crash-recovery session for this recording, closed once it is saved */
+  sessionId?: string;
+
   /** Callback after successful save */
   onSave: () => void;
 
@@ -138,6 +149,8 @@ export function RecordingPreview({
   audioUrl,
   mode,
   duration,
+  liveTranscript,
+  sessionId,
   onSave,
   onDiscard,
 }: RecordingPreviewProps) {
@@ -179,6 +192,16 @@ export function RecordingPreview({
     },
   });
 
+  /**
+   * Drop the crash-recovery copy once the recording is safely saved
+   */
+  const closeSession = React.useCallback(() => {
+    if (!sessionId) return;
+    closeRecordingSession(sessionId).catch((error) => {
+      console.error("Failed to close recording session:", error);
+    });
+  }, [sessionId]);
+
   /**
    * Handle save recording to IndexedDB
    */
@@ -203,6 +226,7 @@ export function RecordingPreview({
 
       // Store the recording ID for later use
       setSavedRecordingId(recordingId);
+      closeSession();
 
       // Show success state
       setSaveSuccess(true);
@@ -221,10 +245,43 @@ export function RecordingPreview({
           : "Failed to save recording. Please try again."
       );
     }
-  }, [audioBlob, mode, duration, fileSize, mimeType, createdAt, recordingName, onSave]);
+  }, [audioBlob, mode, duration, fileSize, mimeType, createdAt, recordingName, closeSession, onSave]);
+
+  /**
+   * Save the live transcript with the recording's audio and open it
+   */
+  const saveLiveTranscript = React.useCallback(
+    async (recordingId: number, transcript: Transcript, filename: string) => {
+      const fingerprint = await computeTranscriptFingerprint(audioBlob, { duration });
+      await saveTranscript({ ...transcript, filename, fingerprint });
+
+      // Store audio for playback (non-critical - transcript is already saved)
+      try {
+        const extension = mimeType.includes("mp4") ? "mp4" : "webm";
+        await storeAudioFile(transcript.id, audioBlob, {
+          filename: `${filename}.${extension}`,
+          size: fileSize,
+          type: mimeType,
+          duration,
+        });
+      } catch (error) {
+        console.error("Failed to store recording audio:", error);
+      }
+
+      try {
+        await updateRecordingStatus(recordingId, "transcribed", transcript.id);
+      } catch (error) {
+        console.error("Failed to update recording status:", error);
+      }
+
+      router.push(`/transcripts/${transcript.id}/analyze`);
+    },
+    [audioBlob, duration, fileSize, mimeType, router]
+  );
 
   /**
    * Handle transcribe now - saves first then starts transcription
+   * (or saves the live transcript when one was built during recording)
    */
   const handleTranscribeNow = React.useCallback(async () => {
     try {
@@ -247,11 +304,17 @@ export function RecordingPreview({
 
       // Store the recording ID
       setSavedRecordingId(recordingId);
+      closeSession();
+
+      const filename = recordingName.trim() || `recording-${new Date().toISOString().slice(0, 10)}`;
+      if (liveTranscript) {
+        await saveLiveTranscript(recordingId, liveTranscript, filename);
+        return;
+      }
       setIsSaving(false);
 
       // Start transcription
       setIsTranscribing(true);
-      const filename = recordingName.trim() || `recording-${new Date().toISOString().slice(0, 10)}`;
       await transcription.startTranscription(audioBlob, filename);
     } catch (error) {
       console.error("Failed to save/transcribe recording:", error);
@@ -263,7 +326,7 @@ export function RecordingPreview({
           : "Failed to save recording. Please try again."
       );
     }
-  }, [audioBlob, mode, duration, fileSize, mimeType, createdAt, recordingName, transcription]);
+  }, [audioBlob, mode, duration, fileSize, mimeType, createdAt, recordingName, liveTranscript, saveLiveTranscript, closeSession, transcription]);
 
   /**
    * Handle retry transcription
@@ -475,6 +538,7 @@ export function RecordingPreview({
           size="lg"
           onClick={handleTranscribeNow}
           disabled={isSaving}
+          loading={isSaving && Boolean(liveTranscript)}
           fullWidth
           style={{ minHeight: rem(52) }}
           styles={{
@@ -488,7 +552,7 @@ export function RecordingPreview({
           }}
         >
           <FileText style={{ width: rem(20), height: rem(20), marginRight: rem(8) }} />
-          Transcribe Now
+          {liveTranscript ? "Open Transcript" : "Transcribe Now"}
         </Button>
 
         {/* Discard Button */}
@@ -509,8 +573,17 @@ export function RecordingPreview({
       {/* Helper Tip */}
       <Alert color="aphCyan" variant="light">
         <Text size="sm">
-          <strong>Tip:</strong> Save your recording to access it later from the Recordings tab,
-          or transcribe now to convert it to text immediately.
+          {liveTranscript ? (
+            <>
+              <strong>Transcript ready:</strong> {liveTranscript.segments.length} segments were
+              transcribed while you recorded. Open it to save it with this recording.
+            </>
+          ) : (
+            <>
+              <strong>Tip:</strong> Save your recording to access it later from the Recordings tab,
+              or transcribe now to convert it to text immediately.
+            </>
+          )}
         </Text>
       </Alert>
     </Stack>
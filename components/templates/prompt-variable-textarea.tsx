@@ -0,0 +1,127 @@
+/**
+ * Prompt Variable Textarea Component
+ *
+ * Section prompt input that suggests template variables while typing.
+ * Typing `{{` opens a list of the variables available to the template;
+ * choosing one completes the placeholder.
+ */
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Combobox, Group, Text, Textarea, useCombobox, type TextareaProps } from '@mantine/core';
+import {
+  applyVariableCompletion,
+  getVariableCompletionContext,
+  type VariableCompletionContext,
+} from '@/lib/template-variables';
+
+/**
+ * Variable offered as a completion
+ */
+export interface PromptVariableOption {
+  name: string;
+  description?: string;
+}
+
+export interface PromptVariableTextareaProps
+  extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Variables available to the template */
+  variables: PromptVariableOption[];
+}
+
+/**
+ * Textarea with `{{variable}}` autocomplete
+ */
+export function PromptVariableTextarea({
+  value,
+  onChange,
+  variables,
+  ...textareaProps
+}: PromptVariableTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [completion, setCompletion] = useState<VariableCompletionContext | null>(null);
+  const combobox = useCombobox({
+    onDropdownClose: () => setCompletion(null),
+  });
+
+  const matches = completion
+    ? variables.filter((variable) =>
+        variable.name.toLowerCase().startsWith(completion.query.toLowerCase())
+      )
+    : [];
+
+  // Re-evaluate the placeholder under the cursor after typing or moving it
+  const updateCompletion = (element: HTMLTextAreaElement) => {
+    const context = getVariableCompletionContext(element.value, element.selectionStart);
+    setCompletion(context);
+    if (context) {
+      combobox.openDropdown();
+      requestAnimationFrame(() => combobox.selectFirstOption());
+    } else {
+      combobox.closeDropdown();
+    }
+  };
+
+  const handleSubmit = (name: string) => {
+    const element = textareaRef.current;
+    if (!completion || !element) return;
+
+    const result = applyVariableCompletion(value, completion, element.selectionStart, name);
+    onChange(result.text);
+    combobox.closeDropdown();
+
+    // Place the cursor after the completed placeholder once React re-renders
+    requestAnimationFrame(() => {
+      element.focus();
+      element.setSelectionRange(result.cursor, result.cursor);
+    });
+  };
+
+  return (
+    <Combobox
+      store={combobox}
+      onOptionSubmit={handleSubmit}
+      position="bottom-start"
+      width={280}
+    >
+      <Combobox.Target withKeyboardNavigation={combobox.dropdownOpened && matches.length > 0}>
+        <Textarea
+          {...textareaProps}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.currentTarget.value);
+            updateCompletion(e.currentTarget);
+          }}
+          onClick={(e) => updateCompletion(e.currentTarget)}
+          onKeyUp={(e) => {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') updateCompletion(e.currentTarget);
+          }}
+          onBlur={() => combobox.closeDropdown()}
+        />
+      </Combobox.Target>
+
+      <Combobox.Dropdown hidden={matches.length === 0}>
+        <Combobox.Options>
+          {matches.map((variable) => (
+            <Combobox.Option value={variable.name} key={variable.name}>
+              <Group gap="xs" wrap="nowrap">
+                <Text size="sm" ff="monospace">
+                  {`{{${variable.name}}}`}
+                </Text>
+                {variable.description && (
+                  <Text size="xs" c="dimmed" truncate>
+                    {variable.description}
+                  </Text>
+                )}
+              </Group>
+            </Combobox.Option>
+          ))}
+        </Combobox.Options>
+      </Combobox.Dropdown>
+    </Combobox>
+  );
+}
@@ -0,0 +1,272 @@
+/**
+ * Section Dependency Editor Component
+ *
+ * Graph editor for template section dependencies. Sections are laid out in
+ * columns by dependency depth with arrows from each dependency to the
+ * sections that build on it. Selecting a section and clicking others
+ * connects or disconnects them. Below the graph, a preview shows the order
+ * the advanced strategy will run the sections in, along with warnings for
+ * cycles and dependencies on deleted sections.
+ */
+
+'use client';
+
+import React, { useId, useMemo, useState } from 'react';
+import { Alert, Badge, Box, Button, Group, ScrollArea, Stack, Text, Title, UnstyledButton } from '@mantine/core';
+import { AlertTriangle, ArrowRight, GitBranch, RefreshCcw } from 'lucide-react';
+import {
+  checkSectionDependencies,
+  getDependencyLevels,
+  removeMissingDependencies,
+  toggleSectionDependency,
+} from '@/lib/template-dependencies';
+import type { TemplateSection } from '@/types/template';
+
+export interface SectionDependencyEditorProps {
+  sections: TemplateSection[];
+  onChange: (sections: TemplateSection[]) => void;
+  disabled?: boolean;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 52;
+const COLUMN_GAP = 64;
+const ROW_GAP = 16;
+const PADDING = 12;
+
+/**
+ * Display name of a section, falling back to its position for unnamed ones
+ */
+function sectionLabel(section: TemplateSection, index: number): string {
+  return section.name.trim() || `Section ${index + 1}`;
+}
+
+/**
+ * Visual editor for the dependencies between template sections
+ */
+export function SectionDependencyEditor({ sections, onChange, disabled }: SectionDependencyEditorProps) {
+  const markerId = useId();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const check = useMemo(() => checkSectionDependencies(sections), [sections]);
+  const levels = useMemo(() => getDependencyLevels(sections), [sections]);
+
+  const labels = new Map(sections.map((section, index) => [section.id, sectionLabel(section, index)]));
+  const steps = new Map(check.order.map((section, index) => [section.id, index + 1]));
+  const selected = sections.find((section) => section.id === selectedId) ?? null;
+
+  // Lay out nodes column by column, keeping editor order within a column
+  const positions = new Map<string, { x: number; y: number }>();
+  const rowsPerColumn: number[] = [];
+  for (const section of sections) {
+    const level = levels.get(section.id) ?? 0;
+    const row = rowsPerColumn[level] ?? 0;
+    rowsPerColumn[level] = row + 1;
+    positions.set(section.id, {
+      x: PADDING + level * (NODE_WIDTH + COLUMN_GAP),
+      y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+    });
+  }
+  const columnCount = Math.max(rowsPerColumn.length, 1);
+  const rowCount = Math.max(...rowsPerColumn.map((rows) => rows ?? 0), 1);
+  const width = PADDING * 2 + columnCount * NODE_WIDTH + (columnCount - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + rowCount * NODE_HEIGHT + (rowCount - 1) * ROW_GAP;
+
+  const edges = sections.flatMap((section) =>
+    (section.dependencies ?? [])
+      .filter((depId) => positions.has(depId))
+      .map((depId) => ({
+        from: depId,
+        to: section.id,
+        inCycle: check.cycle.includes(depId) && check.cycle.includes(section.id),
+      }))
+  );
+
+  const handleNodeClick = (sectionId: string) => {
+    if (!selected || selected.id === sectionId) {
+      setSelectedId(selected?.id === sectionId ? null : sectionId);
+      return;
+    }
+    onChange(toggleSectionDependency(sections, selected.id, sectionId));
+  };
+
+  return (
+    <Stack gap="md">
+      <div>
+        <Group gap="xs" align="center">
+          <GitBranch size={16} style={{ color: 'var(--mantine-color-dimmed)' }} />
+          <Title order={4} size="h5">
+            Section Dependencies
+          </Title>
+        </Group>
+        <Text c="dimmed" size="sm" mt={4}>
+          {selected
+            ? `Click the sections "${labels.get(selected.id)}" should build on. Click one again to remove it, or click "${labels.get(selected.id)}" to finish.`
+            : 'Select a section, then click the sections it builds on. The advanced strategy runs each section after its dependencies and passes their results along.'}
+        </Text>
+      </div>
+
+      <ScrollArea type="auto" offsetScrollbars>
+        <Box
+          pos="relative"
+          w={width}
+          h={height}
+          style={{
+            border: '1px solid var(--mantine-color-default-border)',
+            borderRadius: 'var(--mantine-radius-md)',
+            backgroundColor: 'var(--mantine-color-default-hover)',
+          }}
+        >
+          <svg
+            width={width}
+            height={height}
+            style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}
+            aria-hidden
+          >
+            <defs>
+              <marker id={markerId} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--mantine-color-gray-6)" />
+              </marker>
+            </defs>
+            {edges.map(({ from, to, inCycle }) => {
+              const start = positions.get(from)!;
+              const end = positions.get(to)!;
+              const x1 = start.x + NODE_WIDTH;
+              const y1 = start.y + NODE_HEIGHT / 2;
+              const x2 = end.x;
+              const y2 = end.y + NODE_HEIGHT / 2;
+              const bend = Math.max(COLUMN_GAP / 2, Math.abs(x2 - x1) / 2);
+              const highlighted = from === selectedId || to === selectedId;
+              return (
+                <path
+                  key={`${from}-${to}`}
+                  d={`M ${x1} ${y1} C ${x1 + bend} ${y1}, ${x2 - bend} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke={
+                    inCycle
+                      ? 'var(--mantine-color-red-6)'
+                      : highlighted
+                        ? 'var(--mantine-color-blue-6)'
+                        : 'var(--mantine-color-gray-5)'
+                  }
+                  strokeWidth={highlighted || inCycle ? 2 : 1.5}
+                  markerEnd={`url(#${markerId})`}
+                />
+              );
+            })}
+          </svg>
+
+          {sections.map((section) => {
+            const position = positions.get(section.id)!;
+            const isSelected = section.id === selectedId;
+            const isDependency = selected?.dependencies?.includes(section.id) ?? false;
+            const inCycle = check.cycle.includes(section.id);
+            const step = steps.get(section.id);
+
+            return (
+              <UnstyledButton
+                key={section.id}
+                onClick={() => handleNodeClick(section.id)}
+                disabled={disabled}
+                aria-pressed={isSelected || isDependency}
+                aria-label={
+                  isSelected
+                    ? `Finish editing dependencies of ${labels.get(section.id)}`
+                    : selected
+                      ? `${isDependency ? 'Remove' : 'Add'} dependency of ${labels.get(selected.id)} on ${labels.get(section.id)}`
+                      : `Edit dependencies of ${labels.get(section.id)}`
+                }
+                pos="absolute"
+                left={position.x}
+                top={position.y}
+                w={NODE_WIDTH}
+                h={NODE_HEIGHT}
+                px="sm"
+                style={{
+                  borderRadius: 'var(--mantine-radius-md)',
+                  border: `${isSelected || isDependency || inCycle ? 2 : 1}px solid ${
+                    inCycle
+                      ? 'var(--mantine-color-red-6)'
+                      : isSelected
+                        ? 'var(--mantine-color-blue-6)'
+                        : isDependency
+                          ? 'var(--mantine-color-teal-6)'
+                          : 'var(--mantine-color-default-border)'
+                  }`,
+                  backgroundColor: isSelected
+                    ? 'var(--mantine-color-blue-light)'
+                    : 'var(--mantine-color-body)',
+                }}
+              >
+                <Group gap="xs" wrap="nowrap">
+                  <Badge size="sm" circle variant="light" color={step ? 'blue' : 'red'}>
+                    {step ?? '!'}
+                  </Badge>
+                  <Text size="sm" fw={500} truncate>
+                    {labels.get(section.id)}
+                  </Text>
+                </Group>
+              </UnstyledButton>
+            );
+          })}
+        </Box>
+      </ScrollArea>
+
+      {check.cycle.length > 0 && (
+        <Alert variant="light" color="red" icon={<RefreshCcw size={16} />} title="Circular dependency">
+          <Text size="sm">
+            {check.cycle.map((id) => labels.get(id)).join(', ')} depend on each other, so the
+            advanced strategy can&apos;t decide which to run first. Remove one of the red
+            connections to break the cycle.
+          </Text>
+          {check.blocked.length > 0 && (
+            <Text size="sm" mt="xs">
+              Also waiting on the cycle: {check.blocked.map((id) => labels.get(id)).join(', ')}.
+            </Text>
+          )}
+        </Alert>
+      )}
+
+      {check.missing.length > 0 && (
+        <Alert variant="light" color="yellow" icon={<AlertTriangle size={16} />} title="Dependencies on deleted sections">
+          <Stack gap="xs">
+            {check.missing.map(({ sectionId, dependencyId }) => (
+              <Text key={`${sectionId}-${dependencyId}`} size="sm">
+                &quot;{labels.get(sectionId)}&quot; depends on a section that was deleted.
+              </Text>
+            ))}
+            <Group>
+              <Button
+                size="xs"
+                variant="light"
+                color="yellow"
+                onClick={() => onChange(removeMissingDependencies(sections))}
+                disabled={disabled}
+              >
+                Remove Broken Dependencies
+              </Button>
+            </Group>
+          </Stack>
+        </Alert>
+      )}
+
+      {check.cycle.length === 0 && (
+        <div>
+          <Text size="xs" fw={600} c="dimmed" tt="uppercase" mb={4}>
+            Advanced strategy execution order
+          </Text>
+          <Group gap={6}>
+            {check.order.map((section, index) => (
+              <React.Fragment key={section.id}>
+                {index > 0 && <ArrowRight size={14} style={{ color: 'var(--mantine-color-dimmed)' }} />}
+                <Badge variant="light" color="gray" tt="none">
+                  {index + 1}. {labels.get(section.id)}
+                </Badge>
+              </React.Fragment>
+            ))}
+          </Group>
+        </div>
+      )}
+    </Stack>
+  );
+}
@@ -11,7 +11,7 @@
 import React from 'react';
 import { Badge, Divider, Stack, Group, Text, Title, ThemeIcon, Paper, Box, Tooltip, ActionIcon, useMantineColorScheme } from '@mantine/core';
 import type { Template, TemplateSection } from '@/types/template';
-import { FileText, MessageSquare, Lightbulb, Check, Copy, Quote } from 'lucide-react';
+import { FileText, MessageSquare, Lightbulb, Check, Copy, Quote, PackageOpen } from 'lucide-react';
 import { useClipboard } from '@mantine/hooks';
 
 interface TemplateSectionDetailProps {
@@ -155,6 +155,18 @@ export function TemplateDetail({ template, compact = false }: TemplateDetailProp
         </Paper>
       )}
 
+      {/* Provenance of imported templates */}
+      {template.source && (
+        <Group gap="xs" wrap="nowrap">
+          <PackageOpen size={14} style={{ color: 'var(--mantine-color-dimmed)', flexShrink: 0 }} />
+          <Text size="xs" c="dimmed">
+            Imported from {template.source.packageName ? `"${template.source.packageName}"` : template.source.filename ?? 'a template package'}{' '}
+            on {template.source.importedAt.toLocaleDateString()}
+            {template.source.originalName !== template.name && ` (originally "${template.source.originalName}")`}
+          </Text>
+        </Group>
+      )}
+
       {/* Output Types */}
       <Stack gap="xs">
         <Group gap="xs" align="center">
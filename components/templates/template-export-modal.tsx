@@ -0,0 +1,154 @@
+"use client";
+
+import * as React from "react";
+import {
+  Modal,
+  TextInput,
+  Button,
+  Stack,
+  Group,
+  Badge,
+  Checkbox,
+  Text,
+  ScrollArea,
+} from "@mantine/core";
+import { Download } from "lucide-react";
+import { notifications } from "@mantine/notifications";
+import { createDownloadBlob, MIME_TYPES, triggerDownload } from "@/lib/export";
+import {
+  createTemplatePackage,
+  generateTemplatePackageFilename,
+  serializeTemplatePackage,
+} from "@/lib/template-packages";
+import type { Template } from "@/types/template";
+
+interface TemplateExportModalProps {
+  opened: boolean;
+  onClose: () => void;
+  templates: Template[];
+  /** Templates selected when the modal opens */
+  initialSelection?: string[];
+}
+
+/**
+ * Template Export Modal
+ *
+ * Lets users pick templates and download them as a template package that
+ * can be imported into another installation.
+ */
+export function TemplateExportModal({
+  opened,
+  onClose,
+  templates,
+  initialSelection = [],
+}: TemplateExportModalProps) {
+  const [selected, setSelected] = React.useState<string[]>(initialSelection);
+  const [packageName, setPackageName] = React.useState("");
+
+  // Reset the form each time the modal opens
+  React.useEffect(() => {
+    if (opened) {
+      setSelected(initialSelection);
+      setPackageName("");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [opened]);
+
+  const allSelected = templates.length > 0 && selected.length === templates.length;
+
+  const handleExport = () => {
+    const chosen = templates.filter((template) => selected.includes(template.id));
+    if (chosen.length === 0) return;
+
+    try {
+      const templatePackage = createTemplatePackage(chosen, packageName);
+      const blob = createDownloadBlob(serializeTemplatePackage(templatePackage), MIME_TYPES.json);
+      triggerDownload(blob, generateTemplatePackageFilename(packageName));
+      notifications.show({
+        title: "Templates Exported",
+        message: `${chosen.length} template${chosen.length !== 1 ? "s" : ""} exported.`,
+        color: "green",
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error exporting templates:", error);
+      notifications.show({
+        title: "Export Failed",
+        message: error instanceof Error ? error.message : "Failed to export templates.",
+        color: "red",
+      });
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title="Export Templates"
+      size="lg"
+      padding="xl"
+    >
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Download templates as a package file. Sections, prompts, dependencies,
+          outputs and categories are included.
+        </Text>
+
+        <TextInput
+          label="Package name"
+          placeholder="e.g. Council meeting templates"
+          value={packageName}
+          onChange={(e) => setPackageName(e.currentTarget.value)}
+          maxLength={100}
+        />
+
+        <Stack gap="xs">
+          <Group justify="space-between">
+            <Text size="sm" fw={600}>
+              Templates ({selected.length} of {templates.length} selected)
+            </Text>
+            <Checkbox
+              label="Select all"
+              checked={allSelected}
+              indeterminate={selected.length > 0 && !allSelected}
+              onChange={() => setSelected(allSelected ? [] : templates.map((t) => t.id))}
+            />
+          </Group>
+          <ScrollArea.Autosize mah={320} type="auto">
+            <Checkbox.Group value={selected} onChange={setSelected}>
+              <Stack gap="xs">
+                {templates.map((template) => (
+                  <Checkbox
+                    key={template.id}
+                    value={template.id}
+                    label={
+                      <Group gap="xs" wrap="nowrap">
+                        <Text size="sm">{template.name}</Text>
+                        <Badge size="xs" variant="light" color={template.isCustom ? "blue" : "gray"}>
+                          {template.isCustom ? "Custom" : "Built-in"}
+                        </Badge>
+                      </Group>
+                    }
+                  />
+                ))}
+              </Stack>
+            </Checkbox.Group>
+          </ScrollArea.Autosize>
+        </Stack>
+
+        <Group justify="flex-end" mt="md">
+          <Button variant="default" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            leftSection={<Download size={16} />}
+            onClick={handleExport}
+            disabled={selected.length === 0}
+          >
+            Export
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
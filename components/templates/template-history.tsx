@@ -0,0 +1,98 @@
+/**
+ * Template History Component
+ *
+ * Lists a template's revisions and compares any two of them.
+ */
+
+'use client';
+
+import React from 'react';
+import { Alert, Group, Paper, Select, Stack, Text, Title } from '@mantine/core';
+import { History, Info } from 'lucide-react';
+import { useTemplateRevisions } from '@/hooks/use-templates';
+import { TemplateRevisionDiff } from '@/components/templates/template-revision-diff';
+import type { Template } from '@/types/template';
+
+export interface TemplateHistoryProps {
+  template: Template;
+}
+
+/**
+ * Revision history of a template with a version comparison
+ *
+ * Compares the previous version with the current one by default.
+ */
+export function TemplateHistory({ template }: TemplateHistoryProps) {
+  const { revisions, isLoading } = useTemplateRevisions(template.id);
+  const [fromVersion, setFromVersion] = React.useState<string | null>(null);
+  const [toVersion, setToVersion] = React.useState<string | null>(null);
+
+  // Default to comparing the two most recent versions whenever history changes
+  React.useEffect(() => {
+    if (revisions.length < 2) return;
+    setFromVersion(String(revisions[revisions.length - 2].version));
+    setToVersion(String(revisions[revisions.length - 1].version));
+  }, [revisions]);
+
+  if (isLoading) return null;
+
+  const options = [...revisions].reverse().map((revision) => ({
+    value: String(revision.version),
+    label: `Version ${revision.version} · ${revision.createdAt.toLocaleDateString()}`,
+  }));
+  const before = revisions.find((revision) => String(revision.version) === fromVersion);
+  const after = revisions.find((revision) => String(revision.version) === toVersion);
+
+  return (
+    <Stack gap="md">
+      <Group gap="xs" align="center">
+        <History size={16} style={{ color: 'var(--mantine-color-dimmed)' }} />
+        <Title order={4} size="h5">
+          Version History
+        </Title>
+      </Group>
+
+      {revisions.length < 2 ? (
+        <Alert variant="light" color="blue" icon={<Info size={16} />}>
+          {revisions.length === 0
+            ? 'No revisions recorded yet. A revision is saved each time the template is edited.'
+            : `Only version ${revisions[0].version} exists so far. Each edit to the template creates a new version.`}
+        </Alert>
+      ) : (
+        <Paper p="md" withBorder>
+          <Stack gap="md">
+            <Group gap="sm" grow>
+              <Select
+                label="Compare"
+                data={options}
+                value={fromVersion}
+                onChange={setFromVersion}
+                allowDeselect={false}
+                size="xs"
+              />
+              <Select
+                label="With"
+                data={options}
+                value={toVersion}
+                onChange={setToVersion}
+                allowDeselect={false}
+                size="xs"
+              />
+            </Group>
+            {before && after && (
+              before.version <= after.version
+                ? <TemplateRevisionDiff before={before} after={after} />
+                : <TemplateRevisionDiff before={after} after={before} />
+            )}
+          </Stack>
+        </Paper>
+      )}
+
+      {revisions.length > 0 && (
+        <Text size="xs" c="dimmed">
+          Current version: {template.version ?? revisions[revisions.length - 1].version}
+        </Text>
+      )}
+    </Stack>
+  );
+}
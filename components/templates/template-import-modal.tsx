@@ -0,0 +1,273 @@
+"use client";
+
+import * as React from "react";
+import {
+  Modal,
+  Button,
+  Stack,
+  Group,
+  Badge,
+  Text,
+  Alert,
+  Select,
+  Paper,
+  ScrollArea,
+  SegmentedControl,
+  List,
+  Loader,
+} from "@mantine/core";
+import { AlertCircle, Upload } from "lucide-react";
+import { notifications } from "@mantine/notifications";
+import {
+  applyTemplateImport,
+  parseTemplatePackage,
+  planTemplateImport,
+  type ParsedTemplatePackage,
+  type TemplateConflictStrategy,
+  type TemplateImportAction,
+  type TemplateImportItem,
+} from "@/lib/template-packages";
+import type { Template } from "@/types/template";
+
+interface TemplateImportModalProps {
+  /** Package file to import; the modal is open while a file is set */
+  file: File | null;
+  onClose: () => void;
+  /** Templates already in the library */
+  templates: Template[];
+}
+
+const STRATEGY_OPTIONS: { value: TemplateConflictStrategy; label: string }[] = [
+  { value: "rename", label: "Import as copy" },
+  { value: "replace", label: "Replace existing" },
+  { value: "skip", label: "Skip" },
+];
+
+const ACTION_BADGES: Record<TemplateImportAction, { label: string; color: string }> = {
+  create: { label: "New", color: "green" },
+  rename: { label: "Copy", color: "blue" },
+  replace: { label: "Replace", color: "orange" },
+  skip: { label: "Skip", color: "gray" },
+};
+
+/**
+ * Describes why a packaged template conflicts with the library
+ */
+function describeConflict(item: TemplateImportItem): string | null {
+  const parts: string[] = [];
+  if (item.idConflict) parts.push(`same ID as "${item.idConflict.name}"`);
+  if (item.nameConflict) parts.push(`same name as an existing template`);
+  if (parts.length === 0 && item.action !== "create") parts.push("duplicated within the package");
+  return parts.length > 0 ? `Conflict: ${parts.join(", ")}` : null;
+}
+
+/**
+ * Template Import Modal
+ *
+ * Reads a template package, previews what importing it would change and
+ * lets users choose how conflicting templates are handled before saving.
+ */
+export function TemplateImportModal({ file, onClose, templates }: TemplateImportModalProps) {
+  const [parsed, setParsed] = React.useState<ParsedTemplatePackage | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [strategy, setStrategy] = React.useState<TemplateConflictStrategy>("rename");
+  const [overrides, setOverrides] = React.useState<Record<number, TemplateConflictStrategy>>({});
+  const [isImporting, setIsImporting] = React.useState(false);
+
+  // Read and validate the package whenever a new file is chosen
+  React.useEffect(() => {
+    setParsed(null);
+    setError(null);
+    setStrategy("rename");
+    setOverrides({});
+    if (!file) return;
+
+    let cancelled = false;
+    file
+      .text()
+      .then((content) => {
+        if (!cancelled) setParsed(parseTemplatePackage(content));
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to read template package.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const plan = React.useMemo(
+    () =>
+      parsed &&
+      planTemplateImport(parsed, templates, {
+        strategy,
+        overrides,
+        filename: file?.name,
+      }),
+    [parsed, templates, strategy, overrides, file]
+  );
+
+  const importCount = plan ? plan.items.length - plan.counts.skip : 0;
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    try {
+      const saved = await applyTemplateImport(plan);
+      notifications.show({
+        title: "Templates Imported",
+        message: `${saved} template${saved !== 1 ? "s" : ""} imported${
+          plan.counts.skip > 0 ? `, ${plan.counts.skip} skipped` : ""
+        }.`,
+        color: "green",
+      });
+      onClose();
+    } catch (err) {
+      console.error("Error importing templates:", err);
+      notifications.show({
+        title: "Import Failed",
+        message: err instanceof Error ? err.message : "Failed to import templates.",
+        color: "red",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      opened={file !== null}
+      onClose={onClose}
+      title="Import Templates"
+      size="lg"
+      padding="xl"
+    >
+      <Stack gap="md">
+        {error && (
+          <Alert icon={<AlertCircle size={16} />} color="red" variant="light">
+            {error}
+          </Alert>
+        )}
+
+        {!error && !plan && (
+          <Group justify="center" py="xl">
+            <Loader size="sm" />
+          </Group>
+        )}
+
+        {parsed && plan && (
+          <>
+            <Text size="sm" c="dimmed">
+              {parsed.name ? `"${parsed.name}"` : file?.name} contains{" "}
+              {parsed.templates.length + parsed.issues.length} template
+              {parsed.templates.length + parsed.issues.length !== 1 ? "s" : ""}, exported{" "}
+              {parsed.exportedAt.toLocaleDateString()}.
+            </Text>
+
+            {parsed.issues.length > 0 && (
+              <Alert icon={<AlertCircle size={16} />} color="yellow" variant="light" title="Invalid templates will be skipped">
+                <List size="sm" spacing={4}>
+                  {parsed.issues.map((issue) => (
+                    <List.Item key={issue.index}>
+                      {issue.name ?? `Template ${issue.index + 1}`}: {issue.errors.slice(0, 3).join("; ")}
+                      {issue.errors.length > 3 && ` (+${issue.errors.length - 3} more)`}
+                    </List.Item>
+                  ))}
+                </List>
+              </Alert>
+            )}
+
+            {plan.items.some((item) => item.action !== "create") && (
+              <Stack gap={4}>
+                <Text size="sm" fw={600}>
+                  When a template already exists
+                </Text>
+                <SegmentedControl
+                  value={strategy}
+                  onChange={(value) => {
+                    setStrategy(value as TemplateConflictStrategy);
+                    setOverrides({});
+                  }}
+                  data={STRATEGY_OPTIONS}
+                  size="sm"
+                />
+              </Stack>
+            )}
+
+            <ScrollArea.Autosize mah={360} type="auto">
+              <Stack gap="xs">
+                {plan.items.map((item, index) => {
+                  const conflict = describeConflict(item);
+                  const badge = ACTION_BADGES[item.action];
+                  return (
+                    <Paper key={`${item.incoming.id}-${index}`} p="sm" withBorder>
+                      <Group justify="space-between" align="flex-start" wrap="nowrap">
+                        <Stack gap={2} style={{ flex: 1, minWidth: 0 }}>
+                          <Group gap="xs" wrap="nowrap">
+                            <Text size="sm" fw={600} truncate>
+                              {item.incoming.name}
+                            </Text>
+                            <Badge size="xs" variant="light" color={badge.color}>
+                              {badge.label}
+                            </Badge>
+                          </Group>
+                          <Text size="xs" c="dimmed">
+                            {item.incoming.sections.length} section
+                            {item.incoming.sections.length !== 1 ? "s" : ""} · {item.incoming.category}
+                          </Text>
+                          {conflict && (
+                            <Text size="xs" c="orange">
+                              {conflict}
+                            </Text>
+                          )}
+                          {item.result && item.result.name !== item.incoming.name && (
+                            <Text size="xs" c="dimmed">
+                              Will be saved as &quot;{item.result.name}&quot;
+                            </Text>
+                          )}
+                        </Stack>
+                        {conflict && (
+                          <Select
+                            value={overrides[index] ?? strategy}
+                            onChange={(value) =>
+                              value &&
+                              setOverrides((prev) => ({ ...prev, [index]: value as TemplateConflictStrategy }))
+                            }
+                            data={STRATEGY_OPTIONS}
+                            size="xs"
+                            style={{ minWidth: 150 }}
+                            allowDeselect={false}
+                            comboboxProps={{ withinPortal: true }}
+                          />
+                        )}
+                      </Group>
+                    </Paper>
+                  );
+                })}
+              </Stack>
+            </ScrollArea.Autosize>
+
+            <Text size="xs" c="dimmed">
+              Built-in templates are never replaced; conflicting templates are imported as copies instead.
+            </Text>
+          </>
+        )}
+
+        <Group justify="flex-end" mt="md">
+          <Button variant="default" onClick={onClose} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button
+            leftSection={<Upload size={16} />}
+            onClick={handleImport}
+            loading={isImporting}
+            disabled={!plan || importCount === 0}
+          >
+            Import {importCount > 0 ? importCount : ""} Template{importCount !== 1 ? "s" : ""}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Template Revision Diff Component
+ *
+ * Shows what changed between two template revisions: template fields,
+ * added and removed sections, section settings and word-level prompt
+ * changes.
+ */
+
+'use client';
+
+import React, { useMemo } from 'react';
+import { Alert, Badge, Box, Group, Stack, Switch, Text } from '@mantine/core';
+import { Info } from 'lucide-react';
+import { diffTemplateRevisions, type TemplateSectionDiff } from '@/lib/template-revisions';
+import { diffText, type DiffPart } from '@/lib/segment-editing';
+import type { TemplateRevision } from '@/types/template';
+
+export interface TemplateRevisionDiffProps {
+  /** Older revision */
+  before: TemplateRevision;
+  /** Newer revision */
+  after: TemplateRevision;
+}
+
+const FIELD_LABELS = {
+  name: 'Name',
+  description: 'Description',
+  icon: 'Icon',
+  category: 'Category',
+  outputs: 'Outputs',
+  variables: 'Prompt variables',
+} as const;
+
+const STATUS_COLORS: Record<TemplateSectionDiff['status'], string> = {
+  added: 'green',
+  removed: 'red',
+  changed: 'orange',
+  unchanged: 'gray',
+};
+
+/**
+ * Renders word-level diff parts with insertions and deletions highlighted
+ */
+function DiffText({ parts }: { parts: DiffPart[] }) {
+  return (
+    <Text size="sm" style={{ lineHeight: 1.6 }}>
+      {parts.map((part, i) => {
+        if (part.type === 'equal') {
+          return <span key={i}>{part.text} </span>;
+        }
+        if (part.type === 'insert') {
+          return (
+            <ins
+              key={i}
+              style={{
+                backgroundColor: 'var(--mantine-color-green-light)',
+                textDecoration: 'none',
+              }}
+            >
+              {part.text}{' '}
+            </ins>
+          );
+        }
+        return (
+          <del
+            key={i}
+            style={{
+              backgroundColor: 'var(--mantine-color-red-light)',
+              color: 'var(--mantine-color-dimmed)',
+            }}
+          >
+            {part.text}{' '}
+          </del>
+        );
+      })}
+    </Text>
+  );
+}
+
+/**
+ * Summary of the changes between two template revisions
+ */
+export function TemplateRevisionDiff({ before, after }: TemplateRevisionDiffProps) {
+  const [changedOnly, setChangedOnly] = React.useState(true);
+  const diff = useMemo(
+    () => diffTemplateRevisions(before.content, after.content),
+    [before, after]
+  );
+
+  const sections = changedOnly
+    ? diff.sections.filter((section) => section.status !== 'unchanged')
+    : diff.sections;
+
+  if (!diff.changed) {
+    return (
+      <Alert variant="light" color="blue" icon={<Info size={16} />}>
+        Version {before.version} and version {after.version} are identical.
+      </Alert>
+    );
+  }
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Text size="sm" c="dimmed">
+          Changes from version {before.version} to version {after.version}
+        </Text>
+        <Switch
+          size="xs"
+          label="Changed sections only"
+          checked={changedOnly}
+          onChange={(e) => setChangedOnly(e.currentTarget.checked)}
+        />
+      </Group>
+
+      {diff.fields.map((change) => (
+        <Box key={change.field}>
+          <Text size="xs" fw={600} c="dimmed" tt="uppercase" mb={2}>
+            {FIELD_LABELS[change.field]}
+          </Text>
+          {change.field === 'description' ? (
+            <DiffText parts={diffText(change.before, change.after)} />
+          ) : (
+            <Text size="sm">
+              {change.before} → {change.after}
+            </Text>
+          )}
+        </Box>
+      ))}
+
+      {sections.map((section) => (
+        <Box
+          key={section.sectionId}
+          p="sm"
+          style={{
+            border: '1px solid var(--mantine-color-default-border)',
+            borderRadius: 'var(--mantine-radius-md)',
+          }}
+        >
+          <Group gap="xs" mb={4}>
+            <Text size="sm" fw={600}>
+              {section.name}
+            </Text>
+            <Badge size="xs" variant="light" color={STATUS_COLORS[section.status]}>
+              {section.status}
+            </Badge>
+          </Group>
+          {section.changes.map((change) => (
+            <Text key={change} size="xs" c="dimmed">
+              {change}
+            </Text>
+          ))}
+          {section.promptDiff && (
+            <Box mt={4}>
+              <DiffText parts={section.promptDiff} />
+            </Box>
+          )}
+        </Box>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,363 @@
+/**
+ * Template Test Bench Component
+ *
+ * Runs one section or the whole template, including unsaved edits, against
+ * sample transcripts. Each output is shown next to the previous revision's
+ * output with its token cost, and can be saved as the golden output that
+ * later runs are scored against.
+ */
+
+'use client';
+
+import React from 'react';
+import {
+  ActionIcon,
+  Alert,
+  Badge,
+  Button,
+  Group,
+  List,
+  MultiSelect,
+  Paper,
+  Select,
+  SimpleGrid,
+  Stack,
+  Text,
+  TextInput,
+  Title,
+  Tooltip,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { AlertTriangle, FlaskConical, Play, Star, Trash2 } from 'lucide-react';
+import { useTranscripts } from '@/hooks/use-transcripts';
+import { useTemplateBench } from '@/hooks/use-template-bench';
+import { findBaselineRun } from '@/lib/template-bench';
+import { isBuiltInTemplateVariable, type TemplateVariableValues } from '@/lib/template-variables';
+import type { Template } from '@/types/template';
+import type { TemplateBenchRun, TemplateGoldenOutput, TokenUsage } from '@/types/template-bench';
+
+/** Most transcripts one bench run can use, to keep the token cost in view */
+const MAX_BENCH_TRANSCRIPTS = 3;
+
+/** Value of the section picker that runs every section */
+const ALL_SECTIONS = 'all';
+
+export interface TemplateTestBenchProps {
+  /** Template as stored */
+  savedTemplate: Template;
+  /** Template with the editor's unsaved changes */
+  draftTemplate: Template;
+  disabled?: boolean;
+}
+
+/**
+ * Formats token usage for display
+ */
+function formatUsage(usage: TokenUsage): string {
+  return (
+    `${usage.totalTokens.toLocaleString()} tokens ` +
+    `(${usage.promptTokens.toLocaleString()} prompt, ${usage.completionTokens.toLocaleString()} completion)`
+  );
+}
+
+/**
+ * Label for the template version a run used
+ */
+function describeRun(run: Pick<TemplateBenchRun, 'templateVersion' | 'draft'>): string {
+  return run.draft ? `Unsaved edits to version ${run.templateVersion}` : `Version ${run.templateVersion}`;
+}
+
+/**
+ * Scrollable section output
+ */
+function OutputPane({ label, content, empty }: { label: string; content?: string; empty: string }) {
+  return (
+    <Stack gap={4}>
+      <Text size="xs" fw={600} c="dimmed" tt="uppercase">
+        {label}
+      </Text>
+      <Paper p="sm" withBorder bg="var(--mantine-color-default-hover)" mah={280} style={{ overflowY: 'auto' }}>
+        {content ? (
+          <Text size="sm" style={{ whiteSpace: 'pre-wrap' }}>
+            {content}
+          </Text>
+        ) : (
+          <Text size="sm" c="dimmed" fs="italic">
+            {empty}
+          </Text>
+        )}
+      </Paper>
+    </Stack>
+  );
+}
+
+/**
+ * Test bench for trying template prompts on sample transcripts
+ */
+export function TemplateTestBench({ savedTemplate, draftTemplate, disabled }: TemplateTestBenchProps) {
+  const { transcripts } = useTranscripts();
+  const {
+    runs,
+    goldenOutputs,
+    isDraft,
+    running,
+    error,
+    scoringError,
+    lastUsage,
+    runBench,
+    saveGoldenOutput,
+    deleteGoldenOutput,
+  } = useTemplateBench(savedTemplate, draftTemplate);
+
+  const [transcriptIds, setTranscriptIds] = React.useState<string[]>([]);
+  const [sectionChoice, setSectionChoice] = React.useState<string>(ALL_SECTIONS);
+  const [variables, setVariables] = React.useState<TemplateVariableValues>({});
+
+  // Sections can be removed while editing
+  const sectionId = draftTemplate.sections.some((section) => section.id === sectionChoice)
+    ? sectionChoice
+    : ALL_SECTIONS;
+  const shownSections =
+    sectionId === ALL_SECTIONS
+      ? draftTemplate.sections
+      : draftTemplate.sections.filter((section) => section.id === sectionId);
+  const selectedTranscripts = transcripts.filter((transcript) => transcriptIds.includes(transcript.id));
+  const customVariables = (draftTemplate.variables ?? []).filter(
+    (variable) => variable.name.trim() && !isBuiltInTemplateVariable(variable.name.trim())
+  );
+
+  const handleRun = () =>
+    runBench({
+      transcripts: selectedTranscripts,
+      sectionIds: sectionId === ALL_SECTIONS ? undefined : [sectionId],
+      variables,
+    });
+
+  const handleSaveGolden = async (transcriptId: string, run: TemplateBenchRun, outputSectionId: string) => {
+    const output = run.sections.find((section) => section.sectionId === outputSectionId);
+    if (!output) return;
+    try {
+      await saveGoldenOutput(transcriptId, output);
+      notifications.show({
+        title: 'Golden output saved',
+        message: `Later runs of "${output.name}" on this transcript will be scored against this output`,
+        color: 'green',
+      });
+    } catch (err) {
+      notifications.show({
+        title: 'Error',
+        message: err instanceof Error ? err.message : 'Failed to save golden output',
+        color: 'red',
+      });
+    }
+  };
+
+  // Latest run per transcript that includes a section
+  const findLatestRun = (transcriptId: string, outputSectionId: string) =>
+    [...runs]
+      .reverse()
+      .find(
+        (run) =>
+          run.transcriptId === transcriptId &&
+          run.sections.some((section) => section.sectionId === outputSectionId)
+      );
+
+  const findGolden = (transcriptId: string, outputSectionId: string): TemplateGoldenOutput | undefined =>
+    goldenOutputs.find(
+      (output) => output.transcriptId === transcriptId && output.sectionId === outputSectionId
+    );
+
+  return (
+    <Stack gap="md">
+      <div>
+        <Group gap="xs" align="center">
+          <FlaskConical size={16} style={{ color: 'var(--mantine-color-dimmed)' }} />
+          <Title order={4} size="h5">
+            Test Bench
+          </Title>
+          {isDraft && (
+            <Badge variant="light" color="yellow" size="sm">
+              Unsaved edits
+            </Badge>
+          )}
+        </Group>
+        <Text c="dimmed" size="sm" mt={4}>
+          Run sections against sample transcripts to compare with the previous version before saving.
+          Save an output as golden to score later runs against it.
+        </Text>
+      </div>
+
+      <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+        <MultiSelect
+          label="Sample Transcripts"
+          placeholder={transcriptIds.length === 0 ? 'Choose transcripts' : undefined}
+          data={transcripts.map((transcript) => ({ value: transcript.id, label: transcript.filename }))}
+          value={transcriptIds}
+          onChange={setTranscriptIds}
+          maxValues={MAX_BENCH_TRANSCRIPTS}
+          description={`Up to ${MAX_BENCH_TRANSCRIPTS} transcripts per run`}
+          nothingFoundMessage="No transcripts found"
+          searchable
+          disabled={disabled || running}
+        />
+        <Select
+          label="Sections"
+          data={[
+            { value: ALL_SECTIONS, label: 'All sections' },
+            ...draftTemplate.sections.map((section, index) => ({
+              value: section.id,
+              label: section.name.trim() || `Section ${index + 1}`,
+            })),
+          ]}
+          value={sectionId}
+          onChange={(value) => setSectionChoice(value ?? ALL_SECTIONS)}
+          description="Run one section to keep the token cost down"
+          allowDeselect={false}
+          disabled={disabled || running}
+        />
+      </SimpleGrid>
+
+      {customVariables.length > 0 && (
+        <SimpleGrid cols={{ base: 1, sm: 2 }} spacing="sm">
+          {customVariables.map((variable) => (
+            <TextInput
+              key={variable.name}
+              label={<Text span size="sm" ff="monospace">{`{{${variable.name.trim()}}}`}</Text>}
+              description={variable.description}
+              placeholder={variable.defaultValue || 'Enter a value'}
+              value={variables[variable.name.trim()] ?? ''}
+              onChange={(e) => setVariables({ ...variables, [variable.name.trim()]: e.currentTarget.value })}
+              disabled={disabled || running}
+              size="sm"
+            />
+          ))}
+        </SimpleGrid>
+      )}
+
+      <Group justify="space-between">
+        <Text size="sm" c="dimmed">
+          {lastUsage ? `Last run used ${formatUsage(lastUsage)}` : ''}
+        </Text>
+        <Button
+          leftSection={<Play size={16} />}
+          onClick={handleRun}
+          loading={running}
+          disabled={disabled || selectedTranscripts.length === 0 || shownSections.length === 0}
+        >
+          {sectionId === ALL_SECTIONS ? 'Run Template' : 'Run Section'}
+        </Button>
+      </Group>
+
+      {error && (
+        <Alert variant="light" color="red" icon={<AlertTriangle size={16} />}>
+          {error}
+        </Alert>
+      )}
+      {scoringError && (
+        <Alert variant="light" color="yellow" icon={<AlertTriangle size={16} />}>
+          Outputs were saved, but scoring against golden outputs failed: {scoringError}
+        </Alert>
+      )}
+
+      {selectedTranscripts.map((transcript) => (
+        <Stack key={transcript.id} gap="sm">
+          <Text fw={600} size="sm">
+            {transcript.filename}
+          </Text>
+
+          {shownSections.map((section) => {
+            const run = findLatestRun(transcript.id, section.id);
+            const output = run?.sections.find((s) => s.sectionId === section.id);
+            const baseline = run && findBaselineRun(runs, transcript.id, section.id, run);
+            const previous = baseline?.sections.find((s) => s.sectionId === section.id);
+            const score = run?.scores?.find((s) => s.sectionId === section.id);
+            const golden = findGolden(transcript.id, section.id);
+
+            return (
+              <Paper key={section.id} p="md" withBorder>
+                <Stack gap="sm">
+                  <Group justify="space-between" wrap="nowrap">
+                    <Group gap="xs">
+                      <Text size="sm" fw={600}>
+                        {section.name.trim() || 'Untitled section'}
+                      </Text>
+                      {score && (
+                        <Tooltip label={score.reasoning} multiline w={320}>
+                          <Badge
+                            variant="light"
+                            color={score.score >= 8 ? 'green' : score.score >= 5 ? 'yellow' : 'red'}
+                          >
+                            Golden match {score.score}/10
+                          </Badge>
+                        </Tooltip>
+                      )}
+                    </Group>
+                    <Group gap="xs" wrap="nowrap">
+                      {golden && (
+                        <Tooltip label="Delete golden output">
+                          <ActionIcon
+                            variant="subtle"
+                            color="red"
+                            onClick={() => deleteGoldenOutput(golden.id)}
+                            aria-label="Delete golden output"
+                          >
+                            <Trash2 size={16} />
+                          </ActionIcon>
+                        </Tooltip>
+                      )}
+                      <Button
+                        size="xs"
+                        variant="light"
+                        leftSection={<Star size={14} />}
+                        onClick={() => run && handleSaveGolden(transcript.id, run, section.id)}
+                        disabled={!output?.content || output.content === golden?.content}
+                      >
+                        {golden ? 'Replace Golden' : 'Save as Golden'}
+                      </Button>
+                    </Group>
+                  </Group>
+
+                  <SimpleGrid cols={{ base: 1, md: golden ? 3 : 2 }} spacing="sm">
+                    <OutputPane
+                      label={run ? describeRun(run) : 'Output'}
+                      content={output?.content}
+                      empty="Not run on this transcript yet"
+                    />
+                    <OutputPane
+                      label={baseline ? `Previous: ${describeRun(baseline)}` : 'Previous version'}
+                      content={previous?.content}
+                      empty="No previous version has been run on this transcript"
+                    />
+                    {golden && (
+                      <OutputPane label="Golden output" content={golden.content} empty="Empty golden output" />
+                    )}
+                  </SimpleGrid>
+
+                  {score && score.missing.length > 0 && (
+                    <div>
+                      <Text size="xs" fw={600} c="dimmed">
+                        Missing from the golden output
+                      </Text>
+                      <List size="xs">
+                        {score.missing.map((point, index) => (
+                          <List.Item key={index}>{point}</List.Item>
+                        ))}
+                      </List>
+                    </div>
+                  )}
+
+                  {run && (
+                    <Text size="xs" c="dimmed">
+                      Run {run.createdAt.toLocaleString()} · {formatUsage(run.usage)}
+                      {run.sections.length > 1 && ` across ${run.sections.length} sections`}
+                    </Text>
+                  )}
+                </Stack>
+              </Paper>
+            );
+          })}
+        </Stack>
+      ))}
+    </Stack>
+  );
+}
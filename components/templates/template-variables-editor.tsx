@@ -0,0 +1,116 @@
+/**
+ * Template Variables Editor Component
+ *
+ * Lists the built-in prompt variables and lets users declare their own,
+ * each with an optional default value and a hint shown when the value is
+ * entered before analysis.
+ */
+
+'use client';
+
+import React from 'react';
+import { ActionIcon, Badge, Button, Group, Stack, Text, TextInput, Title, Tooltip } from '@mantine/core';
+import { Braces, Plus, Trash2 } from 'lucide-react';
+import { BUILT_IN_TEMPLATE_VARIABLES, type TemplateVariableIssue } from '@/lib/template-variables';
+import type { TemplateVariable } from '@/types/template';
+
+export interface TemplateVariablesEditorProps {
+  variables: TemplateVariable[];
+  onChange: (variables: TemplateVariable[]) => void;
+  /** Validation issues from validateTemplateVariables */
+  issues: TemplateVariableIssue[];
+  disabled?: boolean;
+}
+
+/**
+ * Editor for a template's user-defined prompt variables
+ */
+export function TemplateVariablesEditor({ variables, onChange, issues, disabled }: TemplateVariablesEditorProps) {
+  const handleUpdate = (index: number, field: keyof TemplateVariable, value: string) => {
+    onChange(variables.map((variable, i) => (i === index ? { ...variable, [field]: value } : variable)));
+  };
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <div>
+          <Group gap="xs" align="center">
+            <Braces size={16} style={{ color: 'var(--mantine-color-dimmed)' }} />
+            <Title order={4} size="h5">
+              Prompt Variables
+            </Title>
+          </Group>
+          <Text c="dimmed" size="sm" mt={4}>
+            Reference variables in section prompts as {'{{name}}'}. They&apos;re filled in when
+            an analysis runs.
+          </Text>
+        </div>
+        <Button
+          variant="light"
+          leftSection={<Plus size={16} />}
+          onClick={() => onChange([...variables, { name: '' }])}
+          disabled={disabled}
+        >
+          Add Variable
+        </Button>
+      </Group>
+
+      <Group gap="xs">
+        <Text size="xs" fw={600} c="dimmed" tt="uppercase">
+          Built-in
+        </Text>
+        {BUILT_IN_TEMPLATE_VARIABLES.map((variable) => (
+          <Tooltip key={variable.name} label={variable.description}>
+            <Badge variant="light" color="gray" tt="none" ff="monospace">
+              {`{{${variable.name}}}`}
+            </Badge>
+          </Tooltip>
+        ))}
+      </Group>
+
+      {variables.map((variable, index) => {
+        const issue = issues.find((i) => !i.sectionId && i.variable === variable.name.trim());
+        return (
+          <Group key={index} align="flex-start" gap="sm" wrap="nowrap">
+            <TextInput
+              label={index === 0 ? 'Name' : undefined}
+              placeholder="program"
+              value={variable.name}
+              onChange={(e) => handleUpdate(index, 'name', e.target.value)}
+              error={issue?.message}
+              disabled={disabled}
+              ff="monospace"
+              style={{ flex: 1 }}
+            />
+            <TextInput
+              label={index === 0 ? 'Default Value' : undefined}
+              placeholder="Optional"
+              value={variable.defaultValue ?? ''}
+              onChange={(e) => handleUpdate(index, 'defaultValue', e.target.value)}
+              disabled={disabled}
+              style={{ flex: 1 }}
+            />
+            <TextInput
+              label={index === 0 ? 'Hint' : undefined}
+              placeholder="e.g., Program the meeting covers"
+              value={variable.description ?? ''}
+              onChange={(e) => handleUpdate(index, 'description', e.target.value)}
+              disabled={disabled}
+              style={{ flex: 2 }}
+            />
+            <ActionIcon
+              color="red"
+              variant="subtle"
+              mt={index === 0 ? 28 : 4}
+              onClick={() => onChange(variables.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label="Remove variable"
+            >
+              <Trash2 size={16} />
+            </ActionIcon>
+          </Group>
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,224 @@
+/**
+ * Edit History Bar Component
+ *
+ * Toolbar shown above the transcript viewer with undo/redo controls,
+ * the revision count, and a modal comparing the edited transcript
+ * against the original machine output.
+ */
+
+'use client';
+
+import React, { useState, useMemo } from 'react';
+import {
+  Group,
+  Button,
+  Text,
+  Badge,
+  Modal,
+  Stack,
+  Box,
+  ScrollArea,
+  Switch,
+  Alert,
+} from '@mantine/core';
+import { Undo2, Redo2, GitCompare, Info } from 'lucide-react';
+import { notifications } from '@mantine/notifications';
+import { formatTimestamp } from '@/lib/transcript-utils';
+import { summarizeSegmentDiff, type SegmentDiff } from '@/lib/segment-editing';
+import type { TranscriptEditorControls } from '@/hooks/use-transcript-editor';
+
+export interface EditHistoryBarProps {
+  /** Editor controls from useTranscriptEditor */
+  editor: TranscriptEditorControls;
+}
+
+/**
+ * Undo/redo toolbar with a "compare to original" modal
+ */
+export function EditHistoryBar({ editor }: EditHistoryBarProps) {
+  const [isDiffOpen, setIsDiffOpen] = useState(false);
+
+  const run = async (action: () => Promise<void>, label: string) => {
+    try {
+      await action();
+    } catch (error) {
+      notifications.show({
+        title: `${label} Failed`,
+        message: error instanceof Error ? error.message : `Failed to ${label.toLowerCase()}`,
+        color: 'red',
+      });
+    }
+  };
+
+  const lastRevision = editor.currentPosition >= 0
+    ? editor.revisions[editor.currentPosition]
+    : undefined;
+
+  return (
+    <>
+      <Group
+        justify="space-between"
+        px="md"
+        py="xs"
+        style={{
+          backgroundColor: 'var(--mantine-color-default)',
+          borderBottom: '1px solid var(--mantine-color-default-border)',
+        }}
+      >
+        <Group gap="xs">
+          <Button
+            size="xs"
+            variant="default"
+            leftSection={<Undo2 size={14} />}
+            onClick={() => run(editor.undo, 'Undo')}
+            disabled={!editor.canUndo || editor.isSaving}
+          >
+            Undo
+          </Button>
+          <Button
+            size="xs"
+            variant="default"
+            leftSection={<Redo2 size={14} />}
+            onClick={() => run(editor.redo, 'Redo')}
+            disabled={!editor.canRedo || editor.isSaving}
+          >
+            Redo
+          </Button>
+          {lastRevision && (
+            <Text size="xs" c="dimmed" lineClamp={1}>
+              Last edit: {lastRevision.description}
+            </Text>
+          )}
+        </Group>
+
+        <Group gap="xs">
+          {editor.hasEdits && (
+            <Badge variant="light" color="orange" size="sm">
+              Edited ({editor.currentPosition + 1} of {editor.revisions.length} revisions)
+            </Badge>
+          )}
+          <Button
+            size="xs"
+            variant="subtle"
+            leftSection={<GitCompare size={14} />}
+            onClick={() => setIsDiffOpen(true)}
+            disabled={!editor.hasEdits}
+          >
+            Compare to original
+          </Button>
+        </Group>
+      </Group>
+
+      <Modal
+        opened={isDiffOpen}
+        onClose={() => setIsDiffOpen(false)}
+        title="Changes from machine transcription"
+        size="xl"
+      >
+        {isDiffOpen && <TranscriptDiffView diffs={editor.getDiff()} />}
+      </Modal>
+    </>
+  );
+}
+
+interface TranscriptDiffViewProps {
+  diffs: SegmentDiff[];
+}
+
+/**
+ * Renders a word-level diff of edited segments against the original output
+ */
+function TranscriptDiffView({ diffs }: TranscriptDiffViewProps) {
+  const [changedOnly, setChangedOnly] = useState(true);
+
+  const summary = useMemo(() => summarizeSegmentDiff(diffs), [diffs]);
+  const visible = useMemo(
+    () => (changedOnly ? diffs.filter((d) => d.textChanged || d.timingChanged) : diffs),
+    [diffs, changedOnly]
+  );
+
+  return (
+    <Stack gap="md">
+      <Group justify="space-between">
+        <Text size="sm" c="dimmed">
+          {summary.changedSegments} segment{summary.changedSegments === 1 ? '' : 's'} changed,{' '}
+          {summary.wordsInserted} word{summary.wordsInserted === 1 ? '' : 's'} added,{' '}
+          {summary.wordsDeleted} removed
+        </Text>
+        <Switch
+          size="sm"
+          label="Changed segments only"
+          checked={changedOnly}
+          onChange={(e) => setChangedOnly(e.currentTarget.checked)}
+        />
+      </Group>
+
+      {visible.length === 0 ? (
+        <Alert variant="light" color="blue" icon={<Info size={16} />}>
+          The transcript matches the original machine output.
+        </Alert>
+      ) : (
+        <ScrollArea.Autosize mah={500} type="auto">
+          <Stack gap="sm">
+            {visible.map((diff) => (
+              <Box
+                key={diff.index}
+                p="sm"
+                style={{
+                  border: '1px solid var(--mantine-color-default-border)',
+                  borderRadius: 'var(--mantine-radius-md)',
+                }}
+              >
+                <Group gap="xs" mb={4}>
+                  <Text
+                    size="xs"
+                    c="dimmed"
+                    style={{ fontFamily: 'var(--mantine-font-family-monospace)' }}
+                  >
+                    {formatTimestamp(diff.start)} – {formatTimestamp(diff.end)}
+                  </Text>
+                  {diff.timingChanged && (
+                    <Badge size="xs" variant="light" color="grape">
+                      Timing changed
+                    </Badge>
+                  )}
+                </Group>
+                <Text size="sm" style={{ lineHeight: 1.6 }}>
+                  {diff.parts.map((part, i) => {
+                    if (part.type === 'equal') {
+                      return <span key={i}>{part.text} </span>;
+                    }
+                    if (part.type === 'insert') {
+                      return (
+                        <ins
+                          key={i}
+                          style={{
+                            backgroundColor: 'var(--mantine-color-green-light)',
+                            textDecoration: 'none',
+                          }}
+                        >
+                          {part.text}{' '}
+                        </ins>
+                      );
+                    }
+                    return (
+                      <del
+                        key={i}
+                        style={{
+                          backgroundColor: 'var(--mantine-color-red-light)',
+                          color: 'var(--mantine-color-dimmed)',
+                        }}
+                      >
+                        {part.text}{' '}
+                      </del>
+                    );
+                  })}
+                </Text>
+              </Box>
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      )}
+    </Stack>
+  );
+}
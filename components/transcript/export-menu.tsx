@@ -2,14 +2,14 @@
  * Export Menu Component
  *
  * Dropdown menu for exporting transcripts in various formats.
- * Provides UI for TXT, JSON, SRT, and VTT export options with
+ * Provides UI for TXT, JSON, SRT, VTT, PDF and DOCX export options with
  * visual feedback and error handling.
  */
 
 "use client";
 
 import * as React from "react";
-import { Download, FileText, FileJson, FileVideo, File, type LucideIcon } from "lucide-react";
+import { Download, FileText, FileJson, FileVideo, File, FileType, CalendarDays, type LucideIcon } from "lucide-react";
 import { Button, Menu, Text, Box } from "@mantine/core";
 import { notifications } from '@mantine/notifications';
 import { Transcript } from "@/types";
@@ -53,6 +53,8 @@ const FORMAT_ICONS: Record<ExportFormat, LucideIcon> = {
   srt: FileVideo,
   vtt: FileVideo,
   pdf: File,
+  docx: FileType,
+  ics: CalendarDays,
 };
 
 /**
@@ -149,6 +151,26 @@ export function ExportMenu({
             });
             onExportError?.(format, result.error || "Unknown error");
           }
+        } else if (format === "docx") {
+          // Dynamically import the DOCX exporter so the docx library loads on demand
+          const { exportAndDownloadTranscriptDOCX } = await import("@/lib/docx/docx-exporter");
+          const result = await exportAndDownloadTranscriptDOCX(transcript);
+
+          if (result.success) {
+            notifications.show({
+              title: "Export Successful",
+              message: "Transcript exported as Word document",
+              color: "green",
+            });
+            onExportSuccess?.(format);
+          } else {
+            notifications.show({
+              title: "Export Failed",
+              message: result.error || "Failed to export Word document",
+              color: "red",
+            });
+            onExportError?.(format, result.error || "Unknown error");
+          }
         } else {
           // Handle standard exports (TXT, JSON, SRT, VTT)
           // Small delay to show loading state
@@ -0,0 +1,179 @@
+/**
+ * Import Transcripts Modal Component
+ *
+ * Lets users pick existing caption/transcript files (SRT, VTT, TXT, JSON),
+ * previews what was parsed from each file, and saves the valid ones to the
+ * library so they can be analyzed and chatted with like native transcripts.
+ */
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  FileInput,
+  Button,
+  Badge,
+  Paper,
+  Alert,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { AlertCircle, FileText, Upload } from 'lucide-react';
+import { importTranscriptFile, IMPORT_ACCEPT, type ImportResult } from '@/lib/import';
+import { saveTranscriptsBulk } from '@/lib/db';
+
+export interface ImportTranscriptsModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Called when the modal should close */
+  onClose: () => void;
+}
+
+/**
+ * Modal for importing caption and transcript files into the library
+ */
+export function ImportTranscriptsModal({ opened, onClose }: ImportTranscriptsModalProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start fresh each time the modal opens
+  useEffect(() => {
+    if (opened) {
+      setFiles([]);
+      setResults([]);
+    }
+  }, [opened]);
+
+  const handleFilesChange = async (selected: File[]) => {
+    setFiles(selected);
+    setIsParsing(true);
+    try {
+      setResults(await Promise.all(selected.map(importTranscriptFile)));
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const transcripts = results.flatMap((result) => result.transcripts);
+
+  const handleImport = async () => {
+    if (transcripts.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      await saveTranscriptsBulk(transcripts);
+      notifications.show({
+        title: 'Transcripts Imported',
+        message: `${transcripts.length} transcript${transcripts.length !== 1 ? 's' : ''} added to the library.`,
+        color: 'green',
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error importing transcripts:', error);
+      notifications.show({
+        title: 'Error',
+        message: 'Failed to save imported transcripts. Please try again.',
+        color: 'red',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Import Transcripts" size="lg" centered>
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          Import captions (SRT, WebVTT), plain text transcripts, or JSON files exported
+          from this app. Speaker labels and voice tags are kept.
+        </Text>
+
+        <FileInput
+          multiple
+          accept={IMPORT_ACCEPT}
+          value={files}
+          onChange={handleFilesChange}
+          placeholder="Select files..."
+          leftSection={<FileText size={16} />}
+          clearable
+          styles={{ input: { minHeight: 44 } }}
+        />
+
+        {results.length > 0 && (
+          <Stack gap="xs">
+            {results.map((result, i) => (
+              <Paper key={`${result.source}-${i}`} p="sm" radius="md" withBorder>
+                <Group justify="space-between" wrap="nowrap" gap="sm">
+                  <Text size="sm" fw={500} lineClamp={1} style={{ minWidth: 0 }}>
+                    {result.source}
+                  </Text>
+                  <Group gap="xs" wrap="nowrap">
+                    {result.format && (
+                      <Badge variant="light" color="gray" size="sm">
+                        {result.format.toUpperCase()}
+                      </Badge>
+                    )}
+                    {result.success ? (
+                      <Badge variant="light" color="green" size="sm">
+                        {result.transcripts.length > 1
+                          ? `${result.transcripts.length} transcripts`
+                          : `${result.transcripts[0]?.segments.length ?? 0} segments`}
+                      </Badge>
+                    ) : (
+                      <Badge variant="light" color="red" size="sm">
+                        Failed
+                      </Badge>
+                    )}
+                  </Group>
+                </Group>
+                {result.error && (
+                  <Text size="xs" c="red" mt={4}>
+                    {result.error}
+                  </Text>
+                )}
+                {result.warnings.map((warning) => (
+                  <Text key={warning} size="xs" c="dimmed" mt={4}>
+                    {warning}
+                  </Text>
+                ))}
+              </Paper>
+            ))}
+          </Stack>
+        )}
+
+        {results.length > 0 && transcripts.length === 0 && (
+          <Alert color="red" icon={<AlertCircle size={16} />}>
+            None of the selected files could be imported.
+          </Alert>
+        )}
+
+        <Group justify="flex-end" gap="sm" mt="md">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isSaving}
+            styles={{ root: { minHeight: 44 } }}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={transcripts.length === 0 || isParsing}
+            loading={isSaving}
+            leftSection={<Upload size={16} />}
+            styles={{ root: { minHeight: 44 } }}
+          >
+            {transcripts.length > 0 ? `Import ${transcripts.length}` : 'Import'}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
+
+export default ImportTranscriptsModal;
@@ -3,3 +3,9 @@ export type { TranscriptCardProps } from './transcript-card';
 
 export { TranscriptTable } from './transcript-table';
 export type { TranscriptTableProps } from './transcript-table';
+
+export { SearchResultList } from './search-result-list';
+export type { SearchResultListProps } from './search-result-list';
+
+export { ImportTranscriptsModal } from './import-transcripts-modal';
+export type { ImportTranscriptsModalProps } from './import-transcripts-modal';
@@ -0,0 +1,187 @@
+/**
+ * Redaction Panel Component
+ *
+ * Lists the ranges marked for redaction (drawn on the waveform or selected
+ * in the transcript text) and creates a redacted copy of the transcript and
+ * its audio with a tone or silence over those ranges.
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  ActionIcon,
+  Alert,
+  Button,
+  Group,
+  Paper,
+  Progress,
+  SegmentedControl,
+  Stack,
+  Text,
+  Tooltip,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { EyeOff, Info, X } from 'lucide-react';
+import { formatTimestamp } from '@/lib/transcript-utils';
+import { createRedactedCopy, redactSegments, type RedactionRange } from '@/lib/redaction';
+import type { RedactionFill, Transcript } from '@/types/transcript';
+
+export interface RedactionPanelProps {
+  /** Transcript being redacted */
+  transcript: Transcript;
+  /** Ranges marked for redaction */
+  ranges: RedactionRange[];
+  /** Remove a marked range */
+  onRemoveRange: (id: string) => void;
+  /** Leave redaction mode */
+  onClose: () => void;
+  /** Called with the saved redacted copy */
+  onCreated: (redacted: Transcript) => void;
+}
+
+/**
+ * Describes what a range covers, for the range list
+ */
+function describeRange(range: RedactionRange, transcript: Transcript): string {
+  if (range.selection) {
+    const segment = transcript.segments.find((s) => s.index === range.selection!.segmentIndex);
+    if (segment) {
+      return `"${segment.text.slice(range.selection.from, range.selection.to)}"`;
+    }
+  }
+  return 'Marked on waveform';
+}
+
+/**
+ * Panel for marking PII ranges and producing a redacted copy
+ */
+export function RedactionPanel({
+  transcript,
+  ranges,
+  onRemoveRange,
+  onClose,
+  onCreated,
+}: RedactionPanelProps) {
+  const [fill, setFill] = useState<RedactionFill>('tone');
+  const [progress, setProgress] = useState<number | null>(null);
+
+  const isBusy = progress !== null;
+  const sortedRanges = useMemo(() => ranges.slice().sort((a, b) => a.start - b.start), [ranges]);
+
+  // Number of segments whose text will change, as a preview
+  const changedSegments = useMemo(() => {
+    const redacted = redactSegments(transcript.segments, ranges);
+    return redacted.filter((segment, i) => segment !== transcript.segments[i]).length;
+  }, [transcript.segments, ranges]);
+
+  const handleCreate = async () => {
+    setProgress(0);
+    try {
+      const result = await createRedactedCopy(transcript, ranges, { fill, onProgress: setProgress });
+      if (!result.success || !result.transcript) {
+        throw new Error(result.error || 'Failed to create redacted copy');
+      }
+
+      notifications.show({
+        title: 'Redacted Copy Created',
+        message: `${ranges.length} range${ranges.length !== 1 ? 's' : ''} redacted. The original is unchanged.`,
+        color: 'green',
+      });
+      onCreated(result.transcript);
+    } catch (error) {
+      console.error('Error creating redacted copy:', error);
+      notifications.show({
+        title: 'Redaction Failed',
+        message: error instanceof Error ? error.message : 'Failed to create redacted copy',
+        color: 'red',
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Paper withBorder p="md" radius="md">
+      <Stack gap="sm">
+        <Group justify="space-between">
+          <Group gap="xs">
+            <EyeOff size={16} />
+            <Text size="sm" fw={500}>Redact Audio and Transcript</Text>
+          </Group>
+          <SegmentedControl
+            size="xs"
+            value={fill}
+            onChange={(value) => setFill(value as RedactionFill)}
+            data={[
+              { value: 'tone', label: 'Tone' },
+              { value: 'silence', label: 'Silence' },
+            ]}
+            disabled={isBusy}
+          />
+        </Group>
+
+        <Alert variant="light" color="blue" icon={<Info size={16} />}>
+          <Text size="xs">
+            Drag across the waveform or select words in the transcript to mark names,
+            addresses and other personal information. A redacted copy is saved as a new
+            transcript; the original is kept.
+          </Text>
+        </Alert>
+
+        {sortedRanges.length === 0 ? (
+          <Text size="sm" c="dimmed">No ranges marked yet</Text>
+        ) : (
+          <Stack gap={4}>
+            {sortedRanges.map((range) => (
+              <Group key={range.id} gap="xs" wrap="nowrap">
+                <Text
+                  size="xs"
+                  c="dimmed"
+                  style={{ fontFamily: 'var(--mantine-font-family-monospace)', flexShrink: 0 }}
+                >
+                  {formatTimestamp(range.start)}–{formatTimestamp(range.end)}
+                </Text>
+                <Text size="sm" truncate style={{ flex: 1 }}>
+                  {describeRange(range, transcript)}
+                </Text>
+                <Tooltip label="Remove range">
+                  <ActionIcon
+                    variant="subtle"
+                    color="gray"
+                    size="sm"
+                    aria-label={`Remove range at ${formatTimestamp(range.start)}`}
+                    onClick={() => onRemoveRange(range.id)}
+                    disabled={isBusy}
+                  >
+                    <X size={14} />
+                  </ActionIcon>
+                </Tooltip>
+              </Group>
+            ))}
+            <Text size="xs" c="dimmed">
+              {changedSegments} segment{changedSegments !== 1 ? 's' : ''} will have text replaced with [REDACTED]
+            </Text>
+          </Stack>
+        )}
+
+        {isBusy && <Progress value={progress} size="sm" animated />}
+
+        <Group justify="flex-end" gap="xs">
+          <Button variant="subtle" onClick={onClose} disabled={isBusy}>
+            Cancel
+          </Button>
+          <Button
+            color="red"
+            leftSection={<EyeOff size={16} />}
+            onClick={handleCreate}
+            loading={isBusy}
+            disabled={ranges.length === 0}
+          >
+            Create Redacted Copy
+          </Button>
+        </Group>
+      </Stack>
+    </Paper>
+  );
+}
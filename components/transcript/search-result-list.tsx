@@ -0,0 +1,141 @@
+'use client';
+
+import * as React from 'react';
+import Link from 'next/link';
+import {
+  Card,
+  Group,
+  Stack,
+  Text,
+  Badge,
+  ActionIcon,
+  Title,
+  UnstyledButton,
+} from '@mantine/core';
+import { Trash2 } from 'lucide-react';
+import type { SearchSnippet, TranscriptSearchResult } from '@/types/search';
+import { formatTimestamp } from '@/lib/transcript-utils';
+import { formatDate, formatDuration, truncateText } from '@/lib/utils/format';
+
+export interface SearchResultListProps {
+  results: TranscriptSearchResult[];
+  onDelete?: (id: string) => void;
+}
+
+/**
+ * Render snippet text with its highlight ranges wrapped in <mark>
+ */
+function HighlightedText({ snippet }: { snippet: SearchSnippet }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > cursor) {
+      parts.push(snippet.text.slice(cursor, start));
+    }
+    parts.push(<mark key={i}>{snippet.text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) {
+    parts.push(snippet.text.slice(cursor));
+  }
+
+  return <>{parts}</>;
+}
+
+/**
+ * Ranked transcript search results with highlighted excerpts
+ *
+ * Each excerpt links to its segment so the transcript opens at the
+ * matching moment.
+ */
+export function SearchResultList({ results, onDelete }: SearchResultListProps) {
+  return (
+    <Stack gap="md">
+      {results.map(({ transcript, snippets, filenameMatch }) => {
+        const href = `/transcripts/${transcript.id}`;
+        const duration = transcript.metadata?.duration;
+
+        return (
+          <Card key={transcript.id} padding="lg" radius="md" withBorder>
+            <Stack gap="sm">
+              <Group justify="space-between" align="flex-start" wrap="nowrap">
+                <Stack gap={4} style={{ flex: 1, minWidth: 0 }}>
+                  <Title order={3} size="h4" lineClamp={1}>
+                    <Link href={href} style={{ color: 'inherit', textDecoration: 'none' }}>
+                      {transcript.filename}
+                    </Link>
+                  </Title>
+                  <Group gap="xs">
+                    <Text size="xs" c="dimmed">
+                      {formatDate(transcript.createdAt)}
+                    </Text>
+                    {duration !== undefined && duration > 0 && (
+                      <Text size="xs" c="dimmed">
+                        · {formatDuration(duration)}
+                      </Text>
+                    )}
+                    {filenameMatch && (
+                      <Badge variant="light" color="blue" size="xs">
+                        Title match
+                      </Badge>
+                    )}
+                  </Group>
+                </Stack>
+                {onDelete && (
+                  <ActionIcon
+                    variant="subtle"
+                    color="red"
+                    size="lg"
+                    onClick={() => onDelete(transcript.id)}
+                    aria-label="Delete transcript"
+                    style={{ minWidth: 44, minHeight: 44 }}
+                  >
+                    <Trash2 size={16} />
+                  </ActionIcon>
+                )}
+              </Group>
+
+              {snippets.length > 0 ? (
+                <Stack gap="xs">
+                  {snippets.map((snippet) => (
+                    <UnstyledButton
+                      key={snippet.segmentIndex}
+                      component={Link}
+                      href={`${href}?segment=${snippet.segmentIndex}`}
+                      p="xs"
+                      style={{
+                        borderRadius: 'var(--mantine-radius-sm)',
+                        backgroundColor: 'var(--mantine-color-default-hover)',
+                      }}
+                    >
+                      <Group gap="sm" align="flex-start" wrap="nowrap">
+                        <Text size="xs" c="blue" fw={600} style={{ flexShrink: 0, fontVariantNumeric: 'tabular-nums' }}>
+                          {formatTimestamp(snippet.start)}
+                        </Text>
+                        <Text size="sm" style={{ minWidth: 0 }}>
+                          {snippet.speaker && (
+                            <Text span fw={600}>
+                              {snippet.speaker}:{' '}
+                            </Text>
+                          )}
+                          <HighlightedText snippet={snippet} />
+                        </Text>
+                      </Group>
+                    </UnstyledButton>
+                  ))}
+                </Stack>
+              ) : (
+                <Text size="sm" c="dimmed" lineClamp={2}>
+                  {transcript.summary || truncateText(transcript.text, 150)}
+                </Text>
+              )}
+            </Stack>
+          </Card>
+        );
+      })}
+    </Stack>
+  );
+}
+
+export default SearchResultList;
@@ -0,0 +1,203 @@
+/**
+ * Segment Editor Component
+ *
+ * Inline editor rendered in place of a segment's text in SegmentList.
+ * Lets users correct text, split at the cursor, merge with the next
+ * segment, and nudge start/end timestamps.
+ */
+
+'use client';
+
+import React, { useState, useRef, useCallback } from 'react';
+import { Box, Textarea, NumberInput, Group, Button, Text, Tooltip } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Check, X, Scissors, Merge } from 'lucide-react';
+import type { TranscriptSegment } from '@/types/transcript';
+
+/**
+ * Handlers used by SegmentList to apply segment edits
+ */
+export interface SegmentEditHandlers {
+  /** Replace a segment's text */
+  onEditText: (index: number, text: string) => Promise<void>;
+  /** Split a segment at a character offset */
+  onSplit: (index: number, charOffset: number) => Promise<void>;
+  /** Merge a segment with the one after it */
+  onMergeWithNext: (index: number) => Promise<void>;
+  /** Nudge a segment's start and/or end time */
+  onAdjustTiming: (index: number, timing: { start?: number; end?: number }) => Promise<void>;
+}
+
+export interface SegmentEditorProps {
+  /** Segment being edited */
+  segment: TranscriptSegment;
+  /** Whether this is the last segment (cannot merge forward) */
+  isLast: boolean;
+  /** Edit handlers */
+  handlers: SegmentEditHandlers;
+  /** Called when editing finishes or is cancelled */
+  onClose: () => void;
+}
+
+/**
+ * Inline segment editor
+ *
+ * Keyboard shortcuts: Ctrl/Cmd+Enter saves, Escape cancels.
+ */
+export function SegmentEditor({ segment, isLast, handlers, onClose }: SegmentEditorProps) {
+  const [text, setText] = useState(segment.text);
+  const [start, setStart] = useState<number>(segment.start);
+  const [end, setEnd] = useState<number>(segment.end);
+  const [isSaving, setIsSaving] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const run = useCallback(
+    async (action: () => Promise<void>) => {
+      setIsSaving(true);
+      try {
+        await action();
+        onClose();
+      } catch (error) {
+        notifications.show({
+          title: 'Edit Failed',
+          message: error instanceof Error ? error.message : 'Failed to apply edit',
+          color: 'red',
+        });
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [onClose]
+  );
+
+  const handleSave = useCallback(() => {
+    const textChanged = text.trim() !== segment.text;
+    const timingChanged = start !== segment.start || end !== segment.end;
+
+    if (!textChanged && !timingChanged) {
+      onClose();
+      return;
+    }
+
+    run(async () => {
+      if (textChanged) {
+        await handlers.onEditText(segment.index, text);
+      }
+      if (timingChanged) {
+        await handlers.onAdjustTiming(segment.index, { start, end });
+      }
+    });
+  }, [text, start, end, segment, handlers, run, onClose]);
+
+  const handleSplit = useCallback(() => {
+    const offset = textareaRef.current?.selectionStart ?? 0;
+    run(() => handlers.onSplit(segment.index, offset));
+  }, [handlers, segment.index, run]);
+
+  const handleMerge = useCallback(() => {
+    run(() => handlers.onMergeWithNext(segment.index));
+  }, [handlers, segment.index, run]);
+
+  return (
+    <Box
+      // Keep clicks and key presses from reaching the parent segment (seek / j-k navigation)
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          onClose();
+        } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+          e.preventDefault();
+          handleSave();
+        }
+      }}
+      style={{ flex: 1, minWidth: 0 }}
+    >
+      <Textarea
+        ref={textareaRef}
+        value={text}
+        onChange={(e) => setText(e.currentTarget.value)}
+        autosize
+        minRows={2}
+        autoFocus
+        aria-label={`Edit text of segment ${segment.index + 1}`}
+        disabled={isSaving}
+      />
+
+      <Group gap="sm" mt="xs" align="flex-end">
+        <NumberInput
+          label="Start (s)"
+          size="xs"
+          value={start}
+          onChange={(value) => setStart(typeof value === 'number' ? value : Number(value))}
+          min={0}
+          step={0.1}
+          decimalScale={2}
+          w={100}
+          disabled={isSaving}
+        />
+        <NumberInput
+          label="End (s)"
+          size="xs"
+          value={end}
+          onChange={(value) => setEnd(typeof value === 'number' ? value : Number(value))}
+          min={0}
+          step={0.1}
+          decimalScale={2}
+          w={100}
+          disabled={isSaving}
+        />
+      </Group>
+
+      <Group gap="xs" mt="sm" justify="space-between">
+        <Group gap="xs">
+          <Tooltip label="Split into two segments at the cursor position">
+            <Button
+              size="xs"
+              variant="default"
+              leftSection={<Scissors size={14} />}
+              onClick={handleSplit}
+              disabled={isSaving}
+            >
+              Split at cursor
+            </Button>
+          </Tooltip>
+          <Button
+            size="xs"
+            variant="default"
+            leftSection={<Merge size={14} />}
+            onClick={handleMerge}
+            disabled={isSaving || isLast}
+          >
+            Merge with next
+          </Button>
+        </Group>
+
+        <Group gap="xs">
+          <Button
+            size="xs"
+            variant="subtle"
+            leftSection={<X size={14} />}
+            onClick={onClose}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="xs"
+            leftSection={<Check size={14} />}
+            onClick={handleSave}
+            loading={isSaving}
+          >
+            Save
+          </Button>
+        </Group>
+      </Group>
+
+      <Text size="xs" c="dimmed" mt={4}>
+        Ctrl+Enter to save, Esc to cancel
+      </Text>
+    </Box>
+  );
+}
@@ -8,10 +8,13 @@
 'use client';
 
 import React, { useRef, useEffect, useState, useCallback, memo } from 'react';
-import { Box, Text, Badge, Stack, ScrollArea } from '@mantine/core';
+import { Box, Text, Badge, Stack, ScrollArea, ActionIcon, Tooltip } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
 import { useVirtualizer } from '@tanstack/react-virtual';
+import { Pencil } from 'lucide-react';
 import { formatTimestamp, highlightText } from '@/lib/transcript-utils';
+import { alignWordsToText } from '@/lib/word-timing';
+import { SegmentEditor, type SegmentEditHandlers } from './segment-editor';
 import type { TranscriptSegment } from '@/types/transcript';
 
 export interface SegmentListProps {
@@ -23,10 +26,74 @@ export interface SegmentListProps {
   activeSegmentIndex?: number;
   /** Callback when a segment is clicked */
   onSegmentClick?: (index: number) => void;
+  /** Index of the word being spoken within the active segment's `words` */
+  activeWordIndex?: number;
+  /** Callback with the word's start time when a timed word is clicked */
+  onWordClick?: (time: number) => void;
+  /** Callback with character offsets when text is selected within a segment */
+  onTextSelect?: (segmentIndex: number, from: number, to: number) => void;
   /** Optional className for styling */
   className?: string;
   /** Current match index for search highlighting */
   currentMatchIndex?: number;
+  /** Enables inline editing when provided */
+  editHandlers?: SegmentEditHandlers;
+}
+
+/**
+ * Segment text rendered word by word from its word timings, with the word
+ * being spoken highlighted and each word clickable to seek to it
+ */
+function TimedSegmentText({
+  segment,
+  activeWordIndex,
+  onWordClick,
+}: {
+  segment: TranscriptSegment;
+  activeWordIndex?: number;
+  onWordClick?: (time: number) => void;
+}) {
+  const aligned = React.useMemo(
+    () => alignWordsToText(segment.text, segment.words ?? [], segment.start),
+    [segment.text, segment.words, segment.start]
+  );
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  aligned.forEach((word) => {
+    if (word.from > cursor) {
+      parts.push(segment.text.slice(cursor, word.from));
+    }
+    const isSpoken = word.wordIndex !== undefined && word.wordIndex === activeWordIndex;
+    parts.push(
+      <span
+        key={word.from}
+        onClick={
+          onWordClick
+            ? (e) => {
+                e.stopPropagation();
+                onWordClick(word.time);
+              }
+            : undefined
+        }
+        style={{
+          cursor: onWordClick ? 'pointer' : undefined,
+          borderRadius: 2,
+          transition: 'background-color 100ms ease',
+          backgroundColor: isSpoken ? 'var(--mantine-color-blue-light)' : undefined,
+          color: isSpoken ? 'var(--mantine-color-blue-light-color)' : undefined,
+        }}
+      >
+        {segment.text.slice(word.from, word.to)}
+      </span>
+    );
+    cursor = word.to;
+  });
+  if (cursor < segment.text.length) {
+    parts.push(segment.text.slice(cursor));
+  }
+
+  return <>{parts}</>;
 }
 
 /**
@@ -38,6 +105,14 @@ interface SegmentItemProps {
   searchQuery?: string;
   currentMatchIndex?: number;
   onClick?: () => void;
+  /** Active word index (only passed to the active segment) */
+  activeWordIndex?: number;
+  onWordClick?: (time: number) => void;
+  onTextSelect?: (segmentIndex: number, from: number, to: number) => void;
+  editHandlers?: SegmentEditHandlers;
+  isEditing?: boolean;
+  isLast?: boolean;
+  onEditingChange?: (index: number | null) => void;
 }
 
 const SegmentItem = memo(function SegmentItem({
@@ -45,9 +120,19 @@ const SegmentItem = memo(function SegmentItem({
   isActive,
   searchQuery,
   currentMatchIndex,
-  onClick
+  onClick,
+  activeWordIndex,
+  onWordClick,
+  onTextSelect,
+  editHandlers,
+  isEditing,
+  isLast = false,
+  onEditingChange
 }: SegmentItemProps) {
   const itemRef = useRef<HTMLDivElement>(null);
+  const textRef = useRef<HTMLParagraphElement>(null);
+  // Set when a mouseup completed a text selection, so the click doesn't seek
+  const selectedTextRef = useRef(false);
   const [isClicked, setIsClicked] = useState(false);
 
   // Scroll into view when active
@@ -62,9 +147,45 @@ const SegmentItem = memo(function SegmentItem({
 
   const timestamp = formatTimestamp(segment.start);
   const hasSearchQuery = searchQuery && searchQuery.length > 0;
+  const hasWordTimings = !!segment.words && segment.words.length > 0;
+
+  const handleTextMouseUp = () => {
+    const container = textRef.current;
+    const selection = window.getSelection();
+    if (!onTextSelect || !container || !selection || selection.isCollapsed || selection.rangeCount === 0) {
+      return;
+    }
+
+    const range = selection.getRangeAt(0);
+    if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) {
+      return;
+    }
+
+    // Character offset of a DOM position within the segment text
+    const offsetOf = (node: Node, offset: number) => {
+      const prefix = document.createRange();
+      prefix.selectNodeContents(container);
+      prefix.setEnd(node, offset);
+      return prefix.toString().length;
+    };
+    let from = offsetOf(range.startContainer, range.startOffset);
+    let to = offsetOf(range.endContainer, range.endOffset);
+    while (from < to && /\s/.test(segment.text[from])) from++;
+    while (to > from && /\s/.test(segment.text[to - 1])) to--;
+
+    selection.removeAllRanges();
+    if (to > from) {
+      selectedTextRef.current = true;
+      onTextSelect(segment.index, from, to);
+    }
+  };
 
   const handleClick = () => {
-    if (onClick) {
+    if (selectedTextRef.current) {
+      selectedTextRef.current = false;
+      return;
+    }
+    if (onClick && !isEditing) {
       // Trigger click animation
       setIsClicked(true);
       setTimeout(() => setIsClicked(false), 300);
@@ -143,18 +264,37 @@ const SegmentItem = memo(function SegmentItem({
 
       {/* Text Content */}
       <Box style={{ flex: 1, minWidth: 0 }}>
-        <Text
-          size="sm"
-          style={{
-            lineHeight: 1.6,
-            color: 'var(--mantine-color-text)',
-            fontWeight: isActive ? 500 : 400,
-          }}
-        >
-          {hasSearchQuery
-            ? highlightText(segment.text, searchQuery, currentMatchIndex)
-            : segment.text}
-        </Text>
+        {isEditing && editHandlers ? (
+          <SegmentEditor
+            segment={segment}
+            isLast={isLast}
+            handlers={editHandlers}
+            onClose={() => onEditingChange?.(null)}
+          />
+        ) : (
+          <Text
+            ref={textRef}
+            size="sm"
+            onMouseUp={onTextSelect ? handleTextMouseUp : undefined}
+            style={{
+              lineHeight: 1.6,
+              color: 'var(--mantine-color-text)',
+              fontWeight: isActive ? 500 : 400,
+            }}
+          >
+            {hasSearchQuery ? (
+              highlightText(segment.text, searchQuery, currentMatchIndex)
+            ) : hasWordTimings ? (
+              <TimedSegmentText
+                segment={segment}
+                activeWordIndex={activeWordIndex}
+                onWordClick={onWordClick}
+              />
+            ) : (
+              segment.text
+            )}
+          </Text>
+        )}
 
         {/* Speaker Info (if available) */}
         {segment.speaker && (
@@ -169,17 +309,47 @@ const SegmentItem = memo(function SegmentItem({
           </Badge>
         )}
       </Box>
+
+      {/* Edit Button (if editing is enabled) */}
+      {editHandlers && !isEditing && (
+        <Box style={{ flexShrink: 0 }}>
+          <Tooltip label="Edit segment">
+            <ActionIcon
+              variant="subtle"
+              color="gray"
+              size="sm"
+              aria-label={`Edit segment at ${timestamp}`}
+              onClick={(e) => {
+                e.stopPropagation();
+                onEditingChange?.(segment.index);
+              }}
+              onKeyDown={(e) => e.stopPropagation()}
+            >
+              <Pencil size={14} />
+            </ActionIcon>
+          </Tooltip>
+        </Box>
+      )}
     </Box>
   );
 }, (prevProps, nextProps) => {
-  // Only re-render if segment data or active state changes
+  // Only re-render if segment data, active state or editing state changes
   return prevProps.segment.index === nextProps.segment.index &&
          prevProps.segment.text === nextProps.segment.text &&
          prevProps.segment.start === nextProps.segment.start &&
+         prevProps.segment.end === nextProps.segment.end &&
+         prevProps.segment.words === nextProps.segment.words &&
          prevProps.isActive === nextProps.isActive &&
          prevProps.searchQuery === nextProps.searchQuery &&
          prevProps.currentMatchIndex === nextProps.currentMatchIndex &&
-         prevProps.onClick === nextProps.onClick;
+         prevProps.onClick === nextProps.onClick &&
+         prevProps.activeWordIndex === nextProps.activeWordIndex &&
+         prevProps.onWordClick === nextProps.onWordClick &&
+         prevProps.onTextSelect === nextProps.onTextSelect &&
+         prevProps.editHandlers === nextProps.editHandlers &&
+         prevProps.isEditing === nextProps.isEditing &&
+         prevProps.isLast === nextProps.isLast &&
+         prevProps.onEditingChange === nextProps.onEditingChange;
 });
 
 /**
@@ -191,10 +361,15 @@ const VirtualizedSegmentList = memo(function VirtualizedSegmentList({
   searchQuery,
   activeSegmentIndex,
   onSegmentClick,
+  activeWordIndex,
+  onWordClick,
+  onTextSelect,
   className,
-  currentMatchIndex
+  currentMatchIndex,
+  editHandlers
 }: SegmentListProps) {
   const parentRef = useRef<HTMLDivElement>(null);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
 
   // Initialize virtualizer
   const rowVirtualizer = useVirtualizer({
@@ -312,6 +487,13 @@ const VirtualizedSegmentList = memo(function VirtualizedSegmentList({
                 onClick={
                   onSegmentClick ? () => handleSegmentClick(segment.index) : undefined
                 }
+                activeWordIndex={activeSegmentIndex === segment.index ? activeWordIndex : undefined}
+                onWordClick={onWordClick}
+                onTextSelect={onTextSelect}
+                editHandlers={editHandlers}
+                isEditing={editingIndex === segment.index}
+                isLast={virtualRow.index === segments.length - 1}
+                onEditingChange={setEditingIndex}
               />
             </div>
           );
@@ -324,7 +506,11 @@ const VirtualizedSegmentList = memo(function VirtualizedSegmentList({
          prevProps.searchQuery === nextProps.searchQuery &&
          prevProps.activeSegmentIndex === nextProps.activeSegmentIndex &&
          prevProps.currentMatchIndex === nextProps.currentMatchIndex &&
-         prevProps.onSegmentClick === nextProps.onSegmentClick;
+         prevProps.onSegmentClick === nextProps.onSegmentClick &&
+         prevProps.activeWordIndex === nextProps.activeWordIndex &&
+         prevProps.onWordClick === nextProps.onWordClick &&
+         prevProps.onTextSelect === nextProps.onTextSelect &&
+         prevProps.editHandlers === nextProps.editHandlers;
 });
 
 /**
@@ -337,6 +523,7 @@ const VirtualizedSegmentList = memo(function VirtualizedSegmentList({
  * - Smooth scrolling to active segment
  * - Keyboard navigation support
  * - Automatic virtualization for lists with >50 segments
+ * - Inline editing (text, split, merge, timing) when `editHandlers` is provided
  *
  * @example
  * ```tsx
@@ -353,9 +540,15 @@ export const SegmentList = memo(function SegmentList({
   searchQuery,
   activeSegmentIndex,
   onSegmentClick,
+  activeWordIndex,
+  onWordClick,
+  onTextSelect,
   className,
-  currentMatchIndex
+  currentMatchIndex,
+  editHandlers
 }: SegmentListProps) {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+
   const handleSegmentClick = useCallback((index: number) => {
     if (onSegmentClick) {
       const segment = segments.find(s => s.index === index);
@@ -431,7 +624,11 @@ export const SegmentList = memo(function SegmentList({
         activeSegmentIndex={activeSegmentIndex}
         currentMatchIndex={currentMatchIndex}
         onSegmentClick={onSegmentClick}
+        activeWordIndex={activeWordIndex}
+        onWordClick={onWordClick}
+        onTextSelect={onTextSelect}
         className={className}
+        editHandlers={editHandlers}
       />
     );
   }
@@ -446,7 +643,7 @@ export const SegmentList = memo(function SegmentList({
       aria-label="Transcript segments"
     >
       <Stack gap="sm">
-        {segments.map((segment) => (
+        {segments.map((segment, position) => (
           <SegmentItem
             key={segment.index}
             segment={segment}
@@ -456,18 +653,29 @@ export const SegmentList = memo(function SegmentList({
             onClick={
               onSegmentClick ? () => handleSegmentClick(segment.index) : undefined
             }
+            activeWordIndex={activeSegmentIndex === segment.index ? activeWordIndex : undefined}
+            onWordClick={onWordClick}
+            onTextSelect={onTextSelect}
+            editHandlers={editHandlers}
+            isEditing={editingIndex === segment.index}
+            isLast={position === segments.length - 1}
+            onEditingChange={setEditingIndex}
           />
         ))}
       </Stack>
     </ScrollArea>
   );
 }, (prevProps, nextProps) => {
-  // Only re-render if segments array or search changes
+  // Only re-render if segments array, search or edit handlers change
   return prevProps.segments === nextProps.segments &&
          prevProps.searchQuery === nextProps.searchQuery &&
          prevProps.activeSegmentIndex === nextProps.activeSegmentIndex &&
          prevProps.currentMatchIndex === nextProps.currentMatchIndex &&
-         prevProps.onSegmentClick === nextProps.onSegmentClick;
+         prevProps.onSegmentClick === nextProps.onSegmentClick &&
+         prevProps.activeWordIndex === nextProps.activeWordIndex &&
+         prevProps.onWordClick === nextProps.onWordClick &&
+         prevProps.onTextSelect === nextProps.onTextSelect &&
+         prevProps.editHandlers === nextProps.editHandlers;
 });
 
 /**
@@ -0,0 +1,209 @@
+/**
+ * Speaker Roster Modal Component
+ *
+ * Lets users map raw diarization labels ("Speaker 1") to real names and
+ * roles, and merge labels that belong to the same person. Changes are
+ * edited as a draft and only persisted when saved.
+ */
+
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Modal,
+  Stack,
+  Group,
+  Text,
+  TextInput,
+  Select,
+  Button,
+  Badge,
+  Paper,
+  Alert,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Check, Info, Split } from 'lucide-react';
+import {
+  buildSpeakerRoster,
+  formatSpeakerName,
+  mergeSpeakers,
+  resolveSpeaker,
+  unmergeSpeaker,
+  updateSpeakerProfile,
+} from '@/lib/speaker-roster';
+import type { SpeakerProfile, Transcript } from '@/types/transcript';
+
+export interface SpeakerRosterModalProps {
+  /** Whether the modal is open */
+  opened: boolean;
+  /** Called when the modal should close */
+  onClose: () => void;
+  /** Transcript whose speakers are being edited */
+  transcript: Transcript;
+  /** Persist the edited roster */
+  onSave: (speakers: SpeakerProfile[]) => Promise<void>;
+}
+
+/**
+ * Modal for naming and merging transcript speakers
+ */
+export function SpeakerRosterModal({
+  opened,
+  onClose,
+  transcript,
+  onSave,
+}: SpeakerRosterModalProps) {
+  const [draft, setDraft] = useState<SpeakerProfile[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset the draft from the stored roster each time the modal opens
+  useEffect(() => {
+    if (opened) {
+      setDraft(buildSpeakerRoster(transcript.segments, transcript.speakers));
+    }
+  }, [opened, transcript.segments, transcript.speakers]);
+
+  const segmentCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const segment of transcript.segments) {
+      if (segment.speaker) {
+        counts.set(segment.speaker, (counts.get(segment.speaker) ?? 0) + 1);
+      }
+    }
+    return counts;
+  }, [transcript.segments]);
+
+  const handleMerge = (source: string, target: string | null) => {
+    if (!target) return;
+    try {
+      setDraft((current) => mergeSpeakers(current, source, target));
+    } catch (error) {
+      notifications.show({
+        title: 'Merge Failed',
+        message: error instanceof Error ? error.message : 'Failed to merge speakers',
+        color: 'red',
+      });
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      notifications.show({
+        title: 'Save Failed',
+        message: error instanceof Error ? error.message : 'Failed to save speakers',
+        color: 'red',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Speakers" size="lg">
+      <Stack gap="md">
+        <Alert variant="light" color="blue" icon={<Info size={16} />}>
+          Names apply everywhere this transcript is shown, exported, analyzed, or
+          discussed in chat. The original speaker labels are kept, so changes can
+          be undone at any time.
+        </Alert>
+
+        {draft.length === 0 ? (
+          <Text size="sm" c="dimmed">
+            This transcript has no speaker labels.
+          </Text>
+        ) : (
+          draft.map((profile) => {
+            const target = profile.mergedInto
+              ? resolveSpeaker(profile.label, draft)
+              : undefined;
+            const mergeOptions = draft
+              .filter((p) => p.label !== profile.label && !p.mergedInto)
+              .map((p) => ({ value: p.label, label: formatSpeakerName(p) }));
+
+            return (
+              <Paper key={profile.label} p="sm" withBorder radius="md">
+                <Group justify="space-between" mb="xs">
+                  <Group gap="xs">
+                    <Badge variant="light" color="gray">
+                      {profile.label}
+                    </Badge>
+                    <Text size="xs" c="dimmed">
+                      {segmentCounts.get(profile.label) ?? 0} segments
+                    </Text>
+                  </Group>
+                  {target && (
+                    <Group gap="xs">
+                      <Text size="xs" c="dimmed">
+                        Merged into {formatSpeakerName(target)}
+                      </Text>
+                      <Button
+                        size="xs"
+                        variant="subtle"
+                        leftSection={<Split size={14} />}
+                        onClick={() => setDraft((current) => unmergeSpeaker(current, profile.label))}
+                      >
+                        Unmerge
+                      </Button>
+                    </Group>
+                  )}
+                </Group>
+
+                {!target && (
+                  <Group gap="sm" align="flex-end" grow>
+                    <TextInput
+                      label="Name"
+                      placeholder="e.g. Council Member Alter"
+                      size="xs"
+                      value={profile.name ?? ''}
+                      onChange={(e) => {
+                        const name = e.currentTarget.value;
+                        setDraft((current) => updateSpeakerProfile(current, profile.label, { name }));
+                      }}
+                    />
+                    <TextInput
+                      label="Role"
+                      placeholder="e.g. District 10"
+                      size="xs"
+                      value={profile.role ?? ''}
+                      onChange={(e) => {
+                        const role = e.currentTarget.value;
+                        setDraft((current) => updateSpeakerProfile(current, profile.label, { role }));
+                      }}
+                    />
+                    <Select
+                      label="Same person as"
+                      placeholder="Merge into…"
+                      size="xs"
+                      data={mergeOptions}
+                      value={null}
+                      onChange={(value) => handleMerge(profile.label, value)}
+                      disabled={mergeOptions.length === 0}
+                    />
+                  </Group>
+                )}
+              </Paper>
+            );
+          })
+        )}
+
+        <Group justify="flex-end" gap="xs">
+          <Button variant="subtle" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            leftSection={<Check size={16} />}
+            onClick={handleSave}
+            loading={isSaving}
+            disabled={draft.length === 0}
+          >
+            Save Speakers
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -8,7 +8,9 @@
 'use client';
 
 import React, { memo } from 'react';
+import Link from 'next/link';
 import {
+  EyeOff,
   FileText,
   Download,
   Trash2,
@@ -17,9 +19,12 @@ import {
   Clock,
   FileType,
   Languages,
-  Mic
+  Mic,
+  Users,
+  CalendarDays
 } from 'lucide-react';
 import {
+  Anchor,
   Button,
   Badge,
   Menu,
@@ -32,10 +37,13 @@ import {
   Flex,
   Box,
   SimpleGrid,
+  TextInput,
   Title
 } from '@mantine/core';
 import { modals } from '@mantine/modals';
+import { getMeetingDate, toIsoDate, fromIsoDate } from '@/lib/action-items';
 import {
+  formatDate,
   formatDateTime,
   formatDuration,
   calculateWordCount,
@@ -47,11 +55,17 @@ export interface TranscriptHeaderProps {
   /** The transcript data */
   transcript: Transcript;
   /** Callback when export is requested */
-  onExport?: (format: 'txt' | 'srt' | 'vtt' | 'json') => void;
+  onExport?: (format: 'txt' | 'srt' | 'vtt' | 'json' | 'docx') => void;
   /** Callback when delete is confirmed */
   onDelete?: () => void;
   /** Callback when analyze is clicked */
   onAnalyze?: () => void;
+  /** Callback to open the speaker roster (omit to hide the button) */
+  onManageSpeakers?: () => void;
+  /** Callback to start marking ranges for redaction (omit to hide the button) */
+  onRedact?: () => void;
+  /** Callback when the meeting date is changed (omit to make it read-only) */
+  onMeetingDateChange?: (meetingDate: Date) => void;
   /** Whether delete action is loading */
   isDeleting?: boolean;
   /** Whether there are existing analyses for this transcript */
@@ -65,21 +79,26 @@ export interface TranscriptHeaderProps {
  *
  * Displays:
  * - Transcript filename and creation date
- * - Metadata (duration, word count, file size)
+ * - Metadata (meeting date, duration, word count, file size)
  * - Status badges (language, model)
- * - Action buttons (Export, Delete, Analyze)
+ * - Action buttons (Export, Speakers, Redact, Delete, Analyze)
+ * - Link to the original when the transcript is a redacted copy
  */
 export const TranscriptHeader = memo(function TranscriptHeader({
   transcript,
   onExport,
   onDelete,
   onAnalyze,
+  onManageSpeakers,
+  onRedact,
+  onMeetingDateChange,
   isDeleting = false,
   hasExistingAnalyses = false,
   className
 }: TranscriptHeaderProps) {
   const wordCount = calculateWordCount(transcript.text);
   const formattedDate = formatDateTime(transcript.createdAt);
+  const meetingDate = getMeetingDate(transcript);
   const duration = formatDuration(transcript.metadata.duration);
   const fileSize = formatFileSize(transcript.metadata.fileSize);
 
@@ -117,6 +136,19 @@ export const TranscriptHeader = memo(function TranscriptHeader({
                 {formattedDate}
               </time>
             </Text>
+            {transcript.redaction && (
+              <Badge variant="light" color="red" leftSection={<EyeOff size={12} />}>
+                Redacted copy ·{' '}
+                <Anchor
+                  component={Link}
+                  href={`/transcripts/${transcript.redaction.sourceTranscriptId}`}
+                  size="xs"
+                  inherit
+                >
+                  view original
+                </Anchor>
+              </Badge>
+            )}
           </Group>
         </Box>
 
@@ -175,10 +207,44 @@ export const TranscriptHeader = memo(function TranscriptHeader({
                 >
                   WebVTT (.vtt)
                 </Menu.Item>
+
+                <Menu.Divider />
+                <Menu.Label>Documents</Menu.Label>
+                <Menu.Item
+                  leftSection={<FileText size={14} />}
+                  onClick={() => onExport('docx')}
+                >
+                  Word (.docx)
+                </Menu.Item>
               </Menu.Dropdown>
             </Menu>
           )}
 
+          {onManageSpeakers && (
+            <Button
+              variant="light"
+              size="lg"
+              leftSection={<Users size={18} />}
+              onClick={onManageSpeakers}
+              style={{ minHeight: 44 }}
+            >
+              Speakers
+            </Button>
+          )}
+
+          {onRedact && (
+            <Button
+              variant="light"
+              size="lg"
+              color="red"
+              leftSection={<EyeOff size={18} />}
+              onClick={onRedact}
+              style={{ minHeight: 44 }}
+            >
+              Redact
+            </Button>
+          )}
+
           {onDelete && (
             <Tooltip label="Delete Transcript" withArrow>
               <ActionIcon
@@ -197,7 +263,42 @@ export const TranscriptHeader = memo(function TranscriptHeader({
       </Box>
 
       {/* Metadata Grid - Clean Card Design */}
-      <SimpleGrid cols={{ base: 1, sm: 2, lg: 4 }} spacing="md">
+      <SimpleGrid cols={{ base: 1, sm: 2, lg: 3 }} spacing="md">
+        {/* Meeting Date Card */}
+        <Paper
+          p="md"
+          radius="md"
+          style={{ backgroundColor: "var(--mantine-color-default)", border: "1px solid var(--mantine-color-default-border)" }}
+        >
+          <Group gap="xs" mb={4}>
+            <CalendarDays
+              size={14}
+              style={{ color: "var(--mantine-color-dimmed)" }}
+            />
+            <Text size="xs" fw={700} c="dimmed" tt="uppercase" lts={0.5}>
+              Meeting Date
+            </Text>
+          </Group>
+          {onMeetingDateChange ? (
+            <TextInput
+              type="date"
+              variant="unstyled"
+              size="md"
+              value={toIsoDate(meetingDate)}
+              onChange={(e) => {
+                // The input is empty while a date is only partly typed
+                const value = e.currentTarget.value;
+                if (value) onMeetingDateChange(fromIsoDate(value));
+              }}
+              aria-label="Meeting date"
+              title="Relative deadlines in analyses are counted from this date"
+              styles={{ input: { fontWeight: 600, fontSize: 'var(--mantine-font-size-lg)' } }}
+            />
+          ) : (
+            <Text size="lg" fw={600}>{formatDate(meetingDate)}</Text>
+          )}
+        </Paper>
+
         {/* Duration Card */}
         <Paper
           p="md"
@@ -299,12 +400,17 @@ export const TranscriptHeader = memo(function TranscriptHeader({
          prevProps.transcript.filename === nextProps.transcript.filename &&
          prevProps.transcript.text === nextProps.transcript.text &&
          prevProps.transcript.createdAt === nextProps.transcript.createdAt &&
+         prevProps.transcript.meetingDate?.getTime() === nextProps.transcript.meetingDate?.getTime() &&
          prevProps.transcript.metadata === nextProps.transcript.metadata &&
+         prevProps.transcript.redaction === nextProps.transcript.redaction &&
          prevProps.isDeleting === nextProps.isDeleting &&
          prevProps.hasExistingAnalyses === nextProps.hasExistingAnalyses &&
          prevProps.onExport === nextProps.onExport &&
          prevProps.onDelete === nextProps.onDelete &&
-         prevProps.onAnalyze === nextProps.onAnalyze;
+         prevProps.onAnalyze === nextProps.onAnalyze &&
+         prevProps.onManageSpeakers === nextProps.onManageSpeakers &&
+         prevProps.onRedact === nextProps.onRedact &&
+         prevProps.onMeetingDateChange === nextProps.onMeetingDateChange;
 });
 
 /**
@@ -367,6 +473,7 @@ export const CompactTranscriptHeader = memo(function CompactTranscriptHeader({
                 <Menu.Item onClick={() => onExport('srt')}>SRT</Menu.Item>
                 <Menu.Item onClick={() => onExport('vtt')}>VTT</Menu.Item>
                 <Menu.Item onClick={() => onExport('json')}>JSON</Menu.Item>
+                <Menu.Item onClick={() => onExport('docx')}>Word</Menu.Item>
               </Menu.Dropdown>
             </Menu>
           )}
@@ -27,6 +27,7 @@ import {
 } from '@/lib/transcript-utils';
 import { SearchBar } from './search-bar';
 import { SegmentList } from './segment-list';
+import type { SegmentEditHandlers } from './segment-editor';
 import type { Transcript } from '@/types/transcript';
 
 export interface TranscriptViewerProps {
@@ -40,6 +41,14 @@ export interface TranscriptViewerProps {
   activeSegmentIndex?: number;
   /** Callback when user clicks on a segment timestamp */
   onSegmentClick?: (index: number) => void;
+  /** Active word index within the active segment, for karaoke highlighting */
+  activeWordIndex?: number;
+  /** Callback with the word's start time when a timed word is clicked */
+  onWordClick?: (time: number) => void;
+  /** Callback with character offsets when text is selected within a segment */
+  onTextSelect?: (segmentIndex: number, from: number, to: number) => void;
+  /** Enables inline segment editing when provided */
+  editHandlers?: SegmentEditHandlers;
 }
 
 /**
@@ -51,6 +60,8 @@ export interface TranscriptViewerProps {
  * - Copy to clipboard functionality
  * - Responsive layout
  * - Keyboard shortcuts
+ * - Optional inline segment editing
+ * - Word-level playback highlighting when segments have word timings
  *
  * @example
  * ```tsx
@@ -66,6 +77,10 @@ export const TranscriptViewer = memo(function TranscriptViewer({
   className,
   activeSegmentIndex: externalActiveSegmentIndex,
   onSegmentClick: externalOnSegmentClick,
+  activeWordIndex,
+  onWordClick,
+  onTextSelect,
+  editHandlers,
 }: TranscriptViewerProps) {
   const [viewMode, setViewMode] = useState<'full' | 'segments'>(defaultView);
   const [copiedToClipboard, setCopiedToClipboard] = useState(false);
@@ -181,6 +196,10 @@ export const TranscriptViewer = memo(function TranscriptViewer({
               currentMatchIndex={search.currentMatchIndex}
               activeSegmentIndex={activeSegmentIndex}
               onSegmentClick={handleSegmentClick}
+              activeWordIndex={activeWordIndex}
+              onWordClick={onWordClick}
+              onTextSelect={onTextSelect}
+              editHandlers={editHandlers}
             />
           )}
         </Box>
@@ -191,8 +210,13 @@ export const TranscriptViewer = memo(function TranscriptViewer({
   // Only re-render if transcript or key props change
   return prevProps.transcript.id === nextProps.transcript.id &&
          prevProps.transcript.text === nextProps.transcript.text &&
+         prevProps.transcript.segments === nextProps.transcript.segments &&
          prevProps.activeSegmentIndex === nextProps.activeSegmentIndex &&
-         prevProps.onSegmentClick === nextProps.onSegmentClick;
+         prevProps.onSegmentClick === nextProps.onSegmentClick &&
+         prevProps.activeWordIndex === nextProps.activeWordIndex &&
+         prevProps.onWordClick === nextProps.onWordClick &&
+         prevProps.onTextSelect === nextProps.onTextSelect &&
+         prevProps.editHandlers === nextProps.editHandlers;
 });
 
 /**
@@ -286,6 +310,10 @@ interface SegmentViewProps {
   currentMatchIndex: number;
   activeSegmentIndex?: number;
   onSegmentClick: (index: number) => void;
+  activeWordIndex?: number;
+  onWordClick?: (time: number) => void;
+  onTextSelect?: (segmentIndex: number, from: number, to: number) => void;
+  editHandlers?: SegmentEditHandlers;
 }
 
 const SegmentView = memo(function SegmentView({
@@ -293,7 +321,11 @@ const SegmentView = memo(function SegmentView({
   searchQuery,
   currentMatchIndex,
   activeSegmentIndex,
-  onSegmentClick
+  onSegmentClick,
+  activeWordIndex,
+  onWordClick,
+  onTextSelect,
+  editHandlers
 }: SegmentViewProps) {
   if (segments.length === 0) {
     return (
@@ -315,16 +347,24 @@ const SegmentView = memo(function SegmentView({
         currentMatchIndex={currentMatchIndex}
         activeSegmentIndex={activeSegmentIndex}
         onSegmentClick={onSegmentClick}
+        activeWordIndex={activeWordIndex}
+        onWordClick={onWordClick}
+        onTextSelect={onTextSelect}
+        editHandlers={editHandlers}
       />
     </Box>
   );
 }, (prevProps, nextProps) => {
-  // Only re-render if segments or search changes
+  // Only re-render if segments, search or edit handlers change
   return prevProps.segments === nextProps.segments &&
          prevProps.searchQuery === nextProps.searchQuery &&
          prevProps.currentMatchIndex === nextProps.currentMatchIndex &&
          prevProps.activeSegmentIndex === nextProps.activeSegmentIndex &&
-         prevProps.onSegmentClick === nextProps.onSegmentClick;
+         prevProps.onSegmentClick === nextProps.onSegmentClick &&
+         prevProps.activeWordIndex === nextProps.activeWordIndex &&
+         prevProps.onWordClick === nextProps.onWordClick &&
+         prevProps.onTextSelect === nextProps.onTextSelect &&
+         prevProps.editHandlers === nextProps.editHandlers;
 });
 
 /**
@@ -0,0 +1,140 @@
+/**
+ * Custom hooks for the cross-meeting action item tracker
+ * Provides real-time updates when tracked items or transcripts change
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  getAllActionItems,
+  getActionItemsByTranscript,
+  getAllTranscripts,
+  updateActionItem as dbUpdateActionItem,
+  deleteActionItem as dbDeleteActionItem,
+} from '@/lib/db';
+import { filterActionItems } from '@/lib/action-items';
+import type { Transcript } from '@/types/transcript';
+import type {
+  ActionItemFilters,
+  ActionItemStatus,
+  ActionItemUpdate,
+  TrackedActionItem,
+} from '@/types/action-item';
+
+/** Sort rank of each status: open work first, superseded items last */
+const STATUS_RANK: Record<ActionItemStatus, number> = {
+  open: 0,
+  in_progress: 0,
+  done: 1,
+  superseded: 2,
+};
+
+/**
+ * Sort items: open work first, then by due date (undated last), then newest
+ */
+function compareActionItems(a: TrackedActionItem, b: TrackedActionItem): number {
+  const rankA = STATUS_RANK[a.status];
+  const rankB = STATUS_RANK[b.status];
+  if (rankA !== rankB) return rankA - rankB;
+
+  const dueA = a.dueDate?.getTime() ?? Infinity;
+  const dueB = b.dueDate?.getTime() ?? Infinity;
+  if (dueA !== dueB) return dueA - dueB;
+
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+/**
+ * Hook to fetch tracked action items across all meetings
+ *
+ * @param filters - Department, owner, status and overdue filters
+ * @returns Filtered items with their transcripts, the known owners, and actions
+ */
+export function useActionItems(filters: ActionItemFilters = {}) {
+  const data = useLiveQuery(
+    async () => {
+      try {
+        const [items, transcripts] = await Promise.all([getAllActionItems(), getAllTranscripts()]);
+        return { items, transcripts };
+      } catch (error) {
+        console.error('Error fetching action items:', error);
+        return { items: [] as TrackedActionItem[], transcripts: [] as Transcript[] };
+      }
+    },
+    [],
+    undefined
+  );
+
+  const transcripts = useMemo(
+    () => new Map((data?.transcripts ?? []).map((transcript) => [transcript.id, transcript])),
+    [data]
+  );
+
+  const items = useMemo(() => {
+    const departments = new Map(
+      Array.from(transcripts.values()).map((transcript) => [transcript.id, transcript.department])
+    );
+    return filterActionItems(data?.items ?? [], filters, departments).sort(compareActionItems);
+    // Filters are compared field by field so callers can pass a new object each render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [data, transcripts, filters.department, filters.owner, filters.status, filters.overdueOnly]);
+
+  const owners = useMemo(
+    () =>
+      Array.from(
+        new Set((data?.items ?? []).map((item) => item.owner?.trim()).filter((owner): owner is string => !!owner))
+      ).sort((a, b) => a.localeCompare(b)),
+    [data]
+  );
+
+  const updateActionItem = useCallback(async (id: string, updates: ActionItemUpdate) => {
+    try {
+      await dbUpdateActionItem(id, updates);
+    } catch (error) {
+      console.error('Error updating action item:', error);
+      throw error;
+    }
+  }, []);
+
+  const deleteActionItem = useCallback(async (id: string) => {
+    try {
+      await dbDeleteActionItem(id);
+    } catch (error) {
+      console.error('Error deleting action item:', error);
+      throw error;
+    }
+  }, []);
+
+  return {
+    items,
+    transcripts,
+    owners,
+    isLoading: data === undefined,
+    updateActionItem,
+    deleteActionItem,
+  };
+}
+
+/**
+ * Hook to fetch the tracked action items of one transcript
+ *
+ * @param transcriptId - The transcript ID (no items are loaded when undefined)
+ * @returns The transcript's tracked items (empty while loading)
+ */
+export function useTranscriptActionItems(transcriptId: string | undefined) {
+  const items = useLiveQuery(
+    async () => {
+      if (!transcriptId) return [];
+      try {
+        return await getActionItemsByTranscript(transcriptId);
+      } catch (error) {
+        console.error('Error fetching transcript action items:', error);
+        return [];
+      }
+    },
+    [transcriptId],
+    [] as TrackedActionItem[]
+  );
+
+  return items;
+}
@@ -10,7 +10,12 @@
 import { useState, useCallback } from 'react';
 import React from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import type { Analysis, AnalysisProgress } from '@/types/analysis';
+import type {
+  Analysis,
+  AnalysisProgress,
+  AnalysisSection,
+  AnalysisStreamEvent,
+} from '@/types/analysis';
 import type { Transcript } from '@/types/transcript';
 import type { Template } from '@/types/template';
 import type { AnalysisStrategy } from '@/lib/analysis-strategy';
@@ -21,12 +26,11 @@ import {
   type PaginationOptions,
   type PaginatedResult
 } from '@/lib/db';
-import {
-  calculateEstimatedTime,
-  getStrategyPhases,
-  calculatePhaseProgress,
-  type ProgressPhase
-} from '@/lib/analysis-progress-metadata';
+import type { ProgressPhase } from '@/lib/analysis-progress-metadata';
+import { isSSEResponse, readSSEStream } from '@/lib/sse';
+import { applySpeakerRoster, buildSpeakerAttributedText } from '@/lib/speaker-roster';
+import { getTemplateVersion } from '@/lib/template-revisions';
+import { resolveTemplateVariables, type TemplateVariableValues } from '@/lib/template-variables';
 
 /**
  * Analysis state interface
@@ -50,8 +54,14 @@ export interface AnalysisState {
   /** Abort controller for cancelling in-progress analysis */
   abortController: AbortController | null;
 
-  /** Resolved strategy being used (after 'auto' resolution) */
+  /** Resolved strategy being used (after 'auto' resolution on the server) */
   resolvedStrategy: AnalysisStrategy | null;
+
+  /** Progress phases reported by the server for the running analysis */
+  phases: ProgressPhase[];
+
+  /** Sections completed so far, streamed before the analysis finishes */
+  partialSections: AnalysisSection[];
 }
 
 /**
@@ -66,7 +76,8 @@ export interface UseAnalysisReturn {
     transcript: Transcript,
     template: Template,
     strategy?: AnalysisStrategy | 'auto',
-    runEvaluation?: boolean
+    runEvaluation?: boolean,
+    variables?: TemplateVariableValues
   ) => Promise<Analysis | null>;
 
   /** Fetch all analyses for a transcript */
@@ -93,6 +104,8 @@ const initialState: AnalysisState = {
   progress: null,
   abortController: null,
   resolvedStrategy: null,
+  phases: [],
+  partialSections: [],
 };
 
 /**
@@ -177,8 +190,8 @@ export function useAnalysis(): UseAnalysisReturn {
    * Analyze a transcript using the specified template
    *
    * This function:
-   * 1. Calls the analysis API endpoint
-   * 2. Tracks progress during analysis with simulated updates
+   * 1. Calls the analysis API endpoint with streaming enabled
+   * 2. Tracks real phase progress and partial sections from server-sent events
    * 3. Saves the completed analysis to IndexedDB
    * 4. Returns the analysis object
    * 5. Supports cancellation via AbortController
@@ -187,13 +200,15 @@ export function useAnalysis(): UseAnalysisReturn {
    * @param template - The analysis template to use
    * @param strategy - Analysis strategy ('basic' | 'hybrid' | 'advanced' | 'auto'). Defaults to 'auto'
    * @param runEvaluation - Whether to run evaluation on the analysis. Defaults to true
+   * @param variables - Values entered for the template's prompt variables
    */
   const analyzeTranscript = useCallback(
     async (
       transcript: Transcript,
       template: Template,
       strategy?: AnalysisStrategy | 'auto',
-      runEvaluation?: boolean
+      runEvaluation?: boolean,
+      variables?: TemplateVariableValues
     ): Promise<Analysis | null> => {
       // Guard against concurrent analyses
       if (state.loading) {
@@ -203,26 +218,18 @@ export function useAnalysis(): UseAnalysisReturn {
 
       // Create abort controller for cancellation
       const abortController = new AbortController();
-      let progressInterval: NodeJS.Timeout | null = null;
-      let currentProgress = 0;
 
       try {
-        // Determine actual strategy to use (resolve 'auto' to concrete strategy)
-        const resolvedStrategy: AnalysisStrategy =
-          strategy === 'auto'
-            ? template.sections.length > 6
-              ? 'advanced'
-              : template.sections.length > 3
-              ? 'hybrid'
-              : 'basic'
-            : (strategy || 'basic');
+        const runEval = runEvaluation !== false;
 
         setState((prev) => ({
           ...prev,
           loading: true,
           error: null,
           abortController, // Store controller in state for cancel button
-          resolvedStrategy, // Store resolved strategy for UI progress display
+          resolvedStrategy: strategy && strategy !== 'auto' ? strategy : null,
+          phases: [],
+          partialSections: [],
           progress: {
             progress: 0,
             message: 'Preparing analysis...',
@@ -231,60 +238,16 @@ export function useAnalysis(): UseAnalysisReturn {
           },
         }));
 
-        // Get strategy-specific phases and time estimate (only for hybrid/advanced)
-        const sectionCount = Math.max(1, template.sections.length);
-        const runEval = runEvaluation !== false;
-
-        // Basic strategy uses simple static messages, hybrid/advanced use time-based progress
-        if (resolvedStrategy !== 'basic') {
-          const phases = getStrategyPhases(resolvedStrategy, template, runEval);
-          const totalEstimatedTime = calculateEstimatedTime(
-            resolvedStrategy,
-            sectionCount,
-            runEval
+        // Report unfilled prompt variables before anything is sent
+        const { values: variableValues, unresolved } = resolveTemplateVariables(
+          template,
+          transcript,
+          variables
+        );
+        if (unresolved.length > 0) {
+          throw new Error(
+            `Enter a value for ${unresolved.map((name) => `{{${name}}}`).join(', ')} before running this template`
           );
-
-          // Track elapsed time and current phase
-          const startTime = Date.now();
-
-          // Start strategy-aware progress updates
-          progressInterval = setInterval(() => {
-            const elapsedSeconds = (Date.now() - startTime) / 1000;
-
-            // Calculate progress and current phase
-            const { progress, phase } = calculatePhaseProgress(
-              elapsedSeconds,
-              totalEstimatedTime,
-              phases
-            );
-
-            // Cap progress at 75% until API responds
-            if (progress < 75) {
-              updateProgress({
-                progress: Math.floor(progress),
-                message: phase?.message || 'Processing...',
-                complete: false,
-                currentSection: phase?.name || 'Processing',
-              });
-            }
-          }, 2000); // Update every 2 seconds
-
-          // Initial progress update for hybrid/advanced
-          const initialPhase = phases[0];
-          updateProgress({
-            progress: 5,
-            message: initialPhase?.message || `Starting ${resolvedStrategy} analysis...`,
-            complete: false,
-            currentSection: initialPhase?.name || 'Initializing',
-          });
-        } else {
-          // Basic strategy: simple static message
-          updateProgress({
-            progress: 0,
-            message: 'Processing...',
-            complete: false,
-            currentSection: 'Processing',
-          });
         }
 
         // Call the analysis API endpoint with abort signal
@@ -297,22 +260,19 @@ export function useAnalysis(): UseAnalysisReturn {
             transcriptId: transcript.id,
             templateId: template.id,
             transcript: {
-              text: transcript.text,
-              segments: transcript.segments,
+              // Attribute statements to roster names rather than raw diarization labels
+              text: buildSpeakerAttributedText(transcript),
+              segments: applySpeakerRoster(transcript.segments, transcript.speakers),
             },
             template: template,
+            variables: variableValues,
             strategy: strategy || 'auto',
-            runEvaluation: runEvaluation !== false,
+            runEvaluation: runEval,
+            stream: true,
           }),
           signal: abortController.signal,
         });
 
-        // Clear progress interval once API responds
-        if (progressInterval) {
-          clearInterval(progressInterval);
-          progressInterval = null;
-        }
-
         if (!response.ok) {
           const errorData = await response.json().catch(() => ({}));
           throw new Error(
@@ -320,47 +280,82 @@ export function useAnalysis(): UseAnalysisReturn {
           );
         }
 
-        // Show evaluation phase if enabled
-        if (runEval) {
-          updateProgress({
-            progress: resolvedStrategy === 'basic' ? 0 : 78,
-            message: resolvedStrategy === 'basic' ? 'Reviewing...' : 'Running quality review and self-evaluation...',
-            complete: false,
-            currentSection: 'Quality Review',
-          });
-        } else if (resolvedStrategy !== 'basic') {
-          updateProgress({
-            progress: 80,
-            message: 'Processing analysis results...',
-            complete: false,
-            currentSection: 'Finalizing',
+        let analysisData: Analysis | null = null;
+        let phases: ProgressPhase[] = [];
+
+        if (isSSEResponse(response)) {
+          // Progress, phases and partial sections all come from the server;
+          // only a `complete` event counts as a finished analysis
+          // Declared with `as` so TypeScript doesn't narrow away assignments made in the callback
+          let streamError = null as string | null;
+
+          await readSSEStream(response, (message) => {
+            const streamEvent = message as AnalysisStreamEvent;
+            switch (streamEvent.event) {
+              case 'start':
+                phases = streamEvent.data.phases;
+                setState((prev) => ({
+                  ...prev,
+                  resolvedStrategy: streamEvent.data.strategy,
+                  phases: streamEvent.data.phases,
+                }));
+                break;
+              case 'progress': {
+                const { progress, phaseId, message: progressMessage } = streamEvent.data;
+                updateProgress({
+                  progress,
+                  phaseId,
+                  message: progressMessage,
+                  complete: false,
+                  currentSection: phases.find((phase) => phase.id === phaseId)?.name,
+                });
+                break;
+              }
+              case 'section':
+                setState((prev) => ({
+                  ...prev,
+                  partialSections: [...prev.partialSections, ...streamEvent.data.sections],
+                }));
+                break;
+              case 'complete':
+                analysisData = streamEvent.data;
+                break;
+              case 'error':
+                streamError = streamEvent.data.error;
+                break;
+            }
           });
-        }
-
-        const responseData = await response.json();
 
-        // The API returns the full Analysis object in responseData.data
-        const analysis: Analysis = responseData.data
-          ? {
-              ...responseData.data,
-              // Ensure createdAt is a Date object
-              createdAt: responseData.data.createdAt
-                ? new Date(responseData.data.createdAt)
-                : new Date(),
-            }
-          : {
-              id: responseData.id || uuidv4(),
-              transcriptId: transcript.id,
-              templateId: template.id,
-              results: responseData.results || responseData,
-              createdAt: responseData.createdAt
-                ? new Date(responseData.createdAt)
-                : new Date(),
-            };
+          if (streamError) {
+            throw new Error(streamError);
+          }
+          if (!analysisData) {
+            throw new Error('The analysis was interrupted. Please try again.');
+          }
+        } else {
+          // Non-streaming response: the full Analysis object is in responseData.data
+          const responseData = await response.json();
+          analysisData = responseData.data ?? null;
+          if (!analysisData) {
+            throw new Error('Analysis response was empty');
+          }
+        }
 
+        const completedData: Analysis = analysisData;
+        const analysis: Analysis = {
+          ...completedData,
+          id: completedData.id || uuidv4(),
+          // Pin the analysis to the template revision it ran against
+          templateVersion: getTemplateVersion(template),
+          // Ensure createdAt is a Date object after JSON transport
+          createdAt: completedData.createdAt ? new Date(completedData.createdAt) : new Date(),
+        };
+
+        const savingPhase = phases.find((phase) => phase.id === 'saving');
         updateProgress({
-          progress: resolvedStrategy === 'basic' ? 0 : 90,
-          message: 'Saving analysis...',
+          progress: savingPhase?.range[0] ?? 90,
+          phaseId: 'saving',
+          message: savingPhase?.message ?? 'Saving analysis...',
           complete: false,
           currentSection: 'Saving',
         });
@@ -368,19 +363,13 @@ export function useAnalysis(): UseAnalysisReturn {
         // Save to IndexedDB
         await saveAnalysis(analysis);
 
-        updateProgress({
-          progress: resolvedStrategy === 'basic' ? 0 : 100,
-          message: 'Analysis complete!',
-          complete: true,
-          currentSection: 'Complete',
-        });
-
         setState((prev) => ({
           ...prev,
           analysis,
           analyses: [...prev.analyses, analysis],
           loading: false,
           abortController: null,
+          partialSections: [],
           progress: {
             progress: 100,
             message: 'Analysis complete!',
@@ -426,11 +415,6 @@ export function useAnalysis(): UseAnalysisReturn {
         }));
 
         return null;
-      } finally {
-        // CRITICAL: Always clear interval in finally block to prevent memory leaks
-        if (progressInterval) {
-          clearInterval(progressInterval);
-        }
       }
     },
     [updateProgress] // Removed state.loading to prevent callback recreation during analysis
@@ -471,6 +455,8 @@ export function useAnalysis(): UseAnalysisReturn {
       progress: null,
       abortController: null,
       resolvedStrategy: null,
+      phases: [],
+      partialSections: [],
     }));
   }, []);
 
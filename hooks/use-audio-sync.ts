@@ -16,6 +16,7 @@ import type {
   PlaybackSpeed,
 } from '@/types/audio';
 import type { TranscriptSegment } from '@/types/transcript';
+import { findActiveWordIndex } from '@/lib/word-timing';
 
 /**
  * Props for the useAudioSync hook
@@ -27,6 +28,9 @@ interface UseAudioSyncProps {
   /** Callback when active segment changes */
   onSegmentChange?: (segment: TranscriptSegment | null, index: number) => void;
 
+  /** Callback when the active word within the active segment changes */
+  onWordChange?: (wordIndex: number) => void;
+
   /** Callback when playback state changes */
   onPlaybackStateChange?: (state: PlaybackState) => void;
 
@@ -102,6 +106,7 @@ function findActiveSegment(
 export function useAudioSync({
   segments,
   onSegmentChange,
+  onWordChange,
   onPlaybackStateChange,
   initialSpeed = 1,
   initialVolume = 0.8,
@@ -111,6 +116,7 @@ export function useAudioSync({
 
   // Track last active segment to avoid redundant callbacks
   const lastActiveSegmentIndex = useRef<number>(-1);
+  const lastActiveWordIndex = useRef<number>(-1);
 
   // Audio sync state
   const [syncState, setSyncState] = useState<AudioSyncState>({
@@ -122,6 +128,7 @@ export function useAudioSync({
     muted: false,
     activeSegment: null,
     activeSegmentIndex: -1,
+    activeWordIndex: -1,
   });
 
   /**
@@ -130,12 +137,14 @@ export function useAudioSync({
   const updateCurrentTime = useCallback(
     (time: number) => {
       const [activeSegment, activeSegmentIndex] = findActiveSegment(segments, time);
+      const activeWordIndex = findActiveWordIndex(activeSegment?.words, time);
 
       setSyncState((prev) => ({
         ...prev,
         currentTime: time,
         activeSegment,
         activeSegmentIndex,
+        activeWordIndex,
       }));
 
       // Call segment change callback if segment changed
@@ -143,8 +152,14 @@ export function useAudioSync({
         lastActiveSegmentIndex.current = activeSegmentIndex;
         onSegmentChange?.(activeSegment, activeSegmentIndex);
       }
+
+      // Word changes are reported separately so only the active segment re-renders
+      if (activeWordIndex !== lastActiveWordIndex.current) {
+        lastActiveWordIndex.current = activeWordIndex;
+        onWordChange?.(activeWordIndex);
+      }
     },
-    [segments, onSegmentChange]
+    [segments, onSegmentChange, onWordChange]
   );
 
   /**
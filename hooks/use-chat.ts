@@ -14,6 +14,7 @@
  * - Live reactive updates via useLiveQuery
  * - Automatic conversation creation on first message
  * - Message persistence in IndexedDB
+ * - Streaming answers rendered as they arrive, with cancellation
  * - Error handling and loading states
  * - Clear and delete conversation functions
  */
@@ -26,7 +27,10 @@ import {
   updateConversation,
   deleteConversation as dbDeleteConversation,
 } from '@/lib/db';
-import type { ChatMessage, Conversation, ChatError } from '@/types/chat';
+import { getCitedSegments } from '@/lib/chat-citations';
+import { isSSEResponse, readSSEStream } from '@/lib/sse';
+import type { ChatMessage, Conversation, ChatError, ChatStreamEvent } from '@/types/chat';
+import type { TranscriptSegment } from '@/types/transcript';
 
 /**
  * Return type for the useChat hook
@@ -38,6 +42,9 @@ export interface UseChatReturn {
   /** Whether a message is currently being sent/received */
   loading: boolean;
 
+  /** Whether answer tokens are currently arriving (partial answer is in `messages`) */
+  streaming: boolean;
+
   /** Error message if the last operation failed */
   error: string | null;
 
@@ -47,6 +54,9 @@ export interface UseChatReturn {
   /** Send a question and receive an answer */
   sendMessage: (question: string) => Promise<void>;
 
+  /** Cancel the in-flight answer (nothing is saved) */
+  cancel: () => void;
+
   /** Clear all messages in the conversation (soft reset) */
   clearConversation: () => Promise<void>;
 
@@ -63,12 +73,14 @@ export interface UseChatReturn {
  * Handles:
  * - Loading existing conversation from IndexedDB
  * - Sending messages to stateless API endpoint
- * - Saving responses to IndexedDB
+ * - Streaming partial answers into the message list
+ * - Saving responses to IndexedDB once the stream completes
  * - Reactive updates when conversation changes
  * - Error handling and loading states
  *
  * @param transcriptId - ID of the transcript to chat about
  * @param transcriptText - Full text of the transcript (sent with each API call)
+ * @param citableSegments - Segments whose markers the text carries, when the answer should cite them
  * @returns Chat interface with messages, loading state, and actions
  *
  * @example
@@ -98,8 +110,11 @@ export interface UseChatReturn {
  */
 export function useChat(
   transcriptId: string,
-  transcriptText: string
+  transcriptText: string,
+  citableSegments?: TranscriptSegment[]
 ): UseChatReturn {
+  const citeSegments = (citableSegments?.length ?? 0) > 0;
+
   // Load conversation from IndexedDB with reactive updates
   const conversation = useLiveQuery(
     async () => {
@@ -121,9 +136,22 @@ export function useChat(
   // Optimistic UI: store pending user message to show immediately
   const [pendingUserMessage, setPendingUserMessage] = useState<ChatMessage | null>(null);
 
+  // Partial assistant answer while tokens are streaming in (not yet persisted)
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+
   // Ref to track if we're currently processing a message (prevents duplicate sends)
   const processingRef = useRef(false);
 
+  // Abort controller for the in-flight request (cancel button / unmount)
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight request when the component unmounts
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   // Clear error when conversation changes (e.g., after successful send)
   useEffect(() => {
     if (conversation && error) {
@@ -136,9 +164,9 @@ export function useChat(
    *
    * Flow:
    * 1. Add user message to local state
-   * 2. Call stateless API endpoint
-   * 3. Add assistant response to messages
-   * 4. Save updated conversation to IndexedDB
+   * 2. Call stateless API endpoint with streaming enabled
+   * 3. Render the partial answer as tokens arrive
+   * 4. Save updated conversation to IndexedDB when the stream completes
    */
   const sendMessage = useCallback(async (question: string) => {
     // Prevent duplicate sends
@@ -157,6 +185,9 @@ export function useChat(
     setLoading(true);
     setError(null);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
     // Create user message
     const userMessage: ChatMessage = {
       id: crypto.randomUUID(),
@@ -184,9 +215,12 @@ export function useChat(
         body: JSON.stringify({
           transcriptId,
           transcriptText,
+          citeSegments,
           question: question.trim(),
           conversationHistory: conversation?.messages || [],
+          stream: true,
         }),
+        signal: abortController.signal,
       });
 
       // Handle error responses
@@ -222,20 +256,64 @@ export function useChat(
         }
       }
 
-      // Parse success response
-      const { data } = await response.json();
+      const assistantId = crypto.randomUUID();
+      let answer = '';
+      let model: string | undefined;
+
+      if (isSSEResponse(response)) {
+        // Render tokens as they arrive; only a `done` event counts as a complete answer
+        // Declared with `as` so TypeScript doesn't narrow away assignments made in the callback
+        let streamError = null as ChatError | null;
+        let completed = false as boolean;
+
+        await readSSEStream(response, (message) => {
+          const streamEvent = message as ChatStreamEvent;
+          if (streamEvent.event === 'delta') {
+            answer += streamEvent.data.content;
+            setStreamingMessage({
+              id: assistantId,
+              role: 'assistant',
+              content: answer,
+              timestamp: new Date(),
+            });
+          } else if (streamEvent.event === 'done') {
+            answer = streamEvent.data.answer;
+            model = streamEvent.data.model;
+            completed = true;
+          } else if (streamEvent.event === 'error') {
+            streamError = streamEvent.data;
+          }
+        });
+
+        if (streamError) {
+          console.error('[useChat] Stream error:', streamError);
+          throw new Error(
+            streamError.message || 'Failed to get response from AI. Please try again.'
+          );
+        }
+        if (!completed) {
+          throw new Error('The response was interrupted. Please try again.');
+        }
+      } else {
+        // Parse non-streaming success response
+        const { data } = await response.json();
+        answer = data?.answer;
+        model = data?.model;
+      }
 
-      if (!data?.answer) {
+      if (!answer) {
         throw new Error('Received invalid response from server');
       }
 
       // Create assistant message with model info
       const assistantMessage: ChatMessage = {
-        id: crypto.randomUUID(),
+        id: assistantId,
         role: 'assistant',
-        content: data.answer,
+        content: answer,
         timestamp: new Date(),
-        model: data.model, // Include model name from API response
+        model, // Include model name from API response
+        // Cited segments keep their start times, so citations survive later splits and merges
+        ...(citableSegments?.length && { citedSegments: getCitedSegments(answer, citableSegments) }),
       };
 
       // Update messages array
@@ -248,7 +326,7 @@ export function useChat(
       console.log('[useChat] Message sent successfully, saving to IndexedDB:', {
         messageCount: updatedMessages.length,
         hasExistingConversation: !!conversation,
-        model: data.model,
+        model,
       });
 
       // Save to IndexedDB
@@ -271,14 +349,34 @@ export function useChat(
       setPendingUserMessage(null);
       console.log('[useChat] Conversation saved successfully');
     } catch (err) {
-      console.error('[useChat] Error sending message:', err);
-      setError(err instanceof Error ? err.message : 'Failed to send message');
-      // Keep pending message visible on error so user can see what they sent
+      if (abortController.signal.aborted) {
+        // Cancelled by the user: drop the unanswered question and partial answer
+        console.log('[useChat] Message cancelled');
+        setPendingUserMessage(null);
+      } else {
+        console.error('[useChat] Error sending message:', err);
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+        // Keep pending message visible on error so user can see what they sent
+      }
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setStreamingMessage(null);
       setLoading(false);
       processingRef.current = false;
     }
-  }, [transcriptId, transcriptText, conversation]);
+  }, [transcriptId, transcriptText, citeSegments, citableSegments, conversation]);
+
+  /**
+   * Cancel the in-flight answer
+   *
+   * Aborts the request (which also stops generation on the server). The
+   * question and any partial answer are discarded without being saved.
+   */
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   /**
    * Clear all messages from the conversation (soft reset)
@@ -329,16 +427,21 @@ export function useChat(
   // Only add pending message if it's not already in DB (prevents duplicate key error during race condition)
   const dbMessages = conversation?.messages || [];
   const pendingNotInDb = pendingUserMessage && !dbMessages.some(m => m.id === pendingUserMessage.id);
-  const displayedMessages = pendingNotInDb
+  const withPending = pendingNotInDb
     ? [...dbMessages, pendingUserMessage]
     : dbMessages;
+  const displayedMessages = streamingMessage
+    ? [...withPending, streamingMessage]
+    : withPending;
 
   return {
     messages: displayedMessages,
     loading,
+    streaming: streamingMessage !== null,
     error,
     conversationId: conversation?.id || null,
     sendMessage,
+    cancel,
     clearConversation,
     deleteConversation,
     hasConversation: !!conversation,
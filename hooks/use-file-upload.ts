@@ -134,6 +134,13 @@ function mergeTranscriptParts(parts: TranscriptApiResponse[]): TranscriptApiResp
         index: nextIndex++,
         start: segment.start + cumulativeDuration,
         end: segment.end + cumulativeDuration,
+        ...(segment.words && {
+          words: segment.words.map((word) => ({
+            ...word,
+            start: word.start + cumulativeDuration,
+            end: word.end + cumulativeDuration,
+          })),
+        }),
       });
     }
 
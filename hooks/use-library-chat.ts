@@ -0,0 +1,387 @@
+/**
+ * Custom hook for Q&A chat across the whole transcript library
+ *
+ * Each question retrieves the most relevant passages from transcripts
+ * matching the conversation's filters (department, date range) and sends
+ * only those passages to the stateless chat API. Answers cite passages by
+ * number; the cited passages are saved with the answer as `sources`.
+ *
+ * Library conversations are stored CLIENT-SIDE ONLY in their own
+ * IndexedDB table, apart from per-transcript conversations.
+ *
+ * Features:
+ * - Live reactive conversation list via useLiveQuery
+ * - Automatic conversation creation on first message
+ * - Streaming answers rendered as they arrive, with cancellation
+ * - Error handling and loading states
+ */
+
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  findLibraryPassages,
+  getAllLibraryConversations,
+  saveLibraryConversation,
+  updateLibraryConversation,
+  deleteLibraryConversation,
+} from '@/lib/db';
+import { isSSEResponse, readSSEStream } from '@/lib/sse';
+import type {
+  ChatMessage,
+  ChatError,
+  ChatSource,
+  ChatStreamEvent,
+  LibraryChatFilters,
+  LibraryChatRequest,
+  LibraryConversation,
+} from '@/types/chat';
+
+/**
+ * Return type for the useLibraryChat hook
+ */
+export interface UseLibraryChatReturn {
+  /** All library conversations, most recently updated first */
+  conversations: LibraryConversation[];
+
+  /** The open conversation (null when starting a new one) */
+  conversation: LibraryConversation | null;
+
+  /** Messages of the open conversation in chronological order */
+  messages: ChatMessage[];
+
+  /** Filters for the next question (fixed once a conversation exists) */
+  filters: LibraryChatFilters;
+
+  /** Change the filters of a new conversation */
+  setFilters: (filters: LibraryChatFilters) => void;
+
+  /** Whether a message is currently being sent/received */
+  loading: boolean;
+
+  /** Whether answer tokens are currently arriving (partial answer is in `messages`) */
+  streaming: boolean;
+
+  /** Error message if the last operation failed */
+  error: string | null;
+
+  /** Send a question and receive an answer */
+  sendMessage: (question: string) => Promise<void>;
+
+  /** Cancel the in-flight answer (nothing is saved) */
+  cancel: () => void;
+
+  /** Open a saved conversation */
+  selectConversation: (conversationId: string) => void;
+
+  /** Start a new conversation */
+  newConversation: () => void;
+
+  /** Delete a conversation permanently */
+  deleteConversation: (conversationId: string) => Promise<void>;
+}
+
+/**
+ * Conversation title from its first question
+ */
+function buildTitle(question: string): string {
+  return question.length > 80 ? `${question.slice(0, 80)}…` : question;
+}
+
+/**
+ * Hook to manage library-wide chat conversations
+ *
+ * @returns Chat interface with conversations, messages, filters, and actions
+ *
+ * @example
+ * ```tsx
+ * function LibraryChat() {
+ *   const { messages, filters, setFilters, sendMessage } = useLibraryChat();
+ *   // ...
+ * }
+ * ```
+ */
+export function useLibraryChat(): UseLibraryChatReturn {
+  const conversations = useLiveQuery(
+    async () => {
+      try {
+        return await getAllLibraryConversations();
+      } catch (error) {
+        console.error('[useLibraryChat] Error loading conversations:', error);
+        return [];
+      }
+    },
+    [],
+    [] as LibraryConversation[]
+  );
+
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [draftFilters, setDraftFilters] = useState<LibraryChatFilters>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Optimistic UI: store pending user message to show immediately
+  const [pendingUserMessage, setPendingUserMessage] = useState<ChatMessage | null>(null);
+
+  // Partial assistant answer while tokens are streaming in (not yet persisted)
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+
+  // Ref to track if we're currently processing a message (prevents duplicate sends)
+  const processingRef = useRef(false);
+
+  // Abort controller for the in-flight request (cancel button / unmount)
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  const conversation = conversations.find((c) => c.id === activeId) ?? null;
+  const filters = conversation?.filters ?? draftFilters;
+
+  /**
+   * Send a message and receive a response
+   *
+   * Flow:
+   * 1. Retrieve passages for the question from the filtered library
+   * 2. Call the stateless API endpoint with the passages
+   * 3. Render the partial answer as tokens arrive
+   * 4. Save the answer with its sources to IndexedDB
+   */
+  const sendMessage = useCallback(async (question: string) => {
+    if (processingRef.current) {
+      console.warn('[useLibraryChat] Already processing a message, ignoring duplicate send');
+      return;
+    }
+
+    if (!question.trim()) {
+      setError('Question cannot be empty');
+      return;
+    }
+
+    processingRef.current = true;
+    setLoading(true);
+    setError(null);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    const userMessage: ChatMessage = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      content: question.trim(),
+      timestamp: new Date(),
+    };
+    setPendingUserMessage(userMessage);
+
+    try {
+      const passages = await findLibraryPassages(userMessage.content, filters);
+      if (passages.length === 0) {
+        throw new Error(
+          'No transcripts mention this topic. Try different words or widen the filters.'
+        );
+      }
+
+      const sources: ChatSource[] = passages.map((passage) => ({
+        transcriptId: passage.transcriptId,
+        filename: passage.filename,
+        segmentIndex: passage.segmentIndex,
+        start: passage.start,
+        end: passage.end,
+      }));
+
+      const requestBody: LibraryChatRequest = {
+        passages: passages.map((passage) => ({
+          filename: passage.filename,
+          createdAt: passage.createdAt.toISOString(),
+          start: passage.start,
+          end: passage.end,
+          text: passage.text,
+        })),
+        question: userMessage.content,
+        conversationHistory: conversation?.messages || [],
+        stream: true,
+      };
+
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+        signal: abortController.signal,
+      });
+
+      if (!response.ok) {
+        let errorData: { error: ChatError };
+        try {
+          errorData = await response.json();
+        } catch {
+          throw new Error(`API request failed with status ${response.status}`);
+        }
+
+        const chatError = errorData.error;
+        console.error('[useLibraryChat] API error:', chatError);
+
+        if (chatError.type === 'token_limit') {
+          throw new Error(
+            'The conversation is too long. Start a new conversation to continue.'
+          );
+        } else if (chatError.type === 'validation') {
+          throw new Error('Invalid request. Please try again.');
+        } else {
+          throw new Error(chatError.message || 'An error occurred. Please try again.');
+        }
+      }
+
+      const assistantId = crypto.randomUUID();
+      let answer = '';
+      let model: string | undefined;
+
+      if (isSSEResponse(response)) {
+        // Declared with `as` so TypeScript doesn't narrow away assignments made in the callback
+        let streamError = null as ChatError | null;
+        let completed = false as boolean;
+
+        await readSSEStream(response, (message) => {
+          const streamEvent = message as ChatStreamEvent;
+          if (streamEvent.event === 'delta') {
+            answer += streamEvent.data.content;
+            setStreamingMessage({
+              id: assistantId,
+              role: 'assistant',
+              content: answer,
+              timestamp: new Date(),
+              sources,
+            });
+          } else if (streamEvent.event === 'done') {
+            answer = streamEvent.data.answer;
+            model = streamEvent.data.model;
+            completed = true;
+          } else if (streamEvent.event === 'error') {
+            streamError = streamEvent.data;
+          }
+        });
+
+        if (streamError) {
+          console.error('[useLibraryChat] Stream error:', streamError);
+          throw new Error(
+            streamError.message || 'Failed to get response from AI. Please try again.'
+          );
+        }
+        if (!completed) {
+          throw new Error('The response was interrupted. Please try again.');
+        }
+      } else {
+        const { data } = await response.json();
+        answer = data?.answer;
+        model = data?.model;
+      }
+
+      if (!answer) {
+        throw new Error('Received invalid response from server');
+      }
+
+      const assistantMessage: ChatMessage = {
+        id: assistantId,
+        role: 'assistant',
+        content: answer,
+        timestamp: new Date(),
+        model,
+        sources,
+      };
+
+      if (conversation) {
+        await updateLibraryConversation(conversation.id, [
+          ...conversation.messages,
+          userMessage,
+          assistantMessage,
+        ]);
+      } else {
+        const newConversation: LibraryConversation = {
+          id: crypto.randomUUID(),
+          title: buildTitle(userMessage.content),
+          filters,
+          messages: [userMessage, assistantMessage],
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        };
+        await saveLibraryConversation(newConversation);
+        setActiveId(newConversation.id);
+      }
+
+      setPendingUserMessage(null);
+    } catch (err) {
+      if (abortController.signal.aborted) {
+        // Cancelled by the user: drop the unanswered question and partial answer
+        setPendingUserMessage(null);
+      } else {
+        console.error('[useLibraryChat] Error sending message:', err);
+        setError(err instanceof Error ? err.message : 'Failed to send message');
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setStreamingMessage(null);
+      setLoading(false);
+      processingRef.current = false;
+    }
+  }, [conversation, filters]);
+
+  const cancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const selectConversation = useCallback((conversationId: string) => {
+    if (processingRef.current) return;
+    setActiveId(conversationId);
+    setPendingUserMessage(null);
+    setError(null);
+  }, []);
+
+  const newConversation = useCallback(() => {
+    if (processingRef.current) return;
+    setActiveId(null);
+    setDraftFilters({});
+    setPendingUserMessage(null);
+    setError(null);
+  }, []);
+
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    try {
+      await deleteLibraryConversation(conversationId);
+      if (conversationId === activeId) {
+        setActiveId(null);
+        setPendingUserMessage(null);
+      }
+      setError(null);
+    } catch (err) {
+      console.error('[useLibraryChat] Error deleting conversation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
+  }, [activeId]);
+
+  // DB messages + pending user message (optimistic UI) + streaming answer
+  const dbMessages = conversation?.messages || [];
+  const pendingNotInDb = pendingUserMessage && !dbMessages.some(m => m.id === pendingUserMessage.id);
+  const withPending = pendingNotInDb ? [...dbMessages, pendingUserMessage] : dbMessages;
+  const displayedMessages = streamingMessage ? [...withPending, streamingMessage] : withPending;
+
+  return {
+    conversations,
+    conversation,
+    messages: displayedMessages,
+    filters,
+    setFilters: setDraftFilters,
+    loading,
+    streaming: streamingMessage !== null,
+    error,
+    sendMessage,
+    cancel,
+    selectConversation,
+    newConversation,
+    deleteConversation,
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * Live Transcription Hook
+ *
+ * Transcribes recording chunks as they arrive and keeps a stitched,
+ * growing transcript for display during the recording. Pair it with the
+ * `onChunk` option of useRecording.
+ *
+ * @example
+ * ```tsx
+ * const live = useLiveTranscription({ model: 'gpt-4o-transcribe' });
+ * const recording = useRecording({
+ *   onChunk: live.addChunk,
+ *   onRecordingComplete: async (blob) => {
+ *     const { results, failedCount } = await live.finish();
+ *     // Assemble the transcript from results if nothing failed
+ *   },
+ * });
+ * ```
+ */
+
+'use client';
+
+import { useState, useCallback, useMemo, useRef } from 'react';
+import {
+  MIN_CHUNK_BYTES,
+  stitchLiveChunks,
+  transcribeChunk,
+  type LiveChunkResult,
+  type LiveTranscriptionOptions,
+  type StitchedTranscript,
+} from '@/lib/live-transcription';
+import type { RecordingChunk } from '@/types/recording';
+
+/**
+ * Progress of a single chunk
+ */
+export interface LiveChunkStatus {
+  index: number;
+  status: 'transcribing' | 'done' | 'failed';
+  error?: string;
+}
+
+/**
+ * Outcome of a live transcription once the recording has stopped
+ */
+export interface LiveTranscriptionOutcome {
+  /** Transcribed chunks in recording order */
+  results: LiveChunkResult[];
+  /** Chunks that still failed after a retry */
+  failedCount: number;
+}
+
+export interface UseLiveTranscriptionReturn {
+  /** Everything transcribed so far, stitched in recording order */
+  transcript: StitchedTranscript;
+  /** Per-chunk progress */
+  chunks: LiveChunkStatus[];
+  /** Whether any chunk is still being transcribed */
+  isTranscribing: boolean;
+  /** Queue a chunk for transcription */
+  addChunk: (chunk: RecordingChunk) => void;
+  /** Wait for queued chunks, retrying failures once */
+  finish: () => Promise<LiveTranscriptionOutcome>;
+  /** Abort in-flight requests and clear all results */
+  reset: () => void;
+}
+
+/**
+ * Custom hook for transcribing a recording while it is in progress.
+ *
+ * @param options - Transcription model, language and diarization settings
+ * @returns Stitched transcript, chunk progress and queue controls
+ */
+export function useLiveTranscription(
+  options: LiveTranscriptionOptions = {}
+): UseLiveTranscriptionReturn {
+  const [results, setResults] = useState<LiveChunkResult[]>([]);
+  const [chunks, setChunks] = useState<LiveChunkStatus[]>([]);
+
+  // Latest options, read when each chunk is sent
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Chunks waiting for a successful transcription, kept for retries
+  const queuedRef = useRef(new Map<number, RecordingChunk>());
+
+  // Results by chunk index, mirrored into state for rendering
+  const resultsRef = useRef(new Map<number, LiveChunkResult>());
+
+  const inFlightRef = useRef(new Set<Promise<void>>());
+  const abortControllerRef = useRef(new AbortController());
+
+  const setChunkStatus = useCallback((next: LiveChunkStatus) => {
+    setChunks((prev) =>
+      [...prev.filter((chunk) => chunk.index !== next.index), next].sort(
+        (a, b) => a.index - b.index
+      )
+    );
+  }, []);
+
+  const send = useCallback(
+    (chunk: RecordingChunk): Promise<void> => {
+      const { signal } = abortControllerRef.current;
+      setChunkStatus({ index: chunk.index, status: 'transcribing' });
+
+      const request = transcribeChunk(chunk, optionsRef.current, signal)
+        .then((transcript) => {
+          if (signal.aborted) return;
+          const result: LiveChunkResult = {
+            index: chunk.index,
+            offset: chunk.offset,
+            duration: chunk.duration,
+            transcript,
+          };
+          queuedRef.current.delete(chunk.index);
+          resultsRef.current.set(chunk.index, result);
+          setResults(Array.from(resultsRef.current.values()));
+          setChunkStatus({ index: chunk.index, status: 'done' });
+        })
+        .catch((error: unknown) => {
+          if (signal.aborted) return;
+          console.error(`[LiveTranscription] Chunk ${chunk.index} failed:`, error);
+          setChunkStatus({
+            index: chunk.index,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Transcription failed',
+          });
+        })
+        .finally(() => {
+          inFlightRef.current.delete(request);
+        });
+
+      inFlightRef.current.add(request);
+      return request;
+    },
+    [setChunkStatus]
+  );
+
+  const addChunk = useCallback(
+    (chunk: RecordingChunk) => {
+      // Near-empty chunks (e.g. stopping right after a rotation) carry no speech
+      if (chunk.blob.size < MIN_CHUNK_BYTES) return;
+      queuedRef.current.set(chunk.index, chunk);
+      void send(chunk);
+    },
+    [send]
+  );
+
+  const finish = useCallback(async (): Promise<LiveTranscriptionOutcome> => {
+    await Promise.all(Array.from(inFlightRef.current));
+
+    const failed = Array.from(queuedRef.current.values());
+    for (let i = 0; i < failed.length; i++) {
+      await send(failed[i]);
+    }
+
+    return {
+      results: Array.from(resultsRef.current.values()).sort((a, b) => a.index - b.index),
+      failedCount: queuedRef.current.size,
+    };
+  }, [send]);
+
+  const reset = useCallback(() => {
+    abortControllerRef.current.abort();
+    abortControllerRef.current = new AbortController();
+    queuedRef.current.clear();
+    resultsRef.current.clear();
+    inFlightRef.current.clear();
+    setResults([]);
+    setChunks([]);
+  }, []);
+
+  const transcript = useMemo(() => stitchLiveChunks(results), [results]);
+  const isTranscribing = chunks.some((chunk) => chunk.status === 'transcribing');
+
+  return { transcript, chunks, isTranscribing, addChunk, finish, reset };
+}
@@ -19,6 +19,8 @@
  * - Comprehensive resource cleanup (streams, timers, URLs)
  * - Error handling with categorized error types
  * - External stream provision for integration with audio source selection
+ * - Optional self-contained chunks for live transcription (`onChunk`)
+ * - Optional crash-safe persistence of every chunk to IndexedDB (`persistSession`)
  *
  * @example
  * ```tsx
@@ -48,12 +50,33 @@
 "use client";
 
 import * as React from 'react';
+import { ChunkedRecorder } from '@/lib/live-transcription';
+import {
+  beginRecordingSession,
+  closeRecordingSession,
+  persistRecordingChunk,
+} from '@/lib/recording-recovery';
 import type {
+  RecordingChunk,
   RecordingMode,
   RecordingState,
   UseRecordingReturn,
 } from '@/types/recording';
 
+/**
+ * Details of a completed recording.
+ */
+export interface RecordingCompleteInfo {
+  /** Seconds of active recording (pauses excluded) */
+  duration: number;
+
+  /**
+   * Recovery session holding a persisted copy of the audio, when
+   * `persistSession` is on. Close it once the recording is saved.
+   */
+  sessionId: string | null;
+}
+
 /**
  * Options for configuring the recording hook.
  */
@@ -62,13 +85,33 @@ interface UseRecordingOptions {
    * Callback invoked when recording is completed successfully.
    * Receives the recorded audio as a Blob.
    */
-  onRecordingComplete?: (blob: Blob) => void;
+  onRecordingComplete?: (blob: Blob, info: RecordingCompleteInfo) => void;
 
   /**
    * Callback invoked when an error occurs during recording.
    * Receives the error object with details.
    */
   onError?: (error: Error) => void;
+
+  /**
+   * Callback invoked with each self-contained chunk of the recording.
+   * When set, a second recorder on the same stream is restarted every
+   * `chunkIntervalMs`; the final chunk is delivered before
+   * onRecordingComplete.
+   */
+  onChunk?: (chunk: RecordingChunk) => void;
+
+  /**
+   * Milliseconds of active recording per chunk (default 30000).
+   */
+  chunkIntervalMs?: number;
+
+  /**
+   * Persist every chunk to IndexedDB as it arrives so the recording can be
+   * recovered after a crash. The session stays until the consumer closes
+   * it (see RecordingCompleteInfo.sessionId) or the recording is discarded.
+   */
+  persistSession?: boolean;
 }
 
 /**
@@ -81,7 +124,13 @@ interface UseRecordingOptions {
  * @returns Recording state and control actions
  */
 export function useRecording(options: UseRecordingOptions = {}): UseRecordingReturn {
-  const { onRecordingComplete, onError } = options;
+  const {
+    onRecordingComplete,
+    onError,
+    onChunk,
+    chunkIntervalMs = 30000,
+    persistSession = false,
+  } = options;
 
   // ============================================================================
   // State Management
@@ -139,6 +188,29 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
    */
   const streamRef = React.useRef<MediaStream | null>(null);
 
+  /**
+   * Reference to the chunk recorder (only when onChunk is provided).
+   * Runs alongside the main recorder and follows its pause/resume/stop.
+   */
+  const chunkRecorderRef = React.useRef<ChunkedRecorder | null>(null);
+
+  /**
+   * Settles once the chunk recorder has delivered its final chunk.
+   * The main recorder waits on it before reporting completion.
+   */
+  const chunksFlushedRef = React.useRef<Promise<void>>(Promise.resolve());
+
+  /**
+   * Recovery session the chunks are persisted to (when persistSession is on).
+   * Kept after completion so the consumer can close it once saved.
+   */
+  const sessionIdRef = React.useRef<string | null>(null);
+
+  /**
+   * Selected mode, readable from recorder callbacks bound before re-render.
+   */
+  const modeRef = React.useRef<RecordingMode | null>(null);
+
   /**
    * Array of recorded audio chunks.
    * Accumulated during recording and combined into a Blob when stopped.
@@ -201,6 +273,10 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     }
     mediaRecorderRef.current = null;
 
+    // Cancel chunk recorder without delivering a partial chunk
+    chunkRecorderRef.current?.cancel();
+    chunkRecorderRef.current = null;
+
     // Stop all media stream tracks
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => {
@@ -226,6 +302,19 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     chunksRef.current = [];
   }, [audioUrl]);
 
+  /**
+   * Delete the recovery session, if any (recording discarded).
+   */
+  const closeSession = React.useCallback(() => {
+    const sessionId = sessionIdRef.current;
+    sessionIdRef.current = null;
+    if (sessionId) {
+      closeRecordingSession(sessionId).catch((err) => {
+        console.warn('Error closing recording session:', err);
+      });
+    }
+  }, []);
+
   // ============================================================================
   // Timer Management
   // ============================================================================
@@ -249,20 +338,32 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     }, 100); // Update every 100ms for smooth UI updates
   }, []);
 
+  /**
+   * Seconds of active recording so far, unrounded.
+   *
+   * While running this is wall-clock time since the (pause-adjusted)
+   * start; while paused it is the duration stored when pausing.
+   */
+  const getActiveSeconds = React.useCallback(() => {
+    return timerRef.current
+      ? (Date.now() - startTimeRef.current) / 1000
+      : pausedDurationRef.current;
+  }, []);
+
   /**
    * Stop the duration timer.
    *
-   * Preserves the current duration in pausedDurationRef so that
+   * Preserves the exact elapsed time in pausedDurationRef so that
    * it can be restored when resuming.
    */
   const stopTimer = React.useCallback(() => {
     if (timerRef.current) {
+      // Store current duration so it can be restored on resume
+      pausedDurationRef.current = (Date.now() - startTimeRef.current) / 1000;
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
-    // Store current duration so it can be restored on resume
-    pausedDurationRef.current = duration;
-  }, [duration]);
+  }, []);
 
   // ============================================================================
   // Recording Mode Selection
@@ -282,6 +383,7 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
       console.warn('Cannot change recording mode while recording is in progress');
       return;
     }
+    modeRef.current = newMode;
     setMode(newMode);
   }, [state]);
 
@@ -360,17 +462,28 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
       const recorder = new MediaRecorder(stream, { mimeType });
       mediaRecorderRef.current = recorder;
 
-      // Handle data available event - collect chunks
+      // Start a recovery session so chunks survive a crash
+      closeSession();
+      const sessionId = persistSession
+        ? beginRecordingSession(modeRef.current ?? 'microphone', mimeType)
+        : null;
+      sessionIdRef.current = sessionId;
+
+      // Handle data available event - collect (and persist) chunks
       recorder.ondataavailable = (e) => {
         if (e.data && e.data.size > 0) {
           chunksRef.current.push(e.data);
+          if (sessionId) {
+            persistRecordingChunk(sessionId, e.data, getActiveSeconds());
+          }
         }
       };
 
-      // Handle stop event - create final blob and URL
-      recorder.onstop = () => {
+      // Handle stop event - create final blob and URL once the last chunk is out
+      recorder.onstop = () => chunksFlushedRef.current.then(() => {
         // Create blob from accumulated chunks
         const blob = new Blob(chunksRef.current, { type: mimeType });
+        const finalDuration = getActiveSeconds();
         setAudioBlob(blob);
 
         // Create object URL for playback
@@ -384,8 +497,8 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
         stopTimer();
 
         // Notify callback
-        onRecordingComplete?.(blob);
-      };
+        onRecordingComplete?.(blob, { duration: finalDuration, sessionId });
+      });
 
       // Handle recording errors
       recorder.onerror = (e) => {
@@ -398,6 +511,18 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
       // Start recording with 1000ms time slice for smooth data collection
       recorder.start(1000);
 
+      // Start the chunk recorder for live consumers
+      chunksFlushedRef.current = Promise.resolve();
+      if (onChunk) {
+        const chunkRecorder = new ChunkedRecorder(stream, {
+          mimeType,
+          intervalMs: chunkIntervalMs,
+          onChunk,
+        });
+        chunkRecorder.start();
+        chunkRecorderRef.current = chunkRecorder;
+      }
+
       // Start duration timer
       startTimer();
 
@@ -409,7 +534,17 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
       setState('error');
       onError?.(error);
     }
-  }, [startTimer, stopTimer, onRecordingComplete, onError]);
+  }, [
+    startTimer,
+    stopTimer,
+    getActiveSeconds,
+    closeSession,
+    onRecordingComplete,
+    onError,
+    onChunk,
+    chunkIntervalMs,
+    persistSession,
+  ]);
 
   /**
    * Pause the current recording.
@@ -427,6 +562,7 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     // Pause the MediaRecorder
     try {
       mediaRecorderRef.current.pause();
+      chunkRecorderRef.current?.pause();
       stopTimer();
       setState('paused');
     } catch (err) {
@@ -453,6 +589,7 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     // Resume the MediaRecorder
     try {
       mediaRecorderRef.current.resume();
+      chunkRecorderRef.current?.resume();
       startTimer();
       setState('recording');
     } catch (err) {
@@ -477,7 +614,11 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     }
 
     try {
-      // Stop the MediaRecorder (this triggers the onstop event)
+      // Flush the final chunk, then stop the MediaRecorder (this triggers the onstop event)
+      if (chunkRecorderRef.current) {
+        chunksFlushedRef.current = chunkRecorderRef.current.stop();
+        chunkRecorderRef.current = null;
+      }
       mediaRecorderRef.current.stop();
 
       // Stop all stream tracks to release resources
@@ -500,6 +641,7 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
    */
   const discardRecording = React.useCallback(() => {
     cleanup();
+    closeSession();
     setAudioBlob(null);
     setAudioUrl(null);
     setDuration(0);
@@ -507,7 +649,7 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     setState('idle');
     pausedDurationRef.current = 0;
     // Note: We intentionally keep the mode selected
-  }, [cleanup]);
+  }, [cleanup, closeSession]);
 
   /**
    * Reset all recording state to initial values.
@@ -517,6 +659,8 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
    */
   const reset = React.useCallback(() => {
     cleanup();
+    closeSession();
+    modeRef.current = null;
     setMode(null);
     setAudioBlob(null);
     setAudioUrl(null);
@@ -524,7 +668,7 @@ export function useRecording(options: UseRecordingOptions = {}): UseRecordingRet
     setError(null);
     setState('idle');
     pausedDurationRef.current = 0;
-  }, [cleanup]);
+  }, [cleanup, closeSession]);
 
   // ============================================================================
   // Cleanup on Unmount
@@ -0,0 +1,229 @@
+/**
+ * Template Test Bench Hook
+ *
+ * Runs a template, as currently edited, against sample transcripts from
+ * the template editor. Runs and golden outputs are kept in IndexedDB with
+ * live updates, so outputs from earlier sessions stay available to compare
+ * against.
+ */
+
+'use client';
+
+import { useCallback, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  deleteTemplateGoldenOutput,
+  getTemplateBenchRuns,
+  getTemplateGoldenOutputs,
+  getTemplateRevisions,
+  saveTemplateBenchRun,
+  saveTemplateGoldenOutput,
+} from '@/lib/db';
+import type { TemplateBenchResult } from '@/lib/analysis-strategies';
+import { buildSpeakerAttributedText } from '@/lib/speaker-roster';
+import { findBaselineRun, getGoldenOutputId, sumTokenUsage } from '@/lib/template-bench';
+import { getTemplateVersion, isSameTemplateContent } from '@/lib/template-revisions';
+import { resolveTemplateVariables, type TemplateVariableValues } from '@/lib/template-variables';
+import type { Template } from '@/types/template';
+import type {
+  BenchSectionOutput,
+  TemplateBenchRun,
+  TemplateGoldenOutput,
+  TokenUsage,
+} from '@/types/template-bench';
+import type { Transcript } from '@/types/transcript';
+
+/**
+ * Options for a test bench run
+ */
+export interface TemplateBenchOptions {
+  /** Sample transcripts to run against */
+  transcripts: Transcript[];
+  /** Sections to run; all sections when omitted */
+  sectionIds?: string[];
+  /** Values entered for the template's prompt variables */
+  variables: TemplateVariableValues;
+}
+
+/**
+ * Runs template sections on the server
+ */
+async function requestBenchRun(
+  template: Template,
+  transcript: Transcript,
+  variables: TemplateVariableValues,
+  sectionIds: string[] | undefined,
+  expected: TemplateGoldenOutput[]
+): Promise<TemplateBenchResult> {
+  const { values, unresolved } = resolveTemplateVariables(template, transcript, variables);
+  if (unresolved.length > 0) {
+    throw new Error(
+      `Enter a value for ${unresolved.map((name) => `{{${name}}}`).join(', ')} before running the test bench`
+    );
+  }
+
+  const response = await fetch('/api/template-bench', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      transcript: { text: buildSpeakerAttributedText(transcript) },
+      template: { name: template.name, sections: template.sections },
+      sectionIds,
+      variables: values,
+      expected: expected.map(({ sectionId, content }) => ({ sectionId, content })),
+    }),
+  });
+
+  const responseData = await response.json().catch(() => ({}));
+  if (!response.ok || !responseData.data) {
+    throw new Error(responseData.error || `Test bench run failed with status ${response.status}`);
+  }
+  return responseData.data;
+}
+
+/**
+ * Hook for the template test bench
+ *
+ * A run of unsaved edits is a draft run. Each output is shown next to the
+ * previous revision's output for the same transcript: for a draft, the run
+ * of the saved version; for the saved version, the run of the version
+ * before it. When that run doesn't exist yet, it is made first, so the
+ * first bench run of a version can cost twice the tokens.
+ *
+ * @param savedTemplate - Template as stored
+ * @param draftTemplate - Template with the editor's unsaved changes
+ */
+export function useTemplateBench(savedTemplate: Template, draftTemplate: Template) {
+  const templateId = savedTemplate.id;
+  const runs = useLiveQuery(() => getTemplateBenchRuns(templateId), [templateId]);
+  const goldenOutputs = useLiveQuery(() => getTemplateGoldenOutputs(templateId), [templateId]);
+
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scoringError, setScoringError] = useState<string | null>(null);
+  const [lastUsage, setLastUsage] = useState<TokenUsage | null>(null);
+
+  const version = getTemplateVersion(savedTemplate);
+  const isDraft = !isSameTemplateContent(draftTemplate, savedTemplate);
+
+  /**
+   * Template content of the run an output is compared with, when it
+   * hasn't been run yet
+   */
+  const getBaselineTemplate = useCallback(async (): Promise<Template | undefined> => {
+    if (isDraft) return savedTemplate;
+    const revisions = await getTemplateRevisions(templateId);
+    const previous = revisions.find((revision) => revision.version === version - 1);
+    return (
+      previous && {
+        ...savedTemplate,
+        ...previous.content,
+        variables: previous.content.variables,
+        version: previous.version,
+      }
+    );
+  }, [isDraft, savedTemplate, templateId, version]);
+
+  const runBench = useCallback(
+    async ({ transcripts, sectionIds, variables }: TemplateBenchOptions) => {
+      setRunning(true);
+      setError(null);
+      setScoringError(null);
+      setLastUsage(null);
+
+      const usages: TokenUsage[] = [];
+      const knownRuns = [...(runs ?? [])];
+      const current = { templateVersion: version, draft: isDraft };
+      const requested = sectionIds ?? draftTemplate.sections.map((section) => section.id);
+
+      const record = async (
+        template: Template,
+        transcript: Transcript,
+        run: Pick<TemplateBenchRun, 'templateVersion' | 'draft'>,
+        expected: TemplateGoldenOutput[]
+      ) => {
+        const ids = requested.filter((id) => template.sections.some((section) => section.id === id));
+        if (ids.length === 0) return;
+
+        const result = await requestBenchRun(template, transcript, variables, ids, expected);
+        const saved: TemplateBenchRun = {
+          id: uuidv4(),
+          templateId,
+          transcriptId: transcript.id,
+          ...run,
+          sections: result.sections,
+          ...(result.scores && { scores: result.scores }),
+          usage: result.usage,
+          createdAt: new Date(),
+        };
+        await saveTemplateBenchRun(saved);
+        knownRuns.push(saved);
+        usages.push(result.usage);
+        if (result.scoringError) setScoringError(result.scoringError);
+      };
+
+      try {
+        for (const transcript of transcripts) {
+          const hasBaseline = requested.every((sectionId) =>
+            findBaselineRun(knownRuns, transcript.id, sectionId, current)
+          );
+          if (!hasBaseline) {
+            const baseline = await getBaselineTemplate();
+            if (baseline) {
+              await record(
+                baseline,
+                transcript,
+                { templateVersion: getTemplateVersion(baseline), draft: false },
+                []
+              );
+            }
+          }
+
+          const expected = (goldenOutputs ?? []).filter(
+            (output) => output.transcriptId === transcript.id && requested.includes(output.sectionId)
+          );
+          await record(draftTemplate, transcript, current, expected);
+        }
+      } catch (err) {
+        console.error('Test bench run failed:', err);
+        setError(err instanceof Error ? err.message : 'Test bench run failed');
+      } finally {
+        setLastUsage(usages.length > 0 ? sumTokenUsage(usages) : null);
+        setRunning(false);
+      }
+    },
+    [runs, goldenOutputs, version, isDraft, draftTemplate, templateId, getBaselineTemplate]
+  );
+
+  const saveGoldenOutput = useCallback(
+    async (transcriptId: string, output: BenchSectionOutput) => {
+      await saveTemplateGoldenOutput({
+        id: getGoldenOutputId(templateId, transcriptId, output.sectionId),
+        templateId,
+        transcriptId,
+        sectionId: output.sectionId,
+        content: output.content,
+        updatedAt: new Date(),
+      });
+    },
+    [templateId]
+  );
+
+  return {
+    runs: runs ?? [],
+    goldenOutputs: goldenOutputs ?? [],
+    isLoading: runs === undefined || goldenOutputs === undefined,
+    isDraft,
+    version,
+    running,
+    error,
+    scoringError,
+    lastUsage,
+    runBench,
+    saveGoldenOutput,
+    deleteGoldenOutput: deleteTemplateGoldenOutput,
+  };
+}
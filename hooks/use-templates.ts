@@ -4,8 +4,13 @@
  */
 
 import { useLiveQuery } from 'dexie-react-hooks';
-import { getAllTemplates, getTemplate, deleteTemplate as dbDeleteTemplate } from '@/lib/db';
-import type { Template } from '@/types/template';
+import {
+  getAllTemplates,
+  getTemplate,
+  getTemplateRevisions,
+  deleteTemplate as dbDeleteTemplate,
+} from '@/lib/db';
+import type { Template, TemplateRevision } from '@/types/template';
 import { useCallback } from 'react';
 
 /**
@@ -189,3 +194,29 @@ export function useSearchTemplates(searchTerm: string) {
     isLoading: templates === undefined,
   };
 }
+
+/**
+ * Hook to fetch a template's revision history with live updates
+ *
+ * @param templateId - The template ID, or undefined to skip loading
+ * @returns Object containing revisions (oldest first) and loading state
+ */
+export function useTemplateRevisions(templateId: string | undefined) {
+  const revisions = useLiveQuery<TemplateRevision[]>(
+    async () => {
+      if (!templateId) return [];
+      try {
+        return await getTemplateRevisions(templateId);
+      } catch (error) {
+        console.error(`Error fetching revisions for template ${templateId}:`, error);
+        throw error;
+      }
+    },
+    [templateId]
+  );
+
+  return {
+    revisions: revisions || [],
+    isLoading: revisions === undefined,
+  };
+}
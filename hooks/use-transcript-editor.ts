@@ -0,0 +1,244 @@
+/**
+ * Custom hook for manually editing transcript segments
+ *
+ * Wraps the pure editing operations in lib/segment-editing.ts, persists every
+ * edit as a revision in IndexedDB, and provides undo/redo plus a diff against
+ * the original machine output.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import {
+  applyTranscriptRevision,
+  getTranscript,
+  getTranscriptRevisions,
+  setTranscriptRevision,
+} from '@/lib/db';
+import {
+  adjustSegmentTiming,
+  buildTranscriptText,
+  diffSegments,
+  editSegmentText,
+  mergeWithNextSegment,
+  splitSegment,
+  type SegmentDiff,
+} from '@/lib/segment-editing';
+import { formatTimestamp } from '@/lib/transcript-utils';
+import type {
+  SegmentEditOperation,
+  Transcript,
+  TranscriptRevision,
+  TranscriptSegment,
+} from '@/types/transcript';
+
+const EMPTY_REVISIONS: TranscriptRevision[] = [];
+
+/**
+ * Return value of useTranscriptEditor
+ */
+export interface TranscriptEditorControls {
+  /** Edit history, oldest first */
+  revisions: TranscriptRevision[];
+  /** Position of the applied revision in `revisions` (-1 = original output) */
+  currentPosition: number;
+  /** Whether an edit is currently being saved */
+  isSaving: boolean;
+  /** Whether there is an edit that can be undone */
+  canUndo: boolean;
+  /** Whether there is an undone edit that can be redone */
+  canRedo: boolean;
+  /** Whether the transcript differs from the original machine output */
+  hasEdits: boolean;
+  /** Replace a segment's text */
+  editText: (index: number, text: string) => Promise<void>;
+  /** Split a segment at a character offset */
+  split: (index: number, charOffset: number) => Promise<void>;
+  /** Merge a segment with the one after it */
+  mergeWithNext: (index: number) => Promise<void>;
+  /** Nudge a segment's start and/or end time */
+  adjustTiming: (index: number, timing: { start?: number; end?: number }) => Promise<void>;
+  /** Step back one revision */
+  undo: () => Promise<void>;
+  /** Step forward one revision */
+  redo: () => Promise<void>;
+  /** Compute a diff of the current segments against the machine output */
+  getDiff: () => SegmentDiff[];
+}
+
+/**
+ * Hook to edit a transcript's segments with persistent revision history
+ *
+ * @param transcript - The transcript being edited (should be a live query result)
+ * @returns Editing operations, undo/redo state and diff helper
+ *
+ * @example
+ * ```tsx
+ * const editor = useTranscriptEditor(transcript);
+ *
+ * <SegmentList
+ *   segments={transcript.segments}
+ *   editHandlers={{
+ *     onEditText: editor.editText,
+ *     onSplit: editor.split,
+ *     onMergeWithNext: editor.mergeWithNext,
+ *     onAdjustTiming: editor.adjustTiming,
+ *   }}
+ * />
+ * ```
+ */
+export function useTranscriptEditor(transcript: Transcript | undefined): TranscriptEditorControls {
+  const [isSaving, setIsSaving] = useState(false);
+  const transcriptId = transcript?.id;
+
+  const revisions =
+    useLiveQuery(async () => {
+      if (!transcriptId) return EMPTY_REVISIONS;
+      try {
+        return await getTranscriptRevisions(transcriptId);
+      } catch (error) {
+        console.error('Error loading transcript revisions:', error);
+        return EMPTY_REVISIONS;
+      }
+    }, [transcriptId]) ?? EMPTY_REVISIONS;
+
+  const currentPosition = useMemo(() => {
+    if (!transcript?.currentRevisionId) return -1;
+    return revisions.findIndex((r) => r.id === transcript.currentRevisionId);
+  }, [revisions, transcript?.currentRevisionId]);
+
+  const commit = useCallback(
+    async (
+      operation: SegmentEditOperation,
+      segmentIndex: number,
+      description: string,
+      apply: (segments: TranscriptSegment[]) => TranscriptSegment[]
+    ) => {
+      if (!transcript) return;
+
+      // Re-read the stored transcript so back-to-back edits never apply to stale segments
+      const latest = (await getTranscript(transcript.id)) ?? transcript;
+
+      // Let SegmentEditError propagate so the UI can show why an edit was rejected
+      const segments = apply(latest.segments);
+
+      setIsSaving(true);
+      try {
+        await applyTranscriptRevision(
+          {
+            id: crypto.randomUUID(),
+            transcriptId: transcript.id,
+            operation,
+            segmentIndex,
+            description,
+            segments,
+            createdAt: new Date(),
+          },
+          buildTranscriptText(segments)
+        );
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [transcript]
+  );
+
+  const editText = useCallback(
+    (index: number, text: string) =>
+      commit('edit-text', index, `Edited text of segment ${index + 1}`, (segments) =>
+        editSegmentText(segments, index, text)
+      ),
+    [commit]
+  );
+
+  const split = useCallback(
+    (index: number, charOffset: number) =>
+      commit('split', index, `Split segment ${index + 1}`, (segments) =>
+        splitSegment(segments, index, charOffset)
+      ),
+    [commit]
+  );
+
+  const mergeWithNext = useCallback(
+    (index: number) =>
+      commit('merge', index, `Merged segments ${index + 1} and ${index + 2}`, (segments) =>
+        mergeWithNextSegment(segments, index)
+      ),
+    [commit]
+  );
+
+  const adjustTiming = useCallback(
+    (index: number, timing: { start?: number; end?: number }) => {
+      const segment = transcript?.segments.find((s) => s.index === index);
+      const start = timing.start ?? segment?.start ?? 0;
+      const end = timing.end ?? segment?.end ?? 0;
+      return commit(
+        'adjust-timing',
+        index,
+        `Adjusted timing of segment ${index + 1} to ${formatTimestamp(start)}–${formatTimestamp(end)}`,
+        (segments) => adjustSegmentTiming(segments, index, timing)
+      );
+    },
+    [commit, transcript?.segments]
+  );
+
+  const moveTo = useCallback(
+    async (position: number) => {
+      if (!transcript) return;
+
+      const target = position >= 0 ? revisions[position] : null;
+      const segments = target
+        ? target.segments
+        : transcript.originalSegments ?? transcript.segments;
+
+      setIsSaving(true);
+      try {
+        await setTranscriptRevision(
+          transcript.id,
+          target ? target.id : null,
+          segments,
+          buildTranscriptText(segments)
+        );
+      } finally {
+        setIsSaving(false);
+      }
+    },
+    [transcript, revisions]
+  );
+
+  const canUndo = currentPosition >= 0 && !!transcript?.originalSegments;
+  const canRedo = currentPosition < revisions.length - 1;
+
+  const undo = useCallback(async () => {
+    if (!canUndo) return;
+    await moveTo(currentPosition - 1);
+  }, [canUndo, currentPosition, moveTo]);
+
+  const redo = useCallback(async () => {
+    if (!canRedo) return;
+    await moveTo(currentPosition + 1);
+  }, [canRedo, currentPosition, moveTo]);
+
+  const getDiff = useCallback((): SegmentDiff[] => {
+    if (!transcript) return [];
+    return diffSegments(
+      transcript.originalSegments ?? transcript.segments,
+      transcript.segments
+    );
+  }, [transcript]);
+
+  return {
+    revisions,
+    currentPosition,
+    isSaving,
+    canUndo,
+    canRedo,
+    hasEdits: currentPosition >= 0,
+    editText,
+    split,
+    mergeWithNext,
+    adjustTiming,
+    undo,
+    redo,
+    getDiff,
+  };
+}
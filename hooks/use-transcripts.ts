@@ -13,6 +13,7 @@ import {
   type PaginatedResult
 } from '@/lib/db';
 import type { Transcript } from '@/types/transcript';
+import type { TranscriptSearchResult } from '@/types/search';
 import { useCallback } from 'react';
 
 /**
@@ -79,40 +80,46 @@ export function useRecentTranscripts(limit: number = 5) {
 }
 
 /**
- * Hook to search/filter transcripts
+ * Maximum number of ranked results returned by useSearchTranscripts
+ */
+export const SEARCH_RESULT_LIMIT = 100;
+
+/**
+ * Hook to search transcripts using the full-text index
  *
- * @param searchTerm - Search term to filter transcripts
- * @returns Object containing filtered transcripts array and loading state
+ * With an empty search term, all transcripts are returned and `results` is
+ * empty. Otherwise `results` holds the top ranked matches with highlighted
+ * snippets, and `transcripts` the same transcripts in rank order.
+ *
+ * @param searchTerm - Query (supports "quoted phrases" and prefix*)
+ * @returns Object containing transcripts, ranked results, total match count and loading state
  */
 export function useSearchTranscripts(searchTerm: string) {
-  const transcripts = useLiveQuery(
+  const data = useLiveQuery(
     async () => {
       try {
-        const allTranscripts = await getAllTranscripts();
-
         if (!searchTerm.trim()) {
-          return allTranscripts;
+          const transcripts = await getAllTranscripts();
+          return { transcripts, results: [] as TranscriptSearchResult[], total: transcripts.length };
         }
 
-        const lowerSearch = searchTerm.toLowerCase();
-        return allTranscripts.filter((transcript) => {
-          return (
-            transcript.filename.toLowerCase().includes(lowerSearch) ||
-            transcript.text.toLowerCase().includes(lowerSearch)
-          );
+        const { items, total } = await searchTranscriptsPaginated(searchTerm, {
+          limit: SEARCH_RESULT_LIMIT,
         });
+        return { transcripts: items.map((item) => item.transcript), results: items, total };
       } catch (error) {
         console.error('Error searching transcripts:', error);
         throw error;
       }
     },
-    [searchTerm],
-    []
+    [searchTerm]
   );
 
   return {
-    transcripts: transcripts || [],
-    isLoading: transcripts === undefined,
+    transcripts: data?.transcripts ?? [],
+    results: data?.results ?? [],
+    total: data?.total ?? 0,
+    isLoading: data === undefined,
   };
 }
 
@@ -151,7 +158,7 @@ export function useTranscriptsPaginated(options: PaginationOptions = {}) {
       }
     },
     [options.limit, options.offset, options.orderBy, options.orderDirection],
-    { items: [], total: 0, hasMore: false, offset: 0, limit: 50 } as PaginatedResult<Transcript>
+    { items: [], total: 0, hasMore: false, offset: 0, limit: 50 } as PaginatedResult<TranscriptSearchResult>
   );
 
   return {
@@ -177,7 +184,7 @@ export function useTranscriptsPaginated(options: PaginationOptions = {}) {
  *   return (
  *     <div>
  *       <p>Found {result.total} results</p>
- *       {result.items.map(transcript => (
+ *       {result.items.map(({ transcript }) => (
  *         <TranscriptCard key={transcript.id} transcript={transcript} />
  *       ))}
  *     </div>
@@ -0,0 +1,227 @@
+import {
+  filterActionItems,
+  isActionItemOverdue,
+  mergeAnalysisActionItems,
+  normalizeTaskKey,
+  rescheduleActionItems,
+  resolveActionItemDeadlines,
+  resolveDeadline,
+} from '@/lib/action-items';
+import type { Analysis } from '@/types/analysis';
+import type { TrackedActionItem } from '@/types/action-item';
+
+function makeAnalysis(
+  id: string,
+  actionItems: Array<{ task: string; owner?: string; deadline?: string; timestamp?: number }>,
+  templateId = 'meeting-notes'
+): Analysis {
+  return {
+    id,
+    transcriptId: 't1',
+    templateId,
+    results: {
+      summary: '',
+      sections: [],
+      actionItems: actionItems.map((item, index) => ({ id: `${id}-${index}`, ...item })),
+    },
+    createdAt: new Date('2026-05-01'),
+  } as Analysis;
+}
+
+describe('resolveDeadline', () => {
+  const friday = new Date(2026, 4, 1);
+  const monday = new Date(2026, 4, 4, 14, 30);
+  const resolve = (phrase: string, meeting = monday) => {
+    const resolved = resolveDeadline(phrase, meeting);
+    return resolved && [resolved.date, resolved.confidence];
+  };
+
+  it('resolves named dates with high confidence', () => {
+    expect(resolve('2026-06-12', friday)).toEqual(['2026-06-12', 'high']);
+    expect(resolve('before the June 12 council meeting', friday)).toEqual(['2026-06-12', 'high']);
+    expect(resolve('antes del 12 de junio', friday)).toEqual(['2026-06-12', 'high']);
+    expect(resolve('by 6/12/27', friday)).toEqual(['2027-06-12', 'high']);
+  });
+
+  it('rolls dates without a year forward from the meeting', () => {
+    expect(resolve('January 15', friday)).toEqual(['2027-01-15', 'high']);
+  });
+
+  it('counts relative phrases from the meeting date', () => {
+    expect(resolve('tomorrow')).toEqual(['2026-05-05', 'high']);
+    expect(resolve('by Friday')).toEqual(['2026-05-08', 'medium']);
+    expect(resolve('next Friday')).toEqual(['2026-05-15', 'low']);
+    expect(resolve('next Monday')).toEqual(['2026-05-11', 'medium']);
+    expect(resolve('in two weeks')).toEqual(['2026-05-18', 'medium']);
+    expect(resolve('within 3 business days', friday)).toEqual(['2026-05-06', 'medium']);
+    expect(resolve('el próximo viernes')).toEqual(['2026-05-15', 'low']);
+  });
+
+  it('resolves periods to their last day', () => {
+    expect(resolve('end of the month')).toEqual(['2026-05-31', 'medium']);
+    expect(resolve('next week')).toEqual(['2026-05-15', 'low']);
+    expect(resolve('end of Q2')).toEqual(['2026-06-30', 'medium']);
+    expect(resolve('end of Q1')).toEqual(['2027-03-31', 'medium']);
+    expect(resolve('before the end of the fiscal year')).toEqual(['2026-09-30', 'medium']);
+  });
+
+  it('keeps the original phrase', () => {
+    expect(resolveDeadline('next Friday', monday)?.phrase).toBe('next Friday');
+  });
+
+  it('leaves phrases without a date unresolved', () => {
+    expect(resolveDeadline('ASAP', monday)).toBeUndefined();
+    expect(resolveDeadline('ongoing', monday)).toBeUndefined();
+    expect(resolveDeadline('February 30', monday)).toBeUndefined();
+  });
+});
+
+describe('mergeAnalysisActionItems', () => {
+  const meeting = new Date(2026, 4, 1);
+
+  it('keeps tracked items stable when an analysis is re-run', () => {
+    const [first] = mergeAnalysisActionItems(
+      [],
+      makeAnalysis('a1', [{ task: 'Send the revised budget to Council.', deadline: 'June 12' }]),
+      meeting
+    );
+    expect(first).toMatchObject({ status: 'open', key: 'send the revised budget to council' });
+
+    const tracked: TrackedActionItem = { ...first, status: 'in_progress', owner: 'Maria', ownerEdited: true };
+    const rerun = mergeAnalysisActionItems(
+      [tracked],
+      makeAnalysis('a2', [
+        { task: 'send the revised budget to council', owner: 'Staff' },
+        { task: 'Post the agenda' },
+      ]),
+      meeting
+    );
+
+    expect(rerun).toHaveLength(2);
+    expect(rerun[0]).toMatchObject({
+      id: first.id,
+      analysisId: 'a2',
+      status: 'in_progress',
+      owner: 'Maria',
+      dueDate: new Date(2026, 5, 12),
+    });
+    expect(rerun[1]).toMatchObject({ status: 'open', analysisId: 'a2' });
+  });
+
+  it('takes the new owner unless it was set by hand', () => {
+    const [first] = mergeAnalysisActionItems([], makeAnalysis('a1', [{ task: 'Post the agenda', owner: 'Staff' }]), meeting);
+    const [rerun] = mergeAnalysisActionItems([first], makeAnalysis('a2', [{ task: 'Post the agenda', owner: 'Luis' }]), meeting);
+    expect(rerun).toMatchObject({ id: first.id, owner: 'Luis' });
+  });
+
+  it('matches tasks a re-run rewords', () => {
+    const [budget, agenda] = mergeAnalysisActionItems(
+      [],
+      makeAnalysis('a1', [
+        { task: 'Send the revised budget to Council', timestamp: 120 },
+        { task: 'Post the agenda online', timestamp: 600 },
+      ]),
+      meeting
+    );
+    const tracked = [{ ...budget, status: 'in_progress' as const }, agenda];
+
+    const rerun = mergeAnalysisActionItems(
+      tracked,
+      makeAnalysis('a2', [
+        { task: 'Send Council the revised budget by June 12', timestamp: 300 },
+        { task: 'Publish the meeting agenda', timestamp: 610 },
+        { task: 'Book the community room', timestamp: 900 },
+      ]),
+      meeting
+    );
+
+    expect(rerun).toHaveLength(3);
+    expect(rerun[0]).toMatchObject({
+      id: budget.id,
+      status: 'in_progress',
+      task: 'Send Council the revised budget by June 12',
+      key: 'send council the revised budget by june 12',
+    });
+    // Few shared words, but mentioned at the same point of the meeting
+    expect(rerun[1]).toMatchObject({ id: agenda.id, task: 'Publish the meeting agenda' });
+    expect(rerun[2].id).not.toBe(budget.id);
+    expect(rerun[2].id).not.toBe(agenda.id);
+  });
+
+  it('supersedes open items a re-run of the same template drops', () => {
+    const first = mergeAnalysisActionItems(
+      [],
+      makeAnalysis('a1', [{ task: 'Post the agenda' }, { task: 'Call the auditor' }, { task: 'Order chairs' }]),
+      meeting
+    );
+    const other = mergeAnalysisActionItems([], makeAnalysis('b1', [{ task: 'Draft the press release' }], 'press'), meeting);
+    const tracked = [first[0], { ...first[1], status: 'done' as const }, first[2], ...other];
+
+    const rerun = mergeAnalysisActionItems(tracked, makeAnalysis('a2', [{ task: 'Post the agenda' }]), meeting);
+
+    expect(rerun).toHaveLength(2);
+    expect(rerun[0]).toMatchObject({ id: first[0].id, status: 'open' });
+    expect(rerun[1]).toMatchObject({ id: first[2].id, status: 'superseded' });
+    expect(isActionItemOverdue({ ...rerun[1], dueDate: new Date(2000, 0, 1) })).toBe(false);
+
+    // Mentioned again later, the item is reopened
+    const again = mergeAnalysisActionItems(
+      [rerun[0], rerun[1]],
+      makeAnalysis('a3', [{ task: 'Post the agenda' }, { task: 'Order chairs' }]),
+      meeting
+    );
+    expect(again[1]).toMatchObject({ id: first[2].id, status: 'open', analysisId: 'a3' });
+  });
+
+  it('keeps due dates set by hand when deadlines are resolved again', () => {
+    const analysis = makeAnalysis('a1', [{ task: 'Post the agenda', deadline: 'next week' }]);
+    analysis.results.actionItems = resolveActionItemDeadlines(analysis.results.actionItems!, meeting);
+    expect(analysis.results.actionItems[0].resolvedDeadline).toEqual({
+      date: '2026-05-08',
+      phrase: 'next week',
+      confidence: 'low',
+    });
+
+    const [tracked] = mergeAnalysisActionItems([], analysis, meeting);
+    const edited: TrackedActionItem = { ...tracked, dueDate: new Date(2026, 4, 20), dueDateEdited: true };
+    const later = new Date(2026, 4, 11);
+
+    expect(rescheduleActionItems([tracked], later)[0].dueDate).toEqual(new Date(2026, 4, 22));
+    expect(rescheduleActionItems([edited], later)).toEqual([]);
+    expect(mergeAnalysisActionItems([edited], analysis, later)[0].dueDate).toEqual(new Date(2026, 4, 20));
+  });
+
+  it('ignores case, accents and punctuation when matching', () => {
+    expect(normalizeTaskKey('Revisar   el presupuesto (versión 2)')).toBe('revisar el presupuesto version 2');
+  });
+});
+
+describe('filterActionItems', () => {
+  const now = new Date(2026, 5, 15, 9);
+  const base = mergeAnalysisActionItems(
+    [],
+    makeAnalysis('a1', [
+      { task: 'Overdue task', owner: 'Maria', deadline: '2026-06-01' },
+      { task: 'Due today', owner: 'Luis', deadline: '2026-06-15' },
+      { task: 'Done late', owner: 'maria', deadline: '2026-06-01' },
+    ]),
+    new Date(2026, 4, 1)
+  );
+  const items = base.map((item) =>
+    item.task === 'Done late' ? { ...item, status: 'done' as const } : item
+  );
+  const departments = new Map([['t1', 'parks']]);
+
+  it('treats only past due, unfinished items as overdue', () => {
+    expect(items.map((item) => isActionItemOverdue(item, now))).toEqual([true, false, false]);
+    expect(filterActionItems(items, { overdueOnly: true }, departments, now).map((i) => i.task)).toEqual([
+      'Overdue task',
+    ]);
+  });
+
+  it('filters by owner, status and department', () => {
+    expect(filterActionItems(items, { owner: 'MARIA' }, departments, now)).toHaveLength(2);
+    expect(filterActionItems(items, { status: 'done' }, departments, now)).toHaveLength(1);
+    expect(filterActionItems(items, { department: 'finance' }, departments, now)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,36 @@
+import { buildProgressPhases } from '@/lib/analysis-progress-metadata';
+import type { AnalysisStep } from '@/lib/analysis-strategies/shared';
+
+const steps: AnalysisStep[] = [
+  { id: 'batch-foundation', name: 'Foundation Batch', sectionNames: ['Summary'] },
+  { id: 'batch-action', name: 'Action Batch', sectionNames: ['Action Items'] },
+];
+
+describe('buildProgressPhases', () => {
+  it('builds one continuous phase per step followed by evaluation and saving', () => {
+    const phases = buildProgressPhases(steps, true);
+
+    expect(phases.map((p) => p.id)).toEqual([
+      'batch-foundation',
+      'batch-action',
+      'evaluation',
+      'saving',
+    ]);
+    expect(phases.map((p) => p.range)).toEqual([
+      [5, 38],
+      [38, 70],
+      [70, 85],
+      [85, 100],
+    ]);
+    expect(phases[0].description).toBe('Sections: Summary');
+  });
+
+  it('gives analysis the evaluation budget when evaluation is skipped', () => {
+    const phases = buildProgressPhases(steps.slice(0, 1), false);
+
+    expect(phases.map((p) => [p.id, p.range])).toEqual([
+      ['batch-foundation', [5, 85]],
+      ['saving', [85, 100]],
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+import { buildCitableTranscriptText, getCitedSegments, parseAnswerCitations } from '@/lib/chat-citations';
+import { mergeWithNextSegment, splitSegment } from '@/lib/segment-editing';
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+
+const segments: TranscriptSegment[] = [
+  { index: 0, start: 0, end: 4.2, text: 'Welcome everyone.', speaker: 'SPEAKER_00' },
+  { index: 1, start: 4.2, end: 65, text: 'The budget passed.', speaker: 'SPEAKER_01' },
+  { index: 2, start: 65, end: 80, text: ' ' },
+];
+
+describe('buildCitableTranscriptText', () => {
+  it('marks each non-empty segment with its index and start time', () => {
+    const transcript = {
+      id: 't',
+      filename: 't.mp3',
+      text: 'Welcome everyone. The budget passed.',
+      segments,
+      speakers: [{ label: 'SPEAKER_00', name: 'Alice' }],
+      createdAt: new Date('2026-01-01'),
+    } as Transcript;
+
+    expect(buildCitableTranscriptText(transcript)).toBe(
+      '[#0 00:00:00] Alice: Welcome everyone.\n[#1 00:00:04] SPEAKER_01: The budget passed.'
+    );
+  });
+});
+
+describe('parseAnswerCitations', () => {
+  it('splits answers into text and resolved citations', () => {
+    expect(parseAnswerCitations('It passed [#1, 00:00:00].', segments)).toEqual([
+      { type: 'text', text: 'It passed ' },
+      { type: 'citation', citation: { label: '#1', segmentIndex: 1, time: 4.2, valid: true } },
+      { type: 'citation', citation: { label: '00:00:00', segmentIndex: 0, time: 0, valid: true } },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('resolves times inside a segment and flags missing passages', () => {
+    const parts = parseAnswerCitations('See [0:30] and [#9] and [10:00].', segments);
+    const citations = parts.flatMap((part) => (part.type === 'citation' ? [part.citation] : []));
+
+    expect(citations).toEqual([
+      { label: '0:30', segmentIndex: 1, time: 30, valid: true },
+      { label: '#9', segmentIndex: 9, valid: false },
+      { label: '10:00', valid: false },
+    ]);
+  });
+
+  it('leaves other brackets in the text', () => {
+    expect(parseAnswerCitations('Options [a] and [2]', segments)).toEqual([
+      { type: 'text', text: 'Options [a] and [2]' },
+    ]);
+  });
+
+  it('follows saved citations to their segments after splits and merges', () => {
+    const answer = 'Welcome [#0]. It passed [#1].';
+    const cited = getCitedSegments(answer, segments);
+    expect(cited).toEqual([
+      { segmentIndex: 0, start: 0 },
+      { segmentIndex: 1, start: 4.2 },
+    ]);
+
+    const citations = (edited: TranscriptSegment[]) =>
+      parseAnswerCitations(answer, edited, cited).flatMap((part) =>
+        part.type === 'citation' ? [part.citation] : []
+      );
+
+    // Splitting the first segment moves "The budget passed." to #2
+    expect(citations(splitSegment(segments, 0, 'Welcome'.length))).toEqual([
+      { label: '#0', segmentIndex: 0, time: 0, valid: true },
+      { label: '#1', segmentIndex: 2, time: 4.2, valid: true },
+    ]);
+
+    // Merging it into the first segment leaves the cited time inside #0
+    expect(citations(mergeWithNextSegment(segments, 0))).toEqual([
+      { label: '#0', segmentIndex: 0, time: 0, valid: true },
+      { label: '#1', segmentIndex: 0, time: 4.2, valid: true },
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { Paragraph, Table } from 'docx';
+import { contentToBlocks, exportAnalysisToDOCX, parseMarkdownTable } from '@/lib/docx';
+import type { Analysis } from '@/types/analysis';
+import type { Transcript } from '@/types/transcript';
+
+describe('parseMarkdownTable', () => {
+  it('parses header and rows, padding short rows to the header width', () => {
+    const table = parseMarkdownTable([
+      '| Topic | Owner | Due |',
+      '|---|:---:|---|',
+      '| Budget | Finance | May 1 |',
+      '| Parks |',
+    ]);
+
+    expect(table).toEqual({
+      header: ['Topic', 'Owner', 'Due'],
+      rows: [
+        ['Budget', 'Finance', 'May 1'],
+        ['Parks', '', ''],
+      ],
+    });
+  });
+
+  it('requires a separator row unless relaxed', () => {
+    const lines = ['| Topic | Owner |', '| Budget | Finance |'];
+
+    expect(parseMarkdownTable(lines)).toBeNull();
+    expect(parseMarkdownTable(lines, false)?.rows).toEqual([['Budget', 'Finance']]);
+  });
+});
+
+describe('contentToBlocks', () => {
+  it('renders pipe tables as Word tables between paragraphs', () => {
+    const blocks = contentToBlocks(
+      ['Votes taken:', '', '| Item | Result |', '|---|---|', '| 12 | Passed |', '- Recorded by the clerk'].join('\n')
+    );
+
+    expect(blocks.filter((block) => block instanceof Table)).toHaveLength(1);
+    expect(blocks[0]).toBeInstanceOf(Paragraph);
+    expect(blocks[blocks.length - 1]).toBeInstanceOf(Paragraph);
+  });
+
+  it('only treats separator-less tables as tables for table sections', () => {
+    const content = '| Item | Result |\n| 12 | Passed |';
+
+    expect(contentToBlocks(content).some((block) => block instanceof Table)).toBe(false);
+    expect(contentToBlocks(content, true).some((block) => block instanceof Table)).toBe(true);
+  });
+});
+
+describe('exportAnalysisToDOCX', () => {
+  it('packs an analysis report into a non-empty document', async () => {
+    const transcript: Transcript = {
+      id: 't1',
+      filename: 'council.mp3',
+      text: 'We approve the budget.',
+      segments: [{ index: 0, start: 0, end: 3, text: 'We approve the budget.', speaker: 'Speaker 1' }],
+      createdAt: new Date('2021-03-04T18:00:00'),
+      metadata: { model: 'whisper-1', fileSize: 2048, duration: 3 },
+    };
+    const analysis: Analysis = {
+      id: 'a1',
+      transcriptId: 't1',
+      templateId: 'tpl',
+      results: {
+        summary: 'The council approved the budget.',
+        sections: [
+          {
+            name: 'Votes',
+            content: '| Item | Result |\n|---|---|\n| Budget | Passed |',
+            evidence: [{ text: 'We approve the budget.', start: 0, end: 3, relevance: 0.9 }],
+          },
+        ],
+        actionItems: [{ id: 'ai1', task: 'Publish minutes', owner: 'Clerk', timestamp: 2 }],
+      },
+      createdAt: new Date('2021-03-04T19:00:00'),
+    };
+
+    const result = await exportAnalysisToDOCX(analysis, transcript);
+
+    expect(result.success).toBe(true);
+    expect(result.size).toBeGreaterThan(0);
+  });
+});
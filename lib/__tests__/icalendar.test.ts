@@ -0,0 +1,128 @@
+import { findFollowUpMeetings, formatActionItemsICS, formatAnalysisICS } from '@/lib/export/icalendar';
+import type { Analysis } from '@/types/analysis';
+import type { TrackedActionItem } from '@/types/action-item';
+import type { CalendarTranscript } from '@/lib/export/icalendar';
+
+const transcript: CalendarTranscript = {
+  id: 't1',
+  filename: 'council-work-session.mp3',
+  createdAt: new Date(2026, 4, 6),
+  meetingDate: new Date(2026, 4, 4),
+  segments: [
+    { index: 0, start: 0, end: 30, text: 'Welcome.' },
+    { index: 1, start: 30, end: 90, text: 'Staff will post the revised budget.' },
+  ],
+};
+
+const analysis = {
+  id: 'a1',
+  transcriptId: 't1',
+  templateId: 'meeting-minutes',
+  createdAt: new Date(2026, 4, 6),
+  results: {
+    summary: '',
+    sections: [
+      {
+        name: 'Next Steps',
+        content:
+          'The committee will reconvene on June 12 at 2:30 pm. Staff will gather cost estimates. ' +
+          'A follow-up call is planned for next Friday.\n- Public hearing sometime next month',
+        evidence: [],
+      },
+      { name: 'Discussion', content: 'The next meeting is on June 20.', evidence: [] },
+    ],
+    actionItems: [
+      {
+        id: 'ai-1',
+        task: 'Post the revised budget, with appendices',
+        owner: 'Maria',
+        deadline: 'by Friday',
+        timestamp: 45,
+        resolvedDeadline: { date: '2026-05-08', phrase: 'by Friday', confidence: 'medium' },
+      },
+      { id: 'ai-2', task: 'Share the notes' },
+    ],
+  },
+} as unknown as Analysis;
+
+const options = { transcript, baseUrl: 'https://transcriber.example.gov', now: new Date(Date.UTC(2026, 4, 6, 15)) };
+
+/** Unfold content lines and split the calendar into lines */
+function lines(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('formatActionItemsICS', () => {
+  it('writes a VTODO per action item with due date and a link to the moment', () => {
+    const ics = formatActionItemsICS(analysis.results.actionItems!, options);
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n').every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+
+    const content = lines(ics);
+    expect(content.filter((line) => line === 'BEGIN:VTODO')).toHaveLength(2);
+    expect(content).toContain('SUMMARY:Post the revised budget\\, with appendices');
+    expect(content).toContain('DUE;VALUE=DATE:20260508');
+    expect(content).toContain('DTSTAMP:20260506T150000Z');
+    expect(content).toContain('URL:https://transcriber.example.gov/transcripts/t1?segment=1');
+    expect(content).toContain(
+      'DESCRIPTION:Owner: Maria\\nDeadline: by Friday\\nMentioned at 00:45: ' +
+        'https://transcriber.example.gov/transcripts/t1?segment=1'
+    );
+  });
+
+  it('uses the tracked status, due date and ID', () => {
+    const tracked = {
+      id: 'tracked-1',
+      key: 'post the revised budget with appendices',
+      status: 'done',
+      dueDate: new Date(2026, 4, 15),
+      completedAt: new Date(Date.UTC(2026, 4, 14, 12)),
+    } as TrackedActionItem;
+
+    const content = lines(formatActionItemsICS(analysis.results.actionItems!, { ...options, trackedItems: [tracked] }));
+
+    expect(content).toContain('UID:tracked-1@meeting-transcriber');
+    expect(content).toContain('DUE;VALUE=DATE:20260515');
+    expect(content).toContain('STATUS:COMPLETED');
+    expect(content).toContain('COMPLETED:20260514T120000Z');
+    expect(content).toContain('UID:t1-ai-2@meeting-transcriber');
+  });
+});
+
+describe('findFollowUpMeetings', () => {
+  it('finds dated meetings in next steps sections', () => {
+    expect(findFollowUpMeetings(analysis.results, transcript.meetingDate!)).toEqual([
+      {
+        text: 'The committee will reconvene on June 12 at 2:30 pm.',
+        sectionName: 'Next Steps',
+        date: '2026-06-12',
+        startMinutes: 870,
+      },
+    ]);
+  });
+});
+
+describe('formatAnalysisICS', () => {
+  it('adds follow-up meetings as events', () => {
+    const content = lines(formatAnalysisICS(analysis, options));
+
+    expect(content.filter((line) => line === 'BEGIN:VTODO')).toHaveLength(2);
+    expect(content).toContain('BEGIN:VEVENT');
+    expect(content).toContain('SUMMARY:Follow-up: council-work-session');
+    expect(content).toContain('DTSTART:20260612T143000');
+    expect(content).toContain('DTEND:20260612T153000');
+  });
+
+  it('gives untracked items of different analyses of a meeting different UIDs', () => {
+    const uids = (ics: string) => lines(ics).filter((line) => line.startsWith('UID:'));
+    const rerun = { ...analysis, id: 'a2' } as Analysis;
+
+    const first = uids(formatAnalysisICS(analysis, options));
+    const second = uids(formatAnalysisICS(rerun, options));
+
+    expect(first).toHaveLength(3);
+    expect(second.filter((uid) => first.includes(uid))).toEqual([]);
+  });
+});
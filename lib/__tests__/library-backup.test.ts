@@ -0,0 +1,223 @@
+import { createBackupManifest, parseBackupManifest, planLibraryMerge } from '@/lib/backup';
+import type { LibraryKeys, LibraryRecords } from '@/lib/db';
+import type { Transcript } from '@/types/transcript';
+import type { Analysis } from '@/types/analysis';
+
+const transcript = (id: string): Transcript => ({
+  id,
+  filename: `${id}.mp3`,
+  text: 'Call to order.',
+  segments: [{ index: 0, start: 0, end: 2, text: 'Call to order.' }],
+  createdAt: new Date('2024-03-04T18:00:00Z'),
+  metadata: { model: 'whisper-1', fileSize: 1024 },
+});
+
+const analysis = (id: string, transcriptId: string): Analysis => ({
+  id,
+  transcriptId,
+  templateId: 'meeting-minutes',
+  results: { sections: [] },
+  createdAt: new Date('2024-03-04T19:00:00Z'),
+});
+
+const emptyRecords = (): LibraryRecords => ({
+  transcripts: [],
+  analyses: [],
+  conversations: [],
+  templates: [],
+  recordings: [],
+  audioFiles: [],
+  transcriptRevisions: [],
+  libraryConversations: [],
+  actionItems: [],
+  templateRevisions: [],
+  templateBenchRuns: [],
+  templateGoldenOutputs: [],
+});
+
+const emptyKeys = (): LibraryKeys => ({
+  transcriptIds: new Set(),
+  analysisIds: new Set(),
+  conversationIds: new Set(),
+  conversationTranscriptIds: new Set(),
+  templateIds: new Set(),
+  revisionIds: new Set(),
+  audioTranscriptIds: new Set(),
+  recordingCreatedAt: new Set(),
+  libraryConversationIds: new Set(),
+  actionItemIds: new Set(),
+  templateRevisionIds: new Set(),
+  templateBenchRunIds: new Set(),
+  templateGoldenOutputIds: new Set(),
+});
+
+describe('parseBackupManifest', () => {
+  it('round-trips a manifest and rejects backups from a newer schema', () => {
+    const records = { ...emptyRecords(), transcripts: [transcript('t1')] };
+    const content = JSON.stringify(createBackupManifest(records, 9));
+
+    expect(parseBackupManifest(content, 9).counts.transcripts).toBe(1);
+    expect(parseBackupManifest(content, 10).schemaVersion).toBe(9);
+    expect(() => parseBackupManifest(content, 8)).toThrow(/database version 9/);
+  });
+
+  it('reads backups written before later tables were included', () => {
+    const manifest = createBackupManifest(emptyRecords(), 9);
+    const { libraryConversations, actionItems, templateRevisions, ...counts } = manifest.counts;
+    const content = JSON.stringify({ ...manifest, counts });
+
+    expect(libraryConversations + actionItems + templateRevisions).toBe(0);
+    expect(parseBackupManifest(content, 9).counts).toMatchObject({
+      libraryConversations: 0,
+      actionItems: 0,
+      templateRevisions: 0,
+    });
+  });
+
+  it('rejects files that are not backups', () => {
+    expect(() => parseBackupManifest('{"format":"something-else"}', 9)).toThrow(/not a Meeting Transcriber backup/);
+    expect(() => parseBackupManifest('not json', 9)).toThrow(/not valid JSON/);
+  });
+});
+
+describe('planLibraryMerge', () => {
+  const incoming: LibraryRecords = {
+    ...emptyRecords(),
+    transcripts: [transcript('t1'), transcript('t2')],
+    analyses: [analysis('a1', 't1'), analysis('a2', 't2')],
+    conversations: [
+      { id: 'c1', transcriptId: 't1', messages: [], createdAt: new Date(), updatedAt: new Date() },
+    ],
+  };
+  const existing: LibraryKeys = {
+    ...emptyKeys(),
+    transcriptIds: new Set(['t1']),
+    analysisIds: new Set(['a1']),
+    conversationIds: new Set(['c-local']),
+    conversationTranscriptIds: new Set(['t1']),
+  };
+
+  it('keeps local records when skipping conflicts', () => {
+    const plan = planLibraryMerge(incoming, existing, 'skip');
+
+    expect(plan.records.transcripts.map((t) => t.id)).toEqual(['t2']);
+    expect(plan.records.analyses.map((a) => a.id)).toEqual(['a2']);
+    expect(plan.records.conversations).toHaveLength(0);
+    expect(plan.skipped).toBe(3);
+    expect(plan.duplicated).toBe(0);
+  });
+
+  it('imports conflicting records as copies and rewrites their references', () => {
+    const plan = planLibraryMerge(incoming, existing, 'duplicate');
+    const copy = plan.records.transcripts.find((t) => t.filename === 't1.mp3 (restored)');
+
+    expect(copy).toBeDefined();
+    expect(copy!.id).not.toBe('t1');
+    expect(plan.records.analyses.find((a) => a.id !== 'a2')?.transcriptId).toBe(copy!.id);
+    expect(plan.records.conversations[0].transcriptId).toBe(copy!.id);
+    expect(plan.duplicated).toBe(2);
+  });
+
+  it('keeps action item status and points items at duplicated records', () => {
+    const item = {
+      id: 'i1',
+      transcriptId: 't1',
+      key: 'send the budget',
+      analysisId: 'a1',
+      sourceItemId: 'ai1',
+      task: 'Send the budget',
+      owner: 'Dana',
+      status: 'done' as const,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const withItems = { ...incoming, actionItems: [item] };
+
+    expect(planLibraryMerge(withItems, existing, 'skip').records.actionItems).toHaveLength(0);
+
+    const plan = planLibraryMerge(withItems, existing, 'duplicate');
+    const copy = plan.records.transcripts.find((t) => t.filename === 't1.mp3 (restored)');
+    const [restored] = plan.records.actionItems;
+
+    expect(restored.transcriptId).toBe(copy!.id);
+    expect(restored.analysisId).toBe(plan.records.analyses.find((a) => a.transcriptId === copy!.id)?.id);
+    expect(restored.status).toBe('done');
+  });
+
+  it('keeps template revisions and test bench data with their template', () => {
+    const template = {
+      id: 'custom-1',
+      name: 'Standup',
+      description: '',
+      icon: 'Users',
+      category: 'meeting' as const,
+      sections: [],
+      outputs: [],
+      isCustom: true,
+      createdAt: new Date(),
+    };
+    const withRevisions = {
+      ...emptyRecords(),
+      templates: [template],
+      templateRevisions: [{ id: 'r1', templateId: 'custom-1', version: 1, content: template, createdAt: new Date() }],
+      templateBenchRuns: [
+        {
+          id: 'b1',
+          templateId: 'custom-1',
+          transcriptId: 't1',
+          templateVersion: 1,
+          draft: false,
+          sections: [],
+          usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+          createdAt: new Date(),
+        },
+      ],
+      templateGoldenOutputs: [
+        {
+          id: 'custom-1:t1:updates',
+          templateId: 'custom-1',
+          transcriptId: 't1',
+          sectionId: 'updates',
+          content: '- Budget approved',
+          updatedAt: new Date(),
+        },
+      ],
+    };
+    const existingTemplate = { ...emptyKeys(), templateIds: new Set(['custom-1']) };
+
+    const skipped = planLibraryMerge(withRevisions, existingTemplate, 'skip').records;
+    expect(skipped.templateRevisions).toHaveLength(0);
+    expect(skipped.templateBenchRuns).toHaveLength(0);
+
+    const plan = planLibraryMerge(withRevisions, existingTemplate, 'duplicate');
+    const copyId = plan.records.templates[0].id;
+    expect(copyId).not.toBe('custom-1');
+    expect(plan.records.templateRevisions[0].templateId).toBe(copyId);
+    expect(plan.records.templateBenchRuns[0].templateId).toBe(copyId);
+    expect(plan.records.templateGoldenOutputs[0]).toMatchObject({ id: `${copyId}:t1:updates`, templateId: copyId });
+  });
+
+  it('points library chat sources at duplicated transcripts', () => {
+    const source = { transcriptId: 't1', filename: 't1.mp3', segmentIndex: 0, start: 0, end: 2 };
+    const plan = planLibraryMerge(
+      {
+        ...incoming,
+        libraryConversations: [
+          {
+            id: 'lc1',
+            title: 'Budget',
+            filters: {},
+            messages: [{ id: 'm1', role: 'assistant', content: 'See [1]', timestamp: new Date(), sources: [source] }],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+        ],
+      },
+      existing,
+      'duplicate'
+    );
+    const copy = plan.records.transcripts.find((t) => t.filename === 't1.mp3 (restored)');
+
+    expect(plan.records.libraryConversations[0].messages[0].sources?.[0].transcriptId).toBe(copy!.id);
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  buildSearchEntries,
+  findRelevantPassages,
+  getQuestionWords,
+  type SearchIndexReader,
+} from '@/lib/search';
+import type { Transcript } from '@/types/transcript';
+
+function makeTranscript(
+  id: string,
+  segments: string[],
+  createdAt: string,
+  department?: string
+): Transcript {
+  return {
+    id,
+    filename: `${id}.mp3`,
+    text: segments.join(' '),
+    segments: segments.map((text, index) => ({ index, start: index * 10, end: index * 10 + 10, text })),
+    createdAt: new Date(createdAt),
+    department,
+  } as Transcript;
+}
+
+// In-memory stand-in for the IndexedDB and SQLite index stores
+function createReader(transcripts: Transcript[]): SearchIndexReader {
+  const entries = transcripts.map(buildSearchEntries);
+  const rows = entries.flatMap((entry) => entry.terms);
+  return {
+    getTermRows: async (terms) => rows.filter((row) => terms.includes(row.term)),
+    getPrefixRows: async (prefix) => rows.filter((row) => row.term.startsWith(prefix)),
+    getDocs: async () => new Map(entries.map((entry) => [entry.doc.transcriptId, entry.doc])),
+  };
+}
+
+describe('getQuestionWords', () => {
+  it('drops question and function words', () => {
+    expect(getQuestionWords('When did we last discuss the Zilker parking plan?')).toEqual([
+      'last',
+      'discuss',
+      'zilker',
+      'parking',
+      'plan',
+    ]);
+  });
+});
+
+describe('findRelevantPassages', () => {
+  const march = makeTranscript(
+    'march',
+    [
+      'Welcome everyone.',
+      'Next item is the Zilker parking plan.',
+      'Staff recommends paid parking on weekends.',
+      'Moving on to the library budget.',
+      'The budget passed.',
+    ],
+    '2026-03-10',
+    'parks'
+  );
+  const june = makeTranscript(
+    'june',
+    ['Public comment on the Zilker parking plan continued.', 'Adjourned.'],
+    '2026-06-02',
+    'transportation'
+  );
+  const transcripts = [march, june];
+  const load = async (ids: string[]) => ids.map((id) => transcripts.find((t) => t.id === id));
+
+  it('merges neighbouring matches into one passage with context', async () => {
+    const passages = await findRelevantPassages(
+      createReader(transcripts),
+      load,
+      'Zilker parking plan'
+    );
+
+    const fromMarch = passages.find((p) => p.transcriptId === 'march');
+    expect(fromMarch).toMatchObject({ segmentIndex: 1, start: 0, end: 40 });
+    expect(fromMarch?.text.split('\n')).toHaveLength(4);
+    expect(passages.map((p) => p.transcriptId).sort()).toEqual(['june', 'march']);
+  });
+
+  it('applies department and date filters', async () => {
+    const reader = createReader(transcripts);
+
+    const byDepartment = await findRelevantPassages(reader, load, 'parking', {
+      department: 'transportation',
+    });
+    expect(byDepartment.map((p) => p.transcriptId)).toEqual(['june']);
+
+    const byDate = await findRelevantPassages(reader, load, 'parking', {
+      to: new Date('2026-04-01'),
+    });
+    expect(byDate.map((p) => p.transcriptId)).toEqual(['march']);
+  });
+
+  it('filters by meeting date when one is set', async () => {
+    const recorded = { ...march, meetingDate: new Date('2026-02-20') };
+    const reader = createReader([recorded, june]);
+
+    const byDate = await findRelevantPassages(reader, load, 'parking', {
+      from: new Date('2026-03-01'),
+    });
+    expect(byDate.map((p) => p.transcriptId)).toEqual(['june']);
+  });
+
+  it('filters departments before ranking, without loading other departments', async () => {
+    const others = Array.from({ length: 30 }, (_, i) =>
+      makeTranscript(`other-${i}`, ['Zilker parking plan parking plan.'], '2026-05-01', 'parks')
+    );
+    const library = [...others, june];
+    const loaded: string[] = [];
+    const loadLibrary = async (ids: string[]) => {
+      loaded.push(...ids);
+      return ids.map((id) => library.find((t) => t.id === id));
+    };
+
+    const passages = await findRelevantPassages(
+      createReader(library),
+      loadLibrary,
+      'Zilker parking plan',
+      { department: 'transportation' },
+      2
+    );
+    expect(passages.map((p) => p.transcriptId)).toEqual(['june']);
+    expect(loaded).toEqual(['june']);
+  });
+
+  it('returns nothing when no question word is indexed', async () => {
+    expect(await findRelevantPassages(createReader(transcripts), load, 'what was said?')).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { assembleLiveTranscript, stitchLiveChunks, type LiveChunkResult } from '@/lib/live-transcription';
+import type { Transcript } from '@/types/transcript';
+
+function chunkTranscript(text: string, end: number): Transcript {
+  return {
+    id: `chunk-${text}`,
+    filename: 'live-chunk.webm',
+    text,
+    segments: [
+      { index: 0, start: 0.5, end, text, words: [{ word: text, start: 0.5, end }] },
+    ],
+    metadata: { model: 'gpt-4o-transcribe', language: 'en', fileSize: 2048, duration: end },
+    createdAt: new Date(),
+  };
+}
+
+const chunks: LiveChunkResult[] = [
+  { index: 1, offset: 30, duration: 12, transcript: chunkTranscript('Second', 10) },
+  { index: 0, offset: 0, duration: 30, transcript: chunkTranscript('First', 28) },
+];
+
+describe('live transcription stitching', () => {
+  it('shifts chunk times by their recording offset in chunk order', () => {
+    const { text, segments, duration } = stitchLiveChunks(chunks);
+
+    expect(text).toBe('First Second');
+    expect(segments.map((s) => [s.index, s.start, s.end])).toEqual([
+      [0, 0.5, 28],
+      [1, 30.5, 40],
+    ]);
+    expect(segments[1].words?.[0]).toMatchObject({ start: 30.5, end: 40 });
+    expect(duration).toBe(42);
+  });
+
+  it('assembles a transcript for the full recording', () => {
+    const transcript = assembleLiveTranscript(chunks, {
+      filename: 'recording',
+      fileSize: 99_000,
+      duration: 43,
+    });
+
+    expect(transcript.id).not.toBe(chunks[0].transcript.id);
+    expect(transcript.metadata).toEqual({
+      model: 'gpt-4o-transcribe',
+      language: 'en',
+      fileSize: 99_000,
+      duration: 43,
+    });
+    expect(() => assembleLiveTranscript([], { filename: 'x', fileSize: 0 })).toThrow();
+  });
+});
@@ -0,0 +1,71 @@
+import { buildModelRoutingConfig, parseEnvironmentVariables } from '@/lib/validations/config';
+import { getCompletionLimitParams } from '@/lib/analysis-strategies/shared';
+import { estimateTokens, MAX_COMPLETION_TOKENS, TOKEN_LIMITS } from '@/lib/token-utils';
+import type { ModelRoute } from '@/lib/llm-routing';
+
+describe('model routing config', () => {
+  it('parses per-task models without splitting local model tags', () => {
+    const config = buildModelRoutingConfig(
+      parseEnvironmentVariables({
+        LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1',
+        LOCAL_LLM_MODEL: 'llama3.1:70b',
+        LLM_SUMMARY_MODEL: 'llama3.1:8b',
+        LLM_EVALUATION_MODEL: 'azure:gpt-5',
+        LLM_FALLBACK_BACKEND: 'azure',
+        LLM_CONTEXT_LIMITS: 'llama3.1:70b=131072, llama3.1:8b=8192',
+      })
+    );
+
+    expect(config.primary).toBe('local');
+    expect(config.fallback).toBe('azure');
+    expect(config.tasks.summary).toEqual({ model: 'llama3.1:8b' });
+    expect(config.tasks.evaluation).toEqual({ backend: 'azure', model: 'gpt-5' });
+    expect(config.contextLimits).toEqual({ 'llama3.1:70b': 131072, 'llama3.1:8b': 8192 });
+  });
+
+  it('rejects a fallback equal to the primary or an unconfigured local route', () => {
+    const env = {
+      OPENAI_API_KEY: 'sk-test-0123456789abcdef',
+      LLM_FALLBACK_BACKEND: 'openai',
+    };
+
+    expect(() => buildModelRoutingConfig(parseEnvironmentVariables(env))).toThrow();
+    expect(() =>
+      buildModelRoutingConfig(
+        parseEnvironmentVariables({ OPENAI_API_KEY: env.OPENAI_API_KEY, LLM_CHAT_MODEL: 'local:mistral' })
+      )
+    ).toThrow();
+  });
+});
+
+describe('completion token budget', () => {
+  const local: ModelRoute = {
+    backend: 'local',
+    model: 'llama3.1:8b',
+    contextLimit: TOKEN_LIMITS.local,
+    assigned: true,
+  };
+
+  it('never asks a local route for more than its context', () => {
+    const prompt = 'Discussion of the parks budget. '.repeat(2000);
+    const messages = [
+      { role: 'system' as const, content: 'You are an expert meeting analyst.' },
+      { role: 'user' as const, content: prompt },
+    ];
+
+    const params = getCompletionLimitParams(local.model, messages, local.contextLimit);
+
+    // Non-reasoning models take max_tokens
+    expect(params.max_completion_tokens).toBeUndefined();
+    expect(params.max_tokens).toBeGreaterThan(0);
+    const promptTokens = messages.reduce((total, message) => total + estimateTokens(message.content), 0);
+    expect(promptTokens + params.max_tokens!).toBeLessThanOrEqual(local.contextLimit);
+  });
+
+  it('caps large contexts and keeps max_completion_tokens for reasoning models', () => {
+    const messages = [{ role: 'user' as const, content: 'Summarize the meeting.' }];
+    expect(getCompletionLimitParams('gpt-5', messages, TOKEN_LIMITS.standard)).toEqual({
+      max_completion_tokens: MAX_COMPLETION_TOKENS,
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { mergeRedactionRanges, redactSegments, selectionToTimeSpan } from '@/lib/redaction';
+import { buildRedactionFilterArgs } from '@/lib/audio-processing';
+import type { TranscriptSegment } from '@/types/transcript';
+
+const segments: TranscriptSegment[] = [
+  {
+    index: 0,
+    start: 0,
+    end: 4,
+    text: 'My name is Jane Doe, thanks.',
+    words: [
+      { word: 'My', start: 0, end: 0.3 },
+      { word: 'name', start: 0.3, end: 0.6 },
+      { word: 'is', start: 0.6, end: 0.8 },
+      { word: 'Jane', start: 1, end: 1.4 },
+      { word: 'Doe', start: 1.5, end: 1.9 },
+      { word: 'thanks', start: 2.5, end: 3 },
+    ],
+  },
+  { index: 1, start: 4, end: 8, text: 'I live at 301 West Second Street.' },
+  { index: 2, start: 8, end: 10, text: 'Next speaker please.' },
+];
+
+describe('redaction', () => {
+  it('merges overlapping ranges and drops empty ones', () => {
+    expect(
+      mergeRedactionRanges([
+        { start: 5, end: 6 },
+        { start: 1, end: 2 },
+        { start: 1.5, end: 3 },
+        { start: 7, end: 7 },
+      ])
+    ).toEqual([
+      { start: 1, end: 3 },
+      { start: 5, end: 6 },
+    ]);
+  });
+
+  it('replaces timed words, or whole segments without word timings', () => {
+    const result = redactSegments(segments, [
+      { id: 'name', start: 0.9, end: 2 },
+      { id: 'address', start: 5, end: 6 },
+    ]);
+
+    expect(result[0].text).toBe('My name is [REDACTED], thanks.');
+    expect(result[0].words?.map((w) => w.word)).toEqual(['My', 'name', 'is', 'thanks']);
+    expect(result[1].text).toBe('[REDACTED]');
+    expect(result[2]).toBe(segments[2]);
+  });
+
+  it('redacts exactly the selected text', () => {
+    const from = segments[1].text.indexOf('301');
+    const to = segments[1].text.indexOf('.');
+    const span = selectionToTimeSpan(segments[1], from, to);
+    const result = redactSegments(segments, [
+      { id: 'selection', ...span, selection: { segmentIndex: 1, from, to } },
+    ]);
+
+    expect(span.start).toBeGreaterThan(4);
+    expect(span.end).toBeLessThan(8);
+    expect(result[1].text).toBe('I live at [REDACTED].');
+  });
+
+  it('builds a mute filter, with a tone mixed in for bleeps', () => {
+    const ranges = [{ start: 1, end: 2.5 }];
+
+    expect(buildRedactionFilterArgs(ranges, 'silence')).toEqual([
+      '-af',
+      "volume=enable='between(t,1.000,2.500)':volume=0",
+    ]);
+    expect(buildRedactionFilterArgs(ranges, 'tone')[1]).toContain("volume=enable='not(between(t,1.000,2.500))':volume=0");
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  buildSearchEntries,
+  buildSearchSnippets,
+  getQueryKeys,
+  matchClause,
+  parseSearchQuery,
+  rankMatches,
+  stem,
+  type SearchTermEntry,
+} from '@/lib/search';
+import type { Transcript } from '@/types/transcript';
+
+function makeTranscript(id: string, segments: string[], filename = `${id}.mp3`): Transcript {
+  return {
+    id,
+    filename,
+    text: segments.join(' '),
+    segments: segments.map((text, index) => ({ index, start: index * 10, end: index * 10 + 10, text })),
+    createdAt: new Date('2026-01-01'),
+  } as Transcript;
+}
+
+// Simulates the IndexedDB lookup done by searchTranscriptsPaginated
+function lookup(rows: SearchTermEntry[], word: string): SearchTermEntry[] {
+  const keys = getQueryKeys(word);
+  return rows.filter((row) => keys.includes(row.term));
+}
+
+describe('stemming', () => {
+  it('reduces English and Spanish inflections to a shared stem', () => {
+    expect(stem('meetings', 'en')).toBe(stem('meeting', 'en'));
+    expect(stem('budgeted', 'en')).toBe(stem('budget', 'en'));
+    expect(stem('votaciones', 'es')).toBe(stem('votacion', 'es'));
+    expect(stem('presupuestos', 'es')).toBe(stem('presupuesto', 'es'));
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('parses phrases, prefixes and plain terms', () => {
+    expect(parseSearchQuery('"Zoning Board" budg* vote')).toEqual([
+      { type: 'phrase', terms: ['zoning', 'board'] },
+      { type: 'term', term: 'budg', prefix: true },
+      { type: 'term', term: 'vote', prefix: false },
+    ]);
+  });
+});
+
+describe('search index', () => {
+  const a = makeTranscript('a', ['The zoning board met today.', 'The board approved the budget.']);
+  const b = makeTranscript('b', ['The board discussed zoning changes.']);
+  const rows = [...buildSearchEntries(a).terms, ...buildSearchEntries(b).terms];
+
+  it('matches phrases only when the words are adjacent', () => {
+    const clause = parseSearchQuery('"zoning board"')[0];
+    const matches = matchClause(clause, [lookup(rows, 'zoning'), lookup(rows, 'board')]);
+
+    expect(Array.from(matches.keys())).toEqual(['a']);
+    expect(matches.get('a')?.textHits).toBe(1);
+  });
+
+  it('ranks documents that match every clause and builds highlighted snippets', () => {
+    const clauses = parseSearchQuery('budgets board');
+    const clauseMatches = clauses.map((clause) =>
+      matchClause(clause, [lookup(rows, clause.type === 'term' ? clause.term : '')])
+    );
+    const docs = new Map([a, b].map((t) => [t.id, buildSearchEntries(t).doc]));
+    const ranked = rankMatches(clauseMatches, docs);
+
+    expect(ranked.map((r) => r.transcriptId)).toEqual(['a']);
+
+    const snippets = buildSearchSnippets(a, ranked[0].terms, 'en');
+    expect(snippets.map((s) => [s.segmentIndex, s.start])).toEqual([[0, 0], [1, 10]]);
+    expect(snippets[1].highlights.map(([from, to]) => snippets[1].text.slice(from, to))).toEqual([
+      'board',
+      'budget',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  diffSegments,
+  editSegmentText,
+  mergeWithNextSegment,
+  splitSegment,
+  adjustSegmentTiming,
+  SegmentEditError,
+} from '@/lib/segment-editing';
+import type { TranscriptSegment } from '@/types/transcript';
+
+const segments: TranscriptSegment[] = [
+  { index: 0, start: 0, end: 4, text: 'Good evening council members' },
+  { index: 1, start: 4, end: 8, text: 'the item is zilker park', speaker: 'Speaker 1' },
+  { index: 2, start: 8, end: 12, text: 'any objections' },
+];
+
+describe('segment editing', () => {
+  it('splits a segment at a character offset and reindexes', () => {
+    const result = splitSegment(segments, 0, 'Good evening'.length);
+
+    expect(result).toHaveLength(4);
+    expect(result[0].text).toBe('Good evening');
+    expect(result[1].text).toBe('council members');
+    expect(result[0].end).toBe(result[1].start);
+    expect(result.map((s) => s.index)).toEqual([0, 1, 2, 3]);
+  });
+
+  it('merges a segment with the next one', () => {
+    const result = mergeWithNextSegment(segments, 0);
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ start: 0, end: 8, index: 0 });
+    expect(result[0].text).toBe('Good evening council members the item is zilker park');
+  });
+
+  it('clamps timing nudges to neighbouring segments', () => {
+    const result = adjustSegmentTiming(segments, 1, { start: 2, end: 10 });
+
+    expect(result[1].start).toBe(4);
+    expect(result[1].end).toBe(8);
+  });
+
+  it('rejects empty text', () => {
+    expect(() => editSegmentText(segments, 1, '   ')).toThrow(SegmentEditError);
+  });
+
+  it('diffs edits without flagging splits as text changes', () => {
+    const edited = splitSegment(
+      editSegmentText(segments, 1, 'the item is Zilker Park'),
+      0,
+      'Good evening'.length
+    );
+    const diffs = diffSegments(segments, edited);
+
+    expect(diffs[0].textChanged).toBe(false);
+    expect(diffs[1].textChanged).toBe(false);
+    expect(diffs[2].textChanged).toBe(true);
+    expect(diffs[2].parts).toEqual([
+      { type: 'equal', text: 'the item is' },
+      { type: 'delete', text: 'zilker park' },
+      { type: 'insert', text: 'Zilker Park' },
+    ]);
+    expect(diffs[3].textChanged).toBe(false);
+  });
+
+  it('diffs long transcripts segment by segment', () => {
+    const long: TranscriptSegment[] = Array.from({ length: 2000 }, (_, index) => ({
+      index,
+      start: index * 3,
+      end: index * 3 + 3,
+      text: `segment ${index} of the budget hearing`,
+    }));
+    let edited = editSegmentText(long, 10, 'segment 10 of the budget hearing today');
+    edited = editSegmentText(edited, 1900, 'segment 1900 of the hearing');
+    edited = mergeWithNextSegment(edited, 500);
+
+    const diffs = diffSegments(long, edited);
+
+    expect(diffs.filter((diff) => diff.textChanged).map((diff) => diff.index)).toEqual([10, 1899]);
+    expect(diffs[10].parts).toEqual([
+      { type: 'equal', text: 'segment 10 of the budget hearing' },
+      { type: 'insert', text: 'today' },
+    ]);
+    expect(diffs[1899].parts).toEqual([
+      { type: 'equal', text: 'segment 1900 of the' },
+      { type: 'delete', text: 'budget' },
+      { type: 'equal', text: 'hearing' },
+    ]);
+    expect(diffs[500].textChanged).toBe(false);
+  });
+});
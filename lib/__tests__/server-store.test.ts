@@ -0,0 +1,155 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { ServerStore, ServerStoreError } from '@/lib/server-store';
+import type { Transcript } from '@/types/transcript';
+import type { Template, TemplateRevision } from '@/types/template';
+import type { Analysis } from '@/types/analysis';
+
+function makeTranscript(id: string, text: string, createdAt: string): Transcript {
+  return {
+    id,
+    filename: `${id}.mp3`,
+    text,
+    segments: [{ index: 0, start: 0, end: 10, text }],
+    createdAt: new Date(createdAt),
+    metadata: { model: 'whisper-1', fileSize: 1000, duration: 10 },
+    fingerprint: { fileHash: `hash-${id}` },
+  } as Transcript;
+}
+
+function makeAnalysis(id: string, transcriptId: string, templateId: string): Analysis {
+  return {
+    id,
+    transcriptId,
+    templateId,
+    results: { summary: id },
+    createdAt: new Date('2026-02-01'),
+  } as Analysis;
+}
+
+describe('ServerStore', () => {
+  let store: ServerStore;
+
+  beforeEach(() => {
+    store = new ServerStore(':memory:');
+    store.saveTranscripts([
+      makeTranscript('a', 'The zoning board approved the budget.', '2026-01-01'),
+      makeTranscript('b', 'The library hours were discussed.', '2026-01-02'),
+    ]);
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  it('round-trips transcripts with dates and lists them newest first', () => {
+    const transcript = store.getTranscript('a');
+    expect(transcript?.createdAt).toBeInstanceOf(Date);
+    expect(transcript?.text).toBe('The zoning board approved the budget.');
+
+    const page = store.listTranscripts({ limit: 1 });
+    expect(page.items.map((item) => item.id)).toEqual(['b']);
+    expect(page.total).toBe(2);
+    expect(page.hasMore).toBe(true);
+
+    expect(store.listTranscripts({ fileHash: 'hash-a' }).items.map((item) => item.id)).toEqual(['a']);
+  });
+
+  it('updates fields, removing those set to null, and re-indexes search', async () => {
+    store.updateTranscript('a', {
+      summary: 'Old',
+      segments: [{ index: 0, start: 0, end: 10, text: 'Parking permits.' }],
+    });
+    const updated = store.updateTranscript('a', { summary: null });
+
+    expect(updated.summary).toBeUndefined();
+    expect((await store.searchTranscripts('parking')).items.map((r) => r.transcript.id)).toEqual(['a']);
+    expect(() => store.updateTranscript('missing', {})).toThrow(ServerStoreError);
+  });
+
+  it('filters passages by meeting date, following meeting date changes', async () => {
+    const passages = (to: string) =>
+      store.findPassages('budget', { to: new Date(to) }).then((found) => found.map((p) => p.transcriptId));
+
+    expect(await passages('2026-01-15')).toEqual(['a']);
+    store.updateTranscript('a', { meetingDate: new Date('2025-12-01') });
+    expect(await passages('2025-12-15')).toEqual(['a']);
+  });
+
+  it('fills search doc meeting dates when opening an older store', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'server-store-'));
+    const filename = path.join(dir, 'store.sqlite');
+    try {
+      const old = new ServerStore(filename);
+      old.saveTranscripts([{ ...makeTranscript('m', 'Budget hearing.', '2026-03-01'), meetingDate: new Date('2026-02-20') }]);
+      old.close();
+
+      // Back to the version 2 layout
+      const db = new Database(filename);
+      db.exec('ALTER TABLE search_docs DROP COLUMN meeting_date');
+      db.exec('ALTER TABLE search_docs DROP COLUMN department');
+      db.pragma('user_version = 2');
+      db.close();
+
+      const migrated = new ServerStore(filename);
+      const found = await migrated.findPassages('budget', { to: new Date('2026-02-25') });
+      migrated.close();
+      expect(found.map((p) => p.transcriptId)).toEqual(['m']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('searches with the same ranking rules as the browser library', async () => {
+    const results = await store.searchTranscripts('budg*');
+    expect(results.items.map((result) => result.transcript.id)).toEqual(['a']);
+    expect(results.items[0].snippets.length).toBeGreaterThan(0);
+
+    expect((await store.searchTranscripts('"budget zoning"')).total).toBe(0);
+  });
+
+  it('cascades transcript and template deletes to analyses', () => {
+    store.saveTemplate({ id: 'custom', isCustom: true, createdAt: new Date() } as Template);
+    store.saveTemplate({ id: 'builtin', isCustom: false, createdAt: new Date() } as Template);
+    store.saveAnalysis(makeAnalysis('x', 'a', 'custom'));
+    store.saveAnalysis(makeAnalysis('y', 'b', 'builtin'));
+    store.saveAudio('a', Buffer.from([1, 2, 3]), {
+      filename: 'a.mp3',
+      size: 3,
+      type: 'audio/mpeg',
+      duration: 10,
+      loadedAt: new Date(),
+    });
+
+    expect(() => store.deleteTemplate('builtin')).toThrow('Cannot delete built-in templates');
+    store.deleteTemplate('custom');
+    expect(store.getAnalysis('x')).toBeUndefined();
+
+    expect(store.deleteTranscripts(['b'])).toBe(1);
+    expect(store.listAnalyses('b').total).toBe(0);
+    expect(store.getAudio('a')?.audio.length).toBe(3);
+    store.deleteTranscripts(['a']);
+    expect(store.getAudio('a')).toBeUndefined();
+  });
+
+  it('keeps template revisions immutable and deletes them with the template', () => {
+    const revision = (id: string, version: number): TemplateRevision => ({
+      id,
+      templateId: 'custom',
+      version,
+      content: { name: 'Standup', description: '', icon: 'Users', category: 'meeting', sections: [], outputs: [] },
+      createdAt: new Date('2026-03-01'),
+    });
+    store.saveTemplate({ id: 'custom', isCustom: true, createdAt: new Date() } as Template);
+    store.saveTemplateRevisions([revision('r2', 2), revision('r1', 1)]);
+
+    expect(store.listTemplateRevisions('custom').map((r) => r.version)).toEqual([1, 2]);
+    expect(store.listTemplateRevisions('custom')[0].createdAt).toEqual(new Date('2026-03-01'));
+    expect(() => store.saveTemplateRevisions([revision('r3', 2)])).toThrow(ServerStoreError);
+
+    store.deleteTemplate('custom');
+    expect(store.listTemplateRevisions('custom')).toEqual([]);
+  });
+});
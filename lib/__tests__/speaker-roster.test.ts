@@ -0,0 +1,73 @@
+import {
+  applySpeakerRoster,
+  buildSpeakerAttributedText,
+  buildSpeakerRoster,
+  getSpeakerDisplayName,
+  mergeSpeakers,
+  unmergeSpeaker,
+  updateSpeakerProfile,
+  SpeakerRosterError,
+} from '@/lib/speaker-roster';
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+
+const segments: TranscriptSegment[] = [
+  { index: 0, start: 0, end: 4, text: 'Call to order.', speaker: 'Speaker 1' },
+  { index: 1, start: 4, end: 8, text: 'Thank you, Mayor.', speaker: 'Speaker 2' },
+  { index: 2, start: 8, end: 12, text: 'First item.', speaker: 'Speaker 3' },
+  { index: 3, start: 12, end: 16, text: 'Zilker Park.', speaker: 'Speaker 3' },
+];
+
+describe('speaker roster', () => {
+  it('builds a roster from segment labels in order of appearance', () => {
+    const roster = buildSpeakerRoster(segments, [{ label: 'Speaker 2', name: 'Alter' }]);
+
+    expect(roster.map((p) => p.label)).toEqual(['Speaker 1', 'Speaker 2', 'Speaker 3']);
+    expect(roster[1].name).toBe('Alter');
+  });
+
+  it('formats names with roles and falls back to the raw label', () => {
+    const roster = updateSpeakerProfile(buildSpeakerRoster(segments), 'Speaker 2', {
+      name: 'Council Member Alter',
+      role: 'District 10',
+    });
+
+    expect(getSpeakerDisplayName('Speaker 2', roster)).toBe('Council Member Alter, District 10');
+    expect(getSpeakerDisplayName('Speaker 1', roster)).toBe('Speaker 1');
+    expect(getSpeakerDisplayName('Unknown', roster)).toBe('Unknown');
+  });
+
+  it('merges labels and follows merges transitively', () => {
+    let roster = updateSpeakerProfile(buildSpeakerRoster(segments), 'Speaker 1', { name: 'Mayor Watson' });
+    roster = mergeSpeakers(roster, 'Speaker 3', 'Speaker 2');
+    roster = mergeSpeakers(roster, 'Speaker 2', 'Speaker 1');
+
+    expect(applySpeakerRoster(segments, roster).map((s) => s.speaker)).toEqual([
+      'Mayor Watson',
+      'Mayor Watson',
+      'Mayor Watson',
+      'Mayor Watson',
+    ]);
+
+    roster = unmergeSpeaker(roster, 'Speaker 3');
+    expect(getSpeakerDisplayName('Speaker 3', roster)).toBe('Speaker 3');
+  });
+
+  it('rejects merges that would create a cycle', () => {
+    const roster = mergeSpeakers(buildSpeakerRoster(segments), 'Speaker 2', 'Speaker 1');
+
+    expect(() => mergeSpeakers(roster, 'Speaker 1', 'Speaker 2')).toThrow(SpeakerRosterError);
+    expect(() => mergeSpeakers(roster, 'Speaker 1', 'Speaker 1')).toThrow(SpeakerRosterError);
+  });
+
+  it('groups consecutive segments into speaker-attributed lines', () => {
+    const transcript = {
+      text: segments.map((s) => s.text).join(' '),
+      segments,
+      speakers: [{ label: 'Speaker 3', name: 'Staff' }],
+    } as Transcript;
+
+    expect(buildSpeakerAttributedText(transcript)).toBe(
+      'Speaker 1: Call to order.\nSpeaker 2: Thank you, Mayor.\nStaff: First item. Zilker Park.'
+    );
+  });
+});
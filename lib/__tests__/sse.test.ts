@@ -0,0 +1,39 @@
+import { createSSEStream, readSSEStream, type SSEMessage } from '@/lib/sse';
+
+describe('server-sent events', () => {
+  it('round-trips events through a stream', async () => {
+    const body = createSSEStream(async (send) => {
+      send('delta', { content: 'Hello' });
+      send('delta', { content: ', world\n' });
+      send('done', { answer: 'Hello, world\n' });
+    });
+
+    const events: SSEMessage[] = [];
+    await readSSEStream(new Response(body), (message) => events.push(message));
+
+    expect(events).toEqual([
+      { event: 'delta', data: { content: 'Hello' } },
+      { event: 'delta', data: { content: ', world\n' } },
+      { event: 'done', data: { answer: 'Hello, world\n' } },
+    ]);
+  });
+
+  it('reassembles events split across chunks', async () => {
+    const encoder = new TextEncoder();
+    const chunks = ['event: progress\nda', 'ta: {"percent":', '50}\n\nevent: done\ndata: {}\n\n'];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+
+    const events: SSEMessage[] = [];
+    await readSSEStream(new Response(body), (message) => events.push(message));
+
+    expect(events).toEqual([
+      { event: 'progress', data: { percent: 50 } },
+      { event: 'done', data: {} },
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import {
+  createBenchTemplate,
+  findBaselineRun,
+  getGoldenOutputId,
+  matchBenchSectionOutputs,
+  sumTokenUsage,
+} from '@/lib/template-bench';
+import type OpenAI from 'openai';
+import {
+  isValidExpectedOutputScoreResponse,
+  ScoringError,
+  scoreAgainstExpectedOutputs,
+} from '@/lib/analysis-strategies/evaluator';
+import { generateExpectedOutputPrompt } from '@/lib/evaluator-prompt';
+import type { Template } from '@/types/template';
+import type { TemplateBenchRun } from '@/types/template-bench';
+
+const template: Template = {
+  id: 'staff-meeting',
+  name: 'Staff Meeting',
+  description: 'Weekly staff meeting',
+  icon: 'Users',
+  category: 'meeting',
+  sections: [
+    {
+      id: 'updates',
+      name: 'Updates',
+      prompt: 'List the updates.',
+      extractEvidence: false,
+      outputFormat: 'bullet_points',
+    },
+    {
+      id: 'risks',
+      name: 'Risks',
+      prompt: 'List risks raised in the updates.',
+      extractEvidence: false,
+      outputFormat: 'bullet_points',
+      dependencies: ['updates'],
+    },
+  ],
+  outputs: ['summary', 'action_items'],
+  isCustom: true,
+  createdAt: new Date('2026-06-01T12:00:00Z'),
+};
+
+function run(overrides: Partial<TemplateBenchRun>): TemplateBenchRun {
+  return {
+    id: crypto.randomUUID(),
+    templateId: template.id,
+    transcriptId: 't1',
+    templateVersion: 1,
+    draft: false,
+    sections: [{ sectionId: 'updates', name: 'Updates', content: 'Budget approved' }],
+    usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+    createdAt: new Date('2026-06-02T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('template test bench', () => {
+  it('narrows a template to the sections under test', () => {
+    const bench = createBenchTemplate(template, ['risks']);
+
+    expect(bench.sections.map((section) => section.id)).toEqual(['risks']);
+    expect(bench.sections[0].dependencies).toEqual([]);
+    expect(bench.outputs).toEqual([]);
+    expect(createBenchTemplate(template).sections).toHaveLength(2);
+  });
+
+  it('matches outputs to sections by name, then by position', () => {
+    expect(
+      matchBenchSectionOutputs(template, [
+        { name: 'Risk Summary', content: 'Staffing gap' },
+        { name: 'Updates', content: 'Budget approved' },
+      ])
+    ).toEqual([
+      { sectionId: 'updates', name: 'Updates', content: 'Budget approved' },
+      { sectionId: 'risks', name: 'Risks', content: 'Budget approved' },
+    ]);
+    expect(matchBenchSectionOutputs(template, [])[0].content).toBe('');
+  });
+
+  it('compares drafts with the saved version and saved versions with earlier ones', () => {
+    const v1 = run({ templateVersion: 1 });
+    const v2 = run({ templateVersion: 2 });
+    const v2Later = run({ templateVersion: 2, createdAt: new Date('2026-06-03T12:00:00Z') });
+    const draft = run({ templateVersion: 2, draft: true, createdAt: new Date('2026-06-04T12:00:00Z') });
+    const otherTranscript = run({ templateVersion: 2, transcriptId: 't2' });
+    const runs = [v1, v2Later, v2, draft, otherTranscript];
+
+    expect(findBaselineRun(runs, 't1', 'updates', { templateVersion: 2, draft: true })).toBe(v2Later);
+    expect(findBaselineRun(runs, 't1', 'updates', { templateVersion: 2, draft: false })).toBe(v1);
+    expect(findBaselineRun(runs, 't1', 'updates', { templateVersion: 1, draft: false })).toBeUndefined();
+    expect(findBaselineRun(runs, 't1', 'risks', { templateVersion: 2, draft: true })).toBeUndefined();
+  });
+
+  it('sums token usage and derives stable golden output IDs', () => {
+    expect(
+      sumTokenUsage([
+        { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+        { promptTokens: 50, completionTokens: 5, totalTokens: 55 },
+      ])
+    ).toEqual({ promptTokens: 150, completionTokens: 25, totalTokens: 175 });
+    expect(getGoldenOutputId('staff-meeting', 't1', 'risks')).toBe(getGoldenOutputId('staff-meeting', 't1', 'risks'));
+    expect(getGoldenOutputId('staff-meeting', 't1', 'risks')).not.toBe(getGoldenOutputId('staff-meeting', 't2', 'risks'));
+  });
+});
+
+describe('expected output scoring', () => {
+  it('includes each expected and actual output in the prompt', () => {
+    const prompt = generateExpectedOutputPrompt([
+      { name: 'Updates', expected: '- Budget approved', actual: '- Budget was approved' },
+    ]);
+
+    expect(prompt).toContain('## Section 1: Updates');
+    expect(prompt).toContain('- Budget approved');
+    expect(prompt).toContain('- Budget was approved');
+  });
+
+  it('accepts one valid score per section', () => {
+    const section = { name: 'Updates', score: 8, reasoning: 'Same facts', missing: ['Owner'] };
+
+    expect(isValidExpectedOutputScoreResponse({ sections: [section] }, 1)).toBe(true);
+    expect(isValidExpectedOutputScoreResponse({ sections: [section] }, 2)).toBe(false);
+    expect(isValidExpectedOutputScoreResponse({ sections: [{ ...section, score: 11 }] }, 1)).toBe(false);
+    expect(isValidExpectedOutputScoreResponse({ sections: [{ ...section, missing: 'Owner' }] }, 1)).toBe(false);
+  });
+
+  it('reports the tokens spent when the scoring response is unusable', async () => {
+    const client = {
+      chat: {
+        completions: {
+          create: async () => ({
+            choices: [{ finish_reason: 'stop', message: { content: '{"sections":[]}' } }],
+            usage: { prompt_tokens: 30, completion_tokens: 5, total_tokens: 35 },
+          }),
+        },
+      },
+    } as unknown as OpenAI;
+
+    const scoring = scoreAgainstExpectedOutputs(
+      [{ name: 'Updates', expected: '- Budget approved', actual: '- Budget was approved' }],
+      client,
+      'gpt-test'
+    );
+
+    await expect(scoring).rejects.toBeInstanceOf(ScoringError);
+    await expect(scoring).rejects.toMatchObject({
+      usage: { promptTokens: 30, completionTokens: 5, totalTokens: 35 },
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  checkSectionDependencies,
+  getDependencyLevels,
+  removeMissingDependencies,
+  toggleSectionDependency,
+} from '@/lib/template-dependencies';
+import { CircularDependencyError, buildDependencyGraph, topologicalSort } from '@/lib/analysis-strategies/dependency-graph';
+import type { TemplateSection } from '@/types/template';
+
+const section = (id: string, dependencies?: string[]): TemplateSection => ({
+  id,
+  name: id[0].toUpperCase() + id.slice(1),
+  prompt: `Extract ${id}.`,
+  extractEvidence: true,
+  outputFormat: 'bullet_points',
+  ...(dependencies && { dependencies }),
+});
+
+describe('checkSectionDependencies', () => {
+  it('previews the advanced strategy execution order', () => {
+    const sections = [section('actions', ['decisions']), section('agenda'), section('decisions', ['agenda'])];
+    const check = checkSectionDependencies(sections);
+
+    expect(check.valid).toBe(true);
+    expect(check.order.map((s) => s.id)).toEqual(['agenda', 'decisions', 'actions']);
+    expect(check.order).toEqual(topologicalSort(buildDependencyGraph(sections)));
+  });
+
+  it('separates cycle members from sections blocked behind the cycle', () => {
+    const sections = [
+      section('agenda'),
+      section('decisions', ['actions', 'agenda']),
+      section('actions', ['decisions']),
+      section('summary', ['actions']),
+    ];
+    const check = checkSectionDependencies(sections);
+
+    expect(check.valid).toBe(false);
+    expect(check.cycle).toEqual(['decisions', 'actions']);
+    expect(check.blocked).toEqual(['summary']);
+    expect(check.order.map((s) => s.id)).toEqual(['agenda']);
+    expect(() => topologicalSort(buildDependencyGraph(sections))).toThrow(CircularDependencyError);
+  });
+
+  it('reports dependencies on deleted sections and orders the rest', () => {
+    const check = checkSectionDependencies([section('agenda'), section('decisions', ['agenda', 'votes'])]);
+
+    expect(check.valid).toBe(false);
+    expect(check.missing).toEqual([{ sectionId: 'decisions', sectionName: 'Decisions', dependencyId: 'votes' }]);
+    expect(check.order.map((s) => s.id)).toEqual(['agenda', 'decisions']);
+  });
+});
+
+describe('dependency editing', () => {
+  it('toggles dependencies and ignores self-dependencies', () => {
+    const sections = [section('agenda'), section('decisions')];
+    const connected = toggleSectionDependency(sections, 'decisions', 'agenda');
+
+    expect(connected[1].dependencies).toEqual(['agenda']);
+    expect(toggleSectionDependency(connected, 'decisions', 'agenda')[1].dependencies).toEqual([]);
+    expect(toggleSectionDependency(sections, 'agenda', 'agenda')).toBe(sections);
+  });
+
+  it('removes only dependencies on deleted sections', () => {
+    const sections = [section('agenda'), section('decisions', ['votes', 'agenda'])];
+    expect(removeMissingDependencies(sections)[1].dependencies).toEqual(['agenda']);
+    expect(removeMissingDependencies(sections)[0]).toBe(sections[0]);
+  });
+
+  it('places sections one column after their deepest dependency', () => {
+    const levels = getDependencyLevels([
+      section('summary', ['decisions', 'agenda']),
+      section('agenda'),
+      section('decisions', ['agenda']),
+      section('loop', ['loop']),
+    ]);
+    expect(Object.fromEntries(levels)).toEqual({ summary: 2, agenda: 0, decisions: 1, loop: 0 });
+  });
+});
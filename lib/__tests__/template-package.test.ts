@@ -0,0 +1,142 @@
+import {
+  createTemplatePackage,
+  parseTemplatePackage,
+  serializeTemplatePackage,
+} from '@/lib/template-packages/package';
+import { planTemplateImport } from '@/lib/template-packages/import-plan';
+import type { Template } from '@/types/template';
+
+function makeTemplate(overrides: Partial<Template> = {}): Template {
+  return {
+    id: 'council-minutes',
+    name: 'Council Minutes',
+    description: 'Minutes for regular council meetings',
+    icon: 'Users',
+    category: 'meeting',
+    sections: [
+      {
+        id: 'agenda',
+        name: 'Agenda Items',
+        prompt: 'List the agenda items discussed.',
+        extractEvidence: true,
+        outputFormat: 'bullet_points',
+      },
+      {
+        id: 'decisions',
+        name: 'Decisions',
+        prompt: 'List the decisions made for each agenda item.',
+        extractEvidence: true,
+        outputFormat: 'bullet_points',
+        dependencies: ['agenda'],
+      },
+    ],
+    outputs: ['summary', 'decisions'],
+    isCustom: true,
+    createdAt: new Date('2026-03-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+const exportedAt = new Date('2026-05-04T14:30:00Z');
+
+function roundTrip(templates: Template[], name?: string) {
+  return parseTemplatePackage(serializeTemplatePackage(createTemplatePackage(templates, name, exportedAt)));
+}
+
+describe('template packages', () => {
+  it('round-trips templates with their dependencies', () => {
+    const parsed = roundTrip([makeTemplate({ isCustom: false })], 'Council templates');
+
+    expect(parsed.name).toBe('Council templates');
+    expect(parsed.exportedAt).toEqual(exportedAt);
+    expect(parsed.issues).toEqual([]);
+    expect(parsed.templates).toEqual([makeTemplate()]);
+  });
+
+  it('reports invalid templates without rejecting the package', () => {
+    const content = createTemplatePackage([makeTemplate()], undefined, exportedAt);
+    const broken = {
+      ...content.templates[0],
+      id: 'broken',
+      name: 'Broken',
+      sections: [{ ...content.templates[0].sections[1], dependencies: ['missing'] }],
+    };
+    const invalid = { ...content.templates[0], id: 'Not Valid', description: 'short' };
+    const parsed = parseTemplatePackage(JSON.stringify({ ...content, templates: [...content.templates, broken, invalid] }));
+
+    expect(parsed.templates.map((t) => t.id)).toEqual(['council-minutes']);
+    expect(parsed.issues).toHaveLength(2);
+    expect(parsed.issues[0]).toEqual({
+      index: 1,
+      name: 'Broken',
+      errors: ['Section "Decisions" depends on unknown section "missing"'],
+    });
+    expect(parsed.issues[1].errors).toHaveLength(2);
+  });
+
+  it('rejects circular dependencies', () => {
+    const template = makeTemplate();
+    template.sections[0] = { ...template.sections[0], dependencies: ['decisions'] };
+
+    expect(roundTrip([template]).issues[0].errors).toEqual(['Circular dependency involving section "Agenda Items"']);
+  });
+
+  it('rejects files that are not packages or are too new', () => {
+    expect(() => parseTemplatePackage('not json')).toThrow('not valid JSON');
+    expect(() => parseTemplatePackage('{"format":"other"}')).toThrow('not a Meeting Transcriber template package');
+
+    const newer = { ...createTemplatePackage([makeTemplate()]), formatVersion: 99 };
+    expect(() => parseTemplatePackage(JSON.stringify(newer))).toThrow('newer than this app supports');
+  });
+});
+
+describe('planTemplateImport', () => {
+  const now = new Date('2026-05-10T09:00:00Z');
+  const parsed = roundTrip(
+    [makeTemplate(), makeTemplate({ id: 'standup', name: 'Daily Standup' }), makeTemplate({ id: 'new-one', name: 'Fresh' })],
+    'Shared'
+  );
+  const existing = [
+    makeTemplate({ name: 'Council Minutes (local)' }),
+    makeTemplate({ id: 'builtin-standup', name: 'daily standup', isCustom: false }),
+  ];
+
+  it('detects ID and name conflicts and records provenance', () => {
+    const plan = planTemplateImport(parsed, existing, { strategy: 'rename', filename: 'shared.json', now });
+
+    expect(plan.counts).toEqual({ create: 1, rename: 2, replace: 0, skip: 0 });
+    expect(plan.items[0].idConflict?.name).toBe('Council Minutes (local)');
+    expect(plan.items[0].result?.id).not.toBe('council-minutes');
+    expect(plan.items[0].result?.name).toBe('Council Minutes');
+    expect(plan.items[1].nameConflict?.id).toBe('builtin-standup');
+    expect(plan.items[1].result).toMatchObject({ id: 'standup', name: 'Daily Standup (imported)' });
+    expect(plan.items[2].result?.source).toEqual({
+      packageName: 'Shared',
+      filename: 'shared.json',
+      originalId: 'new-one',
+      originalName: 'Fresh',
+      exportedAt,
+      importedAt: now,
+    });
+  });
+
+  it('replaces custom templates only, and honours per-template choices', () => {
+    const plan = planTemplateImport(parsed, existing, { strategy: 'replace', overrides: { 1: 'skip' }, now });
+
+    expect(plan.items.map((item) => item.action)).toEqual(['replace', 'skip', 'create']);
+    expect(plan.items[0].result).toMatchObject({ id: 'council-minutes', name: 'Council Minutes', isCustom: true });
+
+    expect(planTemplateImport(parsed, existing, { strategy: 'replace', now }).items[1].action).toBe('rename');
+
+    const skipped = planTemplateImport(parsed, existing, { strategy: 'skip', now });
+    expect(skipped.counts).toEqual({ create: 1, rename: 0, replace: 0, skip: 2 });
+    expect(skipped.items[0].result).toBeUndefined();
+  });
+
+  it('handles duplicates within the package', () => {
+    const plan = planTemplateImport(roundTrip([makeTemplate(), makeTemplate()]), [], { strategy: 'replace', now });
+
+    expect(plan.items.map((item) => item.action)).toEqual(['create', 'rename']);
+    expect(plan.items[1].result?.name).toBe('Council Minutes (imported)');
+  });
+});
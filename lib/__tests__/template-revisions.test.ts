@@ -0,0 +1,135 @@
+import {
+  createTemplateRevision,
+  diffTemplateRevisions,
+  getTemplateVersion,
+  isSameTemplateContent,
+  planTemplateRevisions,
+} from '@/lib/template-revisions';
+import type { Template, TemplateContent } from '@/types/template';
+
+const template: Template = {
+  id: 'council-minutes',
+  name: 'Council Minutes',
+  description: 'Minutes for regular council meetings',
+  icon: 'Users',
+  category: 'meeting',
+  sections: [
+    {
+      id: 'agenda',
+      name: 'Agenda Items',
+      prompt: 'List the agenda items discussed.',
+      extractEvidence: true,
+      outputFormat: 'bullet_points',
+    },
+    {
+      id: 'decisions',
+      name: 'Decisions',
+      prompt: 'List the decisions made.',
+      extractEvidence: true,
+      outputFormat: 'bullet_points',
+      dependencies: ['agenda'],
+    },
+    {
+      id: 'votes',
+      name: 'Votes',
+      prompt: 'Record each vote and its outcome.',
+      extractEvidence: false,
+      outputFormat: 'table',
+    },
+  ],
+  outputs: ['summary', 'decisions'],
+  isCustom: true,
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+};
+
+describe('template revisions', () => {
+  it('treats unversioned templates as version 1', () => {
+    expect(getTemplateVersion(template)).toBe(1);
+    expect(getTemplateVersion({ version: 4 })).toBe(4);
+  });
+
+  it('snapshots only the content that shapes analysis', () => {
+    const revision = createTemplateRevision({ ...template, version: 2 }, 3, new Date('2026-05-01'));
+
+    expect(revision).toMatchObject({ templateId: 'council-minutes', version: 3 });
+    expect(Object.keys(revision.content).sort()).toEqual(
+      ['category', 'description', 'icon', 'name', 'outputs', 'sections']
+    );
+    expect(isSameTemplateContent(revision.content, { ...template, createdAt: new Date() })).toBe(true);
+    expect(isSameTemplateContent(revision.content, { ...template, icon: 'Flag' })).toBe(false);
+  });
+
+  it('ignores empty dependency lists when comparing content', () => {
+    const withEmpty: TemplateContent = {
+      ...template,
+      sections: template.sections.map((section) => ({ ...section, dependencies: section.dependencies ?? [] })),
+    };
+    expect(isSameTemplateContent(template, withEmpty)).toBe(true);
+  });
+
+  it('backfills the first revision and bumps the version only on content changes', () => {
+    const edited = { ...template, name: 'Council Minutes v2' };
+    const first = planTemplateRevisions(edited, undefined, template);
+
+    expect(first.revisions.map((r) => r.version)).toEqual([1, 2]);
+    expect(first.revisions[0].content.name).toBe('Council Minutes');
+    expect(first.version).toBe(2);
+    expect(planTemplateRevisions(edited, first.revisions[1], undefined)).toEqual({ revisions: [], version: 2 });
+    expect(planTemplateRevisions(template, undefined, undefined).version).toBe(1);
+  });
+});
+
+describe('diffTemplateRevisions', () => {
+  it('reports no changes for identical content', () => {
+    expect(diffTemplateRevisions(template, template)).toEqual({
+      fields: [],
+      sections: template.sections.map((section) => ({
+        sectionId: section.id,
+        name: section.name,
+        status: 'unchanged',
+        changes: [],
+      })),
+      changed: false,
+    });
+  });
+
+  it('matches sections by ID and describes each change', () => {
+    const [agenda, decisions, votes] = template.sections;
+    const after: TemplateContent = {
+      ...template,
+      name: 'Council Minutes v2',
+      outputs: ['summary', 'action_items'],
+      sections: [
+        { id: 'attendance', name: 'Attendance', prompt: 'List who attended.', extractEvidence: false, outputFormat: 'bullet_points' },
+        { ...decisions, name: 'Motions and Decisions', prompt: 'List the motions and decisions made.' },
+        { ...agenda, outputFormat: 'table', dependencies: ['attendance'] },
+      ],
+    };
+
+    const diff = diffTemplateRevisions(template, after);
+
+    expect(diff.changed).toBe(true);
+    expect(diff.fields).toEqual([
+      { field: 'name', before: 'Council Minutes', after: 'Council Minutes v2' },
+      { field: 'outputs', before: 'summary, decisions', after: 'summary, action items' },
+    ]);
+    expect(diff.sections.map((s) => [s.sectionId, s.status])).toEqual([
+      ['attendance', 'added'],
+      ['decisions', 'changed'],
+      ['agenda', 'changed'],
+      [votes.id, 'removed'],
+    ]);
+    expect(diff.sections[1].changes).toEqual(['Renamed from "Decisions"']);
+    expect(diff.sections[1].promptDiff).toEqual([
+      { type: 'equal', text: 'List the' },
+      { type: 'insert', text: 'motions and' },
+      { type: 'equal', text: 'decisions made.' },
+    ]);
+    expect(diff.sections[2].changes).toEqual([
+      'Output format: bullet points → table',
+      'Depends on: none → attendance',
+      'Moved from step 1 to step 3',
+    ]);
+    expect(diff.sections[2].promptDiff).toBeUndefined();
+  });
+});
@@ -0,0 +1,135 @@
+import {
+  applyVariableCompletion,
+  fillPromptVariables,
+  findUnresolvedVariables,
+  getTemplateVariableNames,
+  getVariableCompletionContext,
+  resolveTemplateVariables,
+  validateTemplateVariables,
+} from '@/lib/template-variables';
+import { generateBasicAnalysisPrompt } from '@/lib/analysis-strategies/basic';
+import type { Template } from '@/types/template';
+import type { Transcript } from '@/types/transcript';
+
+const template: Template = {
+  id: 'program-review',
+  name: 'Program Review',
+  description: 'Review meeting for a department program',
+  icon: 'Briefcase',
+  category: 'review',
+  sections: [
+    {
+      id: 'overview',
+      name: 'Overview',
+      prompt: 'Summarize how {{department}} discussed {{ program }} on {{meetingDate}}.',
+      extractEvidence: true,
+      outputFormat: 'paragraph',
+    },
+    {
+      id: 'owners',
+      name: 'Owners',
+      prompt: 'List which of {{speakers}} own each {{program}} task in {{fiscalYear}}.',
+      extractEvidence: false,
+      outputFormat: 'bullet_points',
+    },
+  ],
+  outputs: ['summary'],
+  variables: [
+    { name: 'program', description: 'Program under review' },
+    { name: 'fiscalYear', defaultValue: 'FY2027' },
+  ],
+  isCustom: true,
+  createdAt: new Date('2026-06-01T12:00:00Z'),
+};
+
+const transcript: Transcript = {
+  id: 't1',
+  filename: 'program-review.mp3',
+  text: 'We reviewed the program.',
+  segments: [
+    { index: 0, start: 0, end: 4, text: 'Welcome.', speaker: 'Speaker 1' },
+    { index: 1, start: 4, end: 9, text: 'Thanks.', speaker: 'Speaker 2' },
+    { index: 2, start: 9, end: 12, text: 'Next item.', speaker: 'Speaker 1' },
+  ],
+  createdAt: new Date(2026, 5, 3, 12),
+  meetingDate: new Date(2026, 5, 2, 12),
+  metadata: { model: 'whisper-1', fileSize: 1024, duration: 12 },
+  speakers: [{ label: 'Speaker 1', name: 'Dana Ruiz' }, { label: 'Speaker 2' }],
+};
+
+describe('template variables', () => {
+  it('lists the variables used across section prompts', () => {
+    expect(getTemplateVariableNames(template)).toEqual([
+      'department',
+      'program',
+      'meetingDate',
+      'speakers',
+      'fiscalYear',
+    ]);
+  });
+
+  it('reports invalid, undeclared and conflicting variables', () => {
+    const issues = validateTemplateVariables({
+      sections: [{ ...template.sections[0], prompt: 'Use {{meeting date}} and {{budget}} for {{program}}.' }],
+      variables: [{ name: 'program' }, { name: 'program' }, { name: 'filename' }, { name: '2fast' }],
+    });
+
+    expect(issues.map((issue) => [issue.sectionId, issue.variable])).toEqual([
+      [undefined, 'program'],
+      [undefined, 'filename'],
+      [undefined, '2fast'],
+      ['overview', 'meeting date'],
+      ['overview', 'budget'],
+    ]);
+    expect(validateTemplateVariables(template)).toEqual([]);
+  });
+
+  it('resolves entered values, then transcript metadata, then defaults', () => {
+    const { values, unresolved } = resolveTemplateVariables(template, transcript, { program: ' Home Visits ' });
+
+    expect(values).toEqual({
+      program: 'Home Visits',
+      meetingDate: 'June 2, 2026',
+      speakers: 'Dana Ruiz, Speaker 2',
+      fiscalYear: 'FY2027',
+    });
+    expect(unresolved).toEqual(['department']);
+    expect(findUnresolvedVariables(template, values)).toEqual(['department']);
+  });
+
+  it('fills resolved placeholders and leaves the rest as written', () => {
+    expect(fillPromptVariables('{{ program }} in {{department}}', { program: 'WIC' })).toBe(
+      'WIC in {{department}}'
+    );
+  });
+
+  it('fills variables into analysis prompts', () => {
+    const prompt = generateBasicAnalysisPrompt(template, transcript.text, {
+      department: 'Public Health',
+      program: 'WIC',
+      meetingDate: 'June 2, 2026',
+      speakers: 'Dana Ruiz',
+      fiscalYear: 'FY2027',
+    });
+
+    expect(prompt).toContain('Summarize how Public Health discussed WIC on June 2, 2026.');
+    expect(prompt).toContain('List which of Dana Ruiz own each WIC task in FY2027.');
+    expect(prompt).not.toContain('{{');
+  });
+});
+
+describe('variable autocomplete', () => {
+  it('detects an unfinished placeholder at the cursor', () => {
+    expect(getVariableCompletionContext('Summarize {{dep', 15)).toEqual({ query: 'dep', start: 10 });
+    expect(getVariableCompletionContext('Summarize {{department}} ', 25)).toBeNull();
+  });
+
+  it('completes the placeholder and reuses closing braces', () => {
+    const text = 'For {{dep}} only';
+    const context = getVariableCompletionContext(text, 9)!;
+    expect(applyVariableCompletion(text, context, 9, 'department')).toEqual({
+      text: 'For {{department}} only',
+      cursor: 18,
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { formatJSON, formatSRT, formatTXT } from '@/lib/export';
+import { importTranscriptContent, parseTimestamp, parseVTT } from '@/lib/import';
+import type { Transcript } from '@/types/transcript';
+
+const transcript: Transcript = {
+  id: 'source',
+  filename: 'council-2021-03-04.mp3',
+  text: 'Call to order. Item one is the budget.',
+  segments: [
+    { index: 0, start: 0, end: 4.5, text: 'Call to order.', speaker: 'Speaker 1' },
+    { index: 1, start: 4.5, end: 9.25, text: 'Item one is the budget.', speaker: 'Speaker 2' },
+  ],
+  createdAt: new Date('2021-03-04T18:00:00'),
+  metadata: { model: 'whisper-1', language: 'en', fileSize: 2048, duration: 9.25 },
+};
+
+describe('parseTimestamp', () => {
+  it('parses caption and bracketed timestamps', () => {
+    expect(parseTimestamp('00:01:15,500')).toBe(75.5);
+    expect(parseTimestamp('01:15.5')).toBe(75.5);
+    expect(parseTimestamp('[01:02:03]')).toBe(3723);
+    expect(parseTimestamp('not a time')).toBeNull();
+  });
+});
+
+describe('parseVTT', () => {
+  it('reads voice tags, skips NOTE blocks and strips markup', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE exported by vendor',
+      '',
+      'cue-1',
+      '00:00:01.000 --> 00:00:03.000 align:start',
+      '<v.loud Mayor Adler>Good <i>evening</i> &amp; welcome.</v>',
+      '',
+      '00:00:03.000 --> 00:00:05.000',
+      'Roll call.',
+    ].join('\n');
+
+    expect(parseVTT(vtt).segments).toEqual([
+      { index: 0, start: 1, end: 3, text: 'Good evening & welcome.', speaker: 'Mayor Adler' },
+      { index: 1, start: 3, end: 5, text: 'Roll call.' },
+    ]);
+  });
+});
+
+describe('importTranscriptContent', () => {
+  it.each([
+    ['srt', formatSRT(transcript)],
+    ['json', formatJSON(transcript)],
+  ])('round-trips our %s export', (format, content) => {
+    const result = importTranscriptContent(content, `meeting.${format}`);
+
+    expect(result.success).toBe(true);
+    expect(result.transcripts[0].segments).toEqual(transcript.segments);
+    expect(result.transcripts[0].metadata.model).toBe(`import-${format}`);
+  });
+
+  it('keeps raw speaker labels and the roster through a JSON export and import', () => {
+    const named: Transcript = {
+      ...transcript,
+      speakers: [
+        { label: 'Speaker 1', name: 'Maria Lopez', role: 'Chair' },
+        { label: 'Speaker 2', mergedInto: 'Speaker 1' },
+      ],
+    };
+
+    const [imported] = importTranscriptContent(formatJSON(named), 'meeting.json').transcripts;
+
+    expect(imported.segments.map((s) => s.speaker)).toEqual(['Speaker 1', 'Speaker 2']);
+    expect(imported.speakers).toEqual(named.speakers);
+  });
+
+  it('reads the TXT header and ends each line where the next begins', () => {
+    const result = importTranscriptContent(formatTXT(transcript), 'meeting.txt');
+    const [imported] = result.transcripts;
+
+    expect(imported.filename).toBe('council-2021-03-04.mp3');
+    expect(imported.createdAt).toEqual(transcript.createdAt);
+    expect(imported.segments.map((s) => [s.start, s.end, s.speaker])).toEqual([
+      [0, 4, 'Speaker 1'],
+      [4, 9, 'Speaker 2'],
+    ]);
+  });
+
+  it('estimates timings for untimed text and reports unsupported files', () => {
+    const result = importTranscriptContent('First paragraph.\n\nSecond paragraph here.', 'notes.txt');
+    expect(result.transcripts[0].segments).toHaveLength(2);
+    expect(result.warnings).toContain('No timestamps found; segment times are estimated');
+
+    expect(importTranscriptContent('%PDF-1.4', 'minutes.pdf').success).toBe(false);
+  });
+
+  const blankJSON = JSON.stringify({ filename: 'blank', segments: [{ start: 0, end: 2, text: '  ' }] });
+
+  it.each([
+    ['empty.vtt', 'WEBVTT\n\n', 'No VTT cues or text found'],
+    ['empty.srt', '', 'No SRT cues or text found'],
+    ['blank.json', blankJSON, 'No segments with text found in blank'],
+  ])('rejects %s without segments', (source, content, error) => {
+    const result = importTranscriptContent(content, source);
+    expect(result).toMatchObject({ success: false, transcripts: [], error });
+  });
+});
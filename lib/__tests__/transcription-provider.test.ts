@@ -0,0 +1,43 @@
+import { buildTranscriptionConfig, parseEnvironmentVariables } from '@/lib/validations/config';
+import { inferModelCapabilities } from '@/lib/transcription-provider';
+
+describe('transcription provider', () => {
+  it('selects a local server without OpenAI credentials', () => {
+    const config = buildTranscriptionConfig(
+      parseEnvironmentVariables({
+        LOCAL_WHISPER_BASE_URL: 'http://whisper.internal:8000/v1',
+        LOCAL_WHISPER_MODEL: 'Systran/faster-whisper-large-v3',
+        LOCAL_WHISPER_WORD_TIMESTAMPS: 'true',
+      })
+    );
+
+    expect(config).toEqual({
+      provider: 'local',
+      baseUrl: 'http://whisper.internal:8000/v1',
+      model: 'Systran/faster-whisper-large-v3',
+      capabilities: { diarization: false, verboseJson: true, wordTimestamps: true },
+    });
+  });
+
+  it('follows the OpenAI provider unless one is chosen explicitly', () => {
+    const env = {
+      AZURE_OPENAI_API_KEY: 'azure-key-0123456789abcdef',
+      AZURE_OPENAI_ENDPOINT: 'https://example.openai.azure.com',
+      OPENAI_API_KEY: 'sk-test-0123456789abcdef',
+    };
+
+    expect(buildTranscriptionConfig(parseEnvironmentVariables(env)).provider).toBe('azure');
+    expect(
+      buildTranscriptionConfig(
+        parseEnvironmentVariables({ ...env, TRANSCRIPTION_PROVIDER: 'openai' })
+      ).provider
+    ).toBe('openai');
+    expect(() => buildTranscriptionConfig(parseEnvironmentVariables({}))).toThrow();
+  });
+
+  it('infers capabilities from cloud model names', () => {
+    expect(inferModelCapabilities('whisper-1').wordTimestamps).toBe(true);
+    expect(inferModelCapabilities('gpt-4o-transcribe-diarize').diarization).toBe(true);
+    expect(inferModelCapabilities('gpt-4o-transcribe').verboseJson).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { alignWordsToText, findActiveWordIndex } from '@/lib/word-timing';
+import { assignWordsToSegments } from '@/lib/transcription-utils';
+import { splitSegment } from '@/lib/segment-editing';
+import type { TranscriptSegment, TranscriptWord } from '@/types/transcript';
+
+const words: TranscriptWord[] = [
+  { word: 'Motion', start: 0, end: 0.5 },
+  { word: 'carries', start: 0.6, end: 1.1 },
+  { word: 'next', start: 2, end: 2.3 },
+  { word: 'item', start: 2.4, end: 2.9 },
+];
+
+describe('word timing', () => {
+  it('assigns words to segments by their midpoint', () => {
+    const segments: TranscriptSegment[] = [
+      { index: 0, start: 0, end: 1.5, text: 'Motion carries.' },
+      { index: 1, start: 1.5, end: 3, text: 'Next item.' },
+    ];
+
+    const result = assignWordsToSegments(segments, words);
+
+    expect(result[0].words?.map((w) => w.word)).toEqual(['Motion', 'carries']);
+    expect(result[1].words?.map((w) => w.word)).toEqual(['next', 'item']);
+  });
+
+  it('aligns timings to punctuated and edited text', () => {
+    const aligned = alignWordsToText('Motion, clearly carries!', words.slice(0, 2), 0);
+
+    expect(aligned.map((w) => w.wordIndex)).toEqual([0, undefined, 1]);
+    expect(aligned[1]).toMatchObject({ from: 8, to: 15, time: 0.5 });
+    expect(aligned[2].time).toBe(0.6);
+  });
+
+  it('keeps a word active until the next one starts', () => {
+    expect(findActiveWordIndex(words, -1)).toBe(-1);
+    expect(findActiveWordIndex(words, 0.55)).toBe(0);
+    expect(findActiveWordIndex(words, 1.5)).toBe(1);
+    expect(findActiveWordIndex(words, 5)).toBe(3);
+  });
+
+  it('splits at the start of the next word and partitions timings', () => {
+    const segment: TranscriptSegment = { index: 0, start: 0, end: 3, text: 'Motion carries next item', words };
+
+    const [first, second] = splitSegment([segment], 0, 'Motion carries'.length);
+
+    expect(first.end).toBe(2);
+    expect(second.start).toBe(2);
+    expect(first.words).toHaveLength(2);
+    expect(second.words?.map((w) => w.word)).toEqual(['next', 'item']);
+  });
+});
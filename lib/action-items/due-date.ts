@@ -0,0 +1,313 @@
+/**
+ * Deadline Resolution
+ *
+ * Turns the deadline phrase an analysis returned into a calendar date,
+ * counted from the meeting date. Phrases that name a date ("2026-06-12",
+ * "6/12", "before the June 12 council meeting", "12 de junio") resolve with
+ * high confidence. Relative phrases ("tomorrow", "next Friday", "in two
+ * weeks", "end of Q2") resolve to the day they point to, or to the last
+ * day of the period they name. Anything else ("ASAP", "ongoing") is left
+ * unresolved.
+ */
+
+import type { Transcript } from '@/types/transcript';
+import type { DeadlineConfidence, ResolvedDeadline } from '@/types/analysis';
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, enero: 0,
+  feb: 1, february: 1, febrero: 1,
+  mar: 2, march: 2, marzo: 2,
+  apr: 3, april: 3, abril: 3,
+  may: 4, mayo: 4,
+  jun: 5, june: 5, junio: 5,
+  jul: 6, july: 6, julio: 6,
+  aug: 7, august: 7, agosto: 7,
+  sep: 8, sept: 8, september: 8, septiembre: 8,
+  oct: 9, october: 9, octubre: 9,
+  nov: 10, november: 10, noviembre: 10,
+  dec: 11, december: 11, diciembre: 11,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0, sun: 0, domingo: 0,
+  monday: 1, mon: 1, lunes: 1,
+  tuesday: 2, tue: 2, tues: 2, martes: 2,
+  wednesday: 3, wed: 3, miercoles: 3,
+  thursday: 4, thu: 4, thurs: 4, jueves: 4,
+  friday: 5, fri: 5, viernes: 5,
+  saturday: 6, sat: 6, sabado: 6,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, un: 1, una: 1, uno: 1,
+  two: 2, couple: 2, dos: 2,
+  three: 3, few: 3, tres: 3,
+  four: 4, cuatro: 4,
+  five: 5, cinco: 5,
+  six: 6, seis: 6,
+};
+
+/** Last month (0-based) of the City's fiscal year, which ends September 30 */
+const FISCAL_YEAR_END_MONTH = 8;
+
+const alternatives = (words: Record<string, number>) =>
+  Object.keys(words).sort((a, b) => b.length - a.length).join('|');
+
+const MONTH_NAME = `(${alternatives(MONTHS)})\\.?`;
+const WEEKDAY_NAME = `(${alternatives(WEEKDAYS)})`;
+const COUNT = `(\\d+|${alternatives(NUMBER_WORDS)})`;
+
+// 2026-06-12
+const ISO_DATE = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/;
+
+// 6/12/2026, 6/12/26, 6/12
+const SLASH_DATE = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?\b/;
+
+// June 12, June 12th, June 12, 2026
+const MONTH_DAY = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?:,?\\s+(\\d{4}))?`, 'i');
+
+// 12 June 2026, 12 de junio de 2026
+const DAY_MONTH = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:de\\s+)?${MONTH_NAME}\\b(?:,?\\s+(?:de\\s+)?(\\d{4}))?`, 'i');
+
+// today, end of day, EOD, COB, hoy
+const TODAY = /\b(today|tonight|end of (?:the )?day|eod|cob|close of business|hoy)\b/i;
+
+// tomorrow, mañana (after accents are stripped)
+const TOMORROW = /\b(tomorrow|manana)\b/i;
+
+// in two weeks, within 10 days, en dos semanas
+const IN_PERIOD = new RegExp(`\\b(?:in|within|en|dentro de)\\s+(?:the next\\s+|(?:a|the)\\s+)?${COUNT}\\s+(?:of\\s+)?(business days?|days?|weeks?|months?|dias?|semanas?|mes(?:es)?)\\b`, 'i');
+
+// Friday, next Friday, this Friday, proximo viernes
+const WEEKDAY = new RegExp(`\\b(?:(next|this|coming|proximo|este)\\s+)?${WEEKDAY_NAME}\\b`, 'i');
+
+// end of Q2, Q2, second quarter
+const QUARTER = /\b(end of\s+(?:the\s+)?)?(?:q([1-4])|(first|second|third|fourth|1st|2nd|3rd|4th)\s+quarter)\b/i;
+
+// end of the week, next week, end of next month, fin de mes
+const PERIOD = /\b(end of\s+(?:the\s+)?|fin de(?:l| la)?\s+)?(this\s+|next\s+|proxim[oa]\s+)?(week|month|year|fiscal year|semana|mes|ano)\b/i;
+
+const QUARTER_WORDS: Record<string, number> = {
+  first: 1, '1st': 1, second: 2, '2nd': 2, third: 3, '3rd': 3, fourth: 4, '4th': 4,
+};
+
+interface Resolution {
+  date: Date;
+  confidence: DeadlineConfidence;
+}
+
+/**
+ * Build a local date, or undefined when the parts don't form a real date
+ */
+function makeDate(year: number, month: number, day: number): Date | undefined {
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day
+    ? date
+    : undefined;
+}
+
+/**
+ * Local midnight of a date
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Last day of the month `offset` months after the date's month
+ */
+function endOfMonth(date: Date, offset = 0): Date {
+  return new Date(date.getFullYear(), date.getMonth() + offset + 1, 0);
+}
+
+/**
+ * Date for a month and day without a year: the first one on or after the
+ * meeting, since deadlines point forward
+ */
+function nextOccurrence(month: number, day: number, meeting: Date): Date | undefined {
+  const sameYear = makeDate(meeting.getFullYear(), month, day);
+  if (sameYear && sameYear >= meeting) return sameYear;
+  return makeDate(meeting.getFullYear() + 1, month, day);
+}
+
+/**
+ * Resolve a phrase that names a calendar date
+ */
+function resolveNamedDate(phrase: string, meeting: Date): Date | undefined {
+  let match = phrase.match(ISO_DATE);
+  if (match) {
+    return makeDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+
+  match = phrase.match(SLASH_DATE);
+  if (match) {
+    const month = Number(match[1]) - 1;
+    const day = Number(match[2]);
+    if (!match[3]) return nextOccurrence(month, day, meeting);
+    const year = Number(match[3]);
+    return makeDate(year < 100 ? 2000 + year : year, month, day);
+  }
+
+  match = phrase.match(MONTH_DAY);
+  if (match) {
+    const month = MONTHS[match[1].toLowerCase()];
+    const day = Number(match[2]);
+    return match[3] ? makeDate(Number(match[3]), month, day) : nextOccurrence(month, day, meeting);
+  }
+
+  match = phrase.match(DAY_MONTH);
+  if (match) {
+    const month = MONTHS[match[2].toLowerCase()];
+    const day = Number(match[1]);
+    return match[3] ? makeDate(Number(match[3]), month, day) : nextOccurrence(month, day, meeting);
+  }
+
+  return undefined;
+}
+
+/**
+ * Add business days (Monday to Friday) to a date
+ */
+function addBusinessDays(date: Date, days: number): Date {
+  let result = date;
+  let remaining = days;
+  while (remaining > 0) {
+    result = addDays(result, 1);
+    if (result.getDay() !== 0 && result.getDay() !== 6) remaining--;
+  }
+  return result;
+}
+
+/**
+ * Resolve a phrase relative to the meeting date
+ */
+function resolveRelative(phrase: string, meeting: Date): Resolution | undefined {
+  if (TOMORROW.test(phrase)) {
+    return { date: addDays(meeting, 1), confidence: 'high' };
+  }
+  if (TODAY.test(phrase)) {
+    return { date: meeting, confidence: 'high' };
+  }
+
+  let match = phrase.match(IN_PERIOD);
+  if (match) {
+    const count = NUMBER_WORDS[match[1].toLowerCase()] ?? Number(match[1]);
+    const unit = match[2].toLowerCase();
+    if (unit.startsWith('business')) {
+      return { date: addBusinessDays(meeting, count), confidence: 'medium' };
+    }
+    if (unit.startsWith('d')) return { date: addDays(meeting, count), confidence: 'medium' };
+    if (unit.startsWith('w') || unit.startsWith('s')) return { date: addDays(meeting, count * 7), confidence: 'medium' };
+    return {
+      date: new Date(meeting.getFullYear(), meeting.getMonth() + count, meeting.getDate()),
+      confidence: 'medium',
+    };
+  }
+
+  match = phrase.match(WEEKDAY);
+  if (match) {
+    // The first such weekday after the meeting; "next" pushes a weekday
+    // in the meeting's own week to the following week
+    const weekday = WEEKDAYS[match[2].toLowerCase()];
+    const ahead = (weekday - meeting.getDay() + 7) % 7 || 7;
+    const isNext = /^(next|proximo)$/i.test(match[1] ?? '');
+    const sameWeek = meeting.getDay() !== 0 && weekday > meeting.getDay();
+    return {
+      date: addDays(meeting, isNext && sameWeek && ahead < 7 ? ahead + 7 : ahead),
+      confidence: isNext && sameWeek ? 'low' : 'medium',
+    };
+  }
+
+  match = phrase.match(QUARTER);
+  if (match) {
+    const quarter = match[2] ? Number(match[2]) : QUARTER_WORDS[match[3].toLowerCase()];
+    let end = endOfMonth(new Date(meeting.getFullYear(), quarter * 3 - 1, 1));
+    if (end < meeting) end = endOfMonth(new Date(meeting.getFullYear() + 1, quarter * 3 - 1, 1));
+    return { date: end, confidence: match[1] ? 'medium' : 'low' };
+  }
+
+  match = phrase.match(PERIOD);
+  if (match) {
+    const isEnd = !!match[1];
+    const isNext = !!match[2] && !/^this/i.test(match[2]);
+    const unit = match[3].toLowerCase();
+    const confidence: DeadlineConfidence = isEnd ? 'medium' : 'low';
+
+    if (unit === 'week' || unit === 'semana') {
+      // Weeks end on Friday, the last working day
+      const friday = addDays(meeting, (5 - meeting.getDay() + 7) % 7);
+      return { date: isNext ? addDays(friday, 7) : friday, confidence };
+    }
+    if (unit === 'month' || unit === 'mes') {
+      return { date: endOfMonth(meeting, isNext ? 1 : 0), confidence };
+    }
+    if (unit === 'fiscal year') {
+      let end = new Date(meeting.getFullYear(), FISCAL_YEAR_END_MONTH + 1, 0);
+      if (end < meeting) end = new Date(meeting.getFullYear() + 1, FISCAL_YEAR_END_MONTH + 1, 0);
+      if (isNext) end = new Date(end.getFullYear() + 1, FISCAL_YEAR_END_MONTH + 1, 0);
+      return { date: end, confidence };
+    }
+    // Year: only "end of year" and "next year" are deadlines, not "this year's budget"
+    if (isEnd || isNext) {
+      return { date: new Date(meeting.getFullYear() + (isNext ? 1 : 0), 11, 31), confidence };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Format a date as an ISO 8601 calendar date (YYYY-MM-DD), in local time
+ */
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Parse an ISO 8601 calendar date (YYYY-MM-DD) as local midnight
+ */
+export function fromIsoDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Date of a meeting: its meeting date if set, otherwise when it was transcribed
+ */
+export function getMeetingDate(transcript: Pick<Transcript, 'createdAt' | 'meetingDate'>): Date {
+  return new Date(transcript.meetingDate ?? transcript.createdAt);
+}
+
+/**
+ * Resolve a deadline phrase to a calendar date
+ *
+ * @param deadline - Deadline phrase from the analysis
+ * @param meetingDate - Date of the meeting the phrase was said in
+ * @returns The due date with the phrase and a confidence level, or
+ *   undefined if the phrase doesn't point to a date
+ *
+ * @example
+ * resolveDeadline('next Friday', new Date(2026, 4, 4)); // a Monday
+ * // { date: '2026-05-15', phrase: 'next Friday', confidence: 'low' }
+ * resolveDeadline('before the June 12 council meeting', new Date(2026, 4, 4));
+ * // { date: '2026-06-12', phrase: 'before the June 12 council meeting', confidence: 'high' }
+ */
+export function resolveDeadline(deadline: string, meetingDate: Date): ResolvedDeadline | undefined {
+  const meeting = startOfDay(meetingDate);
+  const phrase = deadline.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+  const named = resolveNamedDate(phrase, meeting);
+  const resolution: Resolution | undefined = named
+    ? { date: named, confidence: 'high' }
+    : resolveRelative(phrase, meeting);
+
+  return resolution
+    ? { date: toIsoDate(resolution.date), phrase: deadline, confidence: resolution.confidence }
+    : undefined;
+}
@@ -0,0 +1,19 @@
+/**
+ * Action Items Module Entry Point
+ *
+ * Provides a centralized export point for tracking action items across
+ * meetings.
+ */
+
+// Re-export deadline resolution
+export { resolveDeadline, getMeetingDate, toIsoDate, fromIsoDate } from './due-date';
+
+// Re-export tracking (main API)
+export {
+  normalizeTaskKey,
+  resolveActionItemDeadlines,
+  mergeAnalysisActionItems,
+  rescheduleActionItems,
+  isActionItemOverdue,
+  filterActionItems,
+} from './tracker';
@@ -0,0 +1,287 @@
+/**
+ * Action Item Tracking
+ *
+ * Builds tracked action items from saved analyses and filters them for
+ * the tracker page. Items are matched to earlier ones from the same
+ * transcript by their task text, so re-running an analysis re-links the
+ * existing items instead of duplicating them, even when the task is
+ * worded a little differently.
+ */
+
+import type { ActionItem, Analysis } from '@/types/analysis';
+import type { ActionItemFilters, TrackedActionItem } from '@/types/action-item';
+import { fromIsoDate, resolveDeadline } from './due-date';
+
+/**
+ * Normalize task text for matching items across analysis runs
+ *
+ * Case, accents, punctuation and spacing are ignored.
+ *
+ * @example
+ * normalizeTaskKey('Send the  revised budget to Council.'); // 'send the revised budget to council'
+ */
+export function normalizeTaskKey(task: string): string {
+  return task
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Resolve the deadlines of action items against the meeting date
+ *
+ * Earlier resolutions are replaced, so this can be re-run when the
+ * meeting date changes.
+ *
+ * @param items - Action items from an analysis
+ * @param meetingDate - Date of the meeting
+ * @returns The items with `resolvedDeadline` set where the deadline names a date
+ */
+export function resolveActionItemDeadlines(items: ActionItem[], meetingDate: Date): ActionItem[] {
+  return items.map((item) => ({
+    ...item,
+    resolvedDeadline: item.deadline ? resolveDeadline(item.deadline, meetingDate) : undefined,
+  }));
+}
+
+/**
+ * Resolved deadline of an analysis item, resolving it now if the analysis
+ * was saved before deadlines were resolved
+ */
+function getResolvedDeadline(item: ActionItem, meetingDate: Date) {
+  if (item.resolvedDeadline && item.resolvedDeadline.phrase === item.deadline) {
+    return item.resolvedDeadline;
+  }
+  return item.deadline ? resolveDeadline(item.deadline, meetingDate) : undefined;
+}
+
+/** Words too common to tell two tasks apart */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'that', 'this', 'about',
+  'los', 'las', 'del', 'con', 'para', 'por', 'una', 'que',
+]);
+
+/** Similarity at which a reworded task is the same item */
+const MATCH_SIMILARITY = 0.6;
+
+/** Lower similarity that still matches when both were mentioned close together */
+const NEARBY_SIMILARITY = 0.3;
+
+/** Seconds apart two mentions count as close together */
+const NEARBY_SECONDS = 30;
+
+/**
+ * Distinctive words of a normalized task key
+ */
+function taskTokens(key: string): Set<string> {
+  return new Set(key.split(' ').filter((token) => token.length > 2 && !STOP_WORDS.has(token)));
+}
+
+/**
+ * Word overlap of two task keys (Dice coefficient, 0–1)
+ */
+function taskSimilarity(a: string, b: string): number {
+  const tokensA = taskTokens(a);
+  const tokensB = taskTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) shared++;
+  }
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+/**
+ * Best unmatched tracked item for a reworded task
+ *
+ * The task must share most of its words with the item, or some of them
+ * when both were mentioned at about the same point of the meeting.
+ */
+function findRewordedMatch(
+  key: string,
+  timestamp: number | undefined,
+  candidates: Iterable<TrackedActionItem>
+): TrackedActionItem | undefined {
+  let best: TrackedActionItem | undefined;
+  let bestSimilarity = 0;
+
+  for (const candidate of candidates) {
+    const similarity = taskSimilarity(key, candidate.key);
+    const nearby = timestamp !== undefined && candidate.timestamp !== undefined
+      && Math.abs(timestamp - candidate.timestamp) <= NEARBY_SECONDS;
+    const threshold = nearby ? NEARBY_SIMILARITY : MATCH_SIMILARITY;
+    if (similarity >= threshold && similarity > bestSimilarity) {
+      best = candidate;
+      bestSimilarity = similarity;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Merge an analysis's action items into the tracked items of its transcript
+ *
+ * Items are matched by task text: exactly first, then by word overlap so
+ * a re-run that rewords a task updates the same item. Matching items keep
+ * their ID, status and any owner or due date set by hand; their task
+ * wording, deadline, timestamp and source analysis are refreshed.
+ * New items start as open. Open items from an earlier run of the same
+ * template that the analysis no longer mentions are marked superseded;
+ * items someone has started or finished are left alone.
+ *
+ * @param existing - Tracked items of the analysis's transcript
+ * @param analysis - Saved analysis
+ * @param meetingDate - Date of the meeting, for resolving relative deadlines
+ * @param now - Time of the merge
+ * @returns Items to write (new, updated and superseded)
+ */
+export function mergeAnalysisActionItems(
+  existing: TrackedActionItem[],
+  analysis: Analysis,
+  meetingDate: Date,
+  now: Date = new Date()
+): TrackedActionItem[] {
+  const byKey = new Map(existing.map((item) => [item.key, item]));
+  const unmatched = new Set(existing);
+  const matches = new Map<string, { item: ActionItem; match?: TrackedActionItem }>();
+
+  // Exact matches first, so a reworded task can't take another task's item
+  for (const item of analysis.results.actionItems ?? []) {
+    const key = normalizeTaskKey(item.task);
+    if (!key || matches.has(key)) continue;
+
+    const match = byKey.get(key);
+    if (match) unmatched.delete(match);
+    matches.set(key, { item, match });
+  }
+
+  for (const [key, entry] of matches) {
+    if (entry.match) continue;
+    entry.match = findRewordedMatch(key, entry.item.timestamp, unmatched);
+    if (entry.match) unmatched.delete(entry.match);
+  }
+
+  const merged: TrackedActionItem[] = [];
+
+  for (const [key, { item, match }] of matches) {
+    const resolved = getResolvedDeadline(item, meetingDate);
+    const dueDate = resolved ? fromIsoDate(resolved.date) : undefined;
+
+    merged.push(
+      match
+        ? {
+            ...match,
+            key,
+            templateId: analysis.templateId,
+            analysisId: analysis.id,
+            sourceItemId: item.id,
+            task: item.task,
+            owner: match.ownerEdited ? match.owner : item.owner ?? match.owner,
+            deadline: item.deadline ?? match.deadline,
+            ...(!match.dueDateEdited && resolved && {
+              dueDate,
+              deadlineConfidence: resolved.confidence,
+            }),
+            timestamp: item.timestamp ?? match.timestamp,
+            status: match.status === 'superseded' ? 'open' : match.status,
+            updatedAt: now,
+          }
+        : {
+            id: crypto.randomUUID(),
+            transcriptId: analysis.transcriptId,
+            key,
+            templateId: analysis.templateId,
+            analysisId: analysis.id,
+            sourceItemId: item.id,
+            task: item.task,
+            owner: item.owner,
+            deadline: item.deadline,
+            dueDate,
+            deadlineConfidence: resolved?.confidence,
+            timestamp: item.timestamp,
+            status: 'open',
+            createdAt: now,
+            updatedAt: now,
+          }
+    );
+  }
+
+  for (const item of unmatched) {
+    if (item.status === 'open' && item.templateId === analysis.templateId) {
+      merged.push({ ...item, status: 'superseded', updatedAt: now });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Re-resolve the due dates of tracked items after the meeting date changed
+ *
+ * Due dates set by hand are kept.
+ *
+ * @param items - Tracked items of the transcript
+ * @param meetingDate - New date of the meeting
+ * @param now - Time of the change
+ * @returns Items whose due date changed
+ */
+export function rescheduleActionItems(
+  items: TrackedActionItem[],
+  meetingDate: Date,
+  now: Date = new Date()
+): TrackedActionItem[] {
+  const changed: TrackedActionItem[] = [];
+
+  for (const item of items) {
+    if (item.dueDateEdited || !item.deadline) continue;
+    const resolved = resolveDeadline(item.deadline, meetingDate);
+    if (!resolved) continue;
+
+    const dueDate = fromIsoDate(resolved.date);
+    if (item.dueDate?.getTime() !== dueDate.getTime()) {
+      changed.push({ ...item, dueDate, deadlineConfidence: resolved.confidence, updatedAt: now });
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Whether an item is past its due date and not done or superseded
+ *
+ * An item due today is not overdue yet.
+ */
+export function isActionItemOverdue(item: TrackedActionItem, now: Date = new Date()): boolean {
+  if (item.status === 'done' || item.status === 'superseded' || !item.dueDate) return false;
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return item.dueDate < today;
+}
+
+/**
+ * Filter tracked items for the tracker page
+ *
+ * @param items - Tracked items
+ * @param filters - Tracker filters
+ * @param departments - Department of each item's transcript, by transcript ID
+ * @param now - Current time, for the overdue filter
+ */
+export function filterActionItems(
+  items: TrackedActionItem[],
+  filters: ActionItemFilters,
+  departments: Map<string, string | undefined>,
+  now: Date = new Date()
+): TrackedActionItem[] {
+  const owner = filters.owner?.trim().toLowerCase();
+
+  return items.filter((item) => {
+    if (filters.department && departments.get(item.transcriptId) !== filters.department) return false;
+    if (owner && item.owner?.trim().toLowerCase() !== owner) return false;
+    if (filters.status && item.status !== filters.status) return false;
+    if (filters.overdueOnly && !isActionItemOverdue(item, now)) return false;
+    return true;
+  });
+}
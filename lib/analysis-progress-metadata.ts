@@ -3,12 +3,12 @@
  *
  * Provides strategy-specific metadata for progress tracking, including:
  * - Time estimates based on strategy type
- * - Progress phases with messages for each strategy
+ * - Progress phases built from the server's analysis plan
  * - Progress calculation helpers
  */
 
-import type { Template } from '@/types';
 import type { AnalysisStrategy } from '@/lib/analysis-strategy';
+import type { AnalysisStep } from '@/lib/analysis-strategies/shared';
 
 /**
  * Metadata about an analysis strategy
@@ -112,228 +112,59 @@ export function calculateEstimatedTime(
 }
 
 /**
- * Get progress phases for a strategy
- */
-export function getStrategyPhases(
-  strategy: AnalysisStrategy,
-  template: Template,
-  runEvaluation: boolean
-): ProgressPhase[] {
-  const sectionCount = template.sections.length;
-
-  switch (strategy) {
-    case 'basic':
-      return getBasicPhases(runEvaluation);
-
-    case 'hybrid':
-      return getHybridPhases(template, runEvaluation);
-
-    case 'advanced':
-      return getAdvancedPhases(sectionCount, runEvaluation);
-
-    default:
-      return getBasicPhases(runEvaluation);
-  }
-}
-
-/**
- * Get phases for basic strategy
+ * Progress budget allocation:
+ * - Initialization: [0, 5]     (not tracked in phases)
+ * - Analysis:       [5, 70]    (divided evenly among analysis steps)
+ * - Evaluation:     [70, 85]   (optional)
+ * - Saving:         [85, 100]  (always)
  */
-function getBasicPhases(runEvaluation: boolean): ProgressPhase[] {
-  const phases: ProgressPhase[] = [
-    {
-      id: 'analysis',
-      name: 'Analysis',
-      range: [5, runEvaluation ? 70 : 85],
-      message: 'Running comprehensive analysis...',
-      description: 'Analyzing all sections in a single pass',
-    },
-  ];
-
-  if (runEvaluation) {
-    phases.push({
-      id: 'evaluation',
-      name: 'Quality Review',
-      range: [70, 85],
-      message: 'Running quality review and self-evaluation...',
-      description: 'Reviewing analysis for accuracy, completeness, and relationship mapping',
-    });
-  }
-
-  phases.push({
-    id: 'saving',
-    name: 'Saving',
-    range: [85, 100],
-    message: 'Saving analysis results...',
-    description: 'Storing analysis in database',
-  });
-
-  return phases;
-}
+const ANALYSIS_START_PROGRESS = 5;
+const EVALUATION_START_PROGRESS = 70;
+const SAVING_START_PROGRESS = 85;
 
 /**
- * Get phases for hybrid strategy
+ * Build progress phases from the steps the server will actually run
+ *
+ * Steps come from `getAnalysisPlan()` and are reported in the same order
+ * through the analysis stream, so each step maps to exactly one phase.
+ *
+ * @param steps - Analysis steps in execution order
+ * @param runEvaluation - Whether the evaluation pass will run
+ * @returns Phases covering 5-100%
  */
-function getHybridPhases(template: Template, runEvaluation: boolean): ProgressPhase[] {
-  // Hybrid groups sections into 3 batches:
-  // 1. Foundation: agenda, summary
-  // 2. Discussion: key points, topics, decisions
-  // 3. Action: action items, next steps, follow-ups
-
-  // Try semantic grouping first
-  let foundationSections = template.sections.filter(s =>
-    s.name.toLowerCase().includes('agenda') ||
-    s.name.toLowerCase().includes('summary')
-  );
-
-  let actionSections = template.sections.filter(s =>
-    s.name.toLowerCase().includes('action') ||
-    s.name.toLowerCase().includes('next step') ||
-    s.name.toLowerCase().includes('follow')
-  );
-
-  let discussionSections = template.sections.filter(
-    s => !foundationSections.includes(s) && !actionSections.includes(s)
-  );
-
-  // Fallback to index-based grouping if semantic grouping produces poor distribution
-  const hasPoorDistribution =
-    foundationSections.length === 0 ||
-    actionSections.length === 0 ||
-    discussionSections.length === 0 ||
-    discussionSections.length > template.sections.length * 0.8; // > 80% in one batch
+export function buildProgressPhases(
+  steps: AnalysisStep[],
+  runEvaluation: boolean
+): ProgressPhase[] {
+  const phases: ProgressPhase[] = [];
+  const analysisEndProgress = runEvaluation ? EVALUATION_START_PROGRESS : SAVING_START_PROGRESS;
+  const progressPerStep = (analysisEndProgress - ANALYSIS_START_PROGRESS) / Math.max(steps.length, 1);
 
-  if (hasPoorDistribution && template.sections.length >= 3) {
-    // Divide sections into thirds by index
-    const thirdSize = Math.ceil(template.sections.length / 3);
-    foundationSections = template.sections.slice(0, thirdSize);
-    discussionSections = template.sections.slice(thirdSize, thirdSize * 2);
-    actionSections = template.sections.slice(thirdSize * 2);
-  } else if (template.sections.length < 3) {
-    // Too few sections for batching, treat as single batch
-    discussionSections = template.sections;
-    foundationSections = [];
-    actionSections = [];
-  }
+  steps.forEach((step, i) => {
+    // Ensure continuous phases: each phase start = previous phase end
+    const startProgress = i === 0 ? ANALYSIS_START_PROGRESS : phases[i - 1].range[1];
+    const endProgress = i === steps.length - 1
+      ? analysisEndProgress
+      : Math.round(ANALYSIS_START_PROGRESS + (i + 1) * progressPerStep);
 
-  const phases: ProgressPhase[] = [
-    {
-      id: 'batch1',
-      name: 'Foundation Batch',
-      range: [5, 27],
-      message: `Processing batch 1/3: Foundation sections${foundationSections.length > 0 ? ` (${foundationSections.map(s => s.name).join(', ')})` : ''}...`,
-      description: 'Analyzing agenda and summary sections',
-    },
-    {
-      id: 'batch2',
-      name: 'Discussion Batch',
-      range: [27, 55],
-      message: `Processing batch 2/3: Discussion sections${discussionSections.length > 0 ? ` (${discussionSections.slice(0, 2).map(s => s.name).join(', ')}${discussionSections.length > 2 ? '...' : ''})` : ''}...`,
-      description: 'Analyzing discussion and decision sections',
-    },
-    {
-      id: 'batch3',
-      name: 'Action Batch',
-      range: [55, runEvaluation ? 70 : 85],
-      message: `Processing batch 3/3: Action sections${actionSections.length > 0 ? ` (${actionSections.map(s => s.name).join(', ')})` : ''}...`,
-      description: 'Analyzing action items and next steps',
-    },
-  ];
-
-  if (runEvaluation) {
     phases.push({
-      id: 'evaluation',
-      name: 'Quality Review',
-      range: [70, 85],
-      message: 'Running quality review and self-evaluation...',
-      description: 'Reviewing analysis for accuracy, completeness, and relationship mapping',
+      id: step.id,
+      name: step.name,
+      range: [startProgress, endProgress],
+      message: steps.length > 1
+        ? `Analyzing ${step.name} (${i + 1}/${steps.length})...`
+        : 'Running comprehensive analysis...',
+      description: step.sectionNames.length > 0
+        ? `Sections: ${step.sectionNames.join(', ')}`
+        : undefined,
     });
-  }
-
-  phases.push({
-    id: 'saving',
-    name: 'Saving',
-    range: [85, 100],
-    message: 'Saving analysis results...',
-    description: 'Storing analysis in database',
   });
 
-  return phases;
-}
-
-/**
- * Get phases for advanced strategy
- *
- * Progress budget allocation:
- * - Initialization: [0, 5]     (not tracked in phases)
- * - Analysis:       [5, 70]    (65 points divided among sections)
- * - Evaluation:     [70, 85]   (15 points, optional)
- * - Saving:         [85, 100]  (15 points, always)
- */
-function getAdvancedPhases(sectionCount: number, runEvaluation: boolean): ProgressPhase[] {
-  // Guard against invalid section counts
-  if (sectionCount <= 0) {
-    console.warn('[Analysis Progress] Advanced strategy requires at least one section, falling back to basic phases');
-    return getBasicPhases(runEvaluation);
-  }
-
-  const phases: ProgressPhase[] = [];
-  const analysisEndProgress = runEvaluation ? 70 : 85;
-
-  // For very large section counts, group sections to avoid too many phases
-  const maxDisplayPhases = 10;
-  const shouldGroup = sectionCount > maxDisplayPhases;
-
-  if (shouldGroup) {
-    // Group sections for display
-    const phaseGroupSize = Math.ceil(sectionCount / maxDisplayPhases);
-    const actualPhaseCount = Math.ceil(sectionCount / phaseGroupSize);
-    const progressPerPhase = (analysisEndProgress - 5) / actualPhaseCount;
-
-    for (let i = 0; i < actualPhaseCount; i++) {
-      const startSection = i * phaseGroupSize + 1;
-      const endSection = Math.min((i + 1) * phaseGroupSize, sectionCount);
-
-      // Ensure continuous phases: each phase start = previous phase end
-      const startProgress = i === 0 ? 5 : phases[i - 1].range[1];
-      const endProgress = i === actualPhaseCount - 1
-        ? analysisEndProgress
-        : Math.round(5 + ((i + 1) * progressPerPhase));
-
-      phases.push({
-        id: `sections-${startSection}-${endSection}`,
-        name: `Sections ${startSection}-${endSection}`,
-        range: [startProgress, endProgress],
-        message: `Analyzing sections ${startSection}-${endSection} of ${sectionCount} with full context...`,
-        description: `Processing with cascading context from previous sections`,
-      });
-    }
-  } else {
-    // Show individual sections
-    const progressPerSection = (analysisEndProgress - 5) / sectionCount;
-
-    for (let i = 0; i < sectionCount; i++) {
-      // Ensure continuous phases: each phase start = previous phase end
-      const startProgress = i === 0 ? 5 : phases[i - 1].range[1];
-      const endProgress = i === sectionCount - 1
-        ? analysisEndProgress
-        : Math.round(5 + ((i + 1) * progressPerSection));
-
-      phases.push({
-        id: `section-${i + 1}`,
-        name: `Section ${i + 1}`,
-        range: [startProgress, endProgress],
-        message: `Analyzing section ${i + 1}/${sectionCount} with full context...`,
-        description: `Processing with cascading context from previous ${i} sections`,
-      });
-    }
-  }
-
   if (runEvaluation) {
     phases.push({
       id: 'evaluation',
       name: 'Quality Review',
-      range: [70, 85],
+      range: [EVALUATION_START_PROGRESS, SAVING_START_PROGRESS],
       message: 'Running quality review and self-evaluation...',
       description: 'Reviewing analysis for accuracy, completeness, and relationship mapping',
     });
@@ -342,7 +173,7 @@ function getAdvancedPhases(sectionCount: number, runEvaluation: boolean): Progre
   phases.push({
     id: 'saving',
     name: 'Saving',
-    range: [85, 100],
+    range: [SAVING_START_PROGRESS, 100],
     message: 'Saving analysis results...',
     description: 'Storing analysis in database',
   });
@@ -365,26 +196,6 @@ export function getCurrentPhase(
   return null;
 }
 
-/**
- * Calculate progress within a phase
- */
-export function calculatePhaseProgress(
-  elapsedSeconds: number,
-  totalEstimatedSeconds: number,
-  phases: ProgressPhase[]
-): { progress: number; phase: ProgressPhase | null } {
-  // Calculate overall progress (0-100)
-  const overallProgress = Math.min(95, (elapsedSeconds / totalEstimatedSeconds) * 100);
-
-  // Find current phase
-  const currentPhase = getCurrentPhase(overallProgress, phases);
-
-  return {
-    progress: Math.round(overallProgress),
-    phase: currentPhase,
-  };
-}
-
 /**
  * Format time remaining for display
  */
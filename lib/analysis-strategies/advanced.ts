@@ -25,6 +25,7 @@ import type {
   EvaluationResults,
 } from '@/types';
 import type OpenAI from 'openai';
+import { fillPromptVariables, type TemplateVariableValues } from '@/lib/template-variables';
 import {
   formatOutputType,
   postProcessResults,
@@ -32,8 +33,24 @@ import {
   ANALYSIS_CONSTANTS,
   logger,
   retryWithBackoff,
+  getCompletionLimitParams,
+  type AnalysisStep,
+  type AnalysisProgressListener,
+  type AnalysisModel,
 } from './shared';
 import { executeEvaluationPass } from './evaluator';
+import {
+  buildDependencyGraph,
+  topologicalSort,
+  CircularDependencyError,
+} from './dependency-graph';
+
+export {
+  buildDependencyGraph,
+  topologicalSort,
+  CircularDependencyError,
+  type SectionDependencyNode,
+} from './dependency-graph';
 
 /**
  * Configuration options for advanced analysis execution
@@ -41,6 +58,16 @@ import { executeEvaluationPass } from './evaluator';
 export interface AdvancedAnalysisConfig {
   /** Whether to run self-evaluation pass after analysis */
   runEvaluation?: boolean;
+  /** Context window of the analysis model in tokens */
+  contextLimit?: number;
+  /** Model for the self-evaluation pass (default: the analysis model) */
+  evaluationModel?: AnalysisModel;
+  /** Optional listener for section and evaluation progress */
+  onProgress?: AnalysisProgressListener;
+  /** Values for `{{variable}}` placeholders in section prompts */
+  variables?: TemplateVariableValues;
+  /** Aborts in-flight model calls, e.g. when the client disconnects */
+  signal?: AbortSignal;
 }
 
 /**
@@ -57,20 +84,6 @@ export interface AdvancedAnalysisResult {
   promptsUsed: string[];
 }
 
-/**
- * Represents a node in the dependency graph
- */
-export interface SectionDependencyNode {
-  /** The template section */
-  section: TemplateSection;
-
-  /** Section IDs this section depends on */
-  dependencies: string[];
-
-  /** Section IDs that depend on this section */
-  dependents: string[];
-}
-
 /**
  * Result from analyzing a single section (raw JSON response)
  */
@@ -118,141 +131,19 @@ interface SectionAnalysisResponse {
 }
 
 /**
- * Build dependency graph from template sections
+ * Describe the sections advanced analysis will run for a template, in
+ * dependency order
  *
- * Creates a graph representation of section dependencies for topological sorting.
- * Validates that all referenced dependencies exist in the template.
- *
- * @param sections - Array of template sections
- * @returns Map of section ID to dependency node
- * @throws Error if a section references a non-existent dependency
- */
-export function buildDependencyGraph(
-  sections: TemplateSection[]
-): Map<string, SectionDependencyNode> {
-  const graph = new Map<string, SectionDependencyNode>();
-
-  // Initialize all nodes
-  for (const section of sections) {
-    graph.set(section.id, {
-      section,
-      dependencies: section.dependencies || [],
-      dependents: [],
-    });
-  }
-
-  // Validate dependencies and build dependent lists
-  for (const section of sections) {
-    const deps = section.dependencies || [];
-
-    for (const depId of deps) {
-      // Validate dependency exists
-      if (!graph.has(depId)) {
-        throw new Error(
-          `Section "${section.name}" (${section.id}) depends on non-existent section "${depId}"`
-        );
-      }
-
-      // Add this section as a dependent of the dependency
-      const depNode = graph.get(depId)!;
-      depNode.dependents.push(section.id);
-    }
-  }
-
-  logger.info('Advanced Analysis', 'Dependency graph built', {
-    totalSections: sections.length,
-    sectionsWithDependencies: sections.filter((s) => (s.dependencies?.length || 0) > 0).length,
-  });
-
-  return graph;
-}
-
-/**
- * Topologically sort sections based on dependencies
- *
- * Uses Kahn's algorithm to sort sections so that dependencies are processed before
- * sections that depend on them. Detects circular dependencies.
- *
- * @param graph - Dependency graph from buildDependencyGraph
- * @returns Sorted array of template sections
+ * @param template - Analysis template
+ * @returns One step per section
  * @throws Error if circular dependencies are detected
  */
-export function topologicalSort(
-  graph: Map<string, SectionDependencyNode>
-): TemplateSection[] {
-  const sorted: TemplateSection[] = [];
-  const inDegree = new Map<string, number>();
-  const queue: string[] = [];
-
-  // Calculate in-degree (number of dependencies) for each node
-  for (const [id, node] of Array.from(graph.entries())) {
-    inDegree.set(id, node.dependencies.length);
-
-    // Nodes with no dependencies can be processed first
-    if (node.dependencies.length === 0) {
-      queue.push(id);
-    }
-  }
-
-  logger.info('Advanced Analysis', 'Topological sort starting', {
-    totalNodes: graph.size,
-    nodesWithNoDependencies: queue.length,
-  });
-
-  // Process nodes in topological order
-  while (queue.length > 0) {
-    const currentId = queue.shift()!;
-    const currentNode = graph.get(currentId)!;
-    sorted.push(currentNode.section);
-
-    // Reduce in-degree for all dependents
-    for (const dependentId of currentNode.dependents) {
-      const currentInDegree = inDegree.get(dependentId)!;
-      const newInDegree = currentInDegree - 1;
-      inDegree.set(dependentId, newInDegree);
-
-      // If all dependencies have been processed, add to queue
-      if (newInDegree === 0) {
-        queue.push(dependentId);
-      }
-    }
-  }
-
-  // Check for circular dependencies
-  if (sorted.length !== graph.size) {
-    const sortedIds = new Set(sorted.map(s => s.id));
-    const unprocessed = Array.from(graph.keys()).filter(id => !sortedIds.has(id));
-
-    // Build circular dependency chains for better error message
-    const circularChains: string[] = [];
-    unprocessed.forEach(id => {
-      const node = graph.get(id)!;
-      const deps = node.dependencies
-        .filter(depId => unprocessed.includes(depId))
-        .join(' → ');
-      if (deps) {
-        circularChains.push(`${id} → ${deps}`);
-      }
-    });
-
-    logger.error('Advanced Analysis', 'Circular dependency detected', {
-      totalSections: graph.size,
-      processedSections: sorted.length,
-      unprocessedSections: unprocessed,
-      circularChains,
-    });
-
-    throw new Error(
-      `Circular dependency detected. Unable to process sections: ${unprocessed.join(', ')}.\n` +
-      `Circular relationships: ${circularChains.join('; ')}`
-    );
-  }
-
-  logger.info('Advanced Analysis', 'Topological sort complete', {
-    sortedOrder: sorted.map((s) => s.name),
-  });
-
-  return sorted;
+export function planAdvancedSections(template: Template): AnalysisStep[] {
+  return topologicalSort(buildDependencyGraph(template.sections)).map((section) => ({
+    id: `section-${section.id}`,
+    name: section.name,
+    sectionNames: [section.name],
+  }));
 }
 
 /**
@@ -268,13 +159,15 @@ export function topologicalSort(
  * @param transcript - Full transcript text
  * @param previousResults - Partial results from processed sections
  * @param dependencySectionNames - Names of sections this depends on (for user-friendly display)
+ * @param variables - Values for `{{variable}}` placeholders in the section prompt
  * @returns Comprehensive prompt string with full context
  */
 export function generateCascadingPrompt(
   section: TemplateSection,
   transcript: string,
   previousResults: Partial<AnalysisResults>,
-  dependencySectionNames: string[]
+  dependencySectionNames: string[],
+  variables: TemplateVariableValues = {}
 ): string {
   const hasAgenda = previousResults.agendaItems && previousResults.agendaItems.length > 0;
   const hasDecisions = previousResults.decisions && previousResults.decisions.length > 0;
@@ -473,7 +366,7 @@ ${contextSection}
 
 ## Your Task: Extract "${section.name}"
 
-**Instructions**: ${section.prompt}
+**Instructions**: ${fillPromptVariables(section.prompt, variables)}
 
 **Output Format**: ${formatDescription}
 
@@ -668,9 +561,27 @@ export async function executeAdvancedAnalysis(
   logger.info('Advanced Analysis', 'Building dependency graph');
   const graph = buildDependencyGraph(template.sections);
 
+  logger.info('Advanced Analysis', 'Dependency graph built', {
+    totalSections: template.sections.length,
+    sectionsWithDependencies: template.sections.filter((s) => (s.dependencies?.length || 0) > 0).length,
+  });
+
   // Step 2: Topologically sort sections
   logger.info('Advanced Analysis', 'Performing topological sort');
-  const sortedSections = topologicalSort(graph);
+  let sortedSections: TemplateSection[];
+  try {
+    sortedSections = topologicalSort(graph);
+  } catch (error) {
+    if (error instanceof CircularDependencyError) {
+      logger.error('Advanced Analysis', 'Circular dependency detected', {
+        totalSections: graph.size,
+        processedSections: error.sorted.length,
+        unprocessedSections: error.sectionIds,
+        circularChains: error.chains,
+      });
+    }
+    throw error;
+  }
 
   logger.info('Advanced Analysis', 'Processing order established', {
     order: sortedSections.map((s, idx) => ({
@@ -700,6 +611,12 @@ export async function executeAdvancedAnalysis(
     if (progressCallback) {
       progressCallback(currentStep, totalSections, section.name);
     }
+    config?.onProgress?.({
+      type: 'step-start',
+      step: currentStep,
+      total: totalSections,
+      name: section.name,
+    });
 
     // Get names of dependency sections for prompt
     const dependencySectionNames =
@@ -709,7 +626,13 @@ export async function executeAdvancedAnalysis(
       }) || [];
 
     // Generate cascading prompt with full context
-    const prompt = generateCascadingPrompt(section, transcript, accumulated, dependencySectionNames);
+    const prompt = generateCascadingPrompt(
+      section,
+      transcript,
+      accumulated,
+      dependencySectionNames,
+      config?.variables
+    );
 
     // Track prompt for evaluation
     promptsUsed.push(prompt);
@@ -723,34 +646,36 @@ export async function executeAdvancedAnalysis(
     });
 
     // Validate token limits before API call
-    const validation = validateTokenLimits(transcript, prompt, `Advanced Analysis - ${section.name}`);
+    const validation = validateTokenLimits(transcript, prompt, `Advanced Analysis - ${section.name}`, config?.contextLimit);
     if (validation.warnings.length > 0) {
       validation.warnings.forEach(w => logger.warn('Advanced Analysis', w));
     }
 
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: 'system',
+        content:
+          'You are an expert meeting analyst. You provide structured, accurate analysis ' +
+          'of specific transcript sections with precise relationship mapping between agenda items, ' +
+          'decisions, and action items. You always respond with valid JSON and maintain consistency ' +
+          'with previously extracted information.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ];
+
     // Make API call for this section with retry logic
     try {
       const response = await retryWithBackoff(
         async () => {
           const res = await openaiClient.chat.completions.create({
             model: deployment,
-            messages: [
-              {
-                role: 'system',
-                content:
-                  'You are an expert meeting analyst. You provide structured, accurate analysis ' +
-                  'of specific transcript sections with precise relationship mapping between agenda items, ' +
-                  'decisions, and action items. You always respond with valid JSON and maintain consistency ' +
-                  'with previously extracted information.',
-              },
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-            max_completion_tokens: ANALYSIS_CONSTANTS.MAX_COMPLETION_TOKENS, // GPT-5 requires max_completion_tokens
+            messages,
+            ...getCompletionLimitParams(deployment, messages, config?.contextLimit),
             response_format: { type: 'json_object' }, // Enforce JSON response
-          });
+          }, { signal: config?.signal });
 
           // Validate response before returning
           const finishReason = res.choices[0].finish_reason;
@@ -789,7 +714,8 @@ export async function executeAdvancedAnalysis(
           return res;
         },
         3, // Max 3 retry attempts
-        2000 // 2 second initial delay
+        2000, // 2 second initial delay
+        config?.signal
       );
 
       const content = response.choices[0].message.content;
@@ -831,6 +757,14 @@ export async function executeAdvancedAnalysis(
         newActionItems: parsedResponse.actionItems?.length || 0,
         totalAccumulatedSections: accumulated.sections?.length || 0,
       });
+
+      config?.onProgress?.({
+        type: 'step-complete',
+        step: currentStep,
+        total: totalSections,
+        name: section.name,
+        sections: accumulated.sections ? accumulated.sections.slice(-1) : [],
+      });
     } catch (error) {
       logger.error('Advanced Analysis', `Error processing section "${section.name}"`, error);
       throw new Error(`Failed to analyze section "${section.name}": ${error}`);
@@ -879,15 +813,24 @@ export async function executeAdvancedAnalysis(
   // Check if self-evaluation should run
   if (config?.runEvaluation) {
     logger.info('Advanced Analysis', 'Running self-evaluation pass');
+    config.onProgress?.({ type: 'evaluation-start' });
+    const evaluationModel: AnalysisModel = config.evaluationModel ?? {
+      openaiClient,
+      deployment,
+      contextLimit: config.contextLimit,
+    };
     const { evaluation, finalResults } = await executeEvaluationPass(
       template,
       transcript,
       draftResults,
       'advanced',
-      openaiClient,
-      deployment,
-      promptsUsed
+      evaluationModel.openaiClient,
+      evaluationModel.deployment,
+      promptsUsed,
+      evaluationModel.contextLimit,
+      config.signal
     );
+    config.onProgress?.({ type: 'evaluation-complete' });
 
     return {
       results: finalResults,
@@ -24,14 +24,20 @@ import type {
   Decision,
   Quote,
   EvaluationResults,
+  TokenUsage,
 } from '@/types';
 import type OpenAI from 'openai';
+import { fillPromptVariables, type TemplateVariableValues } from '@/lib/template-variables';
 import {
   formatOutputType,
   postProcessResults,
   validateTokenLimits,
   ANALYSIS_CONSTANTS,
   retryWithBackoff,
+  getCompletionLimitParams,
+  toTokenUsage,
+  type AnalysisProgressListener,
+  type AnalysisModel,
 } from './shared';
 import { executeEvaluationPass } from './evaluator';
 
@@ -81,18 +87,20 @@ interface BasicAnalysisResponse {
  *
  * @param template - Analysis template with sections
  * @param transcript - Full transcript text
+ * @param variables - Values for `{{variable}}` placeholders in section prompts
  * @returns Comprehensive prompt string
  */
 export function generateBasicAnalysisPrompt(
   template: Template,
-  transcript: string
+  transcript: string,
+  variables: TemplateVariableValues = {}
 ): string {
   const sectionInstructions = template.sections
     .map((section, idx) => {
       return `
 ### Section ${idx + 1}: ${section.name}
 
-**Task**: ${section.prompt}
+**Task**: ${fillPromptVariables(section.prompt, variables)}
 
 **Output Format**: ${formatOutputType(section.outputFormat)}
 
@@ -372,6 +380,16 @@ export function isValidBasicAnalysisResponse(data: unknown): data is BasicAnalys
 export interface BasicAnalysisConfig {
   /** Whether to run self-evaluation pass after analysis */
   runEvaluation?: boolean;
+  /** Context window of the analysis model in tokens */
+  contextLimit?: number;
+  /** Model for the self-evaluation pass (default: the analysis model) */
+  evaluationModel?: AnalysisModel;
+  /** Optional listener for step and evaluation progress */
+  onProgress?: AnalysisProgressListener;
+  /** Values for `{{variable}}` placeholders in section prompts */
+  variables?: TemplateVariableValues;
+  /** Aborts in-flight model calls, e.g. when the client disconnects */
+  signal?: AbortSignal;
 }
 
 /**
@@ -386,6 +404,8 @@ export interface BasicAnalysisResult {
   evaluation?: EvaluationResults;
   /** The prompt used for analysis */
   promptUsed: string;
+  /** Tokens used by the analysis call (not including evaluation) */
+  usage: TokenUsage;
 }
 
 /**
@@ -408,11 +428,13 @@ export async function executeBasicAnalysis(
   deployment: string,
   config?: BasicAnalysisConfig
 ): Promise<BasicAnalysisResult> {
+  const onProgress = config?.onProgress;
+
   console.log('[Basic Analysis] Generating monolithic prompt');
-  const prompt = generateBasicAnalysisPrompt(template, transcript);
+  const prompt = generateBasicAnalysisPrompt(template, transcript, config?.variables);
 
   // Validate token limits before API call
-  const validation = validateTokenLimits(transcript, prompt, 'Basic Analysis');
+  const validation = validateTokenLimits(transcript, prompt, 'Basic Analysis', config?.contextLimit);
   if (validation.warnings.length > 0) {
     validation.warnings.forEach(w => console.warn(w));
   }
@@ -420,32 +442,36 @@ export async function executeBasicAnalysis(
     throw new Error(validation.errors.join('; '));
   }
 
+  onProgress?.({ type: 'step-start', step: 1, total: 1, name: 'Analysis' });
+
   console.log('[Basic Analysis] Making single API call', {
     deployment,
     templateSections: template.sections.length,
     outputs: template.outputs,
   });
 
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: 'system',
+      content:
+        'You are an expert meeting analyst. You provide structured, accurate analysis ' +
+        'of meeting transcripts with clear relationship mapping between agenda items, ' +
+        'decisions, and action items. Always respond with valid JSON.',
+    },
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ];
+
   const response = await retryWithBackoff(
     async () => {
       const res = await openaiClient.chat.completions.create({
         model: deployment,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are an expert meeting analyst. You provide structured, accurate analysis ' +
-              'of meeting transcripts with clear relationship mapping between agenda items, ' +
-              'decisions, and action items. Always respond with valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_completion_tokens: ANALYSIS_CONSTANTS.MAX_COMPLETION_TOKENS, // GPT-5 requires max_completion_tokens
+        messages,
+        ...getCompletionLimitParams(deployment, messages, config?.contextLimit),
         response_format: { type: 'json_object' }, // Enforce JSON response
-      });
+      }, { signal: config?.signal });
 
       // Validate response before returning
       const finishReason = res.choices[0].finish_reason;
@@ -484,7 +510,8 @@ export async function executeBasicAnalysis(
       return res;
     },
     3, // Max 3 retry attempts
-    2000 // 2 second initial delay
+    2000, // 2 second initial delay
+    config?.signal
   );
 
   const content = response.choices[0].message.content;
@@ -525,24 +552,42 @@ export async function executeBasicAnalysis(
     hasSummary: !!draftResults.summary,
   });
 
+  onProgress?.({
+    type: 'step-complete',
+    step: 1,
+    total: 1,
+    name: 'Analysis',
+    sections: draftResults.sections,
+  });
+
   // Check if self-evaluation should run
   if (config?.runEvaluation) {
     console.log('[Basic Analysis] Running self-evaluation pass');
+    onProgress?.({ type: 'evaluation-start' });
+    const evaluationModel: AnalysisModel = config.evaluationModel ?? {
+      openaiClient,
+      deployment,
+      contextLimit: config.contextLimit,
+    };
     const { evaluation, finalResults } = await executeEvaluationPass(
       template,
       transcript,
       draftResults,
       'basic',
-      openaiClient,
-      deployment,
-      [prompt]
+      evaluationModel.openaiClient,
+      evaluationModel.deployment,
+      [prompt],
+      evaluationModel.contextLimit,
+      config.signal
     );
+    onProgress?.({ type: 'evaluation-complete' });
 
     return {
       results: finalResults,
       draftResults,
       evaluation,
       promptUsed: prompt,
+      usage: toTokenUsage(response.usage),
     };
   }
 
@@ -550,5 +595,6 @@ export async function executeBasicAnalysis(
   return {
     results: draftResults,
     promptUsed: prompt,
+    usage: toTokenUsage(response.usage),
   };
 }
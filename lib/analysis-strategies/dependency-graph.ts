@@ -0,0 +1,161 @@
+/**
+ * Section Dependency Graph
+ *
+ * Graph construction and topological ordering of template sections, shared
+ * by the advanced strategy and the template editor. Kept free of logging and
+ * API imports so the editor can run it live in the browser.
+ */
+
+import type { TemplateSection } from '@/types';
+
+/**
+ * Represents a node in the dependency graph
+ */
+export interface SectionDependencyNode {
+  /** The template section */
+  section: TemplateSection;
+
+  /** Section IDs this section depends on */
+  dependencies: string[];
+
+  /** Section IDs that depend on this section */
+  dependents: string[];
+}
+
+/**
+ * Thrown by topologicalSort when sections depend on each other in a cycle
+ */
+export class CircularDependencyError extends Error {
+  constructor(
+    message: string,
+    /** IDs of the sections that could not be ordered */
+    public readonly sectionIds: string[],
+    /** Readable chains such as "a → b", one per unordered section */
+    public readonly chains: string[],
+    /** Sections that could be ordered before the cycle was hit */
+    public readonly sorted: TemplateSection[]
+  ) {
+    super(message);
+    this.name = 'CircularDependencyError';
+  }
+}
+
+/**
+ * Build dependency graph from template sections
+ *
+ * Creates a graph representation of section dependencies for topological sorting.
+ * Validates that all referenced dependencies exist in the template.
+ *
+ * @param sections - Array of template sections
+ * @returns Map of section ID to dependency node
+ * @throws Error if a section references a non-existent dependency
+ */
+export function buildDependencyGraph(
+  sections: TemplateSection[]
+): Map<string, SectionDependencyNode> {
+  const graph = new Map<string, SectionDependencyNode>();
+
+  // Initialize all nodes
+  for (const section of sections) {
+    graph.set(section.id, {
+      section,
+      dependencies: section.dependencies || [],
+      dependents: [],
+    });
+  }
+
+  // Validate dependencies and build dependent lists
+  for (const section of sections) {
+    const deps = section.dependencies || [];
+
+    for (const depId of deps) {
+      // Validate dependency exists
+      if (!graph.has(depId)) {
+        throw new Error(
+          `Section "${section.name}" (${section.id}) depends on non-existent section "${depId}"`
+        );
+      }
+
+      // Add this section as a dependent of the dependency
+      const depNode = graph.get(depId)!;
+      depNode.dependents.push(section.id);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Topologically sort sections based on dependencies
+ *
+ * Uses Kahn's algorithm to sort sections so that dependencies are processed before
+ * sections that depend on them. Detects circular dependencies.
+ *
+ * @param graph - Dependency graph from buildDependencyGraph
+ * @returns Sorted array of template sections
+ * @throws CircularDependencyError if circular dependencies are detected
+ */
+export function topologicalSort(
+  graph: Map<string, SectionDependencyNode>
+): TemplateSection[] {
+  const sorted: TemplateSection[] = [];
+  const inDegree = new Map<string, number>();
+  const queue: string[] = [];
+
+  // Calculate in-degree (number of dependencies) for each node
+  for (const [id, node] of Array.from(graph.entries())) {
+    inDegree.set(id, node.dependencies.length);
+
+    // Nodes with no dependencies can be processed first
+    if (node.dependencies.length === 0) {
+      queue.push(id);
+    }
+  }
+
+  // Process nodes in topological order
+  while (queue.length > 0) {
+    const currentId = queue.shift()!;
+    const currentNode = graph.get(currentId)!;
+    sorted.push(currentNode.section);
+
+    // Reduce in-degree for all dependents
+    for (const dependentId of currentNode.dependents) {
+      const currentInDegree = inDegree.get(dependentId)!;
+      const newInDegree = currentInDegree - 1;
+      inDegree.set(dependentId, newInDegree);
+
+      // If all dependencies have been processed, add to queue
+      if (newInDegree === 0) {
+        queue.push(dependentId);
+      }
+    }
+  }
+
+  // Check for circular dependencies
+  if (sorted.length !== graph.size) {
+    const sortedIds = new Set(sorted.map(s => s.id));
+    const unprocessed = Array.from(graph.keys()).filter(id => !sortedIds.has(id));
+
+    // Build circular dependency chains for better error message
+    const circularChains: string[] = [];
+    unprocessed.forEach(id => {
+      const node = graph.get(id)!;
+      const deps = node.dependencies
+        .filter(depId => unprocessed.includes(depId))
+        .join(' → ');
+      if (deps) {
+        circularChains.push(`${id} → ${deps}`);
+      }
+    });
+
+    throw new CircularDependencyError(
+      `Circular dependency detected. Unable to process sections: ${unprocessed.join(', ')}.\n` +
+      `Circular relationships: ${circularChains.join('; ')}`,
+      unprocessed,
+      circularChains,
+      sorted
+    );
+  }
+
+  return sorted;
+}
@@ -19,15 +19,22 @@ import type {
   Template,
   AnalysisResults,
   EvaluationResults,
+  TokenUsage,
 } from '@/types';
 import type OpenAI from 'openai';
-import { generateEvaluatorPrompt } from '@/lib/evaluator-prompt';
 import {
-  ANALYSIS_CONSTANTS,
+  generateEvaluatorPrompt,
+  generateExpectedOutputPrompt,
+  type ExpectedOutputComparison,
+} from '@/lib/evaluator-prompt';
+import { sumTokenUsage } from '@/lib/template-bench';
+import {
   postProcessResults,
   logger,
   validateTokenLimits,
   retryWithBackoff,
+  getCompletionLimitParams,
+  toTokenUsage,
 } from './shared';
 
 /**
@@ -128,6 +135,8 @@ export function isValidEvaluationResponse(data: unknown): data is EvaluationResp
  * @param openaiClient - Azure OpenAI client instance
  * @param deployment - GPT deployment name
  * @param promptsUsed - Optional array of prompts used during analysis
+ * @param contextLimit - Context window of the model in tokens
+ * @param signal - Aborts the review call; an aborted pass throws instead of returning the draft
  * @returns Promise<{ evaluation: EvaluationResults, finalResults: AnalysisResults }>
  */
 export async function executeEvaluationPass(
@@ -137,7 +146,9 @@ export async function executeEvaluationPass(
   analysisStrategy: string,
   openaiClient: OpenAI,
   deployment: string,
-  promptsUsed?: string[]
+  promptsUsed?: string[],
+  contextLimit?: number,
+  signal?: AbortSignal
 ): Promise<{ evaluation: EvaluationResults; finalResults: AnalysisResults }> {
   try {
     logger.info('Evaluation Pass', 'Starting self-evaluation review', {
@@ -158,7 +169,7 @@ export async function executeEvaluationPass(
     );
 
     // Validate token limits with adaptive handling
-    const validation = validateTokenLimits(transcript, prompt, 'Evaluation Pass');
+    const validation = validateTokenLimits(transcript, prompt, 'Evaluation Pass', contextLimit);
     if (validation.warnings.length > 0) {
       validation.warnings.forEach((w) => logger.warn('Evaluation Pass', w));
     }
@@ -178,7 +189,7 @@ export async function executeEvaluationPass(
         undefined // Skip prompts used
       );
 
-      const revalidation = validateTokenLimits(transcript, prompt, 'Evaluation Pass');
+      const revalidation = validateTokenLimits(transcript, prompt, 'Evaluation Pass', contextLimit);
       if (!revalidation.valid) {
         // Still too large - return draft results with warning
         logger.error(
@@ -203,27 +214,29 @@ export async function executeEvaluationPass(
     templateName: template.name,
   });
 
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: 'system',
+      content:
+        'You are a senior analyst reviewing meeting analysis for accuracy, completeness, ' +
+        'and clarity. You identify improvements and produce polished final results. ' +
+        'Always respond with valid JSON.',
+    },
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ];
+
   // Make API call with retry logic
   const response = await retryWithBackoff(
     async () => {
       const res = await openaiClient.chat.completions.create({
         model: deployment,
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a senior analyst reviewing meeting analysis for accuracy, completeness, ' +
-              'and clarity. You identify improvements and produce polished final results. ' +
-              'Always respond with valid JSON.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_completion_tokens: ANALYSIS_CONSTANTS.MAX_COMPLETION_TOKENS, // GPT-5 requires max_completion_tokens
+        messages,
+        ...getCompletionLimitParams(deployment, messages, contextLimit),
         response_format: { type: 'json_object' }, // Enforce JSON response
-      });
+      }, { signal: signal });
 
       // Validate response before returning
       const finishReason = res.choices[0].finish_reason;
@@ -262,7 +275,8 @@ export async function executeEvaluationPass(
       return res;
     },
     3, // Max 3 retry attempts
-    2000 // 2 second initial delay
+    2000, // 2 second initial delay
+    signal
   );
 
   const content = response.choices[0].message.content;
@@ -362,6 +376,8 @@ export async function executeEvaluationPass(
       finalResults,
     };
   } catch (error) {
+    if (signal?.aborted) throw error;
+
     // Fallback: Return draft results if evaluation fails
     logger.error('Evaluation Pass', 'Evaluation failed, returning draft results', error);
 
@@ -378,6 +394,172 @@ export async function executeEvaluationPass(
   }
 }
 
+/**
+ * Score of one section output against its expected output
+ */
+export interface ExpectedOutputScore {
+  /** Section name */
+  name: string;
+  /** How closely the output matches the expected output (0-10) */
+  score: number;
+  reasoning: string;
+  /** Points in the expected output that the output leaves out */
+  missing: string[];
+}
+
+/**
+ * Raw JSON response from expected output scoring API call
+ */
+interface ExpectedOutputScoreResponse {
+  sections: ExpectedOutputScore[];
+}
+
+/**
+ * Validate expected output scoring response structure
+ *
+ * @param data - Parsed JSON data
+ * @param sectionCount - Number of sections that were scored
+ * @returns true if valid structure with one score per section
+ */
+export function isValidExpectedOutputScoreResponse(
+  data: unknown,
+  sectionCount: number
+): data is ExpectedOutputScoreResponse {
+  if (!data || typeof data !== 'object') return false;
+
+  const obj = data as Record<string, unknown>;
+  if (!Array.isArray(obj.sections) || obj.sections.length !== sectionCount) return false;
+
+  for (const section of obj.sections) {
+    if (!section || typeof section !== 'object') return false;
+    const s = section as Record<string, unknown>;
+    if (typeof s.name !== 'string' || typeof s.reasoning !== 'string') return false;
+    if (typeof s.score !== 'number' || s.score < 0 || s.score > 10) return false;
+    if (!Array.isArray(s.missing) || !s.missing.every((m) => typeof m === 'string')) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Thrown by scoreAgainstExpectedOutputs when scoring fails after model
+ * calls were made
+ */
+export class ScoringError extends Error {
+  constructor(
+    message: string,
+    /** Tokens used by the scoring calls made before the failure */
+    public readonly usage: TokenUsage
+  ) {
+    super(message);
+    this.name = 'ScoringError';
+  }
+}
+
+/**
+ * Score section outputs against the expected outputs saved for them
+ *
+ * Used by the template test bench to catch regressions when section
+ * prompts are edited. Unlike the evaluation pass, failures are thrown so
+ * the caller can report the run without scores.
+ *
+ * @param comparisons - Section outputs with their expected outputs
+ * @param openaiClient - Azure OpenAI client instance
+ * @param deployment - GPT deployment name
+ * @param contextLimit - Context window of the model in tokens
+ * @returns Scores in the order of `comparisons`, and the tokens used
+ * @throws {ScoringError} With the tokens used so far, when a model call or
+ *   its response fails
+ */
+export async function scoreAgainstExpectedOutputs(
+  comparisons: ExpectedOutputComparison[],
+  openaiClient: OpenAI,
+  deployment: string,
+  contextLimit?: number
+): Promise<{ scores: ExpectedOutputScore[]; usage: TokenUsage }> {
+  const prompt = generateExpectedOutputPrompt(comparisons);
+
+  const validation = validateTokenLimits('', prompt, 'Expected Output Scoring', contextLimit);
+  if (!validation.valid) {
+    throw new Error(validation.errors.join('; '));
+  }
+
+  logger.info('Expected Output Scoring', 'Scoring sections against expected outputs', {
+    deployment,
+    sectionCount: comparisons.length,
+  });
+
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: 'system',
+      content:
+        'You are a senior analyst comparing meeting analysis against expected results. ' +
+        'Always respond with valid JSON.',
+    },
+    {
+      role: 'user',
+      content: prompt,
+    },
+  ];
+
+  // Every attempt is billed, including retried and failed ones
+  const spent: TokenUsage[] = [];
+  const response = await retryWithBackoff(
+    async () => {
+      const res = await openaiClient.chat.completions.create({
+        model: deployment,
+        messages,
+        ...getCompletionLimitParams(deployment, messages, contextLimit),
+        response_format: { type: 'json_object' },
+      });
+      spent.push(toTokenUsage(res.usage));
+
+      const finishReason = res.choices[0].finish_reason;
+      const content = res.choices[0].message.content;
+
+      if (finishReason === 'content_filter') {
+        logger.warn('Expected Output Scoring', 'Content filter triggered - retrying');
+        throw new Error('RETRY');
+      }
+
+      if (finishReason === 'length') {
+        throw new Error('Scoring response truncated due to token limit.');
+      }
+
+      if (!content || content.trim() === '') {
+        throw new Error('RETRY');
+      }
+
+      return res;
+    },
+    3,
+    2000
+  ).catch((error) => {
+    throw new ScoringError(error instanceof Error ? error.message : 'Scoring failed', sumTokenUsage(spent));
+  });
+
+  let parsedResponse: unknown;
+  try {
+    parsedResponse = JSON.parse(response.choices[0].message.content ?? '');
+  } catch (error) {
+    logger.error('Expected Output Scoring', 'Failed to parse JSON response', { error });
+    throw new ScoringError('Invalid JSON response from OpenAI', sumTokenUsage(spent));
+  }
+
+  if (!isValidExpectedOutputScoreResponse(parsedResponse, comparisons.length)) {
+    logger.error('Expected Output Scoring', 'Invalid response structure');
+    throw new ScoringError('Response does not match expected scoring structure', sumTokenUsage(spent));
+  }
+
+  const usage = sumTokenUsage(spent);
+  logger.info('Expected Output Scoring', 'Scoring complete', {
+    scores: parsedResponse.sections.map((s) => s.score),
+    tokensUsed: usage.totalTokens,
+  });
+
+  return { scores: parsedResponse.sections, usage };
+}
+
 /**
  * Compare draft and final results to generate improvement summary
  *
@@ -27,6 +27,7 @@ import type {
   EvaluationResults,
 } from '@/types';
 import type OpenAI from 'openai';
+import { fillPromptVariables, type TemplateVariableValues } from '@/lib/template-variables';
 import {
   formatOutputType,
   postProcessResults,
@@ -34,6 +35,10 @@ import {
   ANALYSIS_CONSTANTS,
   logger,
   retryWithBackoff,
+  getCompletionLimitParams,
+  type AnalysisStep,
+  type AnalysisProgressListener,
+  type AnalysisModel,
 } from './shared';
 import { executeEvaluationPass } from './evaluator';
 
@@ -95,6 +100,16 @@ interface BatchConfig {
 export interface HybridAnalysisConfig {
   /** Whether to run self-evaluation pass after analysis */
   runEvaluation?: boolean;
+  /** Context window of the analysis model in tokens */
+  contextLimit?: number;
+  /** Model for the self-evaluation pass (default: the analysis model) */
+  evaluationModel?: AnalysisModel;
+  /** Optional listener for batch and evaluation progress */
+  onProgress?: AnalysisProgressListener;
+  /** Values for `{{variable}}` placeholders in section prompts */
+  variables?: TemplateVariableValues;
+  /** Aborts in-flight model calls, e.g. when the client disconnects */
+  signal?: AbortSignal;
 }
 
 /**
@@ -214,6 +229,29 @@ function groupSectionsIntoBatches(template: Template): BatchConfig[] {
   return batches;
 }
 
+/**
+ * Display names for each batch
+ */
+const BATCH_DISPLAY_NAMES: Record<BatchName, string> = {
+  foundation: 'Foundation Batch',
+  discussion: 'Discussion Batch',
+  action: 'Action Batch',
+};
+
+/**
+ * Describe the batches hybrid analysis will run for a template, in order
+ *
+ * @param template - Analysis template
+ * @returns One step per non-empty batch
+ */
+export function planHybridBatches(template: Template): AnalysisStep[] {
+  return groupSectionsIntoBatches(template).map((batch) => ({
+    id: `batch-${batch.name}`,
+    name: BATCH_DISPLAY_NAMES[batch.name],
+    sectionNames: batch.sections.map((s) => s.name),
+  }));
+}
+
 /**
  * Generate prompt for a specific batch with context from previous batches
  *
@@ -221,20 +259,22 @@ function groupSectionsIntoBatches(template: Template): BatchConfig[] {
  * @param transcript - Full transcript text
  * @param template - Analysis template
  * @param previousResults - Results from previous batches (for context)
+ * @param variables - Values for `{{variable}}` placeholders in section prompts
  * @returns Prompt string for this batch
  */
 export function generateBatchPrompt(
   batch: BatchConfig,
   transcript: string,
   template: Template,
-  previousResults?: Partial<AnalysisResults>
+  previousResults?: Partial<AnalysisResults>,
+  variables: TemplateVariableValues = {}
 ): string {
   const sectionInstructions = batch.sections
     .map((section, idx) => {
       return `
 ### Section ${idx + 1}: ${section.name}
 
-**Task**: ${section.prompt}
+**Task**: ${fillPromptVariables(section.prompt, variables)}
 
 **Output Format**: ${formatOutputType(section.outputFormat)}
 
@@ -729,6 +769,12 @@ export async function executeHybridAnalysis(
     if (progressCallback) {
       progressCallback(i + 1, batches.length, batch.name);
     }
+    config?.onProgress?.({
+      type: 'step-start',
+      step: i + 1,
+      total: batches.length,
+      name: BATCH_DISPLAY_NAMES[batch.name],
+    });
 
     logger.info('Hybrid Analysis', `Executing batch ${i + 1}/${batches.length}: ${batch.name}`, {
       sectionCount: batch.sections.length,
@@ -740,14 +786,15 @@ export async function executeHybridAnalysis(
       batch,
       transcript,
       template,
-      i > 0 ? accumulatedResults : undefined
+      i > 0 ? accumulatedResults : undefined,
+      config?.variables
     );
 
     // Track this prompt
     promptsUsed.push(prompt);
 
     // Validate token limits before API call
-    const validation = validateTokenLimits(transcript, prompt, `Hybrid Analysis - ${batch.name}`);
+    const validation = validateTokenLimits(transcript, prompt, `Hybrid Analysis - ${batch.name}`, config?.contextLimit);
     if (validation.warnings.length > 0) {
       validation.warnings.forEach(w => logger.warn('Hybrid Analysis', w));
     }
@@ -758,26 +805,28 @@ export async function executeHybridAnalysis(
       contextProvided: i > 0,
     });
 
+    const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+      {
+        role: 'system',
+        content:
+          'You are an expert meeting analyst. You provide structured, accurate analysis ' +
+          'of meeting transcripts with clear relationship mapping between agenda items, ' +
+          'decisions, and action items. Always respond with valid JSON.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ];
+
     const response = await retryWithBackoff(
       async () => {
         const res = await openaiClient.chat.completions.create({
           model: deployment,
-          messages: [
-            {
-              role: 'system',
-              content:
-                'You are an expert meeting analyst. You provide structured, accurate analysis ' +
-                'of meeting transcripts with clear relationship mapping between agenda items, ' +
-                'decisions, and action items. Always respond with valid JSON.',
-            },
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          max_completion_tokens: ANALYSIS_CONSTANTS.MAX_COMPLETION_TOKENS, // GPT-5 requires max_completion_tokens
+          messages,
+          ...getCompletionLimitParams(deployment, messages, config?.contextLimit),
           response_format: { type: 'json_object' }, // Enforce JSON response
-        });
+        }, { signal: config?.signal });
 
         // Validate response before returning
         const finishReason = res.choices[0].finish_reason;
@@ -816,7 +865,8 @@ export async function executeHybridAnalysis(
         return res;
       },
       3, // Max 3 retry attempts
-      2000 // 2 second initial delay
+      2000, // 2 second initial delay
+      config?.signal
     );
 
     const content = response.choices[0].message.content;
@@ -894,6 +944,14 @@ export async function executeHybridAnalysis(
       actionItemCount: parsedResponse.actionItems?.length || 0,
       quoteCount: parsedResponse.quotes?.length || 0,
     });
+
+    config?.onProgress?.({
+      type: 'step-complete',
+      step: i + 1,
+      total: batches.length,
+      name: BATCH_DISPLAY_NAMES[batch.name],
+      sections: batchSections,
+    });
   }
 
   // Merge all batch results
@@ -914,15 +972,24 @@ export async function executeHybridAnalysis(
   // Check if self-evaluation should run
   if (config?.runEvaluation) {
     logger.info('Hybrid Analysis', 'Running self-evaluation pass');
+    config.onProgress?.({ type: 'evaluation-start' });
+    const evaluationModel: AnalysisModel = config.evaluationModel ?? {
+      openaiClient,
+      deployment,
+      contextLimit: config.contextLimit,
+    };
     const { evaluation, finalResults } = await executeEvaluationPass(
       template,
       transcript,
       draftResults,
       'hybrid',
-      openaiClient,
-      deployment,
-      promptsUsed
+      evaluationModel.openaiClient,
+      evaluationModel.deployment,
+      promptsUsed,
+      evaluationModel.contextLimit,
+      config.signal
     );
+    config.onProgress?.({ type: 'evaluation-complete' });
 
     return {
       results: finalResults,
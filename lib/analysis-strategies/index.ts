@@ -12,6 +12,7 @@ import type { AnalysisStrategy } from '@/lib/analysis-strategy';
 import type OpenAI from 'openai';
 import { recommendStrategy, getStrategyMetadata } from '@/lib/analysis-strategy';
 import { estimateTokens } from '@/lib/token-utils';
+import type { TemplateVariableValues } from '@/lib/template-variables';
 
 // Import all strategy executors
 import {
@@ -21,14 +22,17 @@ import {
 } from './basic';
 import {
   executeHybridAnalysis,
+  planHybridBatches,
   type HybridAnalysisConfig,
   type HybridAnalysisResult,
 } from './hybrid';
 import {
   executeAdvancedAnalysis,
+  planAdvancedSections,
   type AdvancedAnalysisConfig,
   type AdvancedAnalysisResult,
 } from './advanced';
+import type { AnalysisStep, AnalysisProgressListener, AnalysisModel } from './shared';
 
 // Re-export shared utilities
 export * from './shared';
@@ -36,6 +40,9 @@ export * from './shared';
 // Re-export evaluator
 export * from './evaluator';
 
+// Re-export template test bench
+export * from './test-bench';
+
 /**
  * Configuration for analysis execution
  */
@@ -54,11 +61,41 @@ export interface AnalysisConfig {
    */
   runEvaluation?: boolean;
 
+  /**
+   * Context window of the analysis model in tokens.
+   * Defaults to the standard GPT-5 limit.
+   */
+  contextLimit?: number;
+
+  /**
+   * Model for the self-evaluation pass.
+   * Defaults to the analysis client and deployment.
+   */
+  evaluationModel?: AnalysisModel;
+
   /**
    * Optional callback for progress updates.
    * Called at various stages during analysis.
    */
   progressCallback?: (current: number, total: number, message: string) => void;
+
+  /**
+   * Optional listener for structured progress events (step start/complete
+   * with partial sections, evaluation start/complete).
+   */
+  onProgress?: AnalysisProgressListener;
+
+  /**
+   * Values for `{{variable}}` placeholders in section prompts.
+   * Placeholders without a value are sent as written.
+   */
+  variables?: TemplateVariableValues;
+
+  /**
+   * Aborts in-flight model calls, e.g. when the client disconnects.
+   * An aborted analysis rejects instead of returning partial results.
+   */
+  signal?: AbortSignal;
 }
 
 /**
@@ -90,6 +127,60 @@ export interface AnalysisExecutionResult {
   };
 }
 
+/**
+ * Resolve the strategy option to the concrete strategy that will run
+ *
+ * @param strategyOption - Requested strategy or 'auto'
+ * @param transcript - Full transcript text (used for auto-selection)
+ * @returns Concrete strategy and whether it was auto-selected
+ */
+export function resolveAnalysisStrategy(
+  strategyOption: AnalysisStrategy | 'auto',
+  transcript: string
+): { strategy: AnalysisStrategy; wasAutoSelected: boolean } {
+  if (strategyOption === 'auto') {
+    const recommendation = recommendStrategy(transcript);
+    if (process.env.NODE_ENV === 'development') {
+      console.log(
+        `[Analysis] Auto-selected strategy: ${recommendation.strategy} (${recommendation.reasoning})`
+      );
+    }
+    return { strategy: recommendation.strategy, wasAutoSelected: true };
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`[Analysis] Using specified strategy: ${strategyOption}`);
+  }
+  return { strategy: strategyOption, wasAutoSelected: false };
+}
+
+/**
+ * Get the steps a strategy will run for a template, in execution order
+ *
+ * Matches the `step`/`total` values reported through `onProgress`, so
+ * callers can render the plan before analysis starts.
+ *
+ * @param template - Analysis template
+ * @param strategy - Concrete strategy
+ * @returns Ordered analysis steps
+ */
+export function getAnalysisPlan(template: Template, strategy: AnalysisStrategy): AnalysisStep[] {
+  switch (strategy) {
+    case 'hybrid':
+      return planHybridBatches(template);
+    case 'advanced':
+      return planAdvancedSections(template);
+    default:
+      return [
+        {
+          id: 'analysis',
+          name: 'Analysis',
+          sectionNames: template.sections.map((s) => s.name),
+        },
+      ];
+  }
+}
+
 /**
  * Execute transcript analysis using the specified or auto-selected strategy
  *
@@ -134,26 +225,16 @@ export async function executeAnalysis(
   const {
     strategy: strategyOption = 'auto',
     runEvaluation = true,
+    contextLimit,
+    evaluationModel,
     progressCallback,
+    onProgress,
+    variables,
+    signal,
   } = config;
 
   // Determine strategy to use
-  let strategy: AnalysisStrategy;
-  let wasAutoSelected = false;
-
-  if (strategyOption === 'auto') {
-    const recommendation = recommendStrategy(transcript);
-    strategy = recommendation.strategy;
-    wasAutoSelected = true;
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Analysis] Auto-selected strategy: ${strategy} (${recommendation.reasoning})`);
-    }
-  } else {
-    strategy = strategyOption;
-    if (process.env.NODE_ENV === 'development') {
-      console.log(`[Analysis] Using specified strategy: ${strategy}`);
-    }
-  }
+  const { strategy, wasAutoSelected } = resolveAnalysisStrategy(strategyOption, transcript);
 
   // Get strategy metadata
   const metadata = getStrategyMetadata(strategy);
@@ -179,6 +260,11 @@ export async function executeAnalysis(
     case 'basic':
       result = await executeBasicAnalysis(template, transcript, openaiClient, deployment, {
         runEvaluation,
+        contextLimit,
+        evaluationModel,
+        onProgress,
+        variables,
+        signal,
       } as BasicAnalysisConfig);
       break;
 
@@ -189,7 +275,7 @@ export async function executeAnalysis(
         openaiClient,
         deployment,
         progressCallback,
-        { runEvaluation } as HybridAnalysisConfig
+        { runEvaluation, contextLimit, evaluationModel, onProgress, variables, signal } as HybridAnalysisConfig
       );
       break;
 
@@ -200,7 +286,7 @@ export async function executeAnalysis(
         openaiClient,
         deployment,
         progressCallback,
-        { runEvaluation } as AdvancedAnalysisConfig
+        { runEvaluation, contextLimit, evaluationModel, onProgress, variables, signal } as AdvancedAnalysisConfig
       );
       break;
 
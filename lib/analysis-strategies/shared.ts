@@ -5,8 +5,10 @@
  * Includes validation, formatting, and utility helpers.
  */
 
-import type { AnalysisResults, OutputFormat } from '@/types';
-import { estimateTokens } from '@/lib/token-utils';
+import type OpenAI from 'openai';
+import type { AnalysisResults, AnalysisSection, OutputFormat, TokenUsage } from '@/types';
+import { buildChatCompletionParams } from '@/lib/openai';
+import { estimateTokens, getCompletionTokenBudget, TOKEN_LIMITS } from '@/lib/token-utils';
 
 /**
  * Constants for analysis configuration
@@ -15,12 +17,12 @@ export const ANALYSIS_CONSTANTS = {
   MAX_BULLET_POINTS: 10,
   MAX_BULLET_WORDS: 15,
   MAX_PARAGRAPH_WORDS: 200,
-  MAX_INPUT_TOKENS_WARNING: 200000, // Leave buffer for response
+  INPUT_TOKENS_WARNING_RATIO: 0.8, // Warn above this share of the model's context
+  INPUT_TOKENS_ERROR_RATIO: 0.975, // Leave buffer for response
   BASIC_TEMPERATURE: 0.3,
   HYBRID_TEMPERATURE: 0.3,
   ADVANCED_TEMPERATURE: 0.2,
   EVALUATION_TEMPERATURE: 0.3, // Slightly higher than advanced for improvement creativity
-  MAX_COMPLETION_TOKENS: 32000,
 } as const;
 
 /**
@@ -145,12 +147,14 @@ export function ensureUniqueIds<T extends { id: string }>(
  * @param transcript - Full transcript text
  * @param prompt - Generated prompt text
  * @param strategyName - Name of strategy (for logging)
+ * @param contextLimit - Context window of the model in tokens
  * @returns Validation result
  */
 export function validateTokenLimits(
   transcript: string,
   prompt: string,
-  strategyName: string
+  strategyName: string,
+  contextLimit: number = TOKEN_LIMITS.standard
 ): ValidationResult {
   const warnings: string[] = [];
   const errors: string[] = [];
@@ -159,18 +163,21 @@ export function validateTokenLimits(
   const promptTokens = estimateTokens(prompt);
   const totalInputTokens = transcriptTokens + promptTokens;
 
-  if (totalInputTokens > ANALYSIS_CONSTANTS.MAX_INPUT_TOKENS_WARNING) {
+  const warningLimit = Math.floor(contextLimit * ANALYSIS_CONSTANTS.INPUT_TOKENS_WARNING_RATIO);
+  const errorLimit = Math.floor(contextLimit * ANALYSIS_CONSTANTS.INPUT_TOKENS_ERROR_RATIO);
+
+  if (totalInputTokens > warningLimit) {
     warnings.push(
       `[${strategyName}] Input tokens (${totalInputTokens.toLocaleString()}) ` +
         'approaching context limit. Consider using a different strategy.'
     );
   }
 
-  // Error if definitely over limit (256K for standard, 1M for extended)
-  if (totalInputTokens > 250000) {
+  // Error if definitely over the model's limit
+  if (totalInputTokens > errorLimit) {
     errors.push(
       `[${strategyName}] Input tokens (${totalInputTokens.toLocaleString()}) ` +
-        'exceed safe context limit (250K). Analysis will likely fail.'
+        `exceed safe context limit (${errorLimit.toLocaleString()}). Analysis will likely fail.`
     );
   }
 
@@ -181,6 +188,25 @@ export function validateTokenLimits(
   };
 }
 
+/**
+ * Response length parameters for an analysis request
+ *
+ * Sized to what the model's context has left after the messages, in the
+ * parameter the model expects (`max_completion_tokens` for reasoning
+ * models, `max_tokens` otherwise).
+ *
+ * @param deployment - Model or deployment the request goes to
+ * @param messages - Messages of the request
+ * @param contextLimit - Context window of the model in tokens
+ */
+export function getCompletionLimitParams(
+  deployment: string,
+  messages: OpenAI.Chat.ChatCompletionMessageParam[],
+  contextLimit: number = TOKEN_LIMITS.standard
+) {
+  return buildChatCompletionParams(deployment, getCompletionTokenBudget(messages, contextLimit));
+}
+
 /**
  * Retry function with exponential backoff
  *
@@ -190,18 +216,20 @@ export function validateTokenLimits(
  * @param fn - Async function to retry
  * @param maxRetries - Maximum number of retry attempts
  * @param baseDelay - Base delay in milliseconds
+ * @param signal - Abort signal; aborted calls are not retried
  * @returns Result of successful function call
  */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries = 3,
-  baseDelay = 1000
+  baseDelay = 1000,
+  signal?: AbortSignal
 ): Promise<T> {
   for (let i = 0; i < maxRetries; i++) {
     try {
       return await fn();
     } catch (error) {
-      if (i === maxRetries - 1) throw error;
+      if (signal?.aborted || i === maxRetries - 1) throw error;
 
       const delay = baseDelay * Math.pow(2, i);
       console.warn(
@@ -265,6 +293,64 @@ export function postProcessResults(
   return processedResults;
 }
 
+/**
+ * One unit of work in an analysis plan (a single call, a hybrid batch,
+ * or an advanced-mode section)
+ */
+export interface AnalysisStep {
+  /** Stable identifier (e.g. "analysis", "batch-foundation", "section-summary") */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Template sections produced by this step */
+  sectionNames: string[];
+}
+
+/**
+ * Progress event emitted by a strategy while it runs
+ *
+ * `step` is 1-based. `step-complete` carries the sections produced by that
+ * step so callers can show partial results before the analysis finishes.
+ */
+export type AnalysisProgressEvent =
+  | { type: 'step-start'; step: number; total: number; name: string }
+  | {
+      type: 'step-complete';
+      step: number;
+      total: number;
+      name: string;
+      sections: AnalysisSection[];
+    }
+  | { type: 'evaluation-start' }
+  | { type: 'evaluation-complete' };
+
+/**
+ * Listener for strategy progress events
+ */
+export type AnalysisProgressListener = (event: AnalysisProgressEvent) => void;
+
+/**
+ * Client and model for a pass that runs on a different model than the
+ * main analysis (e.g. the self-evaluation pass)
+ */
+export interface AnalysisModel {
+  openaiClient: OpenAI;
+  deployment: string;
+  /** Context window in tokens */
+  contextLimit?: number;
+}
+
+/**
+ * Token usage reported by a chat completion, with missing counts as zero
+ */
+export function toTokenUsage(usage: OpenAI.CompletionUsage | undefined): TokenUsage {
+  return {
+    promptTokens: usage?.prompt_tokens ?? 0,
+    completionTokens: usage?.completion_tokens ?? 0,
+    totalTokens: usage?.total_tokens ?? 0,
+  };
+}
+
 /**
  * Structured logger for consistent logging across strategies
  */
@@ -0,0 +1,136 @@
+/**
+ * Template Test Bench Strategy
+ *
+ * Runs some or all of a template's sections against a sample transcript so
+ * authors can check prompt edits before saving them, and scores the output
+ * against any golden outputs saved for those sections.
+ *
+ * Sections are run with the basic strategy (a single API call) and without
+ * the self-evaluation pass, so the output reflects the prompts alone and
+ * the token cost stays predictable.
+ */
+
+import type {
+  BenchSectionOutput,
+  BenchSectionScore,
+  Template,
+  TokenUsage,
+} from '@/types';
+import type OpenAI from 'openai';
+import type { TemplateVariableValues } from '@/lib/template-variables';
+import { createBenchTemplate, matchBenchSectionOutputs, sumTokenUsage } from '@/lib/template-bench';
+import { executeBasicAnalysis } from './basic';
+import { ScoringError, scoreAgainstExpectedOutputs } from './evaluator';
+import { logger, type AnalysisModel } from './shared';
+
+/**
+ * Configuration for a test bench run
+ */
+export interface TemplateBenchConfig {
+  /** Sections to run; all sections when omitted */
+  sectionIds?: string[];
+  /** Values for `{{variable}}` placeholders in section prompts */
+  variables?: TemplateVariableValues;
+  /** Golden outputs to score the run against, by section */
+  expected?: { sectionId: string; content: string }[];
+  /** Context window of the analysis model in tokens */
+  contextLimit?: number;
+  /** Model for scoring; defaults to the analysis client and deployment */
+  scoringModel?: AnalysisModel;
+}
+
+/**
+ * Result of a test bench run
+ */
+export interface TemplateBenchResult {
+  /** Output of each section that was run */
+  sections: BenchSectionOutput[];
+  /** Scores for sections with a golden output */
+  scores?: BenchSectionScore[];
+  /** Why scoring failed; the outputs are still returned */
+  scoringError?: string;
+  /** Tokens used by the run and scoring */
+  usage: TokenUsage;
+}
+
+/**
+ * Run template sections against a transcript and score them
+ *
+ * @param template - Template to test, possibly with unsaved edits
+ * @param transcript - Sample transcript text
+ * @param openaiClient - Azure OpenAI client instance
+ * @param deployment - GPT deployment name
+ * @param config - Sections, variables and golden outputs for the run
+ * @returns Section outputs, scores and token usage
+ */
+export async function executeTemplateBench(
+  template: Template,
+  transcript: string,
+  openaiClient: OpenAI,
+  deployment: string,
+  config: TemplateBenchConfig = {}
+): Promise<TemplateBenchResult> {
+  const benchTemplate = createBenchTemplate(template, config.sectionIds);
+  if (benchTemplate.sections.length === 0) {
+    throw new Error('None of the requested sections exist in the template');
+  }
+
+  logger.info('Test Bench', 'Running template sections', {
+    templateName: template.name,
+    sections: benchTemplate.sections.map((section) => section.name),
+    expectedOutputs: config.expected?.length ?? 0,
+  });
+
+  const analysis = await executeBasicAnalysis(benchTemplate, transcript, openaiClient, deployment, {
+    runEvaluation: false,
+    contextLimit: config.contextLimit,
+    variables: config.variables,
+  });
+  const sections = matchBenchSectionOutputs(benchTemplate, analysis.results.sections);
+
+  const comparisons = sections.flatMap((section) => {
+    const expected = config.expected?.find((e) => e.sectionId === section.sectionId);
+    return expected ? [{ section, expected: expected.content }] : [];
+  });
+  if (comparisons.length === 0) {
+    return { sections, usage: analysis.usage };
+  }
+
+  const scoringModel: AnalysisModel = config.scoringModel ?? {
+    openaiClient,
+    deployment,
+    contextLimit: config.contextLimit,
+  };
+
+  try {
+    const { scores, usage } = await scoreAgainstExpectedOutputs(
+      comparisons.map(({ section, expected }) => ({
+        name: section.name,
+        expected,
+        actual: section.content,
+      })),
+      scoringModel.openaiClient,
+      scoringModel.deployment,
+      scoringModel.contextLimit
+    );
+
+    return {
+      sections,
+      scores: comparisons.map(({ section }, index) => ({
+        sectionId: section.sectionId,
+        score: scores[index].score,
+        reasoning: scores[index].reasoning,
+        missing: scores[index].missing,
+      })),
+      usage: sumTokenUsage([analysis.usage, usage]),
+    };
+  } catch (error) {
+    logger.error('Test Bench', 'Scoring against golden outputs failed', error);
+    return {
+      sections,
+      scoringError: error instanceof Error ? error.message : 'Scoring failed',
+      // Tokens spent on failed scoring calls are billed all the same
+      usage: error instanceof ScoringError ? sumTokenUsage([analysis.usage, error.usage]) : analysis.usage,
+    };
+  }
+}
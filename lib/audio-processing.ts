@@ -4,12 +4,14 @@
  * Client-side audio processing using FFmpeg WebAssembly for:
  * - MP4 to MP3 conversion (size reduction)
  * - Audio splitting at silence points (for large files)
+ * - Redaction (tone or silence over marked time ranges)
  *
  * Note: FFmpeg runs in the main thread but uses WebAssembly for efficient processing
  */
 
 import { FFmpeg } from '@ffmpeg/ffmpeg';
 import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import type { RedactionFill } from '@/types/transcript';
 
 /**
  * Maximum file size for Whisper API (25MB)
@@ -346,6 +348,95 @@ export async function splitAudioAtSilence(
   }
 }
 
+/**
+ * Build the FFmpeg filter arguments that cover time ranges with a tone or silence
+ *
+ * @param ranges - Sorted, non-overlapping time ranges in seconds
+ * @param fill - 'tone' mixes a 1 kHz bleep over the muted ranges; 'silence' only mutes them
+ * @returns FFmpeg arguments to place between the input and output
+ */
+export function buildRedactionFilterArgs(
+  ranges: Array<{ start: number; end: number }>,
+  fill: RedactionFill
+): string[] {
+  const enable = ranges
+    .map((range) => `between(t,${range.start.toFixed(3)},${range.end.toFixed(3)})`)
+    .join('+');
+  const mute = `volume=enable='${enable}':volume=0`;
+
+  if (fill === 'silence') {
+    return ['-af', mute];
+  }
+
+  // Mute the speech, then mix in a tone that is only audible inside the ranges
+  return [
+    '-filter_complex',
+    `[0:a]${mute}[muted];` +
+      `sine=frequency=1000:sample_rate=44100,volume=0.3,volume=enable='not(${enable})':volume=0[tone];` +
+      `[muted][tone]amix=inputs=2:duration=first:normalize=0[out]`,
+    '-map', '[out]',
+  ];
+}
+
+/**
+ * Redact time ranges of an audio file
+ * Covers each range with a tone or silence and re-encodes to MP3
+ *
+ * @param file - Audio or video file
+ * @param ranges - Sorted, non-overlapping time ranges in seconds
+ * @param fill - How to cover the ranges
+ * @param onProgress - Optional progress callback (0-100)
+ * @returns Redacted MP3 audio file
+ */
+export async function redactAudio(
+  file: File,
+  ranges: Array<{ start: number; end: number }>,
+  fill: RedactionFill,
+  onProgress?: (progress: number) => void
+): Promise<File> {
+  try {
+    onProgress?.(0);
+
+    const ffmpeg = await getFFmpeg();
+
+    const progressListener = ({ progress }: { progress: number }) => {
+      onProgress?.(10 + Math.round(Math.min(Math.max(progress, 0), 1) * 80));
+    };
+    ffmpeg.on('progress', progressListener);
+
+    const inputFileName = 'input_redact';
+    const outputFileName = 'redacted.mp3';
+
+    await ffmpeg.writeFile(inputFileName, await fetchFile(file));
+    onProgress?.(10);
+
+    await ffmpeg.exec([
+      '-i', inputFileName,
+      ...buildRedactionFilterArgs(ranges, fill),
+      '-vn', // Remove video (if present)
+      '-b:a', '128k',
+      outputFileName
+    ]);
+
+    onProgress?.(90);
+
+    const data = (await ffmpeg.readFile(outputFileName)) as Uint8Array;
+
+    // Clean up
+    await ffmpeg.deleteFile(inputFileName);
+    await ffmpeg.deleteFile(outputFileName);
+    ffmpeg.off('progress', progressListener);
+
+    onProgress?.(100);
+
+    const redactedName = `${file.name.replace(/\.[^.]+$/, '')}-redacted.mp3`;
+    return new File([new Uint8Array(data)], redactedName, { type: 'audio/mpeg' });
+  } catch (error) {
+    console.error('Audio redaction failed:', error);
+    throw new Error(`Failed to redact audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Get audio duration from file
  * Uses HTML Audio API to load metadata and get duration
@@ -7,6 +7,7 @@
 
 import {
   getDatabase,
+  getRemoteStorage,
   saveTranscript,
   getTranscript,
   type AudioFileEntry,
@@ -29,6 +30,17 @@ function getAudioDatabase() {
   return db;
 }
 
+/**
+ * Reads the stored audio entry from the server store or IndexedDB
+ */
+async function readAudioEntry(transcriptId: string): Promise<AudioFileEntry | undefined> {
+  const remote = getRemoteStorage();
+  if (remote) {
+    return remote.getAudio(transcriptId);
+  }
+  return getAudioDatabase().audioFiles?.get(transcriptId);
+}
+
 /**
  * Stores an audio file and associates it with a transcript
  *
@@ -58,7 +70,12 @@ export async function storeAudioFile(
     };
 
     // Store in database
-    await db.audioFiles!.put(entry);
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.saveAudio(entry);
+    } else {
+      await db.audioFiles!.put(entry);
+    }
 
     // Create ObjectURL for playback
     const audioUrl = URL.createObjectURL(audioBlob);
@@ -95,14 +112,8 @@ export async function getAudioFile(
   transcriptId: string
 ): Promise<AudioStorageResult | null> {
   try {
-    const db = getAudioDatabase();
-
-    if (!db.audioFiles) {
-      return null;
-    }
-
     // Get audio file entry
-    const entry = await db.audioFiles.get(transcriptId);
+    const entry = await readAudioEntry(transcriptId);
 
     if (!entry) {
       return null;
@@ -123,6 +134,21 @@ export async function getAudioFile(
   }
 }
 
+/**
+ * Retrieves the stored audio entry (Blob and metadata) for a transcript
+ *
+ * Use this when the audio data itself is needed, e.g. for re-encoding;
+ * use getAudioFile() for playback.
+ *
+ * @param transcriptId - The transcript ID
+ * @returns The stored entry, or null if the transcript has no audio
+ */
+export async function getAudioFileEntry(
+  transcriptId: string
+): Promise<AudioFileEntry | null> {
+  return (await readAudioEntry(transcriptId)) ?? null;
+}
+
 /**
  * Deletes an audio file by transcript ID
  *
@@ -131,14 +157,17 @@ export async function getAudioFile(
  */
 export async function deleteAudioFile(transcriptId: string): Promise<void> {
   try {
-    const db = getAudioDatabase();
-
-    if (!db.audioFiles) {
-      return;
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.deleteAudio(transcriptId);
+    } else {
+      const db = getAudioDatabase();
+      if (!db.audioFiles) {
+        return;
+      }
+      await db.audioFiles.delete(transcriptId);
     }
 
-    await db.audioFiles.delete(transcriptId);
-
     // Also remove audioUrl from transcript
     const transcript = await getTranscript(transcriptId);
     if (transcript && transcript.audioUrl) {
@@ -167,13 +196,7 @@ export async function deleteAudioFile(transcriptId: string): Promise<void> {
  */
 export async function hasAudioFile(transcriptId: string): Promise<boolean> {
   try {
-    const db = getAudioDatabase();
-
-    if (!db.audioFiles) {
-      return false;
-    }
-
-    const entry = await db.audioFiles.get(transcriptId);
+    const entry = await readAudioEntry(transcriptId);
     return !!entry;
   } catch (error) {
     console.error('Failed to check audio file existence:', error);
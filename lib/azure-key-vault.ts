@@ -38,6 +38,7 @@ export const ENV_TO_SECRET_MAP: Record<string, string> = {
   AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT: 'azure-openai-extended-gpt-deployment',
   OPENAI_API_KEY: 'openai-api-key',
   OPENAI_ORGANIZATION_ID: 'openai-organization-id',
+  LOCAL_WHISPER_API_KEY: 'local-whisper-api-key',
 };
 
 /**
@@ -0,0 +1,293 @@
+/**
+ * Backup Archive Format
+ *
+ * Layout and serialization of library backup archives. A backup is a zip
+ * file with a manifest, one JSON file per table and the raw audio blobs:
+ *
+ *   manifest.json
+ *   data/<table>.json
+ *   media/audio/<transcriptId>.<ext>
+ *   media/recordings/<recordingId>.<ext>
+ *
+ * Blobs are replaced by a `mediaPath` pointing into the archive, and dates
+ * are written as ISO strings and revived per table on restore.
+ */
+
+import { z } from 'zod';
+import type { AudioFileEntry, LibraryRecords } from '@/lib/db';
+import type { SavedRecording } from '@/types';
+
+/**
+ * Marker identifying a Meeting Transcriber backup
+ */
+export const BACKUP_FORMAT = 'meeting-transcriber-backup';
+
+/**
+ * Version of the archive layout; bump when the layout changes incompatibly
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * File types accepted by the restore flow (for file inputs)
+ */
+export const BACKUP_ACCEPT = '.zip,application/zip';
+
+export const MANIFEST_PATH = 'manifest.json';
+
+/**
+ * Tables included in a backup
+ */
+export type BackupTable = keyof LibraryRecords;
+
+export const BACKUP_TABLES: BackupTable[] = [
+  'transcripts',
+  'analyses',
+  'conversations',
+  'templates',
+  'recordings',
+  'audioFiles',
+  'transcriptRevisions',
+  'libraryConversations',
+  'actionItems',
+  'templateRevisions',
+  'templateBenchRuns',
+  'templateGoldenOutputs',
+];
+
+/**
+ * Tables added to the backup after the first release; archives written
+ * before then have no data or count for them
+ */
+const LATER_BACKUP_TABLES = new Set<BackupTable>([
+  'libraryConversations',
+  'actionItems',
+  'templateRevisions',
+  'templateBenchRuns',
+  'templateGoldenOutputs',
+]);
+
+/**
+ * Record counts per table
+ */
+export type BackupCounts = Record<BackupTable, number>;
+
+/**
+ * Manifest stored at the root of every backup archive
+ */
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  /** MeetingTranscriberDB version of the app that wrote the backup */
+  schemaVersion: number;
+  /** ISO timestamp of when the backup was created */
+  createdAt: string;
+  counts: BackupCounts;
+}
+
+/**
+ * Audio file entry as stored in `data/audioFiles.json`
+ */
+export type ArchivedAudioFile = Omit<AudioFileEntry, 'audioBlob'> & { mediaPath: string };
+
+/**
+ * Recording as stored in `data/recordings.json`
+ */
+export type ArchivedRecording = Omit<SavedRecording, 'blob'> & { mediaPath: string };
+
+const countsSchema = z.object(
+  Object.fromEntries(
+    BACKUP_TABLES.map((table) => {
+      const count = z.number().int().min(0);
+      return [table, LATER_BACKUP_TABLES.has(table) ? count.default(0) : count];
+    })
+  ) as Record<BackupTable, z.ZodNumber | z.ZodDefault<z.ZodNumber>>
+);
+
+const manifestSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number().int().min(1),
+  schemaVersion: z.number().min(1),
+  createdAt: z.string(),
+  counts: countsSchema,
+});
+
+/**
+ * Path of a table's JSON file inside the archive
+ */
+export function tableDataPath(table: BackupTable): string {
+  return `data/${table}.json`;
+}
+
+/**
+ * Picks a file extension for an archived blob
+ *
+ * Prefers the original filename's extension, then the MIME subtype
+ * (`audio/webm;codecs=opus` → `webm`), then `bin`.
+ */
+export function mediaExtension(mimeType: string | undefined, filename?: string): string {
+  const fromName = filename?.match(/\.([a-z0-9]{1,5})$/i)?.[1];
+  if (fromName) return fromName.toLowerCase();
+
+  const subtype = mimeType?.split(';')[0].split('/')[1]?.trim();
+  if (subtype && /^[a-z0-9]+$/i.test(subtype)) return subtype.toLowerCase();
+
+  return 'bin';
+}
+
+/**
+ * Builds the manifest for a set of records
+ */
+export function createBackupManifest(
+  records: LibraryRecords,
+  schemaVersion: number,
+  createdAt: Date = new Date()
+): BackupManifest {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion,
+    createdAt: createdAt.toISOString(),
+    counts: Object.fromEntries(
+      BACKUP_TABLES.map((table) => [table, records[table].length])
+    ) as BackupCounts,
+  };
+}
+
+/**
+ * Parses and checks a backup manifest against this build
+ *
+ * @param content - Raw manifest.json content
+ * @param currentSchemaVersion - MeetingTranscriberDB version of this build
+ * @returns The manifest
+ * @throws {Error} If the manifest is invalid or from a newer app version
+ */
+export function parseBackupManifest(content: string, currentSchemaVersion: number): BackupManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Backup manifest is not valid JSON');
+  }
+
+  const parsed = manifestSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('This file is not a Meeting Transcriber backup');
+  }
+
+  const manifest = parsed.data as BackupManifest;
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new Error(
+      `Backup format v${manifest.formatVersion} is newer than this app supports (v${BACKUP_FORMAT_VERSION}). Update the app and try again.`
+    );
+  }
+  if (manifest.schemaVersion > currentSchemaVersion) {
+    throw new Error(
+      `This backup was created with database version ${manifest.schemaVersion}, but this app only supports up to version ${currentSchemaVersion}. Update the app and try again.`
+    );
+  }
+
+  return manifest;
+}
+
+/**
+ * Parses a table's JSON file, which must contain an array
+ */
+export function parseTableData<T>(content: string, table: BackupTable): T[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error(`Backup data for ${table} is not valid JSON`);
+  }
+  if (!Array.isArray(data)) {
+    throw new Error(`Backup data for ${table} is malformed`);
+  }
+  return data as T[];
+}
+
+const toDate = (value: Date | string | number): Date =>
+  value instanceof Date ? value : new Date(value);
+
+/**
+ * Converts ISO date strings back into Date objects, table by table
+ *
+ * Media records keep their `mediaPath`; blobs are attached separately.
+ */
+export const reviveDates = {
+  transcripts: (t: LibraryRecords['transcripts'][number]) => ({
+    ...t,
+    createdAt: toDate(t.createdAt),
+    ...(t.updatedAt !== undefined && { updatedAt: toDate(t.updatedAt) }),
+    ...(t.meetingDate !== undefined && { meetingDate: toDate(t.meetingDate) }),
+    ...(t.redaction && { redaction: { ...t.redaction, createdAt: toDate(t.redaction.createdAt) } }),
+  }),
+  analyses: (a: LibraryRecords['analyses'][number]) => ({ ...a, createdAt: toDate(a.createdAt) }),
+  conversations: (c: LibraryRecords['conversations'][number]) => ({
+    ...c,
+    createdAt: toDate(c.createdAt),
+    updatedAt: toDate(c.updatedAt),
+    messages: c.messages.map((message) => ({ ...message, timestamp: toDate(message.timestamp) })),
+  }),
+  templates: (t: LibraryRecords['templates'][number]) => ({
+    ...t,
+    createdAt: toDate(t.createdAt),
+    ...(t.source && {
+      source: { ...t.source, exportedAt: toDate(t.source.exportedAt), importedAt: toDate(t.source.importedAt) },
+    }),
+  }),
+  transcriptRevisions: (r: LibraryRecords['transcriptRevisions'][number]) => ({
+    ...r,
+    createdAt: toDate(r.createdAt),
+  }),
+  templateRevisions: (r: LibraryRecords['templateRevisions'][number]) => ({
+    ...r,
+    createdAt: toDate(r.createdAt),
+  }),
+  templateBenchRuns: (r: LibraryRecords['templateBenchRuns'][number]) => ({
+    ...r,
+    createdAt: toDate(r.createdAt),
+  }),
+  templateGoldenOutputs: (o: LibraryRecords['templateGoldenOutputs'][number]) => ({
+    ...o,
+    updatedAt: toDate(o.updatedAt),
+  }),
+  libraryConversations: (c: LibraryRecords['libraryConversations'][number]) => ({
+    ...c,
+    filters: {
+      ...c.filters,
+      ...(c.filters.from !== undefined && { from: toDate(c.filters.from) }),
+      ...(c.filters.to !== undefined && { to: toDate(c.filters.to) }),
+    },
+    createdAt: toDate(c.createdAt),
+    updatedAt: toDate(c.updatedAt),
+    messages: c.messages.map((message) => ({ ...message, timestamp: toDate(message.timestamp) })),
+  }),
+  actionItems: (i: LibraryRecords['actionItems'][number]) => ({
+    ...i,
+    ...(i.dueDate !== undefined && { dueDate: toDate(i.dueDate) }),
+    createdAt: toDate(i.createdAt),
+    updatedAt: toDate(i.updatedAt),
+    ...(i.completedAt !== undefined && { completedAt: toDate(i.completedAt) }),
+  }),
+  recordings: (r: ArchivedRecording): ArchivedRecording => ({
+    ...r,
+    metadata: { ...r.metadata, createdAt: toDate(r.metadata.createdAt) },
+  }),
+  audioFiles: (a: ArchivedAudioFile): ArchivedAudioFile => ({
+    ...a,
+    storedAt: toDate(a.storedAt),
+    metadata: { ...a.metadata, loadedAt: toDate(a.metadata.loadedAt) },
+  }),
+};
+
+/**
+ * Generates the download filename for a backup
+ *
+ * @example
+ * generateBackupFilename(new Date('2024-11-17T14:30:00'))
+ * // "meeting-transcriber-backup_2024-11-17.zip"
+ */
+export function generateBackupFilename(date: Date = new Date()): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${BACKUP_FORMAT}_${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.zip`;
+}
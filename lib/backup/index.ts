@@ -0,0 +1,34 @@
+/**
+ * Backup Module Entry Point
+ *
+ * Provides a centralized export point for library backup and restore.
+ */
+
+// Re-export archive format helpers
+export {
+  BACKUP_ACCEPT,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BACKUP_TABLES,
+  createBackupManifest,
+  parseBackupManifest,
+  generateBackupFilename,
+  type BackupCounts,
+  type BackupManifest,
+  type BackupTable,
+} from './archive';
+
+// Re-export merge planning
+export { planLibraryMerge, countRecords, type ConflictPolicy, type MergePlan } from './merge';
+
+// Re-export backup and restore (main API)
+export {
+  createLibraryBackup,
+  readLibraryBackup,
+  restoreLibraryBackup,
+  type BackupProgress,
+  type BackupProgressCallback,
+  type LibraryBackupResult,
+  type LibraryRestoreOptions,
+  type LibraryRestoreResult,
+} from './library-backup';
@@ -0,0 +1,325 @@
+/**
+ * Library Backup and Restore
+ *
+ * Packs the whole library (transcripts, analyses, conversations, library
+ * chats, tracked action items, custom templates with their revisions and
+ * test bench data, recordings and stored audio) into a single zip archive,
+ * and restores such an archive by merging with or replacing the local
+ * library.
+ */
+
+import JSZip from 'jszip';
+import {
+  getDatabaseVersion,
+  getLibraryKeys,
+  getLibraryRecords,
+  restoreLibraryRecords,
+  type LibraryRecords,
+  type RestoreMode,
+} from '@/lib/db';
+import {
+  MANIFEST_PATH,
+  createBackupManifest,
+  generateBackupFilename,
+  mediaExtension,
+  parseBackupManifest,
+  parseTableData,
+  reviveDates,
+  tableDataPath,
+  type ArchivedAudioFile,
+  type ArchivedRecording,
+  type BackupCounts,
+  type BackupManifest,
+  type BackupTable,
+} from './archive';
+import { countRecords, planLibraryMerge, type ConflictPolicy } from './merge';
+
+/**
+ * Progress update for long-running backup and restore operations
+ */
+export interface BackupProgress {
+  stage: 'reading' | 'compressing' | 'extracting' | 'writing';
+  /** Overall completion (0-100) */
+  percent: number;
+  message: string;
+}
+
+export type BackupProgressCallback = (progress: BackupProgress) => void;
+
+/**
+ * Backup result type
+ */
+export interface LibraryBackupResult {
+  success: boolean;
+  /** The zip archive (if successful) */
+  blob?: Blob;
+  /** Suggested download filename */
+  filename?: string;
+  counts?: BackupCounts;
+  error?: string;
+}
+
+/**
+ * Options for restoring a backup
+ */
+export interface LibraryRestoreOptions {
+  /** Merge with or replace the existing library (default: 'merge') */
+  mode?: RestoreMode;
+  /** How to handle ID conflicts when merging (default: 'skip') */
+  conflictPolicy?: ConflictPolicy;
+  onProgress?: BackupProgressCallback;
+}
+
+/**
+ * Restore result type
+ */
+export interface LibraryRestoreResult {
+  success: boolean;
+  manifest?: BackupManifest;
+  /** Records written per table */
+  restored?: BackupCounts;
+  /** Backup records skipped because they already exist (merge only) */
+  skipped: number;
+  /** Backup records imported under new IDs (merge only) */
+  duplicated: number;
+  /** Non-fatal issues, such as audio missing from the archive */
+  warnings: string[];
+  error?: string;
+}
+
+/**
+ * Creates a backup archive of the whole library
+ *
+ * Audio is stored uncompressed (it is already compressed); JSON data is
+ * deflated.
+ *
+ * @param onProgress - Optional progress callback
+ * @returns Backup result with the archive blob
+ *
+ * @example
+ * ```ts
+ * const result = await createLibraryBackup();
+ * if (result.success && result.blob) {
+ *   triggerDownload(result.blob, result.filename!);
+ * }
+ * ```
+ */
+export async function createLibraryBackup(
+  onProgress?: BackupProgressCallback
+): Promise<LibraryBackupResult> {
+  try {
+    onProgress?.({ stage: 'reading', percent: 0, message: 'Reading library…' });
+    const records = await getLibraryRecords();
+    const manifest = createBackupManifest(records, getDatabaseVersion());
+
+    const zip = new JSZip();
+    zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+    const audioFiles: ArchivedAudioFile[] = records.audioFiles.map(({ audioBlob, ...entry }) => {
+      const mediaPath = `media/audio/${entry.transcriptId}.${mediaExtension(audioBlob.type || entry.metadata.type, entry.metadata.filename)}`;
+      zip.file(mediaPath, audioBlob, { compression: 'STORE' });
+      return { ...entry, mediaPath };
+    });
+
+    const recordings: ArchivedRecording[] = records.recordings.map(({ blob, ...recording }) => {
+      const mediaPath = `media/recordings/${recording.id}.${mediaExtension(blob.type || recording.metadata.mimeType)}`;
+      zip.file(mediaPath, blob, { compression: 'STORE' });
+      return { ...recording, mediaPath };
+    });
+
+    const tables: Record<BackupTable, unknown[]> = { ...records, audioFiles, recordings };
+    for (const [table, rows] of Object.entries(tables)) {
+      zip.file(tableDataPath(table as BackupTable), JSON.stringify(rows));
+    }
+
+    const blob = await zip.generateAsync(
+      { type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' },
+      (metadata) =>
+        onProgress?.({
+          stage: 'compressing',
+          percent: Math.round(10 + metadata.percent * 0.9),
+          message: 'Compressing backup…',
+        })
+    );
+
+    return { success: true, blob, filename: generateBackupFilename(), counts: manifest.counts };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create backup',
+    };
+  }
+}
+
+/**
+ * Reads a table's JSON file from the archive
+ */
+async function readTable<T>(zip: JSZip, table: BackupTable): Promise<T[]> {
+  const entry = zip.file(tableDataPath(table));
+  return entry ? parseTableData<T>(await entry.async('string'), table) : [];
+}
+
+/**
+ * Reads a blob from the archive with the given MIME type
+ */
+async function readMedia(zip: JSZip, path: string, type: string): Promise<Blob | null> {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  return new Blob([await entry.async('arraybuffer')], { type });
+}
+
+/**
+ * Reads and validates a backup archive
+ *
+ * @param file - Backup zip file
+ * @param onProgress - Optional progress callback (extraction reports 0-80%)
+ * @returns Manifest, records with blobs attached, and warnings
+ * @throws {Error} If the file is not a valid backup or is from a newer app
+ */
+export async function readLibraryBackup(
+  file: Blob,
+  onProgress?: BackupProgressCallback
+): Promise<{ manifest: BackupManifest; records: LibraryRecords; warnings: string[] }> {
+  onProgress?.({ stage: 'extracting', percent: 0, message: 'Opening backup…' });
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a valid zip archive');
+  }
+
+  const manifestEntry = zip.file(MANIFEST_PATH);
+  if (!manifestEntry) {
+    throw new Error('This file is not a Meeting Transcriber backup (manifest.json is missing)');
+  }
+  const manifest = parseBackupManifest(await manifestEntry.async('string'), getDatabaseVersion());
+
+  const warnings: string[] = [];
+  const [
+    transcripts,
+    analyses,
+    conversations,
+    templates,
+    transcriptRevisions,
+    libraryConversations,
+    actionItems,
+    templateRevisions,
+    templateBenchRuns,
+    templateGoldenOutputs,
+    archivedAudio,
+    archivedRecordings,
+  ] = await Promise.all([
+    readTable<LibraryRecords['transcripts'][number]>(zip, 'transcripts'),
+    readTable<LibraryRecords['analyses'][number]>(zip, 'analyses'),
+    readTable<LibraryRecords['conversations'][number]>(zip, 'conversations'),
+    readTable<LibraryRecords['templates'][number]>(zip, 'templates'),
+    readTable<LibraryRecords['transcriptRevisions'][number]>(zip, 'transcriptRevisions'),
+    readTable<LibraryRecords['libraryConversations'][number]>(zip, 'libraryConversations'),
+    readTable<LibraryRecords['actionItems'][number]>(zip, 'actionItems'),
+    readTable<LibraryRecords['templateRevisions'][number]>(zip, 'templateRevisions'),
+    readTable<LibraryRecords['templateBenchRuns'][number]>(zip, 'templateBenchRuns'),
+    readTable<LibraryRecords['templateGoldenOutputs'][number]>(zip, 'templateGoldenOutputs'),
+    readTable<ArchivedAudioFile>(zip, 'audioFiles'),
+    readTable<ArchivedRecording>(zip, 'recordings'),
+  ]);
+
+  const mediaTotal = archivedAudio.length + archivedRecordings.length;
+  let mediaDone = 0;
+  const reportMedia = () => {
+    mediaDone++;
+    onProgress?.({
+      stage: 'extracting',
+      percent: Math.round(5 + (mediaDone / mediaTotal) * 75),
+      message: `Extracting audio ${mediaDone} of ${mediaTotal}…`,
+    });
+  };
+
+  // Extract blobs one at a time to keep memory flat on large backups
+  const audioFiles: LibraryRecords['audioFiles'] = [];
+  for (const archived of archivedAudio.map(reviveDates.audioFiles)) {
+    const { mediaPath, ...entry } = archived;
+    const audioBlob = await readMedia(zip, mediaPath, entry.metadata.type);
+    reportMedia();
+    if (!audioBlob) {
+      warnings.push(`Audio for "${entry.metadata.filename}" is missing from the backup`);
+      continue;
+    }
+    audioFiles.push({ ...entry, audioBlob });
+  }
+
+  const recordings: LibraryRecords['recordings'] = [];
+  for (const archived of archivedRecordings.map(reviveDates.recordings)) {
+    const { mediaPath, ...recording } = archived;
+    const blob = await readMedia(zip, mediaPath, recording.metadata.mimeType);
+    reportMedia();
+    if (!blob) {
+      warnings.push(`Recording "${recording.name || recording.id}" is missing from the backup`);
+      continue;
+    }
+    recordings.push({ ...recording, blob });
+  }
+
+  return {
+    manifest,
+    records: {
+      transcripts: transcripts.map(reviveDates.transcripts),
+      analyses: analyses.map(reviveDates.analyses),
+      conversations: conversations.map(reviveDates.conversations),
+      templates: templates.map(reviveDates.templates).filter((template) => template.isCustom),
+      recordings,
+      audioFiles,
+      transcriptRevisions: transcriptRevisions.map(reviveDates.transcriptRevisions),
+      libraryConversations: libraryConversations.map(reviveDates.libraryConversations),
+      actionItems: actionItems.map(reviveDates.actionItems),
+      templateRevisions: templateRevisions.map(reviveDates.templateRevisions),
+      templateBenchRuns: templateBenchRuns.map(reviveDates.templateBenchRuns),
+      templateGoldenOutputs: templateGoldenOutputs.map(reviveDates.templateGoldenOutputs),
+    },
+    warnings,
+  };
+}
+
+/**
+ * Restores a backup archive into the library
+ *
+ * Nothing is written until the whole archive has been read and validated,
+ * and the write happens in a single transaction, so a failed restore
+ * leaves the library unchanged.
+ *
+ * @param file - Backup zip file
+ * @param options - Restore mode, conflict policy and progress callback
+ * @returns Restore result with per-table counts
+ */
+export async function restoreLibraryBackup(
+  file: Blob,
+  options: LibraryRestoreOptions = {}
+): Promise<LibraryRestoreResult> {
+  const { mode = 'merge', conflictPolicy = 'skip', onProgress } = options;
+
+  try {
+    const { manifest, records, warnings } = await readLibraryBackup(file, onProgress);
+
+    let toWrite = records;
+    let skipped = 0;
+    let duplicated = 0;
+    if (mode === 'merge') {
+      const plan = planLibraryMerge(records, await getLibraryKeys(), conflictPolicy);
+      ({ records: toWrite, skipped, duplicated } = plan);
+    }
+
+    onProgress?.({ stage: 'writing', percent: 85, message: 'Saving to library…' });
+    await restoreLibraryRecords(toWrite, mode);
+    onProgress?.({ stage: 'writing', percent: 100, message: 'Restore complete' });
+
+    return { success: true, manifest, restored: countRecords(toWrite), skipped, duplicated, warnings };
+  } catch (error) {
+    return {
+      success: false,
+      skipped: 0,
+      duplicated: 0,
+      warnings: [],
+      error: error instanceof Error ? error.message : 'Failed to restore backup',
+    };
+  }
+}
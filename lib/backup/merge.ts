@@ -0,0 +1,293 @@
+/**
+ * Backup Merge Planning
+ *
+ * Resolves conflicts between a backup and the existing library before a
+ * merge restore. Records whose IDs already exist are either skipped (the
+ * local copy wins) or imported as copies under new IDs, with every
+ * reference to them (analyses, conversations, revisions, audio,
+ * recordings, library chat sources, action items, template revisions,
+ * test bench data) rewritten to match.
+ */
+
+import type { LibraryKeys, LibraryRecords } from '@/lib/db';
+import { getGoldenOutputId } from '@/lib/template-bench';
+import { generateTranscriptId } from '@/lib/transcription-utils';
+import { BACKUP_TABLES, type BackupCounts } from './archive';
+
+/**
+ * What to do with backup records whose IDs already exist locally
+ *
+ * - 'skip': keep the local record and ignore the backup's copy
+ * - 'duplicate': import the backup's record as a copy with a new ID
+ */
+export type ConflictPolicy = 'skip' | 'duplicate';
+
+/**
+ * Outcome of planning a merge
+ */
+export interface MergePlan {
+  /** Records to write, with conflicts resolved */
+  records: LibraryRecords;
+  /** Number of backup records skipped because they already exist */
+  skipped: number;
+  /** Number of backup records imported under a new ID */
+  duplicated: number;
+}
+
+// Appended to the names of duplicated transcripts and templates
+const COPY_SUFFIX = ' (restored)';
+
+/**
+ * Counts records per table
+ */
+export function countRecords(records: LibraryRecords): BackupCounts {
+  return Object.fromEntries(
+    BACKUP_TABLES.map((table) => [table, records[table].length])
+  ) as BackupCounts;
+}
+
+/**
+ * Plans a merge of backup records into an existing library
+ *
+ * Conversations and stored audio are one per transcript, so they are
+ * skipped whenever the target transcript already has one. Revisions and
+ * tracked action items of a skipped transcript are dropped so its local
+ * edit history and item status stay intact, and likewise the revisions and
+ * test bench runs of a skipped template. Golden outputs are one per
+ * template section and transcript, so local ones win.
+ * Recordings have auto-increment IDs and are matched by creation time.
+ *
+ * @param incoming - Records read from the backup
+ * @param existing - Keys of records already in the library
+ * @param policy - How to handle ID conflicts
+ * @returns Records to write and conflict statistics
+ */
+export function planLibraryMerge(
+  incoming: LibraryRecords,
+  existing: LibraryKeys,
+  policy: ConflictPolicy
+): MergePlan {
+  let skipped = 0;
+  let duplicated = 0;
+
+  const transcriptIds = new Map<string, string>();
+  const skippedTranscripts = new Set<string>();
+  const templateIds = new Map<string, string>();
+  const skippedTemplates = new Set<string>();
+  const revisionIds = new Map<string, string>();
+  const analysisIds = new Map<string, string>();
+
+  const remapTranscript = (id: string) => transcriptIds.get(id) ?? id;
+  const remapTemplate = (id: string) => templateIds.get(id) ?? id;
+
+  // Resolves a conflicting ID; returns null when the record should be skipped
+  const resolveId = (id: string, taken: Set<string>, newId: () => string): string | null => {
+    if (!taken.has(id)) return id;
+    if (policy === 'skip') {
+      skipped++;
+      return null;
+    }
+    duplicated++;
+    return newId();
+  };
+
+  const transcripts: LibraryRecords['transcripts'] = [];
+  for (const transcript of incoming.transcripts) {
+    const id = resolveId(transcript.id, existing.transcriptIds, () => generateTranscriptId());
+    if (id === null) {
+      skippedTranscripts.add(transcript.id);
+      continue;
+    }
+    if (id !== transcript.id) {
+      transcriptIds.set(transcript.id, id);
+      transcripts.push({ ...transcript, id, filename: `${transcript.filename}${COPY_SUFFIX}` });
+    } else {
+      transcripts.push(transcript);
+    }
+  }
+
+  const templates: LibraryRecords['templates'] = [];
+  for (const template of incoming.templates) {
+    const id = resolveId(template.id, existing.templateIds, () => crypto.randomUUID());
+    if (id === null) {
+      skippedTemplates.add(template.id);
+      continue;
+    }
+    if (id !== template.id) {
+      templateIds.set(template.id, id);
+      templates.push({ ...template, id, name: `${template.name}${COPY_SUFFIX}` });
+    } else {
+      templates.push(template);
+    }
+  }
+
+  const transcriptRevisions: LibraryRecords['transcriptRevisions'] = [];
+  for (const revision of incoming.transcriptRevisions) {
+    if (skippedTranscripts.has(revision.transcriptId)) {
+      skipped++;
+      continue;
+    }
+    const id = resolveId(revision.id, existing.revisionIds, () => crypto.randomUUID());
+    if (id === null) continue;
+    if (id !== revision.id) revisionIds.set(revision.id, id);
+    transcriptRevisions.push({ ...revision, id, transcriptId: remapTranscript(revision.transcriptId) });
+  }
+
+  // Point duplicated transcripts at their (possibly renamed) current revision
+  for (let i = 0; i < transcripts.length; i++) {
+    const revisionId = transcripts[i].currentRevisionId;
+    if (revisionId && revisionIds.has(revisionId)) {
+      transcripts[i] = { ...transcripts[i], currentRevisionId: revisionIds.get(revisionId) };
+    }
+  }
+
+  const analyses: LibraryRecords['analyses'] = [];
+  for (const analysis of incoming.analyses) {
+    const id = resolveId(analysis.id, existing.analysisIds, () => crypto.randomUUID());
+    if (id === null) continue;
+    if (id !== analysis.id) analysisIds.set(analysis.id, id);
+    analyses.push({
+      ...analysis,
+      id,
+      transcriptId: remapTranscript(analysis.transcriptId),
+      templateId: remapTemplate(analysis.templateId),
+    });
+  }
+
+  const conversations: LibraryRecords['conversations'] = [];
+  for (const conversation of incoming.conversations) {
+    const transcriptId = remapTranscript(conversation.transcriptId);
+    if (
+      existing.conversationIds.has(conversation.id) ||
+      existing.conversationTranscriptIds.has(transcriptId)
+    ) {
+      skipped++;
+      continue;
+    }
+    conversations.push({ ...conversation, transcriptId });
+  }
+
+  const audioFiles: LibraryRecords['audioFiles'] = [];
+  for (const audioFile of incoming.audioFiles) {
+    const transcriptId = remapTranscript(audioFile.transcriptId);
+    if (existing.audioTranscriptIds.has(transcriptId)) {
+      skipped++;
+      continue;
+    }
+    audioFiles.push({ ...audioFile, transcriptId });
+  }
+
+  const recordings: LibraryRecords['recordings'] = [];
+  for (const recording of incoming.recordings) {
+    if (existing.recordingCreatedAt.has(new Date(recording.metadata.createdAt).getTime())) {
+      skipped++;
+      continue;
+    }
+    const copy = {
+      ...recording,
+      ...(recording.transcriptId && { transcriptId: remapTranscript(recording.transcriptId) }),
+    };
+    // Let the database assign a new auto-increment ID
+    delete copy.id;
+    recordings.push(copy);
+  }
+
+  const libraryConversations: LibraryRecords['libraryConversations'] = [];
+  for (const conversation of incoming.libraryConversations) {
+    const id = resolveId(conversation.id, existing.libraryConversationIds, () => crypto.randomUUID());
+    if (id === null) continue;
+    libraryConversations.push({
+      ...conversation,
+      id,
+      messages: conversation.messages.map((message) =>
+        message.sources
+          ? {
+              ...message,
+              sources: message.sources.map((source) => ({
+                ...source,
+                transcriptId: remapTranscript(source.transcriptId),
+              })),
+            }
+          : message
+      ),
+    });
+  }
+
+  const actionItems: LibraryRecords['actionItems'] = [];
+  for (const item of incoming.actionItems) {
+    if (skippedTranscripts.has(item.transcriptId)) {
+      skipped++;
+      continue;
+    }
+    const id = resolveId(item.id, existing.actionItemIds, () => crypto.randomUUID());
+    if (id === null) continue;
+    actionItems.push({
+      ...item,
+      id,
+      transcriptId: remapTranscript(item.transcriptId),
+      analysisId: analysisIds.get(item.analysisId) ?? item.analysisId,
+    });
+  }
+
+  const templateRevisions: LibraryRecords['templateRevisions'] = [];
+  for (const revision of incoming.templateRevisions) {
+    if (skippedTemplates.has(revision.templateId)) {
+      skipped++;
+      continue;
+    }
+    const id = resolveId(revision.id, existing.templateRevisionIds, () => crypto.randomUUID());
+    if (id === null) continue;
+    templateRevisions.push({
+      ...revision,
+      id,
+      templateId: remapTemplate(revision.templateId),
+    });
+  }
+
+  const templateBenchRuns: LibraryRecords['templateBenchRuns'] = [];
+  for (const run of incoming.templateBenchRuns) {
+    if (skippedTemplates.has(run.templateId)) {
+      skipped++;
+      continue;
+    }
+    const id = resolveId(run.id, existing.templateBenchRunIds, () => crypto.randomUUID());
+    if (id === null) continue;
+    templateBenchRuns.push({
+      ...run,
+      id,
+      templateId: remapTemplate(run.templateId),
+      transcriptId: remapTranscript(run.transcriptId),
+    });
+  }
+
+  const templateGoldenOutputs: LibraryRecords['templateGoldenOutputs'] = [];
+  for (const output of incoming.templateGoldenOutputs) {
+    const templateId = remapTemplate(output.templateId);
+    const transcriptId = remapTranscript(output.transcriptId);
+    const id = getGoldenOutputId(templateId, transcriptId, output.sectionId);
+    if (existing.templateGoldenOutputIds.has(id)) {
+      skipped++;
+      continue;
+    }
+    templateGoldenOutputs.push({ ...output, id, templateId, transcriptId });
+  }
+
+  return {
+    records: {
+      transcripts,
+      analyses,
+      conversations,
+      templates,
+      recordings,
+      audioFiles,
+      transcriptRevisions,
+      libraryConversations,
+      actionItems,
+      templateRevisions,
+      templateBenchRuns,
+      templateGoldenOutputs,
+    },
+    skipped,
+    duplicated,
+  };
+}
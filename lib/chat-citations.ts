@@ -0,0 +1,210 @@
+/**
+ * Chat Citations
+ *
+ * Transcript chat sends the model one line per segment, prefixed with a
+ * marker like `[#12 00:03:15]`, and asks it to cite segments as `[#12]`.
+ * Answers are parsed back into text and citations, and each citation is
+ * checked against the transcript's actual segments so a cited passage
+ * that doesn't exist can be flagged instead of linked.
+ *
+ * Timestamp citations (`[00:03:15]`, `[3:15]`) are accepted too, since
+ * models sometimes cite the time instead of the segment number.
+ *
+ * Segment numbers change when segments are split or merged, so answers
+ * are saved with the start time of each cited segment, and a citation
+ * whose segment no longer starts there is resolved by that time instead.
+ */
+
+import type { CitedSegment } from '@/types/chat';
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+import { getSpeakerDisplayName } from '@/lib/speaker-roster';
+import { formatTimestamp } from '@/lib/transcription-utils';
+
+/**
+ * A segment citation parsed from an answer
+ */
+export interface ChatCitation {
+  /** Text of the reference as written in the answer, e.g. "#12" or "00:03:15" */
+  label: string;
+
+  /** Cited segment's index, when the citation resolves to a segment */
+  segmentIndex?: number;
+
+  /** Time to seek to in seconds, when the citation resolves to a segment */
+  time?: number;
+
+  /** Whether the cited segment or time exists in the transcript */
+  valid: boolean;
+}
+
+/**
+ * A run of answer text, or a citation between runs
+ */
+export type AnswerPart =
+  | { type: 'text'; text: string }
+  | { type: 'citation'; citation: ChatCitation };
+
+// One reference inside a citation: a segment number or a timestamp
+const REFERENCE = String.raw`(?:#\d+|\d{1,2}:\d{2}(?::\d{2})?)`;
+
+// A bracketed list of references: [#12], [#3, #4], [00:03:15], [#3; 01:02]
+const CITATION_PATTERN = new RegExp(String.raw`\[(${REFERENCE}(?:\s*[,;]\s*${REFERENCE})*)\]`, 'g');
+
+/**
+ * Format a transcript as citable text, one marked line per segment
+ *
+ * @param transcript - Transcript to format
+ * @returns Lines like `[#12 00:03:15] Speaker 1: text`, or the plain
+ *   transcript text when it has no segments
+ *
+ * @example
+ * buildCitableTranscriptText(transcript);
+ * // "[#0 00:00:00] Alice: Welcome everyone.\n[#1 00:00:04] Bob: Thanks."
+ */
+export function buildCitableTranscriptText(transcript: Transcript): string {
+  const segments = transcript.segments ?? [];
+  if (segments.length === 0) {
+    return transcript.text;
+  }
+
+  return segments
+    .filter((segment) => segment.text.trim())
+    .map((segment) => {
+      const marker = `[#${segment.index} ${formatTimestamp(segment.start)}]`;
+      const speaker = segment.speaker
+        ? getSpeakerDisplayName(segment.speaker, transcript.speakers)
+        : undefined;
+      return speaker
+        ? `${marker} ${speaker}: ${segment.text.trim()}`
+        : `${marker} ${segment.text.trim()}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Parse a timestamp reference (HH:MM:SS or MM:SS) to seconds
+ */
+function parseTimestamp(value: string): number {
+  return value
+    .split(':')
+    .map(Number)
+    .reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Segment closest to a time: the one starting then, else the one spanning it
+ */
+function findSegmentAt(time: number, segments: TranscriptSegment[]): TranscriptSegment | undefined {
+  return segments.find((s) => Math.abs(s.start - time) < 0.001)
+    ?? segments.find((s) => time >= s.start && time < s.end);
+}
+
+/**
+ * Resolve one reference against the transcript's segments
+ *
+ * @param starts - Start time of each cited segment when the answer was saved, by index
+ */
+function resolveReference(
+  label: string,
+  segments: TranscriptSegment[],
+  starts: Map<number, number>
+): ChatCitation {
+  if (label.startsWith('#')) {
+    const segmentIndex = Number(label.slice(1));
+    const segment = segments.find((s) => s.index === segmentIndex);
+    const start = starts.get(segmentIndex);
+
+    // Segments were split or merged since the answer: follow the cited time
+    if (start !== undefined && (!segment || Math.abs(segment.start - start) >= 0.001)) {
+      const moved = findSegmentAt(start, segments);
+      return moved
+        ? { label, segmentIndex: moved.index, time: start, valid: true }
+        : { label, segmentIndex, valid: false };
+    }
+
+    return segment
+      ? { label, segmentIndex, time: segment.start, valid: true }
+      : { label, segmentIndex, valid: false };
+  }
+
+  // Prefer the segment whose marker shows this time, else the one spanning it
+  const time = parseTimestamp(label);
+  const segment = segments.find((s) => Math.round(s.start) === time)
+    ?? segments.find((s) => time >= s.start && time < s.end);
+  return segment
+    ? { label, segmentIndex: segment.index, time, valid: true }
+    : { label, valid: false };
+}
+
+/**
+ * Segments an answer cites by number, with their current start times
+ *
+ * Saved with the answer so its citations still find their segments
+ * after the transcript's segments are split or merged.
+ *
+ * @param answer - Answer text from the model
+ * @param segments - The transcript's segments when the answer was given
+ * @returns One entry per distinct cited segment that exists
+ */
+export function getCitedSegments(answer: string, segments: TranscriptSegment[]): CitedSegment[] {
+  const cited = new Map<number, CitedSegment>();
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    for (const label of match[1].split(/[,;]/).map((part) => part.trim())) {
+      if (!label.startsWith('#')) continue;
+      const segment = segments.find((s) => s.index === Number(label.slice(1)));
+      if (segment) {
+        cited.set(segment.index, { segmentIndex: segment.index, start: segment.start });
+      }
+    }
+  }
+
+  return Array.from(cited.values());
+}
+
+/**
+ * Split an answer into text and citations checked against the transcript
+ *
+ * A bracket with several references becomes one citation per reference.
+ * Brackets that don't look like citations are left in the text.
+ *
+ * @param answer - Answer text from the model
+ * @param segments - The transcript's segments
+ * @param citedSegments - Cited segments saved with the answer (see `getCitedSegments`)
+ * @returns Answer parts in order (a single text part when nothing is cited)
+ *
+ * @example
+ * parseAnswerCitations('The budget passed [#12].', segments);
+ * // [{ type: 'text', text: 'The budget passed ' },
+ * //  { type: 'citation', citation: { label: '#12', segmentIndex: 12, time: 95.2, valid: true } },
+ * //  { type: 'text', text: '.' }]
+ */
+export function parseAnswerCitations(
+  answer: string,
+  segments: TranscriptSegment[],
+  citedSegments: CitedSegment[] = []
+): AnswerPart[] {
+  const starts = new Map(citedSegments.map((cited) => [cited.segmentIndex, cited.start]));
+  const parts: AnswerPart[] = [];
+  let last = 0;
+
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    const start = match.index ?? 0;
+    const text = answer.slice(last, start);
+    if (text) {
+      parts.push({ type: 'text', text });
+    }
+
+    for (const label of match[1].split(/[,;]/)) {
+      parts.push({ type: 'citation', citation: resolveReference(label.trim(), segments, starts) });
+    }
+    last = start + match[0].length;
+  }
+
+  const rest = answer.slice(last);
+  if (rest || parts.length === 0) {
+    parts.push({ type: 'text', text: rest });
+  }
+
+  return parts;
+}
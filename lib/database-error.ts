@@ -0,0 +1,20 @@
+/**
+ * Database Error
+ *
+ * Error raised by library storage operations, whether the library lives in
+ * IndexedDB or in the server store.
+ */
+
+/**
+ * Custom error class for database operations
+ */
+export class DatabaseError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string,
+    public readonly originalError?: Error
+  ) {
+    super(message);
+    this.name = 'DatabaseError';
+  }
+}
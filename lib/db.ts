@@ -5,27 +5,42 @@
  * templates, and analyses with proper indexing and error handling.
  */
 
-import Dexie, { Table } from 'dexie';
-import type { Transcript } from '../types/transcript';
-import type { Template } from '../types/template';
+import Dexie, { RangeSet, Table } from 'dexie';
+import type { Transcript, TranscriptRevision, TranscriptSegment } from '../types/transcript';
+import type { Template, TemplateRevision } from '../types/template';
+import type { TemplateBenchRun, TemplateGoldenOutput } from '../types/template-bench';
 import type { Analysis } from '../types/analysis';
 import type { AudioMetadata } from '../types/audio';
-import type { Conversation } from '../types/chat';
-import type { SavedRecording } from '../types/recording';
-
-/**
- * Custom error class for database operations
- */
-export class DatabaseError extends Error {
-  constructor(
-    message: string,
-    public readonly code?: string,
-    public readonly originalError?: Error
-  ) {
-    super(message);
-    this.name = 'DatabaseError';
-  }
-}
+import type { Conversation, LibraryConversation } from '../types/chat';
+import type { ActionItemUpdate, TrackedActionItem } from '../types/action-item';
+import type { RecordingSession, RecordingSessionChunk, SavedRecording } from '../types/recording';
+import type { LibraryPassage, PassageFilters, TranscriptSearchResult } from '../types/search';
+import {
+  buildSearchEntries,
+  buildSearchSnippets,
+  findRankedMatches,
+  findRelevantPassages,
+  parseSearchQuery,
+  type SearchDocEntry,
+  type SearchIndexReader,
+  type SearchTermEntry,
+} from './search';
+import {
+  getMeetingDate,
+  mergeAnalysisActionItems,
+  rescheduleActionItems,
+  resolveActionItemDeadlines,
+} from './action-items';
+import { DatabaseError } from './database-error';
+import { planTemplateRevisions } from './template-revisions';
+import {
+  createServerStorageAdapter,
+  getStorageBackend,
+  type StorageAdapter,
+  type StoredTable,
+} from './storage-adapter';
+
+export { DatabaseError };
 
 /**
  * Storage estimate information
@@ -46,8 +61,10 @@ export interface StorageEstimate {
 /**
  * Main Dexie database class for Meeting Transcriber
  *
- * Manages six tables: transcripts, templates, analyses, audioFiles, conversations, and recordings
- * with proper indexing for efficient queries.
+ * Manages sixteen tables: transcripts, templates, analyses, audioFiles, conversations,
+ * libraryConversations, actionItems, recordings, recordingSessions/recordingChunks for crash recovery, transcriptRevisions,
+ * templateRevisions, templateBenchRuns/templateGoldenOutputs for the template test bench, and the
+ * searchTerms/searchDocs full-text index with proper indexing for efficient queries.
  */
 export class MeetingTranscriberDB extends Dexie {
   /** Transcripts table with full-text and date indexing */
@@ -65,9 +82,39 @@ export class MeetingTranscriberDB extends Dexie {
   /** Conversations table storing Q&A chat history for transcripts (client-side only) */
   conversations!: Table<Conversation, string>;
 
+  /** Library-wide Q&A conversations, kept apart from per-transcript ones (client-side only) */
+  libraryConversations!: Table<LibraryConversation, string>;
+
+  /** Action items tracked across meetings, built from saved analyses (client-side only) */
+  actionItems!: Table<TrackedActionItem, string>;
+
   /** Recordings table storing saved audio recordings with metadata */
   recordings!: Table<SavedRecording, number>;
 
+  /** In-progress recordings, kept until saved or discarded (crash recovery) */
+  recordingSessions!: Table<RecordingSession, string>;
+
+  /** Audio chunks of in-progress recordings, keyed by [sessionId+seq] */
+  recordingChunks!: Table<RecordingSessionChunk, [string, number]>;
+
+  /** Transcript revisions table storing manual segment edit history */
+  transcriptRevisions!: Table<TranscriptRevision, string>;
+
+  /** Immutable template revisions, one per saved change (client-side only) */
+  templateRevisions!: Table<TemplateRevision, string>;
+
+  /** Template test bench runs against sample transcripts (client-side only) */
+  templateBenchRuns!: Table<TemplateBenchRun, string>;
+
+  /** Expected section outputs that bench runs are scored against (client-side only) */
+  templateGoldenOutputs!: Table<TemplateGoldenOutput, string>;
+
+  /** Full-text inverted index: one row per (stemmed term, transcript) */
+  searchTerms!: Table<SearchTermEntry, [string, string]>;
+
+  /** Full-text index statistics: one row per indexed transcript */
+  searchDocs!: Table<SearchDocEntry, string>;
+
   constructor() {
     super('MeetingTranscriberDB');
 
@@ -145,13 +192,200 @@ export class MeetingTranscriberDB extends Dexie {
       recordings: '++id, status, transcriptId, metadata.createdAt',
     });
 
+    // Version 8 adds transcript revisions for the inline segment editor
+    this.version(8).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      // Transcript revisions: indexed by id (primary), transcriptId (FK), and compound [transcriptId+createdAt]
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+    });
+
+    // Version 9 adds the full-text search index and builds it for existing transcripts
+    this.version(9).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      // Search terms: compound primary key [term+transcriptId]; term supports prefix queries
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+    }).upgrade(async (tx) => {
+      // Index one transcript at a time to keep memory flat on large libraries
+      const ids = await tx.table('transcripts').toCollection().primaryKeys();
+      for (const id of ids) {
+        const transcript = await tx.table<Transcript, string>('transcripts').get(id as string);
+        if (!transcript) continue;
+        const { doc, terms } = buildSearchEntries(transcript);
+        await tx.table('searchTerms').bulkPut(terms);
+        await tx.table('searchDocs').put(doc);
+      }
+    });
+
+    // Version 10 persists in-progress recordings chunk by chunk for crash recovery
+    this.version(10).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+      // Recording sessions: indexed by id (primary) and startedAt
+      recordingSessions: 'id, startedAt',
+      // Recording chunks: compound primary key [sessionId+seq] for ordered reads per session
+      recordingChunks: '[sessionId+seq], sessionId',
+    });
+
+    // Version 11 adds library-wide conversations for cross-transcript Q&A
+    this.version(11).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+      recordingSessions: 'id, startedAt',
+      recordingChunks: '[sessionId+seq], sessionId',
+      // Library conversations: indexed by id (primary) and updatedAt for the conversation list
+      libraryConversations: 'id, updatedAt',
+    });
+
+    // Version 12 adds the action item tracker and fills it from existing analyses
+    this.version(12).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+      recordingSessions: 'id, startedAt',
+      recordingChunks: '[sessionId+seq], sessionId',
+      libraryConversations: 'id, updatedAt',
+      // Action items: indexed by id (primary), transcriptId and analysisId (FKs), status, dueDate,
+      // and compound [transcriptId+key] for matching items across analysis runs
+      actionItems: 'id, transcriptId, analysisId, status, dueDate, [transcriptId+key]',
+    }).upgrade(async (tx) => {
+      // Oldest analyses first, so re-runs re-link items to the newest one
+      const analyses = await tx.table<Analysis, string>('analyses').orderBy('createdAt').toArray();
+      for (const analysis of analyses) {
+        if (!analysis.results?.actionItems?.length) continue;
+        const transcript = await tx.table<Transcript, string>('transcripts').get(analysis.transcriptId);
+        if (!transcript) continue;
+        const existing = await tx.table<TrackedActionItem, string>('actionItems')
+          .where('transcriptId').equals(analysis.transcriptId).toArray();
+        await tx.table('actionItems').bulkPut(
+          mergeAnalysisActionItems(existing, analysis, new Date(transcript.createdAt))
+        );
+      }
+    });
+
+    // Version 13 adds template revisions. Existing templates get their first
+    // revision lazily, the next time they are saved.
+    this.version(13).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+      recordingSessions: 'id, startedAt',
+      recordingChunks: '[sessionId+seq], sessionId',
+      libraryConversations: 'id, updatedAt',
+      actionItems: 'id, transcriptId, analysisId, status, dueDate, [transcriptId+key]',
+      // Template revisions: indexed by id (primary), templateId (FK), and
+      // compound [templateId+version] for ordered history per template
+      templateRevisions: 'id, templateId, [templateId+version]',
+    });
+
+    // Version 14 adds the template test bench: runs of template sections
+    // against sample transcripts, and the golden outputs they're scored against
+    this.version(14).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+      recordingSessions: 'id, startedAt',
+      recordingChunks: '[sessionId+seq], sessionId',
+      libraryConversations: 'id, updatedAt',
+      actionItems: 'id, transcriptId, analysisId, status, dueDate, [transcriptId+key]',
+      templateRevisions: 'id, templateId, [templateId+version]',
+      // Bench runs and golden outputs: indexed by id (primary), templateId and
+      // transcriptId (FKs) for cleanup when either is deleted
+      templateBenchRuns: 'id, templateId, transcriptId, createdAt',
+      templateGoldenOutputs: 'id, templateId, transcriptId',
+    });
+
+    // Version 15 adds meeting dates and departments to the search docs, so
+    // the library chat filters them before ranking
+    this.version(15).stores({
+      transcripts: 'id, filename, createdAt, metadata.duration, metadata.fileSize, [filename+createdAt], fingerprint.fileHash',
+      templates: 'id, category, isCustom, createdAt, name',
+      analyses: 'id, transcriptId, templateId, createdAt, [transcriptId+createdAt]',
+      audioFiles: 'transcriptId, storedAt',
+      conversations: 'id, transcriptId, updatedAt, [transcriptId+updatedAt]',
+      recordings: '++id, status, transcriptId, metadata.createdAt',
+      transcriptRevisions: 'id, transcriptId, createdAt, [transcriptId+createdAt]',
+      searchTerms: '[term+transcriptId], term, transcriptId',
+      searchDocs: 'transcriptId',
+      recordingSessions: 'id, startedAt',
+      recordingChunks: '[sessionId+seq], sessionId',
+      libraryConversations: 'id, updatedAt',
+      actionItems: 'id, transcriptId, analysisId, status, dueDate, [transcriptId+key]',
+      templateRevisions: 'id, templateId, [templateId+version]',
+      templateBenchRuns: 'id, templateId, transcriptId, createdAt',
+      templateGoldenOutputs: 'id, templateId, transcriptId',
+    }).upgrade(async (tx) => {
+      const ids = await tx.table('searchDocs').toCollection().primaryKeys();
+      for (const id of ids) {
+        const transcript = await tx.table<Transcript, string>('transcripts').get(id as string);
+        if (!transcript) continue;
+        await tx.table('searchDocs').update(id, {
+          meetingDate: getMeetingDate(transcript),
+          department: transcript.department,
+        });
+      }
+    });
+
     // Map tables to classes for better type inference
     this.transcripts = this.table('transcripts');
     this.templates = this.table('templates');
     this.analyses = this.table('analyses');
     this.audioFiles = this.table('audioFiles');
     this.conversations = this.table('conversations');
+    this.libraryConversations = this.table('libraryConversations');
+    this.actionItems = this.table('actionItems');
     this.recordings = this.table('recordings');
+    this.recordingSessions = this.table('recordingSessions');
+    this.recordingChunks = this.table('recordingChunks');
+    this.transcriptRevisions = this.table('transcriptRevisions');
+    this.templateRevisions = this.table('templateRevisions');
+    this.templateBenchRuns = this.table('templateBenchRuns');
+    this.templateGoldenOutputs = this.table('templateGoldenOutputs');
+    this.searchTerms = this.table('searchTerms');
+    this.searchDocs = this.table('searchDocs');
   }
 }
 
@@ -176,6 +410,11 @@ export type { SavedRecording, RecordingMetadata, RecordingMode } from '@/types/r
 
 export async function findTranscriptByFingerprint(hash: string): Promise<Transcript | undefined> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return (await remote.listTranscripts({ fileHash: hash, limit: 1, orderDirection: 'asc' })).items[0];
+    }
+
     const db = getDatabase();
     return await db.transcripts.where('fingerprint.fileHash').equals(hash).first();
   } catch (error) {
@@ -186,6 +425,11 @@ export async function findTranscriptByFingerprint(hash: string): Promise<Transcr
 
 export async function countTranscriptVersions(hash: string): Promise<number> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return (await remote.listTranscripts({ fileHash: hash, limit: 1 })).total;
+    }
+
     const db = getDatabase();
     return await db.transcripts.where('fingerprint.fileHash').equals(hash).count();
   } catch (error) {
@@ -253,6 +497,50 @@ export function getDatabase(): MeetingTranscriberDB {
   return dbInstance;
 }
 
+// ============================================================================
+// SERVER STORAGE
+// ============================================================================
+
+let remoteStorage: StorageAdapter | null = null;
+
+/**
+ * Change-tracking key Dexie uses for a whole table
+ */
+function tableKey(table: StoredTable): string {
+  return `idb://${getDatabase().name}/${table}/`;
+}
+
+/**
+ * Gets the server storage adapter when the library is stored on the server
+ *
+ * Server reads observe the matching local (empty) tables and server writes
+ * fire Dexie's change event for them, so `useLiveQuery` hooks re-run the
+ * same way they do for IndexedDB writes.
+ *
+ * @returns The adapter, or null when the library is stored in IndexedDB
+ */
+export function getRemoteStorage(): StorageAdapter | null {
+  if (getStorageBackend() !== 'server') {
+    return null;
+  }
+
+  if (!remoteStorage) {
+    remoteStorage = createServerStorageAdapter({
+      // Must be called before the first await to register with the live query
+      observe: (tables) => Promise.all(tables.map((table) => getDatabase().table(table).count())),
+      notify: (tables) => {
+        const parts: Record<string, RangeSet> = {};
+        for (const table of tables) {
+          parts[tableKey(table)] = new RangeSet(Dexie.minKey, Dexie.maxKey);
+        }
+        Dexie.on.storagemutated.fire(parts);
+      },
+    });
+  }
+
+  return remoteStorage;
+}
+
 /**
  * Formats bytes to human-readable string
  *
@@ -269,6 +557,70 @@ function formatBytes(bytes: number): string {
   return `${parseFloat((bytes / Math.pow(k, i)).toFixed(2))} ${sizes[i]}`;
 }
 
+/**
+ * Fields whose changes require a transcript to be re-indexed for search
+ */
+const SEARCH_INDEXED_FIELDS: Array<keyof Transcript> = [
+  'text',
+  'segments',
+  'filename',
+  'metadata',
+  'meetingDate',
+  'department',
+];
+
+/**
+ * Replaces a transcript's rows in the full-text search index
+ *
+ * Must be called inside a transaction that includes the search tables.
+ */
+async function writeSearchIndex(db: MeetingTranscriberDB, transcript: Transcript): Promise<void> {
+  const { doc, terms } = buildSearchEntries(transcript);
+  await db.searchTerms.where('transcriptId').equals(transcript.id).delete();
+  await db.searchTerms.bulkPut(terms);
+  await db.searchDocs.put(doc);
+}
+
+/**
+ * Removes transcripts from the full-text search index
+ *
+ * Must be called inside a transaction that includes the search tables.
+ */
+async function removeSearchIndex(db: MeetingTranscriberDB, ids: string[]): Promise<void> {
+  await db.searchTerms.where('transcriptId').anyOf(ids).delete();
+  await db.searchDocs.bulkDelete(ids);
+}
+
+/**
+ * Tracks the action items of a saved analysis
+ *
+ * Items matching earlier ones from the same transcript are updated in
+ * place, and open items a re-run dropped are superseded. Must be called
+ * inside a transaction that includes the action item table.
+ *
+ * @param meetingDate - Date of the meeting, for resolving relative deadlines
+ */
+async function writeActionItems(db: MeetingTranscriberDB, analysis: Analysis, meetingDate: Date): Promise<void> {
+  if (!analysis.results.actionItems) return;
+  const existing = await db.actionItems.where('transcriptId').equals(analysis.transcriptId).toArray();
+  await db.actionItems.bulkPut(mergeAnalysisActionItems(existing, analysis, meetingDate));
+}
+
+/**
+ * Removes the browser-only data of deleted transcripts (chat, edit
+ * history and tracked action items) when the library itself is stored
+ * on the server
+ */
+async function removeLocalTranscriptData(db: MeetingTranscriberDB, ids: string[]): Promise<void> {
+  await db.transaction('rw', [db.conversations, db.transcriptRevisions, db.actionItems, db.templateBenchRuns, db.templateGoldenOutputs], async () => {
+    await db.conversations.where('transcriptId').anyOf(ids).delete();
+    await db.transcriptRevisions.where('transcriptId').anyOf(ids).delete();
+    await db.actionItems.where('transcriptId').anyOf(ids).delete();
+    await db.templateBenchRuns.where('transcriptId').anyOf(ids).delete();
+    await db.templateGoldenOutputs.where('transcriptId').anyOf(ids).delete();
+  });
+}
+
 // ============================================================================
 // TRANSCRIPT OPERATIONS
 // ============================================================================
@@ -292,7 +644,16 @@ export async function saveTranscript(transcript: Transcript): Promise<string> {
         : new Date(transcript.createdAt)
     };
 
-    await db.transcripts.put(transcriptToSave);
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.saveTranscripts([transcriptToSave]);
+      return transcript.id;
+    }
+
+    await db.transaction('rw', [db.transcripts, db.searchTerms, db.searchDocs], async () => {
+      await db.transcripts.put(transcriptToSave);
+      await writeSearchIndex(db, transcriptToSave);
+    });
     return transcript.id;
   } catch (error) {
     if (error instanceof Error && error.name === 'QuotaExceededError') {
@@ -319,6 +680,11 @@ export async function saveTranscript(transcript: Transcript): Promise<string> {
  */
 export async function getTranscript(id: string): Promise<Transcript | undefined> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.getTranscript(id);
+    }
+
     const db = getDatabase();
     return await db.transcripts.get(id);
   } catch (error) {
@@ -338,6 +704,11 @@ export async function getTranscript(id: string): Promise<Transcript | undefined>
  */
 export async function getAllTranscripts(): Promise<Transcript[]> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return (await remote.listTranscripts()).items;
+    }
+
     const db = getDatabase();
     return await db.transcripts
       .orderBy('createdAt')
@@ -388,6 +759,11 @@ export async function getTranscriptsPaginated(
       orderDirection = 'desc',
     } = options;
 
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.listTranscripts({ limit, offset, orderBy, orderDirection });
+    }
+
     const db = getDatabase();
 
     // Get total count for pagination metadata
@@ -426,12 +802,14 @@ export async function getTranscriptsPaginated(
 /**
  * Searches transcripts with pagination for better performance
  *
- * Filters transcripts by filename or text content matching the search term.
- * Uses in-memory filtering (IndexedDB doesn't support LIKE queries).
+ * Queries the full-text index (see `lib/search`) and ranks matching
+ * transcripts with BM25. Every clause must match; quoted text matches an
+ * exact phrase and a trailing `*` matches a prefix. An empty query returns
+ * all transcripts newest first without snippets.
  *
- * @param searchTerm - Text to search for in filename and content
+ * @param searchTerm - Query string (e.g. `"zoning board" budg*`)
  * @param options - Pagination options (limit, offset)
- * @returns Paginated result with matching transcripts
+ * @returns Paginated ranked results with highlighted snippets
  * @throws {DatabaseError} If the search operation fails
  *
  * @example
@@ -449,37 +827,65 @@ export async function getTranscriptsPaginated(
 export async function searchTranscriptsPaginated(
   searchTerm: string,
   options: PaginationOptions = {}
-): Promise<PaginatedResult<Transcript>> {
+): Promise<PaginatedResult<TranscriptSearchResult>> {
   try {
     const {
       limit = 50,
       offset = 0,
     } = options;
 
-    const db = getDatabase();
-    const lowerSearch = searchTerm.toLowerCase();
-
-    // Get all matching items (IndexedDB doesn't support LIKE queries)
-    // Note: For very large datasets, consider using a separate search index
-    const allMatches = await db.transcripts
-      .filter(t =>
-        t.filename.toLowerCase().includes(lowerSearch) ||
-        t.text.toLowerCase().includes(lowerSearch)
-      )
-      .toArray();
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.searchTranscripts(searchTerm, { limit, offset });
+    }
 
-    // Sort by createdAt desc
-    allMatches.sort((a, b) =>
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    const db = getDatabase();
+    const clauses = parseSearchQuery(searchTerm);
+
+    if (clauses.length === 0) {
+      const total = await db.transcripts.count();
+      const transcripts = await db.transcripts
+        .orderBy('createdAt')
+        .reverse()
+        .offset(offset)
+        .limit(limit)
+        .toArray();
+
+      return {
+        items: transcripts.map((transcript) => ({
+          transcript,
+          score: 0,
+          snippets: [],
+          filenameMatch: false,
+        })),
+        total,
+        hasMore: offset + transcripts.length < total,
+        offset,
+        limit,
+      };
+    }
 
-    const total = allMatches.length;
-    const items = allMatches.slice(offset, offset + limit);
+    const { ranked, docs } = await findRankedMatches(createSearchIndexReader(db), clauses);
+    const page = ranked.slice(offset, offset + limit);
+    const transcripts = await db.transcripts.bulkGet(page.map((match) => match.transcriptId));
+
+    const items: TranscriptSearchResult[] = [];
+    page.forEach((match, i) => {
+      const transcript = transcripts[i];
+      if (!transcript) return;
+      const language = docs.get(match.transcriptId)?.language ?? 'en';
+      items.push({
+        transcript,
+        score: match.score,
+        snippets: buildSearchSnippets(transcript, match.terms, language),
+        filenameMatch: match.filenameMatch,
+      });
+    });
 
     return {
       items,
-      total,
-      hasMore: offset + items.length < total,
+      total: ranked.length,
+      hasMore: offset + page.length < ranked.length,
       offset,
       limit,
     };
@@ -492,10 +898,65 @@ export async function searchTranscriptsPaginated(
   }
 }
 
+/**
+ * Retrieves the passages across the library that best answer a question
+ *
+ * Used by the library chat to send the model relevant excerpts from many
+ * transcripts instead of whole transcripts.
+ *
+ * @param question - Natural-language question
+ * @param filters - Department and meeting date filters
+ * @returns Passages sorted by relevance (empty if nothing matches)
+ * @throws {DatabaseError} If retrieval fails
+ */
+export async function findLibraryPassages(
+  question: string,
+  filters: PassageFilters = {}
+): Promise<LibraryPassage[]> {
+  try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.findPassages(question, filters);
+    }
+
+    const db = getDatabase();
+    return await findRelevantPassages(
+      createSearchIndexReader(db),
+      (ids) => db.transcripts.bulkGet(ids),
+      question,
+      filters
+    );
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to retrieve passages',
+      'SEARCH_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Reads the full-text index tables for search execution
+ */
+function createSearchIndexReader(db: MeetingTranscriberDB): SearchIndexReader {
+  return {
+    getTermRows: (terms) => db.searchTerms.where('term').anyOf(terms).toArray(),
+    getPrefixRows: (prefix) => db.searchTerms.where('term').startsWith(prefix).toArray(),
+    getDocs: async () => {
+      const docs = new Map<string, SearchDocEntry>();
+      await db.searchDocs.each((doc) => {
+        docs.set(doc.transcriptId, doc);
+      });
+      return docs;
+    },
+  };
+}
+
 /**
  * Deletes a transcript by ID
  *
- * Also deletes all associated analyses and conversations to maintain referential integrity.
+ * Also deletes all associated analyses, conversations, revisions, tracked
+ * action items and search index rows to maintain referential integrity.
  *
  * @param id - The transcript ID to delete
  * @throws {DatabaseError} If the deletion operation fails
@@ -504,16 +965,37 @@ export async function deleteTranscript(id: string): Promise<void> {
   try {
     const db = getDatabase();
 
+    const remote = getRemoteStorage();
+    if (remote) {
+      // The server also deletes analyses and audio; chat and edit history stay local
+      await remote.deleteTranscripts([id]);
+      await removeLocalTranscriptData(db, [id]);
+      return;
+    }
+
     // Use a transaction to ensure all deletions succeed or fail together
-    await db.transaction('rw', [db.transcripts, db.analyses, db.conversations], async () => {
+    await db.transaction('rw', [db.transcripts, db.analyses, db.conversations, db.transcriptRevisions, db.actionItems, db.templateBenchRuns, db.templateGoldenOutputs, db.searchTerms, db.searchDocs], async () => {
       // Delete the transcript
       await db.transcripts.delete(id);
 
+      // Remove it from the search index
+      await removeSearchIndex(db, [id]);
+
       // Delete all associated analyses
       await db.analyses.where('transcriptId').equals(id).delete();
 
       // Delete all associated conversations
       await db.conversations.where('transcriptId').equals(id).delete();
+
+      // Delete the edit history
+      await db.transcriptRevisions.where('transcriptId').equals(id).delete();
+
+      // Delete the tracked action items
+      await db.actionItems.where('transcriptId').equals(id).delete();
+
+      // Delete template test bench runs and golden outputs on it
+      await db.templateBenchRuns.where('transcriptId').equals(id).delete();
+      await db.templateGoldenOutputs.where('transcriptId').equals(id).delete();
     });
   } catch (error) {
     throw new DatabaseError(
@@ -524,61 +1006,86 @@ export async function deleteTranscript(id: string): Promise<void> {
   }
 }
 
-// ============================================================================
-// TEMPLATE OPERATIONS
-// ============================================================================
-
 /**
- * Saves a template to the database
+ * Updates fields on an existing transcript
  *
- * @param template - The template to save
- * @returns The saved template's ID
- * @throws {DatabaseError} If the save operation fails
+ * @param id - The transcript ID to update
+ * @param updates - Fields to change (the ID itself cannot be changed)
+ * @throws {DatabaseError} If the transcript does not exist or the update fails
  */
-export async function saveTemplate(template: Template): Promise<string> {
+export async function updateTranscript(
+  id: string,
+  updates: Partial<Omit<Transcript, 'id'>>
+): Promise<void> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.updateTranscript(id, updates);
+      return;
+    }
+
     const db = getDatabase();
 
-    // Ensure dates are Date objects
-    const templateToSave: Template = {
-      ...template,
-      createdAt: template.createdAt instanceof Date
-        ? template.createdAt
-        : new Date(template.createdAt)
-    };
+    await db.transaction('rw', [db.transcripts, db.searchTerms, db.searchDocs], async () => {
+      const updated = await db.transcripts.update(id, updates);
 
-    await db.templates.put(templateToSave);
-    return template.id;
+      if (updated === 0) {
+        throw new DatabaseError(
+          `Transcript with ID ${id} not found`,
+          'NOT_FOUND'
+        );
+      }
+
+      if (SEARCH_INDEXED_FIELDS.some((field) => field in updates)) {
+        const transcript = await db.transcripts.get(id);
+        if (transcript) {
+          await writeSearchIndex(db, transcript);
+        }
+      }
+    });
   } catch (error) {
-    if (error instanceof Error && error.name === 'QuotaExceededError') {
-      throw new DatabaseError(
-        'Storage quota exceeded. Please delete some templates to free up space.',
-        'QUOTA_EXCEEDED',
-        error
-      );
+    if (error instanceof DatabaseError) {
+      throw error;
     }
     throw new DatabaseError(
-      'Failed to save template',
-      'SAVE_FAILED',
+      `Failed to update transcript with ID: ${id}`,
+      'UPDATE_FAILED',
       error instanceof Error ? error : undefined
     );
   }
 }
 
+// ============================================================================
+// TRANSCRIPT REVISION OPERATIONS
+// ============================================================================
+
 /**
- * Retrieves a template by ID
+ * Maximum number of revisions kept per transcript. Older revisions are pruned.
+ */
+export const MAX_TRANSCRIPT_REVISIONS = 100;
+
+/**
+ * Retrieves the edit history for a transcript, oldest first
  *
- * @param id - The template ID
- * @returns The template if found, undefined otherwise
+ * @param transcriptId - The transcript ID
+ * @returns Array of revisions in the order they were made
  * @throws {DatabaseError} If the retrieval operation fails
  */
-export async function getTemplate(id: string): Promise<Template | undefined> {
+export async function getTranscriptRevisions(
+  transcriptId: string
+): Promise<TranscriptRevision[]> {
   try {
     const db = getDatabase();
-    return await db.templates.get(id);
+    return await db.transcriptRevisions
+      .where('[transcriptId+createdAt]')
+      .between(
+        [transcriptId, Dexie.minKey],
+        [transcriptId, Dexie.maxKey]
+      )
+      .toArray();
   } catch (error) {
     throw new DatabaseError(
-      `Failed to retrieve template with ID: ${id}`,
+      `Failed to retrieve revisions for transcript ID: ${transcriptId}`,
       'GET_FAILED',
       error instanceof Error ? error : undefined
     );
@@ -586,39 +1093,321 @@ export async function getTemplate(id: string): Promise<Template | undefined> {
 }
 
 /**
- * Retrieves all templates
+ * Appends a revision to a transcript's history
  *
- * @returns Array of all templates
- * @throws {DatabaseError} If the retrieval operation fails
+ * Discards any revisions ahead of the current one (after an undo) and prunes
+ * the oldest revisions beyond the cap. Must be called inside a transaction
+ * that includes the revisions table.
  */
-export async function getAllTemplates(): Promise<Template[]> {
-  try {
-    const db = getDatabase();
-    return await db.templates.toArray();
-  } catch (error) {
-    throw new DatabaseError(
-      'Failed to retrieve templates',
-      'GET_ALL_FAILED',
-      error instanceof Error ? error : undefined
-    );
-  }
+async function addRevision(
+  db: MeetingTranscriberDB,
+  transcript: Transcript,
+  revision: TranscriptRevision
+): Promise<void> {
+  const history = await db.transcriptRevisions
+    .where('[transcriptId+createdAt]')
+    .between(
+      [revision.transcriptId, Dexie.minKey],
+      [revision.transcriptId, Dexie.maxKey]
+    )
+    .toArray();
+
+  // Drop redo history that is ahead of the current revision
+  const currentPosition = transcript.currentRevisionId
+    ? history.findIndex((r) => r.id === transcript.currentRevisionId)
+    : -1;
+  const discarded = history.slice(currentPosition + 1).map((r) => r.id);
+
+  // Prune the oldest revisions beyond the cap
+  const kept = history.length - discarded.length;
+  const overflow = Math.max(0, kept + 1 - MAX_TRANSCRIPT_REVISIONS);
+  const pruned = history.slice(0, overflow).map((r) => r.id);
+
+  await db.transcriptRevisions.bulkDelete([...pruned, ...discarded]);
+  await db.transcriptRevisions.add(revision);
 }
 
 /**
- * Deletes a custom template by ID
+ * Applies a manual segment edit and records it as a new revision
  *
- * Only custom templates (isCustom === true) can be deleted.
- * Also deletes all associated analyses to maintain referential integrity.
+ * Captures the original machine output on the first edit, discards any
+ * revisions ahead of the current one (after an undo), appends the new
+ * revision and updates the transcript's segments and text.
  *
- * @param id - The template ID to delete
- * @throws {DatabaseError} If the template is not custom or deletion fails
+ * @param revision - The revision to record (segments are the post-edit state)
+ * @param text - Full transcript text rebuilt from the new segments
+ * @throws {DatabaseError} If the transcript does not exist or the save fails
  */
-export async function deleteTemplate(id: string): Promise<void> {
+export async function applyTranscriptRevision(
+  revision: TranscriptRevision,
+  text: string
+): Promise<void> {
   try {
     const db = getDatabase();
+    const notFound = () => new DatabaseError(
+      `Transcript with ID ${revision.transcriptId} not found`,
+      'NOT_FOUND'
+    );
+    const revisedFields = (transcript: Transcript) => ({
+      segments: revision.segments,
+      text,
+      originalSegments: transcript.originalSegments ?? transcript.segments,
+      currentRevisionId: revision.id,
+      updatedAt: revision.createdAt,
+    });
 
-    // Check if template exists and is custom
-    const template = await db.templates.get(id);
+    const remote = getRemoteStorage();
+    if (remote) {
+      // Edit history stays in the browser; the transcript lives on the server
+      const transcript = await remote.getTranscript(revision.transcriptId);
+      if (!transcript) {
+        throw notFound();
+      }
+      await db.transaction('rw', db.transcriptRevisions, () => addRevision(db, transcript, revision));
+      await remote.updateTranscript(revision.transcriptId, revisedFields(transcript));
+      return;
+    }
+
+    await db.transaction('rw', [db.transcripts, db.transcriptRevisions, db.searchTerms, db.searchDocs], async () => {
+      const transcript = await db.transcripts.get(revision.transcriptId);
+      if (!transcript) {
+        throw notFound();
+      }
+
+      await addRevision(db, transcript, revision);
+      await db.transcripts.update(revision.transcriptId, revisedFields(transcript));
+      await writeSearchIndex(db, { ...transcript, segments: revision.segments, text });
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      throw new DatabaseError(
+        'Storage quota exceeded. Please delete some transcripts to free up space.',
+        'QUOTA_EXCEEDED',
+        error
+      );
+    }
+    throw new DatabaseError(
+      `Failed to save revision for transcript ID: ${revision.transcriptId}`,
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Moves a transcript to a revision in its history (used for undo/redo)
+ *
+ * The revision history itself is left untouched so the move can be reversed.
+ *
+ * @param transcriptId - The transcript ID
+ * @param revisionId - Revision to apply, or null to restore the original machine output
+ * @param segments - Segments of the target revision
+ * @param text - Full transcript text rebuilt from those segments
+ * @throws {DatabaseError} If the update operation fails
+ */
+export async function setTranscriptRevision(
+  transcriptId: string,
+  revisionId: string | null,
+  segments: TranscriptSegment[],
+  text: string
+): Promise<void> {
+  try {
+    const updates = {
+      segments,
+      text,
+      currentRevisionId: revisionId ?? undefined,
+      updatedAt: new Date(),
+    };
+
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.updateTranscript(transcriptId, updates);
+      return;
+    }
+
+    const db = getDatabase();
+    await db.transaction('rw', [db.transcripts, db.searchTerms, db.searchDocs], async () => {
+      await db.transcripts.update(transcriptId, updates);
+
+      const transcript = await db.transcripts.get(transcriptId);
+      if (transcript) {
+        await writeSearchIndex(db, transcript);
+      }
+    });
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to restore revision for transcript ID: ${transcriptId}`,
+      'UPDATE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// ============================================================================
+// TEMPLATE OPERATIONS
+// ============================================================================
+
+/**
+ * Records the revisions for a template that is about to be saved (see
+ * `planTemplateRevisions`). Must be called inside a transaction that
+ * includes the template revisions table.
+ *
+ * @returns The version the saved template will have
+ */
+async function recordTemplateRevision(
+  db: MeetingTranscriberDB,
+  template: Template,
+  previous: Template | undefined
+): Promise<number> {
+  const latest = await db.templateRevisions
+    .where('[templateId+version]')
+    .between([template.id, Dexie.minKey], [template.id, Dexie.maxKey])
+    .last();
+
+  const { revisions, version } = planTemplateRevisions(template, latest, previous);
+  await db.templateRevisions.bulkAdd(revisions);
+  return version;
+}
+
+/**
+ * Deletes the data of a template kept in IndexedDB: revisions and test
+ * bench data
+ */
+async function removeLocalTemplateData(db: MeetingTranscriberDB, id: string): Promise<void> {
+  await db.transaction('rw', [db.templateRevisions, db.templateBenchRuns, db.templateGoldenOutputs], async () => {
+    await db.templateRevisions.where('templateId').equals(id).delete();
+    await db.templateBenchRuns.where('templateId').equals(id).delete();
+    await db.templateGoldenOutputs.where('templateId').equals(id).delete();
+  });
+}
+
+/**
+ * Saves a template to the database
+ *
+ * Every save that changes the template's content records an immutable
+ * revision and bumps the template's version. When templates live on the
+ * server, so do their revisions.
+ *
+ * @param template - The template to save
+ * @returns The saved template's ID
+ * @throws {DatabaseError} If the save operation fails
+ */
+export async function saveTemplate(template: Template): Promise<string> {
+  try {
+    const db = getDatabase();
+    const remote = getRemoteStorage();
+
+    // Ensure dates are Date objects
+    const createdAt = template.createdAt instanceof Date
+      ? template.createdAt
+      : new Date(template.createdAt);
+
+    if (remote) {
+      const [previous, revisions] = await Promise.all([
+        remote.getTemplate(template.id),
+        remote.getTemplateRevisions(template.id),
+      ]);
+      const plan = planTemplateRevisions({ ...template, createdAt }, revisions[revisions.length - 1], previous);
+      await remote.saveTemplateRevisions(template.id, plan.revisions);
+      await remote.saveTemplate({ ...template, createdAt, version: plan.version });
+      return template.id;
+    }
+
+    const previous = await db.templates.get(template.id);
+    const version = await db.transaction('rw', db.templateRevisions, () =>
+      recordTemplateRevision(db, { ...template, createdAt }, previous)
+    );
+    await db.templates.put({ ...template, createdAt, version });
+    return template.id;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      throw new DatabaseError(
+        'Storage quota exceeded. Please delete some templates to free up space.',
+        'QUOTA_EXCEEDED',
+        error
+      );
+    }
+    throw new DatabaseError(
+      'Failed to save template',
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves a template by ID
+ *
+ * @param id - The template ID
+ * @returns The template if found, undefined otherwise
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getTemplate(id: string): Promise<Template | undefined> {
+  try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.getTemplate(id);
+    }
+
+    const db = getDatabase();
+    return await db.templates.get(id);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve template with ID: ${id}`,
+      'GET_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves all templates
+ *
+ * @returns Array of all templates
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getAllTemplates(): Promise<Template[]> {
+  try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.getAllTemplates();
+    }
+
+    const db = getDatabase();
+    return await db.templates.toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to retrieve templates',
+      'GET_ALL_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Deletes a custom template by ID
+ *
+ * Only custom templates (isCustom === true) can be deleted.
+ * Also deletes all associated analyses to maintain referential integrity.
+ *
+ * @param id - The template ID to delete
+ * @throws {DatabaseError} If the template is not custom or deletion fails
+ */
+export async function deleteTemplate(id: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.deleteTemplate(id);
+      await removeLocalTemplateData(db, id);
+      return;
+    }
+
+    // Check if template exists and is custom
+    const template = await db.templates.get(id);
 
     if (!template) {
       throw new DatabaseError(
@@ -635,12 +1424,15 @@ export async function deleteTemplate(id: string): Promise<void> {
     }
 
     // Use a transaction to ensure both deletions succeed or fail together
-    await db.transaction('rw', [db.templates, db.analyses], async () => {
-      // Delete the template
+    await db.transaction('rw', [db.templates, db.templateRevisions, db.templateBenchRuns, db.templateGoldenOutputs, db.analyses, db.actionItems], async () => {
+      // Delete the template, its revision history and test bench data
       await db.templates.delete(id);
+      await removeLocalTemplateData(db, id);
 
-      // Delete all associated analyses
-      await db.analyses.where('templateId').equals(id).delete();
+      // Delete all associated analyses and the action items tracked from them
+      const analysisIds = await db.analyses.where('templateId').equals(id).primaryKeys();
+      await db.analyses.bulkDelete(analysisIds);
+      await db.actionItems.where('analysisId').anyOf(analysisIds).delete();
     });
   } catch (error) {
     if (error instanceof DatabaseError) {
@@ -654,6 +1446,135 @@ export async function deleteTemplate(id: string): Promise<void> {
   }
 }
 
+/**
+ * Retrieves a template's revision history, oldest first
+ *
+ * @param templateId - The template ID
+ * @returns Array of revisions in version order
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getTemplateRevisions(templateId: string): Promise<TemplateRevision[]> {
+  try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.getTemplateRevisions(templateId);
+    }
+
+    const db = getDatabase();
+    return await db.templateRevisions
+      .where('[templateId+version]')
+      .between([templateId, Dexie.minKey], [templateId, Dexie.maxKey])
+      .toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve revisions for template ID: ${templateId}`,
+      'GET_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// ============================================================================
+// TEMPLATE TEST BENCH OPERATIONS
+// ============================================================================
+
+/**
+ * Saves a template test bench run
+ *
+ * @param run - The run to save
+ * @throws {DatabaseError} If the save operation fails
+ */
+export async function saveTemplateBenchRun(run: TemplateBenchRun): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.templateBenchRuns.put(run);
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to save test bench run',
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves a template's test bench runs, oldest first
+ *
+ * @param templateId - The template ID
+ * @returns Array of runs sorted by creation time
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getTemplateBenchRuns(templateId: string): Promise<TemplateBenchRun[]> {
+  try {
+    const db = getDatabase();
+    return await db.templateBenchRuns.where('templateId').equals(templateId).sortBy('createdAt');
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve test bench runs for template ID: ${templateId}`,
+      'GET_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Saves a golden output, replacing any saved for the same section and transcript
+ *
+ * @param output - The golden output to save
+ * @throws {DatabaseError} If the save operation fails
+ */
+export async function saveTemplateGoldenOutput(output: TemplateGoldenOutput): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.templateGoldenOutputs.put(output);
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to save golden output',
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Deletes a golden output
+ *
+ * @param id - The golden output ID
+ * @throws {DatabaseError} If the deletion fails
+ */
+export async function deleteTemplateGoldenOutput(id: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.templateGoldenOutputs.delete(id);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to delete golden output with ID: ${id}`,
+      'DELETE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves the golden outputs saved for a template
+ *
+ * @param templateId - The template ID
+ * @returns Array of golden outputs
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getTemplateGoldenOutputs(templateId: string): Promise<TemplateGoldenOutput[]> {
+  try {
+    const db = getDatabase();
+    return await db.templateGoldenOutputs.where('templateId').equals(templateId).toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve golden outputs for template ID: ${templateId}`,
+      'GET_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 // ============================================================================
 // ANALYSIS OPERATIONS
 // ============================================================================
@@ -669,15 +1590,37 @@ export async function saveAnalysis(analysis: Analysis): Promise<string> {
   try {
     const db = getDatabase();
 
+    // Relative deadlines ("next Friday") are resolved against the meeting date
+    const transcript = await getTranscript(analysis.transcriptId);
+    const createdAt = analysis.createdAt instanceof Date
+      ? analysis.createdAt
+      : new Date(analysis.createdAt);
+    const meetingDate = transcript ? getMeetingDate(transcript) : createdAt;
+
     // Ensure dates are Date objects
     const analysisToSave: Analysis = {
       ...analysis,
-      createdAt: analysis.createdAt instanceof Date
-        ? analysis.createdAt
-        : new Date(analysis.createdAt)
+      createdAt,
+      results: analysis.results.actionItems
+        ? {
+            ...analysis.results,
+            actionItems: resolveActionItemDeadlines(analysis.results.actionItems, meetingDate),
+          }
+        : analysis.results,
     };
 
-    await db.analyses.put(analysisToSave);
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.saveAnalysis(analysisToSave);
+      // Action items are tracked in the browser, like chat history
+      await db.transaction('rw', db.actionItems, () => writeActionItems(db, analysisToSave, meetingDate));
+      return analysis.id;
+    }
+
+    await db.transaction('rw', [db.analyses, db.actionItems], async () => {
+      await db.analyses.put(analysisToSave);
+      await writeActionItems(db, analysisToSave, meetingDate);
+    });
     return analysis.id;
   } catch (error) {
     if (error instanceof Error && error.name === 'QuotaExceededError') {
@@ -704,6 +1647,11 @@ export async function saveAnalysis(analysis: Analysis): Promise<string> {
  */
 export async function getAnalysisByTranscript(transcriptId: string): Promise<Analysis[]> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return (await remote.listAnalyses(transcriptId, { orderDirection: 'asc' })).items;
+    }
+
     const db = getDatabase();
     return await db.analyses
       .where('transcriptId')
@@ -757,6 +1705,11 @@ export async function getAnalysesPaginated(
       orderDirection = 'desc',
     } = options;
 
+    const remote = getRemoteStorage();
+    if (remote) {
+      return await remote.listAnalyses(transcriptId, { limit, offset, orderDirection });
+    }
+
     const db = getDatabase();
 
     // Use compound index [transcriptId+createdAt] for efficient filtering
@@ -811,7 +1764,19 @@ export async function getAnalysesPaginated(
 export async function deleteAnalysis(id: string): Promise<void> {
   try {
     const db = getDatabase();
-    await db.analyses.delete(id);
+
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.deleteAnalyses([id]);
+      await db.actionItems.where('analysisId').equals(id).delete();
+      return;
+    }
+
+    await db.transaction('rw', [db.analyses, db.actionItems], async () => {
+      await db.analyses.delete(id);
+      // Items re-linked to a newer run of the analysis are kept
+      await db.actionItems.where('analysisId').equals(id).delete();
+    });
   } catch (error) {
     throw new DatabaseError(
       `Failed to delete analysis with ID: ${id}`,
@@ -858,8 +1823,19 @@ export async function saveTranscriptsBulk(transcripts: Transcript[]): Promise<nu
         : new Date(transcript.createdAt)
     }));
 
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.saveTranscripts(transcriptsToSave);
+      return transcriptsToSave.length;
+    }
+
     // bulkPut is much faster than multiple put() calls
-    await db.transcripts.bulkPut(transcriptsToSave);
+    await db.transaction('rw', [db.transcripts, db.searchTerms, db.searchDocs], async () => {
+      await db.transcripts.bulkPut(transcriptsToSave);
+      for (const transcript of transcriptsToSave) {
+        await writeSearchIndex(db, transcript);
+      }
+    });
 
     return transcriptsToSave.length;
   } catch (error) {
@@ -901,6 +1877,20 @@ export async function deleteOldTranscripts(daysOld: number): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysOld);
 
+    const remote = getRemoteStorage();
+    if (remote) {
+      const { items } = await remote.listTranscripts({ orderDirection: 'asc' });
+      const ids = items
+        .filter((transcript) => transcript.createdAt < cutoffDate)
+        .map((transcript) => transcript.id);
+      if (ids.length === 0) {
+        return 0;
+      }
+      const deleted = await remote.deleteTranscripts(ids);
+      await removeLocalTranscriptData(db, ids);
+      return deleted;
+    }
+
     // Get IDs of transcripts to delete
     const idsToDelete = await db.transcripts
       .where('createdAt')
@@ -912,13 +1902,15 @@ export async function deleteOldTranscripts(daysOld: number): Promise<number> {
     }
 
     // Use transaction to ensure both deletions succeed or fail together
-    await db.transaction('rw', [db.transcripts, db.analyses], async () => {
-      // Delete transcripts
+    await db.transaction('rw', [db.transcripts, db.analyses, db.actionItems, db.searchTerms, db.searchDocs], async () => {
+      // Delete transcripts and their search index rows
       await db.transcripts.bulkDelete(idsToDelete);
+      await removeSearchIndex(db, idsToDelete);
 
-      // Delete all associated analyses
+      // Delete all associated analyses and tracked action items
       for (const transcriptId of idsToDelete) {
         await db.analyses.where('transcriptId').equals(transcriptId).delete();
+        await db.actionItems.where('transcriptId').equals(transcriptId).delete();
       }
     });
 
@@ -955,7 +1947,18 @@ export async function deleteAnalysesBulk(analysisIds: string[]): Promise<number>
     }
 
     const db = getDatabase();
-    await db.analyses.bulkDelete(analysisIds);
+
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.deleteAnalyses(analysisIds);
+      await db.actionItems.where('analysisId').anyOf(analysisIds).delete();
+      return analysisIds.length;
+    }
+
+    await db.transaction('rw', [db.analyses, db.actionItems], async () => {
+      await db.analyses.bulkDelete(analysisIds);
+      await db.actionItems.where('analysisId').anyOf(analysisIds).delete();
+    });
 
     return analysisIds.length;
   } catch (error) {
@@ -1137,54 +2140,323 @@ export async function updateConversation(
 }
 
 /**
- * Deletes a conversation by ID
+ * Deletes a conversation by ID
+ *
+ * @param conversationId - The conversation ID to delete
+ * @throws {DatabaseError} If the deletion operation fails
+ *
+ * @example
+ * ```typescript
+ * await deleteConversation('conversation-123');
+ * ```
+ */
+export async function deleteConversation(conversationId: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.conversations.delete(conversationId);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to delete conversation with ID: ${conversationId}`,
+      'DELETE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves all conversations, sorted by most recently updated
+ *
+ * Useful for displaying a list of recent Q&A sessions.
+ *
+ * @returns Array of all conversations
+ * @throws {DatabaseError} If the retrieval operation fails
+ *
+ * @example
+ * ```typescript
+ * const conversations = await getAllConversations();
+ * console.log(`Found ${conversations.length} conversations`);
+ * ```
+ */
+export async function getAllConversations(): Promise<Conversation[]> {
+  try {
+    const db = getDatabase();
+    return await db.conversations
+      .orderBy('updatedAt')
+      .reverse()
+      .toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to retrieve conversations',
+      'GET_ALL_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// ============================================================================
+// LIBRARY CONVERSATION OPERATIONS
+// ============================================================================
+
+/**
+ * Normalizes dates on a library conversation and its messages
+ */
+function normalizeLibraryConversation(conversation: LibraryConversation): LibraryConversation {
+  const toDate = (value: Date | string | undefined) =>
+    value === undefined || value instanceof Date ? value : new Date(value);
+
+  return {
+    ...conversation,
+    filters: {
+      ...conversation.filters,
+      from: toDate(conversation.filters.from),
+      to: toDate(conversation.filters.to),
+    },
+    createdAt: toDate(conversation.createdAt) as Date,
+    updatedAt: toDate(conversation.updatedAt) as Date,
+    messages: conversation.messages.map(msg => ({
+      ...msg,
+      timestamp: toDate(msg.timestamp) as Date,
+    })),
+  };
+}
+
+/**
+ * Saves a library conversation to the database
+ *
+ * Library conversations ask questions across many transcripts and are
+ * stored apart from per-transcript conversations (client-side only).
+ *
+ * @param conversation - The conversation to save
+ * @returns The saved conversation's ID
+ * @throws {DatabaseError} If the save operation fails
+ */
+export async function saveLibraryConversation(conversation: LibraryConversation): Promise<string> {
+  try {
+    const db = getDatabase();
+    await db.libraryConversations.put(normalizeLibraryConversation(conversation));
+    return conversation.id;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      throw new DatabaseError(
+        'Storage quota exceeded. Please delete some conversations to free up space.',
+        'QUOTA_EXCEEDED',
+        error
+      );
+    }
+    throw new DatabaseError(
+      'Failed to save library conversation',
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves a library conversation by ID
+ *
+ * @param conversationId - The conversation ID
+ * @returns The conversation if found, undefined otherwise
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getLibraryConversation(
+  conversationId: string
+): Promise<LibraryConversation | undefined> {
+  try {
+    const db = getDatabase();
+    return await db.libraryConversations.get(conversationId);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve library conversation with ID: ${conversationId}`,
+      'GET_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Updates a library conversation's messages
+ *
+ * @param conversationId - The conversation ID to update
+ * @param messages - The new messages array
+ * @throws {DatabaseError} If the update operation fails
+ */
+export async function updateLibraryConversation(
+  conversationId: string,
+  messages: import('../types/chat').ChatMessage[]
+): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    const normalizedMessages = messages.map(msg => ({
+      ...msg,
+      timestamp: msg.timestamp instanceof Date
+        ? msg.timestamp
+        : new Date(msg.timestamp),
+    }));
+
+    await db.libraryConversations.update(conversationId, {
+      messages: normalizedMessages,
+      updatedAt: new Date(),
+    });
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to update library conversation with ID: ${conversationId}`,
+      'UPDATE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Deletes a library conversation by ID
+ *
+ * @param conversationId - The conversation ID to delete
+ * @throws {DatabaseError} If the deletion operation fails
+ */
+export async function deleteLibraryConversation(conversationId: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.libraryConversations.delete(conversationId);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to delete library conversation with ID: ${conversationId}`,
+      'DELETE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves all library conversations, most recently updated first
+ *
+ * @returns Array of all library conversations
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getAllLibraryConversations(): Promise<LibraryConversation[]> {
+  try {
+    const db = getDatabase();
+    return await db.libraryConversations
+      .orderBy('updatedAt')
+      .reverse()
+      .toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to retrieve library conversations',
+      'GET_ALL_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+// ============================================================================
+// ACTION ITEM OPERATIONS
+// ============================================================================
+
+/**
+ * Retrieves all tracked action items
+ *
+ * Items are created and updated when analyses are saved; see
+ * `mergeAnalysisActionItems` in `lib/action-items`.
+ *
+ * @returns Array of all tracked action items (unsorted)
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getAllActionItems(): Promise<TrackedActionItem[]> {
+  try {
+    const db = getDatabase();
+    return await db.actionItems.toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to retrieve action items',
+      'GET_ALL_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves the tracked action items of a transcript
+ *
+ * @param transcriptId - The transcript ID
+ * @returns Array of the transcript's tracked action items
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getActionItemsByTranscript(transcriptId: string): Promise<TrackedActionItem[]> {
+  try {
+    const db = getDatabase();
+    return await db.actionItems.where('transcriptId').equals(transcriptId).toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to retrieve action items for transcript ID: ${transcriptId}`,
+      'GET_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Updates the status, owner or due date of a tracked action item
  *
- * @param conversationId - The conversation ID to delete
- * @throws {DatabaseError} If the deletion operation fails
+ * Marking an item done records when it was completed; reopening it
+ * clears that time. `undefined` clears the owner or due date. A due date
+ * set here is kept when the meeting's deadlines are resolved again.
  *
- * @example
- * ```typescript
- * await deleteConversation('conversation-123');
- * ```
+ * @param id - The action item ID to update
+ * @param updates - Fields to change
+ * @throws {DatabaseError} If the item does not exist or the update fails
  */
-export async function deleteConversation(conversationId: string): Promise<void> {
+export async function updateActionItem(id: string, updates: ActionItemUpdate): Promise<void> {
   try {
     const db = getDatabase();
-    await db.conversations.delete(conversationId);
+
+    await db.transaction('rw', db.actionItems, async () => {
+      const item = await db.actionItems.get(id);
+      if (!item) {
+        throw new DatabaseError(`Action item with ID ${id} not found`, 'NOT_FOUND');
+      }
+
+      const now = new Date();
+      const updated: TrackedActionItem = { ...item, ...updates, updatedAt: now };
+      if ('owner' in updates) {
+        updated.ownerEdited = true;
+      }
+      if ('dueDate' in updates) {
+        updated.dueDateEdited = true;
+        updated.deadlineConfidence = undefined;
+      }
+      if (updates.status && updates.status !== item.status) {
+        updated.completedAt = updates.status === 'done' ? now : undefined;
+      }
+      await db.actionItems.put(updated);
+    });
   } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
     throw new DatabaseError(
-      `Failed to delete conversation with ID: ${conversationId}`,
-      'DELETE_FAILED',
+      `Failed to update action item with ID: ${id}`,
+      'UPDATE_FAILED',
       error instanceof Error ? error : undefined
     );
   }
 }
 
 /**
- * Retrieves all conversations, sorted by most recently updated
+ * Deletes a tracked action item
  *
- * Useful for displaying a list of recent Q&A sessions.
- *
- * @returns Array of all conversations
- * @throws {DatabaseError} If the retrieval operation fails
+ * The item is created again if its analysis is re-run and still lists it.
  *
- * @example
- * ```typescript
- * const conversations = await getAllConversations();
- * console.log(`Found ${conversations.length} conversations`);
- * ```
+ * @param id - The action item ID to delete
+ * @throws {DatabaseError} If the deletion operation fails
  */
-export async function getAllConversations(): Promise<Conversation[]> {
+export async function deleteActionItem(id: string): Promise<void> {
   try {
     const db = getDatabase();
-    return await db.conversations
-      .orderBy('updatedAt')
-      .reverse()
-      .toArray();
+    await db.actionItems.delete(id);
   } catch (error) {
     throw new DatabaseError(
-      'Failed to retrieve conversations',
-      'GET_ALL_FAILED',
+      `Failed to delete action item with ID: ${id}`,
+      'DELETE_FAILED',
       error instanceof Error ? error : undefined
     );
   }
@@ -1390,6 +2662,206 @@ export async function updateRecordingStatus(
   }
 }
 
+// ============================================================================
+// RECORDING SESSION OPERATIONS
+// ============================================================================
+
+/**
+ * Creates or replaces a recording session
+ *
+ * Called when recording starts, before any chunk is written. Sessions are
+ * always stored in this browser, whatever the storage backend.
+ *
+ * @param session - The session to save
+ * @throws {DatabaseError} If the save operation fails
+ */
+export async function saveRecordingSession(session: RecordingSession): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.recordingSessions.put(session);
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to save recording session with ID: ${session.id}`,
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Appends a chunk to a recording session
+ *
+ * Writes the chunk and the session's running totals in one transaction,
+ * so a recovered session's duration always matches its chunks.
+ *
+ * @param chunk - The chunk to write
+ * @param duration - Seconds of active recording up to the end of this chunk
+ * @throws {DatabaseError} If the session does not exist or the write fails
+ */
+export async function appendRecordingChunk(
+  chunk: RecordingSessionChunk,
+  duration: number
+): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    await db.transaction('rw', [db.recordingSessions, db.recordingChunks], async () => {
+      const session = await db.recordingSessions.get(chunk.sessionId);
+      if (!session) {
+        throw new DatabaseError(
+          `Recording session with ID ${chunk.sessionId} not found`,
+          'NOT_FOUND'
+        );
+      }
+
+      await db.recordingChunks.put(chunk);
+      await db.recordingSessions.put({
+        ...session,
+        updatedAt: new Date(),
+        duration,
+        chunkCount: Math.max(session.chunkCount, chunk.seq + 1),
+        size: session.size + chunk.blob.size,
+      });
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      throw new DatabaseError(
+        'Storage quota exceeded. The rest of this recording cannot be saved for recovery.',
+        'QUOTA_EXCEEDED',
+        error
+      );
+    }
+    throw new DatabaseError(
+      `Failed to save chunk ${chunk.seq} of recording session ${chunk.sessionId}`,
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Retrieves all recording sessions, oldest first
+ *
+ * @returns Array of recording sessions
+ * @throws {DatabaseError} If the retrieval operation fails
+ */
+export async function getRecordingSessions(): Promise<RecordingSession[]> {
+  try {
+    const db = getDatabase();
+    return await db.recordingSessions.orderBy('startedAt').toArray();
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to retrieve recording sessions',
+      'GET_ALL_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Deletes a recording session and all of its chunks
+ *
+ * @param id - The session ID to delete
+ * @throws {DatabaseError} If the deletion operation fails
+ */
+export async function deleteRecordingSession(id: string): Promise<void> {
+  try {
+    const db = getDatabase();
+    await db.transaction('rw', [db.recordingSessions, db.recordingChunks], async () => {
+      await db.recordingChunks.where('sessionId').equals(id).delete();
+      await db.recordingSessions.delete(id);
+    });
+  } catch (error) {
+    throw new DatabaseError(
+      `Failed to delete recording session with ID: ${id}`,
+      'DELETE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Turns an interrupted recording session into a saved recording
+ *
+ * Concatenates the session's chunks in order into a single playable blob,
+ * saves it with the session's persisted duration (MediaRecorder output
+ * has no reliable duration header), and removes the session.
+ *
+ * @param id - The session ID to recover
+ * @param name - Name for the recovered recording
+ * @returns The ID of the new recording
+ * @throws {DatabaseError} If the session does not exist, has no audio, or the write fails
+ *
+ * @example
+ * ```typescript
+ * const [session] = await getRecordingSessions();
+ * const recordingId = await recoverRecordingSession(session.id, 'Recovered recording');
+ * ```
+ */
+export async function recoverRecordingSession(id: string, name?: string): Promise<number> {
+  try {
+    const db = getDatabase();
+
+    return await db.transaction(
+      'rw',
+      [db.recordingSessions, db.recordingChunks, db.recordings],
+      async () => {
+        const session = await db.recordingSessions.get(id);
+        if (!session) {
+          throw new DatabaseError(`Recording session with ID ${id} not found`, 'NOT_FOUND');
+        }
+
+        // Compound primary key keeps the chunks in seq order
+        const chunks = await db.recordingChunks
+          .where('[sessionId+seq]')
+          .between([id, Dexie.minKey], [id, Dexie.maxKey])
+          .toArray();
+        if (chunks.length === 0) {
+          throw new DatabaseError(`Recording session ${id} has no audio to recover`, 'EMPTY_SESSION');
+        }
+
+        const blob = new Blob(chunks.map((chunk) => chunk.blob), { type: session.mimeType });
+        const recordingId = await db.recordings.add({
+          blob,
+          metadata: {
+            mode: session.mode,
+            duration: session.duration,
+            size: blob.size,
+            mimeType: session.mimeType,
+            createdAt: session.startedAt,
+          },
+          status: 'saved',
+          name,
+        });
+
+        await db.recordingChunks.where('sessionId').equals(id).delete();
+        await db.recordingSessions.delete(id);
+
+        return recordingId;
+      }
+    );
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      throw new DatabaseError(
+        'Storage quota exceeded. Please delete some recordings to free up space.',
+        'QUOTA_EXCEEDED',
+        error
+      );
+    }
+    throw new DatabaseError(
+      `Failed to recover recording session with ID: ${id}`,
+      'SAVE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 // ============================================================================
 // STORAGE MONITORING
 // ============================================================================
@@ -1513,6 +2985,319 @@ export async function deleteDatabase(): Promise<void> {
   }
 }
 
+// ============================================================================
+// BACKUP AND RESTORE
+// ============================================================================
+
+/**
+ * All user data in the library, as written to and read from backup archives
+ */
+export interface LibraryRecords {
+  transcripts: Transcript[];
+  analyses: Analysis[];
+  conversations: Conversation[];
+  /** Custom templates only; built-in templates are seeded on startup */
+  templates: Template[];
+  recordings: SavedRecording[];
+  audioFiles: AudioFileEntry[];
+  transcriptRevisions: TranscriptRevision[];
+  libraryConversations: LibraryConversation[];
+  actionItems: TrackedActionItem[];
+  templateRevisions: TemplateRevision[];
+  templateBenchRuns: TemplateBenchRun[];
+  templateGoldenOutputs: TemplateGoldenOutput[];
+}
+
+/**
+ * Keys of records already in the library, used to resolve restore conflicts
+ */
+export interface LibraryKeys {
+  transcriptIds: Set<string>;
+  analysisIds: Set<string>;
+  conversationIds: Set<string>;
+  /** Transcripts that already have a conversation (one per transcript) */
+  conversationTranscriptIds: Set<string>;
+  templateIds: Set<string>;
+  revisionIds: Set<string>;
+  /** Transcripts that already have stored audio */
+  audioTranscriptIds: Set<string>;
+  /** Creation times (ms) of saved recordings, which have no stable ID */
+  recordingCreatedAt: Set<number>;
+  libraryConversationIds: Set<string>;
+  actionItemIds: Set<string>;
+  templateRevisionIds: Set<string>;
+  templateBenchRunIds: Set<string>;
+  templateGoldenOutputIds: Set<string>;
+}
+
+/**
+ * How restored records are combined with the existing library
+ *
+ * - 'merge': keep existing records and add the backup's records
+ * - 'replace': delete all user data first, then write the backup's records
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Returns the schema version of MeetingTranscriberDB this build declares
+ */
+export function getDatabaseVersion(): number {
+  return getDatabase().verno;
+}
+
+/**
+ * Reads every user record in the library for backup
+ *
+ * Built-in templates are excluded because they are re-seeded on startup.
+ * Transcript audio URLs are dropped since object URLs don't outlive the page.
+ *
+ * @returns All user records, including audio and recording blobs
+ * @throws {DatabaseError} If the read fails
+ */
+export async function getLibraryRecords(): Promise<LibraryRecords> {
+  try {
+    const db = getDatabase();
+
+    return await db.transaction(
+      'r',
+      [
+        db.transcripts,
+        db.analyses,
+        db.conversations,
+        db.templates,
+        db.recordings,
+        db.audioFiles,
+        db.transcriptRevisions,
+        db.libraryConversations,
+        db.actionItems,
+        db.templateRevisions,
+        db.templateBenchRuns,
+        db.templateGoldenOutputs,
+      ],
+      async () => {
+        const [
+          transcripts,
+          analyses,
+          conversations,
+          templates,
+          recordings,
+          audioFiles,
+          transcriptRevisions,
+          libraryConversations,
+          actionItems,
+          templateRevisions,
+          templateBenchRuns,
+          templateGoldenOutputs,
+        ] = await Promise.all([
+          db.transcripts.toArray(),
+          db.analyses.toArray(),
+          db.conversations.toArray(),
+          db.templates.filter((template) => template.isCustom).toArray(),
+          db.recordings.toArray(),
+          db.audioFiles.toArray(),
+          db.transcriptRevisions.toArray(),
+          db.libraryConversations.toArray(),
+          db.actionItems.toArray(),
+          db.templateRevisions.toArray(),
+          db.templateBenchRuns.toArray(),
+          db.templateGoldenOutputs.toArray(),
+        ]);
+
+        return {
+          transcripts: transcripts.map((transcript) => ({ ...transcript, audioUrl: undefined })),
+          analyses,
+          conversations,
+          templates,
+          recordings,
+          audioFiles,
+          transcriptRevisions,
+          libraryConversations,
+          actionItems,
+          templateRevisions,
+          templateBenchRuns,
+          templateGoldenOutputs,
+        };
+      }
+    );
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to read library for backup',
+      'BACKUP_READ_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Collects the keys of existing records so a merge can detect conflicts
+ *
+ * @returns Sets of existing IDs per table
+ * @throws {DatabaseError} If the read fails
+ */
+export async function getLibraryKeys(): Promise<LibraryKeys> {
+  try {
+    const db = getDatabase();
+
+    const [
+      transcriptIds,
+      analysisIds,
+      conversations,
+      templateIds,
+      revisionIds,
+      audioTranscriptIds,
+      recordings,
+      libraryConversationIds,
+      actionItemIds,
+      templateRevisionIds,
+      templateBenchRunIds,
+      templateGoldenOutputIds,
+    ] = await Promise.all([
+      db.transcripts.toCollection().primaryKeys(),
+      db.analyses.toCollection().primaryKeys(),
+      db.conversations.toArray(),
+      db.templates.toCollection().primaryKeys(),
+      db.transcriptRevisions.toCollection().primaryKeys(),
+      db.audioFiles.toCollection().primaryKeys(),
+      db.recordings.toArray(),
+      db.libraryConversations.toCollection().primaryKeys(),
+      db.actionItems.toCollection().primaryKeys(),
+      db.templateRevisions.toCollection().primaryKeys(),
+      db.templateBenchRuns.toCollection().primaryKeys(),
+      db.templateGoldenOutputs.toCollection().primaryKeys(),
+    ]);
+
+    return {
+      transcriptIds: new Set(transcriptIds),
+      analysisIds: new Set(analysisIds),
+      conversationIds: new Set(conversations.map((conversation) => conversation.id)),
+      conversationTranscriptIds: new Set(conversations.map((conversation) => conversation.transcriptId)),
+      templateIds: new Set(templateIds),
+      revisionIds: new Set(revisionIds),
+      audioTranscriptIds: new Set(audioTranscriptIds),
+      recordingCreatedAt: new Set(
+        recordings.map((recording) => new Date(recording.metadata.createdAt).getTime())
+      ),
+      libraryConversationIds: new Set(libraryConversationIds),
+      actionItemIds: new Set(actionItemIds),
+      templateRevisionIds: new Set(templateRevisionIds),
+      templateBenchRunIds: new Set(templateBenchRunIds),
+      templateGoldenOutputIds: new Set(templateGoldenOutputIds),
+    };
+  } catch (error) {
+    throw new DatabaseError(
+      'Failed to read library keys',
+      'BACKUP_READ_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * Writes restored records to the library in a single transaction
+ *
+ * In 'replace' mode all user data (including custom templates, but not
+ * built-in templates) is deleted first. In 'merge' mode records are written
+ * as given, so conflicts must already be resolved by the caller. Restored
+ * transcripts are re-indexed for search either way. Tracked action items
+ * are restored as archived, with their status and edits; they are only
+ * derived from restored analyses for transcripts the backup has no tracked
+ * items for, such as in backups made before items were archived.
+ *
+ * @param records - Records to write
+ * @param mode - Whether to merge with or replace the existing library
+ * @throws {DatabaseError} If the write fails; nothing is changed in that case
+ */
+export async function restoreLibraryRecords(records: LibraryRecords, mode: RestoreMode): Promise<void> {
+  try {
+    const db = getDatabase();
+
+    await db.transaction(
+      'rw',
+      [
+        db.transcripts,
+        db.analyses,
+        db.conversations,
+        db.templates,
+        db.recordings,
+        db.audioFiles,
+        db.transcriptRevisions,
+        db.libraryConversations,
+        db.templateRevisions,
+        db.templateBenchRuns,
+        db.templateGoldenOutputs,
+        db.actionItems,
+        db.searchTerms,
+        db.searchDocs,
+      ],
+      async () => {
+        if (mode === 'replace') {
+          await Promise.all([
+            db.transcripts.clear(),
+            db.analyses.clear(),
+            db.conversations.clear(),
+            db.recordings.clear(),
+            db.audioFiles.clear(),
+            db.transcriptRevisions.clear(),
+            db.libraryConversations.clear(),
+            db.templateRevisions.clear(),
+            db.templateBenchRuns.clear(),
+            db.templateGoldenOutputs.clear(),
+            db.actionItems.clear(),
+            db.searchTerms.clear(),
+            db.searchDocs.clear(),
+            db.templates.filter((template) => template.isCustom).delete(),
+          ]);
+        }
+
+        await db.transcripts.bulkPut(records.transcripts);
+        await db.analyses.bulkPut(records.analyses);
+        await db.conversations.bulkPut(records.conversations);
+        await db.templates.bulkPut(records.templates);
+        await db.recordings.bulkPut(records.recordings);
+        await db.audioFiles.bulkPut(records.audioFiles);
+        await db.transcriptRevisions.bulkPut(records.transcriptRevisions);
+        await db.libraryConversations.bulkPut(records.libraryConversations);
+        await db.actionItems.bulkPut(records.actionItems);
+        await db.templateRevisions.bulkPut(records.templateRevisions);
+        await db.templateBenchRuns.bulkPut(records.templateBenchRuns);
+        await db.templateGoldenOutputs.bulkPut(records.templateGoldenOutputs);
+
+        for (const transcript of records.transcripts) {
+          await writeSearchIndex(db, transcript);
+        }
+
+        // Track action items of restored analyses, oldest first like the v12 upgrade
+        const meetingDates = new Map(records.transcripts.map((t) => [t.id, getMeetingDate(t)]));
+        const trackedTranscriptIds = new Set(records.actionItems.map((item) => item.transcriptId));
+        const analyses = records.analyses
+          .filter((analysis) => !trackedTranscriptIds.has(analysis.transcriptId))
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        for (const analysis of analyses) {
+          const transcript = meetingDates.has(analysis.transcriptId)
+            ? undefined
+            : await db.transcripts.get(analysis.transcriptId);
+          const meetingDate = meetingDates.get(analysis.transcriptId)
+            ?? (transcript ? getMeetingDate(transcript) : new Date(analysis.createdAt));
+          await writeActionItems(db, analysis, meetingDate);
+        }
+      }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'QuotaExceededError') {
+      throw new DatabaseError(
+        'Storage quota exceeded. Please free up space before restoring this backup.',
+        'QUOTA_EXCEEDED',
+        error
+      );
+    }
+    throw new DatabaseError(
+      'Failed to restore library',
+      'RESTORE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 // ============================================================================
 // SORTED TRANSCRIPT QUERIES
 // ============================================================================
@@ -1544,6 +3329,11 @@ export async function getTranscriptsSorted(
   order: 'asc' | 'desc' = 'desc'
 ): Promise<Transcript[]> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      return (await remote.listTranscripts({ orderBy: sortBy, orderDirection: order })).items;
+    }
+
     const db = getDatabase();
 
     // For nested properties, we need to sort in memory
@@ -1575,7 +3365,7 @@ export async function getTranscriptsSorted(
  * Deletes multiple transcripts in a single transaction
  *
  * More efficient than calling deleteTranscript() multiple times.
- * Also deletes all associated analyses and conversations.
+ * Also deletes all associated analyses, conversations, revisions and action items.
  *
  * @param ids - Array of transcript IDs to delete
  * @returns Number of transcripts deleted
@@ -1596,15 +3386,27 @@ export async function deleteTranscriptsBulk(ids: string[]): Promise<number> {
 
     const db = getDatabase();
 
+    const remote = getRemoteStorage();
+    if (remote) {
+      const deleted = await remote.deleteTranscripts(ids);
+      await removeLocalTranscriptData(db, ids);
+      return deleted;
+    }
+
     // Use a transaction to ensure all deletions succeed or fail together
-    await db.transaction('rw', [db.transcripts, db.analyses, db.conversations], async () => {
-      // Delete transcripts
+    await db.transaction('rw', [db.transcripts, db.analyses, db.conversations, db.transcriptRevisions, db.actionItems, db.templateBenchRuns, db.templateGoldenOutputs, db.searchTerms, db.searchDocs], async () => {
+      // Delete transcripts and their search index rows
       await db.transcripts.bulkDelete(ids);
+      await removeSearchIndex(db, ids);
 
-      // Delete all associated analyses and conversations
+      // Delete all associated analyses, conversations, revisions, action items and bench data
       for (const id of ids) {
         await db.analyses.where('transcriptId').equals(id).delete();
         await db.conversations.where('transcriptId').equals(id).delete();
+        await db.transcriptRevisions.where('transcriptId').equals(id).delete();
+        await db.actionItems.where('transcriptId').equals(id).delete();
+        await db.templateBenchRuns.where('transcriptId').equals(id).delete();
+        await db.templateGoldenOutputs.where('transcriptId').equals(id).delete();
       }
     });
 
@@ -1627,6 +3429,12 @@ export async function deleteTranscriptsBulk(ids: string[]): Promise<number> {
  */
 export async function updateTranscriptSummary(id: string, summary: string): Promise<void> {
   try {
+    const remote = getRemoteStorage();
+    if (remote) {
+      await remote.updateTranscript(id, { summary });
+      return;
+    }
+
     const db = getDatabase();
     await db.transcripts.update(id, { summary });
   } catch (error) {
@@ -1638,5 +3446,62 @@ export async function updateTranscriptSummary(id: string, summary: string): Prom
   }
 }
 
+/**
+ * Sets or clears the date a transcript's meeting took place
+ *
+ * Deadlines of the transcript's analyses and tracked action items are
+ * resolved again against the new date; due dates set by hand are kept.
+ *
+ * @param id - The transcript ID to update
+ * @param meetingDate - Meeting date, or undefined to fall back to the creation date
+ * @throws {DatabaseError} If the transcript does not exist or the update fails
+ */
+export async function updateTranscriptMeetingDate(id: string, meetingDate: Date | undefined): Promise<void> {
+  try {
+    const transcript = await getTranscript(id);
+    if (!transcript) {
+      throw new DatabaseError(`Transcript with ID ${id} not found`, 'NOT_FOUND');
+    }
+
+    await updateTranscript(id, { meetingDate });
+
+    const resolveAgainst = getMeetingDate({ createdAt: transcript.createdAt, meetingDate });
+    const analyses = (await getAnalysisByTranscript(id)).filter(
+      (analysis) => analysis.results.actionItems?.length
+    );
+    const rescheduled = analyses.map((analysis) => ({
+      ...analysis,
+      results: {
+        ...analysis.results,
+        actionItems: resolveActionItemDeadlines(analysis.results.actionItems ?? [], resolveAgainst),
+      },
+    }));
+
+    const db = getDatabase();
+    const remote = getRemoteStorage();
+    if (remote) {
+      for (const analysis of rescheduled) {
+        await remote.saveAnalysis(analysis);
+      }
+    } else {
+      await db.analyses.bulkPut(rescheduled);
+    }
+
+    await db.transaction('rw', db.actionItems, async () => {
+      const items = await db.actionItems.where('transcriptId').equals(id).toArray();
+      await db.actionItems.bulkPut(rescheduleActionItems(items, resolveAgainst));
+    });
+  } catch (error) {
+    if (error instanceof DatabaseError) {
+      throw error;
+    }
+    throw new DatabaseError(
+      `Failed to update meeting date for transcript ID: ${id}`,
+      'UPDATE_FAILED',
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
 // Export the database instance getter as default
 export default getDatabase;
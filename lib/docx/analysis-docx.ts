@@ -0,0 +1,171 @@
+/**
+ * Analysis DOCX Document
+ *
+ * Builds a Word report for analysis results: a heading per section,
+ * real Word tables for table-format sections, evidence citations with
+ * timestamps, and tables for action items and decisions.
+ */
+
+import { Document, Paragraph, TextRun, HeadingLevel } from "docx";
+import { Transcript, Analysis, AnalysisSection } from "@/types";
+import type { Template } from "@/types";
+import { getSpeakerDisplayName } from "@/lib/speaker-roster";
+import {
+  buildDocxFooter,
+  buildTable,
+  contentToBlocks,
+  formatDocxDate,
+  formatDocxTimestamp,
+  metadataParagraphs,
+  type DocxBlock,
+} from "./content";
+
+/**
+ * Options for the analysis document
+ */
+export interface AnalysisDocxOptions {
+  /** Template used for the analysis (name and section output formats) */
+  template?: Template;
+  /** Whether to include evidence citations under each section (default: true) */
+  includeEvidence?: boolean;
+}
+
+/**
+ * Renders one analysis section with its evidence
+ */
+function sectionBlocks(
+  section: AnalysisSection,
+  template: Template | undefined,
+  includeEvidence: boolean
+): DocxBlock[] {
+  const isTable =
+    template?.sections.find((s) => s.name === section.name)?.outputFormat === "table";
+
+  const blocks: DocxBlock[] = [
+    new Paragraph({ text: section.name, heading: HeadingLevel.HEADING_1 }),
+    ...contentToBlocks(section.content, isTable),
+  ];
+
+  if (includeEvidence && section.evidence.length > 0) {
+    blocks.push(new Paragraph({ text: "Evidence", heading: HeadingLevel.HEADING_3 }));
+    for (const evidence of section.evidence) {
+      blocks.push(
+        new Paragraph({
+          bullet: { level: 0 },
+          children: [
+            new TextRun({ text: `“${evidence.text}”`, italics: true }),
+            new TextRun({
+              text: `  [${formatDocxTimestamp(evidence.start)} – ${formatDocxTimestamp(evidence.end)}]`,
+              color: "666666",
+            }),
+          ],
+        })
+      );
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Builds a Word report for an analysis
+ *
+ * @param analysis - Analysis to render
+ * @param transcript - Source transcript (filename and speaker roster)
+ * @param options - Document options
+ * @returns docx Document ready to pack
+ */
+export function buildAnalysisDocument(
+  analysis: Analysis,
+  transcript: Transcript,
+  options: AnalysisDocxOptions = {}
+): Document {
+  const { template, includeEvidence = true } = options;
+  const { summary, sections, actionItems, decisions, quotes } = analysis.results;
+
+  const body: DocxBlock[] = [
+    new Paragraph({ text: "Analysis Report", heading: HeadingLevel.TITLE }),
+    ...metadataParagraphs([
+      ["Source File", transcript.filename],
+      ["Analyzed", formatDocxDate(analysis.createdAt)],
+      ["Template", template?.name],
+      ["Sections", sections.length],
+      ["Action Items", actionItems?.length || undefined],
+      ["Decisions", decisions?.length || undefined],
+    ]),
+  ];
+
+  if (summary) {
+    body.push(
+      new Paragraph({ text: "Executive Summary", heading: HeadingLevel.HEADING_1 }),
+      ...contentToBlocks(summary)
+    );
+  }
+
+  for (const section of sections) {
+    body.push(...sectionBlocks(section, template, includeEvidence));
+  }
+
+  if (actionItems && actionItems.length > 0) {
+    body.push(
+      new Paragraph({ text: "Action Items", heading: HeadingLevel.HEADING_1 }),
+      buildTable(
+        ["Task", "Owner", "Deadline", "Time"],
+        actionItems.map((item) => [
+          item.task,
+          item.owner || "-",
+          item.resolvedDeadline
+            ? `${item.resolvedDeadline.date} (${item.deadline})`
+            : item.deadline || "-",
+          item.timestamp !== undefined ? formatDocxTimestamp(item.timestamp) : "-",
+        ]),
+        [52, 20, 16, 12]
+      )
+    );
+  }
+
+  if (decisions && decisions.length > 0) {
+    body.push(
+      new Paragraph({ text: "Decisions", heading: HeadingLevel.HEADING_1 }),
+      buildTable(
+        ["Time", "Decision", "Context"],
+        decisions.map((decision) => [
+          formatDocxTimestamp(decision.timestamp),
+          decision.decision,
+          decision.context || "-",
+        ]),
+        [12, 48, 40]
+      )
+    );
+  }
+
+  if (quotes && quotes.length > 0) {
+    body.push(new Paragraph({ text: "Notable Quotes", heading: HeadingLevel.HEADING_1 }));
+    for (const quote of quotes) {
+      const speaker = quote.speaker
+        ? `— ${getSpeakerDisplayName(quote.speaker, transcript.speakers)}, `
+        : "";
+      body.push(
+        new Paragraph({
+          spacing: { after: 120 },
+          children: [
+            new TextRun({ text: `“${quote.text}” `, italics: true }),
+            new TextRun({ text: `${speaker}${formatDocxTimestamp(quote.timestamp)}`, color: "666666" }),
+          ],
+        })
+      );
+    }
+  }
+
+  return new Document({
+    creator: "Meeting Transcriber",
+    title: `Analysis - ${transcript.filename}`,
+    description: "Transcript Analysis Report",
+    sections: [
+      {
+        footers: { default: buildDocxFooter(`Analysis Report - ${transcript.filename}`) },
+        children: body,
+      },
+    ],
+  });
+}
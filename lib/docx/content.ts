@@ -0,0 +1,280 @@
+/**
+ * DOCX Content Builders
+ *
+ * Shared building blocks for Word documents: converting the markdown-style
+ * text produced by analysis sections into paragraphs, bullet lists and real
+ * Word tables, plus common table and metadata helpers.
+ */
+
+import {
+  AlignmentType,
+  Footer,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  HeadingLevel,
+  ShadingType,
+  WidthType,
+} from "docx";
+
+/**
+ * Block-level element that can appear in a document section
+ */
+export type DocxBlock = Paragraph | Table;
+
+/**
+ * A parsed markdown table
+ */
+export interface MarkdownTable {
+  header: string[];
+  rows: string[][];
+}
+
+// Fill color for table header rows and zebra striping
+const HEADER_FILL = "E8EEF7";
+const ALT_ROW_FILL = "F7F9FC";
+
+/**
+ * Formats seconds as MM:SS or H:MM:SS
+ */
+export function formatDocxTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Formats a date for document metadata
+ */
+export function formatDocxDate(date: Date): string {
+  return new Intl.DateTimeFormat("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).format(new Date(date));
+}
+
+/**
+ * Splits a markdown table row into trimmed cells
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Whether a line is a markdown table separator row (|---|:---:|)
+ */
+function isSeparatorRow(line: string): boolean {
+  return /^\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?$/.test(line.trim());
+}
+
+/**
+ * Parses markdown table lines into a header and rows
+ *
+ * @param lines - Consecutive lines starting with "|"
+ * @param requireSeparator - Whether a |---| row must follow the header
+ *   (relaxed for sections whose template asks for a table)
+ * @returns Parsed table, or null if the lines are not a table
+ *
+ * @example
+ * parseMarkdownTable(['| Topic | Owner |', '|---|---|', '| Budget | Finance |'])
+ * // { header: ['Topic', 'Owner'], rows: [['Budget', 'Finance']] }
+ */
+export function parseMarkdownTable(
+  lines: string[],
+  requireSeparator = true
+): MarkdownTable | null {
+  if (lines.length < 2 || (requireSeparator && !isSeparatorRow(lines[1]))) {
+    return null;
+  }
+
+  const header = splitTableRow(lines[0]);
+  const rows = lines
+    .slice(1)
+    .filter((line) => !isSeparatorRow(line))
+    .map((line) => {
+      const cells = splitTableRow(line);
+      // Pad or trim so every row matches the header width
+      return header.map((_, i) => cells[i] ?? "");
+    });
+
+  return { header, rows };
+}
+
+/**
+ * Converts inline markdown (**bold**, *italic*) into text runs
+ */
+export function inlineRuns(text: string, base: { bold?: boolean; italics?: boolean } = {}): TextRun[] {
+  const runs: TextRun[] = [];
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*/g;
+  let cursor = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > cursor) {
+      runs.push(new TextRun({ text: text.slice(cursor, match.index), ...base }));
+    }
+    runs.push(
+      match[1] !== undefined
+        ? new TextRun({ text: match[1], ...base, bold: true })
+        : new TextRun({ text: match[2], ...base, italics: true })
+    );
+    cursor = match.index + match[0].length;
+  }
+  if (cursor < text.length) {
+    runs.push(new TextRun({ text: text.slice(cursor), ...base }));
+  }
+
+  return runs;
+}
+
+/**
+ * Builds a Word table with a repeated, shaded header row
+ *
+ * @param header - Column titles
+ * @param rows - Cell text for each row
+ * @param columnWidths - Optional column widths in percent
+ */
+export function buildTable(header: string[], rows: string[][], columnWidths?: number[]): Table {
+  const cell = (text: string, options: { bold?: boolean; fill?: string; width?: number }) =>
+    new TableCell({
+      children: [new Paragraph({ children: inlineRuns(text, { bold: options.bold }) })],
+      ...(options.fill && {
+        shading: { fill: options.fill, type: ShadingType.CLEAR, color: "auto" },
+      }),
+      ...(options.width !== undefined && {
+        width: { size: options.width, type: WidthType.PERCENTAGE },
+      }),
+      margins: { top: 60, bottom: 60, left: 100, right: 100 },
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: header.map((text, i) =>
+          cell(text, { bold: true, fill: HEADER_FILL, width: columnWidths?.[i] })
+        ),
+      }),
+      ...rows.map(
+        (row, rowIndex) =>
+          new TableRow({
+            children: row.map((text, i) =>
+              cell(text, {
+                fill: rowIndex % 2 === 1 ? ALT_ROW_FILL : undefined,
+                width: columnWidths?.[i],
+              })
+            ),
+          })
+      ),
+    ],
+  });
+}
+
+/**
+ * Converts markdown-style section content into document blocks
+ *
+ * Handles paragraphs, "-"/"*"/"•" bullets, "#" headings and pipe tables
+ * (rendered as real Word tables).
+ *
+ * @param content - Section content as produced by analysis
+ * @param isTable - Whether the section's template output format is 'table'
+ * @returns Paragraphs and tables in order
+ */
+export function contentToBlocks(content: string, isTable = false): DocxBlock[] {
+  const blocks: DocxBlock[] = [];
+  const lines = content.replace(/\r\n?/g, "\n").split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line) continue;
+
+    if (line.startsWith("|")) {
+      const tableLines: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith("|")) {
+        tableLines.push(lines[i].trim());
+        i++;
+      }
+      i--;
+
+      const table = parseMarkdownTable(tableLines, !isTable);
+      if (table) {
+        blocks.push(buildTable(table.header, table.rows));
+        // Space after the table so following text doesn't touch it
+        blocks.push(new Paragraph({ text: "" }));
+      } else {
+        tableLines.forEach((text) => blocks.push(new Paragraph({ children: inlineRuns(text) })));
+      }
+      continue;
+    }
+
+    const heading = /^#{1,6}\s+(.+)$/.exec(line);
+    if (heading) {
+      blocks.push(new Paragraph({ text: heading[1], heading: HeadingLevel.HEADING_3 }));
+      continue;
+    }
+
+    const bullet = /^(?:[-*•]|\d+[.)])\s+(.+)$/.exec(line);
+    if (bullet) {
+      blocks.push(new Paragraph({ children: inlineRuns(bullet[1]), bullet: { level: 0 } }));
+      continue;
+    }
+
+    blocks.push(new Paragraph({ children: inlineRuns(line), spacing: { after: 120 } }));
+  }
+
+  return blocks;
+}
+
+/**
+ * Builds "Label: value" metadata lines
+ */
+export function metadataParagraphs(entries: Array<[string, string | number | undefined]>): Paragraph[] {
+  return entries
+    .filter(([, value]) => value !== undefined && value !== "")
+    .map(
+      ([label, value]) =>
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${label}: `, bold: true }),
+            new TextRun({ text: String(value) }),
+          ],
+        })
+    );
+}
+
+/**
+ * Page footer with document name and page numbers
+ */
+export function buildDocxFooter(label: string): Footer {
+  const style = { size: 16, color: "999999" };
+  return new Footer({
+    children: [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({ text: `${label} — Page `, ...style }),
+          new TextRun({ children: [PageNumber.CURRENT], ...style }),
+          new TextRun({ text: " of ", ...style }),
+          new TextRun({ children: [PageNumber.TOTAL_PAGES], ...style }),
+        ],
+      }),
+    ],
+  });
+}
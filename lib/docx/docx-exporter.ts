@@ -0,0 +1,187 @@
+/**
+ * DOCX Exporter Utilities
+ *
+ * Client-side Word document generation for transcripts and analysis
+ * results. Mirrors the PDF exporter: generate a blob, then trigger a
+ * download in the browser.
+ */
+
+import { Packer } from "docx";
+import { Transcript, Analysis } from "@/types";
+import { MIME_TYPES } from "@/lib/export/download-helper";
+import { buildTranscriptDocument, type TranscriptDocxOptions } from "./transcript-docx";
+import { buildAnalysisDocument, type AnalysisDocxOptions } from "./analysis-docx";
+
+/**
+ * Result of a DOCX export operation
+ */
+export interface DOCXExportResult {
+  /** Whether the export was successful */
+  success: boolean;
+  /** The generated document blob (if successful) */
+  blob?: Blob;
+  /** Error message (if failed) */
+  error?: string;
+  /** Size of the generated document in bytes (if successful) */
+  size?: number;
+}
+
+/**
+ * Packs a document into a blob with the Word MIME type
+ */
+async function packDocument(document: ReturnType<typeof buildTranscriptDocument>): Promise<Blob> {
+  try {
+    const blob = await Packer.toBlob(document);
+    return new Blob([blob], { type: MIME_TYPES.docx });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to generate document";
+    throw new Error(`DOCX generation failed: ${message}`);
+  }
+}
+
+/**
+ * Generates a sanitized filename for DOCX export
+ *
+ * @param baseFilename - Base filename (e.g., transcript filename)
+ * @param suffix - Optional suffix to append (e.g., "transcript", "analysis")
+ * @returns Sanitized filename suitable for download
+ */
+export function generateDOCXFilename(baseFilename: string, suffix?: string): string {
+  const sanitized = baseFilename
+    .replace(/\.[^/.]+$/, "")
+    .replace(/[^a-zA-Z0-9-_\s]/g, "")
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+
+  return `${suffix ? `${sanitized}-${suffix}` : sanitized}.docx`;
+}
+
+/**
+ * Triggers a download of a DOCX blob in the browser
+ *
+ * @param blob - The document blob to download
+ * @param filename - Desired filename for the download
+ */
+export function triggerDOCXDownload(blob: Blob, filename: string): void {
+  const docxFilename = filename.endsWith(".docx") ? filename : `${filename}.docx`;
+  const url = URL.createObjectURL(blob);
+
+  try {
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = docxFilename;
+    link.style.display = "none";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  } finally {
+    // Clean up object URL after a delay to ensure download started
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 100);
+  }
+}
+
+/**
+ * Exports a transcript to a Word document
+ *
+ * @param transcript - The transcript to export
+ * @param options - Document options
+ * @returns Promise resolving to export result
+ *
+ * @example
+ * ```ts
+ * const result = await exportTranscriptToDOCX(transcript);
+ * if (result.success && result.blob) {
+ *   triggerDOCXDownload(result.blob, transcript.filename);
+ * }
+ * ```
+ */
+export async function exportTranscriptToDOCX(
+  transcript: Transcript,
+  options: TranscriptDocxOptions = {}
+): Promise<DOCXExportResult> {
+  try {
+    if (!transcript?.filename || (!transcript.text && transcript.segments.length === 0)) {
+      return { success: false, error: "Invalid transcript data. Cannot generate document." };
+    }
+
+    const blob = await packDocument(buildTranscriptDocument(transcript, options));
+    return { success: true, blob, size: blob.size };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Exports analysis results to a Word document
+ *
+ * @param analysis - The analysis results to export
+ * @param transcript - The source transcript
+ * @param options - Document options (pass the template to get table sections)
+ * @returns Promise resolving to export result
+ */
+export async function exportAnalysisToDOCX(
+  analysis: Analysis,
+  transcript: Transcript,
+  options: AnalysisDocxOptions = {}
+): Promise<DOCXExportResult> {
+  try {
+    if (!analysis?.results || !Array.isArray(analysis.results.sections) || !transcript) {
+      return { success: false, error: "Invalid analysis or transcript data. Cannot generate document." };
+    }
+
+    const blob = await packDocument(buildAnalysisDocument(analysis, transcript, options));
+    return { success: true, blob, size: blob.size };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error occurred",
+    };
+  }
+}
+
+/**
+ * Exports a transcript to DOCX and triggers download
+ *
+ * @param transcript - The transcript to export
+ * @param options - Document options
+ * @returns Promise resolving to export result
+ */
+export async function exportAndDownloadTranscriptDOCX(
+  transcript: Transcript,
+  options: TranscriptDocxOptions = {}
+): Promise<DOCXExportResult> {
+  const result = await exportTranscriptToDOCX(transcript, options);
+
+  if (result.success && result.blob) {
+    triggerDOCXDownload(result.blob, generateDOCXFilename(transcript.filename, "transcript"));
+  }
+
+  return result;
+}
+
+/**
+ * Exports analysis results to DOCX and triggers download
+ *
+ * @param analysis - The analysis results to export
+ * @param transcript - The source transcript
+ * @param options - Document options
+ * @returns Promise resolving to export result
+ */
+export async function exportAndDownloadAnalysisDOCX(
+  analysis: Analysis,
+  transcript: Transcript,
+  options: AnalysisDocxOptions = {}
+): Promise<DOCXExportResult> {
+  const result = await exportAnalysisToDOCX(analysis, transcript, options);
+
+  if (result.success && result.blob) {
+    triggerDOCXDownload(result.blob, generateDOCXFilename(transcript.filename, "analysis"));
+  }
+
+  return result;
+}
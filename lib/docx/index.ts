@@ -0,0 +1,28 @@
+/**
+ * DOCX Export Module
+ *
+ * Centralized export point for Word document generation.
+ * Builds .docx files from transcripts and analysis results.
+ */
+
+// Export document builders
+export { buildTranscriptDocument } from "./transcript-docx";
+export type { TranscriptDocxOptions } from "./transcript-docx";
+
+export { buildAnalysisDocument } from "./analysis-docx";
+export type { AnalysisDocxOptions } from "./analysis-docx";
+
+export { contentToBlocks, parseMarkdownTable } from "./content";
+export type { MarkdownTable } from "./content";
+
+// Export DOCX generation utilities
+export {
+  exportTranscriptToDOCX,
+  exportAnalysisToDOCX,
+  exportAndDownloadTranscriptDOCX,
+  exportAndDownloadAnalysisDOCX,
+  triggerDOCXDownload,
+  generateDOCXFilename,
+} from "./docx-exporter";
+
+export type { DOCXExportResult } from "./docx-exporter";
@@ -0,0 +1,84 @@
+/**
+ * Transcript DOCX Document
+ *
+ * Builds a Word document for a transcript: title, metadata, optional
+ * summary and one paragraph per segment with timestamp and speaker.
+ */
+
+import { Document, Paragraph, TextRun, HeadingLevel } from "docx";
+import { Transcript } from "@/types";
+import { applySpeakerRoster } from "@/lib/speaker-roster";
+import { buildDocxFooter, formatDocxDate, formatDocxTimestamp, metadataParagraphs } from "./content";
+
+/**
+ * Options for the transcript document
+ */
+export interface TranscriptDocxOptions {
+  /** Whether to include timestamps before each segment (default: true) */
+  includeTimestamps?: boolean;
+}
+
+/**
+ * Builds a Word document for a transcript
+ *
+ * @param transcript - Transcript to render (speaker roster is applied)
+ * @param options - Document options
+ * @returns docx Document ready to pack
+ */
+export function buildTranscriptDocument(
+  transcript: Transcript,
+  options: TranscriptDocxOptions = {}
+): Document {
+  const { includeTimestamps = true } = options;
+  const segments = applySpeakerRoster(transcript.segments, transcript.speakers);
+
+  const body: Paragraph[] = [
+    new Paragraph({ text: transcript.filename, heading: HeadingLevel.TITLE }),
+    ...metadataParagraphs([
+      ["Date", formatDocxDate(transcript.createdAt)],
+      ["Duration", transcript.metadata?.duration ? formatDocxTimestamp(transcript.metadata.duration) : undefined],
+      ["Language", transcript.metadata?.language?.toUpperCase()],
+      ["Segments", segments.length],
+    ]),
+  ];
+
+  if (transcript.summary) {
+    body.push(
+      new Paragraph({ text: "Summary", heading: HeadingLevel.HEADING_1 }),
+      new Paragraph({ text: transcript.summary })
+    );
+  }
+
+  body.push(new Paragraph({ text: "Transcript", heading: HeadingLevel.HEADING_1 }));
+
+  if (segments.length === 0) {
+    body.push(new Paragraph({ text: transcript.text }));
+  }
+
+  for (const segment of segments) {
+    body.push(
+      new Paragraph({
+        spacing: { after: 120 },
+        children: [
+          ...(includeTimestamps
+            ? [new TextRun({ text: `[${formatDocxTimestamp(segment.start)}] `, color: "666666" })]
+            : []),
+          ...(segment.speaker ? [new TextRun({ text: `${segment.speaker}: `, bold: true })] : []),
+          new TextRun({ text: segment.text.trim() }),
+        ],
+      })
+    );
+  }
+
+  return new Document({
+    creator: "Meeting Transcriber",
+    title: `Transcript - ${transcript.filename}`,
+    description: "Meeting transcript",
+    sections: [
+      {
+        footers: { default: buildDocxFooter(`Transcript - ${transcript.filename}`) },
+        children: body,
+      },
+    ],
+  });
+}
@@ -222,6 +222,81 @@ You MUST respond with valid JSON in this EXACT structure:
 Provide your complete evaluation and improved results as JSON now.`;
 }
 
+/**
+ * Section output paired with the expected ("golden") output it is scored against
+ */
+export interface ExpectedOutputComparison {
+  /** Section name */
+  name: string;
+  /** Expected output saved by the template author */
+  expected: string;
+  /** Output produced by the run being scored */
+  actual: string;
+}
+
+/**
+ * Generate prompt for scoring section outputs against expected outputs
+ *
+ * Used by the template test bench to check edited prompts against outputs
+ * the author has marked as correct for a sample transcript.
+ *
+ * @param comparisons - Section outputs with their expected outputs
+ * @returns Scoring prompt string
+ */
+export function generateExpectedOutputPrompt(comparisons: ExpectedOutputComparison[]): string {
+  return `${AUSTIN_CONTEXT}
+
+## Your Role: Regression Review
+
+A template author has saved the expected output of each section below for a sample meeting.
+The template's prompts have since been edited and run again. Score how well each new output
+matches its expected output.
+
+${comparisons
+  .map(
+    (c, idx) => `## Section ${idx + 1}: ${c.name}
+
+### Expected Output
+${c.expected}
+
+### New Output
+${c.actual}
+`
+  )
+  .join('\n')}
+## Scoring Guidelines
+
+- Judge content, not wording: the same facts in different words is a match
+- Deduct for points in the expected output that are missing or contradicted
+- Deduct for claims in the new output that the expected output doesn't support
+- Ignore formatting differences unless they change the meaning
+
+- **9-10**: Same content, differences in wording only
+- **7-8**: Minor points missing or added
+- **5-6**: Some important points missing or changed
+- **3-4**: Most of the expected content is missing or wrong
+- **0-2**: Unrelated to the expected output
+
+## Output Format
+
+You MUST respond with valid JSON in this EXACT structure, with one entry per section in the order given:
+
+\`\`\`json
+{
+  "sections": [
+    {
+      "name": "Section Name",
+      "score": <0-10>,
+      "reasoning": "One or two sentences explaining the score",
+      "missing": ["Point from the expected output that the new output leaves out"]
+    }
+  ]
+}
+\`\`\`
+
+Provide your scores as JSON now.`;
+}
+
 /**
  * Format draft results for inclusion in evaluator prompt
  */
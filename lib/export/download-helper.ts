@@ -14,6 +14,8 @@ export const MIME_TYPES = {
   srt: 'text/plain;charset=utf-8',  // SRT files are plain text
   vtt: 'text/vtt;charset=utf-8',
   pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  ics: 'text/calendar;charset=utf-8',
 } as const;
 
 /**
@@ -6,6 +6,7 @@
  */
 
 import { Transcript } from '@/types';
+import { applySpeakerRoster } from '@/lib/speaker-roster';
 
 /**
  * Timestamp format types supported by different export formats
@@ -148,9 +149,9 @@ export function formatTXT(transcript: Transcript): string {
   lines.push('='.repeat(50));
   lines.push('');
 
-  // Transcript content with timestamps
+  // Transcript content with timestamps (speaker labels mapped through the roster)
   if (transcript.segments && transcript.segments.length > 0) {
-    for (const segment of transcript.segments) {
+    for (const segment of applySpeakerRoster(transcript.segments, transcript.speakers)) {
       const timestamp = formatTimestamp(segment.start, 'txt');
       const text = sanitizeText(segment.text);
 
@@ -171,6 +172,9 @@ export function formatTXT(transcript: Transcript): string {
 /**
  * Formats transcript as JSON with full metadata.
  *
+ * Segments keep their raw speaker labels and the speaker roster is
+ * exported alongside them, so re-importing the file restores both.
+ *
  * @param transcript - Transcript to format
  * @returns Formatted JSON string
  */
@@ -193,6 +197,7 @@ export function formatJSON(transcript: Transcript): string {
       fileSize: transcript.metadata.fileSize,
       duration: transcript.metadata.duration,
     },
+    ...(transcript.speakers?.length && { speakers: transcript.speakers }),
     createdAt: transcript.createdAt.toISOString(),
   };
 
@@ -228,9 +233,11 @@ export function formatSRT(transcript: Transcript): string {
     return lines.join('\n');
   }
 
+  const segments = applySpeakerRoster(transcript.segments, transcript.speakers);
+
   // Format each segment
-  for (let i = 0; i < transcript.segments.length; i++) {
-    const segment = transcript.segments[i];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
     const startTime = formatTimestamp(segment.start, 'srt');
     const endTime = formatTimestamp(segment.end, 'srt');
     const text = sanitizeText(segment.text);
@@ -288,7 +295,7 @@ export function formatVTT(transcript: Transcript): string {
   }
 
   // Format each segment as a cue
-  for (const segment of transcript.segments) {
+  for (const segment of applySpeakerRoster(transcript.segments, transcript.speakers)) {
     const startTime = formatTimestamp(segment.start, 'vtt');
     const endTime = formatTimestamp(segment.end, 'vtt');
     const text = sanitizeText(segment.text);
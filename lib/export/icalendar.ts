@@ -0,0 +1,398 @@
+/**
+ * iCalendar Export
+ *
+ * Builds `.ics` files (RFC 5545) from an analysis so action items and
+ * follow-up meetings can be imported into Outlook or any calendar app:
+ * - Action items become VTODO entries with the owner, due date and a link
+ *   back to the moment in the transcript where they were mentioned
+ * - Follow-up meetings mentioned in "Next Steps" style sections become
+ *   VEVENT entries on the date they were scheduled for
+ *
+ * UIDs are derived from the tracked item or analysis IDs, so importing a
+ * newer export updates the entries instead of duplicating them.
+ */
+
+import type { ActionItem, AnalysisResults, Analysis } from '@/types/analysis';
+import type { Transcript } from '@/types/transcript';
+import type { ActionItemStatus, TrackedActionItem } from '@/types/action-item';
+import { fromIsoDate, getMeetingDate, normalizeTaskKey, resolveDeadline, toIsoDate } from '@/lib/action-items';
+import { formatTimestamp, getTranscriptHref } from '@/lib/transcript-utils';
+import { generateFilename, MIME_TYPES, triggerDownload } from './download-helper';
+
+const PRODUCT_ID = '-//City of Austin//Meeting Transcriber//EN';
+const UID_DOMAIN = 'meeting-transcriber';
+
+/** Length of a follow-up meeting when the analysis gives a start time */
+const DEFAULT_EVENT_MINUTES = 60;
+
+/**
+ * Transcript fields the exporter uses
+ */
+export type CalendarTranscript = Pick<Transcript, 'id' | 'filename' | 'createdAt' | 'meetingDate' | 'segments'>;
+
+/**
+ * Options for building a calendar
+ */
+export interface CalendarExportOptions {
+  /** Transcript the analysis belongs to (for links and deadline resolution) */
+  transcript: CalendarTranscript;
+
+  /** Tracked items of the transcript; their status and edited due dates win */
+  trackedItems?: TrackedActionItem[];
+
+  /** Origin for links back to the app (default: the current page's origin) */
+  baseUrl?: string;
+
+  /** Time the calendar is generated (default: now) */
+  now?: Date;
+}
+
+/**
+ * A follow-up meeting mentioned in an analysis
+ */
+export interface FollowUpMeeting {
+  /** Sentence the meeting was mentioned in */
+  text: string;
+
+  /** Name of the section it was found in */
+  sectionName: string;
+
+  /** Meeting date as an ISO calendar date (YYYY-MM-DD) */
+  date: string;
+
+  /** Start time as minutes after midnight, when the text gives one */
+  startMinutes?: number;
+}
+
+// Sections that describe what happens after the meeting
+const FOLLOW_UP_SECTION = /next steps|follow[- ]?ups?|upcoming|schedul/i;
+
+// Sentences that talk about a meeting rather than a task
+const MEETING_WORDS = /\b(meeting|session|hearing|call|check[- ]?in|follow[- ]?up|workshop|briefing|reconvene|regroup|work session)\b/i;
+
+// 2 pm, 2:30 p.m., 14:00
+const TIME_OF_DAY = /\b(\d{1,2})(?::(\d{2}))?\s*(a\.?m\.?|p\.?m\.?)(?=\s|[.,;)]|$)|\b([01]?\d|2[0-3]):([0-5]\d)\b|\b(noon)\b/i;
+
+/**
+ * What every calendar component needs to know
+ */
+interface ComponentContext {
+  transcript: CalendarTranscript;
+  now: Date;
+  baseUrl: string;
+  /** Prefix for UIDs of components without a tracked ID */
+  uidBase: string;
+}
+
+const TODO_STATUS: Record<ActionItemStatus, string> = {
+  open: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+  superseded: 'CANCELLED',
+};
+
+/**
+ * Escape a value for a TEXT property
+ */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to at most 75 octets, continuing with a space
+ */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a date-time in UTC (e.g. 20260512T143000Z)
+ */
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format an ISO calendar date as an iCalendar DATE (e.g. 20260512)
+ */
+function formatDateValue(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+/**
+ * Format local (floating) time on a date, e.g. 20260512T140000
+ */
+function formatLocalDateTime(isoDate: string, minutes: number): string {
+  const hours = String(Math.floor(minutes / 60)).padStart(2, '0');
+  const mins = String(minutes % 60).padStart(2, '0');
+  return `${formatDateValue(isoDate)}T${hours}${mins}00`;
+}
+
+function getBaseUrl(baseUrl?: string): string {
+  if (baseUrl) return baseUrl.replace(/\/$/, '');
+  return typeof window !== 'undefined' ? window.location.origin : '';
+}
+
+/**
+ * Parse a time of day from a sentence
+ *
+ * @returns Minutes after midnight, or undefined if no time is given
+ */
+function parseTimeOfDay(text: string): number | undefined {
+  const match = text.match(TIME_OF_DAY);
+  if (!match) return undefined;
+  if (match[6]) return 12 * 60;
+
+  if (match[3]) {
+    const hour = Number(match[1]);
+    if (hour < 1 || hour > 12) return undefined;
+    const isPm = match[3].toLowerCase().startsWith('p');
+    return ((hour % 12) + (isPm ? 12 : 0)) * 60 + Number(match[2] ?? 0);
+  }
+
+  return Number(match[4]) * 60 + Number(match[5]);
+}
+
+/**
+ * Find follow-up meetings mentioned in an analysis
+ *
+ * Looks at sections like "Next Steps" for sentences or bullets that talk
+ * about a meeting and name a day it happens on. Vague timing ("sometime
+ * next month") isn't scheduled.
+ *
+ * @param results - Analysis results
+ * @param meetingDate - Date of the analyzed meeting, for relative dates
+ * @returns Follow-up meetings in the order they were mentioned
+ *
+ * @example
+ * findFollowUpMeetings(results, new Date(2026, 4, 4));
+ * // [{ text: 'The committee will reconvene June 12 at 2 pm.', sectionName: 'Next Steps',
+ * //    date: '2026-06-12', startMinutes: 840 }]
+ */
+export function findFollowUpMeetings(results: AnalysisResults, meetingDate: Date): FollowUpMeeting[] {
+  const meetings: FollowUpMeeting[] = [];
+  const seen = new Set<string>();
+
+  for (const section of results.sections) {
+    if (!FOLLOW_UP_SECTION.test(section.name)) continue;
+
+    const sentences = section.content
+      .split(/\n+|(?<=[.!?])\s+(?=[A-Z])/)
+      .map((line) => line.replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').trim())
+      .filter(Boolean);
+
+    for (const text of sentences) {
+      if (!MEETING_WORDS.test(text)) continue;
+
+      const resolved = resolveDeadline(text, meetingDate);
+      if (!resolved || resolved.confidence === 'low') continue;
+
+      const key = `${resolved.date}|${normalizeTaskKey(text)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      meetings.push({
+        text,
+        sectionName: section.name,
+        date: resolved.date,
+        startMinutes: parseTimeOfDay(text),
+      });
+    }
+  }
+
+  return meetings;
+}
+
+/**
+ * Content lines of a VTODO for an action item
+ */
+function buildTodo(
+  item: ActionItem,
+  tracked: TrackedActionItem | undefined,
+  options: ComponentContext
+): string[] {
+  const { transcript, now, baseUrl } = options;
+  const status = tracked?.status ?? 'open';
+  const owner = tracked?.owner ?? item.owner;
+  const due = tracked?.dueDate
+    ? toIsoDate(tracked.dueDate)
+    : item.resolvedDeadline?.date
+      ?? (item.deadline ? resolveDeadline(item.deadline, getMeetingDate(transcript))?.date : undefined);
+
+  const description = [
+    owner && `Owner: ${owner}`,
+    item.deadline && `Deadline: ${item.deadline}`,
+    item.timestamp !== undefined
+      ? `Mentioned at ${formatTimestamp(item.timestamp)}: ${getTranscriptHref(transcript.id, transcript.segments, item.timestamp, baseUrl)}`
+      : `Meeting: ${getTranscriptHref(transcript.id, transcript.segments, undefined, baseUrl)}`,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${tracked?.id ?? `${options.uidBase}-${item.id}`}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SUMMARY:${escapeText(item.task)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+  ];
+  if (due) lines.push(`DUE;VALUE=DATE:${formatDateValue(due)}`);
+  lines.push(`STATUS:${TODO_STATUS[status]}`);
+  if (status === 'done') {
+    lines.push('PERCENT-COMPLETE:100');
+    if (tracked?.completedAt) lines.push(`COMPLETED:${formatUtc(tracked.completedAt)}`);
+  }
+  lines.push(`URL:${getTranscriptHref(transcript.id, transcript.segments, item.timestamp, baseUrl)}`, 'END:VTODO');
+  return lines;
+}
+
+/**
+ * Content lines of a VEVENT for a follow-up meeting
+ */
+function buildEvent(meeting: FollowUpMeeting, index: number, options: ComponentContext): string[] {
+  const { transcript, now, baseUrl } = options;
+  const link = getTranscriptHref(transcript.id, transcript.segments, undefined, baseUrl);
+  const title = transcript.filename.replace(/\.[^/.]+$/, '');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${options.uidBase}-follow-up-${index}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `SUMMARY:${escapeText(`Follow-up: ${title}`)}`,
+    `DESCRIPTION:${escapeText(`${meeting.text}\n\nFrom "${meeting.sectionName}" of ${transcript.filename}: ${link}`)}`,
+  ];
+
+  if (meeting.startMinutes !== undefined) {
+    // Floating local time: the meeting happens at this clock time wherever it is opened
+    const end = Math.min(meeting.startMinutes + DEFAULT_EVENT_MINUTES, 24 * 60 - 1);
+    lines.push(
+      `DTSTART:${formatLocalDateTime(meeting.date, meeting.startMinutes)}`,
+      `DTEND:${formatLocalDateTime(meeting.date, end)}`
+    );
+  } else {
+    const nextDay = fromIsoDate(meeting.date);
+    nextDay.setDate(nextDay.getDate() + 1);
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDateValue(meeting.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(toIsoDate(nextDay))}`
+    );
+  }
+
+  lines.push(`URL:${link}`, 'END:VEVENT');
+  return lines;
+}
+
+/**
+ * Context for the components of one calendar
+ *
+ * @param uidBase - Prefix for UIDs of untracked items and events
+ */
+function createContext(options: CalendarExportOptions, uidBase: string): ComponentContext {
+  return {
+    transcript: options.transcript,
+    now: options.now ?? new Date(),
+    baseUrl: getBaseUrl(options.baseUrl),
+    uidBase,
+  };
+}
+
+/**
+ * VTODO entries for action items, matched to tracked items by task text
+ */
+function buildTodos(
+  actionItems: ActionItem[],
+  trackedItems: TrackedActionItem[],
+  context: ComponentContext
+): string[][] {
+  const trackedByKey = new Map(trackedItems.map((item) => [item.key, item]));
+  return actionItems.map((item) => buildTodo(item, trackedByKey.get(normalizeTaskKey(item.task)), context));
+}
+
+/**
+ * Wrap components in a VCALENDAR, folded and CRLF-terminated
+ */
+function buildCalendar(components: string[][], name: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...components.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Build an iCalendar file of action items
+ *
+ * @param actionItems - Action items to export as VTODO entries
+ * @param options - Transcript, tracked items and link options
+ * @returns `.ics` file content
+ *
+ * @example
+ * const ics = formatActionItemsICS(analysis.results.actionItems ?? [], { transcript });
+ */
+export function formatActionItemsICS(actionItems: ActionItem[], options: CalendarExportOptions): string {
+  const context = createContext(options, options.transcript.id);
+  return buildCalendar(
+    buildTodos(actionItems, options.trackedItems ?? [], context),
+    `Action items: ${options.transcript.filename}`
+  );
+}
+
+/**
+ * Build an iCalendar file of an analysis's action items and follow-up meetings
+ *
+ * @param analysis - Analysis to export
+ * @param options - Transcript, tracked items and link options
+ * @returns `.ics` file content
+ */
+export function formatAnalysisICS(analysis: Analysis, options: CalendarExportOptions): string {
+  // UIDs of untracked items are scoped to the analysis, so calendars
+  // exported from two analyses of the same meeting don't collide
+  const context = createContext(options, analysis.id);
+
+  const todos = buildTodos(analysis.results.actionItems ?? [], options.trackedItems ?? [], context);
+  const events = findFollowUpMeetings(analysis.results, getMeetingDate(options.transcript)).map(
+    (meeting, index) => buildEvent(meeting, index, context)
+  );
+  return buildCalendar([...todos, ...events], options.transcript.filename);
+}
+
+/**
+ * Download iCalendar content as an `.ics` file
+ *
+ * The file is written without a byte order mark, which some calendar
+ * apps reject.
+ *
+ * @param content - `.ics` file content
+ * @param originalFilename - Filename to base the download's name on
+ */
+export function downloadICS(content: string, originalFilename: string): void {
+  const blob = new Blob([content], { type: MIME_TYPES.ics });
+  triggerDownload(blob, generateFilename(originalFilename, 'ics'));
+}
@@ -44,3 +44,14 @@ export {
   type ExportResult,
   type ExportOptions,
 } from './transcript-exporter';
+
+// Re-export iCalendar export of action items and follow-up meetings
+export {
+  formatActionItemsICS,
+  formatAnalysisICS,
+  findFollowUpMeetings,
+  downloadICS,
+  type CalendarExportOptions,
+  type CalendarTranscript,
+  type FollowUpMeeting,
+} from './icalendar';
@@ -351,4 +351,11 @@ export const EXPORT_FORMATS = [
     mimeType: MIME_TYPES.pdf,
     extension: '.pdf',
   },
+  {
+    format: 'docx' as ExportFormat,
+    label: 'Word Document',
+    description: 'Editable document for minutes',
+    mimeType: MIME_TYPES.docx,
+    extension: '.docx',
+  },
 ] as const;
@@ -0,0 +1,27 @@
+/**
+ * Import Module Entry Point
+ *
+ * Provides a centralized export point for all import-related functionality.
+ */
+
+// Re-export all parsers
+export {
+  parseSRT,
+  parseVTT,
+  parseTXT,
+  parseJSON,
+  parseTimestamp,
+  detectImportFormat,
+  type ImportFormat,
+  type ParsedTranscript,
+} from './parsers';
+
+// Re-export transcript importer (main API)
+export {
+  importTranscriptContent,
+  importTranscriptFile,
+  IMPORT_ACCEPT,
+  IMPORTED_MODEL_PREFIX,
+  TranscriptImportError,
+  type ImportResult,
+} from './transcript-importer';
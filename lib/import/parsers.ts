@@ -0,0 +1,435 @@
+/**
+ * Import Parsers
+ *
+ * Parses caption and transcript files (SRT, VTT, TXT, JSON) back into
+ * transcript segments. Each parser accepts the output of the matching
+ * formatter in `lib/export/formatters.ts` as well as files produced by
+ * other captioning tools.
+ */
+
+import { z } from 'zod';
+import type { SpeakerProfile, TranscriptSegment } from '@/types';
+
+/**
+ * File formats that can be imported
+ */
+export type ImportFormat = 'srt' | 'vtt' | 'txt' | 'json';
+
+/**
+ * Result of parsing one transcript from a file
+ *
+ * Segments are returned as found in the file; sanitization and validation
+ * happen in the importer.
+ */
+export interface ParsedTranscript {
+  /** Segments in file order */
+  segments: TranscriptSegment[];
+  /** Original filename recorded in the file (TXT header, JSON) */
+  filename?: string;
+  /** Language code recorded in the file */
+  language?: string;
+  /** Creation date recorded in the file */
+  createdAt?: Date;
+  /** Duration recorded in the file, in seconds */
+  duration?: number;
+  /** Summary recorded in the file (JSON) */
+  summary?: string;
+  /** Speaker roster recorded in the file (JSON) */
+  speakers?: SpeakerProfile[];
+  /** True when segment times were estimated because the file had none */
+  estimatedTiming?: boolean;
+}
+
+/**
+ * Speaking rate used to estimate segment durations for untimed text
+ */
+const WORDS_PER_SECOND = 2.5;
+
+/**
+ * Target size of segments created from untimed paragraphs
+ */
+const MAX_WORDS_PER_SEGMENT = 60;
+
+// HH:MM:SS,mmm | HH:MM:SS.mmm | MM:SS.mmm | HH:MM:SS
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+
+/**
+ * Parses a caption or bracketed timestamp into seconds.
+ *
+ * @param value - Timestamp such as "00:01:15,500", "01:15.500" or "[00:01:15]"
+ * @returns Time in seconds, or null if the value is not a timestamp
+ *
+ * @example
+ * parseTimestamp('00:01:15,500') // 75.5
+ * parseTimestamp('[01:02:03]')   // 3723
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(value.trim().replace(/^\[|\]$/g, ''));
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  const millis = fraction ? Number(fraction.padEnd(3, '0')) : 0;
+
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + millis / 1000;
+}
+
+/**
+ * Decodes the HTML entities allowed in caption text.
+ */
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Joins cue lines into a single line of text and strips markup.
+ */
+function cleanCueText(lines: string[]): string {
+  return decodeEntities(
+    lines
+      .join(' ')
+      .replace(/<[^>]*>/g, '')      // HTML-style tags (<i>, <c.yellow>, <00:00:01.000>)
+      .replace(/\{\\[^}]*\}/g, '')  // SSA override tags ({\an8})
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Splits a leading "[Speaker] " label (as written by our TXT/SRT export) off text.
+ */
+function splitSpeakerLabel(text: string): { speaker?: string; text: string } {
+  const match = /^\[([^\]]+)\]\s+(\S.*)$/.exec(text);
+  return match ? { speaker: match[1].trim(), text: match[2] } : { text };
+}
+
+/**
+ * Estimates how long it takes to say a piece of text.
+ */
+function estimateDuration(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  return Math.max(1, Math.round((words / WORDS_PER_SECOND) * 10) / 10);
+}
+
+/**
+ * Splits caption content into blocks separated by blank lines.
+ */
+function splitBlocks(content: string): string[][] {
+  return content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map((block) => block.split('\n').filter((line) => line.trim() !== ''))
+    .filter((lines) => lines.length > 0);
+}
+
+/**
+ * Parses the timing line of a cue ("start --> end [settings]").
+ */
+function parseCueTiming(line: string): { start: number; end: number } | null {
+  const [startPart, rest] = line.split('-->');
+  if (rest === undefined) return null;
+
+  const start = parseTimestamp(startPart);
+  const end = parseTimestamp(rest.trim().split(/\s+/)[0] ?? '');
+  return start === null || end === null ? null : { start, end };
+}
+
+/**
+ * Parses SubRip (SRT) captions.
+ *
+ * Cue numbers are ignored, formatting tags are stripped and a leading
+ * "[Speaker]" label becomes the segment speaker.
+ *
+ * @param content - SRT file content
+ * @returns Parsed transcript
+ */
+export function parseSRT(content: string): ParsedTranscript {
+  const segments: TranscriptSegment[] = [];
+
+  for (const lines of splitBlocks(content)) {
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const timing = parseCueTiming(lines[timingIndex]);
+    if (!timing) continue;
+
+    const { speaker, text } = splitSpeakerLabel(cleanCueText(lines.slice(timingIndex + 1)));
+    segments.push({
+      index: segments.length,
+      ...timing,
+      text,
+      ...(speaker && { speaker }),
+    });
+  }
+
+  return { segments };
+}
+
+/**
+ * Parses WebVTT captions.
+ *
+ * NOTE, STYLE and REGION blocks are skipped. The first `<v Speaker>` voice
+ * tag in a cue becomes the segment speaker; all other markup is stripped.
+ *
+ * @param content - VTT file content
+ * @returns Parsed transcript
+ * @throws {Error} If the file does not start with the WEBVTT signature
+ */
+export function parseVTT(content: string): ParsedTranscript {
+  const blocks = splitBlocks(content);
+  if (!blocks[0]?.[0]?.startsWith('WEBVTT')) {
+    throw new Error('Not a WebVTT file: missing WEBVTT header');
+  }
+
+  const segments: TranscriptSegment[] = [];
+
+  for (const lines of blocks.slice(1)) {
+    if (/^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    // Optional cue identifier precedes the timing line
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex === -1) continue;
+
+    const timing = parseCueTiming(lines[timingIndex]);
+    if (!timing) continue;
+
+    const cueLines = lines.slice(timingIndex + 1);
+    const voice = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(cueLines.join(' '));
+    const speaker = voice ? decodeEntities(voice[1]).trim() : undefined;
+
+    segments.push({
+      index: segments.length,
+      ...timing,
+      text: cleanCueText(cueLines),
+      ...(speaker && { speaker }),
+    });
+  }
+
+  return { segments };
+}
+
+/**
+ * Splits untimed text into segments with estimated timings.
+ *
+ * Paragraphs become segments; paragraphs longer than
+ * MAX_WORDS_PER_SEGMENT are split on sentence boundaries.
+ */
+function segmentUntimedText(text: string): TranscriptSegment[] {
+  const chunks: string[] = [];
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const normalized = paragraph.replace(/\s+/g, ' ').trim();
+    if (!normalized) continue;
+
+    let current = '';
+    for (const sentence of normalized.match(/[^.!?]+[.!?]*\s*/g) ?? [normalized]) {
+      const candidate = `${current}${sentence}`;
+      if (current && candidate.split(' ').length > MAX_WORDS_PER_SEGMENT) {
+        chunks.push(current.trim());
+        current = sentence;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current.trim()) chunks.push(current.trim());
+  }
+
+  const segments: TranscriptSegment[] = [];
+  let time = 0;
+  for (const chunk of chunks) {
+    const duration = estimateDuration(chunk);
+    segments.push({ index: segments.length, start: time, end: time + duration, text: chunk });
+    time += duration;
+  }
+  return segments;
+}
+
+/**
+ * Parses a plain text transcript.
+ *
+ * Understands the header and "[HH:MM:SS] [Speaker] text" lines written by
+ * `formatTXT`; a segment ends where the next one starts. Text without
+ * timestamps is split into paragraphs with estimated timings.
+ *
+ * @param content - TXT file content
+ * @returns Parsed transcript
+ */
+export function parseTXT(content: string): ParsedTranscript {
+  const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const result: ParsedTranscript = { segments: [] };
+
+  // Header written by formatTXT: title, rule, metadata lines, rule
+  let bodyStart = 0;
+  const rules = lines
+    .map((line, i) => (/^={10,}$/.test(line.trim()) ? i : -1))
+    .filter((i) => i !== -1);
+  if (lines[0]?.trim() === 'Meeting Transcription' && rules.length >= 2 && rules[0] === 1) {
+    for (const line of lines.slice(rules[0] + 1, rules[1])) {
+      const [, key, value] = /^(\w+):\s*(.+)$/.exec(line.trim()) ?? [];
+      if (key === 'Filename') result.filename = value;
+      if (key === 'Language') result.language = value;
+      if (key === 'Duration') result.duration = parseTimestamp(value) ?? undefined;
+      if (key === 'Date') {
+        const date = new Date(value.replace(' ', 'T'));
+        if (!Number.isNaN(date.getTime())) result.createdAt = date;
+      }
+    }
+    bodyStart = rules[1] + 1;
+  }
+
+  const body = lines.slice(bodyStart);
+  const timed: Array<{ start: number; speaker?: string; text: string }> = [];
+
+  for (const line of body) {
+    const match = /^\[([\d:.,]+)\]\s*(.*)$/.exec(line.trim());
+    const start = match ? parseTimestamp(match[1]) : null;
+
+    if (match && start !== null) {
+      timed.push({ start, ...splitSpeakerLabel(match[2].trim()) });
+    } else if (timed.length > 0 && line.trim()) {
+      // Continuation of a wrapped line
+      timed[timed.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+
+  if (timed.length === 0) {
+    result.segments = segmentUntimedText(body.join('\n'));
+    result.estimatedTiming = true;
+    return result;
+  }
+
+  result.segments = timed.map((entry, i) => {
+    const next = timed[i + 1];
+    const end = next
+      ? next.start
+      : Math.max(result.duration ?? 0, entry.start + estimateDuration(entry.text));
+    return {
+      index: i,
+      start: entry.start,
+      end,
+      text: entry.text.trim(),
+      ...(entry.speaker && { speaker: entry.speaker }),
+    };
+  });
+  return result;
+}
+
+/**
+ * Shape of a transcript in our JSON exports: `formatJSON` output, or one
+ * entry of the bulk export from the transcripts page.
+ */
+const jsonTranscriptSchema = z
+  .object({
+    filename: z.string().optional(),
+    text: z.string().optional(),
+    summary: z.string().optional(),
+    segments: z
+      .array(
+        z.object({
+          start: z.number(),
+          end: z.number(),
+          text: z.string(),
+          speaker: z.string().optional(),
+        })
+      )
+      .optional(),
+    speakers: z
+      .array(
+        z.object({
+          label: z.string(),
+          name: z.string().optional(),
+          role: z.string().optional(),
+          mergedInto: z.string().optional(),
+        })
+      )
+      .optional(),
+    metadata: z
+      .object({
+        language: z.string().optional(),
+        duration: z.number().optional(),
+      })
+      .optional(),
+    language: z.string().optional(),
+    duration: z.number().optional(),
+    createdAt: z.string().optional(),
+  })
+  .refine((data) => (data.segments?.length ?? 0) > 0 || !!data.text?.trim(), {
+    message: 'Transcript must contain segments or text',
+  });
+
+/**
+ * Parses transcripts exported as JSON.
+ *
+ * Accepts a single `formatJSON` object or an array (bulk export).
+ * Transcripts without segments are segmented from their text.
+ *
+ * @param content - JSON file content
+ * @returns One parsed transcript per exported transcript
+ * @throws {Error} If the content is not valid JSON or not in an export shape
+ */
+export function parseJSON(content: string): ParsedTranscript[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const parsed = z.array(jsonTranscriptSchema).safeParse(Array.isArray(data) ? data : [data]);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Unrecognized transcript JSON: ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+
+  return parsed.data.map((entry) => {
+    const createdAt = entry.createdAt ? new Date(entry.createdAt) : undefined;
+    const hasSegments = (entry.segments?.length ?? 0) > 0;
+
+    return {
+      segments: hasSegments
+        ? entry.segments!.map((segment, index) => ({
+            index,
+            start: segment.start,
+            end: segment.end,
+            text: segment.text,
+            ...(segment.speaker && { speaker: segment.speaker }),
+          }))
+        : segmentUntimedText(entry.text ?? ''),
+      filename: entry.filename,
+      language: entry.metadata?.language ?? entry.language,
+      duration: entry.metadata?.duration ?? entry.duration,
+      summary: entry.summary,
+      speakers: entry.speakers,
+      createdAt: createdAt && !Number.isNaN(createdAt.getTime()) ? createdAt : undefined,
+      estimatedTiming: !hasSegments,
+    };
+  });
+}
+
+/**
+ * Detects the format of an import file from its extension, falling back
+ * to sniffing the content.
+ *
+ * @param filename - Name of the file
+ * @param content - File content
+ * @returns Detected format, or null if unsupported
+ */
+export function detectImportFormat(filename: string, content: string): ImportFormat | null {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'srt' || extension === 'vtt' || extension === 'txt' || extension === 'json') {
+    return extension;
+  }
+
+  const start = content.replace(/^\uFEFF/, '').trimStart();
+  if (start.startsWith('WEBVTT')) return 'vtt';
+  if (start.startsWith('{') || start.startsWith('[{')) return 'json';
+  if (/^\d+\s*\r?\n[\d:,.]+\s*-->/.test(start)) return 'srt';
+  return null;
+}
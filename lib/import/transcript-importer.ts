@@ -0,0 +1,209 @@
+/**
+ * Transcript Import Module
+ *
+ * Turns caption and transcript files into library transcripts. Parsed
+ * segments are sanitized and checked with `validateSegments` (the same
+ * checks applied to fresh transcriptions) before a transcript is built.
+ */
+
+import type { Transcript } from '@/types';
+import {
+  generateTranscriptId,
+  sanitizeSegments,
+  validateSegments,
+} from '@/lib/transcription-utils';
+import {
+  parseSRT,
+  parseVTT,
+  parseTXT,
+  parseJSON,
+  detectImportFormat,
+  type ImportFormat,
+  type ParsedTranscript,
+} from './parsers';
+
+/**
+ * File extensions accepted by the import flow (for file inputs)
+ */
+export const IMPORT_ACCEPT = '.srt,.vtt,.txt,.json';
+
+/**
+ * Prefix of `metadata.model` for imported transcripts (e.g. "import-srt")
+ */
+export const IMPORTED_MODEL_PREFIX = 'import-';
+
+/**
+ * Import result type
+ */
+export interface ImportResult {
+  success: boolean;
+  /** Source file name */
+  source: string;
+  format?: ImportFormat;
+  /** Transcripts ready to save (a JSON bulk export can contain several) */
+  transcripts: Transcript[];
+  /** Non-fatal issues, such as adjusted overlapping cues or estimated timings */
+  warnings: string[];
+  error?: string;
+}
+
+/**
+ * Error thrown when a file's content cannot be turned into a transcript
+ */
+export class TranscriptImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TranscriptImportError';
+  }
+}
+
+// Cue timings are often rounded to the frame, so tolerate tiny overlaps
+const SEGMENT_RULES = { overlapEpsilon: 0.05, minDuration: 0.001 };
+
+/**
+ * Strips the extension from a caption filename.
+ */
+function baseName(filename: string): string {
+  return filename.replace(/\.[^/.]+$/, '') || filename;
+}
+
+/**
+ * Builds a transcript from parsed segments.
+ *
+ * @throws {TranscriptImportError} If no segments are left or they fail validation
+ */
+function buildTranscript(
+  parsed: ParsedTranscript,
+  source: string,
+  format: ImportFormat,
+  warnings: string[]
+): Transcript {
+  const { segments, warnings: sanitationWarnings } = sanitizeSegments(parsed.segments, SEGMENT_RULES);
+  if (sanitationWarnings.length > 0) {
+    warnings.push(`${sanitationWarnings.length} segment${sanitationWarnings.length !== 1 ? 's' : ''} adjusted or dropped`);
+  }
+
+  if (segments.length === 0) {
+    throw new TranscriptImportError(`No segments with text found in ${parsed.filename || baseName(source)}`);
+  }
+
+  const validation = validateSegments(segments, SEGMENT_RULES);
+  if (!validation.valid) {
+    throw new TranscriptImportError(`Invalid segments: ${validation.errors.slice(0, 3).join('; ')}`);
+  }
+
+  if (parsed.estimatedTiming) {
+    warnings.push('No timestamps found; segment times are estimated');
+  }
+
+  const lastEnd = segments[segments.length - 1].end;
+
+  return {
+    id: generateTranscriptId(),
+    filename: parsed.filename || baseName(source),
+    text: segments.map((segment) => segment.text).join(' '),
+    segments,
+    createdAt: parsed.createdAt ?? new Date(),
+    metadata: {
+      model: `${IMPORTED_MODEL_PREFIX}${format}`,
+      language: parsed.language,
+      fileSize: 0,
+      duration: Math.max(parsed.duration ?? 0, lastEnd),
+    },
+    ...(parsed.summary && { summary: parsed.summary }),
+    ...(parsed.speakers?.length && { speakers: parsed.speakers }),
+  };
+}
+
+/**
+ * Parses file content into transcripts.
+ *
+ * @param content - File content
+ * @param source - Source file name (used for format detection and as the transcript name)
+ * @param format - Format override (detected from the name/content by default)
+ * @returns Import result with transcripts ready to save
+ *
+ * @example
+ * const result = importTranscriptContent(srtText, 'council-2021-03-04.srt');
+ * if (result.success) {
+ *   await saveTranscriptsBulk(result.transcripts);
+ * }
+ */
+export function importTranscriptContent(
+  content: string,
+  source: string,
+  format: ImportFormat | null = detectImportFormat(source, content)
+): ImportResult {
+  const warnings: string[] = [];
+
+  if (!format) {
+    return {
+      success: false,
+      source,
+      transcripts: [],
+      warnings,
+      error: 'Unsupported file type. Use SRT, VTT, TXT or JSON.',
+    };
+  }
+
+  try {
+    let parsed: ParsedTranscript[];
+    switch (format) {
+      case 'srt':
+        parsed = [parseSRT(content)];
+        break;
+      case 'vtt':
+        parsed = [parseVTT(content)];
+        break;
+      case 'json':
+        parsed = parseJSON(content);
+        break;
+      case 'txt':
+      default:
+        parsed = [parseTXT(content)];
+        break;
+    }
+
+    if (parsed.every((entry) => entry.segments.length === 0)) {
+      throw new TranscriptImportError(`No ${format.toUpperCase()} cues or text found`);
+    }
+
+    return {
+      success: true,
+      source,
+      format,
+      transcripts: parsed.map((entry) => buildTranscript(entry, source, format, warnings)),
+      warnings,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      source,
+      format,
+      transcripts: [],
+      warnings,
+      error: error instanceof Error ? error.message : `Failed to import ${format.toUpperCase()}`,
+    };
+  }
+}
+
+/**
+ * Reads and parses an import file.
+ *
+ * @param file - File selected by the user
+ * @returns Import result with transcripts ready to save
+ */
+export async function importTranscriptFile(file: File): Promise<ImportResult> {
+  try {
+    const content = await file.text();
+    return importTranscriptContent(content, file.name);
+  } catch (error) {
+    return {
+      success: false,
+      source: file.name,
+      transcripts: [],
+      warnings: [],
+      error: error instanceof Error ? error.message : 'Failed to read file',
+    };
+  }
+}
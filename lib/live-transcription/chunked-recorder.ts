@@ -0,0 +1,172 @@
+/**
+ * Chunked Recorder
+ *
+ * Records a MediaStream as a sequence of self-contained audio files. A
+ * timesliced MediaRecorder only writes the container header into its first
+ * chunk, so later slices cannot be decoded on their own; instead this class
+ * restarts its recorder every `intervalMs` of active recording, giving each
+ * chunk its own header. It runs alongside the main recorder on the same
+ * stream, which still produces the full-length recording.
+ */
+
+import type { RecordingChunk } from '@/types/recording';
+
+export interface ChunkedRecorderOptions {
+  /** MIME type shared with the main recorder */
+  mimeType: string;
+
+  /** Milliseconds of active recording per chunk */
+  intervalMs: number;
+
+  /** Receives each chunk once its recorder has stopped */
+  onChunk: (chunk: RecordingChunk) => void;
+}
+
+interface ActiveChunk {
+  recorder: MediaRecorder;
+  end: number | null;
+  settle: () => void;
+}
+
+export class ChunkedRecorder {
+  private current: ActiveChunk | null = null;
+  private chunkIndex = 0;
+  private chunkStart = 0;
+  private activeMs = 0;
+  private resumedAt: number | null = null;
+  private rotationTimer: ReturnType<typeof setTimeout> | null = null;
+  private pending: Promise<void>[] = [];
+  private cancelled = false;
+
+  constructor(
+    private readonly stream: MediaStream,
+    private readonly options: ChunkedRecorderOptions
+  ) {}
+
+  start(): void {
+    this.resumedAt = Date.now();
+    this.beginChunk();
+    this.scheduleRotation();
+  }
+
+  pause(): void {
+    if (this.resumedAt === null || !this.current) return;
+    this.clearRotation();
+    this.activeMs += Date.now() - this.resumedAt;
+    this.resumedAt = null;
+    this.current.recorder.pause();
+  }
+
+  resume(): void {
+    if (this.resumedAt !== null || !this.current) return;
+    this.resumedAt = Date.now();
+    this.current.recorder.resume();
+    this.scheduleRotation();
+  }
+
+  /**
+   * Flushes the final chunk. Resolves once every chunk has been delivered.
+   */
+  async stop(): Promise<void> {
+    this.clearRotation();
+    if (this.resumedAt !== null) {
+      this.activeMs += Date.now() - this.resumedAt;
+      this.resumedAt = null;
+    }
+    this.finishChunk();
+    await Promise.all(this.pending);
+  }
+
+  /**
+   * Stops recording without delivering any further chunks.
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.clearRotation();
+    this.finishChunk();
+  }
+
+  private activeSeconds(): number {
+    const running = this.resumedAt === null ? 0 : Date.now() - this.resumedAt;
+    return (this.activeMs + running) / 1000;
+  }
+
+  private beginChunk(): void {
+    const { mimeType, onChunk } = this.options;
+    const recorder = new MediaRecorder(this.stream, { mimeType });
+    const index = this.chunkIndex++;
+    const offset = this.activeSeconds();
+    const parts: Blob[] = [];
+    const chunk: ActiveChunk = { recorder, end: null, settle: () => {} };
+
+    this.chunkStart = offset;
+    this.current = chunk;
+
+    recorder.ondataavailable = (e) => {
+      if (e.data && e.data.size > 0) {
+        parts.push(e.data);
+      }
+    };
+
+    this.pending.push(
+      new Promise<void>((resolve) => {
+        chunk.settle = resolve;
+        recorder.onstop = () => {
+          if (!this.cancelled) {
+            onChunk({
+              index,
+              offset,
+              duration: Math.max(0, (chunk.end ?? this.activeSeconds()) - offset),
+              blob: new Blob(parts, { type: mimeType }),
+            });
+          }
+          resolve();
+        };
+      })
+    );
+
+    recorder.start();
+  }
+
+  private finishChunk(): void {
+    const chunk = this.current;
+    this.current = null;
+    if (!chunk) return;
+
+    // onstop never fires for a recorder that is already inactive
+    if (chunk.recorder.state === 'inactive') {
+      chunk.settle();
+      return;
+    }
+
+    chunk.end = this.activeSeconds();
+    try {
+      chunk.recorder.stop();
+    } catch (err) {
+      console.warn('Error stopping chunk recorder:', err);
+      chunk.settle();
+    }
+  }
+
+  private rotate(): void {
+    this.finishChunk();
+    this.beginChunk();
+    this.scheduleRotation();
+  }
+
+  private scheduleRotation(): void {
+    this.clearRotation();
+    const elapsedMs = (this.activeSeconds() - this.chunkStart) * 1000;
+    this.rotationTimer = setTimeout(
+      () => this.rotate(),
+      Math.max(0, this.options.intervalMs - elapsedMs)
+    );
+  }
+
+  private clearRotation(): void {
+    if (this.rotationTimer) {
+      clearTimeout(this.rotationTimer);
+      this.rotationTimer = null;
+    }
+  }
+}
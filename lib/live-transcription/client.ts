@@ -0,0 +1,72 @@
+/**
+ * Live Chunk Upload
+ *
+ * Sends one recording chunk to /api/transcribe. Summaries are skipped for
+ * chunks; a meeting is only worth summarizing as a whole.
+ */
+
+import type { Transcript } from '@/types/transcript';
+import type { RecordingChunk } from '@/types/recording';
+
+export interface LiveTranscriptionOptions {
+  /** Transcription model (defaults to the server's configured model) */
+  model?: string;
+  /** Language code (auto-detect if not provided) */
+  language?: string;
+  /** Enable speaker diarization */
+  enableSpeakerDetection?: boolean;
+}
+
+/**
+ * Chunks below this size are rejected by /api/transcribe, so they are
+ * treated as silence rather than uploaded.
+ */
+export const MIN_CHUNK_BYTES = 1024;
+
+function chunkFilename(chunk: RecordingChunk): string {
+  const extension = chunk.blob.type.includes('mp4') ? 'mp4' : 'webm';
+  return `live-chunk-${chunk.index}.${extension}`;
+}
+
+/**
+ * Transcribes a single chunk.
+ *
+ * @throws Error with the API's message if transcription fails
+ */
+export async function transcribeChunk(
+  chunk: RecordingChunk,
+  options: LiveTranscriptionOptions = {},
+  signal?: AbortSignal
+): Promise<Transcript> {
+  const formData = new FormData();
+  formData.append(
+    'file',
+    new File([chunk.blob], chunkFilename(chunk), { type: chunk.blob.type })
+  );
+  formData.append('partIndex', String(chunk.index));
+  formData.append('summarize', 'false');
+  if (options.language) {
+    formData.append('language', options.language);
+  }
+  if (options.model) {
+    formData.append('model', options.model);
+  }
+  if (options.enableSpeakerDetection !== undefined) {
+    formData.append('enableSpeakerDetection', String(options.enableSpeakerDetection));
+  }
+
+  const response = await fetch('/api/transcribe', {
+    method: 'POST',
+    body: formData,
+    signal,
+  });
+  const payload = (await response.json().catch(() => null)) as
+    | { success?: boolean; data?: Transcript; error?: string }
+    | null;
+
+  if (!response.ok || !payload?.success || !payload.data) {
+    throw new Error(payload?.error || `Chunk transcription failed (${response.status})`);
+  }
+
+  return payload.data;
+}
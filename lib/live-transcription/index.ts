@@ -0,0 +1,31 @@
+/**
+ * Live Transcription Module Entry Point
+ *
+ * Provides a centralized export point for transcribing a recording while
+ * it is still in progress.
+ */
+
+/**
+ * Seconds of audio per live chunk. Shorter chunks show text sooner but
+ * give the model less context at each boundary.
+ */
+export const LIVE_CHUNK_SECONDS = 30;
+
+// Re-export chunked recording
+export { ChunkedRecorder, type ChunkedRecorderOptions } from './chunked-recorder';
+
+// Re-export chunk upload
+export {
+  MIN_CHUNK_BYTES,
+  transcribeChunk,
+  type LiveTranscriptionOptions,
+} from './client';
+
+// Re-export stitching (main API)
+export {
+  assembleLiveTranscript,
+  stitchLiveChunks,
+  type AssembleLiveTranscriptOptions,
+  type LiveChunkResult,
+  type StitchedTranscript,
+} from './stitch';
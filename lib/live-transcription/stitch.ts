@@ -0,0 +1,119 @@
+/**
+ * Live Transcript Stitching
+ *
+ * Joins per-chunk transcription results into one growing transcript. Each
+ * chunk is transcribed as its own file, so its segment and word times start
+ * at zero; they are shifted by the chunk's offset into the recording and
+ * the segments renumbered.
+ *
+ * Speaker labels are kept as returned. Diarization runs per chunk, so the
+ * same label in two chunks is not guaranteed to be the same person.
+ */
+
+import { generateTranscriptId } from '@/lib/transcription-utils';
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+
+/**
+ * A transcribed chunk of a live recording
+ */
+export interface LiveChunkResult {
+  /** Zero-based chunk position */
+  index: number;
+  /** Seconds of recording before the chunk started */
+  offset: number;
+  /** Seconds of recording covered by the chunk */
+  duration: number;
+  /** Transcription of the chunk alone */
+  transcript: Transcript;
+}
+
+export interface StitchedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  /** Seconds of recording covered by the stitched chunks */
+  duration: number;
+}
+
+export interface AssembleLiveTranscriptOptions {
+  filename: string;
+  /** Size of the full recording in bytes */
+  fileSize: number;
+  /** Length of the full recording, when known, in seconds */
+  duration?: number;
+  createdAt?: Date;
+}
+
+/**
+ * Stitches chunk results in recording order.
+ *
+ * Chunks may arrive out of order or with gaps (a chunk still in flight);
+ * the result always reflects whatever has been transcribed so far.
+ */
+export function stitchLiveChunks(chunks: LiveChunkResult[]): StitchedTranscript {
+  const ordered = [...chunks].sort((a, b) => a.index - b.index);
+  const segments: TranscriptSegment[] = [];
+  const texts: string[] = [];
+  let duration = 0;
+
+  for (const chunk of ordered) {
+    const { offset, transcript } = chunk;
+
+    for (const segment of transcript.segments) {
+      segments.push({
+        ...segment,
+        index: segments.length,
+        start: segment.start + offset,
+        end: segment.end + offset,
+        ...(segment.words && {
+          words: segment.words.map((word) => ({
+            ...word,
+            start: word.start + offset,
+            end: word.end + offset,
+          })),
+        }),
+      });
+    }
+
+    const text = transcript.text.trim();
+    if (text) {
+      texts.push(text);
+    }
+    duration = Math.max(duration, offset + chunk.duration);
+  }
+
+  return { text: texts.join(' '), segments, duration };
+}
+
+/**
+ * Builds the final transcript for a recording from all of its chunks.
+ *
+ * @throws Error if no chunks were transcribed
+ */
+export function assembleLiveTranscript(
+  chunks: LiveChunkResult[],
+  options: AssembleLiveTranscriptOptions
+): Transcript {
+  if (chunks.length === 0) {
+    throw new Error('No transcribed chunks to assemble');
+  }
+
+  const { text, segments, duration } = stitchLiveChunks(chunks);
+  const first = [...chunks].sort((a, b) => a.index - b.index)[0].transcript;
+  const language = chunks
+    .map((chunk) => chunk.transcript.metadata.language)
+    .find((value): value is string => Boolean(value));
+
+  return {
+    id: generateTranscriptId(),
+    filename: options.filename,
+    text,
+    segments,
+    metadata: {
+      model: first.metadata.model,
+      language,
+      fileSize: options.fileSize,
+      duration: Math.max(duration, options.duration ?? 0),
+    },
+    createdAt: options.createdAt ?? new Date(),
+  };
+}
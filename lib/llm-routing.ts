@@ -0,0 +1,398 @@
+/**
+ * LLM Model Routing
+ *
+ * Chooses the backend and model for each LLM task (summary, analysis,
+ * evaluation, chat). Backends are Azure OpenAI, OpenAI, or a self-hosted
+ * OpenAI-compatible server (Ollama, vLLM, llama.cpp server). Each route
+ * carries the model's context limit, and `runWithFallback` retries a task on
+ * the secondary backend when the primary fails.
+ *
+ * Configuration (see .env.local.example):
+ * - LLM_PRIMARY_BACKEND / LLM_FALLBACK_BACKEND: azure | openai | local
+ * - LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY
+ * - LLM_{SUMMARY,ANALYSIS,EVALUATION,CHAT}_MODEL: `[backend:]model`
+ * - LLM_CONTEXT_LIMITS: `model=tokens,...`
+ */
+
+import OpenAI, { AzureOpenAI } from 'openai';
+import { z } from 'zod';
+import { OpenAIConfigError, buildChatCompletionParams } from './openai';
+import { TOKEN_LIMITS, estimateTokens } from './token-utils';
+import {
+  buildModelRoutingConfig,
+  buildOpenAIConfig,
+  formatValidationError,
+  parseEnvironmentVariables,
+  validEnvironmentSchema,
+  type EnvironmentVariables,
+  type LLMBackendId,
+  type LLMTask,
+  type ModelRoutingConfig,
+} from './validations/config';
+
+export type { LLMBackendId, LLMTask, ModelRoutingConfig };
+
+/**
+ * Backend and model chosen for a task
+ */
+export interface ModelRoute {
+  /** Backend serving the model */
+  backend: LLMBackendId;
+  /** Model or deployment name */
+  model: string;
+  /** Context window in tokens */
+  contextLimit: number;
+  /** Whether the model was explicitly assigned to the task */
+  assigned: boolean;
+}
+
+/**
+ * Options for {@link runWithFallback}
+ */
+export interface FallbackOptions {
+  /** Task name for logging */
+  label: string;
+  /** Abort signal; aborted calls are never retried on another backend */
+  signal?: AbortSignal;
+}
+
+/**
+ * Cached environment and routing configuration
+ */
+let routingCache: { env: EnvironmentVariables; config: ModelRoutingConfig } | null = null;
+
+/**
+ * Cached clients, one per backend
+ */
+const clientCache = new Map<LLMBackendId, OpenAI>();
+
+/**
+ * Convert Zod validation errors into configuration errors
+ */
+function toConfigError(error: unknown, label: string): unknown {
+  if (error instanceof z.ZodError) {
+    return new OpenAIConfigError(
+      `${label} validation failed:\n${formatValidationError(error)}\n\n` +
+      'Please check your .env.local file. See .env.local.example for the correct format.'
+    );
+  }
+  return error;
+}
+
+function getRoutingState(): { env: EnvironmentVariables; config: ModelRoutingConfig } {
+  if (!routingCache) {
+    try {
+      const env = parseEnvironmentVariables(process.env as Record<string, string | undefined>);
+      routingCache = { env, config: buildModelRoutingConfig(env) };
+    } catch (error) {
+      throw toConfigError(error, 'Model routing configuration');
+    }
+  }
+  return routingCache;
+}
+
+/**
+ * Get the current model routing configuration
+ *
+ * @returns Routing configuration (primary/fallback backends, task assignments, context limits)
+ * @throws {OpenAIConfigError} If the configuration is invalid
+ */
+export function getModelRoutingConfig(): ModelRoutingConfig {
+  return getRoutingState().config;
+}
+
+/**
+ * Get the client for a backend
+ *
+ * Credentials are validated on first use, so a misconfigured fallback does
+ * not prevent the primary backend from working.
+ *
+ * @throws {OpenAIConfigError} If the backend is not configured
+ */
+export function getBackendClient(backend: LLMBackendId): OpenAI {
+  const cached = clientCache.get(backend);
+  if (cached) {
+    return cached;
+  }
+
+  const { env, config } = getRoutingState();
+  let client: OpenAI;
+
+  try {
+    if (backend === 'local') {
+      if (!config.local) {
+        throw new OpenAIConfigError(
+          'The local LLM backend is not configured. Set LOCAL_LLM_BASE_URL and LOCAL_LLM_MODEL.'
+        );
+      }
+      // Self-hosted servers usually ignore the key, but the SDK requires one
+      client = new OpenAI({
+        apiKey: config.local.apiKey ?? 'local',
+        baseURL: config.local.baseUrl,
+      });
+    } else {
+      const cloud = buildOpenAIConfig(validEnvironmentSchema.parse(env), backend);
+      client =
+        cloud.provider === 'azure'
+          ? new AzureOpenAI({
+              apiKey: cloud.apiKey,
+              endpoint: cloud.endpoint,
+              apiVersion: cloud.apiVersion,
+            })
+          : new OpenAI({
+              apiKey: cloud.apiKey,
+              organization: cloud.organizationId,
+            });
+    }
+  } catch (error) {
+    throw toConfigError(error, `${backend} backend configuration`);
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('[LLM Routing] Initialized client', { backend });
+  }
+
+  clientCache.set(backend, client);
+  return client;
+}
+
+/**
+ * Models available on a backend: the default model and, for Azure, the
+ * extended context deployment used for very long transcripts
+ */
+function getBackendModels(backend: LLMBackendId): { standard: string; extended?: string } {
+  const { env, config } = getRoutingState();
+
+  switch (backend) {
+    case 'azure':
+      return {
+        standard: env.AZURE_OPENAI_GPT5_DEPLOYMENT ?? env.AZURE_OPENAI_GPT4_DEPLOYMENT ?? 'gpt-5',
+        extended: env.AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT,
+      };
+    case 'openai':
+      return { standard: 'gpt-5' };
+    case 'local':
+      return { standard: config.local?.model ?? 'local' };
+  }
+}
+
+/**
+ * Context window of a model, in tokens
+ *
+ * `LLM_CONTEXT_LIMITS` takes precedence; otherwise cloud models use the
+ * standard or extended GPT limits and local models a conservative default.
+ *
+ * @param backend - Backend serving the model
+ * @param model - Model or deployment name
+ */
+export function getModelContextLimit(backend: LLMBackendId, model: string): number {
+  const { config } = getRoutingState();
+  const configured = config.contextLimits[model];
+  if (configured) {
+    return configured;
+  }
+
+  if (backend === 'local') {
+    return TOKEN_LIMITS.local;
+  }
+  return model === getBackendModels(backend).extended ? TOKEN_LIMITS.extended : TOKEN_LIMITS.standard;
+}
+
+/**
+ * Pick the model for a task on one backend
+ *
+ * Uses the task's assigned model when it targets this backend, otherwise
+ * the backend default. Switches to the extended context model when the
+ * input does not fit and one is available.
+ */
+function selectRoute(backend: LLMBackendId, task: LLMTask, estimatedTokens: number): ModelRoute {
+  const { config } = getRoutingState();
+  const assignment = config.tasks[task];
+  const assigned = !!assignment && (assignment.backend ?? config.primary) === backend;
+  const models = getBackendModels(backend);
+
+  const model = assigned ? assignment!.model : models.standard;
+  const route: ModelRoute = {
+    backend,
+    model,
+    contextLimit: getModelContextLimit(backend, model),
+    assigned,
+  };
+
+  if (estimatedTokens >= route.contextLimit && models.extended && models.extended !== model) {
+    const extendedLimit = getModelContextLimit(backend, models.extended);
+    if (extendedLimit > route.contextLimit) {
+      console.log(
+        `[LLM Routing] Using extended context model '${models.extended}' for ` +
+        `${estimatedTokens.toLocaleString()} token ${task} (limit ${route.contextLimit.toLocaleString()})`
+      );
+      return { backend, model: models.extended, contextLimit: extendedLimit, assigned: false };
+    }
+  }
+
+  if (estimatedTokens >= route.contextLimit) {
+    console.warn(
+      `[LLM Routing] Warning: ${task} input has ${estimatedTokens.toLocaleString()} tokens, ` +
+      `exceeding the ${route.contextLimit.toLocaleString()} token context of '${model}'. ` +
+      'The request may fail or be truncated.'
+    );
+  }
+
+  return route;
+}
+
+/**
+ * Resolve the routes for a task, primary first
+ *
+ * The first route uses the backend the task is assigned to (or the primary
+ * backend); the second, if configured, uses `LLM_FALLBACK_BACKEND`.
+ *
+ * @param task - LLM task
+ * @param estimatedTokens - Estimated input size, used to pick an extended context model
+ * @returns Routes to try in order
+ * @throws {OpenAIConfigError} If the routing configuration is invalid
+ *
+ * @example
+ * ```typescript
+ * const routes = resolveModelRoutes('chat', estimateTokens(transcript.text));
+ * console.log(`Chat uses ${routes[0].model} on ${routes[0].backend}`);
+ * ```
+ */
+export function resolveModelRoutes(task: LLMTask, estimatedTokens = 0): ModelRoute[] {
+  const { config } = getRoutingState();
+  const first = config.tasks[task]?.backend ?? config.primary;
+
+  const routes = [selectRoute(first, task, estimatedTokens)];
+  if (config.fallback && config.fallback !== first) {
+    routes.push(selectRoute(config.fallback, task, estimatedTokens));
+  }
+  return routes;
+}
+
+/**
+ * Run a task on each route in turn until one succeeds
+ *
+ * @param routes - Routes from {@link resolveModelRoutes}
+ * @param run - Task to run with a route's client and model
+ * @param options - Logging label and abort signal
+ * @returns Result of the first successful run
+ * @throws The last route's error if every route fails
+ *
+ * @example
+ * ```typescript
+ * const completion = await runWithFallback(
+ *   resolveModelRoutes('summary'),
+ *   (client, route) => client.chat.completions.create({ model: route.model, messages }),
+ *   { label: 'Summary' }
+ * );
+ * ```
+ */
+export async function runWithFallback<T>(
+  routes: ModelRoute[],
+  run: (client: OpenAI, route: ModelRoute) => Promise<T>,
+  options: FallbackOptions
+): Promise<T> {
+  let lastError: unknown = new OpenAIConfigError(`No model route available for ${options.label}`);
+
+  for (let i = 0; i < routes.length; i++) {
+    const route = routes[i];
+    try {
+      return await run(getBackendClient(route.backend), route);
+    } catch (error) {
+      lastError = error;
+      const next = routes[i + 1];
+      if (options.signal?.aborted || !next) {
+        throw error;
+      }
+
+      console.warn(
+        `[LLM Routing] ${options.label} failed on ${route.backend} (${route.model}), ` +
+        `falling back to ${next.backend} (${next.model}):`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Reset the cached routing configuration and clients
+ *
+ * Useful for testing or when environment variables change at runtime.
+ */
+export function resetModelRouting(): void {
+  routingCache = null;
+  clientCache.clear();
+}
+
+/**
+ * Generate a brief summary of transcript text
+ *
+ * Creates a concise 1-2 sentence summary capturing the main topic
+ * and key points of the transcript, using the `summary` task's model.
+ *
+ * @param transcriptText - The full transcript text (will be truncated if too long)
+ * @returns Promise resolving to the generated summary, or '' on failure
+ *
+ * @example
+ * ```typescript
+ * const summary = await generateTranscriptSummary(transcript.text);
+ * // "Team discussed Q4 marketing budget allocation and approved $50K for social media campaigns."
+ * ```
+ */
+export async function generateTranscriptSummary(transcriptText: string): Promise<string> {
+  // Truncate text to first 4000 chars to keep tokens reasonable
+  const truncatedText = transcriptText.slice(0, 4000);
+
+  try {
+    // Inside the try: transcription may run on a local server without an LLM configured
+    const routes = resolveModelRoutes('summary', estimateTokens(truncatedText));
+
+    const { response, route } = await runWithFallback(
+      routes,
+      async (client, route) => ({
+        route,
+        response: await client.chat.completions.create({
+          model: route.model,
+          messages: [
+            {
+              role: 'system',
+              content: `You are a concise summarizer. Generate a 1-2 sentence summary of the transcript that captures:
+- The main topic or purpose of the discussion
+- Key decisions or outcomes (if any)
+
+Keep it brief and informative. Do not start with "This transcript..." or "The meeting...". Write in a direct, professional style.`,
+            },
+            {
+              role: 'user',
+              content: truncatedText,
+            },
+          ],
+          ...buildChatCompletionParams(route.model, 150, 0.3),
+        }),
+      }),
+      { label: 'Summary' }
+    );
+
+    const summary = response.choices[0]?.message?.content?.trim();
+
+    if (!summary) {
+      console.warn('[LLM Routing] Summary generation returned empty response');
+      return '';
+    }
+
+    console.log('[LLM Routing] Generated transcript summary:', {
+      backend: route.backend,
+      model: route.model,
+      inputLength: truncatedText.length,
+      summaryLength: summary.length,
+    });
+
+    return summary;
+  } catch (error) {
+    console.error('[LLM Routing] Failed to generate transcript summary:', error);
+    // Return empty string instead of throwing - summary is optional
+    return '';
+  }
+}
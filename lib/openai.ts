@@ -4,6 +4,7 @@
  * This module provides a properly configured OpenAI client with support for:
  * - Azure OpenAI Service (primary)
  * - Standard OpenAI API (fallback)
+ * - Self-hosted OpenAI-compatible speech servers (transcription only)
  * - Environment variable validation with Zod
  * - Type-safe configuration access
  */
@@ -12,10 +13,13 @@ import OpenAI, { AzureOpenAI } from 'openai';
 import { z } from 'zod';
 import {
   validateEnvironmentVariables as validateEnvVars,
+  parseEnvironmentVariables,
   buildOpenAIConfig,
+  buildTranscriptionConfig,
   formatValidationError,
   loadEnvironmentVariablesAsync,
   type OpenAIConfig,
+  type TranscriptionConfig,
   type EnvironmentVariables,
 } from './validations/config';
 import { isKeyVaultAvailable, getKeyVaultSummary } from './azure-key-vault';
@@ -31,7 +35,7 @@ export class OpenAIConfigError extends Error {
 }
 
 // Re-export types for convenience
-export type { OpenAIConfig, EnvironmentVariables };
+export type { OpenAIConfig, TranscriptionConfig, EnvironmentVariables };
 
 /**
  * Cached client instance (singleton pattern)
@@ -48,6 +52,11 @@ let transcriptionClientInstance: OpenAI | null = null;
  */
 let configCache: OpenAIConfig | null = null;
 
+/**
+ * Cached transcription configuration (may point at a local speech server)
+ */
+let transcriptionConfigCache: TranscriptionConfig | null = null;
+
 /**
  * Validate and build configuration from environment variables
  *
@@ -77,6 +86,26 @@ function buildConfiguration(): OpenAIConfig {
   }
 }
 
+/**
+ * Validate and build the transcription configuration from environment variables
+ */
+function buildTranscriptionConfiguration(): TranscriptionConfig {
+  try {
+    const env = parseEnvironmentVariables(process.env as Record<string, string | undefined>);
+    return buildTranscriptionConfig(env);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const formattedError = formatValidationError(error);
+      throw new OpenAIConfigError(
+        `Transcription configuration validation failed:\n${formattedError}\n\n` +
+        'Set TRANSCRIPTION_PROVIDER and the LOCAL_WHISPER_* variables for a self-hosted server, ' +
+        'or configure Azure OpenAI / OpenAI. See .env.local.example for the correct format.'
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Get the current OpenAI configuration
  *
@@ -90,6 +119,22 @@ export function getConfiguration(): OpenAIConfig {
   return configCache;
 }
 
+/**
+ * Get the current transcription configuration
+ *
+ * Transcription follows the OpenAI configuration unless a local speech
+ * server is configured (`TRANSCRIPTION_PROVIDER=local` or `LOCAL_WHISPER_BASE_URL`).
+ *
+ * @returns Transcription configuration object
+ * @throws {OpenAIConfigError} If configuration is invalid or missing
+ */
+export function getTranscriptionConfiguration(): TranscriptionConfig {
+  if (!transcriptionConfigCache) {
+    transcriptionConfigCache = buildTranscriptionConfiguration();
+  }
+  return transcriptionConfigCache;
+}
+
 /**
  * Check if using Azure OpenAI service
  *
@@ -164,8 +209,9 @@ export function getOpenAIClient(): OpenAI {
  * Get the configured OpenAI client for transcription
  *
  * This function returns a singleton instance of the OpenAI client
- * configured specifically for transcription with API version 2025-03-01-preview.
- * Azure OpenAI's GPT-4o transcription endpoint requires this newer API version.
+ * configured specifically for transcription. For Azure it uses API version
+ * 2025-03-01-preview, which the GPT-4o transcription endpoint requires; for a
+ * local provider it targets the configured OpenAI-compatible base URL.
  *
  * @returns Configured OpenAI client instance for transcription
  * @throws {OpenAIConfigError} If configuration is invalid or missing
@@ -184,10 +230,23 @@ export function getTranscriptionClient(): OpenAI {
     return transcriptionClientInstance;
   }
 
-  const config = getConfiguration();
+  const config = getTranscriptionConfiguration();
 
   try {
-    if (config.provider === 'azure') {
+    if (config.provider === 'local') {
+      // Self-hosted servers usually ignore the key, but the SDK requires one
+      transcriptionClientInstance = new OpenAI({
+        apiKey: config.apiKey ?? 'local',
+        baseURL: config.baseUrl,
+      });
+
+      if (process.env.NODE_ENV === 'development') {
+        console.log('[OpenAI] Initialized local transcription client', {
+          baseUrl: config.baseUrl,
+          model: config.model,
+        });
+      }
+    } else if (config.provider === 'azure') {
       // Configure Azure OpenAI client with transcription API version
       transcriptionClientInstance = new AzureOpenAI({
         apiKey: config.apiKey,
@@ -203,8 +262,11 @@ export function getTranscriptionClient(): OpenAI {
         });
       }
     } else {
-      // For standard OpenAI, use the regular client
-      transcriptionClientInstance = getOpenAIClient();
+      // Configure standard OpenAI client
+      transcriptionClientInstance = new OpenAI({
+        apiKey: config.apiKey,
+        organization: config.organizationId,
+      });
     }
 
     return transcriptionClientInstance;
@@ -220,6 +282,7 @@ export function getTranscriptionClient(): OpenAI {
  *
  * For Azure OpenAI, this returns the deployment name.
  * For standard OpenAI, this returns the model identifier.
+ * For a local speech server, this returns the configured model.
  *
  * @returns Whisper deployment or model name
  * @throws {OpenAIConfigError} If configuration is invalid
@@ -234,7 +297,11 @@ export function getTranscriptionClient(): OpenAI {
  * ```
  */
 export function getWhisperDeployment(): string {
-  const config = getConfiguration();
+  const config = getTranscriptionConfiguration();
+
+  if (config.provider === 'local') {
+    return config.model;
+  }
 
   if (config.provider === 'azure') {
     if (!config.whisperDeployment) {
@@ -308,7 +375,7 @@ export function validateEnvironment(): void {
 
     // Additional warnings for optional but recommended fields
     if (config.provider === 'azure') {
-      if (!config.whisperDeployment) {
+      if (!config.whisperDeployment && getTranscriptionConfiguration().provider === 'azure') {
         console.warn(
           '[OpenAI] Warning: AZURE_OPENAI_WHISPER_DEPLOYMENT not set. ' +
           'Whisper transcription will not work without this.'
@@ -352,6 +419,7 @@ export function resetClient(): void {
   clientInstance = null;
   transcriptionClientInstance = null;
   configCache = null;
+  transcriptionConfigCache = null;
   console.log('[OpenAI] Client and configuration cache cleared');
 }
 
@@ -411,6 +479,7 @@ export async function initializeConfiguration(): Promise<OpenAIConfig> {
 
       // Update cache
       configCache = config;
+      transcriptionConfigCache = buildTranscriptionConfig(env);
 
       console.log('[OpenAI] Configuration loaded from Key Vault', {
         provider: config.provider,
@@ -447,7 +516,7 @@ export async function initializeAndValidate(): Promise<void> {
 
   // Additional warnings for optional but recommended fields
   if (config.provider === 'azure') {
-    if (!config.whisperDeployment) {
+    if (!config.whisperDeployment && getTranscriptionConfiguration().provider === 'azure') {
       console.warn(
         '[OpenAI] Warning: AZURE_OPENAI_WHISPER_DEPLOYMENT not set. ' +
         'Whisper transcription will not work without this.'
@@ -506,66 +575,3 @@ export function buildChatCompletionParams(
   if (temperature !== undefined) params.temperature = temperature;
   return params;
 }
-
-/**
- * Generate a brief summary of transcript text using GPT
- *
- * Creates a concise 1-2 sentence summary capturing the main topic
- * and key points of the transcript.
- *
- * @param transcriptText - The full transcript text (will be truncated if too long)
- * @returns Promise resolving to the generated summary string
- * @throws {Error} If the API call fails
- *
- * @example
- * ```typescript
- * const summary = await generateTranscriptSummary(transcript.text);
- * // "Team discussed Q4 marketing budget allocation and approved $50K for social media campaigns."
- * ```
- */
-export async function generateTranscriptSummary(transcriptText: string): Promise<string> {
-  const client = getOpenAIClient();
-  const deployment = getGPTAnalysisDeployment();
-
-  // Truncate text to first 4000 chars to keep tokens reasonable
-  const truncatedText = transcriptText.slice(0, 4000);
-
-  try {
-    const response = await client.chat.completions.create({
-      model: deployment,
-      messages: [
-        {
-          role: 'system',
-          content: `You are a concise summarizer. Generate a 1-2 sentence summary of the transcript that captures:
-- The main topic or purpose of the discussion
-- Key decisions or outcomes (if any)
-
-Keep it brief and informative. Do not start with "This transcript..." or "The meeting...". Write in a direct, professional style.`,
-        },
-        {
-          role: 'user',
-          content: truncatedText,
-        },
-      ],
-      ...buildChatCompletionParams(deployment, 150, 0.3),
-    });
-
-    const summary = response.choices[0]?.message?.content?.trim();
-
-    if (!summary) {
-      console.warn('[OpenAI] Summary generation returned empty response');
-      return '';
-    }
-
-    console.log('[OpenAI] Generated transcript summary:', {
-      inputLength: truncatedText.length,
-      summaryLength: summary.length,
-    });
-
-    return summary;
-  } catch (error) {
-    console.error('[OpenAI] Failed to generate transcript summary:', error);
-    // Return empty string instead of throwing - summary is optional
-    return '';
-  }
-}
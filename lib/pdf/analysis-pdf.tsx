@@ -17,6 +17,7 @@ import {
 } from "@react-pdf/renderer";
 import { Analysis, Transcript } from "@/types";
 import type { Template } from "@/types";
+import { getSpeakerDisplayName } from "@/lib/speaker-roster";
 
 /**
  * Register fonts for better typography
@@ -570,7 +571,8 @@ const DecisionsTimeline: React.FC<{
  */
 const QuotesSection: React.FC<{
   quotes: NonNullable<Analysis["results"]["quotes"]>;
-}> = ({ quotes }) => (
+  speakers?: Transcript["speakers"];
+}> = ({ quotes, speakers }) => (
   <View style={styles.quotesSection}>
     <Text style={styles.sectionTitle}>Notable Quotes</Text>
 
@@ -579,7 +581,9 @@ const QuotesSection: React.FC<{
         <Text style={styles.quoteText}>&quot;{quote.text}&quot;</Text>
         <View style={styles.quoteFooter}>
           {quote.speaker && (
-            <Text style={styles.quoteSpeaker}>— {quote.speaker}</Text>
+            <Text style={styles.quoteSpeaker}>
+              — {getSpeakerDisplayName(quote.speaker, speakers)}
+            </Text>
           )}
           <Text style={styles.quoteTimestamp}>
             {formatTimestamp(quote.timestamp)}
@@ -676,7 +680,10 @@ export const AnalysisPDFDocument: React.FC<AnalysisPDFDocumentProps> = ({
 
           {/* Notable Quotes */}
           {analysis.results.quotes && analysis.results.quotes.length > 0 && (
-            <QuotesSection quotes={analysis.results.quotes} />
+            <QuotesSection
+              quotes={analysis.results.quotes}
+              speakers={transcript.speakers}
+            />
           )}
         </View>
 
@@ -15,6 +15,7 @@ import {
   Font,
 } from "@react-pdf/renderer";
 import { Transcript } from "@/types";
+import { applySpeakerRoster, buildSpeakerAttributedText } from "@/lib/speaker-roster";
 
 /**
  * Register fonts for better typography
@@ -345,6 +346,10 @@ export const TranscriptPDFDocument: React.FC<TranscriptPDFDocumentProps> = ({
   // Group segments by page (approximately 10-15 segments per page depending on text length)
   // This is handled automatically by react-pdf's layout engine, but we can optimize rendering
 
+  // Show roster names instead of raw diarization labels
+  const segments = applySpeakerRoster(transcript.segments, transcript.speakers);
+  const fullText = buildSpeakerAttributedText(transcript);
+
   return (
     <Document
       title={`Transcript - ${transcript.filename}`}
@@ -359,22 +364,22 @@ export const TranscriptPDFDocument: React.FC<TranscriptPDFDocumentProps> = ({
 
         <View style={styles.content}>
           {/* Full Transcript Text Section */}
-          {includeFullText && transcript.text && (
+          {includeFullText && fullText && (
             <>
               <Text style={styles.sectionTitle}>Full Transcript</Text>
               <View style={styles.fullTranscript}>
-                <Text style={styles.fullTranscriptText}>{transcript.text}</Text>
+                <Text style={styles.fullTranscriptText}>{fullText}</Text>
               </View>
             </>
           )}
 
           {/* Timestamped Segments Section */}
-          {includeSegments && transcript.segments.length > 0 && (
+          {includeSegments && segments.length > 0 && (
             <>
               <Text style={styles.sectionTitle}>
-                Timestamped Segments ({transcript.segments.length})
+                Timestamped Segments ({segments.length})
               </Text>
-              {transcript.segments.map((segment) => (
+              {segments.map((segment) => (
                 <PDFSegment key={segment.index} segment={segment} />
               ))}
             </>
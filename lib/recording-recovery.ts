@@ -0,0 +1,173 @@
+/**
+ * Recording Recovery
+ *
+ * Persists in-progress recordings to IndexedDB one MediaRecorder chunk at a
+ * time, so a browser crash, tab discard or laptop sleep loses at most the
+ * last second of audio. A session is deleted once its recording has been
+ * saved or discarded; any session left over is an interrupted recording.
+ *
+ * Each session holds a Web Lock for as long as this tab owns it. Sessions
+ * whose lock is held by another tab are still live there and are not
+ * offered for recovery.
+ */
+
+import { nanoid } from 'nanoid';
+import {
+  appendRecordingChunk,
+  deleteRecordingSession,
+  getRecordingSessions,
+  saveRecordingSession,
+} from './db';
+import type { RecordingMode, RecordingSession } from '@/types/recording';
+
+const LOCK_PREFIX = 'recording-session:';
+
+/**
+ * Write state of a session owned by this tab
+ */
+interface OwnedSession {
+  /** Next chunk sequence number */
+  seq: number;
+  /** Serializes writes so chunks land in order */
+  writes: Promise<void>;
+  /** Set after the first failed write; later chunks are not attempted */
+  failed: boolean;
+  /** Releases the session's Web Lock */
+  release: () => void;
+}
+
+const ownedSessions = new Map<string, OwnedSession>();
+
+/**
+ * Holds a Web Lock until the returned function is called.
+ * A no-op where the Web Locks API is unavailable.
+ */
+function holdLock(name: string): () => void {
+  let released = false;
+  let release = () => {
+    released = true;
+  };
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    void navigator.locks.request(
+      name,
+      () =>
+        new Promise<void>((resolve) => {
+          if (released) {
+            resolve();
+            return;
+          }
+          release = resolve;
+        })
+    );
+  }
+
+  return () => release();
+}
+
+/**
+ * Starts persisting a new recording.
+ *
+ * @returns The session ID to pass to persistRecordingChunk and closeRecordingSession
+ */
+export function beginRecordingSession(mode: RecordingMode, mimeType: string): string {
+  const id = nanoid();
+  const now = new Date();
+  const session: RecordingSession = {
+    id,
+    mode,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    duration: 0,
+    chunkCount: 0,
+    size: 0,
+  };
+
+  const owned: OwnedSession = {
+    seq: 0,
+    writes: saveRecordingSession(session),
+    failed: false,
+    release: holdLock(LOCK_PREFIX + id),
+  };
+  owned.writes = owned.writes.catch((error) => {
+    owned.failed = true;
+    console.error('Failed to start recording session; recovery is unavailable:', error);
+  });
+  ownedSessions.set(id, owned);
+
+  return id;
+}
+
+/**
+ * Queues a chunk for persistence.
+ *
+ * Failures are logged and stop further writes for the session; they never
+ * interrupt the recording itself, which is still held in memory.
+ *
+ * @param duration - Seconds of active recording up to the end of this chunk
+ */
+export function persistRecordingChunk(sessionId: string, blob: Blob, duration: number): void {
+  const owned = ownedSessions.get(sessionId);
+  if (!owned) return;
+
+  const seq = owned.seq++;
+  owned.writes = owned.writes.then(async () => {
+    if (owned.failed) return;
+    try {
+      await appendRecordingChunk({ sessionId, seq, blob }, duration);
+    } catch (error) {
+      owned.failed = true;
+      console.error('Failed to persist recording chunk; recovery will stop here:', error);
+    }
+  });
+}
+
+/**
+ * Deletes a session once its recording has been saved or discarded.
+ */
+export async function closeRecordingSession(sessionId: string): Promise<void> {
+  const owned = ownedSessions.get(sessionId);
+  if (owned) {
+    ownedSessions.delete(sessionId);
+    await owned.writes;
+  }
+
+  try {
+    await deleteRecordingSession(sessionId);
+  } finally {
+    owned?.release();
+  }
+}
+
+/**
+ * Lists sessions left behind by an interrupted recording.
+ *
+ * Sessions that never received audio are deleted rather than returned.
+ */
+export async function findInterruptedSessions(): Promise<RecordingSession[]> {
+  const sessions = await getRecordingSessions();
+  if (sessions.length === 0) return [];
+
+  const heldLocks = new Set<string>();
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    const { held = [] } = await navigator.locks.query();
+    for (const lock of held) {
+      if (lock.name) heldLocks.add(lock.name);
+    }
+  }
+
+  const interrupted: RecordingSession[] = [];
+  for (const session of sessions) {
+    if (ownedSessions.has(session.id) || heldLocks.has(LOCK_PREFIX + session.id)) {
+      continue;
+    }
+    if (session.chunkCount === 0) {
+      await deleteRecordingSession(session.id);
+      continue;
+    }
+    interrupted.push(session);
+  }
+
+  return interrupted;
+}
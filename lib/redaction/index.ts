@@ -0,0 +1,24 @@
+/**
+ * Redaction Module Entry Point
+ *
+ * Provides a centralized export point for redacting PII from transcripts
+ * and their audio.
+ */
+
+// Re-export range and text helpers
+export {
+  REDACTED_PLACEHOLDER,
+  mergeRedactionRanges,
+  selectionToTimeSpan,
+  redactSegments,
+  type RedactionRange,
+  type TimeSpan,
+} from './ranges';
+
+// Re-export redacted copies (main API)
+export {
+  buildRedactedTranscript,
+  createRedactedCopy,
+  type RedactedCopyOptions,
+  type RedactedCopyResult,
+} from './redacted-copy';
@@ -0,0 +1,188 @@
+/**
+ * Redaction Ranges
+ *
+ * Pure helpers for turning user-marked redaction ranges (waveform regions or
+ * transcript text selections) into merged time ranges for the audio filter
+ * and `[REDACTED]` replacements in segment text.
+ */
+
+import { alignWordsToText } from '@/lib/word-timing';
+import type { TranscriptSegment } from '@/types/transcript';
+
+/**
+ * Text that replaces redacted words in the transcript
+ */
+export const REDACTED_PLACEHOLDER = '[REDACTED]';
+
+/**
+ * A time range marked for redaction
+ */
+export interface RedactionRange {
+  /** Unique identifier (also used as the waveform region ID) */
+  id: string;
+  /** Start time in seconds */
+  start: number;
+  /** End time in seconds */
+  end: number;
+  /**
+   * Text selection the range was created from. The selected characters are
+   * redacted exactly, instead of the words whose timings overlap the range.
+   */
+  selection?: { segmentIndex: number; from: number; to: number };
+}
+
+/**
+ * Time span in seconds
+ */
+export interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+// Letters or digits; gaps without them join adjacent redactions
+const WORD_CHAR = new RegExp('[\\p{L}\\p{N}]', 'u');
+
+function overlaps(a: TimeSpan, b: TimeSpan): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+/**
+ * Sort ranges and merge overlapping or touching ones
+ *
+ * Ranges with a non-positive or non-finite length are dropped.
+ *
+ * @param ranges - Ranges in any order
+ * @returns Sorted, non-overlapping spans
+ */
+export function mergeRedactionRanges(ranges: TimeSpan[]): TimeSpan[] {
+  const sorted = ranges
+    .filter((range) => Number.isFinite(range.start) && Number.isFinite(range.end) && range.end > range.start)
+    .map((range) => ({ start: Math.max(0, range.start), end: range.end }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: TimeSpan[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Time span covered by a text selection within a segment
+ *
+ * Uses word timings when available, otherwise interpolates from the
+ * character positions like `splitSegment`.
+ *
+ * @param segment - Segment containing the selection
+ * @param from - Selection start offset in the segment text
+ * @param to - Selection end offset (exclusive)
+ */
+export function selectionToTimeSpan(segment: TranscriptSegment, from: number, to: number): TimeSpan {
+  if (segment.words && segment.words.length > 0) {
+    const timed = alignWordsToText(segment.text, segment.words, segment.start)
+      .filter((word) => word.wordIndex !== undefined && word.from < to && word.to > from)
+      .map((word) => segment.words![word.wordIndex!]);
+
+    if (timed.length > 0) {
+      return {
+        start: Math.min(...timed.map((word) => word.start)),
+        end: Math.max(...timed.map((word) => word.end)),
+      };
+    }
+  }
+
+  const length = Math.max(segment.text.length, 1);
+  const duration = segment.end - segment.start;
+  return {
+    start: Number((segment.start + (duration * from) / length).toFixed(3)),
+    end: Number((segment.start + (duration * to) / length).toFixed(3)),
+  };
+}
+
+/**
+ * Character spans of a segment's text covered by the time ranges
+ */
+function timedSpans(segment: TranscriptSegment, ranges: TimeSpan[]): Array<[number, number]> {
+  if (!ranges.some((range) => overlaps(segment, range))) return [];
+
+  // Without word timings the whole segment is redacted
+  if (!segment.words || segment.words.length === 0) {
+    return [[0, segment.text.length]];
+  }
+
+  const words = segment.words;
+  return alignWordsToText(segment.text, words, segment.start)
+    .filter((word) => word.wordIndex !== undefined && ranges.some((range) => overlaps(words[word.wordIndex!], range)))
+    .map((word): [number, number] => [word.from, word.to]);
+}
+
+/**
+ * Replace character spans with the placeholder, joining spans that are
+ * separated only by whitespace or punctuation ("John Smith" → one marker)
+ */
+function replaceSpans(text: string, spans: Array<[number, number]>): string {
+  const sorted = spans.slice().sort((a, b) => a[0] - b[0]);
+  const joined: Array<[number, number]> = [];
+  for (const [from, to] of sorted) {
+    const last = joined[joined.length - 1];
+    if (last && !WORD_CHAR.test(text.slice(last[1], from))) {
+      last[1] = Math.max(last[1], to);
+    } else {
+      joined.push([from, to]);
+    }
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (const [from, to] of joined) {
+    result += text.slice(cursor, from) + REDACTED_PLACEHOLDER;
+    cursor = Math.max(cursor, to);
+  }
+  return result + text.slice(cursor);
+}
+
+/**
+ * Redact transcript segments
+ *
+ * Words whose timings overlap a range are replaced with `[REDACTED]` (the
+ * whole segment when it has no word timings); ranges created from a text
+ * selection replace exactly the selected characters. Word timings inside
+ * the ranges are removed.
+ *
+ * @param segments - Segments to redact
+ * @param ranges - Marked redaction ranges
+ * @returns New segments; untouched segments are returned as-is
+ */
+export function redactSegments(
+  segments: TranscriptSegment[],
+  ranges: RedactionRange[]
+): TranscriptSegment[] {
+  const timeRanges = mergeRedactionRanges(ranges.filter((range) => !range.selection));
+  const allRanges = mergeRedactionRanges(ranges);
+
+  return segments.map((segment) => {
+    const spans = timedSpans(segment, timeRanges);
+    for (const range of ranges) {
+      if (range.selection && range.selection.segmentIndex === segment.index) {
+        spans.push([range.selection.from, range.selection.to]);
+      }
+    }
+    if (spans.length === 0) return segment;
+
+    const redacted: TranscriptSegment = { ...segment, text: replaceSpans(segment.text, spans) };
+    if (segment.words) {
+      const words = segment.words.filter((word) => !allRanges.some((range) => overlaps(word, range)));
+      if (words.length > 0) {
+        redacted.words = words;
+      } else {
+        delete redacted.words;
+      }
+    }
+    return redacted;
+  });
+}
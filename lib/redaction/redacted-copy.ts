@@ -0,0 +1,143 @@
+/**
+ * Redacted Transcript Copies
+ *
+ * Produces a redacted version of a transcript for public release: the
+ * audio has the marked ranges covered with a tone or silence, the matching
+ * text is replaced with `[REDACTED]`, and the result is saved as a new
+ * transcript linked to the untouched original.
+ */
+
+import { deleteTranscript, saveTranscript } from '@/lib/db';
+import { getAudioFileEntry, revokeAudioUrl, storeAudioFile } from '@/lib/audio-storage';
+import { buildTranscriptText } from '@/lib/segment-editing';
+import { generateTranscriptId } from '@/lib/transcription-utils';
+import type { RedactionFill, Transcript } from '@/types/transcript';
+import { mergeRedactionRanges, redactSegments, type RedactionRange } from './ranges';
+
+const REDACTED_SUFFIX = ' (redacted)';
+
+/**
+ * Options for creating a redacted copy
+ */
+export interface RedactedCopyOptions {
+  /** How to cover the ranges in the audio (default: 'tone') */
+  fill?: RedactionFill;
+  /** Optional progress callback (0-100) */
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Redacted copy result type
+ */
+export interface RedactedCopyResult {
+  success: boolean;
+  /** The saved redacted transcript (if successful) */
+  transcript?: Transcript;
+  error?: string;
+}
+
+/**
+ * Builds the redacted transcript record (without saving it)
+ *
+ * Analyses, summaries and edit history are not carried over, since they may
+ * quote the redacted content.
+ *
+ * @param transcript - Original transcript
+ * @param ranges - Marked redaction ranges
+ * @param fill - How the audio ranges are covered
+ * @returns New transcript with redacted segments and provenance
+ */
+export function buildRedactedTranscript(
+  transcript: Transcript,
+  ranges: RedactionRange[],
+  fill: RedactionFill
+): Transcript {
+  const segments = redactSegments(transcript.segments, ranges);
+
+  return {
+    id: generateTranscriptId(),
+    filename: `${transcript.filename}${REDACTED_SUFFIX}`,
+    text: buildTranscriptText(segments),
+    segments,
+    createdAt: new Date(),
+    metadata: { ...transcript.metadata },
+    ...(transcript.department && { department: transcript.department }),
+    ...(transcript.speakers && { speakers: transcript.speakers }),
+    redaction: {
+      sourceTranscriptId: transcript.id,
+      ranges: mergeRedactionRanges(ranges),
+      fill,
+      createdAt: new Date(),
+    },
+  };
+}
+
+/**
+ * Creates and saves a redacted copy of a transcript and its audio
+ *
+ * @param transcript - Original transcript (must have stored audio)
+ * @param ranges - Marked redaction ranges
+ * @param options - Fill and progress callback
+ * @returns Result with the saved redacted transcript
+ *
+ * @example
+ * ```ts
+ * const result = await createRedactedCopy(transcript, ranges, { fill: 'silence' });
+ * if (result.success) {
+ *   router.push(`/transcripts/${result.transcript!.id}`);
+ * }
+ * ```
+ */
+export async function createRedactedCopy(
+  transcript: Transcript,
+  ranges: RedactionRange[],
+  options: RedactedCopyOptions = {}
+): Promise<RedactedCopyResult> {
+  const { fill = 'tone', onProgress } = options;
+
+  try {
+    const timeRanges = mergeRedactionRanges(ranges);
+    if (timeRanges.length === 0) {
+      throw new Error('Mark at least one range to redact');
+    }
+
+    const entry = await getAudioFileEntry(transcript.id);
+    if (!entry) {
+      throw new Error('This transcript has no stored audio to redact');
+    }
+
+    // Loaded on demand to keep ffmpeg.wasm out of the page bundle
+    const { redactAudio } = await import('@/lib/audio-processing');
+    const source = new File([entry.audioBlob], entry.metadata.filename, {
+      type: entry.audioBlob.type || entry.metadata.type,
+    });
+    const audio = await redactAudio(source, timeRanges, fill, (progress) =>
+      onProgress?.(Math.round(progress * 0.9))
+    );
+
+    const redacted = buildRedactedTranscript(transcript, ranges, fill);
+    redacted.metadata.fileSize = audio.size;
+
+    await saveTranscript(redacted);
+    try {
+      const stored = await storeAudioFile(redacted.id, audio, {
+        filename: audio.name,
+        size: audio.size,
+        type: audio.type,
+        duration: entry.metadata.duration,
+      });
+      revokeAudioUrl(stored.audioUrl);
+    } catch (error) {
+      await deleteTranscript(redacted.id);
+      throw error;
+    }
+
+    onProgress?.(100);
+    return { success: true, transcript: redacted };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create redacted copy',
+    };
+  }
+}
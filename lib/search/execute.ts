@@ -0,0 +1,82 @@
+/**
+ * Search Execution
+ *
+ * Runs a parsed query against an index store. The store only has to read
+ * postings rows and document entries, so the same matching and ranking is
+ * used for the IndexedDB library and the server-side store.
+ */
+
+import type { SearchDocEntry, SearchTermEntry } from './index';
+import {
+  getQueryKeys,
+  matchClause,
+  rankMatches,
+  type RankedMatch,
+  type SearchClause,
+} from './query';
+
+/**
+ * Read access to a stored search index
+ */
+export interface SearchIndexReader {
+  /** Rows whose term is one of the given terms */
+  getTermRows(terms: string[]): Promise<SearchTermEntry[]>;
+  /** Rows whose term starts with the given prefix */
+  getPrefixRows(prefix: string): Promise<SearchTermEntry[]>;
+  /** Document entries for every indexed transcript, keyed by transcript ID */
+  getDocs(): Promise<Map<string, SearchDocEntry>>;
+}
+
+/**
+ * Reads the index rows a query word can match
+ *
+ * Prefix clauses match every index term starting with the word, plus the
+ * word's own stems (stemming can shorten a term below the typed prefix).
+ */
+async function fetchWordRows(
+  reader: SearchIndexReader,
+  word: string,
+  clause: SearchClause
+): Promise<SearchTermEntry[]> {
+  const exact = await reader.getTermRows(getQueryKeys(word));
+  if (clause.type !== 'term' || !clause.prefix) {
+    return exact;
+  }
+
+  const prefixed = await reader.getPrefixRows(word);
+  const seen = new Set(exact.map((row) => `${row.term}|${row.transcriptId}`));
+  return exact.concat(prefixed.filter((row) => !seen.has(`${row.term}|${row.transcriptId}`)));
+}
+
+/**
+ * Match and rank transcripts for parsed query clauses
+ *
+ * Every clause must match (AND semantics).
+ *
+ * @param reader - Index store to read from
+ * @param clauses - Clauses from `parseSearchQuery` (must not be empty)
+ * @returns Ranked matches, and the document entries (for snippet languages)
+ */
+export async function findRankedMatches(
+  reader: SearchIndexReader,
+  clauses: SearchClause[]
+): Promise<{ ranked: RankedMatch[]; docs: Map<string, SearchDocEntry> }> {
+  const clauseMatches = [];
+  for (const clause of clauses) {
+    const words = clause.type === 'phrase' ? clause.terms : [clause.term];
+    const rowsPerWord: SearchTermEntry[][] = [];
+    for (const word of words) {
+      rowsPerWord.push(await fetchWordRows(reader, word, clause));
+    }
+
+    const matches = matchClause(clause, rowsPerWord);
+    // An unmatched clause means no results
+    if (matches.size === 0) {
+      return { ranked: [], docs: new Map() };
+    }
+    clauseMatches.push(matches);
+  }
+
+  const docs = await reader.getDocs();
+  return { ranked: rankMatches(clauseMatches, docs), docs };
+}
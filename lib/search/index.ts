@@ -0,0 +1,131 @@
+/**
+ * Transcript Search Index
+ *
+ * Builds the rows of the inverted index stored in IndexedDB and
+ * re-exports the query, ranking and snippet helpers.
+ *
+ * Layout:
+ * - `searchTerms`: one row per (stemmed term, transcript) with the token
+ *   positions and segment index of every occurrence
+ * - `searchDocs`: one row per transcript with its token count, language,
+ *   creation date, meeting date and department (for BM25 length
+ *   normalization, tie-breaking and the library chat filters)
+ *
+ * Positions are global token ordinals across all segments, so phrases are
+ * matched by position adjacency. Filename tokens are indexed after the
+ * text with a one-position gap so phrases cannot span the two.
+ */
+
+import type { Transcript } from '@/types/transcript';
+import { getMeetingDate } from '@/lib/action-items';
+import { tokenize, detectLanguage } from './tokenizer';
+import { stem, type SearchLanguage } from './stemmer';
+import { FILENAME_SEGMENT } from './query';
+
+/**
+ * Inverted index row: occurrences of one term in one transcript
+ */
+export interface SearchTermEntry {
+  /** Stemmed, normalized term */
+  term: string;
+  /** Transcript containing the term */
+  transcriptId: string;
+  /** Token positions of each occurrence, ascending */
+  positions: number[];
+  /** Segment index of each occurrence (parallel to `positions`; -1 = filename) */
+  segments: number[];
+}
+
+/**
+ * Per-transcript index statistics
+ */
+export interface SearchDocEntry {
+  transcriptId: string;
+  /** Number of text tokens (excludes filename) */
+  length: number;
+  /** Language used for stemming */
+  language: SearchLanguage;
+  /** Transcript creation date (tie-breaker for equal scores) */
+  createdAt: Date;
+  /** Meeting date, or the creation date when none is set (for date filters) */
+  meetingDate: Date;
+  /** Transcript department, if set */
+  department?: string;
+}
+
+/**
+ * Build the index rows for a transcript
+ *
+ * @param transcript - Transcript to index
+ * @returns Document entry and one term entry per distinct term
+ */
+export function buildSearchEntries(transcript: Transcript): {
+  doc: SearchDocEntry;
+  terms: SearchTermEntry[];
+} {
+  const language = detectLanguage(transcript.text, transcript.metadata?.language);
+  const postings = new Map<string, SearchTermEntry>();
+  let position = 0;
+
+  const add = (term: string, segmentIndex: number) => {
+    const key = stem(term, language);
+    let entry = postings.get(key);
+    if (!entry) {
+      entry = { term: key, transcriptId: transcript.id, positions: [], segments: [] };
+      postings.set(key, entry);
+    }
+    entry.positions.push(position);
+    entry.segments.push(segmentIndex);
+    position++;
+  };
+
+  const segments = transcript.segments ?? [];
+  if (segments.length > 0) {
+    for (const segment of segments) {
+      for (const token of tokenize(segment.text)) {
+        add(token.term, segment.index);
+      }
+    }
+  } else {
+    for (const token of tokenize(transcript.text ?? '')) {
+      add(token.term, 0);
+    }
+  }
+
+  const length = position;
+  position++; // Gap so phrases cannot span text and filename
+
+  for (const token of tokenize(transcript.filename ?? '')) {
+    add(token.term, FILENAME_SEGMENT);
+  }
+
+  return {
+    doc: {
+      transcriptId: transcript.id,
+      length,
+      language,
+      createdAt: new Date(transcript.createdAt),
+      meetingDate: getMeetingDate(transcript),
+      department: transcript.department,
+    },
+    terms: Array.from(postings.values()),
+  };
+}
+
+export { tokenize, normalizeTerm, detectLanguage, type Token } from './tokenizer';
+export { stem, stemEnglish, stemSpanish, type SearchLanguage } from './stemmer';
+export {
+  parseSearchQuery,
+  getQueryKeys,
+  findPhraseStarts,
+  matchClause,
+  rankMatches,
+  FILENAME_SEGMENT,
+  MIN_PREFIX_LENGTH,
+  type SearchClause,
+  type ClauseMatch,
+  type RankedMatch,
+} from './query';
+export { buildSearchSnippets, SNIPPET_LENGTH } from './snippets';
+export { findRankedMatches, type SearchIndexReader } from './execute';
+export { findRelevantPassages, getQuestionWords, MAX_PASSAGES } from './passages';
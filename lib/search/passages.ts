@@ -0,0 +1,254 @@
+/**
+ * Passage Retrieval
+ *
+ * Finds the transcript segments that best answer a natural-language
+ * question across the whole library, so the library chat can send the
+ * model a few relevant passages instead of entire transcripts.
+ *
+ * Unlike search, question words are optional (OR semantics): each segment
+ * is scored with BM25 weights over the question words it contains, and
+ * the best segments are widened with their neighbours for context.
+ */
+
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+import type { LibraryPassage, PassageFilters } from '@/types/search';
+import { getSpeakerDisplayName } from '@/lib/speaker-roster';
+import type { SearchIndexReader } from './execute';
+import { tokenize } from './tokenizer';
+import { FILENAME_SEGMENT, getQueryKeys, idf, saturate } from './query';
+
+/**
+ * Default maximum number of passages retrieved for a question
+ */
+export const MAX_PASSAGES = 12;
+
+// At most this many passages come from one transcript
+const MAX_PASSAGES_PER_TRANSCRIPT = 4;
+
+// Segments of context added on each side of a matching segment
+const CONTEXT_SEGMENTS = 1;
+
+// Passage text is cut at this many characters
+const MAX_PASSAGE_LENGTH = 1500;
+
+// Transcripts loaded at a time while building passages
+const LOAD_BATCH_SIZE = 20;
+
+// Question and function words that say nothing about the topic (English and Spanish)
+const STOPWORDS = new Set([
+  'a', 'about', 'all', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'how', 'i',
+  'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'said',
+  'say', 'so', 'than', 'that', 'the', 'their', 'them', 'there', 'these', 'they', 'this',
+  'those', 'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'who',
+  'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+  'al', 'como', 'con', 'cual', 'cuando', 'de', 'del', 'donde', 'el', 'en', 'es', 'esta',
+  'la', 'las', 'lo', 'los', 'para', 'pero', 'por', 'que', 'quien', 'se', 'su', 'un',
+  'una', 'y',
+]);
+
+/**
+ * Score of one segment for a question
+ */
+interface SegmentHit {
+  transcriptId: string;
+  segmentIndex: number;
+  score: number;
+}
+
+/**
+ * Content words of a question, in order and without duplicates
+ *
+ * @example
+ * getQuestionWords('When did we last discuss the Zilker parking plan?')
+ * // ['last', 'discuss', 'zilker', 'parking', 'plan']
+ */
+export function getQuestionWords(question: string): string[] {
+  const words = tokenize(question)
+    .map((token) => token.term)
+    .filter((term) => !STOPWORDS.has(term));
+  return Array.from(new Set(words));
+}
+
+/**
+ * Score every segment that contains a question word
+ *
+ * @param reader - Index store to read from
+ * @param words - Question words from `getQuestionWords`
+ * @param documentCount - Number of indexed transcripts (for IDF)
+ * @param inRange - Whether a transcript passes the department and date filters
+ * @returns Segment hits keyed by "transcriptId|segmentIndex"
+ */
+async function scoreSegments(
+  reader: SearchIndexReader,
+  words: string[],
+  documentCount: number,
+  inRange: (transcriptId: string) => boolean
+): Promise<Map<string, SegmentHit>> {
+  const hits = new Map<string, SegmentHit>();
+
+  for (const word of words) {
+    const rows = await reader.getTermRows(getQueryKeys(word));
+    if (rows.length === 0) continue;
+
+    // Rare words count for more, as in search ranking
+    const weight = idf(new Set(rows.map((row) => row.transcriptId)).size, documentCount);
+
+    const counts = new Map<string, number>();
+    for (const row of rows) {
+      if (!inRange(row.transcriptId)) continue;
+      for (const segmentIndex of row.segments) {
+        if (segmentIndex === FILENAME_SEGMENT) continue;
+        const key = `${row.transcriptId}|${segmentIndex}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+
+    counts.forEach((count, key) => {
+      // Segments are short, so no length normalization
+      const score = weight * saturate(count, 1, 1);
+      const hit = hits.get(key);
+      if (hit) {
+        hit.score += score;
+        return;
+      }
+      const separator = key.lastIndexOf('|');
+      hits.set(key, {
+        transcriptId: key.slice(0, separator),
+        segmentIndex: Number(key.slice(separator + 1)),
+        score,
+      });
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Render segments as passage text, one line per segment
+ */
+function formatPassageText(transcript: Transcript, segments: TranscriptSegment[]): string {
+  const text = segments
+    .map((segment) => {
+      const speaker = segment.speaker
+        ? getSpeakerDisplayName(segment.speaker, transcript.speakers)
+        : undefined;
+      return speaker ? `${speaker}: ${segment.text.trim()}` : segment.text.trim();
+    })
+    .join('\n');
+
+  return text.length > MAX_PASSAGE_LENGTH ? `${text.slice(0, MAX_PASSAGE_LENGTH)}…` : text;
+}
+
+/**
+ * Build passages around a transcript's best segments
+ *
+ * Context windows that touch or overlap are merged into one passage,
+ * which keeps the score of its best segment.
+ *
+ * @param transcript - Transcript the hits belong to
+ * @param hits - The transcript's segment hits, best first
+ */
+function buildPassages(transcript: Transcript, hits: SegmentHit[]): LibraryPassage[] {
+  const segments: TranscriptSegment[] = transcript.segments?.length
+    ? transcript.segments
+    : [{ index: 0, start: 0, end: transcript.metadata?.duration ?? 0, text: transcript.text }];
+
+  const windows: Array<{ from: number; to: number; hit: SegmentHit }> = [];
+  for (const hit of hits) {
+    const position = segments.findIndex((segment) => segment.index === hit.segmentIndex);
+    // The index can briefly lag behind an edit
+    if (position === -1) continue;
+
+    const from = Math.max(0, position - CONTEXT_SEGMENTS);
+    const to = Math.min(segments.length - 1, position + CONTEXT_SEGMENTS);
+    const touching = windows.find((window) => from <= window.to + 1 && to >= window.from - 1);
+    if (touching) {
+      touching.from = Math.min(touching.from, from);
+      touching.to = Math.max(touching.to, to);
+    } else {
+      windows.push({ from, to, hit });
+    }
+  }
+
+  return windows.map(({ from, to, hit }) => ({
+    transcriptId: transcript.id,
+    filename: transcript.filename,
+    createdAt: new Date(transcript.createdAt),
+    department: transcript.department,
+    segmentIndex: hit.segmentIndex,
+    start: segments[from].start,
+    end: segments[to].end,
+    text: formatPassageText(transcript, segments.slice(from, to + 1)),
+    score: hit.score,
+  }));
+}
+
+/**
+ * Retrieve the passages that best answer a question
+ *
+ * @param reader - Index store to read from
+ * @param loadTranscripts - Loads transcripts by ID (undefined for missing ones)
+ * @param question - Natural-language question
+ * @param filters - Department and meeting date filters
+ * @param limit - Maximum number of passages
+ * @returns Passages sorted by relevance (empty if no question word is indexed)
+ */
+export async function findRelevantPassages(
+  reader: SearchIndexReader,
+  loadTranscripts: (ids: string[]) => Promise<Array<Transcript | undefined>>,
+  question: string,
+  filters: PassageFilters = {},
+  limit = MAX_PASSAGES
+): Promise<LibraryPassage[]> {
+  const words = getQuestionWords(question);
+  if (words.length === 0) return [];
+
+  const docs = await reader.getDocs();
+  const from = filters.from?.getTime() ?? -Infinity;
+  const to = filters.to?.getTime() ?? Infinity;
+  // Filtered before ranking, so filtered-out transcripts can't use up the top `limit`
+  const inRange = (transcriptId: string) => {
+    const doc = docs.get(transcriptId);
+    if (!doc) return false;
+    if (filters.department && doc.department !== filters.department) return false;
+    const meetingDate = new Date(doc.meetingDate).getTime();
+    return meetingDate >= from && meetingDate <= to;
+  };
+
+  const hits = await scoreSegments(reader, words, Math.max(docs.size, 1), inRange);
+
+  // Each transcript's best segments, transcripts ordered by their best segment
+  const grouped = new Map<string, SegmentHit[]>();
+  hits.forEach((hit) => {
+    const list = grouped.get(hit.transcriptId);
+    if (list) {
+      list.push(hit);
+    } else {
+      grouped.set(hit.transcriptId, [hit]);
+    }
+  });
+  const ranked = Array.from(grouped.values())
+    .map((list) => list.sort((a, b) => b.score - a.score).slice(0, MAX_PASSAGES_PER_TRANSCRIPT))
+    .sort((a, b) => b[0].score - a[0].score);
+
+  // Once `limit` transcripts are loaded, later ones cannot place a passage
+  // in the top `limit`: their best segment scores lower than each of those
+  // transcripts' best passage.
+  const passages: LibraryPassage[] = [];
+  let accepted = 0;
+  for (let i = 0; i < ranked.length && accepted < limit; i += LOAD_BATCH_SIZE) {
+    const batch = ranked.slice(i, i + LOAD_BATCH_SIZE);
+    const transcripts = await loadTranscripts(batch.map((list) => list[0].transcriptId));
+
+    for (let j = 0; j < batch.length && accepted < limit; j++) {
+      const transcript = transcripts[j];
+      if (!transcript) continue;
+
+      accepted++;
+      passages.push(...buildPassages(transcript, batch[j]));
+    }
+  }
+
+  return passages.sort((a, b) => b.score - a.score).slice(0, limit);
+}
@@ -0,0 +1,288 @@
+/**
+ * Search Query Parsing, Matching and Ranking
+ *
+ * Pure functions that turn a query string into clauses, match clauses
+ * against postings read from the inverted index, and rank transcripts
+ * with BM25. IndexedDB access lives in `lib/db.ts`.
+ *
+ * Query syntax:
+ * - `budget vote`      both terms must appear (stemmed, any order)
+ * - `"public hearing"` exact phrase (stemmed, adjacent words)
+ * - `budg*`            prefix match (at least 2 characters)
+ */
+
+import { normalizeTerm, tokenize } from './tokenizer';
+import { stem } from './stemmer';
+import type { SearchDocEntry, SearchTermEntry } from './index';
+
+/**
+ * Segment index used for postings that come from the filename
+ */
+export const FILENAME_SEGMENT = -1;
+
+/**
+ * Minimum length of a prefix query; shorter prefixes match as whole terms
+ */
+export const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * One required part of a query
+ */
+export type SearchClause =
+  | { type: 'term'; term: string; prefix: boolean }
+  | { type: 'phrase'; terms: string[] };
+
+/**
+ * How one clause matched one transcript
+ */
+export interface ClauseMatch {
+  /** Occurrences in the transcript text */
+  textHits: number;
+  /** Occurrences in the filename */
+  filenameHits: number;
+  /** Index terms that matched (used for snippet highlighting) */
+  terms: string[];
+}
+
+/**
+ * A ranked transcript
+ */
+export interface RankedMatch {
+  transcriptId: string;
+  score: number;
+  filenameMatch: boolean;
+  /** All index terms that matched across clauses */
+  terms: string[];
+}
+
+/**
+ * Parse a query string into clauses
+ *
+ * @example
+ * parseSearchQuery('"zoning board" budg* vote')
+ * // [{ type: 'phrase', terms: ['zoning', 'board'] },
+ * //  { type: 'term', term: 'budg', prefix: true },
+ * //  { type: 'term', term: 'vote', prefix: false }]
+ */
+export function parseSearchQuery(query: string): SearchClause[] {
+  const clauses: SearchClause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const terms = tokenize(match[1]).map((t) => t.term);
+      if (terms.length === 1) {
+        clauses.push({ type: 'term', term: terms[0], prefix: false });
+      } else if (terms.length > 1) {
+        clauses.push({ type: 'phrase', terms });
+      }
+      continue;
+    }
+
+    const word = match[2];
+    const tokens = tokenize(word);
+    tokens.forEach((token, i) => {
+      const isLast = i === tokens.length - 1;
+      const prefix = isLast && word.endsWith('*') && token.term.length >= MIN_PREFIX_LENGTH;
+      clauses.push({ type: 'term', term: token.term, prefix });
+    });
+  }
+
+  return clauses;
+}
+
+/**
+ * Index keys a query word can match
+ *
+ * Documents are stemmed in their own language, but the query language is
+ * unknown, so both stems are tried.
+ *
+ * @param term - Normalized query word
+ * @returns Unique index keys
+ */
+export function getQueryKeys(term: string): string[] {
+  const normalized = normalizeTerm(term);
+  return Array.from(new Set([stem(normalized, 'en'), stem(normalized, 'es')]));
+}
+
+/**
+ * Find positions where consecutive words of a phrase occur
+ *
+ * @param positionLists - Sorted positions for each phrase word, in phrase order
+ * @returns Start positions of each phrase occurrence
+ */
+export function findPhraseStarts(positionLists: number[][]): number[] {
+  if (positionLists.length === 0) return [];
+
+  const rest = positionLists.slice(1).map((positions) => new Set(positions));
+  return positionLists[0].filter((start) =>
+    rest.every((positions, i) => positions.has(start + i + 1))
+  );
+}
+
+/**
+ * Merge postings rows for one transcript into position → segment pairs
+ */
+function mergePostings(rows: SearchTermEntry[]): Map<number, number> {
+  const merged = new Map<number, number>();
+  for (const row of rows) {
+    row.positions.forEach((position, i) => merged.set(position, row.segments[i]));
+  }
+  return merged;
+}
+
+/**
+ * Group postings rows by transcript
+ */
+function groupByTranscript(rows: SearchTermEntry[]): Map<string, SearchTermEntry[]> {
+  const grouped = new Map<string, SearchTermEntry[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.transcriptId);
+    if (list) {
+      list.push(row);
+    } else {
+      grouped.set(row.transcriptId, [row]);
+    }
+  }
+  return grouped;
+}
+
+/**
+ * Match a clause against postings read from the index
+ *
+ * @param clause - Parsed clause
+ * @param rowsPerWord - Postings rows for each clause word (one entry for
+ *   term clauses, one per word for phrases, in phrase order)
+ * @returns Matches keyed by transcript ID
+ */
+export function matchClause(
+  clause: SearchClause,
+  rowsPerWord: SearchTermEntry[][]
+): Map<string, ClauseMatch> {
+  const matches = new Map<string, ClauseMatch>();
+
+  if (clause.type === 'term') {
+    for (const [transcriptId, rows] of Array.from(groupByTranscript(rowsPerWord[0] ?? []))) {
+      let textHits = 0;
+      let filenameHits = 0;
+      for (const segment of Array.from(mergePostings(rows).values())) {
+        if (segment === FILENAME_SEGMENT) filenameHits++;
+        else textHits++;
+      }
+      matches.set(transcriptId, { textHits, filenameHits, terms: rows.map((r) => r.term) });
+    }
+    return matches;
+  }
+
+  const groupedPerWord = rowsPerWord.map(groupByTranscript);
+  if (groupedPerWord.length === 0) return matches;
+
+  for (const [transcriptId, firstRows] of Array.from(groupedPerWord[0])) {
+    const rowsForTranscript = [firstRows];
+    for (const grouped of groupedPerWord.slice(1)) {
+      const rows = grouped.get(transcriptId);
+      if (!rows) break;
+      rowsForTranscript.push(rows);
+    }
+    if (rowsForTranscript.length !== groupedPerWord.length) continue;
+
+    const postings = rowsForTranscript.map(mergePostings);
+    const starts = findPhraseStarts(
+      postings.map((p) => Array.from(p.keys()).sort((a, b) => a - b))
+    );
+    if (starts.length === 0) continue;
+
+    let textHits = 0;
+    let filenameHits = 0;
+    for (const start of starts) {
+      if (postings[0].get(start) === FILENAME_SEGMENT) filenameHits++;
+      else textHits++;
+    }
+    matches.set(transcriptId, {
+      textHits,
+      filenameHits,
+      terms: rowsForTranscript.flat().map((r) => r.term),
+    });
+  }
+
+  return matches;
+}
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// A filename hit is worth this many times a saturated text hit
+const FILENAME_BOOST = 2;
+
+/**
+ * BM25 inverse document frequency
+ */
+export function idf(documentFrequency: number, documentCount: number): number {
+  return Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+}
+
+/**
+ * BM25 term-frequency saturation with length normalization
+ */
+export function saturate(termFrequency: number, length: number, averageLength: number): number {
+  if (termFrequency === 0) return 0;
+  const norm = 1 - BM25_B + BM25_B * (length / Math.max(averageLength, 1));
+  return (termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * norm);
+}
+
+/**
+ * Rank transcripts that match every clause
+ *
+ * @param clauseMatches - Result of `matchClause` for each clause
+ * @param docs - Index document entries keyed by transcript ID
+ * @returns Matches sorted by score (then newest first)
+ */
+export function rankMatches(
+  clauseMatches: Map<string, ClauseMatch>[],
+  docs: Map<string, SearchDocEntry>
+): RankedMatch[] {
+  if (clauseMatches.length === 0) return [];
+
+  const documentCount = Math.max(docs.size, 1);
+  let totalLength = 0;
+  docs.forEach((doc) => {
+    totalLength += doc.length;
+  });
+  const averageLength = totalLength / documentCount;
+
+  // Iterate the smallest clause and require every other clause to match
+  const [smallest] = [...clauseMatches].sort((a, b) => a.size - b.size);
+  const ranked: RankedMatch[] = [];
+
+  for (const transcriptId of Array.from(smallest.keys())) {
+    if (!clauseMatches.every((matches) => matches.has(transcriptId))) continue;
+
+    const doc = docs.get(transcriptId);
+    const length = doc?.length ?? averageLength;
+    let score = 0;
+    let filenameMatch = false;
+    const terms = new Set<string>();
+
+    for (const matches of clauseMatches) {
+      const match = matches.get(transcriptId)!;
+      const weight = idf(matches.size, documentCount);
+      score += weight * saturate(match.textHits, length, averageLength);
+      if (match.filenameHits > 0) {
+        filenameMatch = true;
+        score += weight * FILENAME_BOOST;
+      }
+      match.terms.forEach((term) => terms.add(term));
+    }
+
+    ranked.push({ transcriptId, score, filenameMatch, terms: Array.from(terms) });
+  }
+
+  return ranked.sort((a, b) => {
+    if (b.score !== a.score) return b.score - a.score;
+    const aTime = new Date(docs.get(a.transcriptId)?.createdAt ?? 0).getTime();
+    const bTime = new Date(docs.get(b.transcriptId)?.createdAt ?? 0).getTime();
+    return bTime - aTime;
+  });
+}
@@ -0,0 +1,106 @@
+/**
+ * Search Snippets
+ *
+ * Builds highlighted excerpts from the segments of a matching transcript
+ * so results can show where the query matched and link to that moment.
+ */
+
+import type { Transcript, TranscriptSegment } from '@/types/transcript';
+import type { SearchSnippet } from '@/types/search';
+import { getSpeakerDisplayName } from '@/lib/speaker-roster';
+import { tokenize } from './tokenizer';
+import { stem, type SearchLanguage } from './stemmer';
+
+/**
+ * Maximum excerpt length in characters
+ */
+export const SNIPPET_LENGTH = 200;
+
+// Characters of context kept before the first highlight in a trimmed excerpt
+const LEADING_CONTEXT = 60;
+
+/**
+ * Trim long text to a window around its first highlight
+ */
+function trimToWindow(
+  text: string,
+  highlights: Array<[number, number]>
+): Pick<SearchSnippet, 'text' | 'highlights'> {
+  if (text.length <= SNIPPET_LENGTH) {
+    return { text, highlights };
+  }
+
+  let start = Math.max(0, highlights[0][0] - LEADING_CONTEXT);
+  // Start on a word boundary
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < highlights[0][0] ? space + 1 : start;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    highlights: highlights
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => [from + offset, to + offset] as [number, number]),
+  };
+}
+
+/**
+ * Build highlighted excerpts for the best matching segments
+ *
+ * Segments are scored by how many matched terms they contain; the best
+ * ones are returned in chronological order.
+ *
+ * @param transcript - Matching transcript
+ * @param terms - Index terms that matched the query
+ * @param language - Language the transcript was indexed with
+ * @param maxSnippets - Maximum number of excerpts
+ * @returns Excerpts with highlight ranges
+ */
+export function buildSearchSnippets(
+  transcript: Transcript,
+  terms: Iterable<string>,
+  language: SearchLanguage,
+  maxSnippets = 3
+): SearchSnippet[] {
+  const matchTerms = new Set(terms);
+  if (matchTerms.size === 0) return [];
+
+  const segments: TranscriptSegment[] = transcript.segments?.length
+    ? transcript.segments
+    : [{ index: 0, start: 0, end: 0, text: transcript.text }];
+
+  const candidates: SearchSnippet[] = [];
+  for (const segment of segments) {
+    const highlights = tokenize(segment.text)
+      .filter((token) => matchTerms.has(stem(token.term, language)))
+      .map((token) => [token.start, token.end] as [number, number]);
+
+    if (highlights.length === 0) continue;
+
+    candidates.push({
+      segmentIndex: segment.index,
+      start: segment.start,
+      speaker: segment.speaker
+        ? getSpeakerDisplayName(segment.speaker, transcript.speakers)
+        : undefined,
+      ...trimToWindow(segment.text, highlights),
+    });
+  }
+
+  return candidates
+    .map((snippet, order) => ({ snippet, order }))
+    .sort((a, b) => b.snippet.highlights.length - a.snippet.highlights.length || a.order - b.order)
+    .slice(0, maxSnippets)
+    .sort((a, b) => a.order - b.order)
+    .map(({ snippet }) => snippet);
+}
@@ -0,0 +1,118 @@
+/**
+ * Light Stemmers for Search
+ *
+ * Minimal English and Spanish suffix strippers used by the transcript
+ * search index. They are intentionally "light": the goal is that
+ * inflections of the same word ("meeting", "meetings"; "reunión",
+ * "reuniones"; "aprobado", "aprobar") reduce to the same key, not that
+ * keys are real words.
+ *
+ * Input must already be normalized (lowercase, diacritics removed).
+ */
+
+/**
+ * Languages with a dedicated stemmer
+ */
+export type SearchLanguage = 'en' | 'es';
+
+const VOWELS = /[aeiouy]/;
+
+/**
+ * Remove a trailing doubled consonant ("plann" → "plan"), except l/s/z
+ */
+function undouble(word: string): string {
+  const last = word[word.length - 1];
+  if (
+    word.length > 3 &&
+    last === word[word.length - 2] &&
+    !VOWELS.test(last) &&
+    !'lsz'.includes(last)
+  ) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Light English stemmer (plurals, -ing/-ed, trailing e)
+ *
+ * @example
+ * stemEnglish('meetings') // "meet"
+ * stemEnglish('approved') // "approv"
+ */
+export function stemEnglish(word: string): string {
+  if (word.length <= 3) return word;
+
+  let stem = word;
+
+  // Plurals and third person singular
+  if (stem.endsWith('sses')) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (stem.endsWith('s') && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Progressive and past tense
+  if (stem.endsWith('ing') && stem.length > 5 && VOWELS.test(stem.slice(0, -3))) {
+    stem = undouble(stem.slice(0, -3));
+  } else if (stem.endsWith('ed') && stem.length > 4 && VOWELS.test(stem.slice(0, -2))) {
+    stem = undouble(stem.slice(0, -2));
+  }
+
+  // "approve" and "approv(ed)" share a key
+  if (stem.endsWith('e') && stem.length > 4) {
+    stem = stem.slice(0, -1);
+  }
+
+  return stem;
+}
+
+/**
+ * Light Spanish stemmer (plurals, gender, common verb endings)
+ *
+ * @example
+ * stemSpanish('reuniones') // "reunion"
+ * stemSpanish('aprobado')  // "aprob"
+ */
+export function stemSpanish(word: string): string {
+  if (word.length < 5) return word;
+
+  let stem = word;
+
+  // Plurals: "luces" → "luz", "reuniones" → "reunion", "temas" → "tema"
+  if (stem.endsWith('ces')) {
+    stem = `${stem.slice(0, -3)}z`;
+  } else if (stem.endsWith('es') && stem.length > 5) {
+    stem = stem.slice(0, -2);
+  } else if (/[aeo]s$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Gender and final vowels: "tema" → "tem", "presupuesto" → "presupuest"
+  if (/[aeo]$/.test(stem) && stem.length > 4) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Gerunds, participles and infinitives: "aprobando", "aprobad(o)", "aprobar"
+  const verbEnding = stem.match(/(iend|and|ad|id|ar|er|ir)$/);
+  if (verbEnding && stem.length - verbEnding[0].length >= 4) {
+    stem = stem.slice(0, -verbEnding[0].length);
+  }
+
+  return stem;
+}
+
+/**
+ * Stem a normalized token for the given language
+ *
+ * @param word - Normalized token (lowercase, no diacritics)
+ * @param language - Language of the text the token came from
+ * @returns Index key for the token
+ */
+export function stem(word: string, language: SearchLanguage): string {
+  // Numbers and very short tokens are indexed as-is
+  if (/^\d+$/.test(word)) return word;
+  return language === 'es' ? stemSpanish(word) : stemEnglish(word);
+}
@@ -0,0 +1,100 @@
+/**
+ * Search Tokenizer
+ *
+ * Splits text into normalized word tokens with their character offsets,
+ * and detects whether a transcript is English or Spanish so the right
+ * stemmer is applied when indexing.
+ */
+
+import type { SearchLanguage } from './stemmer';
+
+/**
+ * A word token found in text
+ */
+export interface Token {
+  /** Normalized form (lowercase, no diacritics or apostrophes) */
+  term: string;
+  /** Start offset in the original text */
+  start: number;
+  /** End offset (exclusive) in the original text */
+  end: number;
+}
+
+// Letters and digits, allowing inner apostrophes ("don't", "council's").
+// Built with RegExp so the ES2017 target accepts Unicode property escapes.
+const WORD_PATTERN = '[\\p{L}\\p{N}]+(?:[\'’][\\p{L}\\p{N}]+)*';
+const DIACRITICS = new RegExp('\\p{M}', 'gu');
+
+/**
+ * Normalize a single word for indexing and querying
+ *
+ * @example
+ * normalizeTerm('Reunión')   // "reunion"
+ * normalizeTerm("Council's") // "council"
+ */
+export function normalizeTerm(word: string): string {
+  return word
+    .normalize('NFD')
+    .replace(DIACRITICS, '')
+    .toLowerCase()
+    .replace(/['’]s$/, '')
+    .replace(/['’]/g, '');
+}
+
+/**
+ * Split text into normalized tokens with offsets into the original text
+ *
+ * @param text - Text to tokenize
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = new RegExp(WORD_PATTERN, 'gu');
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const term = normalizeTerm(match[0]);
+    if (term) {
+      tokens.push({ term, start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  return tokens;
+}
+
+const ENGLISH_MARKERS = new Set([
+  'the', 'and', 'of', 'to', 'is', 'that', 'for', 'it', 'with', 'this',
+  'we', 'you', 'are', 'be', 'have', 'was', 'will', 'our', 'they', 'on',
+]);
+
+const SPANISH_MARKERS = new Set([
+  'el', 'la', 'los', 'las', 'que', 'y', 'en', 'del', 'por', 'con',
+  'para', 'una', 'es', 'se', 'lo', 'al', 'pero', 'como', 'esta', 'su',
+]);
+
+/**
+ * Detect whether text is English or Spanish
+ *
+ * Uses the transcript's recorded language when it is one of the two,
+ * otherwise counts common function words in the first few thousand tokens.
+ *
+ * @param text - Transcript text
+ * @param declared - Language reported by transcription (e.g. "es", "spanish")
+ * @returns Detected language (defaults to English)
+ */
+export function detectLanguage(text: string, declared?: string): SearchLanguage {
+  const hint = declared?.toLowerCase();
+  if (hint) {
+    if (hint.startsWith('es') || hint === 'spanish') return 'es';
+    if (hint.startsWith('en') || hint === 'english') return 'en';
+  }
+
+  let english = 0;
+  let spanish = 0;
+  for (const token of tokenize(text.slice(0, 20000))) {
+    if (ENGLISH_MARKERS.has(token.term)) english++;
+    if (SPANISH_MARKERS.has(token.term)) spanish++;
+  }
+
+  return spanish > english ? 'es' : 'en';
+}
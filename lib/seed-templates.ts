@@ -8,7 +8,7 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import type { Template } from '@/types/template';
-import { getDatabase } from './db';
+import { getAllTemplates, getDatabase, saveTemplate } from './db';
 
 /**
  * Storage key for tracking seeding status
@@ -3060,11 +3060,10 @@ export async function seedDefaultTemplates(): Promise<void> {
   const previouslySeeded = isAlreadySeeded();
 
   try {
-    const db = getDatabase();
     const now = new Date();
 
     // Load existing templates once so we can reconcile without duplicates
-    const existingTemplates = await db.templates.toArray();
+    const existingTemplates = await getAllTemplates();
     const existingBuiltInNames = new Set(
       existingTemplates.filter(template => !template.isCustom).map(template => template.name)
     );
@@ -3095,7 +3094,7 @@ export async function seedDefaultTemplates(): Promise<void> {
       createdAt: now,
     }));
 
-    await Promise.all(templatesToInsert.map(template => db.templates.put(template)));
+    await Promise.all(templatesToInsert.map(template => saveTemplate(template)));
 
     markAsSeeded();
 
@@ -3153,8 +3152,7 @@ export async function resetDefaultTemplates(): Promise<void> {
  */
 export async function getBuiltInTemplateCount(): Promise<number> {
   try {
-    const db = getDatabase();
-    const allTemplates = await db.templates.toArray();
+    const allTemplates = await getAllTemplates();
     return allTemplates.filter(template => !template.isCustom).length;
   } catch (error) {
     console.error('Error getting built-in template count:', error);
@@ -0,0 +1,526 @@
+/**
+ * Segment Editing Utilities
+ *
+ * Pure functions for manually correcting transcript segments (text edits,
+ * splits, merges and timing nudges) and for diffing the edited segments
+ * against the original machine output.
+ *
+ * All operations return a new, sequentially re-indexed segment array and
+ * never mutate their input. Word timings travel with the text: text edits
+ * keep them (display re-aligns), splits partition them and merges join them.
+ */
+
+import { alignWordsToText } from '@/lib/word-timing';
+import type { TranscriptSegment, TranscriptWord } from '@/types/transcript';
+
+/**
+ * Minimum duration (in seconds) a segment may cover after an edit
+ */
+export const MIN_SEGMENT_DURATION = 0.1;
+
+/**
+ * Error thrown when an edit cannot be applied to the segment list
+ */
+export class SegmentEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SegmentEditError';
+  }
+}
+
+/**
+ * Re-index segments sequentially starting at 0
+ *
+ * @param segments - Segments in display order
+ * @returns Copy of the segments with `index` matching array position
+ */
+export function reindexSegments(segments: TranscriptSegment[]): TranscriptSegment[] {
+  return segments.map((segment, index) => ({ ...segment, index }));
+}
+
+/**
+ * Rebuild the full transcript text from its segments
+ *
+ * @param segments - Transcript segments
+ * @returns Concatenated segment text
+ */
+export function buildTranscriptText(segments: TranscriptSegment[]): string {
+  return segments
+    .map((segment) => segment.text.trim())
+    .filter((text) => text.length > 0)
+    .join(' ');
+}
+
+/**
+ * Set a segment's word timings, dropping the field when there are none
+ */
+function withWords(segment: TranscriptSegment, words: TranscriptWord[]): TranscriptSegment {
+  const updated: TranscriptSegment = { ...segment, words };
+  if (words.length === 0) delete updated.words;
+  return updated;
+}
+
+/**
+ * Start time of the first timed word at or after a character offset
+ */
+function wordSplitTime(segment: TranscriptSegment, charOffset: number): number | undefined {
+  if (!segment.words || segment.words.length === 0) return undefined;
+
+  const aligned = alignWordsToText(segment.text, segment.words, segment.start);
+  const first = aligned.find((word) => word.from >= charOffset && word.wordIndex !== undefined);
+  return first ? segment.words[first.wordIndex!].start : undefined;
+}
+
+function findSegmentPosition(segments: TranscriptSegment[], index: number): number {
+  const position = segments.findIndex((segment) => segment.index === index);
+  if (position === -1) {
+    throw new SegmentEditError(`Segment ${index} does not exist`);
+  }
+  return position;
+}
+
+/**
+ * Replace the text of a single segment
+ *
+ * @param segments - Current segments
+ * @param index - Index of the segment to edit
+ * @param text - New segment text (must not be empty)
+ * @returns Updated segments
+ * @throws {SegmentEditError} If the segment does not exist or text is empty
+ */
+export function editSegmentText(
+  segments: TranscriptSegment[],
+  index: number,
+  text: string
+): TranscriptSegment[] {
+  const position = findSegmentPosition(segments, index);
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    throw new SegmentEditError('Segment text cannot be empty');
+  }
+
+  const updated = [...segments];
+  updated[position] = { ...updated[position], text: trimmed };
+  return reindexSegments(updated);
+}
+
+/**
+ * Split a segment into two at a character offset
+ *
+ * When the segment has word timings, the split happens where the first word
+ * after the split point starts. Otherwise the split time is interpolated
+ * from the character position, so the first half receives a share of the
+ * duration proportional to its length.
+ *
+ * @param segments - Current segments
+ * @param index - Index of the segment to split
+ * @param charOffset - Character offset in the segment text to split at
+ * @returns Updated segments
+ * @throws {SegmentEditError} If either half would be empty or too short
+ */
+export function splitSegment(
+  segments: TranscriptSegment[],
+  index: number,
+  charOffset: number
+): TranscriptSegment[] {
+  const position = findSegmentPosition(segments, index);
+  const segment = segments[position];
+
+  const firstText = segment.text.slice(0, charOffset).trim();
+  const secondText = segment.text.slice(charOffset).trim();
+
+  if (!firstText || !secondText) {
+    throw new SegmentEditError('Both halves of a split segment must contain text');
+  }
+
+  const duration = segment.end - segment.start;
+  const ratio = charOffset / segment.text.length;
+  const splitTime = Number(
+    (wordSplitTime(segment, charOffset) ?? segment.start + duration * ratio).toFixed(3)
+  );
+
+  if (
+    splitTime - segment.start < MIN_SEGMENT_DURATION ||
+    segment.end - splitTime < MIN_SEGMENT_DURATION
+  ) {
+    throw new SegmentEditError('Segment is too short to split at this position');
+  }
+
+  const updated = [...segments];
+  const words = segment.words ?? [];
+  updated.splice(
+    position,
+    1,
+    withWords({ ...segment, end: splitTime, text: firstText }, words.filter((w) => w.start < splitTime)),
+    withWords({ ...segment, start: splitTime, text: secondText }, words.filter((w) => w.start >= splitTime))
+  );
+
+  return reindexSegments(updated);
+}
+
+/**
+ * Merge a segment with the segment that follows it
+ *
+ * The merged segment keeps the first segment's speaker.
+ *
+ * @param segments - Current segments
+ * @param index - Index of the first segment to merge
+ * @returns Updated segments
+ * @throws {SegmentEditError} If the segment is the last one
+ */
+export function mergeWithNextSegment(
+  segments: TranscriptSegment[],
+  index: number
+): TranscriptSegment[] {
+  const position = findSegmentPosition(segments, index);
+
+  if (position >= segments.length - 1) {
+    throw new SegmentEditError('The last segment cannot be merged with a following segment');
+  }
+
+  const current = segments[position];
+  const next = segments[position + 1];
+
+  const updated = [...segments];
+  updated.splice(
+    position,
+    2,
+    withWords(
+      {
+        ...current,
+        start: Math.min(current.start, next.start),
+        end: Math.max(current.end, next.end),
+        text: `${current.text.trim()} ${next.text.trim()}`.trim(),
+      },
+      [...(current.words ?? []), ...(next.words ?? [])]
+    )
+  );
+
+  return reindexSegments(updated);
+}
+
+/**
+ * Nudge the start and/or end time of a segment
+ *
+ * Times are clamped so the segment cannot overlap its neighbours.
+ *
+ * @param segments - Current segments
+ * @param index - Index of the segment to adjust
+ * @param timing - New start and/or end time in seconds
+ * @returns Updated segments
+ * @throws {SegmentEditError} If the resulting range is invalid
+ */
+export function adjustSegmentTiming(
+  segments: TranscriptSegment[],
+  index: number,
+  timing: { start?: number; end?: number }
+): TranscriptSegment[] {
+  const position = findSegmentPosition(segments, index);
+  const segment = segments[position];
+  const previous = segments[position - 1];
+  const next = segments[position + 1];
+
+  const lowerBound = previous ? previous.end : 0;
+  const upperBound = next ? next.start : Number.POSITIVE_INFINITY;
+
+  const start = Math.max(lowerBound, timing.start ?? segment.start);
+  const end = Math.min(upperBound, timing.end ?? segment.end);
+
+  if (!Number.isFinite(start) || !Number.isFinite(end)) {
+    throw new SegmentEditError('Segment times must be finite numbers');
+  }
+
+  if (end - start < MIN_SEGMENT_DURATION) {
+    throw new SegmentEditError(
+      `Segment must be at least ${MIN_SEGMENT_DURATION} seconds long`
+    );
+  }
+
+  const updated = [...segments];
+  updated[position] = {
+    ...segment,
+    start: Number(start.toFixed(3)),
+    end: Number(end.toFixed(3)),
+  };
+  return reindexSegments(updated);
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * A run of words that is unchanged, added or removed
+ */
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+/**
+ * Diff of a single edited segment against the original machine output
+ */
+export interface SegmentDiff {
+  /** Index of the edited segment */
+  index: number;
+  /** Start time of the edited segment */
+  start: number;
+  /** End time of the edited segment */
+  end: number;
+  /** Word-level diff parts for this segment */
+  parts: DiffPart[];
+  /** Whether the segment text differs from the original */
+  textChanged: boolean;
+  /** Whether the segment boundaries differ from every original segment */
+  timingChanged: boolean;
+}
+
+/**
+ * Upper bound on the LCS table size. Larger changed regions fall back to a
+ * plain delete + insert to keep diffing responsive.
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+type WordOp = { type: DiffPart['type']; word: string };
+
+function tokenizeWords(text: string): string[] {
+  return text.split(/\s+/).filter((word) => word.length > 0);
+}
+
+/**
+ * Word-level diff between two token arrays
+ *
+ * Common prefix and suffix are trimmed before running an LCS on the
+ * remaining middle section, since manual edits are usually localized.
+ */
+function diffWordArrays(a: string[], b: string[]): WordOp[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: WordOp[] = a.slice(0, prefix).map((word) => ({ type: 'equal', word }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    ops.push(...midA.map((word): WordOp => ({ type: 'delete', word })));
+    ops.push(...midB.map((word): WordOp => ({ type: 'insert', word })));
+  } else {
+    // Classic LCS table, filled from the end so we can walk forwards
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const table = new Uint32Array(rows * cols);
+
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        table[i * cols + j] =
+          midA[i] === midB[j]
+            ? table[(i + 1) * cols + j + 1] + 1
+            : Math.max(table[(i + 1) * cols + j], table[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'equal', word: midA[i] });
+        i++;
+        j++;
+      } else if (table[(i + 1) * cols + j] >= table[i * cols + j + 1]) {
+        ops.push({ type: 'delete', word: midA[i++] });
+      } else {
+        ops.push({ type: 'insert', word: midB[j++] });
+      }
+    }
+    while (i < midA.length) ops.push({ type: 'delete', word: midA[i++] });
+    while (j < midB.length) ops.push({ type: 'insert', word: midB[j++] });
+  }
+
+  ops.push(
+    ...a.slice(a.length - suffix).map((word): WordOp => ({ type: 'equal', word }))
+  );
+
+  return ops;
+}
+
+/**
+ * Positions of original and edited segments that start at the same time
+ *
+ * Both lists are in time order, so the pairs are found in one pass.
+ */
+function findSegmentAnchors(
+  original: TranscriptSegment[],
+  edited: TranscriptSegment[]
+): Array<[number, number]> {
+  const anchors: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < original.length && j < edited.length) {
+    const originalStart = Number(original[i].start.toFixed(3));
+    const editedStart = Number(edited[j].start.toFixed(3));
+    if (originalStart === editedStart) {
+      anchors.push([i++, j++]);
+    } else if (originalStart < editedStart) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return anchors;
+}
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], word: string): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.text = `${last.text} ${word}`;
+  } else {
+    parts.push({ type, text: word });
+  }
+}
+
+/**
+ * Diff edited segments against the original machine output
+ *
+ * Original and edited segments that start at the same time are paired up
+ * (text edits, splits and merges keep a segment's start), and the word
+ * streams between consecutive pairs are diffed region by region, so the
+ * LCS only runs where something changed and splits and merges do not show
+ * up as spurious text changes. Each word operation is then attributed to
+ * the edited segment it falls in; deleted words are attached to the
+ * segment where the deletion happened.
+ *
+ * @param original - Original machine-generated segments
+ * @param edited - Current (edited) segments
+ * @returns One diff entry per edited segment
+ */
+export function diffSegments(
+  original: TranscriptSegment[],
+  edited: TranscriptSegment[]
+): SegmentDiff[] {
+  const originalWordsBySegment = original.map((segment) => tokenizeWords(segment.text));
+  const editedWordsBySegment = edited.map((segment) => tokenizeWords(segment.text));
+
+  // Regions run from one anchor pair to the next; the last one runs to the end
+  const regionEnds = [...findSegmentAnchors(original, edited), [original.length, edited.length]];
+  const ops: WordOp[] = [];
+  let fromOriginal = 0;
+  let fromEdited = 0;
+  for (const [toOriginal, toEdited] of regionEnds) {
+    if (toOriginal > fromOriginal || toEdited > fromEdited) {
+      ops.push(
+        ...diffWordArrays(
+          originalWordsBySegment.slice(fromOriginal, toOriginal).flat(),
+          editedWordsBySegment.slice(fromEdited, toEdited).flat()
+        )
+      );
+    }
+    fromOriginal = toOriginal;
+    fromEdited = toEdited;
+  }
+
+  const originalBoundaries = new Set(
+    original.map((segment) => `${segment.start.toFixed(3)}-${segment.end.toFixed(3)}`)
+  );
+
+  const diffs: SegmentDiff[] = edited.map((segment) => ({
+    index: segment.index,
+    start: segment.start,
+    end: segment.end,
+    parts: [],
+    textChanged: false,
+    timingChanged: !originalBoundaries.has(
+      `${segment.start.toFixed(3)}-${segment.end.toFixed(3)}`
+    ),
+  }));
+
+  if (diffs.length === 0) {
+    return diffs;
+  }
+
+  // Walk the ops, advancing to the next segment once its words are consumed
+  let segmentPosition = 0;
+  let wordsRemaining = editedWordsBySegment[0]?.length ?? 0;
+
+  const advance = () => {
+    while (wordsRemaining === 0 && segmentPosition < diffs.length - 1) {
+      segmentPosition++;
+      wordsRemaining = editedWordsBySegment[segmentPosition].length;
+    }
+  };
+
+  for (const op of ops) {
+    if (op.type !== 'delete') {
+      advance();
+    }
+
+    const diff = diffs[segmentPosition];
+    pushPart(diff.parts, op.type, op.word);
+
+    if (op.type !== 'equal') {
+      diff.textChanged = true;
+    }
+    if (op.type !== 'delete') {
+      wordsRemaining--;
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Word-level diff between two pieces of text
+ *
+ * @param before - Original text
+ * @param after - Changed text
+ * @returns Runs of unchanged, inserted and deleted words
+ */
+export function diffText(before: string, after: string): DiffPart[] {
+  const parts: DiffPart[] = [];
+  for (const op of diffWordArrays(tokenizeWords(before), tokenizeWords(after))) {
+    pushPart(parts, op.type, op.word);
+  }
+  return parts;
+}
+
+/**
+ * Summarize a segment diff for display
+ *
+ * @param diffs - Result of diffSegments()
+ * @returns Counts of changed segments and inserted/deleted words
+ */
+export function summarizeSegmentDiff(diffs: SegmentDiff[]): {
+  changedSegments: number;
+  wordsInserted: number;
+  wordsDeleted: number;
+} {
+  let changedSegments = 0;
+  let wordsInserted = 0;
+  let wordsDeleted = 0;
+
+  for (const diff of diffs) {
+    if (diff.textChanged || diff.timingChanged) {
+      changedSegments++;
+    }
+    for (const part of diff.parts) {
+      const count = tokenizeWords(part.text).length;
+      if (part.type === 'insert') wordsInserted += count;
+      if (part.type === 'delete') wordsDeleted += count;
+    }
+  }
+
+  return { changedSegments, wordsInserted, wordsDeleted };
+}
@@ -0,0 +1,64 @@
+/**
+ * Server Store Module Entry Point
+ *
+ * Optional server-side persistence (a SQLite file) for deployments where
+ * several people share workstations. Enabled with
+ * `NEXT_PUBLIC_STORAGE_BACKEND=server`; the file location is set with
+ * `SERVER_STORE_PATH`.
+ *
+ * Server-only: import from API routes, never from client components.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getStorageBackend } from '@/lib/storage-adapter/backend';
+import { ServerStore } from './store';
+
+export {
+  ServerStore,
+  ServerStoreError,
+  SERVER_STORE_SCHEMA_VERSION,
+  type StoredAudio,
+} from './store';
+
+/**
+ * Default database file, relative to the working directory
+ */
+export const DEFAULT_SERVER_STORE_PATH = 'data/meeting-transcriber.sqlite';
+
+let storeInstance: ServerStore | null = null;
+
+/**
+ * Whether the server store is the configured storage backend
+ */
+export function isServerStoreEnabled(): boolean {
+  return getStorageBackend() === 'server';
+}
+
+/**
+ * Resolved path of the database file
+ */
+export function getServerStorePath(): string {
+  return path.resolve(process.env.SERVER_STORE_PATH || DEFAULT_SERVER_STORE_PATH);
+}
+
+/**
+ * Gets or opens the singleton server store, creating the file and its
+ * directory on first use
+ *
+ * @returns The store, or null when the server store is not enabled
+ */
+export function getServerStore(): ServerStore | null {
+  if (!isServerStoreEnabled()) {
+    return null;
+  }
+
+  if (!storeInstance) {
+    const filename = getServerStorePath();
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+    storeInstance = new ServerStore(filename);
+    console.log('[Server Store] Opened database:', filename);
+  }
+
+  return storeInstance;
+}
@@ -0,0 +1,116 @@
+/**
+ * Server Store Route Helpers
+ *
+ * Shared request parsing and error mapping for the `/api/transcripts`,
+ * `/api/templates` and `/api/analyses` route handlers.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { errorResponse } from '@/lib/api-utils';
+import { getServerStore } from './index';
+import { ServerStore, ServerStoreError } from './store';
+
+const STATUS_BY_CODE: Record<ServerStoreError['code'], number> = {
+  NOT_FOUND: 404,
+  NOT_CUSTOM: 403,
+  INVALID_RECORD: 400,
+  CONFLICT: 409,
+};
+
+/**
+ * Stored records are validated loosely: an ID and creation date are
+ * required, other fields pass through unchanged
+ */
+export const storedRecordSchema = z.looseObject({
+  id: z.string().min(1, 'Record ID is required'),
+  createdAt: z.union([z.string(), z.date()]),
+});
+
+export const idListSchema = z.object({
+  ids: z.array(z.string().min(1)),
+});
+
+const orderDirectionSchema = z.enum(['asc', 'desc']).optional();
+
+/**
+ * Pagination query parameters (`limit`, `offset`, `orderDirection`)
+ */
+export const paginationQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+  orderDirection: orderDirectionSchema,
+});
+
+/**
+ * Reads a request's query parameters into a plain object, omitting empty values
+ */
+export function getQueryParams(request: NextRequest): Record<string, string> {
+  const params: Record<string, string> = {};
+  request.nextUrl.searchParams.forEach((value, key) => {
+    if (value !== '') {
+      params[key] = value;
+    }
+  });
+  return params;
+}
+
+/**
+ * Runs a route handler against the server store
+ *
+ * Responds 501 when the server store is not enabled, and maps store and
+ * validation errors to 4xx responses.
+ *
+ * @param label - Log prefix, e.g. 'Transcripts API'
+ * @param handler - Route logic
+ */
+export async function withServerStore(
+  label: string,
+  handler: (store: ServerStore) => Promise<NextResponse> | NextResponse
+): Promise<NextResponse> {
+  let store: ServerStore | null;
+  try {
+    store = getServerStore();
+  } catch (error) {
+    console.error(`[${label}] Failed to open server store:`, error);
+    return errorResponse('Failed to open server store', 500);
+  }
+
+  if (!store) {
+    return errorResponse(
+      'Server-side storage is not enabled. Set NEXT_PUBLIC_STORAGE_BACKEND=server to use this endpoint.',
+      501,
+      { code: 'STORE_DISABLED' }
+    );
+  }
+
+  try {
+    return await handler(store);
+  } catch (error) {
+    if (error instanceof ServerStoreError) {
+      return errorResponse(error.message, STATUS_BY_CODE[error.code], { code: error.code });
+    }
+    if (error instanceof z.ZodError) {
+      return errorResponse('Invalid request', 400, {
+        type: 'validation_error',
+        errors: error.issues,
+      });
+    }
+    if (error instanceof SyntaxError) {
+      return errorResponse('Failed to parse request body', 400);
+    }
+
+    console.error(`[${label}] Unexpected error:`, error);
+    return errorResponse(
+      error instanceof Error ? error.message : 'An unexpected error occurred',
+      500
+    );
+  }
+}
+
+/**
+ * Response for a record that does not exist
+ */
+export function notFoundResponse(kind: string, id: string): NextResponse {
+  return errorResponse(`${kind} with ID ${id} not found`, 404, { code: 'NOT_FOUND' });
+}
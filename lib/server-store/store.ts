@@ -0,0 +1,719 @@
+/**
+ * SQLite Server Store
+ *
+ * Server-side persistence for transcripts, analyses, templates (with their
+ * revision history) and audio,
+ * used when the app runs on shared workstations instead of storing the
+ * library in each browser's IndexedDB.
+ *
+ * Records are stored as JSON with the columns needed for sorting and
+ * filtering pulled out; the full-text index mirrors the `searchTerms` and
+ * `searchDocs` tables of the browser database so search ranks the same.
+ */
+
+import Database from 'better-sqlite3';
+import { reviveDates } from '@/lib/backup/archive';
+import { getMeetingDate } from '@/lib/action-items';
+import {
+  buildSearchEntries,
+  buildSearchSnippets,
+  findRankedMatches,
+  findRelevantPassages,
+  parseSearchQuery,
+  type SearchDocEntry,
+  type SearchIndexReader,
+  type SearchLanguage,
+  type SearchTermEntry,
+} from '@/lib/search';
+import type { Transcript } from '@/types/transcript';
+import type { Template, TemplateRevision } from '@/types/template';
+import type { Analysis } from '@/types/analysis';
+import type { AudioMetadata } from '@/types/audio';
+import type { LibraryPassage, PassageFilters, TranscriptSearchResult } from '@/types/search';
+import type { PaginatedResult, TranscriptSortField } from '@/lib/db';
+import type { TranscriptListOptions } from '@/lib/storage-adapter/types';
+
+/**
+ * Schema version stored in `PRAGMA user_version`; bump with a migration
+ * when the table layout changes
+ */
+export const SERVER_STORE_SCHEMA_VERSION = 3;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS transcripts (
+    id TEXT PRIMARY KEY,
+    filename TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    duration REAL,
+    file_size INTEGER,
+    file_hash TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS transcripts_created_at ON transcripts (created_at);
+  CREATE INDEX IF NOT EXISTS transcripts_file_hash ON transcripts (file_hash);
+
+  CREATE TABLE IF NOT EXISTS templates (
+    id TEXT PRIMARY KEY,
+    is_custom INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS template_revisions (
+    id TEXT PRIMARY KEY,
+    template_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE UNIQUE INDEX IF NOT EXISTS template_revisions_version ON template_revisions (template_id, version);
+
+  CREATE TABLE IF NOT EXISTS analyses (
+    id TEXT PRIMARY KEY,
+    transcript_id TEXT NOT NULL,
+    template_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS analyses_transcript ON analyses (transcript_id, created_at);
+  CREATE INDEX IF NOT EXISTS analyses_template ON analyses (template_id);
+
+  CREATE TABLE IF NOT EXISTS audio_files (
+    transcript_id TEXT PRIMARY KEY,
+    metadata TEXT NOT NULL,
+    stored_at INTEGER NOT NULL,
+    audio BLOB NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS search_terms (
+    term TEXT NOT NULL,
+    transcript_id TEXT NOT NULL,
+    positions TEXT NOT NULL,
+    segments TEXT NOT NULL,
+    PRIMARY KEY (term, transcript_id)
+  );
+  CREATE INDEX IF NOT EXISTS search_terms_transcript ON search_terms (transcript_id);
+
+  CREATE TABLE IF NOT EXISTS search_docs (
+    transcript_id TEXT PRIMARY KEY,
+    length INTEGER NOT NULL,
+    language TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    meeting_date INTEGER,
+    department TEXT
+  );
+`;
+
+/**
+ * Error raised by server store operations
+ */
+export class ServerStoreError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'NOT_FOUND' | 'NOT_CUSTOM' | 'INVALID_RECORD' | 'CONFLICT'
+  ) {
+    super(message);
+    this.name = 'ServerStoreError';
+  }
+}
+
+/**
+ * Stored audio file for a transcript
+ */
+export interface StoredAudio {
+  transcriptId: string;
+  audio: Buffer;
+  metadata: AudioMetadata;
+  storedAt: Date;
+}
+
+const SORT_COLUMNS: Record<TranscriptSortField, string> = {
+  createdAt: 'created_at',
+  filename: 'filename',
+  'metadata.duration': 'duration',
+  'metadata.fileSize': 'file_size',
+};
+
+interface DataRow {
+  data: string;
+}
+
+interface SearchTermRow {
+  term: string;
+  transcript_id: string;
+  positions: string;
+  segments: string;
+}
+
+interface SearchDocRow {
+  transcript_id: string;
+  length: number;
+  language: string;
+  created_at: number;
+  meeting_date: number | null;
+  department: string | null;
+}
+
+interface AudioRow {
+  transcript_id: string;
+  metadata: string;
+  stored_at: number;
+  audio: Buffer;
+}
+
+/**
+ * Placeholder list for an `IN (...)` clause
+ */
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ');
+}
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
+
+function parseTranscript(row: DataRow): Transcript {
+  return reviveDates.transcripts(JSON.parse(row.data));
+}
+
+function parseTemplate(row: DataRow): Template {
+  return reviveDates.templates(JSON.parse(row.data));
+}
+
+function parseTemplateRevision(row: DataRow): TemplateRevision {
+  return reviveDates.templateRevisions(JSON.parse(row.data));
+}
+
+function parseAnalysis(row: DataRow): Analysis {
+  return reviveDates.analyses(JSON.parse(row.data));
+}
+
+/**
+ * SQLite-backed library store
+ *
+ * @example
+ * ```typescript
+ * const store = new ServerStore('data/meeting-transcriber.sqlite');
+ * store.saveTranscripts([transcript]);
+ * const { items } = store.listTranscripts({ limit: 20 });
+ * ```
+ */
+export class ServerStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param filename - Database file path, or `:memory:` for a throwaway store
+   */
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    this.db.exec(SCHEMA);
+    if (version > 0 && version < 3) {
+      this.addSearchDocFilters();
+    }
+    this.db.pragma(`user_version = ${SERVER_STORE_SCHEMA_VERSION}`);
+  }
+
+  /**
+   * Closes the database file
+   */
+  close(): void {
+    this.db.close();
+  }
+
+  // ==========================================================================
+  // TRANSCRIPTS
+  // ==========================================================================
+
+  /**
+   * Inserts or replaces transcripts and re-indexes them for search
+   */
+  saveTranscripts(transcripts: Transcript[]): void {
+    const save = this.db.transaction((records: Transcript[]) => {
+      for (const transcript of records) {
+        this.writeTranscript(transcript);
+      }
+    });
+    save(transcripts);
+  }
+
+  /**
+   * Retrieves a transcript by ID
+   */
+  getTranscript(id: string): Transcript | undefined {
+    const row = this.db.prepare('SELECT data FROM transcripts WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? parseTranscript(row) : undefined;
+  }
+
+  /**
+   * Lists transcripts, sorted and paginated
+   */
+  listTranscripts(options: TranscriptListOptions = {}): PaginatedResult<Transcript> {
+    const { offset = 0, orderBy = 'createdAt', orderDirection = 'desc', fileHash } = options;
+    const where = fileHash !== undefined ? 'WHERE file_hash = @fileHash' : '';
+    const params = { fileHash, limit: options.limit ?? -1, offset };
+
+    const { total } = this.db
+      .prepare(`SELECT COUNT(*) AS total FROM transcripts ${where}`)
+      .get(params) as { total: number };
+    const direction = orderDirection === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM transcripts ${where}
+         ORDER BY ${SORT_COLUMNS[orderBy]} ${direction}, id ${direction}
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as DataRow[];
+
+    const items = rows.map(parseTranscript);
+    return {
+      items,
+      total,
+      hasMore: offset + items.length < total,
+      offset,
+      limit: options.limit ?? total,
+    };
+  }
+
+  /**
+   * Applies top-level field changes to a transcript
+   *
+   * A `null` value removes the field (JSON has no `undefined`).
+   *
+   * @returns The updated transcript
+   * @throws {ServerStoreError} If the transcript does not exist
+   */
+  updateTranscript(id: string, updates: Record<string, unknown>): Transcript {
+    const update = this.db.transaction(() => {
+      const existing = this.getTranscript(id);
+      if (!existing) {
+        throw new ServerStoreError(`Transcript with ID ${id} not found`, 'NOT_FOUND');
+      }
+
+      const updated: Record<string, unknown> = { ...existing, ...updates, id };
+      for (const key of Object.keys(updates)) {
+        if (updates[key] === null) {
+          delete updated[key];
+        }
+      }
+
+      const transcript = reviveDates.transcripts(updated as unknown as Transcript);
+      this.writeTranscript(transcript);
+      return transcript;
+    });
+    return update();
+  }
+
+  /**
+   * Deletes transcripts with their analyses, audio and search index rows
+   *
+   * @returns Number of transcripts deleted
+   */
+  deleteTranscripts(ids: string[]): number {
+    if (ids.length === 0) return 0;
+
+    const remove = this.db.transaction(() => {
+      const list = placeholders(ids.length);
+      this.db.prepare(`DELETE FROM analyses WHERE transcript_id IN (${list})`).run(...ids);
+      this.db.prepare(`DELETE FROM audio_files WHERE transcript_id IN (${list})`).run(...ids);
+      this.db.prepare(`DELETE FROM search_terms WHERE transcript_id IN (${list})`).run(...ids);
+      this.db.prepare(`DELETE FROM search_docs WHERE transcript_id IN (${list})`).run(...ids);
+      return this.db.prepare(`DELETE FROM transcripts WHERE id IN (${list})`).run(...ids).changes;
+    });
+    return remove();
+  }
+
+  /**
+   * Full-text search ranked with BM25, like the browser library search
+   *
+   * An empty query lists all transcripts newest first without snippets.
+   */
+  async searchTranscripts(
+    query: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<PaginatedResult<TranscriptSearchResult>> {
+    const { limit = 50, offset = 0 } = options;
+    const clauses = parseSearchQuery(query);
+
+    if (clauses.length === 0) {
+      const page = this.listTranscripts({ limit, offset });
+      return {
+        ...page,
+        items: page.items.map((transcript) => ({
+          transcript,
+          score: 0,
+          snippets: [],
+          filenameMatch: false,
+        })),
+      };
+    }
+
+    const { ranked, docs } = await findRankedMatches(this.createSearchIndexReader(), clauses);
+    const page = ranked.slice(offset, offset + limit);
+
+    const items: TranscriptSearchResult[] = [];
+    for (const match of page) {
+      const transcript = this.getTranscript(match.transcriptId);
+      if (!transcript) continue;
+      const language = docs.get(match.transcriptId)?.language ?? 'en';
+      items.push({
+        transcript,
+        score: match.score,
+        snippets: buildSearchSnippets(transcript, match.terms, language),
+        filenameMatch: match.filenameMatch,
+      });
+    }
+
+    return {
+      items,
+      total: ranked.length,
+      hasMore: offset + page.length < ranked.length,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * Passages that best answer a question, ranked like the browser library chat
+   */
+  findPassages(question: string, filters: PassageFilters = {}): Promise<LibraryPassage[]> {
+    return findRelevantPassages(
+      this.createSearchIndexReader(),
+      async (ids) => ids.map((id) => this.getTranscript(id)),
+      question,
+      filters
+    );
+  }
+
+  // ==========================================================================
+  // TEMPLATES
+  // ==========================================================================
+
+  /**
+   * Inserts or replaces a template
+   */
+  saveTemplate(template: Template): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO templates (id, is_custom, created_at, data)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(template.id, template.isCustom ? 1 : 0, toTime(template.createdAt), JSON.stringify(template));
+  }
+
+  /**
+   * Retrieves a template by ID
+   */
+  getTemplate(id: string): Template | undefined {
+    const row = this.db.prepare('SELECT data FROM templates WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? parseTemplate(row) : undefined;
+  }
+
+  /**
+   * Lists all templates
+   */
+  listTemplates(): Template[] {
+    const rows = this.db.prepare('SELECT data FROM templates ORDER BY id').all() as DataRow[];
+    return rows.map(parseTemplate);
+  }
+
+  /**
+   * Deletes a custom template with its revisions and the analyses made with it
+   *
+   * @throws {ServerStoreError} If the template does not exist or is built in
+   */
+  deleteTemplate(id: string): void {
+    const remove = this.db.transaction(() => {
+      const template = this.getTemplate(id);
+      if (!template) {
+        throw new ServerStoreError(`Template with ID ${id} not found`, 'NOT_FOUND');
+      }
+      if (!template.isCustom) {
+        throw new ServerStoreError(
+          'Cannot delete built-in templates. Only custom templates can be deleted.',
+          'NOT_CUSTOM'
+        );
+      }
+
+      this.db.prepare('DELETE FROM templates WHERE id = ?').run(id);
+      this.db.prepare('DELETE FROM template_revisions WHERE template_id = ?').run(id);
+      this.db.prepare('DELETE FROM analyses WHERE template_id = ?').run(id);
+    });
+    remove();
+  }
+
+  /**
+   * Lists a template's revisions, oldest first
+   */
+  listTemplateRevisions(templateId: string): TemplateRevision[] {
+    const rows = this.db
+      .prepare('SELECT data FROM template_revisions WHERE template_id = ? ORDER BY version')
+      .all(templateId) as DataRow[];
+    return rows.map(parseTemplateRevision);
+  }
+
+  /**
+   * Adds revisions to template histories
+   *
+   * Revisions are immutable, so a version that already exists (such as one
+   * saved from another workstation in the meantime) is rejected rather
+   * than replaced.
+   *
+   * @throws {ServerStoreError} If a revision's version already exists
+   */
+  saveTemplateRevisions(revisions: TemplateRevision[]): void {
+    const insert = this.db.prepare(
+      'INSERT INTO template_revisions (id, template_id, version, data) VALUES (?, ?, ?, ?)'
+    );
+    const save = this.db.transaction((records: TemplateRevision[]) => {
+      for (const revision of records) {
+        try {
+          insert.run(revision.id, revision.templateId, revision.version, JSON.stringify(revision));
+        } catch (error) {
+          if (error instanceof Database.SqliteError && error.code.startsWith('SQLITE_CONSTRAINT')) {
+            throw new ServerStoreError(
+              `Version ${revision.version} of template ${revision.templateId} already exists`,
+              'CONFLICT'
+            );
+          }
+          throw error;
+        }
+      }
+    });
+    save(revisions);
+  }
+
+  // ==========================================================================
+  // ANALYSES
+  // ==========================================================================
+
+  /**
+   * Inserts or replaces an analysis
+   */
+  saveAnalysis(analysis: Analysis): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO analyses (id, transcript_id, template_id, created_at, data)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        analysis.id,
+        analysis.transcriptId,
+        analysis.templateId,
+        toTime(analysis.createdAt),
+        JSON.stringify(analysis)
+      );
+  }
+
+  /**
+   * Retrieves an analysis by ID
+   */
+  getAnalysis(id: string): Analysis | undefined {
+    const row = this.db.prepare('SELECT data FROM analyses WHERE id = ?').get(id) as DataRow | undefined;
+    return row ? parseAnalysis(row) : undefined;
+  }
+
+  /**
+   * Lists a transcript's analyses by creation date, paginated
+   */
+  listAnalyses(
+    transcriptId: string,
+    options: { limit?: number; offset?: number; orderDirection?: 'asc' | 'desc' } = {}
+  ): PaginatedResult<Analysis> {
+    const { offset = 0, orderDirection = 'desc' } = options;
+    const params = { transcriptId, limit: options.limit ?? -1, offset };
+
+    const { total } = this.db
+      .prepare('SELECT COUNT(*) AS total FROM analyses WHERE transcript_id = @transcriptId')
+      .get(params) as { total: number };
+    const direction = orderDirection === 'asc' ? 'ASC' : 'DESC';
+    const rows = this.db
+      .prepare(
+        `SELECT data FROM analyses WHERE transcript_id = @transcriptId
+         ORDER BY created_at ${direction}, id ${direction}
+         LIMIT @limit OFFSET @offset`
+      )
+      .all(params) as DataRow[];
+
+    const items = rows.map(parseAnalysis);
+    return {
+      items,
+      total,
+      hasMore: offset + items.length < total,
+      offset,
+      limit: options.limit ?? total,
+    };
+  }
+
+  /**
+   * Deletes analyses by ID
+   *
+   * @returns Number of analyses deleted
+   */
+  deleteAnalyses(ids: string[]): number {
+    if (ids.length === 0) return 0;
+    return this.db
+      .prepare(`DELETE FROM analyses WHERE id IN (${placeholders(ids.length)})`)
+      .run(...ids).changes;
+  }
+
+  // ==========================================================================
+  // AUDIO
+  // ==========================================================================
+
+  /**
+   * Stores (or replaces) the audio file for a transcript
+   */
+  saveAudio(transcriptId: string, audio: Buffer, metadata: AudioMetadata): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO audio_files (transcript_id, metadata, stored_at, audio)
+         VALUES (?, ?, ?, ?)`
+      )
+      .run(transcriptId, JSON.stringify(metadata), Date.now(), audio);
+  }
+
+  /**
+   * Retrieves the audio file for a transcript
+   */
+  getAudio(transcriptId: string): StoredAudio | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM audio_files WHERE transcript_id = ?')
+      .get(transcriptId) as AudioRow | undefined;
+    if (!row) return undefined;
+
+    const metadata = JSON.parse(row.metadata) as AudioMetadata;
+    return {
+      transcriptId: row.transcript_id,
+      audio: row.audio,
+      metadata: { ...metadata, loadedAt: new Date(metadata.loadedAt) },
+      storedAt: new Date(row.stored_at),
+    };
+  }
+
+  /**
+   * Deletes the audio file for a transcript
+   *
+   * @returns Whether a file was deleted
+   */
+  deleteAudio(transcriptId: string): boolean {
+    return this.db.prepare('DELETE FROM audio_files WHERE transcript_id = ?').run(transcriptId).changes > 0;
+  }
+
+  // ==========================================================================
+  // INTERNALS
+  // ==========================================================================
+
+  /**
+   * Writes a transcript row and replaces its search index rows
+   *
+   * Must be called inside a transaction.
+   */
+  private writeTranscript(transcript: Transcript): void {
+    if (!transcript.id) {
+      throw new ServerStoreError('Transcript is missing an ID', 'INVALID_RECORD');
+    }
+
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO transcripts (id, filename, created_at, duration, file_size, file_hash, data)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        transcript.id,
+        transcript.filename ?? '',
+        toTime(transcript.createdAt),
+        transcript.metadata?.duration ?? null,
+        transcript.metadata?.fileSize ?? null,
+        transcript.fingerprint?.fileHash ?? null,
+        JSON.stringify(transcript)
+      );
+
+    const { doc, terms } = buildSearchEntries(transcript);
+    this.db.prepare('DELETE FROM search_terms WHERE transcript_id = ?').run(transcript.id);
+    const insertTerm = this.db.prepare(
+      'INSERT INTO search_terms (term, transcript_id, positions, segments) VALUES (?, ?, ?, ?)'
+    );
+    for (const entry of terms) {
+      insertTerm.run(entry.term, entry.transcriptId, JSON.stringify(entry.positions), JSON.stringify(entry.segments));
+    }
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO search_docs (transcript_id, length, language, created_at, meeting_date, department)
+         VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        doc.transcriptId,
+        doc.length,
+        doc.language,
+        doc.createdAt.getTime(),
+        doc.meetingDate.getTime(),
+        doc.department ?? null
+      );
+  }
+
+  /**
+   * Migrates search docs from schema version 1 or 2: adds the meeting date
+   * and department columns and fills them from the transcripts
+   */
+  private addSearchDocFilters(): void {
+    const migrate = this.db.transaction(() => {
+      this.db.exec('ALTER TABLE search_docs ADD COLUMN meeting_date INTEGER');
+      this.db.exec('ALTER TABLE search_docs ADD COLUMN department TEXT');
+
+      const update = this.db.prepare(
+        'UPDATE search_docs SET meeting_date = ?, department = ? WHERE transcript_id = ?'
+      );
+      const rows = this.db.prepare('SELECT data FROM transcripts').all() as DataRow[];
+      for (const row of rows) {
+        const transcript = parseTranscript(row);
+        update.run(toTime(getMeetingDate(transcript)), transcript.department ?? null, transcript.id);
+      }
+    });
+    migrate();
+  }
+
+  /**
+   * Reads the search tables for search execution
+   */
+  private createSearchIndexReader(): SearchIndexReader {
+    const toEntry = (row: SearchTermRow): SearchTermEntry => ({
+      term: row.term,
+      transcriptId: row.transcript_id,
+      positions: JSON.parse(row.positions),
+      segments: JSON.parse(row.segments),
+    });
+
+    return {
+      getTermRows: async (terms) => {
+        if (terms.length === 0) return [];
+        const rows = this.db
+          .prepare(`SELECT * FROM search_terms WHERE term IN (${placeholders(terms.length)})`)
+          .all(...terms) as SearchTermRow[];
+        return rows.map(toEntry);
+      },
+      getPrefixRows: async (prefix) => {
+        // Same upper bound Dexie uses for startsWith()
+        const rows = this.db
+          .prepare('SELECT * FROM search_terms WHERE term >= ? AND term < ?')
+          .all(prefix, `${prefix}\uffff`) as SearchTermRow[];
+        return rows.map(toEntry);
+      },
+      getDocs: async () => {
+        const docs = new Map<string, SearchDocEntry>();
+        const rows = this.db.prepare('SELECT * FROM search_docs').all() as SearchDocRow[];
+        for (const row of rows) {
+          docs.set(row.transcript_id, {
+            transcriptId: row.transcript_id,
+            length: row.length,
+            language: row.language as SearchLanguage,
+            createdAt: new Date(row.created_at),
+            meetingDate: new Date(row.meeting_date ?? row.created_at),
+            department: row.department ?? undefined,
+          });
+        }
+        return docs;
+      },
+    };
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * Speaker Roster Utilities
+ *
+ * Pure functions for mapping raw diarization labels ("Speaker 1",
+ * "Speaker 2") to real names and roles, merging labels that belong to the
+ * same person, and applying the roster wherever speakers are shown,
+ * exported, or sent to the AI.
+ *
+ * Segments always keep their raw labels so the roster can be changed or
+ * undone at any time. None of these functions mutate their input.
+ */
+
+import type { SpeakerProfile, Transcript, TranscriptSegment } from '@/types/transcript';
+
+/**
+ * Error thrown when a roster change is not allowed (e.g. merging a speaker into itself)
+ */
+export class SpeakerRosterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpeakerRosterError';
+  }
+}
+
+/**
+ * Collect the raw speaker labels used in a transcript, in order of first appearance
+ *
+ * @param segments - Transcript segments
+ * @returns Unique speaker labels
+ */
+export function getSpeakerLabels(segments: TranscriptSegment[]): string[] {
+  const labels = new Set<string>();
+  for (const segment of segments) {
+    if (segment.speaker) {
+      labels.add(segment.speaker);
+    }
+  }
+  return Array.from(labels);
+}
+
+/**
+ * Build a roster with one entry per speaker label in the transcript
+ *
+ * Existing entries are kept (including those for labels no longer present,
+ * so edits survive segment changes); missing labels get an empty entry.
+ *
+ * @param segments - Transcript segments
+ * @param roster - Existing roster, if any
+ * @returns Roster ordered by first appearance of each label
+ */
+export function buildSpeakerRoster(
+  segments: TranscriptSegment[],
+  roster: SpeakerProfile[] = []
+): SpeakerProfile[] {
+  const byLabel = new Map(roster.map((profile) => [profile.label, profile]));
+  const result: SpeakerProfile[] = getSpeakerLabels(segments).map(
+    (label) => byLabel.get(label) ?? { label }
+  );
+
+  for (const profile of roster) {
+    if (!result.some((p) => p.label === profile.label)) {
+      result.push(profile);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve a raw label to the roster entry it ultimately refers to,
+ * following merges
+ *
+ * @param label - Raw speaker label
+ * @param roster - Speaker roster
+ * @returns The target profile, or undefined if the label is not in the roster
+ */
+export function resolveSpeaker(
+  label: string,
+  roster: SpeakerProfile[] | undefined
+): SpeakerProfile | undefined {
+  if (!roster || roster.length === 0) return undefined;
+
+  const byLabel = new Map(roster.map((profile) => [profile.label, profile]));
+  const visited = new Set<string>();
+  let current = byLabel.get(label);
+
+  // Guard against malformed rosters with merge cycles
+  while (current?.mergedInto && !visited.has(current.label)) {
+    visited.add(current.label);
+    const next = byLabel.get(current.mergedInto);
+    if (!next) break;
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Format a roster entry for display
+ *
+ * @example
+ * formatSpeakerName({ label: 'Speaker 1', name: 'Council Member Alter', role: 'District 10' })
+ * // "Council Member Alter, District 10"
+ */
+export function formatSpeakerName(profile: SpeakerProfile): string {
+  const name = profile.name?.trim();
+  const role = profile.role?.trim();
+
+  if (name && role) return `${name}, ${role}`;
+  if (name) return name;
+  if (role) return `${profile.label} (${role})`;
+  return profile.label;
+}
+
+/**
+ * Get the display name for a raw speaker label
+ *
+ * Labels that are not in the roster are returned unchanged, so this is safe
+ * to call on speaker strings from older analyses as well.
+ *
+ * @param label - Raw speaker label
+ * @param roster - Speaker roster
+ * @returns Display name
+ */
+export function getSpeakerDisplayName(
+  label: string,
+  roster: SpeakerProfile[] | undefined
+): string {
+  const profile = resolveSpeaker(label, roster);
+  return profile ? formatSpeakerName(profile) : label;
+}
+
+/**
+ * Replace raw speaker labels on segments with roster display names
+ *
+ * @param segments - Transcript segments with raw labels
+ * @param roster - Speaker roster
+ * @returns Copy of the segments with display names as `speaker`
+ */
+export function applySpeakerRoster(
+  segments: TranscriptSegment[],
+  roster: SpeakerProfile[] | undefined
+): TranscriptSegment[] {
+  if (!roster || roster.length === 0) return segments;
+
+  return segments.map((segment) =>
+    segment.speaker
+      ? { ...segment, speaker: getSpeakerDisplayName(segment.speaker, roster) }
+      : segment
+  );
+}
+
+/**
+ * Apply a transcript's own roster to its segments
+ *
+ * @param transcript - Transcript with raw speaker labels
+ * @returns Copy of the transcript whose segments carry display names
+ */
+export function withSpeakerNames(transcript: Transcript): Transcript {
+  if (!transcript.speakers || transcript.speakers.length === 0) return transcript;
+  return {
+    ...transcript,
+    segments: applySpeakerRoster(transcript.segments, transcript.speakers),
+  };
+}
+
+/**
+ * Build the transcript text sent to the AI for analysis and chat
+ *
+ * When segments carry speakers, consecutive segments by the same speaker
+ * are grouped into "Name: text" lines so the model can attribute
+ * statements. Without speakers, the plain transcript text is returned.
+ *
+ * @param transcript - Transcript to format
+ * @returns Speaker-attributed transcript text
+ */
+export function buildSpeakerAttributedText(transcript: Transcript): string {
+  const segments = transcript.segments ?? [];
+  if (!segments.some((segment) => segment.speaker)) {
+    return transcript.text;
+  }
+
+  const lines: string[] = [];
+  let currentSpeaker: string | undefined;
+  let currentText: string[] = [];
+
+  const flush = () => {
+    if (currentText.length === 0) return;
+    const text = currentText.join(' ');
+    lines.push(currentSpeaker ? `${currentSpeaker}: ${text}` : text);
+    currentText = [];
+  };
+
+  for (const segment of segments) {
+    const text = segment.text.trim();
+    if (!text) continue;
+
+    const speaker = segment.speaker
+      ? getSpeakerDisplayName(segment.speaker, transcript.speakers)
+      : undefined;
+
+    if (speaker !== currentSpeaker) {
+      flush();
+      currentSpeaker = speaker;
+    }
+    currentText.push(text);
+  }
+  flush();
+
+  return lines.join('\n');
+}
+
+/**
+ * Update the name and/or role for a speaker label
+ *
+ * @param roster - Speaker roster
+ * @param label - Raw speaker label to update
+ * @param updates - New name and/or role (empty strings clear the field)
+ * @returns Updated roster
+ */
+export function updateSpeakerProfile(
+  roster: SpeakerProfile[],
+  label: string,
+  updates: { name?: string; role?: string }
+): SpeakerProfile[] {
+  const exists = roster.some((profile) => profile.label === label);
+  const base = exists ? roster : [...roster, { label }];
+
+  return base.map((profile) => {
+    if (profile.label !== label) return profile;
+
+    const next: SpeakerProfile = { ...profile };
+    if (updates.name !== undefined) {
+      next.name = updates.name.trim() || undefined;
+    }
+    if (updates.role !== undefined) {
+      next.role = updates.role.trim() || undefined;
+    }
+    return next;
+  });
+}
+
+/**
+ * Merge one speaker label into another
+ *
+ * The source label (and any labels already merged into it) will resolve
+ * to the target's name and role.
+ *
+ * @param roster - Speaker roster
+ * @param sourceLabel - Label being merged away
+ * @param targetLabel - Label that remains
+ * @returns Updated roster
+ * @throws SpeakerRosterError if the merge would be a no-op or create a cycle
+ */
+export function mergeSpeakers(
+  roster: SpeakerProfile[],
+  sourceLabel: string,
+  targetLabel: string
+): SpeakerProfile[] {
+  if (sourceLabel === targetLabel) {
+    throw new SpeakerRosterError('Cannot merge a speaker into itself');
+  }
+
+  const target = resolveSpeaker(targetLabel, roster) ?? { label: targetLabel };
+  if (target.label === sourceLabel) {
+    throw new SpeakerRosterError(
+      `"${targetLabel}" is already merged into "${sourceLabel}"`
+    );
+  }
+
+  const withBoth = [sourceLabel, targetLabel].reduce<SpeakerProfile[]>(
+    (acc, label) => (acc.some((p) => p.label === label) ? acc : [...acc, { label }]),
+    roster
+  );
+
+  return withBoth.map((profile) => {
+    if (profile.label === sourceLabel || profile.mergedInto === sourceLabel) {
+      return { ...profile, mergedInto: target.label };
+    }
+    return profile;
+  });
+}
+
+/**
+ * Undo a merge so the label resolves to its own roster entry again
+ *
+ * @param roster - Speaker roster
+ * @param label - Merged label to split back out
+ * @returns Updated roster
+ */
+export function unmergeSpeaker(roster: SpeakerProfile[], label: string): SpeakerProfile[] {
+  return roster.map((profile) => {
+    if (profile.label !== label) return profile;
+    const next = { ...profile };
+    delete next.mergedInto;
+    return next;
+  });
+}
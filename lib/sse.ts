@@ -0,0 +1,161 @@
+/**
+ * Server-Sent Events Utilities
+ *
+ * Minimal helpers for streaming JSON events from API routes and reading
+ * them back on the client with fetch (EventSource cannot send POST bodies).
+ *
+ * Wire format: each event is `event: <name>\ndata: <json>\n\n`.
+ */
+
+/**
+ * Response headers for an SSE stream
+ */
+export const SSE_HEADERS: HeadersInit = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Disable proxy buffering (nginx) so events are flushed immediately
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * A decoded server-sent event
+ */
+export interface SSEMessage<T = unknown> {
+  /** Event name (defaults to "message") */
+  event: string;
+  /** Parsed JSON payload */
+  data: T;
+}
+
+/**
+ * Serialize one event in SSE wire format
+ *
+ * @param event - Event name
+ * @param data - JSON-serializable payload
+ * @returns Encoded event text
+ */
+export function formatSSEEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Create a ReadableStream that emits SSE events
+ *
+ * The producer receives a `send` function and the stream closes when it
+ * resolves or throws. `onCancel` runs when the client disconnects so the
+ * producer can abort upstream work.
+ *
+ * @example
+ * ```ts
+ * const body = createSSEStream(async (send) => {
+ *   send('progress', { percent: 50 });
+ *   send('done', { ok: true });
+ * });
+ * return new Response(body, { headers: SSE_HEADERS });
+ * ```
+ */
+export function createSSEStream(
+  producer: (send: (event: string, data: unknown) => void) => Promise<void>,
+  onCancel?: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(formatSSEEvent(event, data)));
+      };
+
+      try {
+        await producer(send);
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      onCancel?.();
+    },
+  });
+}
+
+/**
+ * Parse a single raw SSE block into an event
+ */
+function parseSSEBlock(block: string): SSEMessage | null {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+
+  try {
+    return { event, data: JSON.parse(dataLines.join('\n')) };
+  } catch {
+    return { event, data: dataLines.join('\n') };
+  }
+}
+
+/**
+ * Read an SSE response body and invoke a callback for each event
+ *
+ * Resolves when the stream ends. Rejects with an AbortError if the fetch
+ * signal is aborted while reading.
+ *
+ * @param response - Fetch response with an SSE body
+ * @param onEvent - Called for each decoded event, in order
+ */
+export async function readSSEStream(
+  response: Response,
+  onEvent: (message: SSEMessage) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const message = parseSSEBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) onEvent(message);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const trailing = parseSSEBlock(buffer.trim());
+    if (trailing) onEvent(trailing);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Whether a response is an SSE stream
+ */
+export function isSSEResponse(response: Response): boolean {
+  return (response.headers.get('Content-Type') ?? '').includes('text/event-stream');
+}
@@ -0,0 +1,21 @@
+/**
+ * Storage Backend Selection
+ *
+ * `NEXT_PUBLIC_STORAGE_BACKEND` is inlined into the client bundle at build
+ * time, so the browser and the API routes always agree on where the
+ * library lives.
+ */
+
+/**
+ * Where the library (transcripts, analyses, templates, audio) is stored
+ * - `indexeddb`: in each browser (default)
+ * - `server`: in the server's SQLite store, shared by every browser
+ */
+export type StorageBackend = 'indexeddb' | 'server';
+
+/**
+ * Get the configured storage backend
+ */
+export function getStorageBackend(): StorageBackend {
+  return process.env.NEXT_PUBLIC_STORAGE_BACKEND === 'server' ? 'server' : 'indexeddb';
+}
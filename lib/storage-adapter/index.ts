@@ -0,0 +1,16 @@
+/**
+ * Storage Adapter Module Entry Point
+ *
+ * Lets `lib/db.ts` keep the library in IndexedDB (default) or in the
+ * server store through its REST API, without changing the hooks and
+ * components that call it.
+ */
+
+export { getStorageBackend, type StorageBackend } from './backend';
+export { createServerStorageAdapter } from './server';
+export type {
+  LiveQueryBridge,
+  StorageAdapter,
+  StoredTable,
+  TranscriptListOptions,
+} from './types';
@@ -0,0 +1,288 @@
+/**
+ * Server Storage Adapter
+ *
+ * Stores the library in the server store through the REST API
+ * (`/api/transcripts`, `/api/templates`, `/api/analyses`). Dates are sent
+ * as ISO strings and revived on the way back.
+ */
+
+import { reviveDates } from '@/lib/backup/archive';
+import { DatabaseError } from '@/lib/database-error';
+import type { Transcript } from '@/types/transcript';
+import type { Template, TemplateRevision } from '@/types/template';
+import type { Analysis } from '@/types/analysis';
+import type { AudioMetadata } from '@/types/audio';
+import type { LibraryPassage, TranscriptSearchResult } from '@/types/search';
+import type { PaginatedResult, PaginationOptions } from '@/lib/db';
+import type {
+  LiveQueryBridge,
+  StorageAdapter,
+  StoredTable,
+  TranscriptListOptions,
+} from './types';
+
+/**
+ * Header carrying audio metadata alongside the audio bytes (URI-encoded JSON)
+ */
+export const AUDIO_METADATA_HEADER = 'X-Audio-Metadata';
+
+/**
+ * Builds a query string, skipping undefined values
+ */
+function toQuery(params: Record<string, string | number | undefined>): string {
+  const search = new URLSearchParams();
+  for (const key of Object.keys(params)) {
+    const value = params[key];
+    if (value !== undefined) {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Sends a request to the store API and returns the `data` of a success response
+ *
+ * @throws {DatabaseError} With the server's error code (e.g. NOT_FOUND) on failure
+ */
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const headers = init?.body && typeof init.body === 'string'
+    ? { 'Content-Type': 'application/json' }
+    : undefined;
+  const response = await fetch(path, { ...init, headers: { ...headers, ...init?.headers } });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok || !body?.success) {
+    throw new DatabaseError(
+      body?.error || `Server store request failed (${response.status})`,
+      body?.details?.code
+    );
+  }
+  return body.data as T;
+}
+
+function revivePage<T>(page: PaginatedResult<T>, revive: (item: T) => T): PaginatedResult<T> {
+  return { ...page, items: page.items.map(revive) };
+}
+
+/**
+ * Replaces top-level `undefined` values with `null` so field removals
+ * survive JSON serialization
+ */
+function toPatch(updates: Record<string, unknown>): Record<string, unknown> {
+  const patch: Record<string, unknown> = {};
+  for (const key of Object.keys(updates)) {
+    patch[key] = updates[key] === undefined ? null : updates[key];
+  }
+  return patch;
+}
+
+/**
+ * Creates the adapter for the server store
+ *
+ * @param bridge - Live query hooks provided by `lib/db.ts`
+ * @returns Storage adapter backed by the REST API
+ */
+export function createServerStorageAdapter(bridge: LiveQueryBridge): StorageAdapter {
+  // Observation starts before the request so it runs inside the live query
+  const read = async <T>(tables: StoredTable[], load: () => Promise<T>): Promise<T> => {
+    const observed = bridge.observe(tables);
+    const result = await load();
+    await observed;
+    return result;
+  };
+
+  const write = async <T>(tables: StoredTable[], run: () => Promise<T>): Promise<T> => {
+    const result = await run();
+    bridge.notify(tables);
+    return result;
+  };
+
+  const getTranscript = (id: string) =>
+    read(['transcripts'], async () => {
+      try {
+        const transcript = await request<Transcript>(`/api/transcripts/${encodeURIComponent(id)}`);
+        return reviveDates.transcripts(transcript);
+      } catch (error) {
+        if (error instanceof DatabaseError && error.code === 'NOT_FOUND') return undefined;
+        throw error;
+      }
+    });
+
+  return {
+    saveTranscripts: (transcripts) =>
+      write(['transcripts'], async () => {
+        await request('/api/transcripts', {
+          method: 'POST',
+          body: JSON.stringify({ transcripts }),
+        });
+      }),
+
+    getTranscript,
+
+    listTranscripts: (options: TranscriptListOptions = {}) =>
+      read(['transcripts'], async () => {
+        const page = await request<PaginatedResult<Transcript>>(
+          `/api/transcripts${toQuery({ ...options })}`
+        );
+        return revivePage(page, reviveDates.transcripts);
+      }),
+
+    searchTranscripts: (query, options: PaginationOptions = {}) =>
+      read(['transcripts'], async () => {
+        const page = await request<PaginatedResult<TranscriptSearchResult>>(
+          `/api/transcripts${toQuery({ q: query, limit: options.limit, offset: options.offset })}`
+        );
+        return revivePage(page, (item) => ({
+          ...item,
+          transcript: reviveDates.transcripts(item.transcript),
+        }));
+      }),
+
+    findPassages: (question, filters = {}) =>
+      read(['transcripts'], async () => {
+        const passages = await request<LibraryPassage[]>(
+          `/api/transcripts/passages${toQuery({
+            q: question,
+            department: filters.department,
+            from: filters.from?.toISOString(),
+            to: filters.to?.toISOString(),
+          })}`
+        );
+        return passages.map((passage) => ({ ...passage, createdAt: new Date(passage.createdAt) }));
+      }),
+
+    updateTranscript: (id, updates) =>
+      write(['transcripts'], async () => {
+        const transcript = await request<Transcript>(`/api/transcripts/${encodeURIComponent(id)}`, {
+          method: 'PATCH',
+          body: JSON.stringify(toPatch(updates)),
+        });
+        return reviveDates.transcripts(transcript);
+      }),
+
+    deleteTranscripts: (ids) =>
+      write(['transcripts', 'analyses', 'audioFiles'], async () => {
+        const { deleted } = await request<{ deleted: number }>('/api/transcripts', {
+          method: 'DELETE',
+          body: JSON.stringify({ ids }),
+        });
+        return deleted;
+      }),
+
+    saveTemplate: (template) =>
+      write(['templates'], async () => {
+        await request(`/api/templates/${encodeURIComponent(template.id)}`, {
+          method: 'PUT',
+          body: JSON.stringify(template),
+        });
+      }),
+
+    getTemplate: (id) =>
+      read(['templates'], async () => {
+        try {
+          const template = await request<Template>(`/api/templates/${encodeURIComponent(id)}`);
+          return reviveDates.templates(template);
+        } catch (error) {
+          if (error instanceof DatabaseError && error.code === 'NOT_FOUND') return undefined;
+          throw error;
+        }
+      }),
+
+    getAllTemplates: () =>
+      read(['templates'], async () => {
+        const templates = await request<Template[]>('/api/templates');
+        return templates.map(reviveDates.templates);
+      }),
+
+    deleteTemplate: (id) =>
+      write(['templates', 'templateRevisions', 'analyses'], async () => {
+        await request(`/api/templates/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      }),
+
+    getTemplateRevisions: (templateId) =>
+      read(['templateRevisions'], async () => {
+        const revisions = await request<TemplateRevision[]>(
+          `/api/templates/${encodeURIComponent(templateId)}/revisions`
+        );
+        return revisions.map(reviveDates.templateRevisions);
+      }),
+
+    saveTemplateRevisions: (templateId, revisions) =>
+      write(['templateRevisions'], async () => {
+        if (revisions.length === 0) return;
+        await request(`/api/templates/${encodeURIComponent(templateId)}/revisions`, {
+          method: 'POST',
+          body: JSON.stringify({ revisions }),
+        });
+      }),
+
+    saveAnalysis: (analysis) =>
+      write(['analyses'], async () => {
+        await request('/api/analyses', {
+          method: 'POST',
+          body: JSON.stringify(analysis),
+        });
+      }),
+
+    listAnalyses: (transcriptId, options: PaginationOptions = {}) =>
+      read(['analyses'], async () => {
+        const page = await request<PaginatedResult<Analysis>>(
+          `/api/analyses${toQuery({
+            transcriptId,
+            limit: options.limit,
+            offset: options.offset,
+            orderDirection: options.orderDirection,
+          })}`
+        );
+        return revivePage(page, reviveDates.analyses);
+      }),
+
+    deleteAnalyses: (ids) =>
+      write(['analyses'], async () => {
+        const { deleted } = await request<{ deleted: number }>('/api/analyses', {
+          method: 'DELETE',
+          body: JSON.stringify({ ids }),
+        });
+        return deleted;
+      }),
+
+    saveAudio: (entry) =>
+      write(['audioFiles'], async () => {
+        const form = new FormData();
+        form.append('file', entry.audioBlob, entry.metadata.filename);
+        form.append('metadata', JSON.stringify(entry.metadata));
+        await request(`/api/transcripts/${encodeURIComponent(entry.transcriptId)}/audio`, {
+          method: 'PUT',
+          body: form,
+        });
+      }),
+
+    getAudio: (transcriptId) =>
+      read(['audioFiles'], async () => {
+        const response = await fetch(`/api/transcripts/${encodeURIComponent(transcriptId)}/audio`);
+        if (response.status === 404) return undefined;
+        if (!response.ok) {
+          throw new DatabaseError(`Failed to load audio (${response.status})`, 'GET_FAILED');
+        }
+
+        const metadata = JSON.parse(
+          decodeURIComponent(response.headers.get(AUDIO_METADATA_HEADER) ?? '{}')
+        ) as AudioMetadata;
+        return {
+          transcriptId,
+          audioBlob: await response.blob(),
+          metadata: { ...metadata, loadedAt: new Date(metadata.loadedAt) },
+          storedAt: new Date(response.headers.get('Last-Modified') ?? Date.now()),
+        };
+      }),
+
+    deleteAudio: (transcriptId) =>
+      write(['audioFiles'], async () => {
+        await request(`/api/transcripts/${encodeURIComponent(transcriptId)}/audio`, {
+          method: 'DELETE',
+        });
+      }),
+  };
+}
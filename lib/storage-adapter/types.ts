@@ -0,0 +1,100 @@
+/**
+ * Storage Adapter Types
+ */
+
+import type { Transcript } from '@/types/transcript';
+import type { Template, TemplateRevision } from '@/types/template';
+import type { Analysis } from '@/types/analysis';
+import type { LibraryPassage, PassageFilters, TranscriptSearchResult } from '@/types/search';
+import type {
+  AudioFileEntry,
+  PaginatedResult,
+  PaginationOptions,
+  TranscriptSortField,
+} from '@/lib/db';
+
+/**
+ * Library tables an adapter stores (names match the IndexedDB tables)
+ */
+export type StoredTable = 'transcripts' | 'templates' | 'templateRevisions' | 'analyses' | 'audioFiles';
+
+/**
+ * Options for listing transcripts
+ */
+export interface TranscriptListOptions {
+  /** Maximum number of items (default: all) */
+  limit?: number;
+  /** Number of items to skip (default: 0) */
+  offset?: number;
+  /** Sort field (default: createdAt) */
+  orderBy?: TranscriptSortField;
+  /** Sort direction (default: desc) */
+  orderDirection?: 'asc' | 'desc';
+  /** Only transcripts with this audio fingerprint */
+  fileHash?: string;
+}
+
+/**
+ * Connects an adapter to Dexie live queries, so hooks built on
+ * `useLiveQuery` re-run when data stored outside IndexedDB changes
+ */
+export interface LiveQueryBridge {
+  /** Subscribe the running live query (if any) to changes of the tables */
+  observe(tables: StoredTable[]): Promise<unknown>;
+  /** Re-run live queries that read the tables */
+  notify(tables: StoredTable[]): void;
+}
+
+/**
+ * Storage for the library records that `lib/db.ts` can delegate to instead
+ * of IndexedDB
+ *
+ * Chat history, transcript edit history and saved recordings always stay
+ * in the browser.
+ */
+export interface StorageAdapter {
+  /** Insert or replace transcripts */
+  saveTranscripts(transcripts: Transcript[]): Promise<void>;
+  /** Get a transcript by ID */
+  getTranscript(id: string): Promise<Transcript | undefined>;
+  /** List transcripts, sorted and paginated */
+  listTranscripts(options?: TranscriptListOptions): Promise<PaginatedResult<Transcript>>;
+  /** Ranked full-text search */
+  searchTranscripts(
+    query: string,
+    options?: PaginationOptions
+  ): Promise<PaginatedResult<TranscriptSearchResult>>;
+  /** Passages that best answer a question, for the library chat */
+  findPassages(question: string, filters?: PassageFilters): Promise<LibraryPassage[]>;
+  /** Change fields on a transcript; `undefined` removes a field */
+  updateTranscript(id: string, updates: Partial<Omit<Transcript, 'id'>>): Promise<Transcript>;
+  /** Delete transcripts with their analyses and audio */
+  deleteTranscripts(ids: string[]): Promise<number>;
+
+  /** Insert or replace a template */
+  saveTemplate(template: Template): Promise<void>;
+  /** Get a template by ID */
+  getTemplate(id: string): Promise<Template | undefined>;
+  /** List all templates */
+  getAllTemplates(): Promise<Template[]>;
+  /** Delete a custom template with its revisions and analyses */
+  deleteTemplate(id: string): Promise<void>;
+  /** List a template's revisions, oldest first */
+  getTemplateRevisions(templateId: string): Promise<TemplateRevision[]>;
+  /** Add revisions to a template's history; versions must not exist yet */
+  saveTemplateRevisions(templateId: string, revisions: TemplateRevision[]): Promise<void>;
+
+  /** Insert or replace an analysis */
+  saveAnalysis(analysis: Analysis): Promise<void>;
+  /** List a transcript's analyses by creation date */
+  listAnalyses(transcriptId: string, options?: PaginationOptions): Promise<PaginatedResult<Analysis>>;
+  /** Delete analyses by ID */
+  deleteAnalyses(ids: string[]): Promise<number>;
+
+  /** Store the audio file for a transcript */
+  saveAudio(entry: AudioFileEntry): Promise<void>;
+  /** Get the audio file for a transcript */
+  getAudio(transcriptId: string): Promise<AudioFileEntry | undefined>;
+  /** Delete the audio file for a transcript */
+  deleteAudio(transcriptId: string): Promise<void>;
+}
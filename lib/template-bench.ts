@@ -0,0 +1,119 @@
+/**
+ * Template Test Bench
+ *
+ * Helpers for running template sections against sample transcripts from
+ * the template editor: narrowing a template to the sections under test,
+ * matching outputs back to sections, picking the saved revision's run to
+ * compare a draft against, and totalling token usage.
+ */
+
+import type { AnalysisSection } from '@/types/analysis';
+import type { Template } from '@/types/template';
+import type { BenchSectionOutput, TemplateBenchRun, TokenUsage } from '@/types/template-bench';
+
+/**
+ * ID of the golden output for a template section and sample transcript
+ *
+ * Derived rather than random so saving a golden output again replaces it.
+ */
+export function getGoldenOutputId(templateId: string, transcriptId: string, sectionId: string): string {
+  return `${templateId}:${transcriptId}:${sectionId}`;
+}
+
+/**
+ * Narrows a template to the sections under test
+ *
+ * Additional outputs (summary, action items, ...) are dropped since the
+ * bench compares section content only, and dependencies on sections that
+ * aren't run are removed.
+ *
+ * @param template - Template being tested, possibly with unsaved edits
+ * @param sectionIds - Sections to run; all sections when omitted
+ */
+export function createBenchTemplate(template: Template, sectionIds?: string[]): Template {
+  const sections = sectionIds
+    ? template.sections.filter((section) => sectionIds.includes(section.id))
+    : template.sections;
+  const included = new Set(sections.map((section) => section.id));
+
+  return {
+    ...template,
+    sections: sections.map((section) =>
+      section.dependencies
+        ? { ...section, dependencies: section.dependencies.filter((id) => included.has(id)) }
+        : section
+    ),
+    outputs: [],
+  };
+}
+
+/**
+ * Matches analysis output sections back to the template sections they came from
+ *
+ * Sections are matched by name, falling back to position when the model
+ * renamed one. Template sections without output get empty content.
+ */
+export function matchBenchSectionOutputs(
+  template: Pick<Template, 'sections'>,
+  results: AnalysisSection[]
+): BenchSectionOutput[] {
+  return template.sections.map((section, index) => {
+    const result = results.find((r) => r.name === section.name) ?? results[index];
+    return {
+      sectionId: section.id,
+      name: section.name,
+      content: result?.content ?? '',
+    };
+  });
+}
+
+/**
+ * Sums token usage across model calls or runs
+ */
+export function sumTokenUsage(usages: TokenUsage[]): TokenUsage {
+  return usages.reduce(
+    (total, usage) => ({
+      promptTokens: total.promptTokens + usage.promptTokens,
+      completionTokens: total.completionTokens + usage.completionTokens,
+      totalTokens: total.totalTokens + usage.totalTokens,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  );
+}
+
+/**
+ * Finds the run to show next to a bench run as the previous revision's output
+ *
+ * A draft is compared with the latest run of the saved version it started
+ * from (or an earlier one); a run of a saved version is compared with the
+ * latest run of an earlier version. Only non-draft runs that include the
+ * section count.
+ *
+ * @param runs - Bench runs of the template
+ * @param transcriptId - Sample transcript of the run
+ * @param sectionId - Section being compared
+ * @param current - Version and draft flag of the run being compared
+ * @returns The baseline run, or undefined when there is none
+ */
+export function findBaselineRun(
+  runs: TemplateBenchRun[],
+  transcriptId: string,
+  sectionId: string,
+  current: Pick<TemplateBenchRun, 'templateVersion' | 'draft'>
+): TemplateBenchRun | undefined {
+  return runs
+    .filter(
+      (run) =>
+        !run.draft &&
+        run.transcriptId === transcriptId &&
+        (current.draft
+          ? run.templateVersion <= current.templateVersion
+          : run.templateVersion < current.templateVersion) &&
+        run.sections.some((section) => section.sectionId === sectionId)
+    )
+    .sort(
+      (a, b) =>
+        b.templateVersion - a.templateVersion ||
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    )[0];
+}
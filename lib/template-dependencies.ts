@@ -0,0 +1,176 @@
+/**
+ * Template Section Dependencies
+ *
+ * Editor-side checks for section dependencies: the execution order the
+ * advanced strategy will use, dependency cycles, dependencies on sections
+ * that no longer exist, and the column layout of the dependency graph.
+ * Ordering goes through the same graph code the advanced strategy runs.
+ */
+
+import {
+  buildDependencyGraph,
+  topologicalSort,
+  CircularDependencyError,
+} from '@/lib/analysis-strategies/dependency-graph';
+import type { TemplateSection } from '@/types/template';
+
+/**
+ * A dependency on a section that is not part of the template
+ */
+export interface MissingSectionDependency {
+  sectionId: string;
+  sectionName: string;
+  /** ID of the section that no longer exists */
+  dependencyId: string;
+}
+
+/**
+ * Result of checking a template's section dependencies
+ */
+export interface SectionDependencyCheck {
+  /**
+   * Execution order of the advanced strategy. When there is a cycle this
+   * only holds the sections that could be ordered before it.
+   */
+  order: TemplateSection[];
+  /** Dependencies pointing at deleted sections */
+  missing: MissingSectionDependency[];
+  /** IDs of sections that are part of a dependency cycle */
+  cycle: string[];
+  /** IDs of sections that can't run because they depend on a cycle */
+  blocked: string[];
+  /** Whether the advanced strategy can run these sections as they are */
+  valid: boolean;
+}
+
+/**
+ * Sections with dependencies on unknown section IDs removed
+ */
+export function removeMissingDependencies(sections: TemplateSection[]): TemplateSection[] {
+  const ids = new Set(sections.map((section) => section.id));
+  return sections.map((section) =>
+    section.dependencies?.some((id) => !ids.has(id))
+      ? { ...section, dependencies: section.dependencies.filter((id) => ids.has(id)) }
+      : section
+  );
+}
+
+/**
+ * Adds or removes a dependency of one section on another
+ *
+ * @param sections - Template sections
+ * @param sectionId - Section whose dependencies change
+ * @param dependencyId - Section to depend on, or stop depending on
+ */
+export function toggleSectionDependency(
+  sections: TemplateSection[],
+  sectionId: string,
+  dependencyId: string
+): TemplateSection[] {
+  if (sectionId === dependencyId) return sections;
+  return sections.map((section) => {
+    if (section.id !== sectionId) return section;
+    const dependencies = section.dependencies ?? [];
+    return {
+      ...section,
+      dependencies: dependencies.includes(dependencyId)
+        ? dependencies.filter((id) => id !== dependencyId)
+        : [...dependencies, dependencyId],
+    };
+  });
+}
+
+/**
+ * Finds the sections among `candidates` that can reach themselves by
+ * following dependencies, i.e. the members of a cycle
+ */
+function findCycleMembers(sections: TemplateSection[], candidates: string[]): string[] {
+  const candidateSet = new Set(candidates);
+  const dependencies = new Map(
+    sections.map((section) => [
+      section.id,
+      (section.dependencies ?? []).filter((id) => candidateSet.has(id)),
+    ])
+  );
+
+  return candidates.filter((start) => {
+    const seen = new Set<string>();
+    const stack = [...(dependencies.get(start) ?? [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === start) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(dependencies.get(id) ?? []));
+    }
+    return false;
+  });
+}
+
+/**
+ * Checks a template's section dependencies
+ *
+ * Dependencies on deleted sections are reported and left out of the
+ * ordering, so the preview still reflects the rest of the graph.
+ *
+ * @param sections - Template sections in editor order
+ */
+export function checkSectionDependencies(sections: TemplateSection[]): SectionDependencyCheck {
+  const ids = new Set(sections.map((section) => section.id));
+  const missing: MissingSectionDependency[] = sections.flatMap((section) =>
+    (section.dependencies ?? [])
+      .filter((id) => !ids.has(id))
+      .map((dependencyId) => ({ sectionId: section.id, sectionName: section.name, dependencyId }))
+  );
+
+  const resolvable = removeMissingDependencies(sections);
+  try {
+    const order = topologicalSort(buildDependencyGraph(resolvable));
+    return { order, missing, cycle: [], blocked: [], valid: missing.length === 0 };
+  } catch (error) {
+    if (!(error instanceof CircularDependencyError)) throw error;
+    const cycle = findCycleMembers(resolvable, error.sectionIds);
+    return {
+      order: error.sorted,
+      missing,
+      cycle,
+      blocked: error.sectionIds.filter((id) => !cycle.includes(id)),
+      valid: false,
+    };
+  }
+}
+
+/**
+ * Assigns each section a graph column: sections without dependencies sit in
+ * column 0 and every other section one column right of its deepest
+ * dependency. Sections in a cycle are placed as if the edge closing the
+ * cycle did not exist.
+ *
+ * @param sections - Template sections
+ * @returns Map of section ID to column index
+ */
+export function getDependencyLevels(sections: TemplateSection[]): Map<string, number> {
+  const byId = new Map(sections.map((section) => [section.id, section]));
+  const levels = new Map<string, number>();
+  const visiting = new Set<string>();
+
+  const levelOf = (id: string): number => {
+    const known = levels.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return -1;
+
+    visiting.add(id);
+    let level = 0;
+    for (const depId of byId.get(id)?.dependencies ?? []) {
+      if (byId.has(depId)) {
+        level = Math.max(level, levelOf(depId) + 1);
+      }
+    }
+    visiting.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+
+  for (const section of sections) levelOf(section.id);
+  return levels;
+}
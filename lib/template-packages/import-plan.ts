@@ -0,0 +1,163 @@
+/**
+ * Template Import Planning
+ *
+ * Compares the templates in a package with the existing library, detects
+ * ID and name conflicts and works out what an import would change, so the
+ * import can be previewed before anything is written.
+ */
+
+import type { Template } from '@/types/template';
+import type { ParsedTemplatePackage } from './package';
+
+/**
+ * How to handle a packaged template that conflicts with an existing one
+ *
+ * - 'rename': import it alongside the existing template, under a new ID
+ *   and/or name as needed
+ * - 'replace': overwrite the existing custom template, keeping its ID
+ * - 'skip': keep the existing template and ignore the packaged one
+ */
+export type TemplateConflictStrategy = 'rename' | 'replace' | 'skip';
+
+/**
+ * What the import will do with a packaged template
+ */
+export type TemplateImportAction = 'create' | TemplateConflictStrategy;
+
+/**
+ * Planned outcome for one packaged template
+ */
+export interface TemplateImportItem {
+  /** Template as it appears in the package */
+  incoming: Template;
+  /** Existing template with the same ID */
+  idConflict?: Template;
+  /** Existing template with the same name but a different ID */
+  nameConflict?: Template;
+  action: TemplateImportAction;
+  /** Template that will be saved; absent when skipped */
+  result?: Template;
+}
+
+/**
+ * Outcome of planning an import
+ */
+export interface TemplateImportPlan {
+  items: TemplateImportItem[];
+  counts: Record<TemplateImportAction, number>;
+}
+
+export interface TemplateImportOptions {
+  /** Default handling of conflicting templates */
+  strategy: TemplateConflictStrategy;
+  /** Per-template handling, by position in the package */
+  overrides?: Record<number, TemplateConflictStrategy>;
+  /** File the package was read from, recorded on imported templates */
+  filename?: string;
+  /** Import timestamp */
+  now?: Date;
+}
+
+// Appended to the names of templates imported alongside an existing one
+const IMPORTED_SUFFIX = ' (imported)';
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Picks a name that is not yet taken, adding a numbered suffix if needed
+ */
+function uniqueName(name: string, takenNames: Set<string>): string {
+  if (!takenNames.has(nameKey(name))) return name;
+  let candidate = `${name}${IMPORTED_SUFFIX}`;
+  for (let n = 2; takenNames.has(nameKey(candidate)); n++) {
+    candidate = `${name} (imported ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Plans the import of a parsed package into the existing library
+ *
+ * Built-in templates are never replaced; conflicts with them are renamed
+ * instead. Templates earlier in the package count as existing for the
+ * ones after them, so duplicates within a package are handled too. Every
+ * imported template is marked custom and records where it came from.
+ *
+ * @param parsed - Package read by `parseTemplatePackage`
+ * @param existing - Templates already in the library
+ * @param options - Conflict handling and provenance details
+ * @returns Planned action per template and totals per action
+ */
+export function planTemplateImport(
+  parsed: ParsedTemplatePackage,
+  existing: Template[],
+  options: TemplateImportOptions
+): TemplateImportPlan {
+  const now = options.now ?? new Date();
+  const byId = new Map(existing.map((template) => [template.id, template]));
+  const byName = new Map(existing.map((template) => [nameKey(template.name), template]));
+  const takenIds = new Set(byId.keys());
+  const takenNames = new Set(byName.keys());
+  // Existing templates already being replaced by an earlier package entry
+  const replaced = new Set<string>();
+
+  const items = parsed.templates.map((incoming, index): TemplateImportItem => {
+    const idConflict = byId.get(incoming.id);
+    const namesake = byName.get(nameKey(incoming.name));
+    const nameConflict = namesake && namesake.id !== incoming.id ? namesake : undefined;
+    const conflicts = {
+      ...(idConflict && { idConflict }),
+      ...(nameConflict && { nameConflict }),
+    };
+
+    const source = {
+      ...(parsed.name && { packageName: parsed.name }),
+      ...(options.filename && { filename: options.filename }),
+      originalId: incoming.id,
+      originalName: incoming.name,
+      exportedAt: parsed.exportedAt,
+      importedAt: now,
+    };
+    const accept = (template: Template) => {
+      takenIds.add(template.id);
+      takenNames.add(nameKey(template.name));
+      return { ...template, isCustom: true, source };
+    };
+
+    const hasConflict = takenIds.has(incoming.id) || takenNames.has(nameKey(incoming.name));
+    if (!hasConflict) {
+      return { incoming, action: 'create', result: accept(incoming) };
+    }
+
+    let strategy = options.overrides?.[index] ?? options.strategy;
+    const target = idConflict ?? nameConflict;
+    if (strategy === 'replace' && (!target?.isCustom || replaced.has(target.id))) {
+      strategy = 'rename';
+    }
+
+    if (strategy === 'skip') {
+      return { incoming, ...conflicts, action: 'skip' };
+    }
+
+    if (strategy === 'replace' && target) {
+      replaced.add(target.id);
+      takenNames.delete(nameKey(target.name));
+      const name = uniqueName(incoming.name, takenNames);
+      return {
+        incoming,
+        ...conflicts,
+        action: 'replace',
+        result: accept({ ...incoming, id: target.id, name, createdAt: target.createdAt }),
+      };
+    }
+
+    const id = takenIds.has(incoming.id) ? crypto.randomUUID() : incoming.id;
+    const name = uniqueName(incoming.name, takenNames);
+    return { incoming, ...conflicts, action: 'rename', result: accept({ ...incoming, id, name }) };
+  });
+
+  const counts: Record<TemplateImportAction, number> = { create: 0, rename: 0, replace: 0, skip: 0 };
+  for (const item of items) counts[item.action]++;
+
+  return { items, counts };
+}
@@ -0,0 +1,33 @@
+/**
+ * Template Packages Module Entry Point
+ *
+ * Provides a centralized export point for sharing templates as JSON packages.
+ */
+
+// Re-export package format helpers
+export {
+  TEMPLATE_PACKAGE_ACCEPT,
+  TEMPLATE_PACKAGE_FORMAT,
+  TEMPLATE_PACKAGE_FORMAT_VERSION,
+  createTemplatePackage,
+  serializeTemplatePackage,
+  parseTemplatePackage,
+  generateTemplatePackageFilename,
+  type PackagedTemplate,
+  type ParsedTemplatePackage,
+  type TemplatePackage,
+  type TemplatePackageIssue,
+} from './package';
+
+// Re-export import planning
+export {
+  planTemplateImport,
+  type TemplateConflictStrategy,
+  type TemplateImportAction,
+  type TemplateImportItem,
+  type TemplateImportOptions,
+  type TemplateImportPlan,
+} from './import-plan';
+
+// Re-export import (main API)
+export { applyTemplateImport } from './template-import';
@@ -0,0 +1,279 @@
+/**
+ * Template Package Format
+ *
+ * Serialization of template packages: versioned JSON files carrying one or
+ * more templates (sections, prompts, dependencies, variables, outputs and
+ * category)
+ * so they can be shared between installations.
+ *
+ *   {
+ *     "format": "meeting-transcriber-templates",
+ *     "formatVersion": 1,
+ *     "name": "Council templates",
+ *     "exportedAt": "2026-05-04T14:30:00.000Z",
+ *     "templates": [ ... ]
+ *   }
+ *
+ * Every packaged template is validated through `templateSchema` on import.
+ * Invalid templates are reported individually so the rest of the package
+ * can still be imported.
+ */
+
+import { z } from 'zod';
+import { templateSchema } from '@/lib/validations/template';
+import { validateTemplateVariables } from '@/lib/template-variables';
+import type { Template, TemplateSection } from '@/types/template';
+
+/**
+ * Marker identifying a Meeting Transcriber template package
+ */
+export const TEMPLATE_PACKAGE_FORMAT = 'meeting-transcriber-templates';
+
+/**
+ * Version of the package layout; bump when the layout changes incompatibly
+ */
+export const TEMPLATE_PACKAGE_FORMAT_VERSION = 1;
+
+/**
+ * File types accepted by the import flow (for file inputs)
+ */
+export const TEMPLATE_PACKAGE_ACCEPT = '.json,application/json';
+
+/**
+ * Template as stored in a package
+ *
+ * Packages only carry template content; whether a template is custom and
+ * where it was imported from are decided by the installation importing it.
+ */
+export type PackagedTemplate = Omit<Template, 'isCustom' | 'source' | 'createdAt'> & {
+  createdAt: string;
+};
+
+/**
+ * Template package as written to disk
+ */
+export interface TemplatePackage {
+  format: typeof TEMPLATE_PACKAGE_FORMAT;
+  formatVersion: number;
+  /** Optional label for the package, shown when importing */
+  name?: string;
+  /** ISO timestamp of when the package was exported */
+  exportedAt: string;
+  templates: PackagedTemplate[];
+}
+
+/**
+ * A packaged template that failed validation
+ */
+export interface TemplatePackageIssue {
+  /** Position of the template in the package */
+  index: number;
+  /** Template name, when the package provides one */
+  name?: string;
+  /** Human-readable validation errors */
+  errors: string[];
+}
+
+/**
+ * Result of reading a template package
+ */
+export interface ParsedTemplatePackage {
+  name?: string;
+  exportedAt: Date;
+  /** Templates that passed validation, as they appear in the package */
+  templates: Template[];
+  /** Templates that failed validation */
+  issues: TemplatePackageIssue[];
+}
+
+const packageSchema = z.object({
+  format: z.literal(TEMPLATE_PACKAGE_FORMAT),
+  formatVersion: z.number().int().min(1),
+  name: z.string().trim().max(100).optional(),
+  exportedAt: z.string(),
+  templates: z.array(z.unknown()),
+});
+
+/**
+ * Builds a package from a set of templates
+ *
+ * @param templates - Templates to include, built-in or custom
+ * @param name - Optional label for the package
+ * @param exportedAt - Export timestamp
+ */
+export function createTemplatePackage(
+  templates: Template[],
+  name?: string,
+  exportedAt: Date = new Date()
+): TemplatePackage {
+  return {
+    format: TEMPLATE_PACKAGE_FORMAT,
+    formatVersion: TEMPLATE_PACKAGE_FORMAT_VERSION,
+    ...(name?.trim() && { name: name.trim() }),
+    exportedAt: exportedAt.toISOString(),
+    templates: templates.map((template) => ({
+      id: template.id,
+      name: template.name,
+      description: template.description,
+      icon: template.icon,
+      category: template.category,
+      sections: template.sections.map((section) => ({ ...section })),
+      outputs: [...template.outputs],
+      ...(template.variables?.length && {
+        variables: template.variables.map((variable) => ({ ...variable })),
+      }),
+      createdAt: template.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Serializes a package as indented JSON
+ */
+export function serializeTemplatePackage(templatePackage: TemplatePackage): string {
+  return JSON.stringify(templatePackage, null, 2);
+}
+
+/**
+ * Finds section dependencies that would break analysis
+ *
+ * Dependencies must point at another section of the same template and must
+ * not form a cycle.
+ */
+function findDependencyErrors(sections: TemplateSection[]): string[] {
+  const errors: string[] = [];
+  const byId = new Map(sections.map((section) => [section.id, section]));
+
+  for (const section of sections) {
+    for (const dependency of section.dependencies ?? []) {
+      if (dependency === section.id) {
+        errors.push(`Section "${section.name}" depends on itself`);
+      } else if (!byId.has(dependency)) {
+        errors.push(`Section "${section.name}" depends on unknown section "${dependency}"`);
+      }
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  // Depth-first search; a section reached again while still on the stack closes a cycle
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (section: TemplateSection): boolean => {
+    if (state.get(section.id) === 'done') return false;
+    if (state.get(section.id) === 'visiting') return true;
+    state.set(section.id, 'visiting');
+    const cyclic = (section.dependencies ?? []).some((id) => visit(byId.get(id)!));
+    state.set(section.id, 'done');
+    return cyclic;
+  };
+  const cyclic = sections.filter((section) => !state.has(section.id) && visit(section));
+  if (cyclic.length > 0) {
+    errors.push(`Circular dependency involving section "${cyclic[0].name}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a single packaged template
+ *
+ * Templates are always imported as custom templates.
+ */
+function parsePackagedTemplate(data: unknown): { template?: Template; errors: string[] } {
+  const raw = (data && typeof data === 'object' ? data : {}) as Record<string, unknown>;
+  const createdAt = typeof raw.createdAt === 'string' || typeof raw.createdAt === 'number'
+    ? new Date(raw.createdAt)
+    : raw.createdAt;
+
+  const parsed = templateSchema.safeParse({ ...raw, createdAt, isCustom: true });
+  if (!parsed.success) {
+    return {
+      errors: parsed.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      ),
+    };
+  }
+
+  const template = parsed.data as Template;
+  const sectionIds = new Set<string>();
+  const duplicates = template.sections.filter((section) => {
+    const duplicate = sectionIds.has(section.id);
+    sectionIds.add(section.id);
+    return duplicate;
+  });
+  const errors = duplicates.length > 0
+    ? duplicates.map((section) => `Section ID "${section.id}" is used more than once`)
+    : [
+        ...findDependencyErrors(template.sections),
+        ...validateTemplateVariables(template).map((issue) => issue.message),
+      ];
+
+  return errors.length > 0 ? { errors } : { template, errors };
+}
+
+/**
+ * Parses and validates a template package
+ *
+ * @param content - Raw package file content
+ * @returns Valid templates and per-template validation issues
+ * @throws {Error} If the file is not a template package or is from a newer app version
+ */
+export function parseTemplatePackage(content: string): ParsedTemplatePackage {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Template package is not valid JSON');
+  }
+
+  const parsed = packageSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('This file is not a Meeting Transcriber template package');
+  }
+
+  const { formatVersion, name, exportedAt, templates: entries } = parsed.data;
+  if (formatVersion > TEMPLATE_PACKAGE_FORMAT_VERSION) {
+    throw new Error(
+      `Template package format v${formatVersion} is newer than this app supports (v${TEMPLATE_PACKAGE_FORMAT_VERSION}). Update the app and try again.`
+    );
+  }
+  if (entries.length === 0) {
+    throw new Error('Template package does not contain any templates');
+  }
+
+  const templates: Template[] = [];
+  const issues: TemplatePackageIssue[] = [];
+  entries.forEach((entry, index) => {
+    const { template, errors } = parsePackagedTemplate(entry);
+    if (template) {
+      templates.push(template);
+    } else {
+      const rawName = (entry as { name?: unknown } | null)?.name;
+      issues.push({ index, ...(typeof rawName === 'string' && { name: rawName }), errors });
+    }
+  });
+
+  const exportDate = new Date(exportedAt);
+  return {
+    ...(name && { name }),
+    exportedAt: Number.isNaN(exportDate.getTime()) ? new Date(0) : exportDate,
+    templates,
+    issues,
+  };
+}
+
+/**
+ * Generates the download filename for a package
+ *
+ * @example
+ * generateTemplatePackageFilename('Council Templates', new Date('2024-11-17T14:30:00'))
+ * // "council-templates_2024-11-17.templates.json"
+ */
+export function generateTemplatePackageFilename(name: string | undefined, date: Date = new Date()): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const slug = (name ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50) || 'templates';
+  return `${slug}_${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.templates.json`;
+}
@@ -0,0 +1,25 @@
+/**
+ * Template Package Import
+ *
+ * Writes the templates of a planned import to the library.
+ */
+
+import { saveTemplate } from '@/lib/db';
+import type { TemplateImportPlan } from './import-plan';
+
+/**
+ * Saves every template the plan creates, renames or replaces
+ *
+ * @param plan - Plan from `planTemplateImport`
+ * @returns Number of templates saved
+ * @throws {DatabaseError} If a template cannot be saved
+ */
+export async function applyTemplateImport(plan: TemplateImportPlan): Promise<number> {
+  let saved = 0;
+  for (const item of plan.items) {
+    if (!item.result) continue;
+    await saveTemplate(item.result);
+    saved++;
+  }
+  return saved;
+}
@@ -0,0 +1,260 @@
+/**
+ * Template Revisions
+ *
+ * Helpers for template versioning: capturing a template's content as an
+ * immutable revision, deciding whether a save changes anything, and
+ * diffing two revisions for display.
+ */
+
+import { diffText, type DiffPart } from '@/lib/segment-editing';
+import type {
+  Template,
+  TemplateContent,
+  TemplateRevision,
+  TemplateSection,
+  TemplateVariable,
+} from '@/types/template';
+
+/**
+ * Current revision number of a template
+ *
+ * Templates saved before versioning count as version 1.
+ */
+export function getTemplateVersion(template: Pick<Template, 'version'>): number {
+  return template.version ?? 1;
+}
+
+/**
+ * Extracts the content a revision captures from a template
+ */
+export function getTemplateContent(template: TemplateContent): TemplateContent {
+  return {
+    name: template.name,
+    description: template.description,
+    icon: template.icon,
+    category: template.category,
+    sections: template.sections.map((section) => ({
+      id: section.id,
+      name: section.name,
+      prompt: section.prompt,
+      extractEvidence: section.extractEvidence,
+      outputFormat: section.outputFormat,
+      ...(section.dependencies?.length && { dependencies: [...section.dependencies] }),
+    })),
+    outputs: [...template.outputs],
+    ...(template.variables?.length && {
+      variables: template.variables.map((variable) => ({ ...variable })),
+    }),
+  };
+}
+
+/**
+ * Whether two templates have the same content, ignoring IDs and timestamps
+ */
+export function isSameTemplateContent(a: TemplateContent, b: TemplateContent): boolean {
+  return JSON.stringify(getTemplateContent(a)) === JSON.stringify(getTemplateContent(b));
+}
+
+/**
+ * Creates a revision capturing a template's current content
+ *
+ * @param template - Template to snapshot
+ * @param version - Revision number to assign
+ * @param createdAt - When the revision was saved
+ */
+export function createTemplateRevision(
+  template: Template,
+  version: number,
+  createdAt: Date = new Date()
+): TemplateRevision {
+  return {
+    id: crypto.randomUUID(),
+    templateId: template.id,
+    version,
+    content: getTemplateContent(template),
+    createdAt,
+  };
+}
+
+/**
+ * Works out the revisions a template save records and the version the
+ * saved template gets
+ *
+ * Saves that leave the content unchanged keep the current version. The
+ * first save of a template stored before versioning snapshots the stored
+ * content as its first revision, so the prompts behind older analyses stay
+ * available.
+ *
+ * @param template - Template about to be saved
+ * @param latest - Latest recorded revision of the template, if any
+ * @param previous - Template as currently stored, if any
+ * @returns Revisions to add, oldest first, and the saved template's version
+ */
+export function planTemplateRevisions(
+  template: Template,
+  latest: TemplateRevision | undefined,
+  previous: Template | undefined
+): { revisions: TemplateRevision[]; version: number } {
+  const revisions: TemplateRevision[] = [];
+  if (!latest && previous) {
+    latest = createTemplateRevision(previous, getTemplateVersion(previous), previous.createdAt);
+    revisions.push(latest);
+  }
+
+  if (latest && isSameTemplateContent(latest.content, template)) {
+    return { revisions, version: latest.version };
+  }
+
+  const revision = createTemplateRevision(template, (latest?.version ?? 0) + 1);
+  revisions.push(revision);
+  return { revisions, version: revision.version };
+}
+
+// ============================================================================
+// DIFFING
+// ============================================================================
+
+/**
+ * Template-level field that changed between revisions
+ */
+export interface TemplateFieldChange {
+  field: 'name' | 'description' | 'icon' | 'category' | 'outputs' | 'variables';
+  before: string;
+  after: string;
+}
+
+/**
+ * How a section differs between revisions
+ */
+export interface TemplateSectionDiff {
+  sectionId: string;
+  /** Section name in the newer revision (or the older one if removed) */
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  /** Human-readable list of changed settings, e.g. "Output format: paragraph → table" */
+  changes: string[];
+  /** Word-level prompt diff; only set when the prompt changed */
+  promptDiff?: DiffPart[];
+}
+
+/**
+ * Differences between two template revisions
+ */
+export interface TemplateRevisionDiff {
+  fields: TemplateFieldChange[];
+  sections: TemplateSectionDiff[];
+  /** Whether anything differs */
+  changed: boolean;
+}
+
+const formatList = (values: string[] | undefined) =>
+  values && values.length > 0 ? values.join(', ') : 'none';
+
+const formatOption = (value: string) => value.replace(/_/g, ' ');
+
+const formatVariable = (variable: TemplateVariable) =>
+  variable.defaultValue ? `${variable.name} = "${variable.defaultValue}"` : variable.name;
+
+/**
+ * Lists the settings that differ between two versions of a section
+ *
+ * @param move - Step positions before and after, when the section was reordered
+ */
+function describeSectionChanges(
+  before: TemplateSection,
+  after: TemplateSection,
+  move?: [number, number]
+): string[] {
+  const changes: string[] = [];
+  if (before.name !== after.name) {
+    changes.push(`Renamed from "${before.name}"`);
+  }
+  if (before.outputFormat !== after.outputFormat) {
+    changes.push(`Output format: ${formatOption(before.outputFormat)} → ${formatOption(after.outputFormat)}`);
+  }
+  if (before.extractEvidence !== after.extractEvidence) {
+    changes.push(after.extractEvidence ? 'Evidence extraction turned on' : 'Evidence extraction turned off');
+  }
+  if (formatList(before.dependencies) !== formatList(after.dependencies)) {
+    changes.push(`Depends on: ${formatList(before.dependencies)} → ${formatList(after.dependencies)}`);
+  }
+  if (move) {
+    changes.push(`Moved from step ${move[0] + 1} to step ${move[1] + 1}`);
+  }
+  return changes;
+}
+
+/**
+ * Diffs two template revisions
+ *
+ * Sections are matched by ID, so renamed or reordered sections show up as
+ * changes rather than as a removal plus an addition. Sections of the newer
+ * revision come first, in order, followed by removed sections.
+ *
+ * @param before - Older revision content
+ * @param after - Newer revision content
+ */
+export function diffTemplateRevisions(
+  before: TemplateContent,
+  after: TemplateContent
+): TemplateRevisionDiff {
+  const fields: TemplateFieldChange[] = [];
+  for (const field of ['name', 'description', 'icon', 'category'] as const) {
+    if (before[field] !== after[field]) {
+      fields.push({ field, before: before[field], after: after[field] });
+    }
+  }
+  if (formatList(before.outputs) !== formatList(after.outputs)) {
+    fields.push({
+      field: 'outputs',
+      before: formatList(before.outputs.map(formatOption)),
+      after: formatList(after.outputs.map(formatOption)),
+    });
+  }
+  if (formatList(before.variables?.map(formatVariable)) !== formatList(after.variables?.map(formatVariable))) {
+    fields.push({
+      field: 'variables',
+      before: formatList(before.variables?.map(formatVariable)),
+      after: formatList(after.variables?.map(formatVariable)),
+    });
+  }
+
+  const previousPositions = new Map(before.sections.map((section, index) => [section.id, index]));
+  const currentIds = new Set(after.sections.map((section) => section.id));
+
+  // Order among sections present in both revisions, so additions and
+  // removals don't make every later section look moved
+  const keptBefore = before.sections.filter((section) => currentIds.has(section.id)).map((s) => s.id);
+  const keptAfter = after.sections.filter((section) => previousPositions.has(section.id)).map((s) => s.id);
+
+  const sections: TemplateSectionDiff[] = after.sections.map((section, index) => {
+    const previousIndex = previousPositions.get(section.id);
+    if (previousIndex === undefined) {
+      return { sectionId: section.id, name: section.name, status: 'added', changes: [] };
+    }
+
+    const previous = before.sections[previousIndex];
+    const moved = previousIndex !== index && keptBefore.indexOf(section.id) !== keptAfter.indexOf(section.id);
+    const changes = describeSectionChanges(previous, section, moved ? [previousIndex, index] : undefined);
+    const promptChanged = previous.prompt !== section.prompt;
+    return {
+      sectionId: section.id,
+      name: section.name,
+      status: promptChanged || changes.length > 0 ? 'changed' : 'unchanged',
+      changes,
+      ...(promptChanged && { promptDiff: diffText(previous.prompt, section.prompt) }),
+    };
+  });
+
+  for (const section of before.sections) {
+    if (!currentIds.has(section.id)) {
+      sections.push({ sectionId: section.id, name: section.name, status: 'removed', changes: [] });
+    }
+  }
+
+  return {
+    fields,
+    sections,
+    changed: fields.length > 0 || sections.some((section) => section.status !== 'unchanged'),
+  };
+}
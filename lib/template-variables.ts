@@ -0,0 +1,296 @@
+/**
+ * Template Prompt Variables
+ *
+ * Section prompts can reference `{{name}}` placeholders. Built-in variables
+ * are filled from transcript metadata; templates can declare their own
+ * variables, whose values are entered (or defaulted) before analysis. The
+ * client resolves every value and reports anything missing before the
+ * request is sent; the analysis strategies then substitute the values into
+ * the prompts.
+ */
+
+import { getSpeakerDisplayName, getSpeakerLabels } from '@/lib/speaker-roster';
+import type { Template, TemplateSection, TemplateVariable } from '@/types/template';
+import type { Transcript } from '@/types/transcript';
+
+/**
+ * Valid variable name: a letter followed by letters, digits or underscores
+ */
+export const TEMPLATE_VARIABLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/** Matches a `{{...}}` placeholder, capturing what's between the braces */
+const PLACEHOLDER_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+/**
+ * Variable values keyed by variable name
+ */
+export type TemplateVariableValues = Record<string, string>;
+
+/**
+ * Variable filled from transcript metadata
+ */
+export interface BuiltInTemplateVariable {
+  name: string;
+  description: string;
+}
+
+/**
+ * Variables every template can use without declaring them
+ */
+export const BUILT_IN_TEMPLATE_VARIABLES: readonly BuiltInTemplateVariable[] = [
+  { name: 'department', description: 'Department the transcript is filed under' },
+  { name: 'meetingDate', description: 'Date of the meeting, or of the upload if none is set' },
+  { name: 'speakers', description: 'Names of the speakers, from the speaker roster' },
+  { name: 'filename', description: 'Filename of the uploaded recording' },
+];
+
+/**
+ * Whether a variable is filled from transcript metadata
+ */
+export function isBuiltInTemplateVariable(name: string): boolean {
+  return BUILT_IN_TEMPLATE_VARIABLES.some((variable) => variable.name === name);
+}
+
+/**
+ * Lists the placeholders referenced in a prompt, in order of first use
+ *
+ * Names are returned as written (trimmed), including invalid ones, so the
+ * editor can report them.
+ */
+export function findPromptVariables(prompt: string): string[] {
+  const names = new Set<string>();
+  for (const match of prompt.matchAll(PLACEHOLDER_PATTERN)) {
+    names.add(match[1].trim());
+  }
+  return Array.from(names);
+}
+
+/**
+ * Lists the valid variable names referenced by a template's section prompts
+ */
+export function getTemplateVariableNames(template: { sections: Pick<TemplateSection, 'prompt'>[] }): string[] {
+  const names = new Set<string>();
+  for (const section of template.sections) {
+    for (const name of findPromptVariables(section.prompt)) {
+      if (TEMPLATE_VARIABLE_NAME_PATTERN.test(name)) names.add(name);
+    }
+  }
+  return Array.from(names);
+}
+
+/**
+ * Trims declared variables for saving, dropping empty hints and defaults
+ */
+export function normalizeTemplateVariables(variables: TemplateVariable[]): TemplateVariable[] {
+  return variables.map(({ name, description, defaultValue }) => ({
+    name: name.trim(),
+    ...(description?.trim() && { description: description.trim() }),
+    ...(defaultValue?.trim() && { defaultValue: defaultValue.trim() }),
+  }));
+}
+
+/**
+ * Problem with a template's variables
+ */
+export interface TemplateVariableIssue {
+  /** Section whose prompt has the problem; unset for declared variables */
+  sectionId?: string;
+  /** Variable name as written */
+  variable: string;
+  message: string;
+}
+
+/**
+ * Checks declared variables and the placeholders used in section prompts
+ *
+ * Declared variables must have valid, unique names that don't shadow a
+ * built-in variable. Placeholders must have valid names and refer to a
+ * built-in or declared variable.
+ *
+ * @param template - Template sections and declared variables
+ * @returns Issues found, empty when the template is valid
+ */
+export function validateTemplateVariables(
+  template: Pick<Template, 'sections' | 'variables'>
+): TemplateVariableIssue[] {
+  const issues: TemplateVariableIssue[] = [];
+  const declared = new Set<string>();
+
+  for (const variable of template.variables ?? []) {
+    const name = variable.name.trim();
+    if (!TEMPLATE_VARIABLE_NAME_PATTERN.test(name)) {
+      issues.push({
+        variable: name,
+        message: name
+          ? `"${name}" is not a valid variable name. Use a letter followed by letters, numbers, or underscores.`
+          : 'Variable name is required',
+      });
+    } else if (isBuiltInTemplateVariable(name)) {
+      issues.push({ variable: name, message: `"${name}" is a built-in variable and can't be redefined` });
+    } else if (declared.has(name)) {
+      issues.push({ variable: name, message: `Variable "${name}" is defined more than once` });
+    }
+    declared.add(name);
+  }
+
+  for (const section of template.sections) {
+    for (const name of findPromptVariables(section.prompt)) {
+      if (!TEMPLATE_VARIABLE_NAME_PATTERN.test(name)) {
+        issues.push({
+          sectionId: section.id,
+          variable: name,
+          message: `{{${name}}} is not a valid variable name`,
+        });
+      } else if (!isBuiltInTemplateVariable(name) && !declared.has(name)) {
+        issues.push({
+          sectionId: section.id,
+          variable: name,
+          message: `{{${name}}} is not a built-in variable. Add it under Prompt Variables.`,
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Built-in variable values available for a transcript
+ *
+ * Variables whose metadata is missing (no department, no diarized
+ * speakers) are left out.
+ */
+export function getTranscriptVariableValues(transcript: Transcript): TemplateVariableValues {
+  const values: TemplateVariableValues = {
+    meetingDate: (transcript.meetingDate ?? transcript.createdAt).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+    }),
+    filename: transcript.filename,
+  };
+
+  if (transcript.department?.trim()) {
+    values.department = transcript.department.trim();
+  }
+
+  const speakers = new Set(
+    getSpeakerLabels(transcript.segments).map((label) => getSpeakerDisplayName(label, transcript.speakers))
+  );
+  if (speakers.size > 0) {
+    values.speakers = Array.from(speakers).join(', ');
+  }
+
+  return values;
+}
+
+/**
+ * Variable values resolved for one analysis run
+ */
+export interface ResolvedTemplateVariables {
+  /** Value for every variable the template uses that could be resolved */
+  values: TemplateVariableValues;
+  /** Variables the template uses that have no value */
+  unresolved: string[];
+}
+
+/**
+ * Resolves the variables a template uses for a transcript
+ *
+ * Entered values take precedence, then transcript metadata, then the
+ * declared default.
+ *
+ * @param template - Template being run
+ * @param transcript - Transcript being analyzed
+ * @param entered - Values entered before analysis
+ */
+export function resolveTemplateVariables(
+  template: Pick<Template, 'sections' | 'variables'>,
+  transcript: Transcript,
+  entered: TemplateVariableValues = {}
+): ResolvedTemplateVariables {
+  const fromTranscript = getTranscriptVariableValues(transcript);
+  const defaults = new Map((template.variables ?? []).map((variable) => [variable.name, variable.defaultValue]));
+
+  const values: TemplateVariableValues = {};
+  const unresolved: string[] = [];
+  for (const name of getTemplateVariableNames(template)) {
+    const value = entered[name]?.trim() || fromTranscript[name] || defaults.get(name)?.trim();
+    if (value) {
+      values[name] = value;
+    } else {
+      unresolved.push(name);
+    }
+  }
+
+  return { values, unresolved };
+}
+
+/**
+ * Variables a template uses that have no value in `values`
+ */
+export function findUnresolvedVariables(
+  template: { sections: Pick<TemplateSection, 'prompt'>[] },
+  values: TemplateVariableValues
+): string[] {
+  return getTemplateVariableNames(template).filter((name) => !values[name]?.trim());
+}
+
+/**
+ * Substitutes variable values into a prompt
+ *
+ * Placeholders without a value are left as written.
+ */
+export function fillPromptVariables(prompt: string, values: TemplateVariableValues): string {
+  return prompt.replace(PLACEHOLDER_PATTERN, (placeholder, raw: string) => {
+    const value = values[raw.trim()];
+    return value ? value : placeholder;
+  });
+}
+
+// ============================================================================
+// EDITOR AUTOCOMPLETE
+// ============================================================================
+
+/**
+ * An unfinished placeholder just before the cursor
+ */
+export interface VariableCompletionContext {
+  /** Partial name typed so far */
+  query: string;
+  /** Index of the opening `{{` */
+  start: number;
+}
+
+/**
+ * Finds an unfinished `{{name` placeholder ending at the cursor
+ *
+ * @param text - Prompt text
+ * @param cursor - Cursor position
+ * @returns The partial placeholder, or null when the cursor isn't in one
+ */
+export function getVariableCompletionContext(text: string, cursor: number): VariableCompletionContext | null {
+  const match = /\{\{\s*([A-Za-z0-9_]*)$/.exec(text.slice(0, cursor));
+  return match ? { query: match[1], start: match.index } : null;
+}
+
+/**
+ * Completes the placeholder at the cursor with a variable name
+ *
+ * Any `}}` already following the cursor is reused rather than doubled.
+ *
+ * @returns Updated text and the cursor position after the placeholder
+ */
+export function applyVariableCompletion(
+  text: string,
+  context: VariableCompletionContext,
+  cursor: number,
+  name: string
+): { text: string; cursor: number } {
+  const placeholder = `{{${name}}}`;
+  const rest = text.slice(cursor).replace(/^[A-Za-z0-9_]*\s*\}\}/, '');
+  return {
+    text: text.slice(0, context.start) + placeholder + rest,
+    cursor: context.start + placeholder.length,
+  };
+}
@@ -15,11 +15,14 @@
 export const EXTENDED_CONTEXT_TOKEN_THRESHOLD = 256000; // 256k tokens
 
 /**
- * Maximum token limits for each deployment type
+ * Default token limits for each deployment type
+ *
+ * Used when LLM_CONTEXT_LIMITS does not list the model (see lib/llm-routing.ts).
  */
 export const TOKEN_LIMITS = {
   standard: 256000,   // gpt-5 standard context limit
   extended: 1000000,  // gpt-41 extended context limit (1M tokens)
+  local: 32768,       // self-hosted models (Ollama, vLLM, llama.cpp)
 } as const;
 
 /**
@@ -50,6 +53,42 @@ export function estimateTokens(text: string): number {
   return Math.ceil(text.length / 4);
 }
 
+/**
+ * Most tokens a response may use
+ *
+ * Reasoning models (GPT-5) spend part of this on reasoning before the answer.
+ */
+export const MAX_COMPLETION_TOKENS = 32000;
+
+/**
+ * Output token budget for a request
+ *
+ * The model's context holds both the prompt and the response, so the
+ * budget is what the context has left after the prompt, capped at
+ * `MAX_COMPLETION_TOKENS`. Asking a backend for more than that is
+ * rejected outright by small-context local models.
+ *
+ * @param messages - Messages of the request
+ * @param contextLimit - Context window of the model in tokens
+ * @returns Tokens to request for the response (at least 1)
+ *
+ * @example
+ * ```typescript
+ * const maxTokens = getCompletionTokenBudget(messages, route.contextLimit);
+ * ```
+ */
+export function getCompletionTokenBudget(
+  messages: Array<{ content?: unknown }>,
+  contextLimit: number
+): number {
+  const promptTokens = messages.reduce<number>(
+    (total, message) =>
+      total + estimateTokens(typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '')),
+    0
+  );
+  return Math.max(1, Math.min(MAX_COMPLETION_TOKENS, contextLimit - promptTokens));
+}
+
 /**
  * Select the appropriate GPT deployment based on estimated token count
  *
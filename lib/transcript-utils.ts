@@ -6,6 +6,7 @@
  */
 
 import React from 'react';
+import type { TranscriptSegment } from '@/types/transcript';
 
 /**
  * Formats a duration in seconds to HH:MM:SS or MM:SS format
@@ -44,6 +45,32 @@ export function formatTimestamp(seconds: number): string {
   return formatDuration(seconds);
 }
 
+/**
+ * Builds the link to a moment in a transcript: the segment containing the
+ * timestamp, or the transcript itself
+ *
+ * @param transcriptId - Transcript to link to
+ * @param segments - Transcript segments, if loaded
+ * @param timestamp - Moment in seconds to deep link to
+ * @param baseUrl - Origin to prefix for absolute links (default: relative)
+ * @returns Transcript path, with `?segment=` when a segment matches
+ *
+ * @example
+ * getTranscriptHref('abc', segments, 95) // "/transcripts/abc?segment=12"
+ */
+export function getTranscriptHref(
+  transcriptId: string,
+  segments: TranscriptSegment[] | undefined,
+  timestamp?: number,
+  baseUrl = ''
+): string {
+  const href = `${baseUrl}/transcripts/${transcriptId}`;
+  if (timestamp === undefined || !segments) return href;
+
+  const segment = segments.find((s) => timestamp >= s.start && timestamp < s.end);
+  return segment ? `${href}?segment=${segment.index}` : href;
+}
+
 /**
  * Calculates the word count in a text string
  *
@@ -0,0 +1,102 @@
+/**
+ * Transcription Provider
+ *
+ * Describes the configured speech-to-text backend: Azure OpenAI, OpenAI, or
+ * a self-hosted OpenAI-compatible server (faster-whisper-server, whisper.cpp
+ * server, a local stub). Callers ask the provider what a model supports
+ * instead of guessing from deployment names.
+ */
+
+import type OpenAI from 'openai';
+import {
+  getTranscriptionClient,
+  getTranscriptionConfiguration,
+  getWhisperDeployment,
+} from './openai';
+import type {
+  TranscriptionCapabilities,
+  TranscriptionProviderId,
+} from './validations/config';
+
+export type { TranscriptionCapabilities, TranscriptionProviderId };
+
+/**
+ * Configured transcription backend
+ */
+export interface TranscriptionProvider {
+  /** Provider identifier */
+  id: TranscriptionProviderId;
+  /** Default model or deployment name */
+  model: string;
+  /** Endpoint hostname (Azure and local only; never the full URL) */
+  endpointHost?: string;
+  /** Client for the provider's `audio.transcriptions` API */
+  getClient(): OpenAI;
+  /** Features supported when transcribing with the given model */
+  getCapabilities(model: string): TranscriptionCapabilities;
+}
+
+/**
+ * Infer capabilities from an OpenAI model or Azure deployment name
+ *
+ * - `*diarize*` models return speaker-labelled segments
+ * - Whisper models return `verbose_json` with word timestamps
+ * - GPT-4o transcribe models only return plain `json`
+ */
+export function inferModelCapabilities(model: string): TranscriptionCapabilities {
+  const normalized = model.trim().toLowerCase();
+
+  if (normalized.includes('diarize')) {
+    return { diarization: true, verboseJson: true, wordTimestamps: false };
+  }
+
+  if (normalized.startsWith('whisper')) {
+    return { diarization: false, verboseJson: true, wordTimestamps: true };
+  }
+
+  return { diarization: false, verboseJson: false, wordTimestamps: false };
+}
+
+function hostnameOf(url: string): string | undefined {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the configured transcription provider
+ *
+ * @returns Provider description with client access and capability lookup
+ * @throws {OpenAIConfigError} If the transcription configuration is invalid or missing
+ *
+ * @example
+ * ```typescript
+ * const provider = getTranscriptionProvider();
+ * const { wordTimestamps } = provider.getCapabilities(provider.model);
+ * ```
+ */
+export function getTranscriptionProvider(): TranscriptionProvider {
+  const config = getTranscriptionConfiguration();
+  const model = getWhisperDeployment();
+
+  if (config.provider === 'local') {
+    // Local servers declare their features explicitly, whatever the model name
+    return {
+      id: 'local',
+      model,
+      endpointHost: hostnameOf(config.baseUrl),
+      getClient: getTranscriptionClient,
+      getCapabilities: () => config.capabilities,
+    };
+  }
+
+  return {
+    id: config.provider,
+    model,
+    endpointHost: config.provider === 'azure' ? hostnameOf(config.endpoint) : undefined,
+    getClient: getTranscriptionClient,
+    getCapabilities: inferModelCapabilities,
+  };
+}
@@ -3,6 +3,7 @@
  *
  * This module provides helper functions for audio transcription processing:
  * - Converting OpenAI Whisper API responses to our TranscriptSegment format
+ * - Distributing word-level timestamps into segments
  * - Calculating audio duration from segments
  * - Formatting timestamps (seconds to HH:MM:SS format)
  * - Generating unique transcript IDs
@@ -10,7 +11,7 @@
  */
 
 import { nanoid } from 'nanoid';
-import type { TranscriptSegment, TranscriptMetadata } from '@/types';
+import type { TranscriptSegment, TranscriptMetadata, TranscriptWord } from '@/types';
 
 /**
  * OpenAI Whisper API response types
@@ -30,12 +31,20 @@ export interface WhisperSegment {
   speaker?: string;
 }
 
+export interface WhisperWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
 export interface WhisperVerboseResponse {
   task?: string;
   language?: string;
   duration?: number;
   text: string;
   segments?: WhisperSegment[];
+  /** Present when word-level timestamp granularity was requested */
+  words?: WhisperWord[];
 }
 
 export interface SegmentSanitizationOptions {
@@ -264,9 +273,62 @@ export function convertWhisperResponse(
   }
 
   // Convert each segment, ensuring sequential indexing
-  return response.segments.map((segment, index) =>
+  const segments = response.segments.map((segment, index) =>
     convertWhisperSegment(segment, index)
   );
+
+  return response.words && response.words.length > 0
+    ? assignWordsToSegments(segments, response.words)
+    : segments;
+}
+
+/**
+ * Distribute word-level timestamps into the segments they belong to
+ *
+ * The API returns words as one flat list. Each word is assigned to the
+ * segment containing its midpoint; words falling in a gap between segments
+ * go to the closest preceding segment.
+ *
+ * @param segments - Segments in chronological order
+ * @param words - Words in chronological order
+ * @returns Copy of the segments with `words` attached where any matched
+ *
+ * @example
+ * ```typescript
+ * assignWordsToSegments(
+ *   [{ index: 0, start: 0, end: 1, text: "Hi there" }],
+ *   [{ word: "Hi", start: 0, end: 0.4 }, { word: "there", start: 0.4, end: 0.9 }]
+ * );
+ * // => [{ ..., words: [{ word: "Hi", ... }, { word: "there", ... }] }]
+ * ```
+ */
+export function assignWordsToSegments(
+  segments: TranscriptSegment[],
+  words: WhisperWord[]
+): TranscriptSegment[] {
+  if (segments.length === 0) {
+    return segments;
+  }
+
+  const buckets: TranscriptWord[][] = segments.map(() => []);
+  let position = 0;
+
+  for (const word of words) {
+    const text = word.word.trim();
+    if (!text || !Number.isFinite(word.start) || !Number.isFinite(word.end)) {
+      continue;
+    }
+
+    const midpoint = (word.start + word.end) / 2;
+    while (position < segments.length - 1 && midpoint >= segments[position + 1].start) {
+      position++;
+    }
+    buckets[position].push({ word: text, start: word.start, end: Math.max(word.start, word.end) });
+  }
+
+  return segments.map((segment, i) =>
+    buckets[i].length > 0 ? { ...segment, words: buckets[i] } : segment
+  );
 }
 
 /**
@@ -359,6 +421,7 @@ export function sanitizeSegments(
       end,
       text,
       ...(speaker ? { speaker } : {}),
+      ...(segment.words && segment.words.length > 0 ? { words: segment.words } : {}),
     });
   }
 
@@ -150,12 +150,16 @@ export function getLanguageBadge(code: string | undefined): string {
  * @example
  * getModelDisplay('whisper-1')           // "Whisper"
  * getModelDisplay('gpt-4o-transcribe')   // "GPT-4o"
+ * getModelDisplay('import-srt')          // "Imported SRT"
  */
 export function getModelDisplay(model: string | undefined): string {
   if (!model) return 'Unknown';
 
   const lowerModel = model.toLowerCase();
 
+  if (lowerModel.startsWith('import-')) {
+    return `Imported ${model.slice('import-'.length).toUpperCase()}`;
+  }
   if (lowerModel.includes('whisper')) {
     return 'Whisper';
   }
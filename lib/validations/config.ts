@@ -101,6 +101,140 @@ export const openAIConfigSchema = z.discriminatedUnion('provider', [
   standardOpenAIConfigSchema,
 ]);
 
+/**
+ * Local Endpoint Schema
+ * Validates the base URL of a self-hosted OpenAI-compatible server.
+ * Plain HTTP is allowed since these servers usually run on the internal network.
+ */
+const localEndpointSchema = z
+  .string()
+  .url('Local endpoint must be a valid URL')
+  .refine(
+    (url) => url.startsWith('http://') || url.startsWith('https://'),
+    'Local endpoint must use HTTP or HTTPS'
+  )
+  .describe('OpenAI-compatible server base URL');
+
+/**
+ * Model Name Schema
+ * Model identifiers on local servers are often Hugging Face IDs or Ollama
+ * tags (e.g. Systran/faster-whisper-large-v3, llama3.1:70b), so slashes,
+ * dots and colons are allowed.
+ */
+const localModelSchema = z
+  .string()
+  .trim()
+  .min(1, 'Model name cannot be empty')
+  .max(128, 'Model name must be 128 characters or less')
+  .describe('Model name');
+
+/**
+ * Transcription Provider Schema
+ */
+export const transcriptionProviderSchema = z.enum(['azure', 'openai', 'local']);
+
+/**
+ * Transcription Capability Flags Schema
+ * What the transcription endpoint supports beyond plain text
+ */
+export const transcriptionCapabilitiesSchema = z.object({
+  /** Speaker labels in the response (gpt-4o-transcribe-diarize style) */
+  diarization: z.boolean(),
+  /** `verbose_json` responses with segment timestamps */
+  verboseJson: z.boolean(),
+  /** Word-level timestamps via `timestamp_granularities` */
+  wordTimestamps: z.boolean(),
+});
+
+/**
+ * Local Transcription Configuration Schema
+ * Any OpenAI-compatible speech endpoint (faster-whisper-server, whisper.cpp server, ...)
+ */
+export const localTranscriptionConfigSchema = z.object({
+  provider: z.literal('local'),
+  baseUrl: localEndpointSchema,
+  apiKey: z.string().trim().min(1).optional(),
+  model: localModelSchema.default('whisper-1'),
+  capabilities: transcriptionCapabilitiesSchema,
+});
+
+/**
+ * Transcription Configuration Schema
+ * Transcription can use the OpenAI provider or a local speech server
+ */
+export const transcriptionConfigSchema = z.discriminatedUnion('provider', [
+  azureOpenAIConfigSchema,
+  standardOpenAIConfigSchema,
+  localTranscriptionConfigSchema,
+]);
+
+/**
+ * LLM Backend Schema
+ * Backends that can serve chat completions
+ */
+export const llmBackendSchema = z.enum(['azure', 'openai', 'local']);
+
+/**
+ * LLM Task Schema
+ * Tasks that can be assigned their own model
+ */
+export const llmTaskSchema = z.enum(['summary', 'analysis', 'evaluation', 'chat']);
+
+/**
+ * Local LLM Configuration Schema
+ * Any OpenAI-compatible chat endpoint (Ollama, vLLM, llama.cpp server, ...)
+ */
+export const localLLMConfigSchema = z.object({
+  baseUrl: localEndpointSchema,
+  apiKey: z.string().trim().min(1).optional(),
+  model: localModelSchema,
+});
+
+/**
+ * Model Assignment Schema
+ * A task's model, optionally on a specific backend (defaults to the primary)
+ */
+export const modelAssignmentSchema = z.object({
+  backend: llmBackendSchema.optional(),
+  model: localModelSchema,
+});
+
+/**
+ * Model Routing Configuration Schema
+ */
+export const modelRoutingConfigSchema = z
+  .object({
+    primary: llmBackendSchema,
+    fallback: llmBackendSchema.optional(),
+    local: localLLMConfigSchema.optional(),
+    tasks: z.object({
+      summary: modelAssignmentSchema.optional(),
+      analysis: modelAssignmentSchema.optional(),
+      evaluation: modelAssignmentSchema.optional(),
+      chat: modelAssignmentSchema.optional(),
+    }),
+    /** Context window in tokens, keyed by model or deployment name */
+    contextLimits: z.record(
+      z.string(),
+      z.number().int('Context limit must be a whole number').positive('Context limit must be positive')
+    ),
+  })
+  .refine((config) => config.fallback !== config.primary, {
+    message: 'LLM_FALLBACK_BACKEND must differ from the primary backend',
+    path: ['fallback'],
+  })
+  .refine(
+    (config) =>
+      !!config.local ||
+      ![config.primary, config.fallback, ...Object.values(config.tasks).map((task) => task?.backend)].includes(
+        'local'
+      ),
+    {
+      message: 'LOCAL_LLM_BASE_URL and LOCAL_LLM_MODEL are required when the local LLM backend is used',
+      path: ['local'],
+    }
+  );
+
 /**
  * Azure Environment Variables Schema
  * All fields are optional to allow for standard OpenAI fallback
@@ -112,6 +246,7 @@ export const azureEnvSchema = z.object({
   AZURE_OPENAI_WHISPER_DEPLOYMENT: z.string().optional(),
   AZURE_OPENAI_GPT4_DEPLOYMENT: z.string().optional(),
   AZURE_OPENAI_GPT5_DEPLOYMENT: z.string().optional(),
+  AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT: z.string().optional(),
 });
 
 /**
@@ -123,13 +258,49 @@ export const standardEnvSchema = z.object({
   OPENAI_ORGANIZATION_ID: z.string().optional(),
 });
 
+/**
+ * Boolean Environment Flag Schema
+ */
+const envFlagSchema = z.enum(['true', 'false', '1', '0']).optional();
+
+/**
+ * Local Transcription Environment Variables Schema
+ * All fields are optional; transcription follows the OpenAI provider when unset
+ */
+export const localTranscriptionEnvSchema = z.object({
+  TRANSCRIPTION_PROVIDER: transcriptionProviderSchema.optional(),
+  LOCAL_WHISPER_BASE_URL: z.string().optional(),
+  LOCAL_WHISPER_API_KEY: z.string().optional(),
+  LOCAL_WHISPER_MODEL: z.string().optional(),
+  LOCAL_WHISPER_DIARIZATION: envFlagSchema,
+  LOCAL_WHISPER_VERBOSE_JSON: envFlagSchema,
+  LOCAL_WHISPER_WORD_TIMESTAMPS: envFlagSchema,
+});
+
+/**
+ * Model Routing Environment Variables Schema
+ * All fields are optional; analysis and chat use the OpenAI provider when unset
+ */
+export const modelRoutingEnvSchema = z.object({
+  LLM_PRIMARY_BACKEND: llmBackendSchema.optional(),
+  LLM_FALLBACK_BACKEND: llmBackendSchema.optional(),
+  LOCAL_LLM_BASE_URL: z.string().optional(),
+  LOCAL_LLM_API_KEY: z.string().optional(),
+  LOCAL_LLM_MODEL: z.string().optional(),
+  LLM_SUMMARY_MODEL: z.string().optional(),
+  LLM_ANALYSIS_MODEL: z.string().optional(),
+  LLM_EVALUATION_MODEL: z.string().optional(),
+  LLM_CHAT_MODEL: z.string().optional(),
+  LLM_CONTEXT_LIMITS: z.string().optional(),
+});
+
 /**
  * Complete Environment Variables Schema
- * Combines both Azure and standard OpenAI variables
+ * Combines Azure, standard OpenAI, local transcription and model routing variables
  */
 export const environmentVariablesSchema = z.intersection(
-  azureEnvSchema,
-  standardEnvSchema
+  z.intersection(azureEnvSchema, standardEnvSchema),
+  z.intersection(localTranscriptionEnvSchema, modelRoutingEnvSchema)
 );
 
 /**
@@ -156,8 +327,60 @@ export const validEnvironmentSchema = environmentVariablesSchema.refine(
 export type AzureOpenAIConfig = z.infer<typeof azureOpenAIConfigSchema>;
 export type StandardOpenAIConfig = z.infer<typeof standardOpenAIConfigSchema>;
 export type OpenAIConfig = z.infer<typeof openAIConfigSchema>;
+export type TranscriptionProviderId = z.infer<typeof transcriptionProviderSchema>;
+export type TranscriptionCapabilities = z.infer<typeof transcriptionCapabilitiesSchema>;
+export type LocalTranscriptionConfig = z.infer<typeof localTranscriptionConfigSchema>;
+export type TranscriptionConfig = z.infer<typeof transcriptionConfigSchema>;
+export type LLMBackendId = z.infer<typeof llmBackendSchema>;
+export type LLMTask = z.infer<typeof llmTaskSchema>;
+export type LocalLLMConfig = z.infer<typeof localLLMConfigSchema>;
+export type ModelAssignment = z.infer<typeof modelAssignmentSchema>;
+export type ModelRoutingConfig = z.infer<typeof modelRoutingConfigSchema>;
 export type EnvironmentVariables = z.infer<typeof environmentVariablesSchema>;
 
+/**
+ * List of environment variable names used for configuration
+ */
+const CONFIG_ENV_VARS = [
+  'AZURE_OPENAI_API_KEY',
+  'AZURE_OPENAI_ENDPOINT',
+  'AZURE_OPENAI_API_VERSION',
+  'AZURE_OPENAI_WHISPER_DEPLOYMENT',
+  'AZURE_OPENAI_GPT4_DEPLOYMENT',
+  'AZURE_OPENAI_GPT5_DEPLOYMENT',
+  'AZURE_OPENAI_EXTENDED_GPT_DEPLOYMENT',
+  'OPENAI_API_KEY',
+  'OPENAI_ORGANIZATION_ID',
+  'TRANSCRIPTION_PROVIDER',
+  'LOCAL_WHISPER_BASE_URL',
+  'LOCAL_WHISPER_API_KEY',
+  'LOCAL_WHISPER_MODEL',
+  'LOCAL_WHISPER_DIARIZATION',
+  'LOCAL_WHISPER_VERBOSE_JSON',
+  'LOCAL_WHISPER_WORD_TIMESTAMPS',
+  'LLM_PRIMARY_BACKEND',
+  'LLM_FALLBACK_BACKEND',
+  'LOCAL_LLM_BASE_URL',
+  'LOCAL_LLM_API_KEY',
+  'LOCAL_LLM_MODEL',
+  'LLM_SUMMARY_MODEL',
+  'LLM_ANALYSIS_MODEL',
+  'LLM_EVALUATION_MODEL',
+  'LLM_CHAT_MODEL',
+  'LLM_CONTEXT_LIMITS',
+];
+
+/**
+ * Pick the configuration variables out of an environment object
+ */
+function pickConfigEnv(env: Record<string, string | undefined>): Record<string, string | undefined> {
+  const picked: Record<string, string | undefined> = {};
+  for (const name of CONFIG_ENV_VARS) {
+    picked[name] = env[name];
+  }
+  return picked;
+}
+
 /**
  * Validate environment variables
  *
@@ -180,22 +403,30 @@ export type EnvironmentVariables = z.infer<typeof environmentVariablesSchema>;
 export function validateEnvironmentVariables(
   env: Record<string, string | undefined>
 ): EnvironmentVariables {
-  return validEnvironmentSchema.parse({
-    AZURE_OPENAI_API_KEY: env.AZURE_OPENAI_API_KEY,
-    AZURE_OPENAI_ENDPOINT: env.AZURE_OPENAI_ENDPOINT,
-    AZURE_OPENAI_API_VERSION: env.AZURE_OPENAI_API_VERSION,
-    AZURE_OPENAI_WHISPER_DEPLOYMENT: env.AZURE_OPENAI_WHISPER_DEPLOYMENT,
-    AZURE_OPENAI_GPT4_DEPLOYMENT: env.AZURE_OPENAI_GPT4_DEPLOYMENT,
-    AZURE_OPENAI_GPT5_DEPLOYMENT: env.AZURE_OPENAI_GPT5_DEPLOYMENT,
-    OPENAI_API_KEY: env.OPENAI_API_KEY,
-    OPENAI_ORGANIZATION_ID: env.OPENAI_ORGANIZATION_ID,
-  });
+  return validEnvironmentSchema.parse(pickConfigEnv(env));
+}
+
+/**
+ * Validate environment variables without requiring OpenAI credentials
+ *
+ * Used for the transcription and model routing configurations, which may
+ * point at self-hosted servers instead of an OpenAI provider.
+ *
+ * @param env - Environment variables object (typically process.env)
+ * @returns Validated environment variables
+ * @throws {z.ZodError} If a variable has an invalid value
+ */
+export function parseEnvironmentVariables(
+  env: Record<string, string | undefined>
+): EnvironmentVariables {
+  return environmentVariablesSchema.parse(pickConfigEnv(env));
 }
 
 /**
  * Build and validate OpenAI configuration from environment variables
  *
  * @param env - Validated environment variables
+ * @param preferredProvider - Force a provider instead of preferring Azure when both are set
  * @returns Validated OpenAI configuration
  * @throws {z.ZodError} If configuration validation fails
  *
@@ -209,10 +440,14 @@ export function validateEnvironmentVariables(
  * }
  * ```
  */
-export function buildOpenAIConfig(env: EnvironmentVariables): OpenAIConfig {
+export function buildOpenAIConfig(
+  env: EnvironmentVariables,
+  preferredProvider?: OpenAIConfig['provider']
+): OpenAIConfig {
   const hasAzure = !!(env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_ENDPOINT);
+  const useAzure = preferredProvider ? preferredProvider === 'azure' : hasAzure;
 
-  if (hasAzure) {
+  if (useAzure) {
     const analysisDeployment =
       env.AZURE_OPENAI_GPT5_DEPLOYMENT ?? env.AZURE_OPENAI_GPT4_DEPLOYMENT;
 
@@ -235,6 +470,140 @@ export function buildOpenAIConfig(env: EnvironmentVariables): OpenAIConfig {
   });
 }
 
+/**
+ * Resolve which provider handles transcription
+ *
+ * `TRANSCRIPTION_PROVIDER` wins when set; otherwise a configured
+ * `LOCAL_WHISPER_BASE_URL` selects the local server, and anything else
+ * follows the OpenAI provider.
+ */
+function resolveTranscriptionProvider(
+  env: EnvironmentVariables
+): TranscriptionProviderId | undefined {
+  if (env.TRANSCRIPTION_PROVIDER) return env.TRANSCRIPTION_PROVIDER;
+  return env.LOCAL_WHISPER_BASE_URL ? 'local' : undefined;
+}
+
+function parseEnvFlag(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined) return fallback;
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Build and validate the transcription configuration from environment variables
+ *
+ * Unlike {@link buildOpenAIConfig}, this does not require OpenAI credentials
+ * when a local speech server is used, so transcription can run fully on-prem.
+ *
+ * @param env - Environment variables (see {@link parseEnvironmentVariables})
+ * @returns Validated transcription configuration
+ * @throws {z.ZodError} If configuration validation fails
+ *
+ * @example
+ * ```typescript
+ * const config = buildTranscriptionConfig(parseEnvironmentVariables(process.env));
+ *
+ * if (config.provider === 'local') {
+ *   console.log('Transcribing with', config.baseUrl, config.capabilities);
+ * }
+ * ```
+ */
+export function buildTranscriptionConfig(env: EnvironmentVariables): TranscriptionConfig {
+  const provider = resolveTranscriptionProvider(env);
+
+  if (provider === 'local') {
+    return localTranscriptionConfigSchema.parse({
+      provider: 'local',
+      baseUrl: env.LOCAL_WHISPER_BASE_URL,
+      apiKey: env.LOCAL_WHISPER_API_KEY || undefined,
+      model: env.LOCAL_WHISPER_MODEL || undefined,
+      capabilities: {
+        diarization: parseEnvFlag(env.LOCAL_WHISPER_DIARIZATION, false),
+        verboseJson: parseEnvFlag(env.LOCAL_WHISPER_VERBOSE_JSON, true),
+        wordTimestamps: parseEnvFlag(env.LOCAL_WHISPER_WORD_TIMESTAMPS, false),
+      },
+    });
+  }
+
+  return buildOpenAIConfig(validEnvironmentSchema.parse(env), provider);
+}
+
+/**
+ * Parse a task model assignment of the form `[backend:]model`
+ *
+ * The backend prefix is only recognised for known backends, so Ollama tags
+ * like `llama3.1:70b` are kept intact.
+ */
+function parseModelAssignment(value: string | undefined): Record<string, string> | undefined {
+  if (!value || !value.trim()) return undefined;
+
+  const trimmed = value.trim();
+  const separator = trimmed.indexOf(':');
+  const prefix = separator > 0 ? trimmed.slice(0, separator) : '';
+  if (llmBackendSchema.safeParse(prefix).success) {
+    return { backend: prefix, model: trimmed.slice(separator + 1) };
+  }
+  return { model: trimmed };
+}
+
+/**
+ * Parse `model=tokens` pairs, separated by commas
+ */
+function parseContextLimits(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator <= 0) continue;
+    limits[entry.slice(0, separator).trim()] = Number(entry.slice(separator + 1).trim());
+  }
+  return limits;
+}
+
+/**
+ * Build and validate the model routing configuration from environment variables
+ *
+ * The primary backend is `LLM_PRIMARY_BACKEND` when set, otherwise Azure,
+ * OpenAI or the local server, in that order, depending on which is configured.
+ * Backend credentials are validated when a backend's client is created.
+ *
+ * @param env - Environment variables (see {@link parseEnvironmentVariables})
+ * @returns Validated model routing configuration
+ * @throws {z.ZodError} If configuration validation fails
+ *
+ * @example
+ * ```typescript
+ * // LLM_PRIMARY_BACKEND=local, LOCAL_LLM_MODEL=llama3.1:70b,
+ * // LLM_FALLBACK_BACKEND=azure, LLM_EVALUATION_MODEL=azure:gpt-5
+ * const routing = buildModelRoutingConfig(parseEnvironmentVariables(process.env));
+ * ```
+ */
+export function buildModelRoutingConfig(env: EnvironmentVariables): ModelRoutingConfig {
+  const hasAzure = !!(env.AZURE_OPENAI_API_KEY && env.AZURE_OPENAI_ENDPOINT);
+  const hasLocal = !!env.LOCAL_LLM_BASE_URL;
+  const primary =
+    env.LLM_PRIMARY_BACKEND ??
+    (hasAzure ? 'azure' : env.OPENAI_API_KEY ? 'openai' : hasLocal ? 'local' : 'openai');
+
+  return modelRoutingConfigSchema.parse({
+    primary,
+    fallback: env.LLM_FALLBACK_BACKEND,
+    local: hasLocal
+      ? {
+          baseUrl: env.LOCAL_LLM_BASE_URL,
+          apiKey: env.LOCAL_LLM_API_KEY || undefined,
+          model: env.LOCAL_LLM_MODEL,
+        }
+      : undefined,
+    tasks: {
+      summary: parseModelAssignment(env.LLM_SUMMARY_MODEL),
+      analysis: parseModelAssignment(env.LLM_ANALYSIS_MODEL),
+      evaluation: parseModelAssignment(env.LLM_EVALUATION_MODEL),
+      chat: parseModelAssignment(env.LLM_CHAT_MODEL),
+    },
+    contextLimits: parseContextLimits(env.LLM_CONTEXT_LIMITS),
+  });
+}
+
 /**
  * Validate deployment name
  *
@@ -307,16 +676,7 @@ export function validateEndpoint(endpoint: string): string {
 export function safeValidateEnvironment(
   env: Record<string, string | undefined>
 ): { success: true; data: EnvironmentVariables } | { success: false; error: z.ZodError } {
-  const result = validEnvironmentSchema.safeParse({
-    AZURE_OPENAI_API_KEY: env.AZURE_OPENAI_API_KEY,
-    AZURE_OPENAI_ENDPOINT: env.AZURE_OPENAI_ENDPOINT,
-    AZURE_OPENAI_API_VERSION: env.AZURE_OPENAI_API_VERSION,
-    AZURE_OPENAI_WHISPER_DEPLOYMENT: env.AZURE_OPENAI_WHISPER_DEPLOYMENT,
-    AZURE_OPENAI_GPT4_DEPLOYMENT: env.AZURE_OPENAI_GPT4_DEPLOYMENT,
-    AZURE_OPENAI_GPT5_DEPLOYMENT: env.AZURE_OPENAI_GPT5_DEPLOYMENT,
-    OPENAI_API_KEY: env.OPENAI_API_KEY,
-    OPENAI_ORGANIZATION_ID: env.OPENAI_ORGANIZATION_ID,
-  });
+  const result = validEnvironmentSchema.safeParse(pickConfigEnv(env));
 
   if (result.success) {
     return { success: true, data: result.data };
@@ -364,20 +724,6 @@ export function formatValidationError(error: z.ZodError): string {
   return messages.join('\n');
 }
 
-/**
- * List of environment variable names used for configuration
- */
-const CONFIG_ENV_VARS = [
-  'AZURE_OPENAI_API_KEY',
-  'AZURE_OPENAI_ENDPOINT',
-  'AZURE_OPENAI_API_VERSION',
-  'AZURE_OPENAI_WHISPER_DEPLOYMENT',
-  'AZURE_OPENAI_GPT4_DEPLOYMENT',
-  'AZURE_OPENAI_GPT5_DEPLOYMENT',
-  'OPENAI_API_KEY',
-  'OPENAI_ORGANIZATION_ID',
-];
-
 /**
  * Load environment variables asynchronously with Key Vault support
  *
@@ -10,12 +10,26 @@ export {
   azureOpenAIConfigSchema,
   standardOpenAIConfigSchema,
   openAIConfigSchema,
+  transcriptionProviderSchema,
+  transcriptionCapabilitiesSchema,
+  localTranscriptionConfigSchema,
+  transcriptionConfigSchema,
+  llmBackendSchema,
+  llmTaskSchema,
+  localLLMConfigSchema,
+  modelAssignmentSchema,
+  modelRoutingConfigSchema,
   azureEnvSchema,
   standardEnvSchema,
+  localTranscriptionEnvSchema,
+  modelRoutingEnvSchema,
   environmentVariablesSchema,
   validEnvironmentSchema,
   validateEnvironmentVariables,
+  parseEnvironmentVariables,
   buildOpenAIConfig,
+  buildTranscriptionConfig,
+  buildModelRoutingConfig,
   validateDeploymentName,
   validateApiVersion,
   validateEndpoint,
@@ -24,6 +38,15 @@ export {
   type AzureOpenAIConfig,
   type StandardOpenAIConfig,
   type OpenAIConfig,
+  type TranscriptionProviderId,
+  type TranscriptionCapabilities,
+  type LocalTranscriptionConfig,
+  type TranscriptionConfig,
+  type LLMBackendId,
+  type LLMTask,
+  type LocalLLMConfig,
+  type ModelAssignment,
+  type ModelRoutingConfig,
   type EnvironmentVariables,
 } from './config';
 
@@ -35,6 +58,7 @@ export {
   lucideIconSchema,
   templateSectionSchema,
   templateSectionInputSchema,
+  templateVariableSchema,
   templateSchema,
   templateInputSchema,
   templateUpdateSchema,
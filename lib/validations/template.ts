@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { TEMPLATE_VARIABLE_NAME_PATTERN } from '@/lib/template-variables';
 
 /**
  * Common Lucide React Icon Names
@@ -130,6 +131,7 @@ export const templateSectionSchema = z.object({
   prompt: sectionPromptSchema,
   extractEvidence: z.boolean().default(true),
   outputFormat: outputFormatSchema,
+  dependencies: z.array(sectionIdSchema).optional(),
 });
 
 /**
@@ -137,6 +139,21 @@ export const templateSectionSchema = z.object({
  */
 export const templateSectionInputSchema = templateSectionSchema.omit({ id: true });
 
+/**
+ * Template Variable Schema
+ */
+export const templateVariableSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .regex(
+      TEMPLATE_VARIABLE_NAME_PATTERN,
+      'Variable name must start with a letter and contain only letters, numbers, and underscores'
+    ),
+  description: z.string().max(200, 'Variable description must be 200 characters or less').trim().optional(),
+  defaultValue: z.string().max(500, 'Variable default value must be 500 characters or less').optional(),
+});
+
 /**
  * Template ID Schema
  */
@@ -183,6 +200,10 @@ export const templateSchema = z.object({
     .array(outputTypeSchema)
     .min(1, 'Template must have at least one output type')
     .max(4, 'Template cannot have more than 4 output types'),
+  variables: z
+    .array(templateVariableSchema)
+    .max(20, 'Template cannot have more than 20 variables')
+    .optional(),
   isCustom: z.boolean(),
   createdAt: z.date(),
 });
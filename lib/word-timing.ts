@@ -0,0 +1,113 @@
+/**
+ * Word Timing Utilities
+ *
+ * Helpers for word-level playback highlighting: finding the word being
+ * spoken at a playback time, and aligning a segment's machine word timings
+ * to its display text (which keeps punctuation and may have been edited).
+ */
+
+import { tokenize } from '@/lib/search/tokenizer';
+import type { TranscriptWord } from '@/types/transcript';
+
+/**
+ * A word in a segment's text with the timing it was aligned to
+ */
+export interface AlignedWord {
+  /** Start offset of the word in the segment text */
+  from: number;
+  /** End offset (exclusive) of the word in the segment text */
+  to: number;
+  /** Index into `segment.words` when the word matched a timed word */
+  wordIndex?: number;
+  /** Time in seconds to seek to when the word is clicked */
+  time: number;
+}
+
+// How many timed words to look ahead when matching text to timings, so a
+// few inserted or deleted words (manual edits) don't derail the alignment
+const ALIGN_LOOKAHEAD = 4;
+
+function wordKey(word: string): string {
+  return tokenize(word).map((token) => token.term).join('');
+}
+
+/**
+ * Align a segment's text to its word timings
+ *
+ * Text words are matched in order to timed words with the same normalized
+ * form. Words that don't match (for example after a manual edit) get no
+ * `wordIndex` and seek to the end of the previous matched word.
+ *
+ * @param text - Segment display text
+ * @param words - Machine word timings for the segment
+ * @param segmentStart - Segment start time, used before the first match
+ * @returns One entry per word in the text
+ *
+ * @example
+ * alignWordsToText('Hello, world.', [
+ *   { word: 'Hello', start: 0, end: 0.4 },
+ *   { word: 'world', start: 0.5, end: 0.9 },
+ * ], 0);
+ * // [{ from: 0, to: 5, wordIndex: 0, time: 0 }, { from: 7, to: 12, wordIndex: 1, time: 0.5 }]
+ */
+export function alignWordsToText(
+  text: string,
+  words: TranscriptWord[],
+  segmentStart: number
+): AlignedWord[] {
+  const keys = words.map((word) => wordKey(word.word));
+  const aligned: AlignedWord[] = [];
+  let next = 0;
+  let lastTime = segmentStart;
+
+  for (const token of tokenize(text)) {
+    let match = -1;
+    for (let i = next; i < Math.min(next + ALIGN_LOOKAHEAD, words.length); i++) {
+      if (keys[i] === token.term) {
+        match = i;
+        break;
+      }
+    }
+
+    if (match === -1) {
+      aligned.push({ from: token.start, to: token.end, time: lastTime });
+      continue;
+    }
+
+    aligned.push({ from: token.start, to: token.end, wordIndex: match, time: words[match].start });
+    lastTime = words[match].end;
+    next = match + 1;
+  }
+
+  return aligned;
+}
+
+/**
+ * Find the word being spoken at a playback time
+ *
+ * A word stays active through the pause after it, until the next word
+ * starts.
+ *
+ * @param words - Word timings in chronological order
+ * @param time - Playback time in seconds
+ * @returns Index of the active word, or -1 before the first word
+ */
+export function findActiveWordIndex(words: TranscriptWord[] | undefined, time: number): number {
+  if (!words || words.length === 0 || time < words[0].start) {
+    return -1;
+  }
+
+  // Binary search for the last word starting at or before `time`
+  let low = 0;
+  let high = words.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (words[mid].start <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low;
+}
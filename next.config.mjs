@@ -10,9 +10,10 @@ const nextConfig = {
   // This creates a minimal .next/standalone folder with all required files
   output: 'standalone',
 
-  // Prevent FFmpeg WASM packages from being bundled for SSR
+  // Prevent FFmpeg WASM packages and the native SQLite driver (server store)
+  // from being bundled for SSR
   // (Moved from experimental in Next.js 15)
-  serverExternalPackages: ['@ffmpeg/ffmpeg', '@ffmpeg/util', '@ffmpeg/core'],
+  serverExternalPackages: ['@ffmpeg/ffmpeg', '@ffmpeg/util', '@ffmpeg/core', 'better-sqlite3'],
 
   webpack: (config, { isServer }) => {
     // Handle FFmpeg WASM files
@@ -0,0 +1,98 @@
+/**
+ * Type definitions for the cross-meeting action item tracker
+ */
+
+import type { DeadlineConfidence } from './analysis';
+
+/**
+ * Progress of a tracked action item
+ *
+ * `superseded` items were dropped by a later run of the same analysis.
+ */
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'superseded';
+
+/**
+ * An action item tracked across meetings
+ *
+ * Created from the action items of saved analyses. Items are matched by
+ * transcript and task text (allowing for rewording), so re-running an
+ * analysis updates the same item instead of creating a duplicate, and
+ * status and owner edits survive.
+ */
+export interface TrackedActionItem {
+  /** Unique identifier for this item */
+  id: string;
+
+  /** Transcript (meeting) the item was raised in */
+  transcriptId: string;
+
+  /** Normalized task text; unique per transcript */
+  key: string;
+
+  /** Template of the latest analysis the item was extracted from */
+  templateId?: string;
+
+  /** Latest analysis the item was extracted from */
+  analysisId: string;
+
+  /** ID of the item within that analysis's results */
+  sourceItemId: string;
+
+  /** Description of the task */
+  task: string;
+
+  /** Person responsible, as extracted or as edited */
+  owner?: string;
+
+  /** Whether the owner was set by hand; re-runs leave it alone */
+  ownerEdited?: boolean;
+
+  /** Deadline as written in the analysis (e.g. "June 12") */
+  deadline?: string;
+
+  /** Due date resolved from the deadline, or set by hand */
+  dueDate?: Date;
+
+  /** Confidence of the resolved due date (absent when set by hand) */
+  deadlineConfidence?: DeadlineConfidence;
+
+  /** Whether the due date was set by hand; re-resolution leaves it alone */
+  dueDateEdited?: boolean;
+
+  /** Timestamp in seconds where the item was mentioned */
+  timestamp?: number;
+
+  /** Progress of the item */
+  status: ActionItemStatus;
+
+  /** When the item was first tracked */
+  createdAt: Date;
+
+  /** When the item was last changed */
+  updatedAt: Date;
+
+  /** When the item was marked done */
+  completedAt?: Date;
+}
+
+/**
+ * Fields of a tracked action item that can be edited by hand
+ */
+export type ActionItemUpdate = Partial<Pick<TrackedActionItem, 'status' | 'owner' | 'dueDate'>>;
+
+/**
+ * Filters for the action item tracker
+ */
+export interface ActionItemFilters {
+  /** Only items from transcripts of this department */
+  department?: string;
+
+  /** Only items with this owner (case-insensitive) */
+  owner?: string;
+
+  /** Only items with this status */
+  status?: ActionItemStatus;
+
+  /** Only items past their due date that aren't done */
+  overdueOnly?: boolean;
+}
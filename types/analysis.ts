@@ -6,6 +6,7 @@
  */
 
 import type { AnalysisStrategy } from '@/lib/analysis-strategy';
+import type { ProgressPhase } from '@/lib/analysis-progress-metadata';
 
 /**
  * Evidence citation linking extracted content back to the source transcript.
@@ -57,6 +58,30 @@ export interface AgendaItem {
   context?: string;
 }
 
+/**
+ * How certain a deadline resolution is
+ *
+ * - `high`: the phrase names a day ("June 12", "tomorrow")
+ * - `medium`: a day counted from the meeting ("next Friday", "in two weeks")
+ *   or the end of a named period ("end of Q2")
+ * - `low`: a vague period, resolved to its last day ("next month")
+ */
+export type DeadlineConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * A deadline phrase resolved to a calendar date
+ */
+export interface ResolvedDeadline {
+  /** Due date as an ISO 8601 calendar date (YYYY-MM-DD) */
+  date: string;
+
+  /** Deadline phrase the date was resolved from, as written */
+  phrase: string;
+
+  /** How certain the resolution is */
+  confidence: DeadlineConfidence;
+}
+
 /**
  * Represents a single action item extracted from the transcript.
  */
@@ -73,6 +98,13 @@ export interface ActionItem {
   /** Optional deadline (can be relative or absolute) */
   deadline?: string;
 
+  /**
+   * Deadline resolved to a calendar date relative to the meeting date.
+   * Set when the analysis is saved; absent when the deadline names no
+   * date ("ASAP", "ongoing").
+   */
+  resolvedDeadline?: ResolvedDeadline;
+
   /** Timestamp in seconds when the action item was mentioned */
   timestamp?: number;
 
@@ -189,6 +221,12 @@ export interface Analysis {
   /** ID of the template used for analysis */
   templateId: string;
 
+  /**
+   * Template revision the analysis ran against (see `TemplateRevision`).
+   * Absent for analyses created before templates were versioned.
+   */
+  templateVersion?: number;
+
   /**
    * Analysis strategy used for this analysis.
    * Determines processing approach (single-pass, batched, or cascading).
@@ -257,6 +295,9 @@ export interface AnalysisProgress {
   /** Current section being processed */
   currentSection?: string;
 
+  /** ID of the progress phase currently running */
+  phaseId?: string;
+
   /** Progress percentage (0-100) */
   progress: number;
 
@@ -270,6 +311,26 @@ export interface AnalysisProgress {
   error?: string;
 }
 
+/**
+ * Server-sent events emitted by POST /api/analyze when `stream: true`.
+ *
+ * `start` carries the phases the server will run, `progress` moves through
+ * them, `section` delivers partial results as each step finishes, and the
+ * stream ends with either `complete` or `error`.
+ */
+export type AnalysisStreamEvent =
+  | {
+      event: 'start';
+      data: { strategy: AnalysisStrategy; wasAutoSelected: boolean; phases: ProgressPhase[] };
+    }
+  | { event: 'progress'; data: { progress: number; phaseId: string; message: string } }
+  | {
+      event: 'section';
+      data: { step: number; total: number; name: string; sections: AnalysisSection[] };
+    }
+  | { event: 'complete'; data: Analysis }
+  | { event: 'error'; data: { error: string; details?: Record<string, unknown> } };
+
 /**
  * Configuration options for analysis execution.
  */
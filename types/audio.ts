@@ -106,6 +106,9 @@ export interface AudioSyncState {
 
   /** Index of active segment */
   activeSegmentIndex: number;
+
+  /** Index of the active word within the active segment's `words` (-1 if none) */
+  activeWordIndex: number;
 }
 
 /**
@@ -158,7 +161,7 @@ export interface AudioLoadResult {
 }
 
 /**
- * Waveform region for highlighting (future feature)
+ * Waveform region highlighting a time range (e.g. audio marked for redaction)
  */
 export interface WaveformRegion {
   /** Unique identifier */
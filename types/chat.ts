@@ -31,6 +31,54 @@ export interface ChatMessage {
 
   /** Model name that generated this response (assistant messages only) */
   model?: string;
+
+  /**
+   * Passages the answer was based on, cited in the answer as [1], [2], ...
+   * (library chat assistant messages only)
+   */
+  sources?: ChatSource[];
+
+  /**
+   * Segments the answer cites as [#N], with their start times when it was
+   * given (transcript chat assistant messages only)
+   */
+  citedSegments?: CitedSegment[];
+}
+
+/**
+ * A segment a transcript chat answer cites.
+ *
+ * The start time finds the segment again after segments are split or
+ * merged and the index no longer points at it.
+ */
+export interface CitedSegment {
+  /** Index of the segment when the answer was given */
+  segmentIndex: number;
+
+  /** Start time of the segment in seconds */
+  start: number;
+}
+
+/**
+ * A transcript passage a library chat answer can cite.
+ *
+ * Numbered from 1 in the order sent to the model.
+ */
+export interface ChatSource {
+  /** Transcript the passage comes from */
+  transcriptId: string;
+
+  /** Transcript filename */
+  filename: string;
+
+  /** Index of the passage's best matching segment (deep link target) */
+  segmentIndex: number;
+
+  /** Start time of the passage in seconds */
+  start: number;
+
+  /** End time of the passage in seconds */
+  end: number;
 }
 
 /**
@@ -56,6 +104,46 @@ export interface Conversation {
   updatedAt: Date;
 }
 
+/**
+ * Transcripts a library conversation searches.
+ */
+export interface LibraryChatFilters {
+  /** Only transcripts of this department */
+  department?: string;
+
+  /** Only transcripts created on or after this date */
+  from?: Date;
+
+  /** Only transcripts created on or before this date */
+  to?: Date;
+}
+
+/**
+ * A conversation about the whole transcript library.
+ *
+ * Stored apart from per-transcript conversations. Each question retrieves
+ * relevant passages from transcripts matching the filters.
+ */
+export interface LibraryConversation {
+  /** Unique identifier for this conversation */
+  id: string;
+
+  /** Title shown in the conversation list (the first question) */
+  title: string;
+
+  /** Transcripts the conversation searches */
+  filters: LibraryChatFilters;
+
+  /** Array of messages in chronological order (oldest first) */
+  messages: ChatMessage[];
+
+  /** When the conversation was first created */
+  createdAt: Date;
+
+  /** When the conversation was last updated (new message added) */
+  updatedAt: Date;
+}
+
 // ============================================================================
 // API REQUEST/RESPONSE TYPES
 // ============================================================================
@@ -73,11 +161,46 @@ export interface ChatRequest {
   /** Full transcript text (sent with each request for LLM context) */
   transcriptText: string;
 
+  /**
+   * Transcript lines carry `[#N HH:MM:SS]` segment markers (see
+   * `lib/chat-citations`); the answer cites segments as `[#N]`
+   */
+  citeSegments?: boolean;
+
   /** The user's question */
   question: string;
 
   /** Optional conversation history for multi-turn context */
   conversationHistory?: ChatMessage[];
+
+  /** Stream the answer as server-sent events instead of one JSON body */
+  stream?: boolean;
+}
+
+/**
+ * Request body for a library question.
+ *
+ * Instead of one transcript, the client sends the passages it retrieved
+ * for the question; the answer cites them by number.
+ */
+export interface LibraryChatRequest {
+  /** Retrieved passages, cited as [1], [2], ... in order */
+  passages: Array<{
+    filename: string;
+    createdAt: string;
+    start: number;
+    end: number;
+    text: string;
+  }>;
+
+  /** The user's question */
+  question: string;
+
+  /** Optional conversation history for multi-turn context */
+  conversationHistory?: ChatMessage[];
+
+  /** Stream the answer as server-sent events instead of one JSON body */
+  stream?: boolean;
 }
 
 /**
@@ -105,6 +228,18 @@ export interface ChatError {
   details?: Record<string, unknown>;
 }
 
+/**
+ * Events emitted by the chat API when `stream: true` is requested.
+ *
+ * - `delta`: a chunk of answer text to append
+ * - `done`: the stream completed; carries the full answer and model
+ * - `error`: the model call failed after streaming started
+ */
+export type ChatStreamEvent =
+  | { event: 'delta'; data: { content: string } }
+  | { event: 'done'; data: ChatResponse }
+  | { event: 'error'; data: ChatError };
+
 // ============================================================================
 // HELPER TYPES
 // ============================================================================
@@ -8,12 +8,18 @@
 // Transcript types
 export type {
   TranscriptSegment,
+  TranscriptWord,
   TranscriptMetadata,
   Transcript,
   TranscriptionStatus,
   TranscriptionProgress,
   TranscriptInput,
   TranscriptUpdate,
+  SegmentEditOperation,
+  TranscriptRevision,
+  SpeakerProfile,
+  RedactionFill,
+  TranscriptRedaction,
 } from './transcript';
 
 export {
@@ -27,6 +33,10 @@ export type {
   OutputType,
   TemplateSection,
   Template,
+  TemplateVariable,
+  TemplateSource,
+  TemplateContent,
+  TemplateRevision,
   TemplateInput,
   TemplateUpdate,
   TemplateSectionInput,
@@ -39,12 +49,23 @@ export {
   isOutputType,
 } from './template';
 
+// Template test bench types
+export type {
+  TokenUsage,
+  BenchSectionOutput,
+  BenchSectionScore,
+  TemplateBenchRun,
+  TemplateGoldenOutput,
+} from './template-bench';
+
 // Analysis types
 export type {
   Evidence,
   AnalysisSection,
   AgendaItem,
   ActionItem,
+  DeadlineConfidence,
+  ResolvedDeadline,
   Decision,
   Quote,
   AnalysisResults,
@@ -54,6 +75,7 @@ export type {
   AnalysisInput,
   AnalysisUpdate,
   AnalysisProgress,
+  AnalysisStreamEvent,
   AnalysisConfig,
   AnalysisStats,
 } from './analysis';
@@ -95,6 +117,20 @@ export type {
   RecordingModeConfig,
 } from './recording';
 
+// Search types
+export type {
+  SearchSnippet,
+  TranscriptSearchResult,
+} from './search';
+
+// Action item tracker types
+export type {
+  ActionItemStatus,
+  TrackedActionItem,
+  ActionItemUpdate,
+  ActionItemFilters,
+} from './action-item';
+
 /**
  * Common utility types used across the application.
  */
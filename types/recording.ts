@@ -90,6 +90,77 @@ export interface SavedRecording {
   name?: string;
 }
 
+/**
+ * An in-progress recording whose audio is being persisted chunk by chunk.
+ *
+ * Written when recording starts and deleted once the recording is saved or
+ * discarded, so any session still present on a later app load was
+ * interrupted (crash, tab discard, sleep) and can be recovered.
+ */
+export interface RecordingSession {
+  /** Unique identifier for the session */
+  id: string;
+
+  /** Recording mode used */
+  mode: RecordingMode;
+
+  /** MIME type of the persisted chunks */
+  mimeType: string;
+
+  /** When recording started */
+  startedAt: Date;
+
+  /** When the last chunk was written */
+  updatedAt: Date;
+
+  /** Seconds of active recording persisted so far (pauses excluded) */
+  duration: number;
+
+  /** Number of chunks persisted so far */
+  chunkCount: number;
+
+  /** Total bytes persisted so far */
+  size: number;
+}
+
+/**
+ * One timesliced MediaRecorder chunk of a recording session.
+ *
+ * Only the first chunk carries the container header; chunks must be
+ * concatenated in `seq` order to form a playable file.
+ */
+export interface RecordingSessionChunk {
+  /** Session the chunk belongs to */
+  sessionId: string;
+
+  /** Zero-based position of the chunk within the session */
+  seq: number;
+
+  /** Encoded audio data */
+  blob: Blob;
+}
+
+/**
+ * A self-contained slice of an in-progress recording.
+ *
+ * Emitted every few seconds while recording so the audio can be transcribed
+ * as the meeting happens. Each chunk is a complete, independently decodable
+ * file; times are in seconds of active recording (pauses excluded).
+ */
+export interface RecordingChunk {
+  /** Zero-based position of the chunk within the recording */
+  index: number;
+
+  /** Seconds of active recording before this chunk started */
+  offset: number;
+
+  /** Seconds of active recording covered by this chunk */
+  duration: number;
+
+  /** The chunk's encoded audio */
+  blob: Blob;
+}
+
 /**
  * Recording hook state.
  *
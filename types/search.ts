@@ -0,0 +1,88 @@
+/**
+ * Type definitions for transcript library search
+ */
+
+import type { Transcript } from './transcript';
+
+/**
+ * A highlighted excerpt from a matching segment
+ */
+export interface SearchSnippet {
+  /** Index of the segment the excerpt comes from (links to its timestamp) */
+  segmentIndex: number;
+
+  /** Segment start time in seconds */
+  start: number;
+
+  /** Speaker display name, if the segment has one */
+  speaker?: string;
+
+  /** Excerpt text (may be trimmed with leading/trailing ellipses) */
+  text: string;
+
+  /** Character ranges [start, end) within `text` to highlight */
+  highlights: Array<[number, number]>;
+}
+
+/**
+ * A ranked transcript search hit
+ */
+export interface TranscriptSearchResult {
+  /** The matching transcript */
+  transcript: Transcript;
+
+  /** Relevance score (higher is better; only meaningful within one query) */
+  score: number;
+
+  /** Best matching excerpts in chronological order */
+  snippets: SearchSnippet[];
+
+  /** Whether the filename matched the query */
+  filenameMatch: boolean;
+}
+
+/**
+ * Filters for retrieving passages across the library
+ */
+export interface PassageFilters {
+  /** Only transcripts of this department (ID from `lib/departments`) */
+  department?: string;
+
+  /** Only meetings on or after this date (creation date when no meeting date is set) */
+  from?: Date;
+
+  /** Only meetings on or before this date (creation date when no meeting date is set) */
+  to?: Date;
+}
+
+/**
+ * A run of consecutive segments retrieved to answer a library question
+ */
+export interface LibraryPassage {
+  /** Transcript the passage comes from */
+  transcriptId: string;
+
+  /** Transcript filename (shown in citations) */
+  filename: string;
+
+  /** Transcript creation date */
+  createdAt: Date;
+
+  /** Transcript department, if set */
+  department?: string;
+
+  /** Index of the best matching segment (links to its timestamp) */
+  segmentIndex: number;
+
+  /** Start time of the passage in seconds */
+  start: number;
+
+  /** End time of the passage in seconds */
+  end: number;
+
+  /** Passage text, one line per segment with speaker names where known */
+  text: string;
+
+  /** Relevance score (higher is better; only meaningful within one question) */
+  score: number;
+}
@@ -0,0 +1,110 @@
+/**
+ * Template Test Bench Type Definitions
+ *
+ * Types for trying template prompts against sample transcripts before
+ * saving them: bench runs, their token usage, and the "golden" expected
+ * outputs later runs are scored against.
+ */
+
+/**
+ * Token usage of one or more model calls.
+ */
+export interface TokenUsage {
+  /** Tokens sent in prompts */
+  promptTokens: number;
+
+  /** Tokens generated in responses */
+  completionTokens: number;
+
+  /** Sum of prompt and completion tokens */
+  totalTokens: number;
+}
+
+/**
+ * Output of one section in a bench run.
+ */
+export interface BenchSectionOutput {
+  /** ID of the template section */
+  sectionId: string;
+
+  /** Section name at the time of the run */
+  name: string;
+
+  /** Generated content */
+  content: string;
+}
+
+/**
+ * Score of a section's output against its golden output.
+ */
+export interface BenchSectionScore {
+  /** ID of the template section */
+  sectionId: string;
+
+  /** How closely the output matches the golden output (0-10) */
+  score: number;
+
+  /** Evaluator's explanation of the score */
+  reasoning: string;
+
+  /** Points in the golden output that the run left out */
+  missing: string[];
+}
+
+/**
+ * One run of a template, or some of its sections, against a sample transcript.
+ *
+ * Runs are kept so the output of unsaved edits can be shown next to the
+ * output of the saved revision.
+ */
+export interface TemplateBenchRun {
+  /** Unique identifier for the run */
+  id: string;
+
+  /** ID of the template being tested */
+  templateId: string;
+
+  /** ID of the sample transcript */
+  transcriptId: string;
+
+  /** Saved template version the run started from */
+  templateVersion: number;
+
+  /** Whether the run used unsaved edits instead of the saved version */
+  draft: boolean;
+
+  /** Output of each section that was run */
+  sections: BenchSectionOutput[];
+
+  /** Scores against golden outputs, for sections that have one */
+  scores?: BenchSectionScore[];
+
+  /** Tokens used by the run, including scoring */
+  usage: TokenUsage;
+
+  /** Timestamp when the run finished */
+  createdAt: Date;
+}
+
+/**
+ * Expected ("golden") output of a template section for a sample transcript.
+ */
+export interface TemplateGoldenOutput {
+  /** Unique identifier, derived from template, transcript and section IDs */
+  id: string;
+
+  /** ID of the template */
+  templateId: string;
+
+  /** ID of the sample transcript */
+  transcriptId: string;
+
+  /** ID of the template section */
+  sectionId: string;
+
+  /** Expected content */
+  content: string;
+
+  /** Timestamp when the golden output was last saved */
+  updatedAt: Date;
+}
@@ -62,6 +62,22 @@ export interface TemplateSection {
   dependencies?: string[];
 }
 
+/**
+ * User-defined variable that section prompts can reference as `{{name}}`.
+ * Built-in variables such as `{{department}}` come from transcript metadata
+ * and don't need to be declared.
+ */
+export interface TemplateVariable {
+  /** Name used in prompts, e.g. "program" for `{{program}}` */
+  name: string;
+
+  /** Hint shown when a value is entered before analysis */
+  description?: string;
+
+  /** Value used when none is entered before analysis */
+  defaultValue?: string;
+}
+
 /**
  * Complete template definition for transcript analysis.
  * Templates define the structure and prompts for extracting information.
@@ -88,11 +104,78 @@ export interface Template {
   /** Types of outputs this template generates */
   outputs: OutputType[];
 
+  /** User-defined prompt variables, filled in before analysis */
+  variables?: TemplateVariable[];
+
   /** Whether this is a user-created custom template */
   isCustom: boolean;
 
   /** Timestamp when the template was created */
   createdAt: Date;
+
+  /** Where the template came from, if it was imported from a template package */
+  source?: TemplateSource;
+
+  /**
+   * Current revision number. Every save records an immutable revision;
+   * templates saved before versioning count as version 1.
+   */
+  version?: number;
+}
+
+/**
+ * The parts of a template that shape analysis output, as captured by a revision.
+ */
+export type TemplateContent = Pick<
+  Template,
+  'name' | 'description' | 'icon' | 'category' | 'sections' | 'outputs' | 'variables'
+>;
+
+/**
+ * Immutable snapshot of a template, recorded each time it is saved.
+ *
+ * Revisions are numbered per template starting at 1. Analyses record the
+ * version they ran against, so the prompts behind an old analysis can be
+ * looked up after the template has been edited.
+ */
+export interface TemplateRevision {
+  /** Unique identifier for the revision */
+  id: string;
+
+  /** ID of the template this revision belongs to */
+  templateId: string;
+
+  /** Revision number, incremented on every save that changes the template */
+  version: number;
+
+  /** Template content at this revision */
+  content: TemplateContent;
+
+  /** Timestamp when the revision was saved */
+  createdAt: Date;
+}
+
+/**
+ * Provenance of a template imported from a template package.
+ */
+export interface TemplateSource {
+  /** Name given to the package when it was exported */
+  packageName?: string;
+
+  /** File the package was read from */
+  filename?: string;
+
+  /** ID of the template inside the package */
+  originalId: string;
+
+  /** Name of the template inside the package, before any rename */
+  originalName: string;
+
+  /** Timestamp when the package was exported */
+  exportedAt: Date;
+
+  /** Timestamp when the template was imported */
+  importedAt: Date;
 }
 
 /**
@@ -24,6 +24,27 @@ export interface TranscriptSegment {
 
   /** Optional speaker identification (if diarization is available) */
   speaker?: string;
+
+  /**
+   * Word-level timings from the transcription model, when supported.
+   * These are the machine timings; display code aligns them to `text`,
+   * which may have been edited since.
+   */
+  words?: TranscriptWord[];
+}
+
+/**
+ * A single word with its timing within the audio.
+ */
+export interface TranscriptWord {
+  /** The word as recognized (usually without surrounding punctuation) */
+  word: string;
+
+  /** Start time of the word in seconds */
+  start: number;
+
+  /** End time of the word in seconds */
+  end: number;
 }
 
 /**
@@ -85,6 +106,12 @@ export interface Transcript {
   /** City of Austin department (for organization and filtering) */
   department?: string;
 
+  /**
+   * Date the meeting took place, when it differs from `createdAt`.
+   * Relative deadlines ("next Friday") are resolved against it.
+   */
+  meetingDate?: Date;
+
   /** Optional fingerprint for duplicate detection */
   fingerprint?: TranscriptFingerprint;
 
@@ -93,6 +120,109 @@ export interface Transcript {
 
   /** Total number of parts when generated from chunked uploads */
   totalParts?: number;
+
+  /**
+   * Machine-generated segments as returned by transcription, captured the
+   * first time a user edits the transcript. Used to diff human changes.
+   */
+  originalSegments?: TranscriptSegment[];
+
+  /** ID of the revision currently applied (undefined = original output) */
+  currentRevisionId?: string;
+
+  /** Timestamp of the last manual edit */
+  updatedAt?: Date;
+
+  /**
+   * Speaker roster mapping raw diarization labels ("Speaker 1") to real
+   * names and roles. Segments keep their raw labels; the roster is applied
+   * when displaying, exporting, and sending the transcript to the AI.
+   */
+  speakers?: SpeakerProfile[];
+
+  /**
+   * Set when this transcript is a redacted copy of another transcript:
+   * its audio has the marked ranges covered and their text replaced.
+   */
+  redaction?: TranscriptRedaction;
+}
+
+/**
+ * How redacted audio ranges are covered.
+ */
+export type RedactionFill = 'tone' | 'silence';
+
+/**
+ * Provenance of a redacted transcript copy.
+ */
+export interface TranscriptRedaction {
+  /** ID of the original (unredacted) transcript */
+  sourceTranscriptId: string;
+
+  /** Redacted time ranges in seconds, sorted and non-overlapping */
+  ranges: Array<{ start: number; end: number }>;
+
+  /** How the ranges were covered in the audio */
+  fill: RedactionFill;
+
+  /** When the redacted copy was created */
+  createdAt: Date;
+}
+
+/**
+ * Roster entry for one raw speaker label in a transcript.
+ */
+export interface SpeakerProfile {
+  /** Raw label as produced by diarization (e.g., "Speaker 1") */
+  label: string;
+
+  /** Real name of the speaker (e.g., "Council Member Alter") */
+  name?: string;
+
+  /** Role or affiliation (e.g., "District 10") */
+  role?: string;
+
+  /** Label this speaker was merged into (both labels are the same person) */
+  mergedInto?: string;
+}
+
+/**
+ * Kinds of manual edits that can be applied to transcript segments.
+ */
+export type SegmentEditOperation =
+  | 'edit-text'      // Segment text was corrected
+  | 'split'          // One segment was split into two
+  | 'merge'          // A segment was merged with the following segment
+  | 'adjust-timing'; // Segment start/end times were nudged
+
+/**
+ * Immutable snapshot of transcript segments after a manual edit.
+ *
+ * Revisions form a linear history per transcript. Undo/redo move the
+ * transcript's `currentRevisionId` along this history; making a new edit
+ * after an undo discards the revisions that were ahead of it.
+ */
+export interface TranscriptRevision {
+  /** Unique identifier for the revision */
+  id: string;
+
+  /** ID of the transcript this revision belongs to */
+  transcriptId: string;
+
+  /** Kind of edit that produced this revision */
+  operation: SegmentEditOperation;
+
+  /** Index of the segment the edit was applied to */
+  segmentIndex: number;
+
+  /** Short human-readable description of the edit */
+  description: string;
+
+  /** Full segment list after the edit was applied */
+  segments: TranscriptSegment[];
+
+  /** Timestamp when the edit was made */
+  createdAt: Date;
 }
 
 /**